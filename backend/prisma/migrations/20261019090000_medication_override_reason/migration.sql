@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Medication" ADD COLUMN "overrideReason" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Medication" ADD COLUMN "quantityDispensed" REAL;
+ALTER TABLE "Medication" ADD COLUMN "daysSupply" INTEGER;
+ALTER TABLE "Medication" ADD COLUMN "refills" INTEGER;
+ALTER TABLE "Medication" ADD COLUMN "dispensedAt" DATETIME;
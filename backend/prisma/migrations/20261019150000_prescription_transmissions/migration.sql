@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "PrescriptionTransmission" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "prescriptionId" TEXT NOT NULL,
+    "medicationId" TEXT NOT NULL,
+    "pharmacyId" TEXT NOT NULL,
+    "pharmacyName" TEXT,
+    "adapter" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "statusNote" TEXT,
+    "sentAt" DATETIME,
+    "acknowledgedAt" DATETIME,
+    "filledAt" DATETIME,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PrescriptionTransmission_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "Prescription" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "PrescriptionTransmission_medicationId_fkey" FOREIGN KEY ("medicationId") REFERENCES "Medication" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PrescriptionMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transmissionId" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "messageType" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "relatesToMessageId" TEXT,
+    "status" TEXT,
+    "payload" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PrescriptionMessage_transmissionId_fkey" FOREIGN KEY ("transmissionId") REFERENCES "PrescriptionTransmission" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PrescriptionTransmission_messageId_key" ON "PrescriptionTransmission"("messageId");
+
+-- CreateIndex
+CREATE INDEX "PrescriptionTransmission_prescriptionId_idx" ON "PrescriptionTransmission"("prescriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PrescriptionMessage_messageId_key" ON "PrescriptionMessage"("messageId");
+
+-- CreateIndex
+CREATE INDEX "PrescriptionMessage_transmissionId_idx" ON "PrescriptionMessage"("transmissionId");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Medication" ADD COLUMN "deaSchedule" TEXT;
+
+-- CreateTable
+CREATE TABLE "ControlledSubstanceLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "prescriptionId" TEXT NOT NULL,
+    "medicationId" TEXT NOT NULL,
+    "prescriberId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "drugName" TEXT NOT NULL,
+    "dosage" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "quantity" REAL,
+    "daysSupply" INTEGER,
+    "refills" INTEGER,
+    "dailyMme" REAL,
+    "patientDailyMme" REAL,
+    "mmeLevel" TEXT,
+    "reauthMethod" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ControlledSubstanceLog_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "Prescription" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ControlledSubstanceLog_medicationId_fkey" FOREIGN KEY ("medicationId") REFERENCES "Medication" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ControlledSubstanceLog_patientId_idx" ON "ControlledSubstanceLog"("patientId");
+
+-- CreateIndex
+CREATE INDEX "ControlledSubstanceLog_prescriberId_idx" ON "ControlledSubstanceLog"("prescriberId");
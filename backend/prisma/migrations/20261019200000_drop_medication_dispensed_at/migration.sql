@@ -0,0 +1,31 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `dispensedAt` on the `Medication` table. All the data in the column will be lost.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Medication" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "dosage" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "duration" INTEGER,
+    "notes" TEXT,
+    "overrideReason" TEXT,
+    "quantityDispensed" REAL,
+    "daysSupply" INTEGER,
+    "refills" INTEGER,
+    "deaSchedule" TEXT,
+    "prescriptionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Medication_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "Prescription" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Medication" ("createdAt", "daysSupply", "deaSchedule", "dosage", "duration", "frequency", "id", "name", "notes", "overrideReason", "prescriptionId", "quantityDispensed", "refills", "updatedAt") SELECT "createdAt", "daysSupply", "deaSchedule", "dosage", "duration", "frequency", "id", "name", "notes", "overrideReason", "prescriptionId", "quantityDispensed", "refills", "updatedAt" FROM "Medication";
+DROP TABLE "Medication";
+ALTER TABLE "new_Medication" RENAME TO "Medication";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
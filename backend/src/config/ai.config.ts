@@ -1,19 +1,27 @@
-interface AIModelConfig {
+import { PhiCategory } from '../utils/phiDeidentifier';
+
+export interface AIModelConfig {
     modelName: string;
-    provider: string;
+    provider: string; // 'openai' | 'azure' | 'local'
     version: string;
     apiEndpoint: string;
     maxTokens: number;
     temperature: number;
-    timeout: number;
+    timeout: number; // ms per attempt
+    maxRetries?: number; // retries after the first attempt for rate limits, timeouts and server errors
+    retryDelayMs?: number; // backoff before the first retry, doubled for each further retry
+    maxRepairs?: number; // follow-up requests asking the model to fix output that fails its schema
+    jsonMode?: boolean; // model supports the provider's JSON response format
 }
 
-interface AIConfig {
+export interface AIConfig {
     openai: {
         diagnosisModel: AIModelConfig;
         medicalTranscriptionModel: AIModelConfig;
         healthAnalyticsModel: AIModelConfig;
         prescriptionModel: AIModelConfig;
+        medicalHistoryModel: AIModelConfig;
+        reportAnalysisModel: AIModelConfig;
     };
     azure: {
         healthInsightsModel: AIModelConfig;
@@ -34,7 +42,8 @@ export const aiConfig: AIConfig = {
             apiEndpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1',
             maxTokens: 2000,
             temperature: 0.3,
-            timeout: 30000
+            timeout: 30000,
+            maxRetries: 2
         },
         medicalTranscriptionModel: {
             modelName: 'whisper-1',
@@ -43,7 +52,8 @@ export const aiConfig: AIConfig = {
             apiEndpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1',
             maxTokens: 4000,
             temperature: 0.2,
-            timeout: 60000
+            timeout: 60000,
+            maxRetries: 2
         },
         healthAnalyticsModel: {
             modelName: 'gpt-4',
@@ -52,7 +62,8 @@ export const aiConfig: AIConfig = {
             apiEndpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1',
             maxTokens: 3000,
             temperature: 0.4,
-            timeout: 45000
+            timeout: 45000,
+            maxRetries: 2
         },
         prescriptionModel: {
             modelName: 'gpt-4',
@@ -61,7 +72,28 @@ export const aiConfig: AIConfig = {
             apiEndpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1',
             maxTokens: 2000,
             temperature: 0.2,
-            timeout: 30000
+            timeout: 30000,
+            maxRetries: 2
+        },
+        medicalHistoryModel: {
+            modelName: 'gpt-4',
+            provider: 'openai',
+            version: '1.0',
+            apiEndpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1',
+            maxTokens: 2000,
+            temperature: 0.3,
+            timeout: 45000,
+            maxRetries: 2
+        },
+        reportAnalysisModel: {
+            modelName: 'gpt-4',
+            provider: 'openai',
+            version: '1.0',
+            apiEndpoint: process.env.OPENAI_API_ENDPOINT || 'https://api.openai.com/v1',
+            maxTokens: 2000,
+            temperature: 0.2,
+            timeout: 30000,
+            maxRetries: 2
         }
     },
     azure: {
@@ -72,7 +104,8 @@ export const aiConfig: AIConfig = {
             apiEndpoint: process.env.AZURE_HEALTH_ENDPOINT || 'https://api.cognitive.azure.com/health',
             maxTokens: 2000,
             temperature: 0.3,
-            timeout: 30000
+            timeout: 30000,
+            maxRetries: 2
         },
         medicalImageAnalysisModel: {
             modelName: 'azure-medical-imaging',
@@ -81,7 +114,8 @@ export const aiConfig: AIConfig = {
             apiEndpoint: process.env.AZURE_VISION_ENDPOINT || 'https://api.cognitive.azure.com/vision',
             maxTokens: 0,
             temperature: 0,
-            timeout: 45000
+            timeout: 45000,
+            maxRetries: 2
         }
     },
     local: {
@@ -89,19 +123,63 @@ export const aiConfig: AIConfig = {
             modelName: 'triage-bert',
             provider: 'local',
             version: '1.0',
-            apiEndpoint: 'http://localhost:8000',
+            apiEndpoint: process.env.LOCAL_TRIAGE_MODEL_ENDPOINT || 'http://localhost:8000/v1',
             maxTokens: 512,
             temperature: 0.2,
-            timeout: 15000
+            timeout: 15000,
+            maxRetries: 2
         },
         symptomCheckerModel: {
             modelName: 'symptom-analyzer',
             provider: 'local',
             version: '1.0',
-            apiEndpoint: 'http://localhost:8001',
+            apiEndpoint: process.env.LOCAL_SYMPTOM_MODEL_ENDPOINT || 'http://localhost:8001/v1',
             maxTokens: 1024,
             temperature: 0.3,
-            timeout: 20000
+            timeout: 20000,
+            maxRetries: 2
         }
     }
-}; 
\ No newline at end of file
+};
+
+/**
+ * List price in USD per 1,000 tokens, used to estimate AI spend against budgets
+ */
+export interface ModelPricing {
+    inputPer1K: number;
+    outputPer1K: number;
+}
+
+// Models match the longest key their name starts with; unknown models are priced as `default`
+export const aiPricing: Record<string, ModelPricing> = {
+    'gpt-4': { inputPer1K: 0.03, outputPer1K: 0.06 },
+    'gpt-4-turbo': { inputPer1K: 0.01, outputPer1K: 0.03 },
+    'gpt-4o': { inputPer1K: 0.0025, outputPer1K: 0.01 },
+    'gpt-4o-mini': { inputPer1K: 0.00015, outputPer1K: 0.0006 },
+    'gpt-3.5-turbo': { inputPer1K: 0.0005, outputPer1K: 0.0015 },
+    'triage-bert': { inputPer1K: 0, outputPer1K: 0 },
+    'symptom-analyzer': { inputPer1K: 0, outputPer1K: 0 },
+    default: { inputPer1K: 0.03, outputPer1K: 0.06 }
+};
+
+/**
+ * Whether PHI in prompts is replaced with pseudonyms before they are sent to a provider
+ */
+export interface DeidentificationPolicy {
+    enabled: boolean;
+    categories?: PhiCategory[]; // all categories when omitted
+}
+
+const deidentify = (provider: string, enabledByDefault: boolean): DeidentificationPolicy => {
+    const override = process.env[`LLM_DEIDENTIFY_${provider.toUpperCase()}`];
+    return { enabled: override ? override === 'true' : enabledByDefault };
+};
+
+// Keyed by provider; `local` models run on our own servers, so their prompts keep PHI by default.
+// Fixture recordings follow the policy of the provider they record from.
+export const deidentificationPolicies: Record<string, DeidentificationPolicy> = {
+    openai: deidentify('openai', true),
+    azure: deidentify('azure', true),
+    local: deidentify('local', false),
+    default: deidentify('default', true)
+};
@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import { aiUsageService, AIUsageError } from '../services/AIUsageService';
+import { AIInvocationOutcome } from '../models/AIInvocation';
+
+/**
+ * Controller for the AI usage ledger and budgets
+ */
+class AIUsageController {
+  /**
+   * Spend, tokens and error rates by feature, user, department and model
+   */
+  public getSummary = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { from, to } = req.query;
+        const summary = await aiUsageService.getSummary(
+          from ? new Date(from as string) : undefined,
+          to ? new Date(to as string) : undefined
+        );
+        return res.status(200).json({ success: true, data: summary });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Ledger entries, newest first
+   */
+  public listInvocations = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { feature, userId, departmentId, outcome, from, to, limit } = req.query;
+        const invocations = await aiUsageService.listInvocations({
+          feature: feature as string | undefined,
+          userId: userId as string | undefined,
+          departmentId: departmentId as string | undefined,
+          outcome: outcome as AIInvocationOutcome | undefined,
+          from: from ? new Date(from as string) : undefined,
+          to: to ? new Date(to as string) : undefined,
+          limit: limit ? Number(limit) : undefined
+        });
+        return res.status(200).json({ success: true, data: invocations });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Budgets with their spend in the current period
+   */
+  public listBudgets = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const budgets = await aiUsageService.listBudgets(req.query.includeInactive === 'true');
+        return res.status(200).json({ success: true, data: budgets });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Add a user, department or feature budget
+   */
+  public createBudget = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { scope, scopeId, period, limitUsd, tokenLimit, description } = req.body;
+        const budget = await aiUsageService.createBudget(
+          {
+            scope,
+            scopeId: String(scopeId),
+            period,
+            limitUsd: Number(limitUsd),
+            tokenLimit: tokenLimit === undefined ? undefined : Number(tokenLimit),
+            description
+          },
+          req.user?.id as string
+        );
+        return res.status(201).json({ success: true, data: budget });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Change a budget's limits
+   */
+  public updateBudget = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { limitUsd, tokenLimit, description } = req.body;
+        const budget = await aiUsageService.updateBudget(
+          req.params.id,
+          {
+            limitUsd: limitUsd === undefined ? undefined : Number(limitUsd),
+            tokenLimit: tokenLimit === undefined ? undefined : Number(tokenLimit),
+            description
+          },
+          req.user?.id as string
+        );
+        return res.status(200).json({ success: true, data: budget });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Stop enforcing a budget
+   */
+  public deactivateBudget = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const budget = await aiUsageService.deactivateBudget(req.params.id, req.user?.id as string);
+        return res.status(200).json({ success: true, data: budget });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map budget errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof AIUsageError)) {
+      logger.error(`AI usage error: ${error}`);
+      return error;
+    }
+
+    switch (error.code) {
+      case 'BUDGET_NOT_FOUND':
+        return AppError.notFound(error.message);
+      case 'BUDGET_EXISTS':
+        return AppError.conflict(error.message, { code: error.code, ...(error.details as object) });
+      default:
+        return AppError.validation(error.message, { code: error.code, ...(error.details as object) });
+    }
+  }
+}
+
+export default new AIUsageController();
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { asyncHandler } from '../utils/asyncHandler';
+import logger from '../utils/logger';
+import AdherenceOutreachService from '../services/AdherenceOutreachService';
+
+/**
+ * Controller for adherence outreach campaigns
+ */
+class AdherenceOutreachController {
+  /**
+   * A patient's outreach campaigns with the actions taken, most recent first
+   */
+  public getCampaignHistory = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const campaigns = await AdherenceOutreachService.getInstance().getCampaignHistory(
+          new mongoose.Types.ObjectId(req.params.patientId)
+        );
+        return res.status(200).json({ success: true, data: campaigns });
+      } catch (error) {
+        logger.error(`Adherence outreach error: ${error}`);
+        return next(error);
+      }
+    }
+  );
+}
+
+export default new AdherenceOutreachController();
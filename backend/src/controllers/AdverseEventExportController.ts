@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import { adverseEventExportService, AdverseEventExportError } from '../services/AdverseEventExportService';
+import { AdverseEventExportFormat, DeidentificationLevel } from '../utils/adverseEventExport';
+
+/**
+ * Controller for exporting reported safety issues as adverse event case reports
+ */
+class AdverseEventExportController {
+  /**
+   * Check an issue against the required fields of an export format
+   */
+  public validateExport = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const result = await adverseEventExportService.validateExport(
+          req.params.issueId,
+          req.query.format as AdverseEventExportFormat,
+          (req.query.deidentification as DeidentificationLevel) || 'safe_harbor'
+        );
+        return res.status(200).json({ success: true, data: result });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Export an issue and download the report
+   */
+  public exportIssue = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const file = await adverseEventExportService.exportIssue(
+          req.params.issueId,
+          req.body.format,
+          req.body.deidentification || 'safe_harbor',
+          req.user?.id as string
+        );
+
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        res.setHeader('Cache-Control', 'no-store');
+        res.setHeader('X-Export-Id', file.record._id.toString());
+        return res.status(201).send(file.content);
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * List previous exports of an issue
+   */
+  public getExportHistory = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const history = await adverseEventExportService.getExportHistory(req.params.issueId);
+        return res.status(200).json({ success: true, data: history });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map export errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof AdverseEventExportError)) {
+      logger.error(`Adverse event export error: ${error}`);
+      return error;
+    }
+
+    return error.code === 'ISSUE_NOT_FOUND'
+      ? AppError.notFound(error.message)
+      : AppError.validation(error.message, { code: error.code, errors: error.errors });
+  }
+}
+
+export default new AdverseEventExportController();
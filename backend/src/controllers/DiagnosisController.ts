@@ -72,7 +72,7 @@ class DiagnosisController {
 
       // Get treatment recommendations
       const treatmentPlan = await this.treatmentRecommender.recommendTreatment(
-        diagnosisSuggestions.suggestions || [],
+        diagnosisSuggestions.suggestions.map(suggestion => suggestion.condition),
         patient
       );
 
@@ -82,15 +82,15 @@ class DiagnosisController {
           patientId,
           symptoms,
           conditions: {
-            create: diagnosisSuggestions.suggestions?.map((s: any) => ({
+            create: diagnosisSuggestions.suggestions.map(s => ({
               name: s.condition,
-              confidence: s.confidence || 0,
-              description: s.description || '',
-              recommendedTreatments: s.treatments || []
-            })) || []
+              confidence: s.confidence,
+              description: s.description,
+              recommendedTreatments: s.treatments
+            }))
           },
           treatmentPlan: treatmentPlan.recommendations?.join('\n') || '',
-          aiConfidenceScore: diagnosisSuggestions.confidence || 0,
+          aiConfidenceScore: diagnosisSuggestions.confidence,
           status: 'preliminary',
           doctorId: (req.user as any)?.id
         },
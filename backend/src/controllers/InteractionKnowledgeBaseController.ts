@@ -0,0 +1,227 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import {
+  interactionKnowledgeBase,
+  InteractionKnowledgeBaseError
+} from '../services/InteractionKnowledgeBaseService';
+import { DrugInteractionService } from '../services/ai/DrugInteractionService';
+import { InteractionSeverity } from '../types/medical';
+
+/**
+ * Admin controller for the drug interaction knowledge base
+ */
+class InteractionKnowledgeBaseController {
+  /**
+   * List all knowledge base releases
+   */
+  public listReleases = asyncHandler(
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const releases = await interactionKnowledgeBase.listReleases();
+        return res.status(200).json({ success: true, data: releases });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get a single release
+   */
+  public getRelease = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const release = await interactionKnowledgeBase.getRelease(Number(req.params.version));
+        return res.status(200).json({ success: true, data: release });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Create a new draft release
+   */
+  public createDraft = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { label, notes, source, cloneFromVersion } = req.body;
+        const release = await interactionKnowledgeBase.createDraft({
+          label,
+          notes,
+          source,
+          cloneFromVersion: cloneFromVersion !== undefined ? Number(cloneFromVersion) : undefined,
+          createdBy: req.user?.id
+        });
+        return res.status(201).json({ success: true, data: release });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Publish a draft release and reload the interaction checker
+   */
+  public publishRelease = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const release = await interactionKnowledgeBase.publishRelease(Number(req.params.version), req.user?.id);
+        await DrugInteractionService.getInstance().updateInteractionDatabase();
+        return res.status(200).json({ success: true, data: release });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Restore a previously published release and reload the interaction checker
+   */
+  public rollbackRelease = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const release = await interactionKnowledgeBase.rollbackToRelease(Number(req.params.version), req.user?.id);
+        await DrugInteractionService.getInstance().updateInteractionDatabase();
+        logger.warn(`Drug interaction knowledge base rolled back to release ${release.version}`, {
+          userId: req.user?.id
+        });
+        return res.status(200).json({ success: true, data: release });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Compare two releases
+   */
+  public diffReleases = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const diff = await interactionKnowledgeBase.diffReleases(Number(req.query.from), Number(req.query.to));
+        return res.status(200).json({
+          success: true,
+          data: {
+            ...diff,
+            summary: {
+              added: diff.added.length,
+              removed: diff.removed.length,
+              changed: diff.changed.length
+            }
+          }
+        });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Bulk import entries (CSV text or JSON array) into a draft release
+   */
+  public importEntries = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { format, data, mode, skipInvalid } = req.body;
+        const result = await interactionKnowledgeBase.importEntries(Number(req.params.version), data, {
+          format,
+          mode,
+          skipInvalid: Boolean(skipInvalid)
+        });
+        return res.status(200).json({ success: true, data: result });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * List interactions in a release
+   */
+  public listInteractions = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const interactions = await interactionKnowledgeBase.listInteractions(Number(req.params.version), {
+          drug: req.query.drug as string | undefined,
+          severity: req.query.severity as InteractionSeverity | undefined
+        });
+        return res.status(200).json({ success: true, data: interactions });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Add an interaction to a draft release
+   */
+  public createInteraction = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const interaction = await interactionKnowledgeBase.addInteraction(Number(req.params.version), req.body);
+        return res.status(201).json({ success: true, data: interaction });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Update an interaction in a draft release
+   */
+  public updateInteraction = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const interaction = await interactionKnowledgeBase.updateInteraction(
+          Number(req.params.version),
+          req.params.interactionId,
+          req.body
+        );
+        return res.status(200).json({ success: true, data: interaction });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Remove an interaction from a draft release
+   */
+  public deleteInteraction = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await interactionKnowledgeBase.deleteInteraction(Number(req.params.version), req.params.interactionId);
+        return res.status(200).json({ success: true, message: 'Interaction removed' });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map knowledge base errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof InteractionKnowledgeBaseError)) {
+      logger.error(`Drug interaction knowledge base error: ${error}`);
+      return error;
+    }
+
+    switch (error.code) {
+      case 'RELEASE_NOT_FOUND':
+      case 'INTERACTION_NOT_FOUND':
+        return AppError.notFound(error.message, error.details);
+      case 'DUPLICATE_INTERACTION':
+      case 'RELEASE_NOT_EDITABLE':
+      case 'INVALID_RELEASE_STATE':
+        return AppError.conflict(error.message, error.details);
+      default:
+        return AppError.validation(error.message, error.details);
+    }
+  }
+}
+
+export default new InteractionKnowledgeBaseController();
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import {
+  medicationReconciliationService,
+  MedicationReconciliationError
+} from '../services/MedicationReconciliationService';
+
+/**
+ * Controller for medication reconciliation at admission, transfer and discharge
+ */
+class MedicationReconciliationController {
+  /**
+   * Start a reconciliation run
+   */
+  public startReconciliation = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { patientId, encounterType, homeList, activeOrders, discontinuations } = req.body;
+        const reconciliation = await medicationReconciliationService.startReconciliation({
+          patientId,
+          encounterType,
+          homeList,
+          activeOrders,
+          discontinuations,
+          startedBy: req.user?.id as string
+        });
+
+        return res.status(201).json({
+          success: true,
+          data: {
+            reconciliation,
+            summary: medicationReconciliationService.summarize(reconciliation.lines)
+          }
+        });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get a reconciliation, including whether its signature is intact
+   */
+  public getReconciliation = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const reconciliation = await medicationReconciliationService.getReconciliation(req.params.id);
+        return res.status(200).json({
+          success: true,
+          data: {
+            reconciliation,
+            signatureValid: reconciliation.signature
+              ? medicationReconciliationService.verifySignature(reconciliation)
+              : undefined
+          }
+        });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * List reconciliations for a patient
+   */
+  public listPatientReconciliations = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const reconciliations = await medicationReconciliationService.listPatientReconciliations(req.params.patientId);
+        return res.status(200).json({ success: true, data: reconciliations });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Accept or reject a reconciliation line
+   */
+  public decideLine = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const reconciliation = await medicationReconciliationService.decideLine(
+          req.params.id,
+          req.params.lineId,
+          req.body.decision,
+          req.user?.id as string,
+          req.body.comment
+        );
+        return res.status(200).json({ success: true, data: reconciliation });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Sign a fully decided reconciliation
+   */
+  public signReconciliation = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const reconciliation = await medicationReconciliationService.signReconciliation(
+          req.params.id,
+          req.user?.id as string
+        );
+        return res.status(200).json({ success: true, data: reconciliation });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map reconciliation errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof MedicationReconciliationError)) {
+      logger.error(`Medication reconciliation error: ${error}`);
+      return error;
+    }
+
+    switch (error.code) {
+      case 'RECONCILIATION_NOT_FOUND':
+      case 'LINE_NOT_FOUND':
+      case 'PATIENT_NOT_FOUND':
+        return AppError.notFound(error.message);
+      case 'RECONCILIATION_SIGNED':
+      case 'LINES_PENDING':
+        return AppError.conflict(error.message, { code: error.code });
+      default:
+        return AppError.validation(error.message, { code: error.code });
+    }
+  }
+}
+
+export default new MedicationReconciliationController();
@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import MedicationReminderService, { MedicationReminderError } from '../services/MedicationReminderService';
+
+/**
+ * Controller for a patient's medication reminders and push subscriptions
+ */
+class MedicationReminderController {
+  /**
+   * List the current user's open reminders
+   */
+  public getUpcoming = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const reminders = await MedicationReminderService.getInstance().getUpcomingReminders(
+          req.user?.id as string,
+          req.query.hours ? Number(req.query.hours) : undefined
+        );
+        return res.status(200).json({ success: true, data: reminders });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Mark a reminder taken or skipped, or snooze it
+   */
+  public respond = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const reminder = await MedicationReminderService.getInstance().respond(
+          req.params.reminderId,
+          req.user?.id as string,
+          req.body.action,
+          { snoozeMinutes: req.body.snoozeMinutes, reason: req.body.reason }
+        );
+        return res.status(200).json({ success: true, data: reminder });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Public key for subscribing to Web Push
+   */
+  public getPushKey = asyncHandler(
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const publicKey = MedicationReminderService.getInstance().getVapidPublicKey();
+        if (!publicKey) {
+          return next(AppError.notFound('Web Push is not configured'));
+        }
+        return res.status(200).json({ success: true, data: { publicKey } });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Register a browser push subscription
+   */
+  public subscribe = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const subscription = await MedicationReminderService.getInstance().subscribe(
+          req.user?.id as string,
+          { endpoint: req.body.endpoint, keys: req.body.keys },
+          req.get('user-agent')
+        );
+        return res.status(201).json({ success: true, data: { id: subscription._id, endpoint: subscription.endpoint } });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Remove a browser push subscription
+   */
+  public unsubscribe = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const removed = await MedicationReminderService.getInstance().unsubscribe(req.user?.id as string, req.body.endpoint);
+        return res.status(200).json({ success: true, data: { removed } });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map reminder errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof MedicationReminderError) || error.code === 'NOT_INITIALIZED') {
+      logger.error(`Medication reminder error: ${error}`);
+      return error;
+    }
+
+    switch (error.code) {
+      case 'REMINDER_NOT_FOUND':
+        return AppError.notFound(error.message);
+      case 'REMINDER_CLOSED':
+      case 'SNOOZE_LIMIT':
+        return AppError.conflict(error.message, { code: error.code });
+      default:
+        return AppError.validation(error.message, { code: error.code });
+    }
+  }
+}
+
+export default new MedicationReminderController();
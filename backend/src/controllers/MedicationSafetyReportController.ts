@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import { medicationSafetyMonitor } from '../services/MedicationSafetyMonitor';
+
+/**
+ * Controller for patient medication safety reports
+ */
+class MedicationSafetyReportController {
+  /**
+   * Get a patient's medication safety report
+   */
+  public getPatientReport = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const report = await medicationSafetyMonitor.generatePatientSafetyReport(req.params.patientId);
+        if (!report) {
+          return next(AppError.notFound(`Patient ${req.params.patientId} not found`));
+        }
+        return res.status(200).json({ success: true, data: report });
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+
+  /**
+   * Download a patient's medication safety report as a PDF
+   */
+  public downloadPatientReportPdf = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const pdf = await medicationSafetyMonitor.generatePatientSafetyReportPdf(req.params.patientId);
+        if (!pdf) {
+          return next(AppError.notFound(`Patient ${req.params.patientId} not found`));
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="medication-safety-report-${req.params.patientId}.pdf"`);
+        res.setHeader('Cache-Control', 'no-store');
+        return res.status(200).send(pdf);
+      } catch (error) {
+        return next(error);
+      }
+    }
+  );
+}
+
+export default new MedicationSafetyReportController();
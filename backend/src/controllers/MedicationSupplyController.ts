@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import MedicationAdherenceService, { AdherenceDataNotFoundError } from '../services/MedicationAdherenceService';
+import MedicationScheduleModel from '../models/MedicationSchedule';
+import MedicationEventModel from '../models/MedicationEvent';
+import AdherenceAlertModel from '../models/AdherenceAlert';
+import { Patient } from '../models/Patient';
+
+const CLINICAL_ROLES = ['doctor', 'nurse', 'admin'];
+
+/**
+ * Controller for dispensing and supply forecasts on a patient's medication schedules
+ */
+class MedicationSupplyController {
+  /**
+   * Projected supply and run-out dates for the patient's dispensed medications, soonest first.
+   * Patients may only read their own record, matched through the patient's user account.
+   */
+  public getSupplyForecasts = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const isClinician = req.user?.roles.some(role => CLINICAL_ROLES.includes(role));
+        if (!isClinician && !(await this.isOwnRecord(req.params.patientId, req.user?.id))) {
+          return next(AppError.forbidden('Insufficient permissions'));
+        }
+
+        const forecasts = await this.adherenceService().getSupplyForecasts(
+          new mongoose.Types.ObjectId(req.params.patientId)
+        );
+        return res.status(200).json({ success: true, data: forecasts });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Record medication dispensed to the patient against their active schedule
+   */
+  public recordDispense = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const schedule = await this.adherenceService().recordDispense(
+          new mongoose.Types.ObjectId(req.params.patientId),
+          new mongoose.Types.ObjectId(req.params.medicationId),
+          {
+            dispensedAt: req.body.dispensedAt ? new Date(req.body.dispensedAt) : new Date(),
+            quantity: req.body.quantity,
+            daysSupply: req.body.daysSupply,
+            refillsRemaining: req.body.refillsRemaining
+          }
+        );
+        return res.status(201).json({ success: true, data: schedule });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Whether the patient record belongs to the user; schedules reference the patient, not the user
+   */
+  private async isOwnRecord(patientId: string, userId?: string): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+    const patient = await Patient.findById(patientId).select('userId');
+    return patient !== null && String(patient.userId) === userId;
+  }
+
+  private adherenceService(): MedicationAdherenceService {
+    return MedicationAdherenceService.getInstance(MedicationScheduleModel, MedicationEventModel, AdherenceAlertModel);
+  }
+
+  /**
+   * Map adherence errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (error instanceof AdherenceDataNotFoundError) {
+      return AppError.notFound(error.message);
+    }
+
+    logger.error(`Medication supply error: ${error}`);
+    return error;
+  }
+}
+
+export default new MedicationSupplyController();
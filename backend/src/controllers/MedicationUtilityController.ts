@@ -2,18 +2,24 @@ import { Request, Response, NextFunction } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
 import logger from '../utils/logger';
 import medicationAnalyzer from '../utils/medicationAnalyzer';
+import doseAdjustmentEngine, { OrganFunctionAssessment } from '../utils/doseAdjustment';
+import sigParser, { StructuredSig } from '../utils/sigParser';
+import pediatricDosingCalculator, { PediatricDoseOrder } from '../utils/pediatricDosing';
+import { MedicationRepository } from '../repositories/MedicationRepository';
 
 /**
  * Controller for medication utility endpoints
  */
 class MedicationUtilityController {
   /**
-   * Parse and analyze a medication dosage
+   * Parse and analyze a medication dosage.
+   * When patient data is supplied, kidney and liver function are assessed and,
+   * if a medicationId is given, the dosage is checked against the adjusted range.
    */
   public analyzeDosage = asyncHandler(
     async (req: Request, res: Response, next: NextFunction) => {
       try {
-        const { dosage } = req.body;
+        const { dosage, medicationId, patient, condition } = req.body;
         
         if (!dosage) {
           return res.status(400).json({
@@ -25,13 +31,46 @@ class MedicationUtilityController {
         // Parse the dosage
         const parsedDosage = medicationAnalyzer.parseDosage(dosage);
         
+        let organFunction: OrganFunctionAssessment | undefined;
+        if (patient) {
+          organFunction = doseAdjustmentEngine.assessOrganFunction({
+            ...doseAdjustmentEngine.extractLabValues(patient.labResults || []),
+            ...patient
+          });
+        }
+        
+        let dosageCheck;
+        if (medicationId) {
+          const medication = await MedicationRepository.getInstance().getMedicationById(medicationId);
+          
+          if (!medication) {
+            return res.status(404).json({
+              success: false,
+              error: 'Medication not found'
+            });
+          }
+          
+          dosageCheck = medicationAnalyzer.checkDosage(
+            medication,
+            dosage,
+            patient?.weight,
+            patient?.age,
+            condition,
+            organFunction
+          );
+        }
+        
         return res.status(200).json({
           success: true,
           data: {
             dosage,
             parsedDosage,
             isValid: parsedDosage.isValid,
-            message: parsedDosage.validationMessage
+            message: dosageCheck?.message || parsedDosage.validationMessage,
+            isWithinRange: dosageCheck?.isWithinRange,
+            recommendedRange: dosageCheck?.recommendedRange,
+            organFunction,
+            doseAdjustment: dosageCheck?.doseAdjustment
           }
         });
       } catch (error) {
@@ -74,6 +113,116 @@ class MedicationUtilityController {
     }
   );
   
+  /**
+   * Calculate a weight- (mg/kg) or BSA-based (mg/m²) dose for a pediatric patient.
+   * The dose order comes from the request or from the medication's pediatric dosage range.
+   */
+  public calculatePediatricDose = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { patient, medicationId, frequency, bsaFormula } = req.body;
+        let order: PediatricDoseOrder | null = req.body.order || null;
+
+        if (medicationId) {
+          const medication = await MedicationRepository.getInstance().getMedicationById(medicationId);
+
+          if (!medication) {
+            return res.status(404).json({
+              success: false,
+              error: 'Medication not found'
+            });
+          }
+
+          const medicationOrder = pediatricDosingCalculator.orderFromMedication(medication, frequency);
+          order = medicationOrder ? { ...medicationOrder, ...order } : order;
+        }
+
+        if (!order) {
+          return res.status(400).json({
+            success: false,
+            error: 'A dose order or a medication with a weight- or BSA-based pediatric dosage is required'
+          });
+        }
+
+        if (order.basis === 'm2' && !patient.height) {
+          return res.status(400).json({
+            success: false,
+            error: 'Height is required for BSA-based dosing'
+          });
+        }
+
+        const result = pediatricDosingCalculator.calculateDose(
+          { weightKg: Number(patient.weight), heightCm: patient.height ? Number(patient.height) : undefined, ageYears: patient.age },
+          { ...order, frequency: order.frequency || frequency, bsaFormula: bsaFormula || order.bsaFormula }
+        );
+
+        return res.status(200).json({
+          success: true,
+          data: {
+            ...result,
+            order
+          }
+        });
+      } catch (error) {
+        logger.error(`Error calculating pediatric dose: ${error}`);
+        return next(error);
+      }
+    }
+  );
+
+  /**
+   * Parse free-text directions (or separate dosage and frequency fields) into a structured sig
+   */
+  public parseSig = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { text, dosage, frequency } = req.body;
+        const sig = text ? sigParser.parse(text) : sigParser.fromParts(dosage, frequency);
+
+        return res.status(200).json({
+          success: true,
+          data: this.describeSig(sig)
+        });
+      } catch (error) {
+        logger.error(`Error parsing sig: ${error}`);
+        return next(error);
+      }
+    }
+  );
+
+  /**
+   * Render a structured sig as patient-friendly directions
+   */
+  public renderSig = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const sig: StructuredSig = { warnings: [], ...req.body.sig, asNeeded: Boolean(req.body.sig.asNeeded) };
+
+        return res.status(200).json({
+          success: true,
+          data: this.describeSig(sig)
+        });
+      } catch (error) {
+        logger.error(`Error rendering sig: ${error}`);
+        return next(error);
+      }
+    }
+  );
+
+  /**
+   * Structured sig with its rendering, daily amount, default dose times and days between dosing days
+   */
+  private describeSig(sig: StructuredSig) {
+    return {
+      sig,
+      directions: sigParser.render(sig),
+      dosesPerDay: sigParser.getDosesPerDay(sig),
+      dailyDose: sigParser.calculateDailyDose(sig),
+      scheduleTimes: sigParser.getScheduleTimes(sig),
+      scheduleIntervalDays: sigParser.getIntervalDays(sig)
+    };
+  }
+
   /**
    * Format time in hours to a human-readable format
    */
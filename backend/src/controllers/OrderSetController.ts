@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import { orderSetService, OrderSetError } from '../services/OrderSetService';
+import { ControlledSubstanceError } from '../services/ControlledSubstanceService';
+
+/**
+ * Controller for medication order sets
+ */
+class OrderSetController {
+  /**
+   * List current order sets, optionally for a guideline or ICD-10 code
+   */
+  public listOrderSets = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { guidelineId, icdCode, includeRetired } = req.query;
+        const orderSets = await orderSetService.listOrderSets({
+          guidelineId: guidelineId as string | undefined,
+          icdCode: icdCode as string | undefined,
+          includeRetired: includeRetired === 'true'
+        });
+        return res.status(200).json({ success: true, data: orderSets });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get an order set version
+   */
+  public getOrderSet = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const orderSet = await orderSetService.getOrderSet(req.params.id);
+        return res.status(200).json({ success: true, data: orderSet });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get every version of an order set
+   */
+  public getVersions = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const versions = await orderSetService.getVersions(req.params.key);
+        return res.status(200).json({ success: true, data: versions });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Create an order set
+   */
+  public createOrderSet = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const orderSet = await orderSetService.createOrderSet(req.body, req.user?.id as string);
+        return res.status(201).json({ success: true, data: orderSet });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Save changes to an order set as a new version
+   */
+  public updateOrderSet = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const orderSet = await orderSetService.updateOrderSet(req.params.id, req.body, req.user?.id as string);
+        return res.status(201).json({ success: true, data: orderSet });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Retire an order set
+   */
+  public retireOrderSet = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const orderSet = await orderSetService.retireOrderSet(req.params.id, req.user?.id as string);
+        return res.status(200).json({ success: true, data: orderSet });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Apply an order set to a patient
+   */
+  public applyOrderSet = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { patientId, itemIndexes, overrideReason, twoFactorCode } = req.body;
+        const applied = await orderSetService.applyOrderSet(req.params.id, {
+          patientId: String(patientId),
+          prescriberId: req.user?.id as string,
+          itemIndexes: Array.isArray(itemIndexes) ? itemIndexes.map(Number) : undefined,
+          overrideReason,
+          twoFactorCode
+        });
+        return res.status(201).json({ success: true, data: applied });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map order set and controlled substance errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (error instanceof ControlledSubstanceError) {
+      return AppError.forbidden(error.message, { code: error.code });
+    }
+    if (!(error instanceof OrderSetError)) {
+      logger.error(`Order set error: ${error}`);
+      return error;
+    }
+
+    switch (error.code) {
+      case 'ORDER_SET_NOT_FOUND':
+      case 'GUIDELINE_NOT_FOUND':
+        return AppError.notFound(error.message);
+      case 'DUPLICATE_ORDER_SET':
+      case 'ORDER_SET_RETIRED':
+      case 'SAFETY_REVIEW_REQUIRED':
+      case 'OVERRIDE_REQUIRED':
+        return AppError.conflict(error.message, { code: error.code, ...(error.details as object) });
+      default:
+        return AppError.validation(error.message, { code: error.code, ...(error.details as object) });
+    }
+  }
+}
+
+export default new OrderSetController();
@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import { pharmacogenomicsService, PharmacogenomicsError, RecordPgxResultInput } from '../services/PharmacogenomicsService';
+
+/**
+ * Controller for patient pharmacogenomic results
+ */
+class PharmacogenomicsController {
+  /**
+   * Get a patient's pharmacogenomic results and actionable phenotypes
+   */
+  public getProfile = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const profile = await pharmacogenomicsService.getProfile(req.params.patientId);
+        return res.status(200).json({ success: true, data: profile });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Record results from a pharmacogenomic panel
+   */
+  public recordResults = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const results: RecordPgxResultInput[] = req.body.results.map((result: RecordPgxResultInput) => ({
+          ...result,
+          activityScore: result.activityScore !== undefined ? Number(result.activityScore) : undefined,
+          testedAt: result.testedAt ? new Date(result.testedAt) : undefined
+        }));
+        const profile = await pharmacogenomicsService.recordResults(req.params.patientId, results, req.user?.id as string);
+        return res.status(200).json({ success: true, data: profile });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Remove a patient's result for one gene
+   */
+  public removeResult = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const profile = await pharmacogenomicsService.removeResult(req.params.patientId, req.params.gene, req.user?.id as string);
+        return res.status(200).json({ success: true, data: profile });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get gene–drug recommendations for prescribing a medication to a patient
+   */
+  public getRecommendations = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const recommendations = await pharmacogenomicsService.getRecommendations(req.params.patientId, {
+          name: req.query.drug as string
+        });
+        return res.status(200).json({ success: true, data: recommendations });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map pharmacogenomics errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof PharmacogenomicsError)) {
+      logger.error(`Pharmacogenomics error: ${error}`);
+      return error;
+    }
+
+    return error.code === 'PATIENT_NOT_FOUND' || error.code === 'RESULT_NOT_FOUND'
+      ? AppError.notFound(error.message)
+      : AppError.validation(error.message, { code: error.code });
+  }
+}
+
+export default new PharmacogenomicsController();
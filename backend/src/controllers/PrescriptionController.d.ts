@@ -11,6 +11,15 @@ interface Medication {
 declare class PrescriptionController {
   getPrescriptions(req: Request, res: Response): Promise<Response>;
   createPrescription(req: Request, res: Response): Promise<Response>;
+  getPharmacies(req: Request, res: Response): Promise<Response>;
+  transmitPrescription(req: Request, res: Response): Promise<Response>;
+  getTransmissions(req: Request, res: Response): Promise<Response>;
+  cancelTransmission(req: Request, res: Response): Promise<Response>;
+  getPendingRenewals(req: Request, res: Response): Promise<Response>;
+  respondToRenewal(req: Request, res: Response): Promise<Response>;
+  reviewControlledSubstances(req: Request, res: Response): Promise<Response>;
+  getPatientMme(req: Request, res: Response): Promise<Response>;
+  getControlledSubstanceLog(req: Request, res: Response): Promise<Response>;
 }
 
 declare const prescriptionController: PrescriptionController;
@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { medicationSafetyMonitor } from '../services/MedicationSafetyMonitor';
+import { DeaSchedule } from '../utils/controlledSubstances';
+import { ePrescribingService, EPrescribingError } from '../services/EPrescribingService';
+import { controlledSubstanceService, ControlledSubstanceError, ReauthMethod } from '../services/ControlledSubstanceService';
 
 const prisma = new PrismaClient();
 
@@ -9,6 +13,56 @@ interface Medication {
   frequency: string;
   duration?: number;
   notes?: string;
+  quantityDispensed?: number;
+  daysSupply?: number;
+  refills?: number;
+}
+
+/**
+ * Names of medications on the patient's prescriptions that are still within their duration
+ */
+async function getActiveMedicationNames(patientId: string): Promise<string[]> {
+  const prescriptions = await prisma.prescription.findMany({
+    where: { patientId },
+    include: { medications: true },
+  });
+  const now = Date.now();
+
+  return prescriptions.flatMap((prescription: { medications: Array<{ name: string; duration: number | null; createdAt: Date }> }) =>
+    prescription.medications
+      .filter(med => !med.duration || new Date(med.createdAt).getTime() + med.duration * 24 * 60 * 60 * 1000 > now)
+      .map(med => med.name)
+  );
+}
+
+const E_PRESCRIBING_STATUS: Record<string, number> = {
+  PHARMACY_NOT_FOUND: 404,
+  PRESCRIPTION_NOT_FOUND: 404,
+  TRANSMISSION_NOT_FOUND: 404,
+  RENEWAL_NOT_FOUND: 404,
+  ALREADY_TRANSMITTED: 409,
+  CANCEL_NOT_ALLOWED: 409,
+  RENEWAL_ALREADY_ANSWERED: 409,
+  RENEWAL_NOT_ALLOWED: 422,
+  INVALID_MESSAGE: 400,
+  TRANSPORT_FAILED: 502,
+};
+
+const CONTROLLED_SUBSTANCE_STATUS: Record<string, number> = {
+  REAUTH_REQUIRED: 403,
+  TWO_FACTOR_NOT_ENABLED: 403,
+  REAUTH_FAILED: 403,
+};
+
+/**
+ * Respond with the status for an e-prescribing error, or a server error otherwise
+ */
+function sendEPrescribingError(res: Response, error: unknown, context: string): Response {
+  if (error instanceof EPrescribingError) {
+    return res.status(E_PRESCRIBING_STATUS[error.code] || 400).json({ error: error.message, code: error.code });
+  }
+  console.error(`Error ${context}:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
 }
 
 class PrescriptionController {
@@ -38,7 +92,7 @@ class PrescriptionController {
 
   async createPrescription(req: Request, res: Response): Promise<Response> {
     try {
-      const { patientId, medications } = req.body;
+      const { patientId, medications, overrideReason, pharmacyId, twoFactorCode } = req.body;
       const doctorId = (req.user as { id: string })?.id;
 
       if (!doctorId) {
@@ -49,17 +103,76 @@ class PrescriptionController {
         return res.status(400).json({ error: 'Medications must be an array' });
       }
 
+      // Therapeutic duplication must be acknowledged with a reason before prescribing
+      const duplicationAlerts = await medicationSafetyMonitor.checkDuplicationByName(
+        medications.map((med: Medication) => med.name),
+        await getActiveMedicationNames(String(patientId))
+      );
+
+      if (duplicationAlerts.length > 0 && !overrideReason?.trim()) {
+        return res.status(409).json({
+          error: 'Therapeutic duplication detected. Provide an override reason to proceed.',
+          code: 'OVERRIDE_REQUIRED',
+          alerts: duplicationAlerts,
+        });
+      }
+
+      // Controlled substances must meet schedule limits and need the prescriber's second factor
+      const controlledReview = await controlledSubstanceService.reviewPrescription(
+        String(patientId),
+        medications.map((med: Medication) => ({
+          name: med.name,
+          dosage: med.dosage,
+          frequency: med.frequency,
+          quantity: med.quantityDispensed,
+          daysSupply: med.daysSupply,
+          refills: med.refills,
+        }))
+      );
+
+      if (controlledReview.violations.length > 0) {
+        return res.status(422).json({
+          error: 'Prescription breaks controlled substance rules',
+          code: 'CONTROLLED_SUBSTANCE_VIOLATION',
+          violations: controlledReview.violations,
+        });
+      }
+
+      let reauthMethod: ReauthMethod | undefined;
+      if (controlledReview.reauthRequired) {
+        try {
+          reauthMethod = await controlledSubstanceService.verifyPrescriber(doctorId, twoFactorCode);
+        } catch (error) {
+          if (error instanceof ControlledSubstanceError) {
+            return res.status(CONTROLLED_SUBSTANCE_STATUS[error.code] || 400).json({
+              error: error.message,
+              code: error.code,
+              controlled: controlledReview.controlled,
+            });
+          }
+          throw error;
+        }
+      }
+
+      const schedules = new Map(controlledReview.controlled.map(line => [line.index, line.schedule]));
+      const duplicated = new Set(duplicationAlerts.flatMap(alert => alert.medications));
+
       const prescription = await prisma.prescription.create({
         data: {
           patientId: String(patientId),
           doctorId,
           medications: {
-            create: medications.map((med: Medication) => ({
+            create: medications.map((med: Medication, index: number) => ({
               name: med.name,
               dosage: med.dosage,
               frequency: med.frequency,
               duration: med.duration,
               notes: med.notes,
+              quantityDispensed: med.quantityDispensed,
+              daysSupply: med.daysSupply,
+              refills: med.refills,
+              overrideReason: duplicated.has(med.name) ? overrideReason.trim() : undefined,
+              deaSchedule: schedules.get(index),
             })),
           },
         },
@@ -68,12 +181,204 @@ class PrescriptionController {
         },
       });
 
-      return res.status(201).json(prescription);
+      if (duplicationAlerts.length > 0) {
+        await medicationSafetyMonitor.overrideAlerts(duplicationAlerts, overrideReason, doctorId, {
+          patientId: String(patientId),
+          prescriptionId: prescription.id,
+        });
+      }
+
+      if (reauthMethod) {
+        await controlledSubstanceService.recordPrescribing(prescription, controlledReview, doctorId, reauthMethod);
+      }
+
+      const result = controlledReview.mme.level !== 'none' || controlledReview.controlled.length > 0
+        ? { ...prescription, controlledSubstances: { controlled: controlledReview.controlled, mme: controlledReview.mme } }
+        : prescription;
+
+      // Send to the patient's pharmacy when one is chosen; the prescription stands even if sending fails
+      if (pharmacyId) {
+        try {
+          const transmissions = await ePrescribingService.transmitPrescription(prescription.id, String(pharmacyId), { id: doctorId, roles: req.user?.roles ?? [] });
+          return res.status(201).json({ ...result, transmissions });
+        } catch (error) {
+          console.error('Error transmitting prescription:', error);
+          return res.status(201).json({
+            ...result,
+            transmissions: [],
+            transmissionError: error instanceof EPrescribingError ? error.message : 'Transmission failed',
+          });
+        }
+      }
+
+      return res.status(201).json(result);
     } catch (error) {
       console.error('Error creating prescription:', error);
       return res.status(500).json({ error: 'Internal server error' });
     }
   }
+
+  /**
+   * Search the pharmacy directory of the configured pharmacy network
+   */
+  async getPharmacies(req: Request, res: Response): Promise<Response> {
+    try {
+      const pharmacies = await ePrescribingService.findPharmacies(req.query.q as string | undefined);
+      return res.json(pharmacies);
+    } catch (error) {
+      return sendEPrescribingError(res, error, 'searching pharmacies');
+    }
+  }
+
+  /**
+   * Send a saved prescription to a pharmacy
+   */
+  async transmitPrescription(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const transmissions = await ePrescribingService.transmitPrescription(req.params.id, req.body.pharmacyId, req.user);
+      return res.status(201).json(transmissions);
+    } catch (error) {
+      return sendEPrescribingError(res, error, 'transmitting prescription');
+    }
+  }
+
+  /**
+   * Transmission status and message history for a prescription
+   */
+  async getTransmissions(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const transmissions = await ePrescribingService.getTransmissions(req.params.id, req.user);
+      return res.json(transmissions);
+    } catch (error) {
+      return sendEPrescribingError(res, error, 'getting prescription transmissions');
+    }
+  }
+
+  /**
+   * Ask the pharmacy to cancel a transmitted prescription
+   */
+  async cancelTransmission(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const transmission = await ePrescribingService.cancelTransmission(req.params.transmissionId, req.user, req.body.reason);
+      return res.json(transmission);
+    } catch (error) {
+      return sendEPrescribingError(res, error, 'cancelling prescription transmission');
+    }
+  }
+
+  /**
+   * Pharmacy renewal requests awaiting the current prescriber
+   */
+  async getPendingRenewals(req: Request, res: Response): Promise<Response> {
+    try {
+      const userId = (req.user as { id: string })?.id;
+      if (!userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const renewals = await ePrescribingService.getPendingRenewals(userId);
+      return res.json(renewals);
+    } catch (error) {
+      return sendEPrescribingError(res, error, 'getting renewal requests');
+    }
+  }
+
+  /**
+   * Approve or deny a pharmacy renewal request
+   */
+  async respondToRenewal(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { approved, refills, note } = req.body;
+      const renewal = await ePrescribingService.respondToRenewal(req.params.requestId, req.user, { approved, refills, note });
+      return res.json(renewal);
+    } catch (error) {
+      return sendEPrescribingError(res, error, 'responding to renewal request');
+    }
+  }
+
+  /**
+   * Check medications against controlled substance rules and MME thresholds before signing
+   */
+  async reviewControlledSubstances(req: Request, res: Response): Promise<Response> {
+    try {
+      const { patientId, medications } = req.body;
+      const review = await controlledSubstanceService.reviewPrescription(
+        String(patientId),
+        medications.map((med: Medication) => ({
+          name: med.name,
+          dosage: med.dosage,
+          frequency: med.frequency,
+          quantity: med.quantityDispensed,
+          daysSupply: med.daysSupply,
+          refills: med.refills,
+        }))
+      );
+      return res.json(review);
+    } catch (error) {
+      console.error('Error reviewing controlled substances:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * The patient's current daily morphine milligram equivalents
+   */
+  async getPatientMme(req: Request, res: Response): Promise<Response> {
+    try {
+      const { patientId } = req.query;
+
+      if (!patientId || typeof patientId !== 'string') {
+        return res.status(400).json({ error: 'Patient ID is required' });
+      }
+
+      return res.json(await controlledSubstanceService.getPatientMme(patientId));
+    } catch (error) {
+      console.error('Error calculating MME:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Controlled substance prescribing log. Prescribers see their own entries; admins see all.
+   */
+  async getControlledSubstanceLog(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user as { id: string; roles?: string[] } | undefined;
+      if (!user?.id) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { patientId, prescriberId, schedule, from, to } = req.query;
+      const isAdmin = Boolean(user.roles?.includes('admin'));
+      const log = await controlledSubstanceService.getLog({
+        patientId: patientId ? String(patientId) : undefined,
+        prescriberId: isAdmin ? (prescriberId ? String(prescriberId) : undefined) : user.id,
+        schedule: schedule ? String(schedule) as DeaSchedule : undefined,
+        from: from ? new Date(String(from)) : undefined,
+        to: to ? new Date(String(to)) : undefined,
+      });
+      return res.json(log);
+    } catch (error) {
+      console.error('Error getting controlled substance log:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
 }
 
 // Export a singleton instance
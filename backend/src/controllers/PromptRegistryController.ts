@@ -0,0 +1,172 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import { promptRegistry, PromptRegistryError } from '../services/PromptRegistryService';
+
+/**
+ * Controller for AI prompt templates and prompt experiments
+ */
+class PromptRegistryController {
+  /**
+   * List prompts with their active and latest versions
+   */
+  public listPrompts = asyncHandler(
+    async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const prompts = await promptRegistry.listPrompts();
+        return res.status(200).json({ success: true, data: prompts });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get every stored version of a prompt
+   */
+  public getVersions = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const versions = await promptRegistry.getVersions(req.params.name);
+        return res.status(200).json({ success: true, data: versions });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Create a new version of a prompt
+   */
+  public createVersion = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { template, systemPrompt, description, publish } = req.body;
+        const version = await promptRegistry.createVersion(
+          req.params.name,
+          { template, systemPrompt, description, publish },
+          req.user?.id as string
+        );
+        return res.status(201).json({ success: true, data: version });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Make a version the active one
+   */
+  public publishVersion = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const version = await promptRegistry.publishVersion(
+          req.params.name,
+          Number(req.params.version),
+          req.user?.id as string
+        );
+        return res.status(200).json({ success: true, data: version });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * List experiments, optionally for one prompt
+   */
+  public listExperiments = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const experiments = await promptRegistry.listExperiments(req.query.promptName as string | undefined);
+        return res.status(200).json({ success: true, data: experiments });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Start a traffic split between prompt versions
+   */
+  public startExperiment = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { name, promptName, description, variants } = req.body;
+        const experiment = await promptRegistry.startExperiment(
+          {
+            name,
+            promptName,
+            description,
+            variants: variants.map((variant: { version: unknown; weight: unknown }) => ({
+              version: Number(variant.version),
+              weight: Number(variant.weight)
+            }))
+          },
+          req.user?.id as string
+        );
+        return res.status(201).json({ success: true, data: experiment });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Stop an experiment, optionally promoting one of its versions
+   */
+  public stopExperiment = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { promoteVersion } = req.body;
+        const experiment = await promptRegistry.stopExperiment(
+          req.params.id,
+          req.user?.id as string,
+          promoteVersion === undefined ? undefined : Number(promoteVersion)
+        );
+        return res.status(200).json({ success: true, data: experiment });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Compare feedback accuracy across an experiment's versions
+   */
+  public getExperimentResults = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const results = await promptRegistry.getExperimentResults(req.params.id);
+        return res.status(200).json({ success: true, data: results });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map prompt registry errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof PromptRegistryError)) {
+      logger.error(`Prompt registry error: ${error}`);
+      return error;
+    }
+
+    switch (error.code) {
+      case 'PROMPT_NOT_FOUND':
+      case 'PROMPT_VERSION_NOT_FOUND':
+      case 'EXPERIMENT_NOT_FOUND':
+        return AppError.notFound(error.message);
+      case 'EXPERIMENT_RUNNING':
+      case 'EXPERIMENT_STOPPED':
+        return AppError.conflict(error.message, { code: error.code, ...(error.details as object) });
+      default:
+        return AppError.validation(error.message, { code: error.code, ...(error.details as object) });
+    }
+  }
+}
+
+export default new PromptRegistryController();
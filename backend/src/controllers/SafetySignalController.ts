@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import { safetySignalService, SafetySignalError } from '../services/SafetySignalService';
+import { SafetySignalStatus } from '../models/SafetySignal';
+
+/**
+ * Admin controller for pharmacovigilance signal detection and review
+ */
+class SafetySignalController {
+  /**
+   * List signals awaiting review, or signals in the requested statuses
+   */
+  public getReviewQueue = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const statuses = req.query.status
+          ? String(req.query.status).split(',') as SafetySignalStatus[]
+          : undefined;
+        const signals = await safetySignalService.getReviewQueue(statuses);
+        return res.status(200).json({ success: true, data: signals });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get a single signal with its trend
+   */
+  public getSignal = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const signal = await safetySignalService.getSignal(req.params.id);
+        return res.status(200).json({ success: true, data: signal });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Run signal detection now
+   */
+  public runDetection = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { asOf, windowDays, stepDays, windowCount, minCases } = req.body;
+        const run = await safetySignalService.runDetection({
+          asOf: asOf ? new Date(asOf) : undefined,
+          windowDays: windowDays !== undefined ? Number(windowDays) : undefined,
+          stepDays: stepDays !== undefined ? Number(stepDays) : undefined,
+          windowCount: windowCount !== undefined ? Number(windowCount) : undefined,
+          minCases: minCases !== undefined ? Number(minCases) : undefined
+        });
+        return res.status(200).json({ success: true, data: run });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Record a review decision
+   */
+  public reviewSignal = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const signal = await safetySignalService.reviewSignal(
+          req.params.id,
+          { status: req.body.status, notes: req.body.notes },
+          req.user?.id as string
+        );
+        return res.status(200).json({ success: true, data: signal });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map signal errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof SafetySignalError)) {
+      logger.error(`Safety signal error: ${error}`);
+      return error;
+    }
+
+    return error.code === 'SIGNAL_NOT_FOUND'
+      ? AppError.notFound(error.message)
+      : AppError.validation(error.message, { code: error.code });
+  }
+}
+
+export default new SafetySignalController();
@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AppError } from '../errors/AppError';
+import logger from '../utils/logger';
+import {
+  therapeuticDrugMonitoringService,
+  TherapeuticDrugMonitoringError
+} from '../services/TherapeuticDrugMonitoringService';
+
+/**
+ * Controller for therapeutic drug monitoring endpoints
+ */
+class TherapeuticDrugMonitoringController {
+  /**
+   * Get recommended sampling times for a monitored medication
+   */
+  public getSamplingPlan = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { therapyStartedAt, frequency, intervalHours, route } = req.query;
+        const plan = await therapeuticDrugMonitoringService.getSamplingPlanForMedication(req.params.medicationId, {
+          therapyStartedAt: therapyStartedAt ? new Date(therapyStartedAt as string) : undefined,
+          frequency: frequency as string | undefined,
+          intervalHours: intervalHours ? Number(intervalHours) : undefined,
+          route: route as string | undefined
+        });
+
+        return res.status(200).json({ success: true, data: plan });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Record a measured drug level against a prescription
+   */
+  public recordLevel = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { sampledAt, lastDoseAt, therapyStartedAt, value, currentDose } = req.body;
+        const level = await therapeuticDrugMonitoringService.recordLevel({
+          ...req.body,
+          value: Number(value),
+          sampledAt: sampledAt ? new Date(sampledAt) : undefined,
+          lastDoseAt: lastDoseAt ? new Date(lastDoseAt) : undefined,
+          therapyStartedAt: therapyStartedAt ? new Date(therapyStartedAt) : undefined,
+          currentDose: currentDose
+            ? { ...currentDose, amount: Number(currentDose.amount) }
+            : undefined,
+          recordedBy: req.user?.id
+        });
+
+        return res.status(201).json({ success: true, data: level });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get a patient's drug level history grouped by medication
+   */
+  public getPatientLevelHistory = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { medicationId, from, to } = req.query;
+        const history = await therapeuticDrugMonitoringService.getPatientLevelHistory(req.params.patientId, {
+          medicationId: medicationId as string | undefined,
+          from: from ? new Date(from as string) : undefined,
+          to: to ? new Date(to as string) : undefined
+        });
+
+        return res.status(200).json({ success: true, data: history });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Get levels recorded against a prescription
+   */
+  public getPrescriptionLevels = asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const levels = await therapeuticDrugMonitoringService.getPrescriptionLevels(req.params.prescriptionId);
+        return res.status(200).json({ success: true, data: levels });
+      } catch (error) {
+        return next(this.toAppError(error));
+      }
+    }
+  );
+
+  /**
+   * Map TDM errors to HTTP errors
+   */
+  private toAppError(error: unknown): unknown {
+    if (!(error instanceof TherapeuticDrugMonitoringError)) {
+      logger.error(`Therapeutic drug monitoring error: ${error}`);
+      return error;
+    }
+
+    return error.code === 'MEDICATION_NOT_FOUND'
+      ? AppError.notFound(error.message)
+      : AppError.validation(error.message, { code: error.code });
+  }
+}
+
+export default new TherapeuticDrugMonitoringController();
@@ -29,6 +29,7 @@ declare global {
         isEmailVerified?: boolean;
         status?: string;
         role?: string;
+        departmentId?: string;
       };
     }
   }
@@ -6,6 +6,7 @@ import mongoose, { Error as MongooseError } from 'mongoose';
 import logger from '../utils/logger';
 import { errorMonitoring } from '../services/monitoring';
 import { ZodError } from 'zod';
+import { AIBudgetExceededError } from '../services/ai/llm/InvocationLedger';
 
 const isDevelopment = process.env.NODE_ENV === 'development';
 
@@ -156,6 +157,18 @@ export const errorHandler: ErrorRequestHandler = (
     );
   }
 
+  // Handle AI budget rejections
+  if (err instanceof AIBudgetExceededError) {
+    return res.status(HttpStatus.TOO_MANY_REQUESTS).json(
+      formatErrorResponse(
+        ErrorCode.RATE_LIMIT_EXCEEDED,
+        err.message,
+        { code: err.code, ...(err.details as object) },
+        err.stack
+      )
+    );
+  }
+
   // Handle JWT Errors
   if (err.name === 'JsonWebTokenError') {
     return res.status(HttpStatus.UNAUTHORIZED).json(
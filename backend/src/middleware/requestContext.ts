@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import requestContext from '../utils/requestContext';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Departments rarely change, so look each user up at most once per interval
+const DEPARTMENT_CACHE_TTL_MS = 5 * 60 * 1000;
+const departmentCache = new Map<string, { department?: string; expiresAt: number }>();
+
+const findDepartment = async (userId: string): Promise<string | undefined> => {
+  const cached = departmentCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.department;
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { department: true } });
+    const department = user?.department || undefined;
+    departmentCache.set(userId, { department, expiresAt: Date.now() + DEPARTMENT_CACHE_TTL_MS });
+    return department;
+  } catch (error) {
+    logger.warn('Could not load the department for the request user', { userId, error });
+    return undefined;
+  }
+};
+
+/**
+ * Make the authenticated user and their department available to services for the rest of
+ * the request, e.g. so AI usage is charged to the right budgets. Mount after authenticate.
+ * The department comes from the token's departmentId claim or the user's record.
+ */
+export const bindRequestContext = async (req: Request, _res: Response, next: NextFunction) => {
+  // Login tokens carry the user as userId, Mongo user tokens as id
+  const userId = req.user?.id ?? (req.user as { userId?: string } | undefined)?.userId;
+  const departmentId = req.user?.departmentId || (userId ? await findDepartment(userId) : undefined);
+
+  requestContext.run({ userId, departmentId }, next);
+};
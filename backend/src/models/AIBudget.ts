@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { BudgetPeriod } from '../utils/aiUsage';
+
+export type AIBudgetScope = 'user' | 'department' | 'feature';
+
+/**
+ * A spending limit on AI completions for one user, department or feature, reset at the
+ * start of each UTC day or month. Completions that would take spend past the limit are
+ * rejected before they reach the provider.
+ */
+export interface IAIBudget extends Document {
+  scope: AIBudgetScope;
+  scopeId: string; // user id, department id or feature name
+  period: BudgetPeriod;
+  limitUsd: number;
+  tokenLimit?: number;
+  active: boolean;
+  description?: string;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AIBudgetSchema = new Schema<IAIBudget>(
+  {
+    scope: {
+      type: String,
+      enum: ['user', 'department', 'feature'],
+      required: true
+    },
+    scopeId: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    period: {
+      type: String,
+      enum: ['daily', 'monthly'],
+      default: 'monthly'
+    },
+    limitUsd: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    tokenLimit: {
+      type: Number,
+      min: 0
+    },
+    active: {
+      type: Boolean,
+      default: true
+    },
+    description: String,
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One active budget per scope and period
+AIBudgetSchema.index(
+  { scope: 1, scopeId: 1, period: 1 },
+  { unique: true, partialFilterExpression: { active: true } }
+);
+
+export const AIBudget = mongoose.model<IAIBudget>('AIBudget', AIBudgetSchema);
+
+export default AIBudget;
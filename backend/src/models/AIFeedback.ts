@@ -1,6 +1,13 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IPromptReference, PromptReferenceSchema } from './PromptTemplate';
 
-export type PredictionType = 'visit_duration' | 'task_assignment' | 'bottleneck' | 'scheduling';
+export type PredictionType =
+    | 'visit_duration'
+    | 'task_assignment'
+    | 'bottleneck'
+    | 'scheduling'
+    | 'prescription_suggestion'
+    | 'symptom_analysis';
 
 interface IUserFeedback {
     rating: number;
@@ -30,6 +37,7 @@ export interface IAIFeedback extends Document {
     timestamp: Date;
     isProcessed: boolean;
     analysisResults: IAnalysisResults;
+    prompt?: IPromptReference; // prompt version that produced the prediction
     createdAt: Date;
     updatedAt: Date;
 }
@@ -55,13 +63,19 @@ interface IAIFeedbackModel extends Model<IAIFeedback> {
         totalPredictions: number;
         averageRating: number;
     }>>;
+    getPromptVersionPerformance(promptName: string, experimentId?: string): Promise<Array<{
+        _id: number;
+        averageAccuracy: number;
+        averageRating: number;
+        count: number;
+    }>>;
 }
 
 const aiFeedbackSchema = new Schema<IAIFeedback>({
     predictionType: {
         type: String,
         required: true,
-        enum: ['visit_duration', 'task_assignment', 'bottleneck', 'scheduling']
+        enum: ['visit_duration', 'task_assignment', 'bottleneck', 'scheduling', 'prescription_suggestion', 'symptom_analysis']
     },
     actualOutcome: Schema.Types.Mixed,
     predictedOutcome: Schema.Types.Mixed,
@@ -106,7 +120,8 @@ const aiFeedbackSchema = new Schema<IAIFeedback>({
         patterns: [String],
         insights: [String],
         suggestedAdjustments: [String]
-    }
+    },
+    prompt: PromptReferenceSchema
 }, {
     timestamps: true
 });
@@ -116,6 +131,8 @@ aiFeedbackSchema.index({ predictionType: 1, timestamp: -1 });
 aiFeedbackSchema.index({ 'context.userId': 1 });
 aiFeedbackSchema.index({ 'context.departmentId': 1 });
 aiFeedbackSchema.index({ accuracy: 1 });
+aiFeedbackSchema.index({ 'prompt.name': 1, 'prompt.version': 1 });
+aiFeedbackSchema.index({ 'prompt.experimentId': 1 });
 
 // Methods for feedback analysis
 aiFeedbackSchema.statics.getAccuracyTrend = async function(
@@ -249,6 +266,33 @@ aiFeedbackSchema.statics.getDepartmentPerformance = async function(
     ]);
 };
 
+aiFeedbackSchema.statics.getPromptVersionPerformance = async function(
+    promptName: string,
+    experimentId?: string
+) {
+    const match: Record<string, unknown> = { 'prompt.name': promptName };
+    if (experimentId) {
+        match['prompt.experimentId'] = experimentId;
+    }
+
+    return this.aggregate([
+        {
+            $match: match
+        },
+        {
+            $group: {
+                _id: '$prompt.version',
+                averageAccuracy: { $avg: '$accuracy' },
+                averageRating: { $avg: '$userFeedback.rating' },
+                count: { $sum: 1 }
+            }
+        },
+        {
+            $sort: { _id: 1 }
+        }
+    ]);
+};
+
 // Add validation for metadata
 aiFeedbackSchema.path('context.metadata').validate(function(value: any) {
     return value && typeof value === 'object' && !Array.isArray(value);
@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IPromptReference, PromptReferenceSchema } from './PromptTemplate';
+
+export type AIInvocationOutcome = 'success' | 'error' | 'rejected';
+
+/**
+ * One LLM completion, written by the gateway for every call including failed calls and calls
+ * rejected by a budget. Prompt text is not stored; inputHash identifies identical inputs.
+ */
+export interface IAIInvocation extends Document {
+  feature: string;
+  provider: string;
+  modelName: string; // provider model; "model" is taken by Document
+  prompt?: IPromptReference;
+  inputHash: string;
+  latencyMs: number;
+  attempts: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  usageEstimated: boolean;
+  estimatedCostUsd: number;
+  outcome: AIInvocationOutcome;
+  errorCode?: string;
+  userId?: string; // kept as given so a malformed id never loses a ledger entry
+  departmentId?: string;
+  createdAt: Date;
+}
+
+const AIInvocationSchema = new Schema<IAIInvocation>(
+  {
+    feature: {
+      type: String,
+      required: true
+    },
+    provider: {
+      type: String,
+      required: true
+    },
+    modelName: {
+      type: String,
+      required: true
+    },
+    prompt: PromptReferenceSchema,
+    inputHash: {
+      type: String,
+      required: true
+    },
+    latencyMs: {
+      type: Number,
+      default: 0
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    promptTokens: {
+      type: Number,
+      default: 0
+    },
+    completionTokens: {
+      type: Number,
+      default: 0
+    },
+    totalTokens: {
+      type: Number,
+      default: 0
+    },
+    usageEstimated: {
+      type: Boolean,
+      default: false
+    },
+    estimatedCostUsd: {
+      type: Number,
+      default: 0
+    },
+    outcome: {
+      type: String,
+      enum: ['success', 'error', 'rejected'],
+      required: true
+    },
+    errorCode: String,
+    userId: String,
+    departmentId: String
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+// Budget checks sum spend per user, department and feature since the start of a period
+AIInvocationSchema.index({ userId: 1, createdAt: -1 });
+AIInvocationSchema.index({ departmentId: 1, createdAt: -1 });
+AIInvocationSchema.index({ feature: 1, createdAt: -1 });
+AIInvocationSchema.index({ createdAt: -1 });
+
+export const AIInvocation = mongoose.model<IAIInvocation>('AIInvocation', AIInvocationSchema);
+
+export default AIInvocation;
@@ -0,0 +1,50 @@
+import mongoose, { Schema } from 'mongoose';
+import { AdherenceAlert, IAdherenceAlertModel } from '../services/MedicationAdherenceService';
+
+/**
+ * Missed dose, declining adherence and refill alerts raised from medication events.
+ * Unacknowledged alerts start adherence outreach.
+ */
+const AdherenceAlertSchema = new Schema<AdherenceAlert>({
+  patientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  medicationId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['MISSED_DOSE', 'CRITICAL_MISSED_DOSE', 'DECLINING_ADHERENCE', 'REFILL_NEEDED'],
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  severity: {
+    type: String,
+    enum: ['LOW', 'MEDIUM', 'HIGH'],
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  acknowledged: {
+    type: Boolean,
+    default: false
+  }
+});
+
+AdherenceAlertSchema.index({ patientId: 1, acknowledged: 1, createdAt: -1 });
+AdherenceAlertSchema.index({ acknowledged: 1, createdAt: -1 });
+
+export const AdherenceAlertModel = mongoose.model<AdherenceAlert>(
+  'AdherenceAlert',
+  AdherenceAlertSchema
+) as IAdherenceAlertModel;
+
+export default AdherenceAlertModel;
@@ -0,0 +1,147 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { OutreachStage, OutreachTriggerType, OutreachTriggerSeverity } from '../utils/adherenceOutreach';
+
+export type OutreachCampaignStatus = 'active' | 'resolved';
+
+/**
+ * A trigger condition recorded on a campaign
+ */
+export interface IOutreachTrigger {
+  type: OutreachTriggerType;
+  severity: OutreachTriggerSeverity;
+  detail: string;
+}
+
+/**
+ * One outreach step taken in a campaign
+ */
+export interface IOutreachAction {
+  stage: OutreachStage;
+  outcome: 'sent' | 'skipped' | 'failed';
+  recipientId?: mongoose.Types.ObjectId;
+  taskId?: mongoose.Types.ObjectId;
+  triggers: IOutreachTrigger[];
+  detail?: string;
+  performedAt: Date;
+}
+
+/**
+ * Escalating outreach for one patient medication, from the first trigger until
+ * adherence recovers
+ */
+export interface IAdherenceOutreachCampaign extends Document {
+  patientId: mongoose.Types.ObjectId;
+  medicationId: mongoose.Types.ObjectId;
+  status: OutreachCampaignStatus;
+  currentStage?: OutreachStage; // last stage performed successfully
+  lastActionAt?: Date;
+  latestTriggers: IOutreachTrigger[];
+  actions: IOutreachAction[];
+  startedAt: Date;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OutreachTriggerSchema = new Schema<IOutreachTrigger>(
+  {
+    type: {
+      type: String,
+      enum: ['consecutive_missed', 'falling_trend', 'missed_pattern'],
+      required: true
+    },
+    severity: {
+      type: String,
+      enum: ['LOW', 'MEDIUM', 'HIGH'],
+      required: true
+    },
+    detail: { type: String, required: true }
+  },
+  { _id: false }
+);
+
+const OutreachActionSchema = new Schema<IOutreachAction>({
+  stage: {
+    type: String,
+    enum: ['patient_reminder', 'nurse_task', 'doctor_alert'],
+    required: true
+  },
+  outcome: {
+    type: String,
+    enum: ['sent', 'skipped', 'failed'],
+    required: true
+  },
+  recipientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  taskId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task'
+  },
+  triggers: {
+    type: [OutreachTriggerSchema],
+    default: []
+  },
+  detail: String,
+  performedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const AdherenceOutreachCampaignSchema = new Schema<IAdherenceOutreachCampaign>(
+  {
+    patientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: true,
+      index: true
+    },
+    medicationId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['active', 'resolved'],
+      default: 'active',
+      index: true
+    },
+    currentStage: {
+      type: String,
+      enum: ['patient_reminder', 'nurse_task', 'doctor_alert']
+    },
+    lastActionAt: Date,
+    latestTriggers: {
+      type: [OutreachTriggerSchema],
+      default: []
+    },
+    actions: {
+      type: [OutreachActionSchema],
+      default: []
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now
+    },
+    resolvedAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+// At most one active campaign per patient medication
+AdherenceOutreachCampaignSchema.index(
+  { patientId: 1, medicationId: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+AdherenceOutreachCampaignSchema.index({ patientId: 1, startedAt: -1 });
+
+export const AdherenceOutreachCampaign: Model<IAdherenceOutreachCampaign> = mongoose.model<IAdherenceOutreachCampaign>(
+  'AdherenceOutreachCampaign',
+  AdherenceOutreachCampaignSchema
+);
+
+export default AdherenceOutreachCampaign;
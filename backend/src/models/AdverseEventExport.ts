@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { AdverseEventExportFormat, DeidentificationLevel } from '../utils/adverseEventExport';
+
+/**
+ * A validation warning recorded with an export
+ */
+export interface IAdverseEventExportWarning {
+  field: string;
+  message: string;
+}
+
+/**
+ * One export of a MedicationSafetyIssue as an individual case safety report
+ */
+export interface IAdverseEventExport extends Document {
+  issueId: mongoose.Types.ObjectId;
+  format: AdverseEventExportFormat;
+  deidentification: DeidentificationLevel;
+  safetyReportId: string;
+  version: number; // increments with every export of the same issue
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  checksum: string; // sha256 of the exported file
+  warnings: IAdverseEventExportWarning[];
+  exportedBy: mongoose.Types.ObjectId;
+  exportedAt: Date;
+}
+
+const AdverseEventExportWarningSchema = new Schema<IAdverseEventExportWarning>(
+  {
+    field: { type: String, required: true },
+    message: { type: String, required: true }
+  },
+  { _id: false }
+);
+
+const AdverseEventExportSchema = new Schema<IAdverseEventExport>({
+  issueId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MedicationSafetyIssue',
+    required: true,
+    index: true
+  },
+  format: {
+    type: String,
+    enum: ['e2b_xml', 'medwatch_pdf'],
+    required: true
+  },
+  deidentification: {
+    type: String,
+    enum: ['none', 'limited', 'safe_harbor'],
+    required: true
+  },
+  safetyReportId: {
+    type: String,
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  fileName: {
+    type: String,
+    required: true
+  },
+  contentType: {
+    type: String,
+    required: true
+  },
+  sizeBytes: {
+    type: Number,
+    required: true
+  },
+  checksum: {
+    type: String,
+    required: true
+  },
+  warnings: {
+    type: [AdverseEventExportWarningSchema],
+    default: []
+  },
+  exportedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  exportedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+AdverseEventExportSchema.index({ issueId: 1, version: -1 }, { unique: true });
+
+export const AdverseEventExport: Model<IAdverseEventExport> = mongoose.model<IAdverseEventExport>(
+  'AdverseEventExport',
+  AdverseEventExportSchema
+);
+
+export default AdverseEventExport;
@@ -13,7 +13,32 @@ export type AuditAction =
     | 'appointment_scheduled'
     | 'appointment_cancelled'
     | 'medical_record_accessed'
-    | 'medical_record_updated';
+    | 'medical_record_updated'
+    | 'medication_reconciliation_started'
+    | 'medication_reconciliation_line_decided'
+    | 'medication_reconciliation_signed'
+    | 'safety_alert_overridden'
+    | 'safety_signal_reviewed'
+    | 'adverse_event_exported'
+    | 'prescription_transmitted'
+    | 'prescription_cancel_requested'
+    | 'prescription_renewal_responded'
+    | 'controlled_substance_prescribed'
+    | 'controlled_substance_reauth_failed'
+    | 'pharmacogenomic_result_recorded'
+    | 'pharmacogenomic_result_removed'
+    | 'order_set_created'
+    | 'order_set_updated'
+    | 'order_set_retired'
+    | 'order_set_applied'
+    | 'llm_request_failed'
+    | 'prompt_version_created'
+    | 'prompt_version_published'
+    | 'prompt_experiment_started'
+    | 'prompt_experiment_stopped'
+    | 'ai_budget_created'
+    | 'ai_budget_updated'
+    | 'ai_budget_deactivated';
 
 export interface IAuditLog extends Document {
     userId: Schema.Types.ObjectId | IUser;
@@ -43,7 +68,32 @@ const AuditLogSchema = new Schema<IAuditLog>({
             'appointment_scheduled',
             'appointment_cancelled',
             'medical_record_accessed',
-            'medical_record_updated'
+            'medical_record_updated',
+            'medication_reconciliation_started',
+            'medication_reconciliation_line_decided',
+            'medication_reconciliation_signed',
+            'safety_alert_overridden',
+            'safety_signal_reviewed',
+            'adverse_event_exported',
+            'prescription_transmitted',
+            'prescription_cancel_requested',
+            'prescription_renewal_responded',
+            'controlled_substance_prescribed',
+            'controlled_substance_reauth_failed',
+            'pharmacogenomic_result_recorded',
+            'pharmacogenomic_result_removed',
+            'order_set_created',
+            'order_set_updated',
+            'order_set_retired',
+            'order_set_applied',
+            'llm_request_failed',
+            'prompt_version_created',
+            'prompt_version_published',
+            'prompt_experiment_started',
+            'prompt_experiment_stopped',
+            'ai_budget_created',
+            'ai_budget_updated',
+            'ai_budget_deactivated'
         ]
     },
     metadata: {
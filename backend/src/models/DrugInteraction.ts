@@ -0,0 +1,137 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { InteractionSeverity } from '../types/medical';
+
+export type InteractionEvidenceLevel = 'strong' | 'moderate' | 'weak';
+
+export type InteractionReleaseStatus = 'draft' | 'active' | 'superseded';
+
+/**
+ * A single drug-drug interaction entry within a knowledge base release
+ */
+export interface IDrugInteraction extends Document {
+  releaseVersion: number;
+  drugA: string; // normalized (lowercase) drug name
+  drugB: string;
+  severity: InteractionSeverity;
+  description: string;
+  mechanism: string;
+  evidenceLevel: InteractionEvidenceLevel;
+  management: string;
+  source: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A versioned release of the drug interaction knowledge base.
+ * Only one release is active at a time; drafts can be edited and published.
+ */
+export interface IInteractionRelease extends Document {
+  version: number;
+  label?: string;
+  status: InteractionReleaseStatus;
+  basedOnVersion?: number;
+  entryCount: number;
+  source?: string;
+  notes?: string;
+  createdBy?: string;
+  publishedBy?: string;
+  publishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DrugInteractionSchema = new Schema<IDrugInteraction>(
+  {
+    releaseVersion: {
+      type: Number,
+      required: true,
+      index: true
+    },
+    drugA: {
+      type: String,
+      required: [true, 'First drug is required'],
+      trim: true,
+      lowercase: true
+    },
+    drugB: {
+      type: String,
+      required: [true, 'Second drug is required'],
+      trim: true,
+      lowercase: true
+    },
+    severity: {
+      type: String,
+      enum: Object.values(InteractionSeverity),
+      required: [true, 'Severity is required']
+    },
+    description: {
+      type: String,
+      required: [true, 'Description is required']
+    },
+    mechanism: {
+      type: String,
+      required: [true, 'Mechanism is required']
+    },
+    evidenceLevel: {
+      type: String,
+      enum: ['strong', 'moderate', 'weak'],
+      required: [true, 'Evidence level is required']
+    },
+    management: {
+      type: String,
+      required: [true, 'Management recommendation is required']
+    },
+    source: {
+      type: String,
+      required: [true, 'Source is required']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// A drug pair appears at most once per release
+DrugInteractionSchema.index({ releaseVersion: 1, drugA: 1, drugB: 1 }, { unique: true });
+DrugInteractionSchema.index({ drugA: 1, drugB: 1 });
+
+const InteractionReleaseSchema = new Schema<IInteractionRelease>(
+  {
+    version: {
+      type: Number,
+      required: true,
+      unique: true
+    },
+    label: String,
+    status: {
+      type: String,
+      enum: ['draft', 'active', 'superseded'],
+      default: 'draft',
+      index: true
+    },
+    basedOnVersion: Number,
+    entryCount: {
+      type: Number,
+      default: 0
+    },
+    source: String,
+    notes: String,
+    createdBy: String,
+    publishedBy: String,
+    publishedAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const DrugInteraction: Model<IDrugInteraction> = mongoose.model<IDrugInteraction>(
+  'DrugInteraction',
+  DrugInteractionSchema
+);
+
+export const InteractionRelease: Model<IInteractionRelease> = mongoose.model<IInteractionRelease>(
+  'InteractionRelease',
+  InteractionReleaseSchema
+);
@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { FormularyEntry, TierCostSharing } from '../utils/formularyCoverage';
+
+/**
+ * Drug coverage rules for one insurance plan. Patients are matched to a plan by the
+ * provider and, when the plan lists them, the group number on their insurance details.
+ */
+export interface IFormulary extends Document {
+  planId: string;
+  planName: string;
+  provider: string;
+  groupNumbers: string[]; // empty when the plan applies to every group of the provider
+  entries: Array<FormularyEntry & { medicationId?: mongoose.Types.ObjectId }>;
+  tierCostSharing: TierCostSharing[];
+  effectiveDate: Date;
+  expiryDate?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIERS = [1, 2, 3, 4, 5];
+
+const FormularyEntrySchema = new Schema(
+  {
+    medicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Medication'
+    },
+    drugName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    genericName: {
+      type: String,
+      trim: true
+    },
+    tier: {
+      type: Number,
+      enum: TIERS,
+      required: true
+    },
+    covered: {
+      type: Boolean,
+      default: true
+    },
+    priorAuthorization: {
+      type: Boolean,
+      default: false
+    },
+    stepTherapy: {
+      requiredDrugs: [String],
+      description: String
+    },
+    quantityLimit: {
+      quantity: { type: Number, min: 0 },
+      days: { type: Number, min: 1 }
+    },
+    copay: {
+      type: Number,
+      min: 0
+    },
+    monthlyCost: {
+      type: Number,
+      min: 0
+    }
+  },
+  { _id: false }
+);
+
+const FormularySchema = new Schema<IFormulary>(
+  {
+    planId: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true
+    },
+    planName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    provider: {
+      type: String,
+      required: true,
+      trim: true,
+      index: true
+    },
+    groupNumbers: {
+      type: [String],
+      default: []
+    },
+    entries: {
+      type: [FormularyEntrySchema],
+      default: []
+    },
+    tierCostSharing: {
+      type: [
+        {
+          tier: { type: Number, enum: TIERS, required: true },
+          copay: { type: Number, min: 0 },
+          coinsurance: { type: Number, min: 0, max: 1 }
+        }
+      ],
+      default: []
+    },
+    effectiveDate: {
+      type: Date,
+      default: Date.now
+    },
+    expiryDate: Date,
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+FormularySchema.index({ provider: 1, isActive: 1 });
+FormularySchema.index({ 'entries.drugName': 1 });
+
+export const Formulary = mongoose.model<IFormulary>('Formulary', FormularySchema);
+
+export default Formulary;
@@ -1,5 +1,7 @@
 import mongoose, { Document, Schema, Model, Query, Aggregate } from 'mongoose';
 import { DosageRange, TherapeuticRange } from '../utils/medicationAnalyzer';
+import { PregnancyLactationProfile } from '../utils/pregnancyLactationRisk';
+import { DeaSchedule } from '../utils/controlledSubstances';
 
 export interface IMedication extends Document {
   name: string;
@@ -12,10 +14,13 @@ export interface IMedication extends Document {
   contraindications: string[];
   sideEffects: string[];
   interactsWith: string[]; // medication IDs that this interacts with
-  pregnancyCategory: 'A' | 'B' | 'C' | 'D' | 'X' | 'N/A';
+  pregnancyCategory: 'A' | 'B' | 'C' | 'D' | 'X' | 'N/A'; // deprecated letter category, kept for legacy records
+  pregnancyLactation?: PregnancyLactationProfile;
   pediatricUse: boolean;
   geriatricUse: boolean;
   requiresPrescription: boolean;
+  deaSchedule?: DeaSchedule; // controlled substance schedule, absent when not controlled
+  mmeConversionFactor?: number; // morphine milligram equivalents per unit of opioid dose
   manufacturer: string;
   ndc: string; // National Drug Code
   isActive: boolean;
@@ -108,6 +113,20 @@ const MedicationSchema = new Schema<IMedication, MedicationModel, IMedicationMet
       enum: ['A', 'B', 'C', 'D', 'X', 'N/A'],
       default: 'N/A'
     },
+    pregnancyLactation: {
+      trimesterRisk: {
+        first: { type: String, enum: ['compatible', 'limited_data', 'use_with_caution', 'avoid', 'contraindicated'] },
+        second: { type: String, enum: ['compatible', 'limited_data', 'use_with_caution', 'avoid', 'contraindicated'] },
+        third: { type: String, enum: ['compatible', 'limited_data', 'use_with_caution', 'avoid', 'contraindicated'] }
+      },
+      pregnancySummary: String,
+      lactation: {
+        type: String,
+        enum: ['compatible', 'probably_compatible', 'use_with_caution', 'avoid', 'unknown']
+      },
+      lactationSummary: String,
+      saferAlternatives: [String]
+    },
     pediatricUse: {
       type: Boolean,
       default: true
@@ -120,6 +139,14 @@ const MedicationSchema = new Schema<IMedication, MedicationModel, IMedicationMet
       type: Boolean,
       default: true
     },
+    deaSchedule: {
+      type: String,
+      enum: ['I', 'II', 'III', 'IV', 'V']
+    },
+    mmeConversionFactor: {
+      type: Number,
+      min: 0
+    },
     manufacturer: {
       type: String,
       required: [true, 'Manufacturer is required']
@@ -146,6 +173,7 @@ const MedicationSchema = new Schema<IMedication, MedicationModel, IMedicationMet
           enum: ['adult', 'pediatric', 'geriatric']
         },
         weightBased: Boolean,
+        bsaBased: Boolean,
         condition: String
       }
     ],
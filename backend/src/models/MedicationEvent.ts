@@ -0,0 +1,48 @@
+import mongoose, { Schema } from 'mongoose';
+import { IMedicationEventModel, MedicationEvent } from '../services/MedicationAdherenceService';
+
+/**
+ * A dose outcome (taken, delayed, skipped or missed) or a reminder snooze for a scheduled
+ * medication. Adherence metrics and supply forecasts are calculated from these.
+ */
+const MedicationEventSchema = new Schema<MedicationEvent>({
+  patientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  medicationId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  scheduleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MedicationSchedule',
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  taken: {
+    type: Boolean,
+    required: true
+  },
+  delayed: Boolean,
+  skipped: {
+    type: Boolean,
+    default: false
+  },
+  reason: String,
+  scheduledFor: Date,
+  snoozedUntil: Date
+});
+
+MedicationEventSchema.index({ patientId: 1, medicationId: 1, timestamp: -1 });
+
+export const MedicationEventModel = mongoose.model<MedicationEvent>(
+  'MedicationEvent',
+  MedicationEventSchema
+) as IMedicationEventModel;
+
+export default MedicationEventModel;
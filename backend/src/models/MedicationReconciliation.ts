@@ -0,0 +1,144 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type ReconciliationEncounter = 'admission' | 'transfer' | 'discharge';
+
+export type ReconciliationStatus = 'in_progress' | 'completed';
+
+export type ReconciliationCategory =
+  | 'continued'
+  | 'changed_dose'
+  | 'discontinued'
+  | 'new'
+  | 'unexplained_omission';
+
+export type ReconciliationDecision = 'pending' | 'accepted' | 'rejected';
+
+export type MedicationListSource = 'patient_record' | 'prescription' | 'adherence_schedule' | 'manual';
+
+/**
+ * A medication as it appears on the home list or the active orders
+ */
+export interface IReconciliationMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  route?: string;
+  source: MedicationListSource;
+  sourceId?: string;
+  startDate?: Date;
+}
+
+/**
+ * One line of the reconciliation diff, decided by a clinician
+ */
+export interface IReconciliationLine {
+  lineId: string;
+  category: ReconciliationCategory;
+  medicationName: string;
+  homeMedication?: IReconciliationMedication;
+  activeOrder?: IReconciliationMedication;
+  changes: string[];
+  reason?: string;
+  decision: ReconciliationDecision;
+  decisionComment?: string;
+  decidedBy?: string;
+  decidedAt?: Date;
+}
+
+/**
+ * A medication reconciliation run for an admission, transfer or discharge
+ */
+export interface IMedicationReconciliation extends Document {
+  patientId: string;
+  encounterType: ReconciliationEncounter;
+  status: ReconciliationStatus;
+  lines: IReconciliationLine[];
+  sourceConflicts: string[];
+  startedBy: string;
+  signedBy?: string;
+  signedAt?: Date;
+  signature?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReconciliationMedicationSchema = new Schema<IReconciliationMedication>(
+  {
+    name: { type: String, required: true },
+    dosage: { type: String, default: '' },
+    frequency: { type: String, default: '' },
+    route: String,
+    source: {
+      type: String,
+      enum: ['patient_record', 'prescription', 'adherence_schedule', 'manual'],
+      required: true
+    },
+    sourceId: String,
+    startDate: Date
+  },
+  { _id: false }
+);
+
+const ReconciliationLineSchema = new Schema<IReconciliationLine>(
+  {
+    lineId: { type: String, required: true },
+    category: {
+      type: String,
+      enum: ['continued', 'changed_dose', 'discontinued', 'new', 'unexplained_omission'],
+      required: true
+    },
+    medicationName: { type: String, required: true },
+    homeMedication: ReconciliationMedicationSchema,
+    activeOrder: ReconciliationMedicationSchema,
+    changes: [String],
+    reason: String,
+    decision: {
+      type: String,
+      enum: ['pending', 'accepted', 'rejected'],
+      default: 'pending'
+    },
+    decisionComment: String,
+    decidedBy: String,
+    decidedAt: Date
+  },
+  { _id: false }
+);
+
+const MedicationReconciliationSchema = new Schema<IMedicationReconciliation>(
+  {
+    patientId: {
+      type: String,
+      required: [true, 'Patient ID is required'],
+      index: true
+    },
+    encounterType: {
+      type: String,
+      enum: ['admission', 'transfer', 'discharge'],
+      required: [true, 'Encounter type is required']
+    },
+    status: {
+      type: String,
+      enum: ['in_progress', 'completed'],
+      default: 'in_progress'
+    },
+    lines: [ReconciliationLineSchema],
+    sourceConflicts: [String],
+    startedBy: {
+      type: String,
+      required: true
+    },
+    signedBy: String,
+    signedAt: Date,
+    signature: String
+  },
+  {
+    timestamps: true
+  }
+);
+
+MedicationReconciliationSchema.index({ patientId: 1, createdAt: -1 });
+
+export const MedicationReconciliation: Model<IMedicationReconciliation> = mongoose.model<IMedicationReconciliation>(
+  'MedicationReconciliation',
+  MedicationReconciliationSchema
+);
@@ -0,0 +1,144 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type MedicationReminderStatus = 'pending' | 'sent' | 'snoozed' | 'taken' | 'skipped' | 'expired';
+
+export type ReminderChannel = 'websocket' | 'web_push';
+
+/**
+ * One delivery attempt on a channel
+ */
+export interface IReminderDelivery {
+  channel: ReminderChannel;
+  outcome: 'sent' | 'failed' | 'skipped';
+  detail?: string;
+  deliveredAt: Date;
+}
+
+/**
+ * A reminder for one scheduled dose, from planning until the patient responds or it expires
+ */
+export interface IMedicationReminder extends Document {
+  patientId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // patient's account that receives the reminder
+  scheduleId: mongoose.Types.ObjectId;
+  medicationId: mongoose.Types.ObjectId;
+  medicationName: string;
+  dosage: string;
+  instructions?: string;
+  scheduledFor: Date; // dose time in UTC
+  localDate: string;
+  localTime: string;
+  timeZone: string;
+  status: MedicationReminderStatus;
+  dueAt: Date; // next send, moved forward by snoozes
+  snoozeCount: number;
+  deliveries: IReminderDelivery[];
+  lastSentAt?: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReminderDeliverySchema = new Schema<IReminderDelivery>(
+  {
+    channel: {
+      type: String,
+      enum: ['websocket', 'web_push'],
+      required: true
+    },
+    outcome: {
+      type: String,
+      enum: ['sent', 'failed', 'skipped'],
+      required: true
+    },
+    detail: String,
+    deliveredAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+const MedicationReminderSchema = new Schema<IMedicationReminder>(
+  {
+    patientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    scheduleId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    medicationId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    medicationName: {
+      type: String,
+      required: true
+    },
+    dosage: {
+      type: String,
+      required: true
+    },
+    instructions: String,
+    scheduledFor: {
+      type: Date,
+      required: true
+    },
+    localDate: {
+      type: String,
+      required: true
+    },
+    localTime: {
+      type: String,
+      required: true
+    },
+    timeZone: {
+      type: String,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sent', 'snoozed', 'taken', 'skipped', 'expired'],
+      default: 'pending'
+    },
+    dueAt: {
+      type: Date,
+      required: true
+    },
+    snoozeCount: {
+      type: Number,
+      default: 0
+    },
+    deliveries: {
+      type: [ReminderDeliverySchema],
+      default: []
+    },
+    lastSentAt: Date,
+    respondedAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One reminder per scheduled dose, so planning can be repeated safely
+MedicationReminderSchema.index({ scheduleId: 1, scheduledFor: 1 }, { unique: true });
+MedicationReminderSchema.index({ status: 1, dueAt: 1 });
+MedicationReminderSchema.index({ userId: 1, scheduledFor: 1 });
+
+export const MedicationReminder: Model<IMedicationReminder> = mongoose.model<IMedicationReminder>(
+  'MedicationReminder',
+  MedicationReminderSchema
+);
+
+export default MedicationReminder;
@@ -0,0 +1,95 @@
+import mongoose, { Schema } from 'mongoose';
+import { DispenseRecord } from '../utils/supplyForecast';
+import { IMedicationScheduleModel, MedicationSchedule } from '../services/MedicationAdherenceService';
+
+const DispenseRecordSchema = new Schema<DispenseRecord>(
+  {
+    dispensedAt: {
+      type: Date,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    daysSupply: {
+      type: Number,
+      min: 0
+    },
+    refillsRemaining: {
+      type: Number,
+      min: 0
+    }
+  },
+  { _id: false }
+);
+
+/**
+ * When and how a patient takes one medication, with the dispensing used for supply forecasts.
+ * Reminders and outreach work from the active schedules.
+ */
+const MedicationScheduleSchema = new Schema(
+  {
+    patientId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Patient',
+      required: true
+    },
+    medicationId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    medicationName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    dosage: {
+      type: String,
+      required: true
+    },
+    frequency: {
+      type: String,
+      required: true
+    },
+    sig: Schema.Types.Mixed,
+    timeOfDay: {
+      type: [String],
+      default: []
+    },
+    startDate: {
+      type: Date,
+      required: true
+    },
+    endDate: Date,
+    instructions: String,
+    refillRemindDays: {
+      type: Number,
+      default: 7,
+      min: 0
+    },
+    dispenses: {
+      type: [DispenseRecordSchema],
+      default: []
+    },
+    timeZone: String,
+    active: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+MedicationScheduleSchema.index({ patientId: 1, medicationId: 1, active: 1 });
+MedicationScheduleSchema.index({ active: 1 });
+
+export const MedicationScheduleModel = mongoose.model<MedicationSchedule>(
+  'MedicationSchedule',
+  MedicationScheduleSchema
+) as IMedicationScheduleModel;
+
+export default MedicationScheduleModel;
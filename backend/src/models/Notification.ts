@@ -15,7 +15,8 @@ export type NotificationType =
     | 'system_update'
     | 'appointment_reminder'
     | 'test_results'
-    | 'medication_reminder';
+    | 'medication_reminder'
+    | 'adherence_alert';
 
 /**
  * Represents the categories that notifications can be grouped into
@@ -162,7 +163,8 @@ const notificationSchema = new Schema<INotification>({
                 'system_update',
                 'appointment_reminder',
                 'test_results',
-                'medication_reminder'
+                'medication_reminder',
+                'adherence_alert'
             ],
             message: '{VALUE} is not a valid notification type'
         }
@@ -0,0 +1,191 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A medication in an order set with its default sig
+ */
+export interface IOrderSetItem {
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  route?: string;
+  duration?: number; // days
+  quantity?: number;
+  daysSupply?: number;
+  refills?: number;
+  instructions?: string;
+  optional: boolean; // only ordered when selected
+}
+
+/**
+ * A lab to order when the order set is applied
+ */
+export interface IOrderSetLab {
+  name: string;
+  loincCode?: string;
+  dueInDays: number; // 0 for baseline labs
+  notes?: string;
+}
+
+/**
+ * A follow-up task to create when the order set is applied
+ */
+export interface IOrderSetTask {
+  title: string;
+  description: string;
+  dueInDays: number;
+  category: 'patient_care' | 'lab' | 'medication' | 'consultation';
+  priority: 'high' | 'medium' | 'low';
+  estimatedDuration: number; // minutes
+}
+
+export type OrderSetStatus = 'active' | 'retired';
+
+/**
+ * One version of a named bundle of medications, labs and follow-up tasks. Editing an
+ * order set saves a new version under the same key and retires the previous one.
+ */
+export interface IOrderSet extends Document {
+  key: string;
+  version: number;
+  name: string;
+  description?: string;
+  guidelineId?: mongoose.Types.ObjectId;
+  icdCodes: string[];
+  department: string;
+  items: IOrderSetItem[];
+  labs: IOrderSetLab[];
+  followUpTasks: IOrderSetTask[];
+  status: OrderSetStatus;
+  createdBy: mongoose.Types.ObjectId;
+  retiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrderSetItemSchema = new Schema<IOrderSetItem>(
+  {
+    medicationName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    dosage: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    frequency: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    route: String,
+    duration: {
+      type: Number,
+      min: 1
+    },
+    quantity: {
+      type: Number,
+      min: 0
+    },
+    daysSupply: {
+      type: Number,
+      min: 1
+    },
+    refills: {
+      type: Number,
+      min: 0
+    },
+    instructions: String,
+    optional: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { _id: false }
+);
+
+const OrderSetSchema = new Schema<IOrderSet>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    description: String,
+    guidelineId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TreatmentGuideline',
+      index: true
+    },
+    icdCodes: {
+      type: [String],
+      default: [],
+      index: true
+    },
+    department: {
+      type: String,
+      default: 'general'
+    },
+    items: {
+      type: [OrderSetItemSchema],
+      default: []
+    },
+    labs: {
+      type: [
+        {
+          name: { type: String, required: true, trim: true },
+          loincCode: String,
+          dueInDays: { type: Number, min: 0, default: 0 },
+          notes: String
+        }
+      ],
+      default: []
+    },
+    followUpTasks: {
+      type: [
+        {
+          title: { type: String, required: true, trim: true },
+          description: { type: String, required: true },
+          dueInDays: { type: Number, min: 0, required: true },
+          category: { type: String, enum: ['patient_care', 'lab', 'medication', 'consultation'], default: 'patient_care' },
+          priority: { type: String, enum: ['high', 'medium', 'low'], default: 'medium' },
+          estimatedDuration: { type: Number, min: 5, default: 15 }
+        }
+      ],
+      default: []
+    },
+    status: {
+      type: String,
+      enum: ['active', 'retired'],
+      default: 'active'
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    retiredAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+OrderSetSchema.index({ key: 1, version: 1 }, { unique: true });
+OrderSetSchema.index({ status: 1, name: 1 });
+
+export const OrderSet = mongoose.model<IOrderSet>('OrderSet', OrderSetSchema);
+
+export default OrderSet;
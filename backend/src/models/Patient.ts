@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
 import { IUser } from './User';
+import { PGX_PHENOTYPES, PgxResult } from '../utils/pharmacogenomics';
 
 /**
  * PatientData interface for use in various services
@@ -87,6 +88,7 @@ export interface IPatient extends Document {
         groupNumber: string;
         expiryDate: Date;
     };
+    pharmacogenomics: PgxResult[];
     medicalHistory: Array<{
         condition: string;
         diagnosedDate: Date;
@@ -274,6 +276,22 @@ const PatientSchema = new Schema<IPatient>({
         groupNumber: String,
         expiryDate: Date
     },
+    pharmacogenomics: [{
+        gene: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        phenotype: {
+            type: String,
+            required: true,
+            enum: [...PGX_PHENOTYPES]
+        },
+        diplotype: String,
+        activityScore: Number,
+        testedAt: Date,
+        laboratory: String
+    }],
     medicalHistory: [{
         condition: {
             type: String,
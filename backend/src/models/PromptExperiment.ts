@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type PromptExperimentStatus = 'running' | 'stopped';
+
+/**
+ * A prompt version in an experiment and how often it has been served
+ */
+export interface IPromptExperimentVariant {
+  version: number; // 0 for the built-in template
+  weight: number;
+  assignments: number;
+}
+
+/**
+ * A traffic split between versions of one prompt. While an experiment runs, each render of
+ * the prompt picks a variant by weight; feedback on the resulting predictions carries the
+ * experiment id and version so accuracy can be compared.
+ */
+export interface IPromptExperiment extends Document {
+  name: string;
+  promptName: string;
+  description?: string;
+  variants: IPromptExperimentVariant[];
+  status: PromptExperimentStatus;
+  startedAt: Date;
+  stoppedAt?: Date;
+  promotedVersion?: number;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromptExperimentVariantSchema = new Schema<IPromptExperimentVariant>(
+  {
+    version: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    weight: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    assignments: {
+      type: Number,
+      default: 0
+    }
+  },
+  { _id: false }
+);
+
+const PromptExperimentSchema = new Schema<IPromptExperiment>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    promptName: {
+      type: String,
+      required: true,
+      index: true
+    },
+    description: String,
+    variants: {
+      type: [PromptExperimentVariantSchema],
+      validate: {
+        validator: (variants: IPromptExperimentVariant[]) => variants.length >= 2,
+        message: 'An experiment needs at least two variants'
+      }
+    },
+    status: {
+      type: String,
+      enum: ['running', 'stopped'],
+      default: 'running'
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now
+    },
+    stoppedAt: Date,
+    promotedVersion: Number,
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+PromptExperimentSchema.index({ promptName: 1, status: 1 });
+
+export const PromptExperiment = mongoose.model<IPromptExperiment>('PromptExperiment', PromptExperimentSchema);
+
+export default PromptExperiment;
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Drafts can run in experiments; the active version is what callers get by default.
+ * Publishing a version retires the previously active one.
+ */
+export type PromptTemplateStatus = 'draft' | 'active' | 'retired';
+
+/**
+ * Which prompt version produced a prediction. Version 0 is the built-in template.
+ */
+export interface IPromptReference {
+  name: string;
+  version: number;
+  experimentId?: string;
+}
+
+/**
+ * One version of a named, parameterised prompt. Templates use {{variable}} placeholders.
+ */
+export interface IPromptTemplate extends Document {
+  name: string;
+  version: number;
+  description?: string;
+  systemPrompt?: string;
+  template: string;
+  variables: string[];
+  status: PromptTemplateStatus;
+  createdBy: mongoose.Types.ObjectId;
+  publishedAt?: Date;
+  publishedBy?: mongoose.Types.ObjectId;
+  retiredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PromptReferenceSchema = new Schema<IPromptReference>(
+  {
+    name: {
+      type: String,
+      required: true
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    experimentId: String
+  },
+  { _id: false }
+);
+
+const PromptTemplateSchema = new Schema<IPromptTemplate>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    description: String,
+    systemPrompt: String,
+    template: {
+      type: String,
+      required: true
+    },
+    variables: {
+      type: [String],
+      default: []
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'active', 'retired'],
+      default: 'draft'
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    publishedAt: Date,
+    publishedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    retiredAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+PromptTemplateSchema.index({ name: 1, version: 1 }, { unique: true });
+PromptTemplateSchema.index({ name: 1, status: 1 });
+
+export const PromptTemplate = mongoose.model<IPromptTemplate>('PromptTemplate', PromptTemplateSchema);
+
+export default PromptTemplate;
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * A browser Web Push subscription registered by a user
+ */
+export interface IPushSubscription extends Document {
+  userId: mongoose.Types.ObjectId;
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  userAgent?: string;
+  lastSuccessAt?: Date;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PushSubscriptionSchema = new Schema<IPushSubscription>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    endpoint: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    keys: {
+      p256dh: {
+        type: String,
+        required: true
+      },
+      auth: {
+        type: String,
+        required: true
+      }
+    },
+    userAgent: String,
+    lastSuccessAt: Date,
+    failureCount: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const PushSubscription: Model<IPushSubscription> = mongoose.model<IPushSubscription>(
+  'PushSubscription',
+  PushSubscriptionSchema
+);
+
+export default PushSubscription;
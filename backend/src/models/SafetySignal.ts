@@ -0,0 +1,115 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type SafetySignalStatus = 'new' | 'under_review' | 'monitoring' | 'confirmed' | 'refuted';
+
+/**
+ * Disproportionality statistics captured for one rolling window
+ */
+export interface ISafetySignalWindow {
+  windowStart: Date;
+  windowEnd: Date;
+  cases: number;
+  prr?: number;
+  ror?: number;
+  isSignal: boolean;
+}
+
+/**
+ * A drug–event pair flagged by signal detection over MedicationSafetyIssue reports,
+ * queued for pharmacovigilance review
+ */
+export interface ISafetySignal extends Document {
+  drug: string; // normalized (lowercase) drug name
+  event: string; // normalized (lowercase) reported event
+  status: SafetySignalStatus;
+  emerging: boolean;
+  caseCount: number;
+  prr: number;
+  prrLower: number;
+  prrUpper: number;
+  ror: number;
+  rorLower: number;
+  rorUpper: number;
+  chiSquare: number;
+  windowStart: Date;
+  windowEnd: Date;
+  trend: ISafetySignalWindow[];
+  firstDetectedAt: Date;
+  lastDetectedAt: Date;
+  reviewNotes?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  caseCountAtReview?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SafetySignalWindowSchema = new Schema<ISafetySignalWindow>(
+  {
+    windowStart: { type: Date, required: true },
+    windowEnd: { type: Date, required: true },
+    cases: { type: Number, required: true },
+    prr: Number,
+    ror: Number,
+    isSignal: { type: Boolean, default: false }
+  },
+  { _id: false }
+);
+
+const SafetySignalSchema = new Schema<ISafetySignal>(
+  {
+    drug: {
+      type: String,
+      required: [true, 'Drug is required'],
+      trim: true,
+      lowercase: true
+    },
+    event: {
+      type: String,
+      required: [true, 'Event is required'],
+      trim: true,
+      lowercase: true
+    },
+    status: {
+      type: String,
+      enum: ['new', 'under_review', 'monitoring', 'confirmed', 'refuted'],
+      default: 'new',
+      index: true
+    },
+    emerging: {
+      type: Boolean,
+      default: false
+    },
+    caseCount: { type: Number, required: true },
+    prr: { type: Number, required: true },
+    prrLower: { type: Number, required: true },
+    prrUpper: { type: Number, required: true },
+    ror: { type: Number, required: true },
+    rorLower: { type: Number, required: true },
+    rorUpper: { type: Number, required: true },
+    chiSquare: { type: Number, required: true },
+    windowStart: { type: Date, required: true },
+    windowEnd: { type: Date, required: true },
+    trend: {
+      type: [SafetySignalWindowSchema],
+      default: []
+    },
+    firstDetectedAt: { type: Date, required: true },
+    lastDetectedAt: { type: Date, required: true },
+    reviewNotes: String,
+    reviewedBy: String,
+    reviewedAt: Date,
+    caseCountAtReview: Number
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One signal record per drug–event pair
+SafetySignalSchema.index({ drug: 1, event: 1 }, { unique: true });
+SafetySignalSchema.index({ status: 1, emerging: -1, prrLower: -1 });
+
+export const SafetySignal: Model<ISafetySignal> = mongoose.model<ISafetySignal>('SafetySignal', SafetySignalSchema);
+
+export default SafetySignal;
@@ -0,0 +1,22 @@
+import { Document, Model, Types } from 'mongoose';
+
+interface ITask extends Document {
+  title: string;
+  description: string;
+  priority: 'high' | 'medium' | 'low';
+  dueDate: Date;
+  status: 'todo' | 'in_progress' | 'completed';
+  assignedTo?: Types.ObjectId;
+  tags: string[];
+  category: 'patient_care' | 'admin' | 'lab' | 'medication' | 'consultation' | 'other';
+  patientId?: Types.ObjectId;
+  urgencyLevel: 'routine' | 'urgent' | 'emergency';
+  estimatedDuration: number;
+  createdBy: Types.ObjectId;
+  department: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+declare const Task: Model<ITask>;
+export = Task;
@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type LevelSampleTiming = 'peak' | 'trough' | 'random';
+
+export type LevelStatus = 'subtherapeutic' | 'therapeutic' | 'supratherapeutic' | 'indeterminate';
+
+/**
+ * Dose correction suggested from a measured level using linear pharmacokinetic scaling
+ */
+export interface IDoseCorrection {
+  currentDose: number;
+  suggestedDose: number;
+  unit: string;
+  targetLevel: number;
+  scalingFactor: number;
+  holdNextDose: boolean;
+  rationale: string;
+}
+
+/**
+ * A measured drug level recorded against a prescription
+ */
+export interface ITherapeuticDrugLevel extends Document {
+  patientId: string;
+  prescriptionId: string;
+  medicationId: mongoose.Types.ObjectId;
+  medicationName: string;
+  value: number;
+  unit: string;
+  timing: LevelSampleTiming;
+  sampledAt: Date;
+  lastDoseAt?: Date;
+  therapyStartedAt?: Date;
+  atSteadyState?: boolean;
+  status: LevelStatus;
+  therapeuticMin?: number;
+  therapeuticMax?: number;
+  message?: string;
+  currentDose?: {
+    amount: number;
+    unit: string;
+    intervalHours?: number;
+  };
+  doseCorrection?: IDoseCorrection;
+  recordedBy?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TherapeuticDrugLevelSchema = new Schema<ITherapeuticDrugLevel>(
+  {
+    patientId: {
+      type: String,
+      required: [true, 'Patient ID is required'],
+      index: true
+    },
+    prescriptionId: {
+      type: String,
+      required: [true, 'Prescription ID is required'],
+      index: true
+    },
+    medicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Medication',
+      required: [true, 'Medication ID is required']
+    },
+    medicationName: {
+      type: String,
+      required: true
+    },
+    value: {
+      type: Number,
+      required: [true, 'Level value is required'],
+      min: [0, 'Level value cannot be negative']
+    },
+    unit: {
+      type: String,
+      required: [true, 'Level unit is required']
+    },
+    timing: {
+      type: String,
+      enum: ['peak', 'trough', 'random'],
+      required: true
+    },
+    sampledAt: {
+      type: Date,
+      required: true
+    },
+    lastDoseAt: Date,
+    therapyStartedAt: Date,
+    atSteadyState: Boolean,
+    status: {
+      type: String,
+      enum: ['subtherapeutic', 'therapeutic', 'supratherapeutic', 'indeterminate'],
+      required: true,
+      index: true
+    },
+    therapeuticMin: Number,
+    therapeuticMax: Number,
+    message: String,
+    currentDose: {
+      amount: Number,
+      unit: String,
+      intervalHours: Number
+    },
+    doseCorrection: {
+      currentDose: Number,
+      suggestedDose: Number,
+      unit: String,
+      targetLevel: Number,
+      scalingFactor: Number,
+      holdNextDose: Boolean,
+      rationale: String
+    },
+    recordedBy: String,
+    notes: String
+  },
+  {
+    timestamps: true
+  }
+);
+
+TherapeuticDrugLevelSchema.index({ patientId: 1, medicationId: 1, sampledAt: -1 });
+
+export const TherapeuticDrugLevel: Model<ITherapeuticDrugLevel> = mongoose.model<ITherapeuticDrugLevel>(
+  'TherapeuticDrugLevel',
+  TherapeuticDrugLevelSchema
+);
@@ -36,7 +36,12 @@ const visitTimerSchema = new mongoose.Schema({
     duration: Number,
     confidence: Number,
     factors: [String],
-    considerations: [String]
+    considerations: [String],
+    prompt: {
+      name: String,
+      version: Number,
+      experimentId: String
+    }
   },
   schedulingMetadata: {
     recommendedSlot: {
@@ -181,7 +186,8 @@ visitTimerSchema.pre('save', async function(next) {
         duration: prediction.predictedDuration,
         confidence: prediction.confidence,
         factors: prediction.factors,
-        considerations: prediction.considerations
+        considerations: prediction.considerations,
+        prompt: prediction.prompt
       };
 
       // Set the predicted duration
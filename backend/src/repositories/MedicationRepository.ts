@@ -2,6 +2,11 @@ import mongoose from 'mongoose';
 import { cacheService } from '../services/cache';
 import logger from '../utils/logger';
 import Medication, { IMedication } from '../models/Medication';
+import pregnancyLactationRisk, {
+  PregnancyLactationAssessment,
+  PregnancyLactationProfile,
+  ReproductiveContext
+} from '../utils/pregnancyLactationRisk';
 
 /**
  * Medication information including dosage and administration details
@@ -48,6 +53,7 @@ export interface Medication {
     warnings?: string[];
   };
   pregnancyCategory?: 'A' | 'B' | 'C' | 'D' | 'X';
+  pregnancyLactation?: PregnancyLactationProfile;
   beersCriteria?: {
     isInappropriate: boolean;
     reason?: string;
@@ -338,6 +344,7 @@ export class MedicationRepository {
 
   /**
    * Check if a medication is appropriate for a pregnant patient
+   * @deprecated Letter categories carry no trimester or lactation detail; use getPregnancyLactationRisk
    */
   public async checkPregnancyCategory(medicationName: string): Promise<string | null> {
     await this.ensureInitialized();
@@ -350,6 +357,23 @@ export class MedicationRepository {
     return medication.pregnancyCategory;
   }
 
+  /**
+   * Assess trimester-specific pregnancy risk and lactation compatibility for a medication
+   */
+  public async getPregnancyLactationRisk(
+    medicationName: string,
+    context: ReproductiveContext
+  ): Promise<PregnancyLactationAssessment | null> {
+    await this.ensureInitialized();
+
+    const medication = await this.getMedicationByName(medicationName);
+    if (!medication) {
+      return null;
+    }
+
+    return pregnancyLactationRisk.assess(medication, context);
+  }
+
   /**
    * Ensure the repository is initialized before operations
    */
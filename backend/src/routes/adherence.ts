@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import adherenceOutreachController from '../controllers/AdherenceOutreachController';
+import medicationSupplyController from '../controllers/MedicationSupplyController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const patientIdValidator = param('patientId').isMongoId().withMessage('Invalid patient ID');
+
+/**
+ * @route   GET /api/v1/adherence/patients/:patientId/outreach
+ * @desc    Adherence outreach campaigns for a patient with each reminder, nurse task and
+ *          doctor alert sent, most recent first
+ * @access  Doctor, Nurse, Admin
+ */
+router.get(
+  '/patients/:patientId/outreach',
+  requireRoles(['doctor', 'nurse', 'admin']),
+  validate([patientIdValidator]),
+  adherenceOutreachController.getCampaignHistory
+);
+
+/**
+ * @route   GET /api/v1/adherence/patients/:patientId/supply
+ * @desc    Projected supply and run-out dates for the patient's dispensed medications,
+ *          counting the doses recorded as taken, soonest run-out first
+ * @access  Doctor, Nurse, Admin, or the patient
+ */
+router.get(
+  '/patients/:patientId/supply',
+  validate([patientIdValidator]),
+  medicationSupplyController.getSupplyForecasts
+);
+
+/**
+ * @route   POST /api/v1/adherence/patients/:patientId/medications/:medicationId/dispenses
+ * @desc    Record medication dispensed against the patient's active schedule
+ * @access  Doctor, Nurse, Admin
+ */
+router.post(
+  '/patients/:patientId/medications/:medicationId/dispenses',
+  requireRoles(['doctor', 'nurse', 'admin']),
+  validate([
+    patientIdValidator,
+    param('medicationId').isMongoId().withMessage('Invalid medication ID'),
+    body('quantity').isFloat({ gt: 0 }).withMessage('Quantity must be a positive number').toFloat(),
+    body('daysSupply').optional().isInt({ min: 1 }).withMessage('Days supply must be a positive whole number').toInt(),
+    body('refillsRemaining').optional().isInt({ min: 0 }).withMessage('Refills remaining must be zero or more').toInt(),
+    body('dispensedAt').optional().isISO8601().withMessage('Dispensed date must be a valid date')
+  ]),
+  medicationSupplyController.recordDispense
+);
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import aiUsageController from '../controllers/AIUsageController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const scopes = ['user', 'department', 'feature'];
+const periods = ['daily', 'monthly'];
+const outcomes = ['success', 'error', 'rejected'];
+
+const budgetIdParam = param('id').isMongoId().withMessage('Invalid budget ID');
+const dateRange = [
+  query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date')
+];
+
+// AI spend and budgets are restricted to admins
+router.use(requireRoles(['admin']));
+
+/**
+ * @route   GET /api/v1/admin/ai-usage/summary?from=&to=
+ * @desc    AI spend, token usage and error rates by feature, user, department and model,
+ *          with each active budget's spend; defaults to the current month
+ * @access  Admin
+ */
+router.get('/summary', validate(dateRange), aiUsageController.getSummary);
+
+/**
+ * @route   GET /api/v1/admin/ai-usage/invocations
+ * @desc    AI ledger entries, newest first, filtered by feature, user, department or outcome
+ * @access  Admin
+ */
+router.get(
+  '/invocations',
+  validate([
+    ...dateRange,
+    query('feature').optional().isString(),
+    query('userId').optional().isString(),
+    query('departmentId').optional().isString(),
+    query('outcome').optional().isIn(outcomes).withMessage(`Outcome must be one of: ${outcomes.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: 500 })
+  ]),
+  aiUsageController.listInvocations
+);
+
+/**
+ * @route   GET /api/v1/admin/ai-usage/budgets
+ * @desc    Budgets with their spend in the current period
+ * @access  Admin
+ */
+router.get(
+  '/budgets',
+  validate([query('includeInactive').optional().isBoolean()]),
+  aiUsageController.listBudgets
+);
+
+/**
+ * @route   POST /api/v1/admin/ai-usage/budgets
+ * @desc    Limit AI spend for a user, department or feature per day or month. Requests that
+ *          would exceed the limit are rejected before they reach the model provider.
+ * @access  Admin
+ */
+router.post(
+  '/budgets',
+  validate([
+    body('scope').isIn(scopes).withMessage(`Scope must be one of: ${scopes.join(', ')}`),
+    body('scopeId').isString().notEmpty().withMessage('scopeId is required'),
+    body('period').optional().isIn(periods).withMessage(`Period must be one of: ${periods.join(', ')}`),
+    body('limitUsd').isFloat({ min: 0 }).withMessage('limitUsd must be a non-negative number'),
+    body('tokenLimit').optional().isInt({ min: 0 }),
+    body('description').optional().isString().isLength({ max: 500 })
+  ]),
+  aiUsageController.createBudget
+);
+
+/**
+ * @route   PUT /api/v1/admin/ai-usage/budgets/:id
+ * @desc    Change a budget's limits
+ * @access  Admin
+ */
+router.put(
+  '/budgets/:id',
+  validate([
+    budgetIdParam,
+    body('limitUsd').optional().isFloat({ min: 0 }).withMessage('limitUsd must be a non-negative number'),
+    body('tokenLimit').optional().isInt({ min: 0 }),
+    body('description').optional().isString().isLength({ max: 500 })
+  ]),
+  aiUsageController.updateBudget
+);
+
+/**
+ * @route   DELETE /api/v1/admin/ai-usage/budgets/:id
+ * @desc    Stop enforcing a budget; it stays on record
+ * @access  Admin
+ */
+router.delete('/budgets/:id', validate([budgetIdParam]), aiUsageController.deactivateBudget);
+
+export default router;
@@ -3,7 +3,19 @@ import authRoutes from './auth';
 import patientRoutes from './patients';
 import diagnosisRoutes from './diagnosis';
 import prescriptionRoutes from './prescriptions';
+import interactionKnowledgeBaseRoutes from './interactionKnowledgeBase';
+import therapeuticDrugMonitoringRoutes from './therapeuticDrugMonitoring';
+import medicationReconciliationRoutes from './medicationReconciliation';
+import medicationSafetyRoutes from './medicationSafety';
+import safetySignalRoutes from './safetySignals';
+import reminderRoutes from './reminders';
+import adherenceRoutes from './adherence';
+import pharmacogenomicsRoutes from './pharmacogenomics';
+import orderSetRoutes from './orderSets';
+import promptRoutes from './prompts';
+import aiUsageRoutes from './aiUsage';
 import { authenticate } from '../middleware/auth';
+import { bindRequestContext } from '../middleware/requestContext';
 import { apiLimiter } from '../middleware/rateLimiter';
 
 const router = Router();
@@ -26,8 +38,20 @@ router.use('/auth', authRoutes);
 
 // Protected routes
 router.use(authenticate);
+router.use(bindRequestContext);
 router.use('/patients', patientRoutes);
 router.use('/diagnosis', diagnosisRoutes);
 router.use('/prescriptions', prescriptionRoutes);
+router.use('/tdm', therapeuticDrugMonitoringRoutes);
+router.use('/reconciliations', medicationReconciliationRoutes);
+router.use('/medication-safety', medicationSafetyRoutes);
+router.use('/reminders', reminderRoutes);
+router.use('/adherence', adherenceRoutes);
+router.use('/pharmacogenomics', pharmacogenomicsRoutes);
+router.use('/order-sets', orderSetRoutes);
+router.use('/admin/interactions', interactionKnowledgeBaseRoutes);
+router.use('/admin/safety-signals', safetySignalRoutes);
+router.use('/admin/prompts', promptRoutes);
+router.use('/admin/ai-usage', aiUsageRoutes);
 
 export default router; 
\ No newline at end of file
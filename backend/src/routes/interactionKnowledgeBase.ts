@@ -0,0 +1,159 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import interactionKnowledgeBaseController from '../controllers/InteractionKnowledgeBaseController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+import { InteractionSeverity } from '../types/medical';
+
+const router = Router();
+
+const severities = Object.values(InteractionSeverity);
+const evidenceLevels = ['strong', 'moderate', 'weak'];
+
+const versionParam = param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer');
+
+const interactionValidation = [
+  versionParam,
+  body('drugA').isString().notEmpty().withMessage('drugA is required'),
+  body('drugB').isString().notEmpty().withMessage('drugB is required'),
+  body('severity').isIn(severities).withMessage(`Severity must be one of: ${severities.join(', ')}`),
+  body('description').isString().notEmpty().withMessage('Description is required'),
+  body('mechanism').isString().notEmpty().withMessage('Mechanism is required'),
+  body('evidenceLevel').isIn(evidenceLevels).withMessage(`Evidence level must be one of: ${evidenceLevels.join(', ')}`),
+  body('management').isString().notEmpty().withMessage('Management recommendation is required'),
+  body('source').isString().notEmpty().withMessage('Source is required')
+];
+
+const interactionUpdateValidation = [
+  versionParam,
+  param('interactionId').isMongoId().withMessage('Invalid interaction ID'),
+  body('severity').optional().isIn(severities).withMessage(`Severity must be one of: ${severities.join(', ')}`),
+  body('evidenceLevel').optional().isIn(evidenceLevels).withMessage(`Evidence level must be one of: ${evidenceLevels.join(', ')}`)
+];
+
+// Knowledge base administration is restricted to admins
+router.use(requireRoles(['admin']));
+
+/**
+ * @route   GET /api/v1/admin/interactions/releases
+ * @desc    List drug interaction knowledge base releases
+ * @access  Admin
+ */
+router.get('/releases', interactionKnowledgeBaseController.listReleases);
+
+/**
+ * @route   POST /api/v1/admin/interactions/releases
+ * @desc    Create a draft release, optionally cloned from an existing release
+ * @access  Admin
+ */
+router.post(
+  '/releases',
+  validate([
+    body('label').optional().isString(),
+    body('notes').optional().isString(),
+    body('source').optional().isString(),
+    body('cloneFromVersion').optional().isInt({ min: 1 }).withMessage('cloneFromVersion must be a positive integer')
+  ]),
+  interactionKnowledgeBaseController.createDraft
+);
+
+/**
+ * @route   GET /api/v1/admin/interactions/releases/diff?from=&to=
+ * @desc    Compare two releases
+ * @access  Admin
+ */
+router.get(
+  '/releases/diff',
+  validate([
+    query('from').isInt({ min: 1 }).withMessage('from must be a release version'),
+    query('to').isInt({ min: 1 }).withMessage('to must be a release version')
+  ]),
+  interactionKnowledgeBaseController.diffReleases
+);
+
+/**
+ * @route   GET /api/v1/admin/interactions/releases/:version
+ * @desc    Get a release
+ * @access  Admin
+ */
+router.get('/releases/:version', validate([versionParam]), interactionKnowledgeBaseController.getRelease);
+
+/**
+ * @route   POST /api/v1/admin/interactions/releases/:version/publish
+ * @desc    Publish a draft release
+ * @access  Admin
+ */
+router.post('/releases/:version/publish', validate([versionParam]), interactionKnowledgeBaseController.publishRelease);
+
+/**
+ * @route   POST /api/v1/admin/interactions/releases/:version/rollback
+ * @desc    Restore a previously published release
+ * @access  Admin
+ */
+router.post('/releases/:version/rollback', validate([versionParam]), interactionKnowledgeBaseController.rollbackRelease);
+
+/**
+ * @route   POST /api/v1/admin/interactions/releases/:version/import
+ * @desc    Bulk import interactions (CSV text or JSON array) into a draft release
+ * @access  Admin
+ */
+router.post(
+  '/releases/:version/import',
+  validate([
+    versionParam,
+    body('format').isIn(['csv', 'json']).withMessage('Format must be csv or json'),
+    body('data').exists().withMessage('Import data is required'),
+    body('mode').optional().isIn(['merge', 'replace']).withMessage('Mode must be merge or replace'),
+    body('skipInvalid').optional().isBoolean()
+  ]),
+  interactionKnowledgeBaseController.importEntries
+);
+
+/**
+ * @route   GET /api/v1/admin/interactions/releases/:version/interactions
+ * @desc    List interactions in a release, filtered by drug or severity
+ * @access  Admin
+ */
+router.get(
+  '/releases/:version/interactions',
+  validate([
+    versionParam,
+    query('severity').optional().isIn(severities).withMessage(`Severity must be one of: ${severities.join(', ')}`)
+  ]),
+  interactionKnowledgeBaseController.listInteractions
+);
+
+/**
+ * @route   POST /api/v1/admin/interactions/releases/:version/interactions
+ * @desc    Add an interaction to a draft release
+ * @access  Admin
+ */
+router.post(
+  '/releases/:version/interactions',
+  validate(interactionValidation),
+  interactionKnowledgeBaseController.createInteraction
+);
+
+/**
+ * @route   PUT /api/v1/admin/interactions/releases/:version/interactions/:interactionId
+ * @desc    Update an interaction in a draft release
+ * @access  Admin
+ */
+router.put(
+  '/releases/:version/interactions/:interactionId',
+  validate(interactionUpdateValidation),
+  interactionKnowledgeBaseController.updateInteraction
+);
+
+/**
+ * @route   DELETE /api/v1/admin/interactions/releases/:version/interactions/:interactionId
+ * @desc    Remove an interaction from a draft release
+ * @access  Admin
+ */
+router.delete(
+  '/releases/:version/interactions/:interactionId',
+  validate([versionParam, param('interactionId').isMongoId().withMessage('Invalid interaction ID')]),
+  interactionKnowledgeBaseController.deleteInteraction
+);
+
+export default router;
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import medicationReconciliationController from '../controllers/MedicationReconciliationController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const encounterTypes = ['admission', 'transfer', 'discharge'];
+
+const medicationListValidation = (field: string) => [
+  body(field).optional().isArray().withMessage(`${field} must be an array`),
+  body(`${field}.*.name`).isString().notEmpty().withMessage('Medication name is required'),
+  body(`${field}.*.dosage`).optional().isString(),
+  body(`${field}.*.frequency`).optional().isString(),
+  body(`${field}.*.route`).optional().isString()
+];
+
+const reconciliationIdParam = param('id').isMongoId().withMessage('Invalid reconciliation ID');
+
+router.use(requireRoles(['doctor', 'nurse', 'admin']));
+
+/**
+ * @route   POST /api/v1/reconciliations
+ * @desc    Start a medication reconciliation; home list and active orders are loaded
+ *          from the patient record, adherence schedules and prescriptions when not supplied
+ * @access  Doctor, Nurse
+ */
+router.post(
+  '/',
+  validate([
+    body('patientId').isString().notEmpty().withMessage('Patient ID is required'),
+    body('encounterType').isIn(encounterTypes).withMessage(`Encounter type must be one of: ${encounterTypes.join(', ')}`),
+    ...medicationListValidation('homeList'),
+    ...medicationListValidation('activeOrders'),
+    body('discontinuations').optional().isArray(),
+    body('discontinuations.*.name').isString().notEmpty().withMessage('Discontinued medication name is required'),
+    body('discontinuations.*.reason').isString().notEmpty().withMessage('Discontinuation reason is required')
+  ]),
+  medicationReconciliationController.startReconciliation
+);
+
+/**
+ * @route   GET /api/v1/reconciliations/patients/:patientId
+ * @desc    List a patient's reconciliations
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/patients/:patientId',
+  validate([param('patientId').isString().notEmpty()]),
+  medicationReconciliationController.listPatientReconciliations
+);
+
+/**
+ * @route   GET /api/v1/reconciliations/:id
+ * @desc    Get a reconciliation
+ * @access  Doctor, Nurse
+ */
+router.get('/:id', validate([reconciliationIdParam]), medicationReconciliationController.getReconciliation);
+
+/**
+ * @route   PATCH /api/v1/reconciliations/:id/lines/:lineId
+ * @desc    Accept or reject a reconciliation line
+ * @access  Doctor, Nurse
+ */
+router.patch(
+  '/:id/lines/:lineId',
+  validate([
+    reconciliationIdParam,
+    param('lineId').isString().notEmpty(),
+    body('decision').isIn(['accepted', 'rejected']).withMessage('Decision must be accepted or rejected'),
+    body('comment').optional().isString()
+  ]),
+  medicationReconciliationController.decideLine
+);
+
+/**
+ * @route   POST /api/v1/reconciliations/:id/sign
+ * @desc    Sign a completed reconciliation
+ * @access  Doctor
+ */
+router.post(
+  '/:id/sign',
+  requireRoles(['doctor']),
+  validate([reconciliationIdParam]),
+  medicationReconciliationController.signReconciliation
+);
+
+export default router;
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import medicationSafetyReportController from '../controllers/MedicationSafetyReportController';
+import adverseEventExportController from '../controllers/AdverseEventExportController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const patientIdParam = param('patientId').isMongoId().withMessage('Invalid patient ID');
+const issueIdParam = param('issueId').isMongoId().withMessage('Invalid safety issue ID');
+
+const EXPORT_FORMATS = ['e2b_xml', 'medwatch_pdf'];
+const DEIDENTIFICATION_LEVELS = ['none', 'limited', 'safe_harbor'];
+
+router.use(requireRoles(['doctor', 'nurse', 'admin']));
+
+/**
+ * @route   GET /api/v1/medication-safety/patients/:patientId/report
+ * @desc    Medication safety report; patients aged 65 and over also get a geriatric regimen review
+ *          (anticholinergic burden, sedative load, fall-risk drugs, Beers pairs, deprescribing)
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/patients/:patientId/report',
+  validate([patientIdParam]),
+  medicationSafetyReportController.getPatientReport
+);
+
+/**
+ * @route   GET /api/v1/medication-safety/patients/:patientId/report.pdf
+ * @desc    Download the medication safety report as a PDF
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/patients/:patientId/report.pdf',
+  validate([patientIdParam]),
+  medicationSafetyReportController.downloadPatientReportPdf
+);
+
+/**
+ * @route   GET /api/v1/medication-safety/issues/:issueId/exports/validation
+ * @desc    Check a reported safety issue against the required fields of an export format
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/issues/:issueId/exports/validation',
+  validate([
+    issueIdParam,
+    query('format').isIn(EXPORT_FORMATS).withMessage(`Format must be one of ${EXPORT_FORMATS.join(', ')}`),
+    query('deidentification').optional().isIn(DEIDENTIFICATION_LEVELS)
+      .withMessage(`De-identification must be one of ${DEIDENTIFICATION_LEVELS.join(', ')}`)
+  ]),
+  adverseEventExportController.validateExport
+);
+
+/**
+ * @route   POST /api/v1/medication-safety/issues/:issueId/exports
+ * @desc    Export a reported safety issue as E2B(R3)-style XML or a MedWatch-style PDF.
+ *          De-identification defaults to safe_harbor; every export is kept in the issue's history.
+ * @access  Doctor, Nurse
+ */
+router.post(
+  '/issues/:issueId/exports',
+  validate([
+    issueIdParam,
+    body('format').isIn(EXPORT_FORMATS).withMessage(`Format must be one of ${EXPORT_FORMATS.join(', ')}`),
+    body('deidentification').optional().isIn(DEIDENTIFICATION_LEVELS)
+      .withMessage(`De-identification must be one of ${DEIDENTIFICATION_LEVELS.join(', ')}`)
+  ]),
+  adverseEventExportController.exportIssue
+);
+
+/**
+ * @route   GET /api/v1/medication-safety/issues/:issueId/exports
+ * @desc    Export history for a reported safety issue
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/issues/:issueId/exports',
+  validate([issueIdParam]),
+  adverseEventExportController.getExportHistory
+);
+
+export default router;
@@ -7,15 +7,24 @@ const router = express.Router();
 
 /**
  * @route   POST /api/medication-utils/analyze-dosage
- * @desc    Analyze a medication dosage
+ * @desc    Analyze a medication dosage, with renal/hepatic adjustment when patient data is supplied
  * @access  Public
  */
 router.post(
   '/analyze-dosage',
-  [
-    body('dosage').isString().notEmpty().withMessage('Dosage string is required')
-  ],
-  validate,
+  validate([
+    body('dosage').isString().notEmpty().withMessage('Dosage string is required'),
+    body('medicationId').optional().isMongoId().withMessage('Medication ID must be a valid ID'),
+    body('patient').optional().isObject().withMessage('Patient must be an object'),
+    body('patient.age').optional().isFloat({ min: 0, max: 120 }).withMessage('Age must be between 0 and 120'),
+    body('patient.weight').optional().isFloat({ min: 0.1 }).withMessage('Weight must be a positive number'),
+    body('patient.serumCreatinine').optional().isFloat({ min: 0.01 }).withMessage('Serum creatinine must be a positive number (mg/dL)'),
+    body('patient.bilirubin').optional().isFloat({ min: 0 }).withMessage('Bilirubin must be a number (mg/dL)'),
+    body('patient.albumin').optional().isFloat({ min: 0 }).withMessage('Albumin must be a number (g/dL)'),
+    body('patient.inr').optional().isFloat({ min: 0 }).withMessage('INR must be a number'),
+    body('patient.ascites').optional().isIn(['none', 'mild', 'severe']).withMessage('Ascites must be none, mild or severe'),
+    body('patient.encephalopathy').optional().isIn(['none', 'mild', 'severe']).withMessage('Encephalopathy must be none, mild or severe')
+  ]),
   medicationUtilityController.analyzeDosage
 );
 
@@ -26,11 +35,78 @@ router.post(
  */
 router.post(
   '/steady-state',
-  [
+  validate([
     body('halfLife').isFloat({ min: 0.1 }).withMessage('Half-life must be a positive number')
-  ],
-  validate,
+  ]),
   medicationUtilityController.calculateSteadyState
 );
 
+/**
+ * @route   POST /api/medication-utils/pediatric-dose
+ * @desc    Calculate a mg/kg or mg/m² dose, capped at the adult maximum and rounded to the dosage form
+ * @access  Public
+ */
+router.post(
+  '/pediatric-dose',
+  validate([
+    body('patient').isObject().withMessage('Patient is required'),
+    body('patient.weight').isFloat({ min: 0.3, max: 250 }).withMessage('Weight must be between 0.3 and 250 kg'),
+    body('patient.height').optional().isFloat({ min: 20, max: 250 }).withMessage('Height must be between 20 and 250 cm'),
+    body('patient.age').optional().isFloat({ min: 0, max: 120 }).withMessage('Age must be between 0 and 120'),
+    body('medicationId').optional().isMongoId().withMessage('Medication ID must be a valid ID'),
+    body('order').if(body('medicationId').not().exists()).isObject().withMessage('Dose order or medication ID is required'),
+    body('order.min').if(body('medicationId').not().exists()).isFloat({ gt: 0 }).withMessage('Dose per kg or m² must be a positive number'),
+    body('order.max').optional().isFloat({ gt: 0 }).withMessage('Maximum dose per kg or m² must be a positive number'),
+    body('order.unit').if(body('medicationId').not().exists()).isIn(['mcg', 'mg', 'g', 'unit', 'mEq']).withMessage('Unsupported dose unit'),
+    body('order.basis').if(body('medicationId').not().exists()).isIn(['kg', 'm2']).withMessage('Basis must be kg or m2'),
+    body('order.adultMaxDose').optional().isFloat({ gt: 0 }).withMessage('Adult maximum dose must be a positive number'),
+    body('order.dosageForm').optional().isString(),
+    body('order.strength').optional().isString(),
+    body('frequency').optional().isString(),
+    body('bsaFormula').optional().isIn(['mosteller', 'haycock']).withMessage('BSA formula must be mosteller or haycock')
+  ]),
+  medicationUtilityController.calculatePediatricDose
+);
+
+/**
+ * @route   POST /api/medication-utils/sig/parse
+ * @desc    Parse prescription directions into a structured sig
+ * @access  Public
+ */
+router.post(
+  '/sig/parse',
+  validate([
+    body('text').optional().isString().notEmpty().withMessage('Directions must be a non-empty string'),
+    body('dosage').if(body('text').not().exists()).isString().notEmpty().withMessage('Directions text or dosage is required'),
+    body('frequency').optional().isString().withMessage('Frequency must be a string')
+  ]),
+  medicationUtilityController.parseSig
+);
+
+/**
+ * @route   POST /api/medication-utils/sig/render
+ * @desc    Render a structured sig as patient-friendly directions
+ * @access  Public
+ */
+router.post(
+  '/sig/render',
+  validate([
+    body('sig').isObject().withMessage('Structured sig is required'),
+    body('sig.dose').optional().isFloat({ gt: 0 }).withMessage('Dose must be a positive number'),
+    body('sig.doseMax').optional().isFloat({ gt: 0 }).withMessage('Maximum dose must be a positive number'),
+    body('sig.unit').optional().isString(),
+    body('sig.route').optional().isString(),
+    body('sig.frequency.code')
+      .optional()
+      .isIn(['QD', 'BID', 'TID', 'QID', 'QAM', 'QPM', 'QHS', 'QOD', 'QWK', 'QH', 'XD', 'ONCE', 'PRN'])
+      .withMessage('Unknown frequency code'),
+    body('sig.frequency.intervalHours').optional().isFloat({ gt: 0 }),
+    body('sig.frequency.timesPerDay').optional().isFloat({ gt: 0 }),
+    body('sig.frequency.intervalDays').optional().isInt({ min: 1 }),
+    body('sig.asNeeded').optional().isBoolean(),
+    body('sig.indication').optional().isString()
+  ]),
+  medicationUtilityController.renderSig
+);
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import orderSetController from '../controllers/OrderSetController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const idParam = param('id').isMongoId().withMessage('Invalid order set ID');
+const taskCategories = ['patient_care', 'lab', 'medication', 'consultation'];
+const taskPriorities = ['high', 'medium', 'low'];
+
+// Content rules shared by create and update; on update every field is optional
+const contentValidation = (optional: boolean) => {
+  const field = (chain: ReturnType<typeof body>) => (optional ? chain.optional() : chain);
+  return [
+    field(body('name')).isString().notEmpty().withMessage('Name is required'),
+    body('key').optional().isString().matches(/^[a-z0-9-]+$/i).withMessage('Key may contain letters, numbers and hyphens'),
+    body('description').optional().isString(),
+    body('guidelineId').optional().isMongoId().withMessage('Invalid guideline ID'),
+    body('icdCodes').optional().isArray(),
+    body('icdCodes.*').isString().matches(/^[A-Z]\d{2}(\.[0-9A-Z]{1,4})?$/i).withMessage('ICD-10 codes must look like E11.9'),
+    body('department').optional().isString(),
+    field(body('items')).isArray({ min: 1 }).withMessage('At least one medication is required'),
+    body('items.*.medicationName').isString().notEmpty().withMessage('Medication name is required'),
+    body('items.*.dosage').isString().notEmpty().withMessage('Dosage is required'),
+    body('items.*.frequency').isString().notEmpty().withMessage('Frequency is required'),
+    body('items.*.route').optional().isString(),
+    body('items.*.duration').optional().isInt({ min: 1 }),
+    body('items.*.quantity').optional().isFloat({ min: 0 }),
+    body('items.*.daysSupply').optional().isInt({ min: 1 }),
+    body('items.*.refills').optional().isInt({ min: 0, max: 11 }),
+    body('items.*.instructions').optional().isString(),
+    body('items.*.optional').optional().isBoolean(),
+    body('labs').optional().isArray(),
+    body('labs.*.name').isString().notEmpty().withMessage('Lab name is required'),
+    body('labs.*.loincCode').optional().isString(),
+    body('labs.*.dueInDays').optional().isInt({ min: 0 }),
+    body('followUpTasks').optional().isArray(),
+    body('followUpTasks.*.title').isString().notEmpty().withMessage('Task title is required'),
+    body('followUpTasks.*.description').isString().notEmpty().withMessage('Task description is required'),
+    body('followUpTasks.*.dueInDays').isInt({ min: 0 }).withMessage('dueInDays must be a non-negative integer'),
+    body('followUpTasks.*.category').optional().isIn(taskCategories)
+      .withMessage(`Category must be one of: ${taskCategories.join(', ')}`),
+    body('followUpTasks.*.priority').optional().isIn(taskPriorities)
+      .withMessage(`Priority must be one of: ${taskPriorities.join(', ')}`),
+    body('followUpTasks.*.estimatedDuration').optional().isInt({ min: 5 })
+  ];
+};
+
+router.use(requireRoles(['doctor', 'nurse', 'admin']));
+
+/**
+ * @route   GET /api/v1/order-sets
+ * @desc    Current order sets, optionally for a treatment guideline or ICD-10 code
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/',
+  validate([
+    query('guidelineId').optional().isMongoId().withMessage('Invalid guideline ID'),
+    query('icdCode').optional().isString(),
+    query('includeRetired').optional().isBoolean()
+  ]),
+  orderSetController.listOrderSets
+);
+
+/**
+ * @route   GET /api/v1/order-sets/versions/:key
+ * @desc    Every version of an order set, newest first
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/versions/:key',
+  validate([param('key').isString().notEmpty()]),
+  orderSetController.getVersions
+);
+
+/**
+ * @route   GET /api/v1/order-sets/:id
+ * @desc    Get an order set version
+ * @access  Doctor, Nurse
+ */
+router.get('/:id', validate([idParam]), orderSetController.getOrderSet);
+
+/**
+ * @route   POST /api/v1/order-sets
+ * @desc    Create an order set linked to a treatment guideline or ICD-10 codes
+ * @access  Doctor, Admin
+ */
+router.post(
+  '/',
+  requireRoles(['doctor', 'admin']),
+  validate(contentValidation(false)),
+  orderSetController.createOrderSet
+);
+
+/**
+ * @route   PUT /api/v1/order-sets/:id
+ * @desc    Save changes as a new version; the edited version is retired
+ * @access  Doctor, Admin
+ */
+router.put(
+  '/:id',
+  requireRoles(['doctor', 'admin']),
+  validate([idParam, ...contentValidation(true)]),
+  orderSetController.updateOrderSet
+);
+
+/**
+ * @route   DELETE /api/v1/order-sets/:id
+ * @desc    Retire an order set; past versions stay available for the record
+ * @access  Doctor, Admin
+ */
+router.delete(
+  '/:id',
+  requireRoles(['doctor', 'admin']),
+  validate([idParam]),
+  orderSetController.retireOrderSet
+);
+
+/**
+ * @route   POST /api/v1/order-sets/:id/apply
+ * @desc    Prescribe the order set for a patient and create its lab and follow-up tasks.
+ *          Every item goes through the prescription safety and therapeutic duplication checks
+ *          first; warnings need an override reason and controlled substances need the
+ *          prescriber's two-factor code.
+ * @access  Doctor
+ */
+router.post(
+  '/:id/apply',
+  requireRoles(['doctor']),
+  validate([
+    idParam,
+    body('patientId').isString().notEmpty().withMessage('Patient ID is required'),
+    body('itemIndexes').optional().isArray({ min: 1 }).withMessage('Select at least one medication'),
+    body('itemIndexes.*').isInt({ min: 0 }),
+    body('overrideReason').optional().isString().isLength({ max: 500 }),
+    body('twoFactorCode').optional().isString()
+  ]),
+  orderSetController.applyOrderSet
+);
+
+export default router;
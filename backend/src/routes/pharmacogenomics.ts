@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import pharmacogenomicsController from '../controllers/PharmacogenomicsController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const patientIdParam = param('patientId').isMongoId().withMessage('Invalid patient ID');
+
+router.use(requireRoles(['doctor', 'nurse', 'admin']));
+
+/**
+ * @route   GET /api/v1/pharmacogenomics/patients/:patientId
+ * @desc    Pharmacogenomic results with the phenotypes and drugs they affect
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/patients/:patientId',
+  validate([patientIdParam]),
+  pharmacogenomicsController.getProfile
+);
+
+/**
+ * @route   POST /api/v1/pharmacogenomics/patients/:patientId/results
+ * @desc    Record results from a PGx panel (e.g. CYP2D6, CYP2C19, SLCO1B1, HLA-B*57:01).
+ *          Phenotypes may use report wording such as "PM"; a new result replaces the gene's previous one.
+ * @access  Doctor, Nurse
+ */
+router.post(
+  '/patients/:patientId/results',
+  validate([
+    patientIdParam,
+    body('results').isArray({ min: 1 }).withMessage('At least one result is required'),
+    body('results.*.gene').isString().notEmpty().withMessage('Gene is required'),
+    body('results.*.phenotype').isString().notEmpty().withMessage('Phenotype is required'),
+    body('results.*.diplotype').optional().isString(),
+    body('results.*.activityScore').optional().isFloat({ min: 0 }).withMessage('Activity score must be a non-negative number'),
+    body('results.*.testedAt').optional().isISO8601().withMessage('testedAt must be an ISO 8601 date'),
+    body('results.*.laboratory').optional().isString()
+  ]),
+  pharmacogenomicsController.recordResults
+);
+
+/**
+ * @route   DELETE /api/v1/pharmacogenomics/patients/:patientId/results/:gene
+ * @desc    Remove a patient's result for one gene
+ * @access  Doctor
+ */
+router.delete(
+  '/patients/:patientId/results/:gene',
+  requireRoles(['doctor', 'admin']),
+  validate([patientIdParam, param('gene').isString().notEmpty()]),
+  pharmacogenomicsController.removeResult
+);
+
+/**
+ * @route   GET /api/v1/pharmacogenomics/patients/:patientId/recommendations
+ * @desc    CPIC-style recommendations (avoid, adjust dose or use an alternative) for prescribing a drug
+ * @access  Doctor, Nurse
+ */
+router.get(
+  '/patients/:patientId/recommendations',
+  validate([
+    patientIdParam,
+    query('drug').isString().notEmpty().withMessage('Drug name is required')
+  ]),
+  pharmacogenomicsController.getRecommendations
+);
+
+export default router;
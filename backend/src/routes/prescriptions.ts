@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { body, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { validate } from '../middleware/validation';
 import prescriptionController from '../controllers/PrescriptionController';
 
@@ -12,7 +12,13 @@ const prescriptionValidation = [
   body('medications.*.dosage').isString().notEmpty().withMessage('Medication dosage is required'),
   body('medications.*.frequency').isString().notEmpty().withMessage('Medication frequency is required'),
   body('medications.*.duration').optional().isInt().withMessage('Duration must be a number'),
-  body('medications.*.notes').optional().isString().withMessage('Notes must be a string')
+  body('medications.*.notes').optional().isString().withMessage('Notes must be a string'),
+  body('medications.*.quantityDispensed').optional().isFloat({ gt: 0 }).withMessage('Quantity dispensed must be a positive number'),
+  body('medications.*.daysSupply').optional().isInt({ min: 1 }).withMessage('Days supply must be a positive whole number'),
+  body('medications.*.refills').optional().isInt({ min: 0 }).withMessage('Refills must be zero or more'),
+  body('overrideReason').optional().isString().withMessage('Override reason must be a string'),
+  body('pharmacyId').optional().isString().notEmpty().withMessage('Pharmacy ID must be a string'),
+  body('twoFactorCode').optional().isString().withMessage('Two-factor code must be a string')
 ];
 
 /**
@@ -81,16 +87,317 @@ router.get('/', [
  *                       type: number
  *                     notes:
  *                       type: string
+ *                     quantityDispensed:
+ *                       type: number
+ *                       description: Units to dispense (tablets, capsules, mL)
+ *                     daysSupply:
+ *                       type: number
+ *                     refills:
+ *                       type: number
+ *               overrideReason:
+ *                 type: string
+ *                 description: Required to proceed when therapeutic duplication is detected
+ *               pharmacyId:
+ *                 type: string
+ *                 description: NCPDP ID of a pharmacy to send the prescription to electronically
+ *               twoFactorCode:
+ *                 type: string
+ *                 description: Prescriber's authenticator or backup code, required for controlled substances
  *     responses:
  *       201:
- *         description: Prescription created
+ *         description: Prescription created, with MME warnings when opioids are involved
  *       400:
  *         description: Invalid request
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Controlled substance prescribed without a valid two-factor code
+ *       409:
+ *         description: Therapeutic duplication detected and no override reason given
+ *       422:
+ *         description: Controlled substance refill, quantity or days supply limits exceeded
  *       500:
  *         description: Server error
  */
 router.post('/', prescriptionValidation, validate(), prescriptionController.createPrescription);
 
+/**
+ * @swagger
+ * /api/prescriptions/controlled-substances/review:
+ *   post:
+ *     summary: Check medications against controlled substance rules before signing
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - patientId
+ *               - medications
+ *             properties:
+ *               patientId:
+ *                 type: string
+ *               medications:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Controlled medications, rule violations, whether re-authentication is needed and the daily MME
+ */
+router.post('/controlled-substances/review', validate([
+  body('patientId').isString().notEmpty().withMessage('Patient ID is required'),
+  body('medications').isArray().withMessage('Medications must be an array'),
+  body('medications.*.name').isString().notEmpty().withMessage('Medication name is required'),
+  body('medications.*.dosage').isString().notEmpty().withMessage('Medication dosage is required'),
+  body('medications.*.frequency').isString().notEmpty().withMessage('Medication frequency is required')
+]), prescriptionController.reviewControlledSubstances);
+
+/**
+ * @swagger
+ * /api/prescriptions/controlled-substances/log:
+ *   get:
+ *     summary: Controlled substance prescribing log; prescribers see only their own entries
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: prescriberId
+ *         schema:
+ *           type: string
+ *         description: Admins only
+ *       - in: query
+ *         name: schedule
+ *         schema:
+ *           type: string
+ *           enum: [II, III, IV, V]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Log entries, newest first
+ */
+router.get('/controlled-substances/log', validate([
+  query('schedule').optional().isIn(['II', 'III', 'IV', 'V']).withMessage('Schedule must be II, III, IV or V'),
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date')
+]), prescriptionController.getControlledSubstanceLog);
+
+/**
+ * @swagger
+ * /api/prescriptions/mme:
+ *   get:
+ *     summary: Patient's daily morphine milligram equivalents from active prescriptions
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Daily MME total, per-medication breakdown and threshold warnings
+ */
+router.get('/mme', validate([
+  query('patientId').isString().notEmpty().withMessage('Patient ID is required')
+]), prescriptionController.getPatientMme);
+
+/**
+ * @swagger
+ * /api/prescriptions/pharmacies:
+ *   get:
+ *     summary: Search pharmacies that accept electronic prescriptions
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Pharmacy name or NCPDP ID
+ *     responses:
+ *       200:
+ *         description: Matching pharmacies
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/pharmacies', validate([
+  query('q').optional().isString().withMessage('Search must be a string')
+]), prescriptionController.getPharmacies);
+
+/**
+ * @swagger
+ * /api/prescriptions/renewals:
+ *   get:
+ *     summary: Pharmacy renewal requests awaiting the current prescriber
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending renewal requests, oldest first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/renewals', prescriptionController.getPendingRenewals);
+
+/**
+ * @swagger
+ * /api/prescriptions/renewals/{requestId}/response:
+ *   post:
+ *     summary: Approve or deny a pharmacy renewal request
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - approved
+ *             properties:
+ *               approved:
+ *                 type: boolean
+ *               refills:
+ *                 type: number
+ *                 description: Refills authorised by an approval
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Renewal response sent
+ *       404:
+ *         description: Renewal request not found, or not on one of the user's prescriptions
+ *       409:
+ *         description: Renewal request already answered
+ */
+router.post('/renewals/:requestId/response', validate([
+  param('requestId').isString().notEmpty(),
+  body('approved').isBoolean().withMessage('Approved must be true or false').toBoolean(),
+  body('refills').optional().isInt({ min: 0, max: 11 }).withMessage('Refills must be between 0 and 11').toInt(),
+  body('note').optional().isString().isLength({ max: 210 }).withMessage('Note must be at most 210 characters')
+]), prescriptionController.respondToRenewal);
+
+/**
+ * @swagger
+ * /api/prescriptions/transmissions/{transmissionId}/cancel:
+ *   post:
+ *     summary: Ask the pharmacy to cancel a transmitted prescription
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transmissionId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation sent; the transmission shows the pharmacy's answer
+ *       404:
+ *         description: Transmission not found, or not on one of the user's prescriptions
+ *       409:
+ *         description: Transmission cannot be cancelled, e.g. already filled
+ */
+router.post('/transmissions/:transmissionId/cancel', validate([
+  param('transmissionId').isString().notEmpty(),
+  body('reason').optional().isString().isLength({ max: 210 }).withMessage('Reason must be at most 210 characters')
+]), prescriptionController.cancelTransmission);
+
+/**
+ * @swagger
+ * /api/prescriptions/{id}/transmissions:
+ *   get:
+ *     summary: Electronic transmission status and SCRIPT message history for a prescription
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Transmissions, newest first
+ *       404:
+ *         description: Prescription not found, or not written by the user
+ *   post:
+ *     summary: Send a prescription to a pharmacy as NCPDP SCRIPT NewRx messages
+ *     tags: [Prescriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: string
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pharmacyId
+ *             properties:
+ *               pharmacyId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: One transmission per medication not already sent
+ *       404:
+ *         description: Prescription or pharmacy not found
+ *       409:
+ *         description: All medications have already been sent
+ */
+router.get('/:id/transmissions', validate([
+  param('id').isString().notEmpty()
+]), prescriptionController.getTransmissions);
+
+router.post('/:id/transmissions', validate([
+  param('id').isString().notEmpty(),
+  body('pharmacyId').isString().notEmpty().withMessage('Pharmacy ID is required')
+]), prescriptionController.transmitPrescription);
+
 export default router;
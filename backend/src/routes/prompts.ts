@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import promptRegistryController from '../controllers/PromptRegistryController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const nameParam = param('name').isString().matches(/^[a-z][a-z0-9_.-]*$/).withMessage('Invalid prompt name');
+const experimentIdParam = param('id').isMongoId().withMessage('Invalid experiment ID');
+
+// Prompt changes affect every AI feature, so they are restricted to admins
+router.use(requireRoles(['admin']));
+
+/**
+ * @route   GET /api/v1/admin/prompts
+ * @desc    Prompts with their active and latest versions and any running experiment
+ * @access  Admin
+ */
+router.get('/', promptRegistryController.listPrompts);
+
+/**
+ * @route   GET /api/v1/admin/prompts/experiments?promptName=
+ * @desc    Prompt experiments, newest first
+ * @access  Admin
+ */
+router.get(
+  '/experiments',
+  validate([query('promptName').optional().isString()]),
+  promptRegistryController.listExperiments
+);
+
+/**
+ * @route   POST /api/v1/admin/prompts/experiments
+ * @desc    Split traffic for a prompt between versions by weight. Version 0 is the built-in
+ *          template. Predictions and feedback record the version that was served.
+ * @access  Admin
+ */
+router.post(
+  '/experiments',
+  validate([
+    body('name').isString().notEmpty().withMessage('Name is required'),
+    body('promptName').isString().notEmpty().withMessage('Prompt name is required'),
+    body('description').optional().isString(),
+    body('variants').isArray({ min: 2 }).withMessage('At least two variants are required'),
+    body('variants.*.version').isInt({ min: 0 }).withMessage('Variant version must be a non-negative integer'),
+    body('variants.*.weight').isFloat({ min: 0 }).withMessage('Variant weight must be a non-negative number')
+  ]),
+  promptRegistryController.startExperiment
+);
+
+/**
+ * @route   GET /api/v1/admin/prompts/experiments/:id/results
+ * @desc    Assignments, feedback accuracy and ratings for each version in an experiment
+ * @access  Admin
+ */
+router.get(
+  '/experiments/:id/results',
+  validate([experimentIdParam]),
+  promptRegistryController.getExperimentResults
+);
+
+/**
+ * @route   POST /api/v1/admin/prompts/experiments/:id/stop
+ * @desc    Stop an experiment; promoteVersion publishes the winning version
+ * @access  Admin
+ */
+router.post(
+  '/experiments/:id/stop',
+  validate([
+    experimentIdParam,
+    body('promoteVersion').optional().isInt({ min: 0 }).withMessage('promoteVersion must be a non-negative integer')
+  ]),
+  promptRegistryController.stopExperiment
+);
+
+/**
+ * @route   GET /api/v1/admin/prompts/:name/versions
+ * @desc    Every stored version of a prompt, newest first
+ * @access  Admin
+ */
+router.get('/:name/versions', validate([nameParam]), promptRegistryController.getVersions);
+
+/**
+ * @route   POST /api/v1/admin/prompts/:name/versions
+ * @desc    Create the next version of a prompt. It is published unless publish is false,
+ *          in which case it stays a draft for use in experiments.
+ * @access  Admin
+ */
+router.post(
+  '/:name/versions',
+  validate([
+    nameParam,
+    body('template').isString().notEmpty().withMessage('Template is required'),
+    body('systemPrompt').optional().isString(),
+    body('description').optional().isString(),
+    body('publish').optional().isBoolean()
+  ]),
+  promptRegistryController.createVersion
+);
+
+/**
+ * @route   POST /api/v1/admin/prompts/:name/versions/:version/publish
+ * @desc    Make a version active; the previously active version is retired
+ * @access  Admin
+ */
+router.post(
+  '/:name/versions/:version/publish',
+  validate([nameParam, param('version').isInt({ min: 1 }).withMessage('Invalid version')]),
+  promptRegistryController.publishVersion
+);
+
+export default router;
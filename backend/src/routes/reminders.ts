@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import medicationReminderController from '../controllers/MedicationReminderController';
+import { validate } from '../middleware/validation';
+
+const router = Router();
+
+const endpointValidator = body('endpoint').isURL({ protocols: ['https'], require_tld: false })
+  .withMessage('endpoint must be an https URL');
+
+/**
+ * @route   GET /api/v1/reminders?hours=24
+ * @desc    Current user's open medication reminders, including recently missed ones
+ * @access  Private
+ */
+router.get(
+  '/',
+  validate([
+    query('hours').optional().isInt({ min: 1, max: 168 }).withMessage('hours must be between 1 and 168')
+  ]),
+  medicationReminderController.getUpcoming
+);
+
+/**
+ * @route   GET /api/v1/reminders/push/key
+ * @desc    VAPID public key for subscribing to Web Push
+ * @access  Private
+ */
+router.get('/push/key', medicationReminderController.getPushKey);
+
+/**
+ * @route   POST /api/v1/reminders/push/subscriptions
+ * @desc    Register a browser push subscription for reminders
+ * @access  Private
+ */
+router.post(
+  '/push/subscriptions',
+  validate([
+    endpointValidator,
+    body('keys.p256dh').isBase64({ urlSafe: true }).withMessage('keys.p256dh must be base64url'),
+    body('keys.auth').isBase64({ urlSafe: true }).withMessage('keys.auth must be base64url')
+  ]),
+  medicationReminderController.subscribe
+);
+
+/**
+ * @route   DELETE /api/v1/reminders/push/subscriptions
+ * @desc    Remove a browser push subscription
+ * @access  Private
+ */
+router.delete('/push/subscriptions', validate([endpointValidator]), medicationReminderController.unsubscribe);
+
+/**
+ * @route   POST /api/v1/reminders/:reminderId/actions
+ * @desc    Mark the dose taken or skipped, or snooze the reminder; recorded as a medication event
+ * @access  Private
+ */
+router.post(
+  '/:reminderId/actions',
+  validate([
+    param('reminderId').isMongoId().withMessage('Invalid reminder ID'),
+    body('action').isIn(['taken', 'skipped', 'snooze']).withMessage('action must be taken, skipped or snooze'),
+    body('snoozeMinutes').optional().isInt({ min: 1, max: 120 }).withMessage('snoozeMinutes must be between 1 and 120').toInt(),
+    body('reason').optional().isString().isLength({ max: 500 })
+  ]),
+  medicationReminderController.respond
+);
+
+export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import safetySignalController from '../controllers/SafetySignalController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const statuses = ['new', 'under_review', 'monitoring', 'confirmed', 'refuted'];
+const reviewStatuses = statuses.filter(status => status !== 'new');
+
+const signalIdParam = param('id').isMongoId().withMessage('Invalid signal ID');
+
+// Pharmacovigilance review is restricted to admins
+router.use(requireRoles(['admin']));
+
+/**
+ * @route   GET /api/v1/admin/safety-signals?status=new,under_review
+ * @desc    Signal review queue; defaults to new and under-review signals, emerging first
+ * @access  Admin
+ */
+router.get(
+  '/',
+  validate([
+    query('status').optional().custom((value: string) => value.split(',').every(status => statuses.includes(status)))
+      .withMessage(`Status must be a comma-separated list of: ${statuses.join(', ')}`)
+  ]),
+  safetySignalController.getReviewQueue
+);
+
+/**
+ * @route   POST /api/v1/admin/safety-signals/detect
+ * @desc    Run PRR/ROR signal detection over safety issue reports in rolling windows
+ * @access  Admin
+ */
+router.post(
+  '/detect',
+  validate([
+    body('asOf').optional().isISO8601().withMessage('asOf must be an ISO 8601 date'),
+    body('windowDays').optional().isInt({ min: 7 }).withMessage('windowDays must be at least 7'),
+    body('stepDays').optional().isInt({ min: 1 }).withMessage('stepDays must be a positive integer'),
+    body('windowCount').optional().isInt({ min: 1, max: 24 }).withMessage('windowCount must be between 1 and 24'),
+    body('minCases').optional().isInt({ min: 1 }).withMessage('minCases must be a positive integer')
+  ]),
+  safetySignalController.runDetection
+);
+
+/**
+ * @route   GET /api/v1/admin/safety-signals/:id
+ * @desc    Get a signal with its statistics and trend
+ * @access  Admin
+ */
+router.get('/:id', validate([signalIdParam]), safetySignalController.getSignal);
+
+/**
+ * @route   PATCH /api/v1/admin/safety-signals/:id/review
+ * @desc    Record a review decision on a signal
+ * @access  Admin
+ */
+router.patch(
+  '/:id/review',
+  validate([
+    signalIdParam,
+    body('status').isIn(reviewStatuses).withMessage(`Status must be one of: ${reviewStatuses.join(', ')}`),
+    body('notes').isString().trim().notEmpty().withMessage('Review notes are required')
+  ]),
+  safetySignalController.reviewSignal
+);
+
+export default router;
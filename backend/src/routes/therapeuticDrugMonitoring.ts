@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import therapeuticDrugMonitoringController from '../controllers/TherapeuticDrugMonitoringController';
+import { validate } from '../middleware/validation';
+import { requireRoles } from '../middleware/auth';
+
+const router = Router();
+
+const sampleTimings = ['peak', 'trough', 'random'];
+
+/**
+ * @route   GET /api/v1/tdm/medications/:medicationId/sampling-plan
+ * @desc    Recommended sampling times for a monitored medication
+ * @access  Private
+ */
+router.get(
+  '/medications/:medicationId/sampling-plan',
+  validate([
+    param('medicationId').isMongoId().withMessage('Invalid medication ID'),
+    query('therapyStartedAt').optional().isISO8601().withMessage('therapyStartedAt must be an ISO 8601 date'),
+    query('frequency').optional().isString(),
+    query('intervalHours').optional().isFloat({ gt: 0 }).withMessage('intervalHours must be a positive number'),
+    query('route').optional().isString()
+  ]),
+  therapeuticDrugMonitoringController.getSamplingPlan
+);
+
+/**
+ * @route   POST /api/v1/tdm/levels
+ * @desc    Record a measured drug level against a prescription
+ * @access  Doctor, Nurse
+ */
+router.post(
+  '/levels',
+  requireRoles(['doctor', 'nurse', 'admin']),
+  validate([
+    body('patientId').isString().notEmpty().withMessage('Patient ID is required'),
+    body('prescriptionId').isString().notEmpty().withMessage('Prescription ID is required'),
+    body('medicationId').isMongoId().withMessage('Invalid medication ID'),
+    body('value').isFloat({ min: 0 }).withMessage('Level value must be a non-negative number'),
+    body('unit').isString().notEmpty().withMessage('Level unit is required'),
+    body('timing').isIn(sampleTimings).withMessage(`Timing must be one of: ${sampleTimings.join(', ')}`),
+    body('sampledAt').optional().isISO8601().withMessage('sampledAt must be an ISO 8601 date'),
+    body('lastDoseAt').optional().isISO8601().withMessage('lastDoseAt must be an ISO 8601 date'),
+    body('therapyStartedAt').optional().isISO8601().withMessage('therapyStartedAt must be an ISO 8601 date'),
+    body('currentDose.amount').optional().isFloat({ gt: 0 }).withMessage('Current dose must be a positive number'),
+    body('currentDose.unit').if(body('currentDose').exists()).isString().notEmpty().withMessage('Current dose unit is required'),
+    body('currentDose.intervalHours').optional().isFloat({ gt: 0 }),
+    body('notes').optional().isString()
+  ]),
+  therapeuticDrugMonitoringController.recordLevel
+);
+
+/**
+ * @route   GET /api/v1/tdm/patients/:patientId/levels
+ * @desc    Drug level history for a patient, grouped by medication
+ * @access  Private
+ */
+router.get(
+  '/patients/:patientId/levels',
+  validate([
+    param('patientId').isString().notEmpty(),
+    query('medicationId').optional().isMongoId().withMessage('Invalid medication ID'),
+    query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date')
+  ]),
+  therapeuticDrugMonitoringController.getPatientLevelHistory
+);
+
+/**
+ * @route   GET /api/v1/tdm/prescriptions/:prescriptionId/levels
+ * @desc    Drug levels recorded against a prescription
+ * @access  Private
+ */
+router.get(
+  '/prescriptions/:prescriptionId/levels',
+  validate([param('prescriptionId').isString().notEmpty()]),
+  therapeuticDrugMonitoringController.getPrescriptionLevels
+);
+
+export default router;
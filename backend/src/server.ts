@@ -12,6 +12,15 @@ import config from './config';
 import expressApp from './app';
 import { errorHandler } from './middleware/errorHandler';
 import apiRoutes from './routes/api';
+import { llmGateway } from './services/ai/llm';
+import { aiUsageService } from './services/AIUsageService';
+import NotificationService from './services/notificationService';
+import { MedicationAdherenceService } from './services/MedicationAdherenceService';
+import { MedicationReminderService } from './services/MedicationReminderService';
+import { AdherenceOutreachService } from './services/AdherenceOutreachService';
+import MedicationScheduleModel from './models/MedicationSchedule';
+import MedicationEventModel from './models/MedicationEvent';
+import AdherenceAlertModel from './models/AdherenceAlert';
 
 // Validate required environment variables
 const requiredEnvVars = [
@@ -144,11 +153,28 @@ const connectWithRetry = async (retries = 5, interval = 5000) => {
 
 // Start the server
 function startServer() {
+    // Budget checks and the AI usage ledger for every LLM completion
+    llmGateway.useLedger(aiUsageService);
+
     const server = app.listen(config.server.port, () => {
         logger.info(`Server is running on port ${config.server.port} in ${config.server.env} mode`);
         logger.info(`Health check available at ${config.server.apiUrl}/health`);
     });
 
+    // Medication reminders go out over the notification WebSocket and Web Push
+    const notificationService = new NotificationService(server);
+    const adherenceService = MedicationAdherenceService.getInstance(
+        MedicationScheduleModel,
+        MedicationEventModel,
+        AdherenceAlertModel
+    );
+    const reminderService = MedicationReminderService.getInstance(adherenceService, notificationService);
+    reminderService.start();
+
+    // Escalating outreach on adherence alerts: patient reminders, nurse tasks, doctor alerts
+    const outreachService = AdherenceOutreachService.getInstance(adherenceService, notificationService);
+    outreachService.start();
+
     // Handle server errors
     server.on('error', (error: NodeJS.ErrnoException) => {
         if (error.syscall !== 'listen') {
@@ -178,6 +204,9 @@ function startServer() {
     // Graceful shutdown handler
     const gracefulShutdown = (signal: string) => {
         logger.info(`Received ${signal}, shutting down gracefully...`);
+        reminderService.stop();
+        outreachService.stop();
+        notificationService.close();
         server.close(() => {
             logger.info('HTTP server closed.');
             mongoose.connection.close(false).then(() => {
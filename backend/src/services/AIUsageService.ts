@@ -0,0 +1,419 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import logger from '../utils/logger';
+import aiUsage, { BudgetPeriod } from '../utils/aiUsage';
+import { aiPricing } from '../config/ai.config';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import AIInvocation, { AIInvocationOutcome, IAIInvocation } from '../models/AIInvocation';
+import AIBudget, { AIBudgetScope, IAIBudget } from '../models/AIBudget';
+import {
+  AIBudgetExceededError,
+  InvocationEstimate,
+  InvocationLedger,
+  InvocationRecord
+} from './ai/llm/InvocationLedger';
+
+// Active budgets are read on every completion, so they are cached briefly
+const BUDGET_CACHE_TTL_MS = 60 * 1000;
+const DEFAULT_INVOCATION_LIMIT = 100;
+const TOP_USERS = 20;
+
+/**
+ * Error raised for invalid budget operations
+ */
+export class AIUsageError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(message: string, code: string, details?: unknown) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Budget settings as supplied by admins
+ */
+export interface AIBudgetInput {
+  scope: AIBudgetScope;
+  scopeId: string;
+  period?: BudgetPeriod;
+  limitUsd: number;
+  tokenLimit?: number;
+  description?: string;
+}
+
+export type AIBudgetUpdate = Partial<Pick<AIBudgetInput, 'limitUsd' | 'tokenLimit' | 'description'>>;
+
+/**
+ * A budget with its spend so far in the current period
+ */
+export interface AIBudgetStatus {
+  budget: IAIBudget;
+  periodStart: Date;
+  spentUsd: number;
+  tokensUsed: number;
+  utilisation: number; // spend as a fraction of the limit
+}
+
+/**
+ * Call counts, tokens and spend for one feature, user, department or model
+ */
+export interface UsageBreakdown {
+  key: string | null;
+  calls: number;
+  errors: number;
+  rejected: number;
+  errorRate: number; // errors as a fraction of calls that reached the provider
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number | null;
+}
+
+export interface UsageSummary {
+  from: Date;
+  to: Date;
+  totals: UsageBreakdown;
+  byFeature: UsageBreakdown[];
+  byUser: UsageBreakdown[]; // highest spend first, top users only
+  byDepartment: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+  budgets: AIBudgetStatus[];
+}
+
+export interface InvocationFilter {
+  feature?: string;
+  userId?: string;
+  departmentId?: string;
+  outcome?: AIInvocationOutcome;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// One $group row of the usage summary aggregation
+interface BreakdownRow {
+  _id: string | null;
+  calls: number;
+  errors: number;
+  rejected: number;
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number | null;
+}
+
+interface UsageFacets {
+  totals: BreakdownRow[];
+  byFeature: BreakdownRow[];
+  byUser: BreakdownRow[];
+  byDepartment: BreakdownRow[];
+  byModel: BreakdownRow[];
+}
+
+/**
+ * Ledger of AI completions and the budgets that limit them. Registered with the LLM gateway
+ * at startup: every completion is checked against the active user, department and feature
+ * budgets before it is sent, and recorded with its token usage, estimated cost and outcome.
+ */
+export class AIUsageService implements InvocationLedger {
+  private static instance: AIUsageService;
+  private budgetCache?: { budgets: IAIBudget[]; expiresAt: number };
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AIUsageService {
+    if (!AIUsageService.instance) {
+      AIUsageService.instance = new AIUsageService();
+    }
+    return AIUsageService.instance;
+  }
+
+  /**
+   * Reject a completion that would take any matching budget past its limit. The estimate
+   * assumes the full completion token allowance is used. Budgets are not enforced when they
+   * cannot be read, so an outage never blocks clinical features.
+   */
+  public async authorize(estimate: InvocationEstimate): Promise<void> {
+    let budgets: IAIBudget[];
+    try {
+      budgets = (await this.activeBudgets()).filter(budget => this.budgetApplies(budget, estimate));
+    } catch (error) {
+      logger.warn(`AI budgets unavailable, allowing ${estimate.feature} request: ${error}`);
+      return;
+    }
+
+    const estimatedTokens = estimate.estimatedPromptTokens + estimate.maxCompletionTokens;
+    const estimatedCostUsd = aiUsage.estimateCost(
+      { promptTokens: estimate.estimatedPromptTokens, completionTokens: estimate.maxCompletionTokens },
+      aiUsage.pricingFor(estimate.model, aiPricing)
+    );
+
+    for (const budget of budgets) {
+      let status: AIBudgetStatus;
+      try {
+        status = await this.getBudgetStatus(budget);
+      } catch (error) {
+        logger.warn(`Could not read spend for AI budget ${budget._id}: ${error}`);
+        continue;
+      }
+
+      const overSpend = status.spentUsd + estimatedCostUsd > budget.limitUsd;
+      const overTokens = budget.tokenLimit !== undefined && budget.tokenLimit !== null
+        && status.tokensUsed + estimatedTokens > budget.tokenLimit;
+      if (overSpend || overTokens) {
+        logger.warn(`AI ${budget.period} budget exceeded for ${budget.scope} ${budget.scopeId} (${estimate.feature})`);
+        throw new AIBudgetExceededError(
+          `The ${budget.period} AI budget for this ${budget.scope} has been reached`,
+          'AI_BUDGET_EXCEEDED',
+          {
+            budgetId: budget._id.toString(),
+            scope: budget.scope,
+            scopeId: budget.scopeId,
+            period: budget.period,
+            limitUsd: budget.limitUsd,
+            spentUsd: status.spentUsd,
+            tokenLimit: budget.tokenLimit,
+            tokensUsed: status.tokensUsed
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Write a completion to the ledger with its estimated cost
+   */
+  public async record(record: InvocationRecord): Promise<void> {
+    const { usage, model, ...entry } = record;
+    await AIInvocation.create({
+      ...entry,
+      modelName: model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCostUsd: aiUsage.estimateCost(usage, aiUsage.pricingFor(record.model, aiPricing))
+    });
+  }
+
+  /**
+   * Budgets with their spend in the current period
+   */
+  public async listBudgets(includeInactive = false): Promise<AIBudgetStatus[]> {
+    const budgets = await AIBudget.find(includeInactive ? {} : { active: true }).sort({ scope: 1, scopeId: 1 });
+    return Promise.all(budgets.map(budget => this.getBudgetStatus(budget)));
+  }
+
+  /**
+   * Add a budget; only one active budget is allowed per scope and period
+   */
+  public async createBudget(input: AIBudgetInput, userId: string): Promise<IAIBudget> {
+    const period = input.period || 'monthly';
+    const existing = await AIBudget.findOne({ scope: input.scope, scopeId: input.scopeId, period, active: true });
+    if (existing) {
+      throw new AIUsageError(
+        `An active ${period} budget already exists for ${input.scope} ${input.scopeId}`,
+        'BUDGET_EXISTS',
+        { budgetId: existing._id.toString() }
+      );
+    }
+
+    const budget = await AIBudget.create({ ...input, period, active: true, createdBy: userId });
+    this.budgetCache = undefined;
+
+    await this.audit(userId, 'ai_budget_created', {
+      budgetId: budget._id.toString(),
+      scope: budget.scope,
+      scopeId: budget.scopeId,
+      period: budget.period,
+      limitUsd: budget.limitUsd,
+      tokenLimit: budget.tokenLimit
+    });
+    return budget;
+  }
+
+  /**
+   * Change a budget's limits; takes effect for the next completion
+   */
+  public async updateBudget(id: string, update: AIBudgetUpdate, userId: string): Promise<IAIBudget> {
+    const budget = await this.findActiveBudget(id);
+    const previous = { limitUsd: budget.limitUsd, tokenLimit: budget.tokenLimit };
+
+    if (update.limitUsd !== undefined) budget.limitUsd = update.limitUsd;
+    if (update.tokenLimit !== undefined) budget.tokenLimit = update.tokenLimit;
+    if (update.description !== undefined) budget.description = update.description;
+    budget.updatedBy = new mongoose.Types.ObjectId(userId);
+    await budget.save();
+    this.budgetCache = undefined;
+
+    await this.audit(userId, 'ai_budget_updated', {
+      budgetId: id,
+      previous,
+      limitUsd: budget.limitUsd,
+      tokenLimit: budget.tokenLimit
+    });
+    return budget;
+  }
+
+  /**
+   * Stop enforcing a budget; it stays on record
+   */
+  public async deactivateBudget(id: string, userId: string): Promise<IAIBudget> {
+    const budget = await this.findActiveBudget(id);
+    budget.active = false;
+    budget.updatedBy = new mongoose.Types.ObjectId(userId);
+    await budget.save();
+    this.budgetCache = undefined;
+
+    await this.audit(userId, 'ai_budget_deactivated', { budgetId: id, scope: budget.scope, scopeId: budget.scopeId });
+    return budget;
+  }
+
+  /**
+   * Spend, token usage and error rates for the dashboard. Defaults to the current month.
+   */
+  public async getSummary(from?: Date, to: Date = new Date()): Promise<UsageSummary> {
+    const start = from || aiUsage.periodStart('monthly', to);
+    const [facets] = await AIInvocation.aggregate<UsageFacets>([
+      { $match: { createdAt: { $gte: start, $lte: to } } },
+      {
+        $facet: {
+          totals: this.breakdownStages(null),
+          byFeature: this.breakdownStages('$feature'),
+          byUser: [...this.breakdownStages('$userId'), { $limit: TOP_USERS }],
+          byDepartment: this.breakdownStages('$departmentId'),
+          byModel: this.breakdownStages('$modelName')
+        }
+      }
+    ]);
+
+    const toBreakdown = (row: BreakdownRow): UsageBreakdown => {
+      const reachedProvider = row.calls - row.rejected;
+      return {
+        key: row._id,
+        calls: row.calls,
+        errors: row.errors,
+        rejected: row.rejected,
+        errorRate: reachedProvider > 0 ? Math.round((row.errors / reachedProvider) * 1000) / 1000 : 0,
+        totalTokens: row.totalTokens,
+        costUsd: Math.round(row.costUsd * 1e6) / 1e6,
+        averageLatencyMs: row.averageLatencyMs === null ? null : Math.round(row.averageLatencyMs)
+      };
+    };
+
+    return {
+      from: start,
+      to,
+      totals: facets.totals[0]
+        ? toBreakdown(facets.totals[0])
+        : toBreakdown({ _id: null, calls: 0, errors: 0, rejected: 0, totalTokens: 0, costUsd: 0, averageLatencyMs: null }),
+      byFeature: facets.byFeature.map(toBreakdown),
+      byUser: facets.byUser.map(toBreakdown),
+      byDepartment: facets.byDepartment.map(toBreakdown),
+      byModel: facets.byModel.map(toBreakdown),
+      budgets: await this.listBudgets()
+    };
+  }
+
+  /**
+   * Ledger entries, newest first
+   */
+  public async listInvocations(filter: InvocationFilter = {}): Promise<IAIInvocation[]> {
+    const query: Record<string, unknown> = {};
+    if (filter.feature) query.feature = filter.feature;
+    if (filter.userId) query.userId = filter.userId;
+    if (filter.departmentId) query.departmentId = filter.departmentId;
+    if (filter.outcome) query.outcome = filter.outcome;
+    if (filter.from || filter.to) {
+      query.createdAt = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lte: filter.to })
+      };
+    }
+
+    return AIInvocation.find(query)
+      .sort({ createdAt: -1 })
+      .limit(filter.limit || DEFAULT_INVOCATION_LIMIT);
+  }
+
+  private async activeBudgets(): Promise<IAIBudget[]> {
+    if (this.budgetCache && this.budgetCache.expiresAt > Date.now()) {
+      return this.budgetCache.budgets;
+    }
+    const budgets = await AIBudget.find({ active: true });
+    this.budgetCache = { budgets, expiresAt: Date.now() + BUDGET_CACHE_TTL_MS };
+    return budgets;
+  }
+
+  private budgetApplies(budget: IAIBudget, estimate: InvocationEstimate): boolean {
+    switch (budget.scope) {
+      case 'user':
+        return budget.scopeId === estimate.userId;
+      case 'department':
+        return budget.scopeId === estimate.departmentId;
+      case 'feature':
+        return budget.scopeId === estimate.feature;
+      default:
+        return false;
+    }
+  }
+
+  private async getBudgetStatus(budget: IAIBudget): Promise<AIBudgetStatus> {
+    const periodStart = aiUsage.periodStart(budget.period);
+    const scopeField = { user: 'userId', department: 'departmentId', feature: 'feature' }[budget.scope];
+
+    // Rejected calls never reached the provider, so they cost nothing
+    const [spend] = await AIInvocation.aggregate([
+      { $match: { [scopeField]: budget.scopeId, createdAt: { $gte: periodStart }, outcome: { $ne: 'rejected' } } },
+      { $group: { _id: null, spentUsd: { $sum: '$estimatedCostUsd' }, tokensUsed: { $sum: '$totalTokens' } } }
+    ]);
+
+    const spentUsd = Math.round((spend?.spentUsd || 0) * 1e6) / 1e6;
+    return {
+      budget,
+      periodStart,
+      spentUsd,
+      tokensUsed: spend?.tokensUsed || 0,
+      utilisation: budget.limitUsd > 0 ? Math.round((spentUsd / budget.limitUsd) * 1000) / 1000 : 1
+    };
+  }
+
+  private breakdownStages(key: string | null): PipelineStage.FacetPipelineStage[] {
+    const count = (outcome: AIInvocationOutcome) => ({ $sum: { $cond: [{ $eq: ['$outcome', outcome] }, 1, 0] } });
+    return [
+      {
+        $group: {
+          _id: key,
+          calls: { $sum: 1 },
+          errors: count('error'),
+          rejected: count('rejected'),
+          totalTokens: { $sum: '$totalTokens' },
+          costUsd: { $sum: '$estimatedCostUsd' },
+          averageLatencyMs: { $avg: { $cond: [{ $eq: ['$outcome', 'success'] }, '$latencyMs', null] } }
+        }
+      },
+      { $sort: { costUsd: -1 } }
+    ];
+  }
+
+  private async findActiveBudget(id: string): Promise<IAIBudget> {
+    const budget = mongoose.Types.ObjectId.isValid(id) ? await AIBudget.findById(id) : null;
+    if (!budget || !budget.active) {
+      throw new AIUsageError('AI budget not found', 'BUDGET_NOT_FOUND');
+    }
+    return budget;
+  }
+
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const aiUsageService = AIUsageService.getInstance();
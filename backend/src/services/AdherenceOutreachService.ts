@@ -0,0 +1,329 @@
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import { Patient, IPatient } from '../models/Patient';
+import Task from '../models/Task';
+import {
+  AdherenceOutreachCampaign,
+  IAdherenceOutreachCampaign,
+  IOutreachAction
+} from '../models/AdherenceOutreachCampaign';
+import { MedicationAdherenceService, MedicationSchedule } from './MedicationAdherenceService';
+import adherenceOutreachRules, {
+  OutreachDecision,
+  OutreachRuleSettings,
+  OutreachStage,
+  OutreachTrigger
+} from '../utils/adherenceOutreach';
+
+/**
+ * Error raised when outreach is used before it has been initialized
+ */
+export class AdherenceOutreachError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'AdherenceOutreachError';
+    this.code = code;
+  }
+}
+
+/**
+ * Notification delivery as provided by NotificationService
+ */
+export interface OutreachNotifier {
+  sendNotification(userId: string, notification: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * Result of evaluating one patient medication
+ */
+export interface OutreachResult {
+  patientId: string;
+  medicationId: string;
+  decision: OutreachDecision;
+  campaign?: IAdherenceOutreachCampaign;
+}
+
+/**
+ * Summary of an outreach sweep
+ */
+export interface OutreachRun {
+  asOf: Date;
+  evaluated: number;
+  escalated: number;
+  resolved: number;
+  waiting: number;
+}
+
+// Department that receives adherence follow-up tasks
+const OUTREACH_DEPARTMENT = process.env.ADHERENCE_OUTREACH_DEPARTMENT || 'nursing';
+
+// How far back unacknowledged adherence alerts are picked up
+const ALERT_LOOKBACK_DAYS = 30;
+
+// How often the outreach sweep runs; stage cooldowns are measured in days
+const OUTREACH_INTERVAL_MS = 60 * 60 * 1000;
+
+// Failed attempts at a stage before escalation moves past it
+const MAX_STAGE_ATTEMPTS = 3;
+
+type StageOutcome = Omit<IOutreachAction, 'stage' | 'triggers' | 'performedAt'>;
+
+/**
+ * Acts on adherence alerts with escalating outreach campaigns: a patient reminder, then a
+ * nurse follow-up task, then an alert to the responsible doctor, each with a cooldown
+ */
+export class AdherenceOutreachService {
+  private static instance: AdherenceOutreachService;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private adherenceService: MedicationAdherenceService,
+    private notifier: OutreachNotifier,
+    private settings: Partial<OutreachRuleSettings> = {}
+  ) {}
+
+  /**
+   * Get singleton instance. Dependencies are required on first use, which happens when
+   * the outreach job is started.
+   */
+  public static getInstance(
+    adherenceService?: MedicationAdherenceService,
+    notifier?: OutreachNotifier,
+    settings: Partial<OutreachRuleSettings> = {}
+  ): AdherenceOutreachService {
+    if (!AdherenceOutreachService.instance) {
+      if (!adherenceService || !notifier) {
+        throw new AdherenceOutreachError('Adherence outreach has not been initialized', 'NOT_INITIALIZED');
+      }
+      AdherenceOutreachService.instance = new AdherenceOutreachService(adherenceService, notifier, settings);
+    }
+    return AdherenceOutreachService.instance;
+  }
+
+  /**
+   * Run the outreach sweep on an interval
+   */
+  start(intervalMs: number = OUTREACH_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), intervalMs);
+    this.sweep();
+    logger.info('Adherence outreach job started');
+  }
+
+  /**
+   * Stop the outreach job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Evaluate every patient medication with recent unacknowledged alerts or an active
+   * campaign, escalating or resolving campaigns as needed
+   */
+  async runOutreach(asOf: Date = new Date()): Promise<OutreachRun> {
+    const since = new Date(asOf.getTime() - ALERT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const [alertTargets, activeCampaigns] = await Promise.all([
+      this.adherenceService.getOpenAlertTargets(since),
+      AdherenceOutreachCampaign.find({ status: 'active' }).select('patientId medicationId')
+    ]);
+
+    const targets = new Map<string, { patientId: mongoose.Types.ObjectId; medicationId: mongoose.Types.ObjectId }>();
+    for (const target of [...alertTargets, ...activeCampaigns]) {
+      targets.set(`${target.patientId}:${target.medicationId}`, { patientId: target.patientId, medicationId: target.medicationId });
+    }
+
+    const run: OutreachRun = { asOf, evaluated: 0, escalated: 0, resolved: 0, waiting: 0 };
+    for (const { patientId, medicationId } of targets.values()) {
+      try {
+        const result = await this.processMedication(patientId, medicationId, asOf);
+        run.evaluated++;
+        if (result.decision.action === 'escalate') run.escalated++;
+        if (result.decision.action === 'resolve') run.resolved++;
+        if (result.decision.action === 'wait') run.waiting++;
+      } catch (error) {
+        logger.error(`Adherence outreach failed for patient ${patientId} medication ${medicationId}: ${error}`);
+      }
+    }
+
+    logger.info(`Adherence outreach: ${run.escalated} escalated, ${run.resolved} resolved of ${run.evaluated} evaluated`);
+    return run;
+  }
+
+  /**
+   * Evaluate one patient medication and perform the stage that is due, if any
+   */
+  async processMedication(
+    patientId: mongoose.Types.ObjectId,
+    medicationId: mongoose.Types.ObjectId,
+    asOf: Date = new Date()
+  ): Promise<OutreachResult> {
+    const signals = await this.adherenceService.getAdherenceSignals(patientId, medicationId, undefined, asOf);
+    let campaign = await AdherenceOutreachCampaign.findOne({ patientId, medicationId, status: 'active' });
+    const state = campaign?.currentStage && campaign.lastActionAt
+      ? { currentStage: campaign.currentStage, lastActionAt: campaign.lastActionAt }
+      : undefined;
+
+    const decision = adherenceOutreachRules.evaluate(signals, state, asOf, this.settings);
+    const result: OutreachResult = {
+      patientId: patientId.toString(),
+      medicationId: medicationId.toString(),
+      decision
+    };
+
+    if (decision.action === 'resolve' && campaign) {
+      campaign.status = 'resolved';
+      campaign.resolvedAt = asOf;
+      campaign.latestTriggers = [];
+      await campaign.save();
+      logger.info(`Resolved adherence outreach for patient ${patientId} medication ${medicationId}`);
+      return { ...result, campaign };
+    }
+
+    if (decision.action !== 'escalate' || !decision.stage) {
+      if (campaign) {
+        campaign.latestTriggers = decision.triggers;
+        await campaign.save();
+      }
+      return { ...result, campaign: campaign || undefined };
+    }
+
+    if (!campaign) {
+      campaign = new AdherenceOutreachCampaign({ patientId, medicationId, status: 'active', startedAt: asOf });
+    }
+
+    const outcome = await this.performStage(decision.stage, patientId, medicationId, decision.triggers, asOf);
+    campaign.actions.push({ stage: decision.stage, triggers: decision.triggers, performedAt: asOf, ...outcome });
+    campaign.latestTriggers = decision.triggers;
+    // A skipped stage still counts so escalation can move past it; failures are retried
+    // until the stage has failed MAX_STAGE_ATTEMPTS times in a row
+    if (outcome.outcome !== 'failed' || this.failedAttempts(campaign, decision.stage) >= MAX_STAGE_ATTEMPTS) {
+      campaign.currentStage = decision.stage;
+      campaign.lastActionAt = asOf;
+    }
+    await campaign.save();
+
+    return { ...result, campaign };
+  }
+
+  // Sweeps do not overlap, and a failed sweep is retried on the next interval
+  private async sweep(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.runOutreach();
+    } catch (error) {
+      logger.error(`Adherence outreach sweep failed: ${error}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Failed attempts at a stage since its last successful or skipped action
+  private failedAttempts(campaign: IAdherenceOutreachCampaign, stage: OutreachStage): number {
+    let failed = 0;
+    for (let i = campaign.actions.length - 1; i >= 0 && campaign.actions[i].stage === stage; i--) {
+      if (campaign.actions[i].outcome !== 'failed') break;
+      failed++;
+    }
+    return failed;
+  }
+
+  /**
+   * Outreach campaigns for a patient, most recent first
+   */
+  async getCampaignHistory(patientId: mongoose.Types.ObjectId): Promise<IAdherenceOutreachCampaign[]> {
+    return AdherenceOutreachCampaign.find({ patientId }).sort({ startedAt: -1 });
+  }
+
+  private async performStage(
+    stage: OutreachStage,
+    patientId: mongoose.Types.ObjectId,
+    medicationId: mongoose.Types.ObjectId,
+    triggers: OutreachTrigger[],
+    asOf: Date
+  ): Promise<StageOutcome> {
+    try {
+      const [patient, schedules] = await Promise.all([
+        Patient.findById(patientId),
+        this.adherenceService.getPatientMedicationSchedules(patientId, false)
+      ]);
+      if (!patient) {
+        return { outcome: 'skipped', detail: 'Patient not found' };
+      }
+
+      const schedule = schedules.find((entry: MedicationSchedule) => entry.medicationId.toString() === medicationId.toString());
+      const medicationName = schedule?.medicationName || 'the prescribed medication';
+      const summary = triggers.map(trigger => trigger.detail).join('; ');
+      const high = triggers.some(trigger => trigger.severity === 'HIGH');
+
+      if (stage === 'patient_reminder') {
+        const recipientId = patient.userId?.toString();
+        if (!recipientId) {
+          return { outcome: 'skipped', detail: 'Patient has no user account' };
+        }
+        await this.notifier.sendNotification(recipientId, {
+          type: 'medication_reminder',
+          category: 'reminders',
+          group: 'adherence',
+          priority: 'medium',
+          title: 'Medication reminder',
+          message: `We noticed some missed doses of ${medicationName}. Please take it as prescribed, ` +
+            'and contact your care team if you are having trouble with it.',
+          data: { patientId, medicationId }
+        });
+        return { outcome: 'sent', recipientId: new mongoose.Types.ObjectId(recipientId) };
+      }
+
+      const doctorId = this.responsibleDoctorId(patient);
+      if (!doctorId) {
+        return { outcome: 'skipped', detail: 'No responsible doctor on record' };
+      }
+
+      if (stage === 'nurse_task') {
+        // Raised on the doctor's behalf into the outreach department's task queue
+        const task = await Task.create({
+          title: `Adherence follow-up: ${patient.firstName} ${patient.lastName}`,
+          description: `Contact the patient about missed doses of ${medicationName}. ${summary}.`,
+          department: OUTREACH_DEPARTMENT,
+          category: 'medication',
+          urgencyLevel: high ? 'urgent' : 'routine',
+          priority: high ? 'high' : 'medium',
+          dueDate: new Date(asOf.getTime() + 24 * 60 * 60 * 1000),
+          estimatedDuration: 15,
+          patientId,
+          createdBy: doctorId,
+          tags: ['adherence_outreach']
+        });
+        return { outcome: 'sent', taskId: task._id };
+      }
+
+      await this.notifier.sendNotification(doctorId, {
+        type: 'adherence_alert',
+        category: 'alerts',
+        group: 'adherence',
+        priority: high ? 'urgent' : 'high',
+        title: `Adherence concern: ${patient.firstName} ${patient.lastName}`,
+        message: `Outreach for ${medicationName} has not restored adherence. ${summary}.`,
+        data: { medicalAlert: { patientId, condition: 'medication_non_adherence', severity: high ? 'HIGH' : 'MEDIUM' }, medicationId }
+      });
+      return { outcome: 'sent', recipientId: new mongoose.Types.ObjectId(doctorId) };
+    } catch (error) {
+      logger.error(`Adherence outreach stage ${stage} failed for patient ${patientId}: ${error}`);
+      return { outcome: 'failed', detail: String(error) };
+    }
+  }
+
+  // The doctor from the patient's most recent visit
+  private responsibleDoctorId(patient: IPatient): string | undefined {
+    return patient.getRecentVisits(1)[0]?.doctorId?.toString();
+  }
+}
+
+export default AdherenceOutreachService;
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import { MedicationSafetyIssue, IMedicationSafetyIssue } from '../models/MedicationSafetyIssue';
+import { AdverseEventExport, IAdverseEventExport } from '../models/AdverseEventExport';
+import { Patient } from '../models/Patient';
+import { User } from '../models/User';
+import AuditLog from '../models/AuditLog';
+import { UserRole } from '../types/auth';
+import adverseEventExporter, {
+  AdverseEventCase,
+  AdverseEventExportFormat,
+  DeidentificationLevel,
+  ExportValidationIssue,
+  ExportValidationResult,
+  ReporterQualification
+} from '../utils/adverseEventExport';
+
+/**
+ * Error raised when an adverse event export cannot be produced
+ */
+export class AdverseEventExportError extends Error {
+  code: string;
+  errors?: ExportValidationIssue[];
+
+  constructor(message: string, code: string, errors?: ExportValidationIssue[]) {
+    super(message);
+    this.name = 'AdverseEventExportError';
+    this.code = code;
+    this.errors = errors;
+  }
+}
+
+/**
+ * A rendered export ready to download
+ */
+export interface AdverseEventExportFile {
+  record: IAdverseEventExport;
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// Sender identification written into every report
+const SENDER_ORGANIZATION = process.env.PV_SENDER_ORGANIZATION || 'HealthAssist Pro';
+const SENDER_COUNTRY = process.env.PV_SENDER_COUNTRY || 'US';
+
+const REPORTER_QUALIFICATIONS: Partial<Record<UserRole, ReporterQualification>> = {
+  doctor: 'physician',
+  nurse: 'other_health_professional',
+  patient: 'consumer'
+};
+
+const FORMAT_FILES: Record<AdverseEventExportFormat, { extension: string; contentType: string }> = {
+  e2b_xml: { extension: 'xml', contentType: 'application/xml' },
+  medwatch_pdf: { extension: 'pdf', contentType: 'application/pdf' }
+};
+
+/**
+ * Exports reported medication safety issues as ICH E2B(R3)-style XML or MedWatch-style
+ * PDF case reports, validating required fields and keeping a per-issue export history
+ */
+export class AdverseEventExportService {
+  private static instance: AdverseEventExportService;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AdverseEventExportService {
+    if (!AdverseEventExportService.instance) {
+      AdverseEventExportService.instance = new AdverseEventExportService();
+    }
+    return AdverseEventExportService.instance;
+  }
+
+  /**
+   * Check whether an issue can be exported in a format without recording an export
+   */
+  public async validateExport(
+    issueId: string,
+    format: AdverseEventExportFormat,
+    deidentification: DeidentificationLevel
+  ): Promise<ExportValidationResult> {
+    const issue = await this.getIssue(issueId);
+    const version = (await AdverseEventExport.countDocuments({ issueId: issue._id })) + 1;
+    const caseData = await this.buildCase(issue, version, deidentification);
+    return adverseEventExporter.validate(caseData, format);
+  }
+
+  /**
+   * Render an issue in the requested format and record it in the export history.
+   * Exports that fail validation are rejected with the list of missing fields.
+   */
+  public async exportIssue(
+    issueId: string,
+    format: AdverseEventExportFormat,
+    deidentification: DeidentificationLevel,
+    userId: string
+  ): Promise<AdverseEventExportFile> {
+    const issue = await this.getIssue(issueId);
+    const version = (await AdverseEventExport.countDocuments({ issueId: issue._id })) + 1;
+    const caseData = await this.buildCase(issue, version, deidentification);
+
+    const validation = adverseEventExporter.validate(caseData, format);
+    if (!validation.valid) {
+      throw new AdverseEventExportError(
+        `Safety issue ${issueId} is missing required fields for export`,
+        'EXPORT_INVALID',
+        validation.errors
+      );
+    }
+
+    const content = format === 'e2b_xml'
+      ? Buffer.from(adverseEventExporter.toE2bXml(caseData), 'utf8')
+      : adverseEventExporter.toMedWatchPdf(caseData);
+    const { extension, contentType } = FORMAT_FILES[format];
+    const fileName = `${caseData.safetyReportId}-v${version}.${extension}`;
+
+    const record = await AdverseEventExport.create({
+      issueId: issue._id,
+      format,
+      deidentification,
+      safetyReportId: caseData.safetyReportId,
+      version,
+      fileName,
+      contentType,
+      sizeBytes: content.length,
+      checksum: crypto.createHash('sha256').update(content).digest('hex'),
+      warnings: validation.warnings,
+      exportedBy: userId,
+      exportedAt: new Date()
+    });
+
+    try {
+      await AuditLog.create({
+        userId,
+        action: 'adverse_event_exported',
+        metadata: {
+          issueId: issue._id.toString(),
+          patientId: issue.patientId.toString(),
+          exportId: record._id.toString(),
+          format,
+          deidentification,
+          version
+        },
+        timestamp: new Date()
+      });
+    } catch (error) {
+      logger.error(`Failed to write audit entry for adverse event export of issue ${issueId}: ${error}`);
+    }
+
+    return { record, fileName, contentType, content };
+  }
+
+  /**
+   * Export history for an issue, most recent first
+   */
+  public async getExportHistory(issueId: string): Promise<IAdverseEventExport[]> {
+    const issue = await this.getIssue(issueId);
+    return AdverseEventExport.find({ issueId: issue._id }).sort({ version: -1 });
+  }
+
+  private async getIssue(issueId: string): Promise<IMedicationSafetyIssue> {
+    const issue = mongoose.Types.ObjectId.isValid(issueId) ? await MedicationSafetyIssue.findById(issueId) : null;
+    if (!issue) {
+      throw new AdverseEventExportError(`Safety issue ${issueId} not found`, 'ISSUE_NOT_FOUND');
+    }
+    return issue;
+  }
+
+  /**
+   * Gather the patient and reporting provider for an issue and build the case
+   */
+  private async buildCase(
+    issue: IMedicationSafetyIssue,
+    version: number,
+    deidentification: DeidentificationLevel
+  ): Promise<AdverseEventCase> {
+    const [patient, reporter] = await Promise.all([
+      Patient.findById(issue.patientId),
+      issue.providerId ? User.findById(issue.providerId) : Promise.resolve(null)
+    ]);
+
+    return adverseEventExporter.buildCase(
+      {
+        issue: {
+          id: issue._id.toString(),
+          medications: issue.medications,
+          issueType: issue.issueType,
+          severity: issue.severity,
+          description: issue.description,
+          symptoms: issue.symptoms,
+          reportDate: issue.reportDate,
+          status: issue.status,
+          resolution: issue.resolution
+        },
+        safetyReportId: `${SENDER_COUNTRY}-${SENDER_ORGANIZATION.replace(/[^A-Za-z0-9]/g, '').toUpperCase()}-${issue._id.toString()}`,
+        version,
+        sender: { organization: SENDER_ORGANIZATION, country: SENDER_COUNTRY },
+        patient: patient
+          ? {
+              firstName: patient.firstName,
+              lastName: patient.lastName,
+              dateOfBirth: patient.dateOfBirth,
+              sex: patient.gender,
+              weightKg: patient.vitalSigns?.weight,
+              heightCm: patient.vitalSigns?.height,
+              conditions: patient.chronicConditions,
+              medications: patient.medications
+            }
+          : undefined,
+        reporter: reporter
+          ? {
+              name: `${reporter.firstName} ${reporter.lastName}`.trim(),
+              email: reporter.email,
+              qualification: REPORTER_QUALIFICATIONS[reporter.role as UserRole],
+              organization: SENDER_ORGANIZATION,
+              country: SENDER_COUNTRY
+            }
+          : undefined
+      },
+      deidentification
+    );
+  }
+}
+
+export const adverseEventExportService = AdverseEventExportService.getInstance();
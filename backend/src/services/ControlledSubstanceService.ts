@@ -0,0 +1,284 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import User from '../models/User';
+import { MedicationRepository } from '../repositories/MedicationRepository';
+import twoFactorAuthService from './twoFactorAuth';
+import controlledSubstanceRules, {
+  ControlledPrescriptionLine,
+  ControlledSubstanceMetadata,
+  ControlledSubstanceSettings,
+  ControlledSubstanceViolation,
+  DeaSchedule,
+  MmeMedication,
+  MmeSummary
+} from '../utils/controlledSubstances';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error raised when controlled substance safeguards block prescribing
+ */
+export class ControlledSubstanceError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * How the prescriber confirmed their identity before signing
+ */
+export type ReauthMethod = 'totp' | 'backup_code';
+
+/**
+ * A controlled medication on a prescription being written
+ */
+export interface ControlledLineReview {
+  index: number; // position in the submitted medication list
+  name: string;
+  schedule: DeaSchedule;
+  dailyMme?: number;
+}
+
+/**
+ * Controlled substance check of a prescription before it is signed
+ */
+export interface ControlledPrescriptionReview {
+  controlled: ControlledLineReview[];
+  violations: ControlledSubstanceViolation[];
+  reauthRequired: boolean;
+  mme: MmeSummary; // new medications together with the patient's active opioids
+}
+
+/**
+ * Medication as stored on a signed prescription
+ */
+interface StoredMedication {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: number | null;
+  quantityDispensed: number | null;
+  daysSupply: number | null;
+  refills: number | null;
+  deaSchedule: string | null;
+  createdAt: Date;
+}
+
+export interface ControlledSubstanceLogFilter {
+  patientId?: string;
+  prescriberId?: string;
+  schedule?: DeaSchedule;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * MME thresholds configured for the site
+ */
+function settingsFromEnv(): Partial<ControlledSubstanceSettings> {
+  const settings: Partial<ControlledSubstanceSettings> = {};
+  const warning = Number(process.env.MME_WARNING_THRESHOLD);
+  const high = Number(process.env.MME_HIGH_THRESHOLD);
+  if (warning > 0) settings.mmeWarningThreshold = warning;
+  if (high > 0) settings.mmeHighThreshold = high;
+  return settings;
+}
+
+/**
+ * Enforces controlled substance prescribing rules: schedule limits, prescriber re-authentication
+ * with their second factor, morphine milligram equivalent warnings and a prescribing log
+ */
+export class ControlledSubstanceService {
+  private static instance: ControlledSubstanceService;
+  private medicationRepo = MedicationRepository.getInstance();
+  private settings = settingsFromEnv();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ControlledSubstanceService {
+    if (!ControlledSubstanceService.instance) {
+      ControlledSubstanceService.instance = new ControlledSubstanceService();
+    }
+    return ControlledSubstanceService.instance;
+  }
+
+  /**
+   * Check the medications on a new prescription. Violations block prescribing; MME warnings
+   * are advisory.
+   */
+  public async reviewPrescription(patientId: string, lines: ControlledPrescriptionLine[]): Promise<ControlledPrescriptionReview> {
+    const withMetadata = await Promise.all(
+      lines.map(async line => ({ ...line, metadata: line.metadata || await this.lookupMetadata(line.name) }))
+    );
+
+    const controlled: ControlledLineReview[] = [];
+    const violations: ControlledSubstanceViolation[] = [];
+    withMetadata.forEach((line, index) => {
+      const profile = controlledSubstanceRules.classify(line.name, line.metadata);
+      if (!profile) return;
+
+      controlled.push({
+        index,
+        name: line.name,
+        schedule: profile.schedule,
+        dailyMme: controlledSubstanceRules.calculateMme([line], this.settings).lines[0]?.dailyMme
+      });
+      violations.push(...controlledSubstanceRules.checkLine(line, this.settings));
+    });
+
+    const active = await this.getActiveMedications(patientId);
+    const mme = controlledSubstanceRules.calculateMme([...withMetadata, ...active], this.settings);
+
+    return { controlled, violations, reauthRequired: controlled.length > 0, mme };
+  }
+
+  /**
+   * Confirm the prescriber's identity with a current authenticator code or an unused backup code
+   */
+  public async verifyPrescriber(userId: string, code?: string): Promise<ReauthMethod> {
+    if (!code?.trim()) {
+      throw new ControlledSubstanceError('Enter your two-factor code to prescribe controlled substances', 'REAUTH_REQUIRED');
+    }
+
+    const user = await User.findById(userId);
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new ControlledSubstanceError('Two-factor authentication must be enabled to prescribe controlled substances', 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    if (twoFactorAuthService.verifyToken(user.twoFactorSecret, code.trim())) {
+      return 'totp';
+    }
+    if (await twoFactorAuthService.verifyBackupCode(userId, code.trim())) {
+      return 'backup_code';
+    }
+
+    await this.audit(userId, 'controlled_substance_reauth_failed', {});
+    throw new ControlledSubstanceError('Invalid two-factor code', 'REAUTH_FAILED');
+  }
+
+  /**
+   * Write a log entry for each controlled medication on a signed prescription
+   */
+  public async recordPrescribing(
+    prescription: { id: string; patientId: string; medications: StoredMedication[] },
+    review: ControlledPrescriptionReview,
+    prescriberId: string,
+    reauthMethod: ReauthMethod
+  ): Promise<number> {
+    const entries = prescription.medications
+      .filter(medication => medication.deaSchedule)
+      .map(medication => ({
+        prescriptionId: prescription.id,
+        medicationId: medication.id,
+        prescriberId,
+        patientId: prescription.patientId,
+        schedule: medication.deaSchedule as string,
+        drugName: medication.name,
+        dosage: medication.dosage,
+        frequency: medication.frequency,
+        quantity: medication.quantityDispensed,
+        daysSupply: medication.daysSupply,
+        refills: medication.refills,
+        dailyMme: review.controlled.find(line => line.name === medication.name)?.dailyMme,
+        patientDailyMme: review.mme.lines.length > 0 ? review.mme.totalDailyMme : undefined,
+        mmeLevel: review.mme.level,
+        reauthMethod
+      }));
+
+    for (const entry of entries) {
+      await prisma.controlledSubstanceLog.create({ data: entry });
+    }
+
+    await this.audit(prescriberId, 'controlled_substance_prescribed', {
+      prescriptionId: prescription.id,
+      patientId: prescription.patientId,
+      medications: entries.map(entry => ({ name: entry.drugName, schedule: entry.schedule })),
+      dailyMme: review.mme.totalDailyMme,
+      reauthMethod
+    });
+    return entries.length;
+  }
+
+  /**
+   * The patient's current daily MME from their active prescriptions
+   */
+  public async getPatientMme(patientId: string): Promise<MmeSummary> {
+    return controlledSubstanceRules.calculateMme(await this.getActiveMedications(patientId), this.settings);
+  }
+
+  /**
+   * Controlled substance prescribing log, newest first
+   */
+  public async getLog(filter: ControlledSubstanceLogFilter = {}, limit: number = 200) {
+    return prisma.controlledSubstanceLog.findMany({
+      where: {
+        patientId: filter.patientId,
+        prescriberId: filter.prescriberId,
+        schedule: filter.schedule,
+        createdAt: filter.from || filter.to ? { gte: filter.from, lte: filter.to } : undefined
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Schedule metadata from the medication catalogue, when it has any
+   */
+  private async lookupMetadata(name: string): Promise<ControlledSubstanceMetadata | undefined> {
+    try {
+      const matches = await this.medicationRepo.getMedicationsByName(name);
+      const entry = matches.find(medication => medication.deaSchedule || medication.mmeConversionFactor);
+      return entry ? { deaSchedule: entry.deaSchedule, mmeConversionFactor: entry.mmeConversionFactor } : undefined;
+    } catch (error) {
+      logger.warn(`Could not look up controlled substance metadata for ${name}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Medications on the patient's prescriptions still within their duration
+   */
+  private async getActiveMedications(patientId: string): Promise<MmeMedication[]> {
+    const prescriptions = await prisma.prescription.findMany({
+      where: { patientId },
+      include: { medications: true }
+    });
+    const now = Date.now();
+
+    return prescriptions.flatMap((prescription: { medications: StoredMedication[] }) =>
+      prescription.medications
+        .filter(med => !med.duration || new Date(med.createdAt).getTime() + med.duration * DAY_MS > now)
+        .map(med => ({
+          name: med.name,
+          dosage: med.dosage,
+          frequency: med.frequency,
+          metadata: med.deaSchedule ? { deaSchedule: med.deaSchedule as DeaSchedule } : undefined
+        }))
+    );
+  }
+
+  /**
+   * Write an audit entry; failures are logged but do not block the clinical workflow
+   */
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const controlledSubstanceService = ControlledSubstanceService.getInstance();
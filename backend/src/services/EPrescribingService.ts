@@ -0,0 +1,566 @@
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import sigParser from '../utils/sigParser';
+import controlledSubstanceRules, { DeaSchedule } from '../utils/controlledSubstances';
+import ncpdpScriptCodec, {
+  NewRxInput,
+  ParsedScriptMessage,
+  ScriptHeader,
+  TransmissionStatus
+} from '../utils/ncpdpScript';
+import { createPharmacyAdapter, PharmacyAdapter, PharmacyInfo } from './pharmacy';
+
+const prisma = new PrismaClient();
+
+/**
+ * Error raised for invalid e-prescribing operations
+ */
+export class EPrescribingError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * A transmission as stored, with its message log when loaded
+ */
+export interface PrescriptionTransmissionRecord {
+  id: string;
+  prescriptionId: string;
+  medicationId: string;
+  pharmacyId: string;
+  pharmacyName: string | null;
+  adapter: string;
+  messageId: string;
+  status: string;
+  statusNote: string | null;
+  sentAt: Date | null;
+  acknowledgedAt: Date | null;
+  filledAt: Date | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  messages?: PrescriptionMessageRecord[];
+}
+
+export interface PrescriptionMessageRecord {
+  id: string;
+  transmissionId: string;
+  direction: string;
+  messageType: string;
+  messageId: string;
+  relatesToMessageId: string | null;
+  status: string | null;
+  payload: string;
+  createdAt: Date;
+}
+
+/**
+ * The user acting on a transmission. Only the prescriber or an admin may do so.
+ */
+export interface EPrescribingActor {
+  id: string;
+  roles: string[];
+}
+
+/**
+ * The prescriber's answer to a renewal request
+ */
+export interface RenewalDecision {
+  approved: boolean;
+  refills?: number;
+  note?: string;
+}
+
+// Transmissions in these statuses no longer block sending the medication again
+const CLOSED_STATUSES: TransmissionStatus[] = ['cancelled', 'error'];
+
+const STATUS_TIMESTAMPS: Partial<Record<TransmissionStatus, 'acknowledgedAt' | 'filledAt' | 'cancelledAt'>> = {
+  acknowledged: 'acknowledgedAt',
+  filled: 'filledAt',
+  cancelled: 'cancelledAt'
+};
+
+/**
+ * Sends prescriptions to pharmacies as NCPDP SCRIPT-style messages through a pluggable
+ * pharmacy adapter and tracks each medication through sent, acknowledged, filled and
+ * cancelled, including pharmacy renewal requests
+ */
+export class EPrescribingService {
+  private static instance: EPrescribingService;
+
+  constructor(private adapter: PharmacyAdapter) {
+    this.adapter.onMessage(message => this.receiveMessage(message).then(() => undefined));
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(adapter?: PharmacyAdapter): EPrescribingService {
+    if (!EPrescribingService.instance) {
+      EPrescribingService.instance = new EPrescribingService(adapter || createPharmacyAdapter());
+    }
+    return EPrescribingService.instance;
+  }
+
+  /**
+   * Search the adapter's pharmacy directory
+   */
+  public async findPharmacies(query?: string): Promise<PharmacyInfo[]> {
+    return this.adapter.findPharmacies(query);
+  }
+
+  /**
+   * Send each medication on a prescription to the pharmacy as a NewRx. Medications that
+   * already have an open transmission are skipped. Only the prescriber or an admin may send.
+   */
+  public async transmitPrescription(prescriptionId: string, pharmacyId: string, actor: EPrescribingActor): Promise<PrescriptionTransmissionRecord[]> {
+    if (!(await this.canManage(prescriptionId, actor))) {
+      throw new EPrescribingError(`Prescription ${prescriptionId} not found`, 'PRESCRIPTION_NOT_FOUND');
+    }
+
+    const pharmacy = await this.adapter.getPharmacy(pharmacyId);
+    if (!pharmacy) {
+      throw new EPrescribingError(`Pharmacy ${pharmacyId} not found`, 'PHARMACY_NOT_FOUND');
+    }
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id: prescriptionId },
+      include: { medications: true, patient: true, doctor: true, transmissions: true }
+    });
+    if (!prescription) {
+      throw new EPrescribingError(`Prescription ${prescriptionId} not found`, 'PRESCRIPTION_NOT_FOUND');
+    }
+
+    const openMedicationIds = new Set(
+      prescription.transmissions
+        .filter((transmission: PrescriptionTransmissionRecord) => !CLOSED_STATUSES.includes(transmission.status as TransmissionStatus))
+        .map((transmission: PrescriptionTransmissionRecord) => transmission.medicationId)
+    );
+    const medications = prescription.medications.filter((med: { id: string }) => !openMedicationIds.has(med.id));
+    if (medications.length === 0) {
+      throw new EPrescribingError('All medications on this prescription have already been sent', 'ALREADY_TRANSMITTED');
+    }
+
+    const patientUser = await prisma.user.findUnique({ where: { id: prescription.patient.userId } });
+    const transmissions: PrescriptionTransmissionRecord[] = [];
+
+    for (const medication of medications) {
+      const input = this.toNewRx(prescription, medication, patientUser, pharmacy);
+      const header = this.outboundHeader(pharmacy.id, prescription.doctorId, medication.id);
+      const payload = ncpdpScriptCodec.buildNewRx(header, input);
+
+      const transmission = await prisma.prescriptionTransmission.create({
+        data: {
+          prescriptionId,
+          medicationId: medication.id,
+          pharmacyId: pharmacy.id,
+          pharmacyName: pharmacy.name,
+          adapter: this.adapter.name,
+          messageId: header.messageId,
+          status: 'pending',
+          messages: {
+            create: { direction: 'outbound', messageType: 'NewRx', messageId: header.messageId, payload }
+          }
+        }
+      });
+
+      transmissions.push(await this.deliver(transmission, payload, 'sent'));
+    }
+
+    await this.audit(actor.id, 'prescription_transmitted', {
+      prescriptionId,
+      pharmacyId: pharmacy.id,
+      adapter: this.adapter.name,
+      transmissions: transmissions.map(transmission => ({ id: transmission.id, status: transmission.status }))
+    });
+
+    return transmissions;
+  }
+
+  /**
+   * Ask the pharmacy to cancel a sent prescription
+   */
+  public async cancelTransmission(transmissionId: string, actor: EPrescribingActor, reason?: string): Promise<PrescriptionTransmissionRecord> {
+    const transmission = await this.getTransmissionOrThrow(transmissionId);
+    if (!(await this.canManage(transmission.prescriptionId, actor))) {
+      throw new EPrescribingError(`Transmission ${transmissionId} not found`, 'TRANSMISSION_NOT_FOUND');
+    }
+    if (!['sent', 'acknowledged'].includes(transmission.status)) {
+      throw new EPrescribingError(
+        transmission.status === 'filled'
+          ? 'Prescription has already been filled and cannot be cancelled'
+          : `Cannot cancel a transmission that is ${transmission.status}`,
+        'CANCEL_NOT_ALLOWED'
+      );
+    }
+
+    const input = await this.loadNewRxInput(transmission);
+    const header = {
+      ...this.outboundHeader(transmission.pharmacyId, input.prescriber.id, transmission.medicationId),
+      relatesToMessageId: transmission.messageId
+    };
+    const payload = ncpdpScriptCodec.buildCancelRx(header, input, reason);
+
+    await prisma.prescriptionMessage.create({
+      data: {
+        transmissionId,
+        direction: 'outbound',
+        messageType: 'CancelRx',
+        messageId: header.messageId,
+        relatesToMessageId: transmission.messageId,
+        payload
+      }
+    });
+    const updated = await this.deliver(transmission, payload, 'cancel_requested', reason);
+
+    await this.audit(actor.id, 'prescription_cancel_requested', {
+      transmissionId,
+      prescriptionId: transmission.prescriptionId,
+      reason,
+      status: updated.status
+    });
+    return updated;
+  }
+
+  /**
+   * Approve or deny a pharmacy renewal request
+   */
+  public async respondToRenewal(requestId: string, actor: EPrescribingActor, decision: RenewalDecision): Promise<PrescriptionMessageRecord> {
+    const request = await prisma.prescriptionMessage.findUnique({ where: { id: requestId } });
+    if (!request || request.messageType !== 'RxRenewalRequest') {
+      throw new EPrescribingError(`Renewal request ${requestId} not found`, 'RENEWAL_NOT_FOUND');
+    }
+    const transmission = await this.getTransmissionOrThrow(request.transmissionId);
+    if (!(await this.canManage(transmission.prescriptionId, actor))) {
+      throw new EPrescribingError(`Renewal request ${requestId} not found`, 'RENEWAL_NOT_FOUND');
+    }
+    if (request.status !== 'pending') {
+      throw new EPrescribingError(`Renewal request has already been ${request.status}`, 'RENEWAL_ALREADY_ANSWERED');
+    }
+
+    if (decision.approved) {
+      await this.checkRenewalAllowed(transmission.medicationId, decision.refills);
+    }
+    const input = await this.loadNewRxInput(transmission);
+    const header = {
+      ...this.outboundHeader(transmission.pharmacyId, input.prescriber.id, transmission.medicationId),
+      relatesToMessageId: request.messageId
+    };
+    const payload = ncpdpScriptCodec.buildRenewalResponse(header, input, decision);
+
+    await this.adapter.send(transmission.pharmacyId, payload);
+    await prisma.prescriptionMessage.create({
+      data: {
+        transmissionId: transmission.id,
+        direction: 'outbound',
+        messageType: 'RxRenewalResponse',
+        messageId: header.messageId,
+        relatesToMessageId: request.messageId,
+        status: decision.approved ? 'approved' : 'denied',
+        payload
+      }
+    });
+    if (decision.approved && decision.refills !== undefined) {
+      await prisma.medication.update({ where: { id: transmission.medicationId }, data: { refills: decision.refills } });
+    }
+
+    const answered = await prisma.prescriptionMessage.update({
+      where: { id: requestId },
+      data: { status: decision.approved ? 'approved' : 'denied' }
+    });
+
+    await this.audit(actor.id, 'prescription_renewal_responded', {
+      transmissionId: transmission.id,
+      requestId,
+      approved: decision.approved,
+      refills: decision.refills
+    });
+    return answered;
+  }
+
+  /**
+   * Apply a message initiated by the pharmacy. Messages already seen are ignored.
+   */
+  public async receiveMessage(payload: string): Promise<PrescriptionTransmissionRecord> {
+    let message: ParsedScriptMessage;
+    try {
+      message = ncpdpScriptCodec.parse(payload);
+    } catch (error) {
+      throw new EPrescribingError(`Invalid SCRIPT message: ${(error as Error).message}`, 'INVALID_MESSAGE');
+    }
+
+    const transmission = await this.findTransmissionFor(message);
+    if (!transmission) {
+      logger.warn(`No transmission matches inbound ${message.type} ${message.header.messageId}`);
+      throw new EPrescribingError('Message does not match a sent prescription', 'TRANSMISSION_NOT_FOUND');
+    }
+
+    const duplicate = await prisma.prescriptionMessage.findUnique({ where: { messageId: message.header.messageId } });
+    if (duplicate) {
+      return transmission;
+    }
+
+    return this.applyInbound(transmission, message, payload);
+  }
+
+  /**
+   * Transmissions for a prescription with their message logs, newest first
+   */
+  public async getTransmissions(prescriptionId: string, actor: EPrescribingActor): Promise<PrescriptionTransmissionRecord[]> {
+    if (!(await this.canManage(prescriptionId, actor))) {
+      throw new EPrescribingError(`Prescription ${prescriptionId} not found`, 'PRESCRIPTION_NOT_FOUND');
+    }
+    return prisma.prescriptionTransmission.findMany({
+      where: { prescriptionId },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Unanswered renewal requests on a prescriber's prescriptions, oldest first
+   */
+  public async getPendingRenewals(doctorId: string): Promise<PrescriptionMessageRecord[]> {
+    return prisma.prescriptionMessage.findMany({
+      where: {
+        messageType: 'RxRenewalRequest',
+        status: 'pending',
+        transmission: { prescription: { doctorId } }
+      },
+      include: { transmission: { include: { medication: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Hand a message to the adapter and apply any synchronous response. Transport failures
+   * mark the transmission as errored so it can be sent again.
+   */
+  private async deliver(
+    transmission: PrescriptionTransmissionRecord,
+    payload: string,
+    status: TransmissionStatus,
+    note?: string
+  ): Promise<PrescriptionTransmissionRecord> {
+    let response: string | undefined;
+    try {
+      response = await this.adapter.send(transmission.pharmacyId, payload);
+    } catch (error) {
+      logger.error(`Pharmacy adapter ${this.adapter.name} failed to send to ${transmission.pharmacyId}: ${error}`);
+      // A failed cancel leaves the prescription as it was
+      if (status === 'cancel_requested') {
+        throw new EPrescribingError(`Could not reach the pharmacy: ${(error as Error).message}`, 'TRANSPORT_FAILED');
+      }
+      return prisma.prescriptionTransmission.update({
+        where: { id: transmission.id },
+        data: { status: 'error', statusNote: `Transport failed: ${(error as Error).message}` }
+      });
+    }
+
+    const updated = await prisma.prescriptionTransmission.update({
+      where: { id: transmission.id },
+      data: { status, statusNote: note ?? null, ...(status === 'sent' ? { sentAt: new Date() } : {}) }
+    });
+
+    if (!response) {
+      return updated;
+    }
+    const parsed = ncpdpScriptCodec.parse(response);
+    return this.applyInbound(updated, parsed, response);
+  }
+
+  private async applyInbound(
+    transmission: PrescriptionTransmissionRecord,
+    message: ParsedScriptMessage,
+    payload: string
+  ): Promise<PrescriptionTransmissionRecord> {
+    await prisma.prescriptionMessage.create({
+      data: {
+        transmissionId: transmission.id,
+        direction: 'inbound',
+        messageType: message.type,
+        messageId: message.header.messageId,
+        relatesToMessageId: message.header.relatesToMessageId,
+        status: message.type === 'RxRenewalRequest' ? 'pending' : undefined,
+        payload
+      }
+    });
+
+    if (message.type === 'RxRenewalRequest') {
+      logger.info(`Renewal requested for transmission ${transmission.id} by pharmacy ${transmission.pharmacyId}`);
+      return transmission;
+    }
+
+    const change = ncpdpScriptCodec.nextStatus(transmission.status as TransmissionStatus, message);
+    if (!change) {
+      logger.warn(`Ignored ${message.type} for transmission ${transmission.id} in status ${transmission.status}`);
+      return transmission;
+    }
+
+    const timestamp = STATUS_TIMESTAMPS[change.status];
+    logger.info(`Transmission ${transmission.id} moved from ${transmission.status} to ${change.status}`);
+    return prisma.prescriptionTransmission.update({
+      where: { id: transmission.id },
+      data: {
+        status: change.status,
+        statusNote: change.note ?? null,
+        ...(timestamp ? { [timestamp]: message.header.sentTime } : {})
+      }
+    });
+  }
+
+  /**
+   * Match an inbound message to its transmission by the message it answers, falling back
+   * to the prescriber order number the pharmacy echoes back
+   */
+  private async findTransmissionFor(message: ParsedScriptMessage): Promise<PrescriptionTransmissionRecord | null> {
+    const relatesTo = message.header.relatesToMessageId;
+    if (relatesTo) {
+      const direct = await prisma.prescriptionTransmission.findUnique({ where: { messageId: relatesTo } });
+      if (direct) return direct;
+
+      const related = await prisma.prescriptionMessage.findUnique({ where: { messageId: relatesTo }, include: { transmission: true } });
+      if (related) return related.transmission;
+    }
+
+    if (message.header.prescriberOrderNumber) {
+      return prisma.prescriptionTransmission.findFirst({
+        where: { medicationId: message.header.prescriberOrderNumber, pharmacyId: message.header.from },
+        orderBy: { createdAt: 'desc' }
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Renewals of controlled substances keep the schedule refill limits, so Schedule II renewals carry no refills
+   */
+  private async checkRenewalAllowed(medicationId: string, refills?: number): Promise<void> {
+    const medication = await prisma.medication.findUnique({ where: { id: medicationId } });
+    if (!medication) return;
+
+    const violation = controlledSubstanceRules
+      .checkLine({
+        name: medication.name,
+        dosage: medication.dosage,
+        frequency: medication.frequency,
+        daysSupply: medication.daysSupply ?? undefined,
+        refills: refills ?? medication.refills ?? 0,
+        metadata: medication.deaSchedule ? { deaSchedule: medication.deaSchedule as DeaSchedule } : undefined
+      })
+      .find(rule => rule.code === 'REFILLS_NOT_ALLOWED' || rule.code === 'TOO_MANY_REFILLS');
+    if (violation) {
+      throw new EPrescribingError(violation.message, 'RENEWAL_NOT_ALLOWED');
+    }
+  }
+
+  // Other users are told the record does not exist rather than that it belongs to someone else
+  private async canManage(prescriptionId: string, actor: EPrescribingActor): Promise<boolean> {
+    if (actor.roles.includes('admin')) {
+      return true;
+    }
+    const prescription = await prisma.prescription.findUnique({ where: { id: prescriptionId }, select: { doctorId: true } });
+    return prescription?.doctorId === actor.id;
+  }
+
+  private async getTransmissionOrThrow(transmissionId: string): Promise<PrescriptionTransmissionRecord> {
+    const transmission = await prisma.prescriptionTransmission.findUnique({ where: { id: transmissionId } });
+    if (!transmission) {
+      throw new EPrescribingError(`Transmission ${transmissionId} not found`, 'TRANSMISSION_NOT_FOUND');
+    }
+    return transmission;
+  }
+
+  private async loadNewRxInput(transmission: PrescriptionTransmissionRecord): Promise<NewRxInput> {
+    const prescription = await prisma.prescription.findUnique({
+      where: { id: transmission.prescriptionId },
+      include: { medications: true, patient: true, doctor: true }
+    });
+    const medication = prescription?.medications.find((med: { id: string }) => med.id === transmission.medicationId);
+    if (!prescription || !medication) {
+      throw new EPrescribingError(`Prescription for transmission ${transmission.id} not found`, 'PRESCRIPTION_NOT_FOUND');
+    }
+
+    const patientUser = await prisma.user.findUnique({ where: { id: prescription.patient.userId } });
+    return this.toNewRx(prescription, medication, patientUser, { id: transmission.pharmacyId, name: transmission.pharmacyName || undefined });
+  }
+
+  private toNewRx(
+    prescription: {
+      doctorId: string;
+      createdAt: Date;
+      patient: { id: string; gender: string; dateOfBirth: Date };
+      doctor: { firstName: string; lastName: string; licenseNumber: string | null };
+    },
+    medication: {
+      id: string;
+      name: string;
+      dosage: string;
+      frequency: string;
+      duration: number | null;
+      notes: string | null;
+      quantityDispensed: number | null;
+      daysSupply: number | null;
+      refills: number | null;
+    },
+    patientUser: { firstName: string; lastName: string } | null,
+    pharmacy: { id: string; name?: string }
+  ): NewRxInput {
+    const sig = sigParser.fromParts(medication.dosage, medication.frequency);
+    return {
+      prescriberOrderNumber: medication.id,
+      pharmacy,
+      patient: {
+        id: prescription.patient.id,
+        firstName: patientUser?.firstName,
+        lastName: patientUser?.lastName,
+        gender: prescription.patient.gender,
+        dateOfBirth: prescription.patient.dateOfBirth
+      },
+      prescriber: {
+        id: prescription.doctorId,
+        firstName: prescription.doctor.firstName,
+        lastName: prescription.doctor.lastName,
+        stateLicenseNumber: prescription.doctor.licenseNumber || undefined
+      },
+      medication: {
+        description: `${medication.name} ${medication.dosage}`.trim(),
+        directions: sigParser.render(sig) || `${medication.dosage} ${medication.frequency}`,
+        quantity: medication.quantityDispensed ?? undefined,
+        daysSupply: medication.daysSupply ?? medication.duration ?? undefined,
+        refills: medication.refills ?? 0,
+        writtenDate: prescription.createdAt,
+        note: medication.notes || undefined
+      }
+    };
+  }
+
+  private outboundHeader(pharmacyId: string, prescriberId: string, medicationId: string): ScriptHeader {
+    return {
+      to: pharmacyId,
+      from: prescriberId,
+      messageId: ncpdpScriptCodec.newMessageId(),
+      sentTime: new Date(),
+      prescriberOrderNumber: medicationId
+    };
+  }
+
+  /**
+   * Write an audit entry; failures are logged but do not block the clinical workflow
+   */
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const ePrescribingService = EPrescribingService.getInstance();
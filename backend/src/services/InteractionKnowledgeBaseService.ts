@@ -0,0 +1,783 @@
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import {
+  DrugInteraction,
+  InteractionRelease,
+  IDrugInteraction,
+  IInteractionRelease,
+  InteractionEvidenceLevel
+} from '../models/DrugInteraction';
+import { InteractionSeverity } from '../types/medical';
+
+/**
+ * Error raised for invalid knowledge base operations (bad input, wrong release state)
+ */
+export class InteractionKnowledgeBaseError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(message: string, code: string, details?: unknown) {
+    super(message);
+    this.name = 'InteractionKnowledgeBaseError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Interaction entry as supplied by admins or importers
+ */
+export interface InteractionEntryInput {
+  drugA: string;
+  drugB: string;
+  severity: InteractionSeverity;
+  description: string;
+  mechanism: string;
+  evidenceLevel: InteractionEvidenceLevel;
+  management: string;
+  source: string;
+}
+
+/**
+ * Validation error for a single imported row
+ */
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+/**
+ * Result of a bulk import into a draft release
+ */
+export interface ImportResult {
+  version: number;
+  created: number;
+  updated: number;
+  removed: number;
+  skipped: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Difference between two releases, keyed by drug pair
+ */
+export interface ReleaseDiff {
+  fromVersion: number;
+  toVersion: number;
+  added: InteractionEntryInput[];
+  removed: InteractionEntryInput[];
+  changed: Array<{
+    drugA: string;
+    drugB: string;
+    fields: string[];
+    before: InteractionEntryInput;
+    after: InteractionEntryInput;
+  }>;
+}
+
+const ENTRY_FIELDS: Array<keyof InteractionEntryInput> = [
+  'drugA', 'drugB', 'severity', 'description', 'mechanism', 'evidenceLevel', 'management', 'source'
+];
+
+const EVIDENCE_LEVELS: InteractionEvidenceLevel[] = ['strong', 'moderate', 'weak'];
+
+/**
+ * Baseline interactions used to seed the first release and as an offline fallback
+ */
+export const DEFAULT_INTERACTIONS: InteractionEntryInput[] = [
+  {
+    drugA: 'warfarin', drugB: 'aspirin', severity: InteractionSeverity.HIGH,
+    description: 'Increased risk of bleeding',
+    mechanism: 'Additive anticoagulant and antiplatelet effects',
+    evidenceLevel: 'strong', management: 'Avoid combination unless specifically indicated; monitor INR and for bleeding',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'warfarin', drugB: 'ibuprofen', severity: InteractionSeverity.HIGH,
+    description: 'Increased risk of GI bleeding',
+    mechanism: 'Platelet inhibition and gastric mucosal injury by NSAIDs',
+    evidenceLevel: 'strong', management: 'Avoid NSAIDs; use paracetamol for analgesia',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'warfarin', drugB: 'clopidogrel', severity: InteractionSeverity.HIGH,
+    description: 'Increased risk of major bleeding',
+    mechanism: 'Additive anticoagulant and antiplatelet effects',
+    evidenceLevel: 'strong', management: 'Combine only when indicated; limit duration and monitor for bleeding',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'warfarin', drugB: 'naproxen', severity: InteractionSeverity.MEDIUM,
+    description: 'May increase bleeding risk',
+    mechanism: 'Platelet inhibition and gastric mucosal injury by NSAIDs',
+    evidenceLevel: 'moderate', management: 'Avoid if possible; otherwise monitor INR and for GI bleeding',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'clarithromycin', severity: InteractionSeverity.HIGH,
+    description: 'Increased risk of myopathy and rhabdomyolysis',
+    mechanism: 'CYP3A4 inhibition raises simvastatin exposure',
+    evidenceLevel: 'strong', management: 'Contraindicated; suspend simvastatin during clarithromycin course',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'itraconazole', severity: InteractionSeverity.HIGH,
+    description: 'Increased risk of myopathy and rhabdomyolysis',
+    mechanism: 'CYP3A4 inhibition raises simvastatin exposure',
+    evidenceLevel: 'strong', management: 'Contraindicated; use a statin not metabolised by CYP3A4',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'simvastatin', drugB: 'cyclosporine', severity: InteractionSeverity.MEDIUM,
+    description: 'Increased simvastatin exposure',
+    mechanism: 'CYP3A4 and OATP1B1 inhibition',
+    evidenceLevel: 'moderate', management: 'Avoid or use lowest statin dose; monitor for muscle symptoms',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'lisinopril', drugB: 'spironolactone', severity: InteractionSeverity.MEDIUM,
+    description: 'Risk of hyperkalemia',
+    mechanism: 'Additive potassium retention',
+    evidenceLevel: 'strong', management: 'Monitor serum potassium and renal function',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'lisinopril', drugB: 'potassium supplements', severity: InteractionSeverity.MEDIUM,
+    description: 'Risk of hyperkalemia',
+    mechanism: 'Reduced aldosterone-mediated potassium excretion',
+    evidenceLevel: 'moderate', management: 'Avoid routine supplementation; monitor serum potassium',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'digoxin', drugB: 'amiodarone', severity: InteractionSeverity.MEDIUM,
+    description: 'Increased digoxin levels',
+    mechanism: 'P-glycoprotein inhibition reduces digoxin clearance',
+    evidenceLevel: 'strong', management: 'Halve digoxin dose and monitor levels',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'digoxin', drugB: 'verapamil', severity: InteractionSeverity.MEDIUM,
+    description: 'Increased digoxin levels',
+    mechanism: 'P-glycoprotein inhibition and additive AV-node depression',
+    evidenceLevel: 'strong', management: 'Reduce digoxin dose; monitor levels and heart rate',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'digoxin', drugB: 'clarithromycin', severity: InteractionSeverity.MEDIUM,
+    description: 'Increased risk of digoxin toxicity',
+    mechanism: 'P-glycoprotein inhibition reduces digoxin clearance',
+    evidenceLevel: 'moderate', management: 'Monitor digoxin levels or choose an alternative antibiotic',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'metformin', drugB: 'contrast media', severity: InteractionSeverity.MEDIUM,
+    description: 'Risk of lactic acidosis',
+    mechanism: 'Contrast-induced nephropathy reduces metformin elimination',
+    evidenceLevel: 'moderate', management: 'Withhold metformin around iodinated contrast; recheck renal function',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'metformin', drugB: 'alcohol', severity: InteractionSeverity.LOW,
+    description: 'Potential for hypoglycemia',
+    mechanism: 'Alcohol inhibits gluconeogenesis and potentiates lactate production',
+    evidenceLevel: 'weak', management: 'Advise limiting alcohol intake',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'levothyroxine', drugB: 'calcium supplements', severity: InteractionSeverity.LOW,
+    description: 'Reduced levothyroxine absorption',
+    mechanism: 'Chelation in the gastrointestinal tract',
+    evidenceLevel: 'moderate', management: 'Separate administration by at least 4 hours',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'levothyroxine', drugB: 'iron supplements', severity: InteractionSeverity.LOW,
+    description: 'Reduced levothyroxine absorption',
+    mechanism: 'Chelation in the gastrointestinal tract',
+    evidenceLevel: 'moderate', management: 'Separate administration by at least 4 hours',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'fluoxetine', drugB: 'tramadol', severity: InteractionSeverity.MEDIUM,
+    description: 'Increased risk of serotonin syndrome',
+    mechanism: 'Additive serotonergic effects and CYP2D6 inhibition',
+    evidenceLevel: 'moderate', management: 'Use lowest doses and monitor for serotonin toxicity',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'fluoxetine', drugB: 'monoamine oxidase inhibitors', severity: InteractionSeverity.HIGH,
+    description: 'Risk of serotonin syndrome',
+    mechanism: 'Additive serotonergic effects',
+    evidenceLevel: 'strong', management: 'Contraindicated; allow 5 weeks washout after fluoxetine',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'amoxicillin', drugB: 'allopurinol', severity: InteractionSeverity.MEDIUM,
+    description: 'Increased risk of rash',
+    mechanism: 'Unknown; possibly immunological',
+    evidenceLevel: 'weak', management: 'Monitor for rash',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'ciprofloxacin', drugB: 'antacids', severity: InteractionSeverity.MEDIUM,
+    description: 'Reduced ciprofloxacin absorption',
+    mechanism: 'Chelation with polyvalent cations',
+    evidenceLevel: 'strong', management: 'Take ciprofloxacin 2 hours before or 6 hours after',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'ciprofloxacin', drugB: 'calcium supplements', severity: InteractionSeverity.MEDIUM,
+    description: 'Reduced ciprofloxacin absorption',
+    mechanism: 'Chelation with polyvalent cations',
+    evidenceLevel: 'strong', management: 'Take ciprofloxacin 2 hours before or 6 hours after',
+    source: 'Built-in baseline'
+  },
+  {
+    drugA: 'ciprofloxacin', drugB: 'iron supplements', severity: InteractionSeverity.MEDIUM,
+    description: 'Reduced ciprofloxacin absorption',
+    mechanism: 'Chelation with polyvalent cations',
+    evidenceLevel: 'strong', management: 'Take ciprofloxacin 2 hours before or 6 hours after',
+    source: 'Built-in baseline'
+  }
+];
+
+/**
+ * Service managing the persistent, versioned drug interaction knowledge base
+ */
+export class InteractionKnowledgeBaseService {
+  private static instance: InteractionKnowledgeBaseService;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): InteractionKnowledgeBaseService {
+    if (!InteractionKnowledgeBaseService.instance) {
+      InteractionKnowledgeBaseService.instance = new InteractionKnowledgeBaseService();
+    }
+    return InteractionKnowledgeBaseService.instance;
+  }
+
+  /**
+   * Create and activate the first release from the built-in baseline if no release exists
+   */
+  public async seedDefaultRelease(): Promise<IInteractionRelease | null> {
+    const existing = await InteractionRelease.countDocuments();
+    if (existing > 0) {
+      return null;
+    }
+
+    const release = await InteractionRelease.create({
+      version: 1,
+      label: 'Baseline',
+      status: 'active',
+      source: 'Built-in baseline',
+      entryCount: DEFAULT_INTERACTIONS.length,
+      publishedAt: new Date()
+    });
+
+    await DrugInteraction.insertMany(
+      DEFAULT_INTERACTIONS.map(entry => ({ ...this.normalizeEntry(entry), releaseVersion: 1 }))
+    );
+
+    logger.info(`Seeded drug interaction knowledge base with ${DEFAULT_INTERACTIONS.length} entries`);
+    return release;
+  }
+
+  /**
+   * Get the currently active release
+   */
+  public async getActiveRelease(): Promise<IInteractionRelease | null> {
+    return InteractionRelease.findOne({ status: 'active' });
+  }
+
+  /**
+   * Get all interaction entries of the active release
+   */
+  public async getActiveInteractions(): Promise<IDrugInteraction[]> {
+    const active = await this.getActiveRelease();
+    if (!active) {
+      return [];
+    }
+    return DrugInteraction.find({ releaseVersion: active.version });
+  }
+
+  /**
+   * List all releases, newest first
+   */
+  public async listReleases(): Promise<IInteractionRelease[]> {
+    return InteractionRelease.find().sort({ version: -1 });
+  }
+
+  /**
+   * Get a release by version
+   * @throws InteractionKnowledgeBaseError if the release does not exist
+   */
+  public async getRelease(version: number): Promise<IInteractionRelease> {
+    const release = await InteractionRelease.findOne({ version });
+    if (!release) {
+      throw new InteractionKnowledgeBaseError(`Release ${version} not found`, 'RELEASE_NOT_FOUND');
+    }
+    return release;
+  }
+
+  /**
+   * Create a new draft release, optionally cloning the entries of an existing release
+   */
+  public async createDraft(options: {
+    label?: string;
+    notes?: string;
+    source?: string;
+    cloneFromVersion?: number;
+    createdBy?: string;
+  }): Promise<IInteractionRelease> {
+    const latest = await InteractionRelease.findOne().sort({ version: -1 });
+    const version = (latest?.version || 0) + 1;
+
+    let entries: InteractionEntryInput[] = [];
+    if (options.cloneFromVersion !== undefined) {
+      await this.getRelease(options.cloneFromVersion);
+      entries = await this.getEntries(options.cloneFromVersion);
+    }
+
+    const release = await InteractionRelease.create({
+      version,
+      label: options.label,
+      notes: options.notes,
+      source: options.source,
+      status: 'draft',
+      basedOnVersion: options.cloneFromVersion,
+      entryCount: entries.length,
+      createdBy: options.createdBy
+    });
+
+    if (entries.length > 0) {
+      await DrugInteraction.insertMany(entries.map(entry => ({ ...entry, releaseVersion: version })));
+    }
+
+    logger.info(`Created drug interaction draft release ${version}`);
+    return release;
+  }
+
+  /**
+   * List interactions of a release, optionally filtered by drug name or severity
+   */
+  public async listInteractions(
+    version: number,
+    filter: { drug?: string; severity?: InteractionSeverity } = {}
+  ): Promise<IDrugInteraction[]> {
+    const query: Record<string, unknown> = { releaseVersion: version };
+
+    if (filter.drug) {
+      const drugRegex = new RegExp(this.escapeRegex(filter.drug.trim()), 'i');
+      query.$or = [{ drugA: drugRegex }, { drugB: drugRegex }];
+    }
+
+    if (filter.severity) {
+      query.severity = filter.severity;
+    }
+
+    return DrugInteraction.find(query).sort({ drugA: 1, drugB: 1 });
+  }
+
+  /**
+   * Add an interaction to a draft release
+   */
+  public async addInteraction(version: number, input: InteractionEntryInput): Promise<IDrugInteraction> {
+    await this.getDraft(version);
+    const entry = this.validateOrThrow(input);
+
+    const duplicate = await DrugInteraction.findOne({ releaseVersion: version, drugA: entry.drugA, drugB: entry.drugB });
+    if (duplicate) {
+      throw new InteractionKnowledgeBaseError(
+        `Interaction between ${entry.drugA} and ${entry.drugB} already exists in release ${version}`,
+        'DUPLICATE_INTERACTION'
+      );
+    }
+
+    const interaction = await DrugInteraction.create({ ...entry, releaseVersion: version });
+    await this.refreshEntryCount(version);
+    return interaction;
+  }
+
+  /**
+   * Update an interaction in a draft release
+   */
+  public async updateInteraction(
+    version: number,
+    interactionId: string,
+    input: Partial<InteractionEntryInput>
+  ): Promise<IDrugInteraction> {
+    await this.getDraft(version);
+    const interaction = await this.getInteraction(version, interactionId);
+
+    const merged = this.validateOrThrow({ ...this.toEntry(interaction), ...input });
+    interaction.set(merged);
+    return interaction.save();
+  }
+
+  /**
+   * Remove an interaction from a draft release
+   */
+  public async deleteInteraction(version: number, interactionId: string): Promise<void> {
+    await this.getDraft(version);
+    const interaction = await this.getInteraction(version, interactionId);
+    await interaction.deleteOne();
+    await this.refreshEntryCount(version);
+  }
+
+  /**
+   * Bulk import entries into a draft release from CSV or JSON.
+   * In "replace" mode the draft's existing entries are removed first; in "merge" mode
+   * entries are upserted by drug pair. Nothing is written if any row is invalid,
+   * unless skipInvalid is set.
+   */
+  public async importEntries(
+    version: number,
+    payload: string | unknown[],
+    options: { format: 'csv' | 'json'; mode?: 'merge' | 'replace'; skipInvalid?: boolean }
+  ): Promise<ImportResult> {
+    await this.getDraft(version);
+
+    const rows = this.parsePayload(payload, options.format);
+    const result: ImportResult = { version, created: 0, updated: 0, removed: 0, skipped: 0, errors: [] };
+    const validEntries = new Map<string, InteractionEntryInput>();
+
+    rows.forEach((row, index) => {
+      const errors = this.validateEntry(row as Partial<InteractionEntryInput>);
+      if (errors.length > 0) {
+        result.errors.push({ row: index + 1, errors });
+        return;
+      }
+      const entry = this.normalizeEntry(row as InteractionEntryInput);
+      validEntries.set(this.pairKey(entry.drugA, entry.drugB), entry);
+    });
+
+    if (result.errors.length > 0 && !options.skipInvalid) {
+      throw new InteractionKnowledgeBaseError(
+        `Import rejected: ${result.errors.length} invalid row(s)`,
+        'INVALID_IMPORT',
+        result.errors
+      );
+    }
+
+    result.skipped = rows.length - validEntries.size;
+
+    if (options.mode === 'replace') {
+      const deletion = await DrugInteraction.deleteMany({ releaseVersion: version });
+      result.removed = deletion.deletedCount || 0;
+    }
+
+    for (const entry of validEntries.values()) {
+      const existing = await DrugInteraction.findOne({ releaseVersion: version, drugA: entry.drugA, drugB: entry.drugB });
+      if (existing) {
+        existing.set(entry);
+        await existing.save();
+        result.updated++;
+      } else {
+        await DrugInteraction.create({ ...entry, releaseVersion: version });
+        result.created++;
+      }
+    }
+
+    await this.refreshEntryCount(version);
+    logger.info(`Imported ${validEntries.size} interactions into release ${version}`, {
+      created: result.created,
+      updated: result.updated,
+      skipped: result.skipped
+    });
+
+    return result;
+  }
+
+  /**
+   * Publish a draft release, superseding the currently active release
+   */
+  public async publishRelease(version: number, publishedBy?: string): Promise<IInteractionRelease> {
+    const release = await this.getDraft(version);
+    return this.activate(release, publishedBy);
+  }
+
+  /**
+   * Roll back to a previously published release
+   */
+  public async rollbackToRelease(version: number, publishedBy?: string): Promise<IInteractionRelease> {
+    const release = await this.getRelease(version);
+
+    if (release.status !== 'superseded') {
+      throw new InteractionKnowledgeBaseError(
+        `Release ${version} is ${release.status}; only superseded releases can be restored`,
+        'INVALID_RELEASE_STATE'
+      );
+    }
+
+    return this.activate(release, publishedBy);
+  }
+
+  /**
+   * Compute the differences between two releases
+   */
+  public async diffReleases(fromVersion: number, toVersion: number): Promise<ReleaseDiff> {
+    await Promise.all([this.getRelease(fromVersion), this.getRelease(toVersion)]);
+
+    const [fromEntries, toEntries] = await Promise.all([
+      this.getEntries(fromVersion),
+      this.getEntries(toVersion)
+    ]);
+
+    const fromMap = new Map(fromEntries.map(entry => [this.pairKey(entry.drugA, entry.drugB), entry]));
+    const toMap = new Map(toEntries.map(entry => [this.pairKey(entry.drugA, entry.drugB), entry]));
+
+    const diff: ReleaseDiff = { fromVersion, toVersion, added: [], removed: [], changed: [] };
+
+    for (const [key, after] of toMap.entries()) {
+      const before = fromMap.get(key);
+      if (!before) {
+        diff.added.push(after);
+        continue;
+      }
+
+      const fields = ENTRY_FIELDS.filter(field => before[field] !== after[field]);
+      if (fields.length > 0) {
+        diff.changed.push({ drugA: after.drugA, drugB: after.drugB, fields, before, after });
+      }
+    }
+
+    for (const [key, before] of fromMap.entries()) {
+      if (!toMap.has(key)) {
+        diff.removed.push(before);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Validate an interaction entry
+   * @returns List of validation errors (empty when valid)
+   */
+  public validateEntry(input: Partial<InteractionEntryInput>): string[] {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object') {
+      return ['Entry must be an object'];
+    }
+
+    for (const field of ENTRY_FIELDS) {
+      const value = input[field];
+      if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`${field} is required`);
+      }
+    }
+
+    if (input.severity && !Object.values(InteractionSeverity).includes(String(input.severity).toLowerCase() as InteractionSeverity)) {
+      errors.push(`severity must be one of: ${Object.values(InteractionSeverity).join(', ')}`);
+    }
+
+    if (input.evidenceLevel && !EVIDENCE_LEVELS.includes(String(input.evidenceLevel).toLowerCase() as InteractionEvidenceLevel)) {
+      errors.push(`evidenceLevel must be one of: ${EVIDENCE_LEVELS.join(', ')}`);
+    }
+
+    if (typeof input.drugA === 'string' && typeof input.drugB === 'string' &&
+        input.drugA.trim().toLowerCase() === input.drugB.trim().toLowerCase()) {
+      errors.push('drugA and drugB must be different');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Parse CSV text into row objects keyed by the header line.
+   * Supports quoted fields containing commas, newlines and escaped quotes.
+   */
+  public parseCsv(text: string): Array<Record<string, string>> {
+    const records: string[][] = [];
+    let field = '';
+    let record: string[] = [];
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(value => value.trim()));
+    if (nonEmpty.length === 0) {
+      return [];
+    }
+
+    const headers = nonEmpty[0].map(header => header.trim());
+    return nonEmpty.slice(1).map(values =>
+      headers.reduce<Record<string, string>>((row, header, index) => {
+        row[header] = (values[index] || '').trim();
+        return row;
+      }, {})
+    );
+  }
+
+  /**
+   * Activate a release and supersede the previously active one
+   */
+  private async activate(release: IInteractionRelease, publishedBy?: string): Promise<IInteractionRelease> {
+    await InteractionRelease.updateMany(
+      { status: 'active', version: { $ne: release.version } },
+      { status: 'superseded' }
+    );
+
+    release.status = 'active';
+    release.publishedAt = new Date();
+    release.publishedBy = publishedBy;
+    await release.save();
+
+    logger.info(`Drug interaction release ${release.version} is now active`);
+    return release;
+  }
+
+  /**
+   * Get a release and ensure it is still editable
+   */
+  private async getDraft(version: number): Promise<IInteractionRelease> {
+    const release = await this.getRelease(version);
+    if (release.status !== 'draft') {
+      throw new InteractionKnowledgeBaseError(
+        `Release ${version} is ${release.status}; create a new draft to make changes`,
+        'RELEASE_NOT_EDITABLE'
+      );
+    }
+    return release;
+  }
+
+  /**
+   * Get an interaction within a release
+   */
+  private async getInteraction(version: number, interactionId: string): Promise<IDrugInteraction> {
+    const interaction = mongoose.Types.ObjectId.isValid(interactionId)
+      ? await DrugInteraction.findOne({ _id: interactionId, releaseVersion: version })
+      : null;
+
+    if (!interaction) {
+      throw new InteractionKnowledgeBaseError(
+        `Interaction ${interactionId} not found in release ${version}`,
+        'INTERACTION_NOT_FOUND'
+      );
+    }
+    return interaction;
+  }
+
+  /**
+   * Get all entries of a release as plain objects
+   */
+  private async getEntries(version: number): Promise<InteractionEntryInput[]> {
+    const interactions = await DrugInteraction.find({ releaseVersion: version });
+    return interactions.map((interaction: IDrugInteraction) => this.toEntry(interaction));
+  }
+
+  /**
+   * Keep the release entry count in sync after edits
+   */
+  private async refreshEntryCount(version: number): Promise<void> {
+    const entryCount = await DrugInteraction.countDocuments({ releaseVersion: version });
+    await InteractionRelease.updateOne({ version }, { entryCount });
+  }
+
+  private parsePayload(payload: string | unknown[], format: 'csv' | 'json'): unknown[] {
+    if (Array.isArray(payload)) {
+      return payload;
+    }
+
+    if (format === 'csv') {
+      return this.parseCsv(payload);
+    }
+
+    try {
+      const parsed = JSON.parse(payload);
+      if (!Array.isArray(parsed)) {
+        throw new Error('JSON payload must be an array');
+      }
+      return parsed;
+    } catch (error) {
+      throw new InteractionKnowledgeBaseError(`Invalid JSON payload: ${(error as Error).message}`, 'INVALID_IMPORT');
+    }
+  }
+
+  private validateOrThrow(input: Partial<InteractionEntryInput>): InteractionEntryInput {
+    const errors = this.validateEntry(input);
+    if (errors.length > 0) {
+      throw new InteractionKnowledgeBaseError('Invalid interaction entry', 'INVALID_INTERACTION', errors);
+    }
+    return this.normalizeEntry(input as InteractionEntryInput);
+  }
+
+  /**
+   * Normalize names and enum values; drug pairs are stored in alphabetical order
+   */
+  private normalizeEntry(input: InteractionEntryInput): InteractionEntryInput {
+    const [drugA, drugB] = [input.drugA, input.drugB]
+      .map(drug => drug.trim().toLowerCase())
+      .sort();
+
+    return {
+      drugA,
+      drugB,
+      severity: input.severity.toLowerCase() as InteractionSeverity,
+      description: input.description.trim(),
+      mechanism: input.mechanism.trim(),
+      evidenceLevel: input.evidenceLevel.toLowerCase() as InteractionEvidenceLevel,
+      management: input.management.trim(),
+      source: input.source.trim()
+    };
+  }
+
+  private toEntry(interaction: IDrugInteraction): InteractionEntryInput {
+    return {
+      drugA: interaction.drugA,
+      drugB: interaction.drugB,
+      severity: interaction.severity,
+      description: interaction.description,
+      mechanism: interaction.mechanism,
+      evidenceLevel: interaction.evidenceLevel,
+      management: interaction.management,
+      source: interaction.source
+    };
+  }
+
+  private pairKey(drugA: string, drugB: string): string {
+    return [drugA, drugB].sort().join('|');
+  }
+
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Export singleton instance
+export const interactionKnowledgeBase = InteractionKnowledgeBaseService.getInstance();
@@ -1,5 +1,8 @@
 import mongoose, { Model } from 'mongoose';
 import logger from '../utils/logger';
+import sigParser, { StructuredSig } from '../utils/sigParser';
+import { AdherenceSignals } from '../utils/adherenceOutreach';
+import supplyForecaster, { DispenseRecord, PossessionMetrics, SupplyForecast } from '../utils/supplyForecast';
 
 // Custom error types for better error handling
 export class AdherenceServiceError extends Error {
@@ -22,14 +25,22 @@ export interface MedicationSchedule {
   medicationName: string;
   dosage: string;
   frequency: string;
+  sig?: StructuredSig;
   timeOfDay: string[];
   startDate: Date;
   endDate?: Date;
   instructions?: string;
   refillRemindDays: number;
+  dispenses?: DispenseRecord[];
+  timeZone?: string; // IANA zone the dose times are in
   active: boolean;
 }
 
+export type PatientMedicationSchedule = MedicationSchedule & {
+  _id: mongoose.Types.ObjectId;
+  patientId: mongoose.Types.ObjectId;
+};
+
 export interface MedicationEvent {
   medicationId: mongoose.Types.ObjectId;
   patientId: mongoose.Types.ObjectId;
@@ -39,6 +50,8 @@ export interface MedicationEvent {
   delayed?: boolean;
   skipped: boolean;
   reason?: string;
+  scheduledFor?: Date; // dose time answered, when recorded from a reminder
+  snoozedUntil?: Date; // set on reminder snoozes, which are not dose outcomes
 }
 
 export interface AdherenceMetrics {
@@ -62,6 +75,7 @@ export interface AdherenceMetrics {
       frequency?: number;
     }[];
   };
+  possession?: PossessionMetrics; // MPR and PDC when dispensing is recorded
 }
 
 export interface AdherenceAlert {
@@ -74,11 +88,23 @@ export interface AdherenceAlert {
   acknowledged: boolean;
 }
 
+export interface MedicationSupplyForecast {
+  medicationId: mongoose.Types.ObjectId;
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  refillsRemaining?: number;
+  forecast: SupplyForecast;
+}
+
 // MongoDB model interfaces
 export interface IMedicationScheduleModel extends Model<MedicationSchedule> {}
 export interface IMedicationEventModel extends Model<MedicationEvent> {}
 export interface IAdherenceAlertModel extends Model<AdherenceAlert> {}
 
+// Leaves out reminder snoozes so only dose outcomes count towards adherence
+const DOSE_OUTCOME_FILTER = { snoozedUntil: { $exists: false } };
+
 export class MedicationAdherenceService {
   private static instance: MedicationAdherenceService;
 
@@ -108,12 +134,22 @@ export class MedicationAdherenceService {
   }
 
   /**
-   * Creates a new medication schedule for a patient
+   * Creates a new medication schedule for a patient.
+   * Dose times default to those implied by the structured sig when none are given.
    */
   async createMedicationSchedule(patientId: mongoose.Types.ObjectId, schedule: Omit<MedicationSchedule, 'active'>): Promise<MedicationSchedule> {
     try {
+      const sig = schedule.sig || sigParser.fromParts(schedule.dosage, schedule.frequency);
+      const timeOfDay = schedule.timeOfDay?.length ? schedule.timeOfDay : sigParser.getScheduleTimes(sig);
+      const endDate = schedule.endDate || (sig.duration && schedule.startDate
+        ? new Date(new Date(schedule.startDate).getTime() + sig.duration.days * 24 * 60 * 60 * 1000)
+        : undefined);
+
       const newSchedule = await this.medicationScheduleModel.create({
         ...schedule,
+        sig,
+        timeOfDay,
+        endDate,
         patientId,
         active: true
       });
@@ -136,9 +172,14 @@ export class MedicationAdherenceService {
         timestamp: new Date()
       });
 
-      // If medication was missed or skipped, check if we need to send an alert
-      if (event.skipped || !event.taken) {
+      // If medication was missed or skipped, check if we need to send an alert.
+      // Snoozes only defer the dose, so they raise nothing.
+      if (event.snoozedUntil) {
+        logger.info(`Dose of medication ${event.medicationId} snoozed until ${event.snoozedUntil.toISOString()}`);
+      } else if (event.skipped || !event.taken) {
         await this.checkForAdherenceAlerts(event.patientId, event.medicationId);
+      } else {
+        await this.checkForRefillAlert(event.patientId, event.medicationId);
       }
 
       logger.info(`Recorded medication event for patient ${event.patientId} for medication ${event.medicationId}`);
@@ -155,7 +196,12 @@ export class MedicationAdherenceService {
   async calculateAdherenceMetrics(patientId: mongoose.Types.ObjectId, medicationId?: mongoose.Types.ObjectId, timeframe?: { start: Date; end: Date }): Promise<AdherenceMetrics[]> {
     try {
       // Build query
-      const query: { patientId: mongoose.Types.ObjectId; medicationId?: mongoose.Types.ObjectId; timestamp?: { $gte: Date; $lte: Date } } = { patientId };
+      const query: {
+        patientId: mongoose.Types.ObjectId;
+        medicationId?: mongoose.Types.ObjectId;
+        timestamp?: { $gte: Date; $lte: Date };
+        snoozedUntil: { $exists: boolean };
+      } = { patientId, ...DOSE_OUTCOME_FILTER };
       if (medicationId) query.medicationId = medicationId;
       if (timeframe) {
         query.timestamp = {
@@ -175,6 +221,7 @@ export class MedicationAdherenceService {
 
       // Group events by medication
       const medicationGroups = this.groupEventsByMedication(events);
+      const schedules: MedicationSchedule[] = await this.medicationScheduleModel.find({ patientId });
       
       // Calculate metrics for each medication
       const adherenceMetrics: AdherenceMetrics[] = [];
@@ -184,7 +231,8 @@ export class MedicationAdherenceService {
           patientId, 
           new mongoose.Types.ObjectId(medId), 
           medEvents, 
-          timeframe
+          timeframe,
+          schedules.find(schedule => schedule.medicationId.toString() === medId)
         );
         adherenceMetrics.push(metrics);
       }
@@ -246,6 +294,139 @@ export class MedicationAdherenceService {
     }
   }
 
+  /**
+   * Gets active medication schedules across all patients
+   */
+  async getActiveSchedules(): Promise<PatientMedicationSchedule[]> {
+    try {
+      const schedules: PatientMedicationSchedule[] = await this.medicationScheduleModel.find({ active: true });
+      return schedules;
+    } catch (error) {
+      logger.error(`Failed to get active medication schedules: ${error}`);
+      throw new AdherenceServiceError(`Failed to get active medication schedules: ${error}`);
+    }
+  }
+
+  /**
+   * Records medication dispensed to the patient against their active schedule
+   */
+  async recordDispense(
+    patientId: mongoose.Types.ObjectId,
+    medicationId: mongoose.Types.ObjectId,
+    dispense: DispenseRecord
+  ): Promise<MedicationSchedule> {
+    try {
+      const schedule = await this.medicationScheduleModel.findOneAndUpdate(
+        { patientId, medicationId, active: true },
+        { $push: { dispenses: dispense } },
+        { new: true }
+      );
+
+      if (!schedule) {
+        throw new AdherenceDataNotFoundError(`No active schedule for medication ${medicationId}`);
+      }
+
+      logger.info(`Recorded dispense of ${dispense.quantity} for patient ${patientId} medication ${medicationId}`);
+      return schedule;
+    } catch (error) {
+      if (error instanceof AdherenceDataNotFoundError) throw error;
+      logger.error(`Failed to record dispense: ${error}`);
+      throw new AdherenceServiceError(`Failed to record dispense: ${error}`);
+    }
+  }
+
+  /**
+   * Projects remaining supply and run-out dates for a patient's active schedules that
+   * have dispensing recorded
+   */
+  async getSupplyForecasts(patientId: mongoose.Types.ObjectId, asOf: Date = new Date()): Promise<MedicationSupplyForecast[]> {
+    try {
+      const schedules: MedicationSchedule[] = await this.medicationScheduleModel.find({ patientId, active: true });
+      const forecasts: MedicationSupplyForecast[] = [];
+
+      for (const schedule of schedules.filter(s => s.dispenses?.length)) {
+        const latest = (schedule.dispenses as DispenseRecord[]).reduce((last, dispense) =>
+          (dispense.dispensedAt > last.dispensedAt ? dispense : last)
+        );
+        forecasts.push({
+          medicationId: schedule.medicationId,
+          medicationName: schedule.medicationName,
+          dosage: schedule.dosage,
+          frequency: schedule.frequency,
+          refillsRemaining: latest.refillsRemaining,
+          forecast: await this.forecastSupply(patientId, schedule, asOf)
+        });
+      }
+
+      return forecasts.sort((a, b) =>
+        (a.forecast.daysRemaining ?? Infinity) - (b.forecast.daysRemaining ?? Infinity)
+      );
+    } catch (error) {
+      logger.error(`Failed to forecast medication supply: ${error}`);
+      throw new AdherenceServiceError(`Failed to forecast medication supply: ${error}`);
+    }
+  }
+
+  /**
+   * Summarizes the adherence signals used by outreach: the current run of missed doses,
+   * the taken rate over the last two periods and any missed-dose patterns
+   */
+  async getAdherenceSignals(
+    patientId: mongoose.Types.ObjectId,
+    medicationId: mongoose.Types.ObjectId,
+    periodDays: number = 14,
+    asOf: Date = new Date()
+  ): Promise<AdherenceSignals> {
+    try {
+      const periodMs = periodDays * 24 * 60 * 60 * 1000;
+      const recentStart = new Date(asOf.getTime() - periodMs);
+      const previousStart = new Date(asOf.getTime() - 2 * periodMs);
+
+      const events: MedicationEvent[] = await this.medicationEventModel.find({
+        patientId,
+        medicationId,
+        timestamp: { $gt: previousStart, $lte: asOf },
+        ...DOSE_OUTCOME_FILTER
+      }).sort({ timestamp: -1 });
+
+      const recent = events.filter(e => e.timestamp > recentStart);
+      const previous = events.filter(e => e.timestamp <= recentStart);
+      const takenRate = (periodEvents: MedicationEvent[]) =>
+        periodEvents.length >= 3 ? periodEvents.filter(e => e.taken).length / periodEvents.length : undefined;
+
+      return {
+        consecutiveMissed: this.getConsecutiveMissedDoses(events),
+        recentAdherence: takenRate(recent),
+        previousAdherence: takenRate(previous),
+        missedPatterns: this.findMissedDosePatterns(events.filter(e => !e.taken && e.skipped))
+      };
+    } catch (error) {
+      logger.error(`Failed to get adherence signals: ${error}`);
+      throw new AdherenceServiceError(`Failed to get adherence signals: ${error}`);
+    }
+  }
+
+  /**
+   * Lists patient medications with unacknowledged alerts raised since the given date
+   */
+  async getOpenAlertTargets(since: Date): Promise<Array<{ patientId: mongoose.Types.ObjectId; medicationId: mongoose.Types.ObjectId }>> {
+    try {
+      const alerts: AdherenceAlert[] = await this.adherenceAlertModel.find({
+        acknowledged: false,
+        createdAt: { $gte: since }
+      });
+
+      const targets = new Map<string, { patientId: mongoose.Types.ObjectId; medicationId: mongoose.Types.ObjectId }>();
+      for (const alert of alerts) {
+        targets.set(`${alert.patientId}:${alert.medicationId}`, { patientId: alert.patientId, medicationId: alert.medicationId });
+      }
+      return Array.from(targets.values());
+    } catch (error) {
+      logger.error(`Failed to get adherence alert targets: ${error}`);
+      throw new AdherenceServiceError(`Failed to get adherence alert targets: ${error}`);
+    }
+  }
+
   // PRIVATE HELPER METHODS
 
   /**
@@ -272,7 +453,8 @@ export class MedicationAdherenceService {
     patientId: mongoose.Types.ObjectId,
     medicationId: mongoose.Types.ObjectId,
     events: MedicationEvent[],
-    timeframe?: { start: Date; end: Date }
+    timeframe?: { start: Date; end: Date },
+    schedule?: MedicationSchedule
   ): AdherenceMetrics {
     // Calculate overall adherence
     const totalEvents = events.length;
@@ -288,6 +470,21 @@ export class MedicationAdherenceService {
     
     // Calculate trends
     const trends = this.calculateAdherenceTrends(events);
+
+    // Possession ratios over the timeframe, or from the first dispense until now
+    let possession: PossessionMetrics | undefined;
+    if (schedule?.dispenses?.length) {
+      const firstDispensed = schedule.dispenses.reduce(
+        (earliest, dispense) => (dispense.dispensedAt < earliest ? dispense.dispensedAt : earliest),
+        schedule.dispenses[0].dispensedAt
+      );
+      possession = supplyForecaster.possession(
+        schedule.dispenses,
+        timeframe?.start || firstDispensed,
+        timeframe?.end || new Date(),
+        supplyForecaster.unitsPerDay(schedule.sig, schedule.dispenses)
+      );
+    }
     
     return {
       patientId,
@@ -296,7 +493,8 @@ export class MedicationAdherenceService {
       missedDoses,
       delayedDoses,
       periodicAdherence,
-      trends
+      trends,
+      possession
     };
   }
 
@@ -428,7 +626,8 @@ export class MedicationAdherenceService {
       const recentEvents = await this.medicationEventModel.find({
         patientId,
         medicationId,
-        timestamp: { $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) } // Last 30 days
+        timestamp: { $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }, // Last 30 days
+        ...DOSE_OUTCOME_FILTER
       }).sort({ timestamp: -1 });
       
       // Check for consecutive missed doses
@@ -481,6 +680,72 @@ export class MedicationAdherenceService {
     }
   }
 
+  /**
+   * Forecasts supply for one schedule from its dispenses and recorded events
+   */
+  private async forecastSupply(
+    patientId: mongoose.Types.ObjectId,
+    schedule: MedicationSchedule,
+    asOf: Date
+  ): Promise<SupplyForecast> {
+    const dispenses = schedule.dispenses || [];
+    const firstDispensed = dispenses.reduce(
+      (earliest, dispense) => (dispense.dispensedAt < earliest ? dispense.dispensedAt : earliest),
+      asOf
+    );
+    const events: MedicationEvent[] = await this.medicationEventModel.find({
+      patientId,
+      medicationId: schedule.medicationId,
+      timestamp: { $gte: firstDispensed, $lte: asOf },
+      ...DOSE_OUTCOME_FILTER
+    });
+
+    return supplyForecaster.forecast({
+      sig: schedule.sig || sigParser.fromParts(schedule.dosage, schedule.frequency),
+      dispenses,
+      events,
+      refillRemindDays: schedule.refillRemindDays,
+      asOf
+    });
+  }
+
+  /**
+   * Raises a refill alert when the projected supply is within the schedule's reminder window
+   */
+  private async checkForRefillAlert(patientId: mongoose.Types.ObjectId, medicationId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const schedule = await this.medicationScheduleModel.findOne({ patientId, medicationId, active: true });
+      if (!schedule?.dispenses?.length) return;
+
+      const forecast = await this.forecastSupply(patientId, schedule, new Date());
+      if (forecast.status !== 'refill_due' && forecast.status !== 'out') return;
+
+      // One open refill alert per medication
+      const existing = await this.adherenceAlertModel.findOne({
+        patientId,
+        medicationId,
+        type: 'REFILL_NEEDED',
+        acknowledged: false
+      });
+      if (existing) return;
+
+      await this.adherenceAlertModel.create({
+        patientId,
+        medicationId,
+        type: 'REFILL_NEEDED',
+        message: forecast.status === 'out'
+          ? `Patient's supply of ${schedule.medicationName} has run out`
+          : `Patient's supply of ${schedule.medicationName} runs out around ${forecast.runOutDate?.toISOString().split('T')[0]}`,
+        severity: forecast.status === 'out' ? 'HIGH' : 'MEDIUM',
+        createdAt: new Date(),
+        acknowledged: false
+      });
+    } catch (error) {
+      logger.error(`Failed to check for refill alert: ${error}`);
+      // We don't throw here to prevent affecting the main operation
+    }
+  }
+
   /**
    * Calculates consecutive missed doses from recent events
    */
@@ -0,0 +1,549 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import medicationAnalyzer from '../utils/medicationAnalyzer';
+import doseAdjustmentEngine from '../utils/doseAdjustment';
+import Patient, { IPatient } from '../models/Patient';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import MedicationScheduleModel from '../models/MedicationSchedule';
+import MedicationEventModel from '../models/MedicationEvent';
+import AdherenceAlertModel from '../models/AdherenceAlert';
+import MedicationAdherenceService from './MedicationAdherenceService';
+import {
+  MedicationReconciliation,
+  IMedicationReconciliation,
+  IReconciliationLine,
+  IReconciliationMedication,
+  ReconciliationEncounter,
+  ReconciliationDecision
+} from '../models/MedicationReconciliation';
+
+const prisma = new PrismaClient();
+
+/**
+ * Error raised for invalid reconciliation operations
+ */
+export class MedicationReconciliationError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * Medication schedule entry loaded from MedicationAdherenceService
+ */
+export interface ReconciliationScheduleInput {
+  _id?: unknown;
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  active?: boolean;
+}
+
+/**
+ * A documented reason for stopping a home medication
+ */
+export interface DiscontinuationInput {
+  name: string;
+  reason: string;
+}
+
+/**
+ * Input for starting a reconciliation run. When the home list or active orders are
+ * omitted they are loaded from the patient record, the patient's adherence schedules
+ * and the patient's prescriptions.
+ */
+export interface StartReconciliationInput {
+  patientId: string;
+  encounterType: ReconciliationEncounter;
+  startedBy: string;
+  homeList?: Array<Omit<IReconciliationMedication, 'source'> & { source?: IReconciliationMedication['source'] }>;
+  activeOrders?: Array<Omit<IReconciliationMedication, 'source'> & { source?: IReconciliationMedication['source'] }>;
+  discontinuations?: DiscontinuationInput[];
+}
+
+/**
+ * Result of comparing the home list against active orders
+ */
+export interface ReconciliationDiff {
+  lines: IReconciliationLine[];
+  sourceConflicts: string[];
+}
+
+// Dosage form words ignored when matching medication names
+const FORM_WORDS = new Set([
+  'tablet', 'tablets', 'tab', 'tabs', 'capsule', 'capsules', 'cap', 'caps',
+  'oral', 'solution', 'suspension', 'injection', 'mg', 'mcg', 'g', 'ml', 'units'
+]);
+
+/**
+ * Service for reconciling home medications against active orders at
+ * admission, transfer and discharge
+ */
+export class MedicationReconciliationService {
+  private static instance: MedicationReconciliationService;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): MedicationReconciliationService {
+    if (!MedicationReconciliationService.instance) {
+      MedicationReconciliationService.instance = new MedicationReconciliationService();
+    }
+    return MedicationReconciliationService.instance;
+  }
+
+  /**
+   * Start a reconciliation run and store the proposed diff for clinician review
+   */
+  public async startReconciliation(input: StartReconciliationInput): Promise<IMedicationReconciliation> {
+    const sourceConflicts: string[] = [];
+
+    const homeList = input.homeList
+      ? input.homeList.map(med => ({ ...med, source: med.source || 'manual' as const }))
+      : this.mergeHomeSources(
+          await this.loadPatientRecordMedications(input.patientId),
+          this.fromAdherenceSchedules(await this.loadAdherenceSchedules(input.patientId)),
+          sourceConflicts
+        );
+
+    const activeOrders = input.activeOrders
+      ? input.activeOrders.map(med => ({ ...med, source: med.source || 'manual' as const }))
+      : await this.loadActiveOrders(input.patientId);
+
+    const diff = this.compareLists(homeList, activeOrders, input.discontinuations || []);
+
+    const reconciliation = await MedicationReconciliation.create({
+      patientId: input.patientId,
+      encounterType: input.encounterType,
+      status: 'in_progress',
+      lines: diff.lines,
+      sourceConflicts: [...sourceConflicts, ...diff.sourceConflicts],
+      startedBy: input.startedBy
+    });
+
+    await this.audit(input.startedBy, 'medication_reconciliation_started', {
+      reconciliationId: reconciliation.id,
+      patientId: input.patientId,
+      encounterType: input.encounterType,
+      summary: this.summarize(diff.lines)
+    });
+
+    return reconciliation;
+  }
+
+  /**
+   * Compare the home list with active orders.
+   * Home medications without a matching order are discontinued when a reason is documented,
+   * otherwise they are unexplained omissions that need a clinician decision.
+   */
+  public compareLists(
+    homeList: IReconciliationMedication[],
+    activeOrders: IReconciliationMedication[],
+    discontinuations: DiscontinuationInput[] = []
+  ): ReconciliationDiff {
+    const lines: IReconciliationLine[] = [];
+    const sourceConflicts: string[] = [];
+    const unmatchedOrders = new Map<string, IReconciliationMedication>();
+
+    for (const order of activeOrders) {
+      const key = this.normalizeName(order.name);
+      if (unmatchedOrders.has(key)) {
+        sourceConflicts.push(`Duplicate active orders for ${order.name}`);
+        continue;
+      }
+      unmatchedOrders.set(key, order);
+    }
+
+    const stopReasons = new Map(discontinuations.map(d => [this.normalizeName(d.name), d.reason]));
+
+    for (const home of homeList) {
+      const key = this.normalizeName(home.name);
+      const order = unmatchedOrders.get(key);
+
+      if (order) {
+        unmatchedOrders.delete(key);
+        const changes = this.describeChanges(home, order);
+        lines.push(this.createLine(lines.length, changes.length > 0 ? 'changed_dose' : 'continued', home.name, {
+          homeMedication: home,
+          activeOrder: order,
+          changes
+        }));
+        continue;
+      }
+
+      const reason = stopReasons.get(key);
+      lines.push(this.createLine(lines.length, reason ? 'discontinued' : 'unexplained_omission', home.name, {
+        homeMedication: home,
+        reason
+      }));
+    }
+
+    for (const order of unmatchedOrders.values()) {
+      lines.push(this.createLine(lines.length, 'new', order.name, { activeOrder: order }));
+    }
+
+    return { lines, sourceConflicts };
+  }
+
+  /**
+   * Accept or reject a single reconciliation line.
+   * Rejections and accepted unexplained omissions require a comment.
+   */
+  public async decideLine(
+    reconciliationId: string,
+    lineId: string,
+    decision: Exclude<ReconciliationDecision, 'pending'>,
+    userId: string,
+    comment?: string
+  ): Promise<IMedicationReconciliation> {
+    const reconciliation = await this.getEditable(reconciliationId);
+    const line = reconciliation.lines.find(l => l.lineId === lineId);
+
+    if (!line) {
+      throw new MedicationReconciliationError(`Line ${lineId} not found`, 'LINE_NOT_FOUND');
+    }
+
+    const needsComment = decision === 'rejected' || line.category === 'unexplained_omission';
+    if (needsComment && !comment?.trim()) {
+      throw new MedicationReconciliationError(
+        decision === 'rejected'
+          ? 'A comment is required when rejecting a reconciliation line'
+          : 'A reason is required to accept an unexplained omission',
+        'COMMENT_REQUIRED'
+      );
+    }
+
+    line.decision = decision;
+    line.decisionComment = comment?.trim() || undefined;
+    line.decidedBy = userId;
+    line.decidedAt = new Date();
+    reconciliation.markModified('lines');
+    await reconciliation.save();
+
+    await this.audit(userId, 'medication_reconciliation_line_decided', {
+      reconciliationId,
+      patientId: reconciliation.patientId,
+      lineId,
+      category: line.category,
+      medicationName: line.medicationName,
+      decision,
+      comment: line.decisionComment
+    });
+
+    return reconciliation;
+  }
+
+  /**
+   * Sign a reconciliation once every line has been decided.
+   * The signature is a SHA-256 digest of the decided lines, signer and time.
+   */
+  public async signReconciliation(reconciliationId: string, userId: string): Promise<IMedicationReconciliation> {
+    const reconciliation = await this.getEditable(reconciliationId);
+
+    const pending = reconciliation.lines.filter(line => line.decision === 'pending');
+    if (pending.length > 0) {
+      throw new MedicationReconciliationError(
+        `${pending.length} line(s) still need a decision: ${pending.map(line => line.medicationName).join(', ')}`,
+        'LINES_PENDING'
+      );
+    }
+
+    reconciliation.signedBy = userId;
+    reconciliation.signedAt = new Date();
+    reconciliation.status = 'completed';
+    reconciliation.signature = this.computeSignature(reconciliation);
+    await reconciliation.save();
+
+    await this.audit(userId, 'medication_reconciliation_signed', {
+      reconciliationId,
+      patientId: reconciliation.patientId,
+      encounterType: reconciliation.encounterType,
+      signature: reconciliation.signature,
+      summary: this.summarize(reconciliation.lines)
+    });
+
+    logger.info(`Medication reconciliation ${reconciliationId} signed by ${userId}`);
+    return reconciliation;
+  }
+
+  /**
+   * Check that a signed reconciliation has not been altered since signing
+   */
+  public verifySignature(reconciliation: IMedicationReconciliation): boolean {
+    return !!reconciliation.signature && reconciliation.signature === this.computeSignature(reconciliation);
+  }
+
+  /**
+   * Get a reconciliation by id
+   */
+  public async getReconciliation(reconciliationId: string): Promise<IMedicationReconciliation> {
+    const reconciliation = await MedicationReconciliation.findById(reconciliationId);
+    if (!reconciliation) {
+      throw new MedicationReconciliationError(`Reconciliation ${reconciliationId} not found`, 'RECONCILIATION_NOT_FOUND');
+    }
+    return reconciliation;
+  }
+
+  /**
+   * List a patient's reconciliations, newest first
+   */
+  public async listPatientReconciliations(patientId: string): Promise<IMedicationReconciliation[]> {
+    return MedicationReconciliation.find({ patientId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Count lines by category and decision
+   */
+  public summarize(lines: IReconciliationLine[]): Record<string, number> {
+    return lines.reduce<Record<string, number>>((summary, line) => {
+      summary[line.category] = (summary[line.category] || 0) + 1;
+      summary[line.decision] = (summary[line.decision] || 0) + 1;
+      return summary;
+    }, {});
+  }
+
+  /**
+   * Merge the patient record with adherence schedules, noting where they disagree
+   */
+  private mergeHomeSources(
+    recordMedications: IReconciliationMedication[],
+    scheduleMedications: IReconciliationMedication[],
+    conflicts: string[]
+  ): IReconciliationMedication[] {
+    const merged = new Map<string, IReconciliationMedication>();
+    recordMedications.forEach(med => merged.set(this.normalizeName(med.name), med));
+
+    for (const scheduled of scheduleMedications) {
+      const key = this.normalizeName(scheduled.name);
+      const recorded = merged.get(key);
+
+      if (!recorded) {
+        merged.set(key, scheduled);
+        conflicts.push(`${scheduled.name} has an adherence schedule but is missing from the patient record`);
+        continue;
+      }
+
+      const changes = this.describeChanges(recorded, scheduled);
+      if (changes.length > 0) {
+        conflicts.push(`${recorded.name}: patient record and adherence schedule disagree (${changes.join('; ')})`);
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Load current medications from the patient record
+   */
+  private async loadPatientRecordMedications(patientId: string): Promise<IReconciliationMedication[]> {
+    const patient = await Patient.findById(patientId);
+    if (!patient) {
+      throw new MedicationReconciliationError(`Patient ${patientId} not found`, 'PATIENT_NOT_FOUND');
+    }
+
+    const now = new Date();
+    return (patient.medications || [])
+      .filter((med: IPatient['medications'][number]) => !med.endDate || med.endDate > now)
+      .map((med: IPatient['medications'][number]) => ({
+        name: med.name,
+        dosage: med.dosage,
+        frequency: med.frequency,
+        source: 'patient_record' as const,
+        startDate: med.startDate
+      }));
+  }
+
+  /**
+   * Load active medication orders from the patient's prescriptions
+   */
+  private async loadActiveOrders(patientId: string): Promise<IReconciliationMedication[]> {
+    const prescriptions = await prisma.prescription.findMany({
+      where: { patientId },
+      include: { medications: true }
+    });
+
+    const now = Date.now();
+    const orders: IReconciliationMedication[] = [];
+
+    for (const prescription of prescriptions) {
+      for (const med of prescription.medications) {
+        const endsAt = med.duration ? new Date(prescription.createdAt).getTime() + med.duration * 86400000 : undefined;
+        if (endsAt !== undefined && endsAt < now) continue;
+
+        orders.push({
+          name: med.name,
+          dosage: med.dosage,
+          frequency: med.frequency,
+          source: 'prescription',
+          sourceId: med.id,
+          startDate: prescription.createdAt
+        });
+      }
+    }
+
+    return orders;
+  }
+
+  /**
+   * Load the patient's active medication schedules from the adherence service
+   */
+  private async loadAdherenceSchedules(patientId: string): Promise<ReconciliationScheduleInput[]> {
+    const adherenceService = MedicationAdherenceService.getInstance(
+      MedicationScheduleModel,
+      MedicationEventModel,
+      AdherenceAlertModel
+    );
+    return adherenceService.getPatientMedicationSchedules(new mongoose.Types.ObjectId(patientId));
+  }
+
+  /**
+   * Convert adherence schedules into home list entries
+   */
+  private fromAdherenceSchedules(schedules: ReconciliationScheduleInput[]): IReconciliationMedication[] {
+    return schedules
+      .filter(schedule => schedule.active !== false)
+      .map(schedule => ({
+        name: schedule.medicationName,
+        dosage: schedule.dosage,
+        frequency: schedule.frequency,
+        source: 'adherence_schedule' as const,
+        sourceId: schedule._id ? String(schedule._id) : undefined
+      }));
+  }
+
+  /**
+   * Describe dose, frequency and route differences between two entries
+   */
+  private describeChanges(before: IReconciliationMedication, after: IReconciliationMedication): string[] {
+    const changes: string[] = [];
+
+    if (!this.sameDose(before.dosage, after.dosage)) {
+      changes.push(`dose ${before.dosage || 'unspecified'} → ${after.dosage || 'unspecified'}`);
+    }
+    if (!this.sameFrequency(before.frequency, after.frequency)) {
+      changes.push(`frequency ${before.frequency || 'unspecified'} → ${after.frequency || 'unspecified'}`);
+    }
+    if (before.route && after.route && before.route.toLowerCase() !== after.route.toLowerCase()) {
+      changes.push(`route ${before.route} → ${after.route}`);
+    }
+
+    return changes;
+  }
+
+  private sameDose(a: string, b: string): boolean {
+    const parsedA = medicationAnalyzer.parseDosage(a);
+    const parsedB = medicationAnalyzer.parseDosage(b);
+    if (parsedA.isValid && parsedB.isValid) {
+      return parsedA.value === parsedB.value && parsedA.unit === parsedB.unit;
+    }
+    return this.normalizeText(a) === this.normalizeText(b);
+  }
+
+  private sameFrequency(a: string, b: string): boolean {
+    const intervalA = a ? doseAdjustmentEngine.frequencyToIntervalHours(a) : undefined;
+    const intervalB = b ? doseAdjustmentEngine.frequencyToIntervalHours(b) : undefined;
+    if (intervalA !== undefined && intervalB !== undefined) {
+      return intervalA === intervalB;
+    }
+    return this.normalizeText(a) === this.normalizeText(b);
+  }
+
+  /**
+   * Normalize a medication name for matching, ignoring strength and dosage form
+   */
+  private normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/\(.*?\)/g, ' ')
+      .split(/[^a-z0-9-]+/)
+      .filter(token => token && !/\d/.test(token) && !FORM_WORDS.has(token))
+      .join(' ');
+  }
+
+  private normalizeText(value?: string): string {
+    return (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  private createLine(
+    index: number,
+    category: IReconciliationLine['category'],
+    medicationName: string,
+    details: Partial<IReconciliationLine>
+  ): IReconciliationLine {
+    return {
+      lineId: String(index + 1),
+      category,
+      medicationName,
+      changes: [],
+      decision: 'pending',
+      ...details
+    };
+  }
+
+  /**
+   * Get a reconciliation that can still be changed
+   */
+  private async getEditable(reconciliationId: string): Promise<IMedicationReconciliation> {
+    const reconciliation = await this.getReconciliation(reconciliationId);
+    if (reconciliation.status === 'completed') {
+      throw new MedicationReconciliationError(
+        `Reconciliation ${reconciliationId} has been signed and cannot be changed`,
+        'RECONCILIATION_SIGNED'
+      );
+    }
+    return reconciliation;
+  }
+
+  /**
+   * HMAC of the signed content keyed by the server's signing secret, so a signature cannot
+   * be recomputed by anyone able to edit the stored record
+   */
+  private computeSignature(reconciliation: IMedicationReconciliation): string {
+    const payload = JSON.stringify({
+      id: reconciliation.id,
+      patientId: reconciliation.patientId,
+      encounterType: reconciliation.encounterType,
+      lines: reconciliation.lines.map(line => ({
+        lineId: line.lineId,
+        category: line.category,
+        medicationName: line.medicationName,
+        decision: line.decision,
+        decisionComment: line.decisionComment,
+        decidedBy: line.decidedBy
+      })),
+      signedBy: reconciliation.signedBy,
+      signedAt: reconciliation.signedAt?.toISOString()
+    });
+
+    return crypto.createHmac('sha256', this.signingSecret()).update(payload).digest('hex');
+  }
+
+  private signingSecret(): string {
+    const secret = process.env.RECONCILIATION_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new MedicationReconciliationError('Reconciliation signing secret is not configured', 'SIGNING_NOT_CONFIGURED');
+    }
+    return secret;
+  }
+
+  /**
+   * Write an audit entry; failures are logged but do not block the clinical workflow
+   */
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const medicationReconciliationService = MedicationReconciliationService.getInstance();
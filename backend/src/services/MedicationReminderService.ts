@@ -0,0 +1,452 @@
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import { Patient, IPatient } from '../models/Patient';
+import { MedicationReminder, IMedicationReminder, IReminderDelivery } from '../models/MedicationReminder';
+import { PushSubscription, IPushSubscription } from '../models/PushSubscription';
+import { MedicationAdherenceService, PatientMedicationSchedule } from './MedicationAdherenceService';
+import reminderScheduleCalculator from '../utils/reminderSchedule';
+import webPushSender, { VapidDetails, WebPushOptions, WebPushResult, WebPushSubscription } from '../utils/webPush';
+
+/**
+ * Error raised when a reminder action cannot be applied
+ */
+export class MedicationReminderError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'MedicationReminderError';
+    this.code = code;
+  }
+}
+
+/**
+ * Notification delivery as provided by NotificationService
+ */
+export interface ReminderNotifier {
+  sendNotification(userId: string, notification: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * Web Push delivery as provided by WebPushSender
+ */
+export interface ReminderPushSender {
+  send(subscription: WebPushSubscription, payload: string, vapid: VapidDetails, options?: WebPushOptions): Promise<WebPushResult>;
+}
+
+export type ReminderAction = 'taken' | 'skipped' | 'snooze';
+
+/**
+ * Scheduler timing and limits
+ */
+export interface ReminderSettings {
+  tickIntervalMs: number;
+  lookaheadHours: number; // how far ahead reminders are planned
+  expireAfterMinutes: number; // unanswered reminders close this long after they are due
+  lateAfterMinutes: number; // doses taken later than this are recorded as delayed
+  defaultSnoozeMinutes: number;
+  maxSnoozes: number;
+  defaultTimeZone: string; // for schedules without a valid zone
+}
+
+/**
+ * Summary of one scheduler pass
+ */
+export interface ReminderRun {
+  asOf: Date;
+  planned: number;
+  sent: number;
+  expired: number;
+}
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  tickIntervalMs: 60 * 1000,
+  lookaheadHours: 24,
+  expireAfterMinutes: 120,
+  lateAfterMinutes: 60,
+  defaultSnoozeMinutes: 10,
+  maxSnoozes: 3,
+  defaultTimeZone: process.env.REMINDER_DEFAULT_TIMEZONE || 'UTC'
+};
+
+// Wait before retrying a reminder that no channel accepted
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const OPEN_STATUSES = ['pending', 'sent', 'snoozed'];
+
+/**
+ * Plans reminders from active medication schedules in each patient's time zone, delivers them
+ * over WebSocket notifications and Web Push when due, and writes the patient's response back
+ * as a medication event
+ */
+export class MedicationReminderService {
+  private static instance: MedicationReminderService;
+  private settings: ReminderSettings;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private adherenceService: MedicationAdherenceService,
+    private notifier: ReminderNotifier,
+    private pushSender: ReminderPushSender = webPushSender,
+    settings: Partial<ReminderSettings> = {}
+  ) {
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  /**
+   * Get singleton instance. Dependencies are required on first use, which happens when
+   * the scheduler is started.
+   */
+  public static getInstance(
+    adherenceService?: MedicationAdherenceService,
+    notifier?: ReminderNotifier,
+    pushSender?: ReminderPushSender,
+    settings: Partial<ReminderSettings> = {}
+  ): MedicationReminderService {
+    if (!MedicationReminderService.instance) {
+      if (!adherenceService || !notifier) {
+        throw new MedicationReminderError('Medication reminders have not been initialized', 'NOT_INITIALIZED');
+      }
+      MedicationReminderService.instance = new MedicationReminderService(adherenceService, notifier, pushSender, settings);
+    }
+    return MedicationReminderService.instance;
+  }
+
+  /**
+   * Start planning and sending reminders on an interval
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.settings.tickIntervalMs);
+    this.tick();
+    logger.info('Medication reminder scheduler started');
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * One scheduler pass: plan upcoming reminders, expire unanswered ones and send those due.
+   * Passes do not overlap.
+   */
+  async tick(asOf: Date = new Date()): Promise<ReminderRun | undefined> {
+    if (this.running) return undefined;
+    this.running = true;
+    try {
+      const planned = await this.planReminders(asOf);
+      const expired = await this.expireReminders(asOf);
+      const sent = await this.sendDueReminders(asOf);
+      if (planned || sent || expired) {
+        logger.info(`Medication reminders: ${planned} planned, ${sent} sent, ${expired} expired`);
+      }
+      return { asOf, planned, sent, expired };
+    } catch (error) {
+      logger.error(`Medication reminder pass failed: ${error}`);
+      return undefined;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Create reminders for doses due within the lookahead window and drop pending reminders
+   * that no longer match their schedule
+   */
+  async planReminders(asOf: Date = new Date()): Promise<number> {
+    const until = new Date(asOf.getTime() + this.settings.lookaheadHours * 60 * 60 * 1000);
+    const schedules = await this.adherenceService.getActiveSchedules();
+    const patients = await Patient.find({ _id: { $in: schedules.map(schedule => schedule.patientId) } }).select('userId');
+    const userIds = new Map<string, string | undefined>(
+      patients.map((patient: IPatient) => [patient._id.toString(), patient.userId?.toString()])
+    );
+
+    await MedicationReminder.deleteMany({
+      status: 'pending',
+      scheduledFor: { $gt: asOf },
+      scheduleId: { $nin: schedules.map(schedule => schedule._id) }
+    });
+
+    let planned = 0;
+    for (const schedule of schedules) {
+      const userId = userIds.get(schedule.patientId.toString());
+      if (!userId) continue;
+
+      try {
+        planned += await this.planSchedule(schedule, userId, asOf, until);
+      } catch (error) {
+        logger.error(`Failed to plan reminders for schedule ${schedule._id}: ${error}`);
+      }
+    }
+    return planned;
+  }
+
+  /**
+   * Apply the patient's response to a reminder and record it as a medication event
+   */
+  async respond(
+    reminderId: string,
+    userId: string,
+    action: ReminderAction,
+    options: { snoozeMinutes?: number; reason?: string } = {},
+    asOf: Date = new Date()
+  ): Promise<IMedicationReminder> {
+    const reminder = mongoose.Types.ObjectId.isValid(reminderId) ? await MedicationReminder.findById(reminderId) : null;
+    if (!reminder || reminder.userId.toString() !== userId) {
+      throw new MedicationReminderError(`Reminder ${reminderId} not found`, 'REMINDER_NOT_FOUND');
+    }
+    if (!OPEN_STATUSES.includes(reminder.status)) {
+      throw new MedicationReminderError(`Reminder is already ${reminder.status}`, 'REMINDER_CLOSED');
+    }
+
+    const event = {
+      patientId: reminder.patientId,
+      medicationId: reminder.medicationId,
+      scheduleId: reminder.scheduleId,
+      scheduledFor: reminder.scheduledFor,
+      reason: options.reason
+    };
+
+    if (action === 'snooze') {
+      if (reminder.snoozeCount >= this.settings.maxSnoozes) {
+        throw new MedicationReminderError(`Reminders can be snoozed at most ${this.settings.maxSnoozes} times`, 'SNOOZE_LIMIT');
+      }
+      const snoozedUntil = new Date(asOf.getTime() + (options.snoozeMinutes || this.settings.defaultSnoozeMinutes) * 60 * 1000);
+      await this.adherenceService.recordMedicationEvent({ ...event, taken: false, skipped: false, delayed: true, snoozedUntil });
+      reminder.status = 'snoozed';
+      reminder.dueAt = snoozedUntil;
+      reminder.snoozeCount += 1;
+    } else {
+      const late = asOf.getTime() - reminder.scheduledFor.getTime() > this.settings.lateAfterMinutes * 60 * 1000;
+      await this.adherenceService.recordMedicationEvent({
+        ...event,
+        taken: action === 'taken',
+        skipped: action === 'skipped',
+        delayed: action === 'taken' && late
+      });
+      reminder.status = action;
+      reminder.respondedAt = asOf;
+    }
+
+    await reminder.save();
+    logger.info(`Reminder ${reminderId} for medication ${reminder.medicationId} marked ${reminder.status}`);
+    return reminder;
+  }
+
+  /**
+   * Open reminders for a user due within the next hours, including recently missed ones
+   */
+  async getUpcomingReminders(userId: string, hours: number = 24, asOf: Date = new Date()): Promise<IMedicationReminder[]> {
+    return MedicationReminder.find({
+      userId,
+      status: { $in: OPEN_STATUSES },
+      scheduledFor: {
+        $gte: new Date(asOf.getTime() - this.settings.expireAfterMinutes * 60 * 1000),
+        $lte: new Date(asOf.getTime() + hours * 60 * 60 * 1000)
+      }
+    }).sort({ scheduledFor: 1 });
+  }
+
+  /**
+   * Register or refresh a browser push subscription for a user
+   */
+  async subscribe(userId: string, subscription: WebPushSubscription, userAgent?: string): Promise<IPushSubscription> {
+    const saved = await PushSubscription.findOneAndUpdate(
+      { endpoint: subscription.endpoint },
+      { userId, keys: subscription.keys, userAgent, failureCount: 0 },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    logger.info(`Registered push subscription for user ${userId}`);
+    return saved as IPushSubscription;
+  }
+
+  /**
+   * Remove a user's push subscription
+   */
+  async unsubscribe(userId: string, endpoint: string): Promise<boolean> {
+    const result = await PushSubscription.deleteOne({ userId, endpoint });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Public key browsers need to subscribe, when Web Push is configured
+   */
+  getVapidPublicKey(): string | undefined {
+    return this.vapidDetails()?.publicKey;
+  }
+
+  private async planSchedule(schedule: PatientMedicationSchedule, userId: string, asOf: Date, until: Date): Promise<number> {
+    const timeZone = schedule.timeZone && reminderScheduleCalculator.isValidTimeZone(schedule.timeZone)
+      ? schedule.timeZone
+      : this.settings.defaultTimeZone;
+    const occurrences = reminderScheduleCalculator.occurrences(
+      {
+        sig: schedule.sig,
+        timeOfDay: schedule.timeOfDay,
+        startDate: new Date(schedule.startDate),
+        endDate: schedule.endDate ? new Date(schedule.endDate) : undefined,
+        timeZone
+      },
+      asOf,
+      until
+    );
+
+    // Times or zone may have changed since the pending reminders were planned
+    await MedicationReminder.deleteMany({
+      scheduleId: schedule._id,
+      status: 'pending',
+      scheduledFor: { $gt: asOf, $nin: occurrences.map(occurrence => occurrence.scheduledFor) }
+    });
+
+    let planned = 0;
+    for (const occurrence of occurrences) {
+      const result = await MedicationReminder.updateOne(
+        { scheduleId: schedule._id, scheduledFor: occurrence.scheduledFor },
+        {
+          $setOnInsert: {
+            patientId: schedule.patientId,
+            userId,
+            medicationId: schedule.medicationId,
+            medicationName: schedule.medicationName,
+            dosage: schedule.dosage,
+            instructions: schedule.instructions,
+            localDate: occurrence.localDate,
+            localTime: occurrence.localTime,
+            timeZone,
+            status: 'pending',
+            dueAt: occurrence.scheduledFor
+          }
+        },
+        { upsert: true }
+      );
+      planned += result.upsertedCount;
+    }
+    return planned;
+  }
+
+  private async expireReminders(asOf: Date): Promise<number> {
+    const result = await MedicationReminder.updateMany(
+      {
+        status: { $in: OPEN_STATUSES },
+        dueAt: { $lte: new Date(asOf.getTime() - this.settings.expireAfterMinutes * 60 * 1000) }
+      },
+      { status: 'expired' }
+    );
+    return result.modifiedCount;
+  }
+
+  private async sendDueReminders(asOf: Date): Promise<number> {
+    const due = await MedicationReminder.find({
+      status: { $in: ['pending', 'snoozed'] },
+      dueAt: { $lte: asOf }
+    }).sort({ dueAt: 1 });
+
+    let sent = 0;
+    for (const reminder of due) {
+      const deliveries = await this.deliver(reminder, asOf);
+      reminder.deliveries.push(...deliveries);
+      if (deliveries.some(delivery => delivery.outcome === 'sent')) {
+        reminder.status = 'sent';
+        reminder.lastSentAt = asOf;
+        sent++;
+      } else {
+        reminder.dueAt = new Date(asOf.getTime() + RETRY_DELAY_MS);
+      }
+      await reminder.save();
+    }
+    return sent;
+  }
+
+  private async deliver(reminder: IMedicationReminder, asOf: Date): Promise<IReminderDelivery[]> {
+    const userId = reminder.userId.toString();
+    const title = reminder.snoozeCount > 0 ? 'Medication reminder (snoozed)' : 'Medication reminder';
+    const message = `Time to take ${reminder.medicationName} (${reminder.dosage})` +
+      (reminder.instructions ? `. ${reminder.instructions}` : '');
+    const data = {
+      reminderId: reminder._id.toString(),
+      medicationId: reminder.medicationId.toString(),
+      scheduledFor: reminder.scheduledFor.toISOString(),
+      localTime: reminder.localTime,
+      actions: ['taken', 'snooze', 'skipped']
+    };
+
+    const deliveries: IReminderDelivery[] = [];
+    try {
+      await this.notifier.sendNotification(userId, {
+        type: 'medication_reminder',
+        category: 'reminders',
+        group: 'medication_reminders',
+        priority: 'high',
+        title,
+        message,
+        data
+      });
+      deliveries.push({ channel: 'websocket', outcome: 'sent', deliveredAt: asOf });
+    } catch (error) {
+      logger.error(`Failed to send reminder ${reminder._id} notification: ${error}`);
+      deliveries.push({ channel: 'websocket', outcome: 'failed', detail: String(error), deliveredAt: asOf });
+    }
+
+    deliveries.push(await this.sendPush(userId, JSON.stringify({ type: 'medication_reminder', title, body: message, ...data }), asOf));
+    return deliveries;
+  }
+
+  private async sendPush(userId: string, payload: string, asOf: Date): Promise<IReminderDelivery> {
+    const vapid = this.vapidDetails();
+    if (!vapid) {
+      return { channel: 'web_push', outcome: 'skipped', detail: 'Web Push is not configured', deliveredAt: asOf };
+    }
+
+    const subscriptions = await PushSubscription.find({ userId });
+    if (subscriptions.length === 0) {
+      return { channel: 'web_push', outcome: 'skipped', detail: 'No push subscriptions', deliveredAt: asOf };
+    }
+
+    let delivered = 0;
+    for (const subscription of subscriptions) {
+      try {
+        const result = await this.pushSender.send(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          payload,
+          vapid,
+          { urgency: 'high', ttlSeconds: this.settings.expireAfterMinutes * 60 }
+        );
+
+        if (result.expired) {
+          await PushSubscription.deleteOne({ _id: subscription._id });
+        } else if (result.statusCode >= 200 && result.statusCode < 300) {
+          subscription.lastSuccessAt = asOf;
+          subscription.failureCount = 0;
+          await subscription.save();
+          delivered++;
+        } else {
+          throw new Error(`Push service responded ${result.statusCode}`);
+        }
+      } catch (error) {
+        logger.warn(`Web Push to user ${userId} failed: ${error}`);
+        subscription.failureCount += 1;
+        await subscription.save();
+      }
+    }
+
+    return delivered > 0
+      ? { channel: 'web_push', outcome: 'sent', detail: `${delivered} of ${subscriptions.length} devices`, deliveredAt: asOf }
+      : { channel: 'web_push', outcome: 'failed', detail: 'No device accepted the push', deliveredAt: asOf };
+  }
+
+  private vapidDetails(): VapidDetails | undefined {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    return VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY && VAPID_SUBJECT
+      ? { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY, subject: VAPID_SUBJECT }
+      : undefined;
+  }
+}
+
+export default MedicationReminderService;
@@ -5,9 +5,18 @@ import { MedicationRepository } from '../repositories/MedicationRepository';
 import { PrescriptionSuggestion, PrescriptionStatus } from './ai/PrescriptionSuggestionService';
 import { DrugInteractionService } from './ai/DrugInteractionService';
 import { InteractionSeverity, DrugInteractionRisk } from './ai/PrescriptionSuggestionService';
-import { PatientRepository } from '../repositories/PatientRepository';
 import User, { IUser } from '../models/User';
+import { Patient, IPatient } from '../models/Patient';
 import { IMedication } from '../models/Medication';
+import AuditLog from '../models/AuditLog';
+import drugClassRules, { AllergyMatch, ClassifiableMedication, DuplicationMatch } from '../utils/drugClassRules';
+import geriatricRegimenReviewer, { GeriatricRegimenReview, SingleDrugBeersFlag } from '../utils/geriatricRegimenReview';
+import pdfReportRenderer, { PdfReportSection } from '../utils/pdfReport';
+import signalDetector, { DrugEventStatistics } from '../utils/signalDetection';
+import pharmacogenomicRules, { PgxMatch, PgxResult } from '../utils/pharmacogenomics';
+
+// Age from which safety reports include the whole-regimen geriatric review
+const GERIATRIC_AGE = 65;
 
 /**
  * Types of medication safety issues that can be reported
@@ -132,6 +141,7 @@ export interface MedicationSafetyReport {
     severity: string;
   }[];
   recommendations: string[];
+  geriatricReview?: GeriatricRegimenReview; // patients aged 65 and over
 }
 
 /**
@@ -142,7 +152,9 @@ export enum AlertType {
   CONTRAINDICATION = 'CONTRAINDICATION',
   DOSAGE_ISSUE = 'DOSAGE_ISSUE',
   ALLERGY_DETECTED = 'ALLERGY_DETECTED',
-  BLACK_BOX_WARNING = 'BLACK_BOX_WARNING'
+  BLACK_BOX_WARNING = 'BLACK_BOX_WARNING',
+  THERAPEUTIC_DUPLICATION = 'THERAPEUTIC_DUPLICATION',
+  PHARMACOGENOMIC = 'PHARMACOGENOMIC'
 }
 
 /**
@@ -156,6 +168,9 @@ export interface SafetyAlert {
   patientId?: string;
   recommendedAction?: string;
   timestamp: Date;
+  overrideReason?: string;
+  overriddenBy?: string;
+  overriddenAt?: Date;
 }
 
 /**
@@ -168,12 +183,10 @@ export class MedicationSafetyMonitor {
   private initialized = false;
   private readonly CACHE_TTL = 86400; // 24 hours
   private medicationRepo: MedicationRepository;
-  private patientRepo: PatientRepository;
   private interactionService: DrugInteractionService;
 
   private constructor() {
     this.medicationRepo = MedicationRepository.getInstance();
-    this.patientRepo = PatientRepository.getInstance();
     this.interactionService = DrugInteractionService.getInstance();
   }
 
@@ -330,12 +343,25 @@ export class MedicationSafetyMonitor {
   }
 
   /**
-   * Check if a prescription has potential safety issues
+   * Check if a prescription has potential safety issues and link it to the related issues
    */
   public async evaluatePrescriptionSafety(
     prescriptionId: string,
     medications: string[],
     patientId: string
+  ): Promise<{ isSafe: boolean; warnings: string[]; relatedIssues: SafetyIssueReport[] }> {
+    const result = await this.reviewPrescriptionSafety(medications, patientId);
+    await this.linkPrescriptionToIssues(prescriptionId, result.relatedIssues);
+    return result;
+  }
+
+  /**
+   * Check medications about to be prescribed for potential safety issues without linking
+   * them to a prescription, for callers that may still decide not to prescribe
+   */
+  public async reviewPrescriptionSafety(
+    medications: string[],
+    patientId: string
   ): Promise<{ isSafe: boolean; warnings: string[]; relatedIssues: SafetyIssueReport[] }> {
     await this.ensureInitialized();
     
@@ -386,9 +412,19 @@ export class MedicationSafetyMonitor {
       }
     }
     
-    // Add prescription ID to related issues
+    return {
+      isSafe: warnings.length === 0,
+      warnings,
+      relatedIssues
+    };
+  }
+
+  /**
+   * Add a prescription ID to the safety issues it was prescribed against
+   */
+  public async linkPrescriptionToIssues(prescriptionId: string, issues: SafetyIssueReport[]): Promise<void> {
     await Promise.all(
-      relatedIssues.map(issue => {
+      issues.map(issue => {
         if (!issue.relatedPrescriptionIds) {
           issue.relatedPrescriptionIds = [prescriptionId];
         } else if (!issue.relatedPrescriptionIds.includes(prescriptionId)) {
@@ -397,12 +433,6 @@ export class MedicationSafetyMonitor {
         return this.updateIssueStatus(issue.id, issue.status, issue.resolution);
       })
     );
-    
-    return {
-      isSafe: warnings.length === 0,
-      warnings,
-      relatedIssues
-    };
   }
 
   /**
@@ -488,6 +518,7 @@ export class MedicationSafetyMonitor {
     issuesBySeverity: Record<IssueSeverity, number>;
     medicationsWithMostIssues: Array<{ medication: string; count: number }>;
     resolvedIssueRate: number;
+    signals: DrugEventStatistics[];
   }> {
     await this.ensureInitialized();
     
@@ -535,12 +566,26 @@ export class MedicationSafetyMonitor {
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
     
+    // Drug–event pairs reported disproportionately often in the period
+    const signals = signalDetector
+      .computeDisproportionality(
+        issues
+          .filter(issue => issue.status !== IssueStatus.DISMISSED)
+          .map(issue => ({
+            medications: issue.medications,
+            events: issue.symptoms && issue.symptoms.length > 0 ? issue.symptoms : [issue.issueType],
+            reportDate: issue.reportDate
+          }))
+      )
+      .filter(stats => stats.isSignal);
+    
     return {
       totalIssues: issues.length,
       issuesByType,
       issuesBySeverity,
       medicationsWithMostIssues,
-      resolvedIssueRate: issues.length > 0 ? (resolvedCount / issues.length) * 100 : 0
+      resolvedIssueRate: issues.length > 0 ? (resolvedCount / issues.length) * 100 : 0,
+      signals
     };
   }
 
@@ -758,35 +803,50 @@ export class MedicationSafetyMonitor {
   }
 
   /**
-   * Check for allergies to medications
+   * Check for allergies to medications, including same-class and cross-sensitivity
+   * matches resolved through the medication's drug classes
    */
   private async checkAllergies(medicationIds: string[], allergies: string[]): Promise<SafetyAlert[]> {
     const alerts: SafetyAlert[] = [];
-    const normalizedAllergies = allergies.map(a => a.toLowerCase().trim());
 
     for (const id of medicationIds) {
       const medication = await this.medicationRepo.getMedicationById(id);
       if (!medication) continue;
 
-      // Check if medication name or generic name is in allergies
-      const medName = medication.name.toLowerCase();
-      const genericName = medication.genericName?.toLowerCase() || '';
-      
-      const allergyMatch = normalizedAllergies.find(
-        allergy => medName.includes(allergy) || genericName.includes(allergy) ||
-        // Also check if this medication is in the same class as an allergy
-        (medication.drugClass && medication.drugClass.some((cls: string) => 
-          cls.toLowerCase().includes(allergy)
-        ))
-      );
-      
-      if (allergyMatch) {
+      for (const match of drugClassRules.matchAllergies(medication, allergies)) {
         alerts.push({
           type: AlertType.ALLERGY_DETECTED,
-          severity: InteractionSeverity.HIGH,
-          message: `Patient has a documented allergy to ${allergyMatch}, which may affect ${medication.name}`,
+          severity: match.severity,
+          message: this.getAllergyAlertMessage(match, medication.name),
+          medications: [id],
+          recommendedAction: match.recommendation,
+          timestamp: new Date()
+        });
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Check medications against CPIC-style gene-drug rules for the patient's genotype
+   */
+  private async checkPharmacogenomics(medicationIds: string[], results: PgxResult[]): Promise<SafetyAlert[]> {
+    const alerts: SafetyAlert[] = [];
+
+    for (const id of medicationIds) {
+      const medication = await this.medicationRepo.getMedicationById(id);
+      if (!medication) continue;
+
+      for (const match of pharmacogenomicRules.findMatches(medication, results)) {
+        alerts.push({
+          type: AlertType.PHARMACOGENOMIC,
+          severity: match.severity,
+          message: this.getPharmacogenomicAlertMessage(match, medication.name),
           medications: [id],
-          recommendedAction: `Consider alternative medication. Verify with patient if this is a true allergy or intolerance.`,
+          recommendedAction: match.alternatives.length > 0
+            ? `${match.recommendation}. Alternatives: ${match.alternatives.join(', ')} (${match.guideline})`
+            : `${match.recommendation} (${match.guideline})`,
           timestamp: new Date()
         });
       }
@@ -796,7 +856,19 @@ export class MedicationSafetyMonitor {
   }
 
   /**
-   * Check for contraindications based on patient conditions
+   * Pharmacogenomic results on the patient's record
+   */
+  private async getPharmacogenomicResults(patientId: string): Promise<PgxResult[]> {
+    if (!mongoose.Types.ObjectId.isValid(patientId)) {
+      return [];
+    }
+    const patient = await Patient.findById(patientId).select('pharmacogenomics').lean();
+    return patient?.pharmacogenomics || [];
+  }
+
+  /**
+   * Check for contraindications based on patient conditions, using both the
+   * medication's listed contraindications and condition-to-class rules
    */
   private async checkContraindications(medicationIds: string[], conditions: string[]): Promise<SafetyAlert[]> {
     const alerts: SafetyAlert[] = [];
@@ -804,15 +876,18 @@ export class MedicationSafetyMonitor {
 
     for (const id of medicationIds) {
       const medication = await this.medicationRepo.getMedicationById(id);
-      if (!medication || !medication.contraindications) continue;
+      if (!medication) continue;
+
+      const flaggedConditions = new Set<string>();
 
-      for (const contraindication of medication.contraindications) {
+      for (const contraindication of medication.contraindications || []) {
         const condition = contraindication.toLowerCase();
         
         // Check if any patient condition matches this contraindication
         const match = normalizedConditions.find(c => condition.includes(c) || c.includes(condition));
         
-        if (match) {
+        if (match && !flaggedConditions.has(match)) {
+          flaggedConditions.add(match);
           alerts.push({
             type: AlertType.CONTRAINDICATION,
             severity: InteractionSeverity.HIGH,
@@ -823,6 +898,19 @@ export class MedicationSafetyMonitor {
           });
         }
       }
+
+      for (const match of drugClassRules.matchContraindications(medication, conditions)) {
+        if (flaggedConditions.has(match.condition)) continue;
+
+        alerts.push({
+          type: AlertType.CONTRAINDICATION,
+          severity: match.severity,
+          message: `${medication.name} (${drugClassRules.labelFor(match.drugClass)}) in a patient with ${match.condition}: ${match.reason}`,
+          medications: [id],
+          recommendedAction: match.recommendation,
+          timestamp: new Date()
+        });
+      }
     }
 
     return alerts;
@@ -851,10 +939,135 @@ export class MedicationSafetyMonitor {
     return alerts;
   }
 
+  /**
+   * Check for therapeutic duplication (same ingredient or same drug class) between medications
+   */
+  private async checkTherapeuticDuplication(medicationIds: string[]): Promise<SafetyAlert[]> {
+    const medications: IMedication[] = [];
+
+    for (const id of medicationIds) {
+      const medication = await this.medicationRepo.getMedicationById(id);
+      if (medication) {
+        medications.push(medication);
+      }
+    }
+
+    return drugClassRules.matchDuplications(medications).map(match =>
+      this.createDuplicationAlert(match, medications, medication => medication._id.toString())
+    );
+  }
+
+  /**
+   * Check newly prescribed medications, given by name, for duplication against each other and
+   * against the patient's active medications. Alerts list medication names as prescribed.
+   * An active medication with the same ingredients as a new one is a continuation or renewal
+   * of that drug, not a duplicate, and is left out.
+   */
+  public async checkDuplicationByName(
+    medicationNames: string[],
+    activeMedicationNames: string[] = []
+  ): Promise<SafetyAlert[]> {
+    try {
+      const medications: ClassifiableMedication[] = [];
+      for (const name of [...medicationNames, ...activeMedicationNames]) {
+        const [details] = await this.medicationRepo.getMedicationsByName(name).catch(() => []);
+        const medication = { name, genericName: details?.genericName, drugClass: details?.drugClass };
+        if (medications.length >= medicationNames.length && this.isContinuation(medication, medications.slice(0, medicationNames.length))) {
+          continue;
+        }
+        medications.push(medication);
+      }
+
+      return drugClassRules
+        .matchDuplications(medications)
+        .filter(match => match.indices.some(index => index < medicationNames.length))
+        .map(match => this.createDuplicationAlert(match, medications, medication => medication.name));
+    } catch (error) {
+      logger.error(`Error checking therapeutic duplication: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Whether an active medication is the same drug as one being prescribed, compared by ingredients
+   */
+  private isContinuation(active: ClassifiableMedication, prescribed: ClassifiableMedication[]): boolean {
+    const ingredients = drugClassRules.getIngredients(active).sort().join('/');
+    return prescribed.some(medication => drugClassRules.getIngredients(medication).sort().join('/') === ingredients);
+  }
+
+  /**
+   * Record that a prescriber proceeded despite safety alerts. A reason is required.
+   */
+  public async overrideAlerts(
+    alerts: SafetyAlert[],
+    reason: string,
+    userId: string,
+    context: { patientId: string; prescriptionId?: string }
+  ): Promise<SafetyAlert[]> {
+    if (!reason || !reason.trim()) {
+      throw new Error('An override reason is required to proceed despite safety alerts');
+    }
+
+    const overriddenAt = new Date();
+    const overridden = alerts.map(alert => ({
+      ...alert,
+      patientId: alert.patientId || context.patientId,
+      overrideReason: reason.trim(),
+      overriddenBy: userId,
+      overriddenAt
+    }));
+
+    try {
+      await AuditLog.create({
+        userId,
+        action: 'safety_alert_overridden',
+        metadata: {
+          ...context,
+          reason: reason.trim(),
+          alerts: overridden.map(alert => ({ type: alert.type, severity: alert.severity, medications: alert.medications }))
+        },
+        timestamp: overriddenAt
+      });
+    } catch (error) {
+      logger.error(`Failed to write safety override audit entry: ${error}`, context);
+    }
+
+    overridden.forEach(alert => logger.warn(`MEDICATION SAFETY OVERRIDE: ${alert.type} - ${alert.message} (reason: ${alert.overrideReason})`));
+    return overridden;
+  }
+
+  /**
+   * Build a safety alert for a duplication match
+   */
+  private createDuplicationAlert<T extends ClassifiableMedication>(
+    match: DuplicationMatch,
+    medications: T[],
+    identify: (medication: T) => string
+  ): SafetyAlert {
+    const [first, second] = match.indices.map(index => medications[index]);
+    const reason = match.matchType === 'ingredient'
+      ? `both contain ${match.ingredient}`
+      : `both are ${drugClassRules.labelFor(match.drugClass as string)}`;
+
+    return {
+      type: AlertType.THERAPEUTIC_DUPLICATION,
+      severity: match.severity,
+      message: `Therapeutic duplication: ${first.name} and ${second.name} ${reason}`,
+      medications: [identify(first), identify(second)],
+      recommendedAction: match.recommendation,
+      timestamp: new Date()
+    };
+  }
+
   /**
    * Get a recommendation based on interaction severity
    */
   private getRecommendationForInteraction(risk: DrugInteractionRisk): string {
+    if (risk.management) {
+      return risk.management;
+    }
+
     switch (risk.severity) {
       case InteractionSeverity.HIGH:
         return `Avoid combination. Consider alternative medication.`;
@@ -865,6 +1078,46 @@ export class MedicationSafetyMonitor {
     }
   }
 
+  /**
+   * Build the alert message for an allergy match
+   */
+  private getAllergyAlertMessage(match: AllergyMatch, medicationName: string): string {
+    switch (match.matchType) {
+      case 'same_class':
+        return `Patient has a documented allergy to ${match.allergen}; ${medicationName} belongs to the same class (${drugClassRules.labelFor(match.drugClass as string)})`;
+      case 'cross_sensitivity':
+        return `Patient has a documented allergy to ${match.allergen}; ${medicationName} (${drugClassRules.labelFor(match.drugClass as string)}) carries a ${match.severity} cross-sensitivity risk (${match.estimatedRate})`;
+      default:
+        return `Patient has a documented allergy to ${match.allergen}, which may affect ${medicationName}`;
+    }
+  }
+
+  /**
+   * Build the alert message for a pharmacogenomic match
+   */
+  private getPharmacogenomicAlertMessage(match: PgxMatch, medicationName: string): string {
+    const diplotype = match.diplotype ? ` (${match.diplotype})` : '';
+    const phenotype = match.phenotype.replace(/_/g, ' ');
+    const genotype = match.phenotype === 'positive'
+      ? `Patient carries ${match.gene}`
+      : match.phenotype.endsWith('_metabolizer')
+        ? `Patient is a ${match.gene} ${phenotype}${diplotype}`
+        : `Patient has ${match.gene} ${phenotype}${diplotype}`;
+
+    switch (match.action) {
+      case 'avoid':
+        return `${genotype}; ${medicationName} should be avoided`;
+      case 'alternative':
+        return `${genotype}; an alternative to ${medicationName} is recommended`;
+      case 'reduce_dose':
+        return `${genotype}; ${medicationName} needs a reduced dose`;
+      case 'increase_dose':
+        return `${genotype}; ${medicationName} may need a higher dose`;
+      default:
+        return `${genotype}, which affects ${medicationName}`;
+    }
+  }
+
   /**
    * Log a safety alert to the system
    */
@@ -889,6 +1142,10 @@ export class MedicationSafetyMonitor {
       const interactionAlerts = await this.checkInteractions(medicationIds);
       alerts.push(...interactionAlerts);
 
+      // Check for duplicate ingredients and drug classes
+      const duplicationAlerts = await this.checkTherapeuticDuplication(medicationIds);
+      alerts.push(...duplicationAlerts);
+
       // If patient information is provided, perform additional checks
       if (patientId) {
         // Check for allergies
@@ -902,6 +1159,13 @@ export class MedicationSafetyMonitor {
           const contraindications = await this.checkContraindications(medicationIds, patientConditions);
           alerts.push(...contraindications);
         }
+
+        // Check gene-drug rules against the patient's pharmacogenomic results
+        const pgxResults = await this.getPharmacogenomicResults(patientId);
+        if (pgxResults.length > 0) {
+          const pgxAlerts = await this.checkPharmacogenomics(medicationIds, pgxResults);
+          alerts.push(...pgxAlerts);
+        }
       }
 
       // Check for black box warnings
@@ -921,14 +1185,14 @@ export class MedicationSafetyMonitor {
   async generatePatientSafetyReport(patientId: string): Promise<MedicationSafetyReport | null> {
     try {
       // Get patient's active medications
-      const patient = await this.patientRepo.getPatientById(patientId);
+      const patient = await Patient.findById(patientId);
       
       if (!patient) {
         logger.warn(`Patient not found: ${patientId}`);
         return null;
       }
       
-      const medications: PatientMedication[] = await this.getPatientMedications(patientId);
+      const medications: PatientMedication[] = this.getPatientMedications(patient);
       
       if (!medications.length) {
         return {
@@ -967,6 +1231,12 @@ export class MedicationSafetyMonitor {
         adherenceScore
       );
       
+      // Review the whole regimen for older adults
+      const age = patient.dateOfBirth ? this.calculateAge(patient.dateOfBirth) : undefined;
+      const geriatricReview = age !== undefined && age >= GERIATRIC_AGE
+        ? await this.reviewGeriatricRegimen(medications, age, patient.chronicConditions || [])
+        : undefined;
+      
       return {
         patientId,
         medications,
@@ -974,7 +1244,8 @@ export class MedicationSafetyMonitor {
         adherenceScore,
         interactionRisks,
         potentialAllergies,
-        recommendations
+        recommendations,
+        geriatricReview
       };
     } catch (error) {
       logger.error(`Error generating safety report: ${error}`);
@@ -982,11 +1253,133 @@ export class MedicationSafetyMonitor {
     }
   }
 
+  /**
+   * Render a patient's safety report, including the geriatric regimen review, as a PDF
+   */
+  async generatePatientSafetyReportPdf(patientId: string): Promise<Buffer | null> {
+    const report = await this.generatePatientSafetyReport(patientId);
+    if (!report) {
+      return null;
+    }
+
+    const sections: PdfReportSection[] = [
+      {
+        heading: 'Active medications',
+        lines: report.medications.length > 0
+          ? report.medications.map(med => `${med.name} ${med.dosage}, ${med.frequency}`)
+          : ['No active medications']
+      },
+      {
+        heading: 'Alerts',
+        lines: report.alerts.length > 0
+          ? report.alerts.map(alert => `[${alert.severity.toUpperCase()}] ${alert.medicationName}: ${alert.message}`)
+          : ['No active alerts']
+      }
+    ];
+
+    if (report.interactionRisks.length > 0) {
+      sections.push({
+        heading: 'Interaction risks',
+        lines: report.interactionRisks.map(risk => `[${risk.severity.toUpperCase()}] ${risk.medications.join(' + ')}: ${risk.description}`)
+      });
+    }
+
+    if (report.geriatricReview) {
+      sections.push(...this.geriatricReviewSections(report.geriatricReview));
+    }
+
+    if (report.recommendations.length > 0) {
+      sections.push({ heading: 'Recommendations', lines: report.recommendations.map(rec => `- ${rec}`) });
+    }
+
+    return pdfReportRenderer.render({
+      title: 'Medication Safety Report',
+      subtitle: `Patient ${patientId} - generated ${new Date().toISOString().slice(0, 10)} - adherence score ${report.adherenceScore}%`,
+      sections,
+      footer: 'Clinical decision support only; verify against the full patient record.'
+    });
+  }
+
+  /**
+   * Whole-regimen review with single-drug Beers flags from the medication repository
+   */
+  private async reviewGeriatricRegimen(
+    medications: PatientMedication[],
+    age: number,
+    conditions: string[]
+  ): Promise<GeriatricRegimenReview> {
+    const beersFlags: SingleDrugBeersFlag[] = [];
+    for (const med of medications) {
+      const beers = await this.medicationRepo.checkBeersCriteria(med.name);
+      if (beers?.isInappropriate) {
+        beersFlags.push({ medication: med.name, reason: beers.reason, recommendation: beers.recommendation });
+      }
+    }
+
+    return geriatricRegimenReviewer.review(medications, { age, conditions, beersFlags });
+  }
+
+  private geriatricReviewSections(review: GeriatricRegimenReview): PdfReportSection[] {
+    const contributors = (items: Array<{ medication: string; score: number }>) =>
+      items.map(item => `${item.medication} (${item.score})`).join(', ') || 'none';
+
+    return [
+      {
+        heading: 'Geriatric regimen review',
+        lines: [
+          `Medications: ${review.medicationCount}${review.polypharmacy ? ' (polypharmacy)' : ''}`,
+          `Anticholinergic burden: ${review.anticholinergicBurden.total} (${review.anticholinergicBurden.level}) - ${contributors(review.anticholinergicBurden.contributors)}`,
+          `Sedative load: ${review.sedativeLoad.total} - ${contributors(review.sedativeLoad.contributors)}`,
+          `Fall-risk-increasing drugs: ${review.fallRiskDrugs.count}` +
+            (review.fallRiskDrugs.count > 0
+              ? ` - ${review.fallRiskDrugs.medications.map(m => `${m.medication} (${m.categories.join(', ')})`).join('; ')}`
+              : '')
+        ]
+      },
+      {
+        heading: 'Beers Criteria findings',
+        lines: [
+          ...review.drugDrugPairs.map(f => `${f.medications.join(' + ')}: ${f.risk}. ${f.recommendation}.`),
+          ...review.drugDiseasePairs.map(f => `${f.medication} with ${f.condition}: ${f.risk}. ${f.recommendation}.`),
+          ...review.potentiallyInappropriate.map(f => `${f.medication}: ${f.reason || 'potentially inappropriate'}`)
+        ].concat(review.drugDrugPairs.length + review.drugDiseasePairs.length + review.potentiallyInappropriate.length === 0
+          ? ['No Beers Criteria findings']
+          : [])
+      },
+      {
+        heading: 'Deprescribing suggestions',
+        lines: review.deprescribingSuggestions.length > 0
+          ? review.deprescribingSuggestions.map(s => `[${s.priority.toUpperCase()}] ${s.medication}: ${s.action} (${s.rationale})`)
+          : ['No deprescribing suggestions']
+      }
+    ];
+  }
+
+  private calculateAge(dateOfBirth: Date): number {
+    const today = new Date();
+    const birth = new Date(dateOfBirth);
+    let age = today.getFullYear() - birth.getFullYear();
+    const monthDiff = today.getMonth() - birth.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+      age--;
+    }
+    return age;
+  }
+
   // Helper methods should remain intact
-  private async getPatientMedications(patientId: string): Promise<PatientMedication[]> {
-    // Implementation would be based on your actual data models
-    // This is a placeholder
-    return [];
+  private getPatientMedications(patient: IPatient): PatientMedication[] {
+    const now = new Date();
+    return (patient.medications || [])
+      .filter(med => !med.endDate || new Date(med.endDate) > now)
+      .map(med => ({
+        id: String((med as { _id?: unknown })._id ?? med.name),
+        name: med.name,
+        dosage: med.dosage,
+        frequency: med.frequency,
+        startDate: med.startDate,
+        endDate: med.endDate,
+        isActive: true
+      }));
   }
 
   private async checkMedicationInteractions(medications: PatientMedication[]): Promise<DrugInteractionRisk[]> {
@@ -2,6 +2,8 @@ import { IPatient } from '../models/Patient';
 import { MedicationRepository } from '../repositories/MedicationRepository';
 import logger from '../utils/logger';
 import { IMedication } from '../models/Medication';
+import pregnancyLactationRisk, { PregnancyLactationAssessment } from '../utils/pregnancyLactationRisk';
+import { InteractionSeverity } from '../types/medical';
 
 export interface SafetyCheckResult {
   isSafe: boolean;
@@ -9,10 +11,11 @@ export interface SafetyCheckResult {
 }
 
 export interface SafetyWarning {
-  type: 'ALLERGY' | 'INTERACTION' | 'CONTRAINDICATION' | 'PREGNANCY' | 'AGE_RESTRICTION' | 'OTHER';
+  type: 'ALLERGY' | 'INTERACTION' | 'CONTRAINDICATION' | 'PREGNANCY' | 'LACTATION' | 'AGE_RESTRICTION' | 'OTHER';
   severity: 'HIGH' | 'MEDIUM' | 'LOW';
   description: string;
   source?: string;
+  alternatives?: string[];
 }
 
 export interface PatientMedication {
@@ -36,6 +39,8 @@ export interface AdherenceData {
 // Extend IPatient interface with properties needed for safety checks
 interface PatientWithSafetyInfo extends IPatient {
   isPregnant?: boolean;
+  gestationalAgeWeeks?: number;
+  isBreastfeeding?: boolean;
   conditions?: string[];
 }
 
@@ -86,10 +91,10 @@ export class MedicationSafetyService {
       const contraindicationWarnings = this.checkContraindications(medication, patient);
       warnings.push(...contraindicationWarnings);
       
-      // Check for pregnancy safety
-      if (patient.isPregnant) {
-        const pregnancyWarnings = this.checkPregnancySafety(medication);
-        warnings.push(...pregnancyWarnings);
+      // Check for pregnancy and lactation safety
+      if (patient.isPregnant || patient.isBreastfeeding) {
+        const reproductiveWarnings = this.checkPregnancyLactationSafety(medication, patient);
+        warnings.push(...reproductiveWarnings);
       }
       
       // Check age restrictions
@@ -169,26 +174,48 @@ export class MedicationSafetyService {
     return warnings;
   }
   
-  private checkPregnancySafety(medication: IMedication): SafetyWarning[] {
+  private checkPregnancyLactationSafety(medication: IMedication, patient: PatientWithSafetyInfo): SafetyWarning[] {
     const warnings: SafetyWarning[] = [];
-    
-    // Pregnancy category D or X medications are not safe during pregnancy
-    if (medication.pregnancyCategory === 'D' || medication.pregnancyCategory === 'X') {
-      warnings.push({
-        type: 'PREGNANCY',
-        severity: 'HIGH',
-        description: `This medication has pregnancy category ${medication.pregnancyCategory} and may harm the fetus`
-      });
-    } else if (medication.pregnancyCategory === 'C') {
-      warnings.push({
-        type: 'PREGNANCY',
-        severity: 'MEDIUM',
-        description: `This medication has pregnancy category C and should be used with caution during pregnancy`
+
+    // Assessed separately so each warning carries its own severity
+    if (patient.isPregnant) {
+      const assessment = pregnancyLactationRisk.assess(medication, {
+        isPregnant: true,
+        gestationalAgeWeeks: patient.gestationalAgeWeeks
       });
+      const warning = this.toReproductiveWarning('PREGNANCY', assessment);
+      if (warning) warnings.push(warning);
     }
-    
+
+    if (patient.isBreastfeeding) {
+      const assessment = pregnancyLactationRisk.assess(medication, { isBreastfeeding: true });
+      const warning = this.toReproductiveWarning('LACTATION', assessment);
+      if (warning) warnings.push(warning);
+    }
+
     return warnings;
   }
+
+  private toReproductiveWarning(
+    type: 'PREGNANCY' | 'LACTATION',
+    assessment: PregnancyLactationAssessment
+  ): SafetyWarning | null {
+    if (!assessment.severity || assessment.warnings.length === 0) {
+      return null;
+    }
+
+    const severity = assessment.severity === InteractionSeverity.HIGH
+      ? 'HIGH'
+      : assessment.severity === InteractionSeverity.MEDIUM ? 'MEDIUM' : 'LOW';
+
+    return {
+      type,
+      severity,
+      description: assessment.warnings.join(' '),
+      source: assessment.source,
+      alternatives: assessment.saferAlternatives.length > 0 ? assessment.saferAlternatives : undefined
+    };
+  }
   
   private checkAgeRestrictions(medication: IMedication, dateOfBirth: Date): SafetyWarning[] {
     const warnings: SafetyWarning[] = [];
@@ -0,0 +1,466 @@
+import mongoose from 'mongoose';
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import OrderSet, { IOrderSet, IOrderSetItem, IOrderSetLab, IOrderSetTask } from '../models/OrderSet';
+import { TreatmentGuideline } from '../models/TreatmentGuideline';
+import Task from '../models/Task';
+import { medicationSafetyMonitor, SafetyIssueReport } from './MedicationSafetyMonitor';
+import { controlledSubstanceService, ReauthMethod } from './ControlledSubstanceService';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error raised for invalid order set operations
+ */
+export class OrderSetError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(message: string, code: string, details?: unknown) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Order set contents as supplied by clinicians
+ */
+export interface OrderSetInput {
+  name: string;
+  key?: string; // derived from the name when omitted
+  description?: string;
+  guidelineId?: string;
+  icdCodes?: string[];
+  department?: string;
+  items: IOrderSetItem[];
+  labs?: IOrderSetLab[];
+  followUpTasks?: IOrderSetTask[];
+}
+
+export interface OrderSetFilter {
+  guidelineId?: string;
+  icdCode?: string;
+  includeRetired?: boolean;
+}
+
+/**
+ * Options for applying an order set to a patient
+ */
+export interface ApplyOrderSetInput {
+  patientId: string;
+  prescriberId: string;
+  itemIndexes?: number[]; // defaults to every item that is not optional
+  overrideReason?: string; // required when a safety or duplication check raises warnings
+  twoFactorCode?: string; // required when the order set includes controlled substances
+}
+
+/**
+ * Result of the safety check for one order set item
+ */
+export interface OrderSetItemSafety {
+  index: number;
+  medicationName: string;
+  isSafe: boolean;
+  warnings: string[];
+}
+
+/**
+ * What applying an order set created
+ */
+export interface AppliedOrderSet {
+  orderSet: { id: string; key: string; name: string; version: number };
+  prescription: { id: string; patientId: string; medications: StoredMedication[] };
+  safety: OrderSetItemSafety[];
+  taskIds: string[];
+}
+
+interface StoredMedication {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: number | null;
+  quantityDispensed: number | null;
+  daysSupply: number | null;
+  refills: number | null;
+  deaSchedule: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Service for medication order sets: versioned bundles of medications with default sigs,
+ * labs and follow-up tasks, linked to a treatment guideline or ICD-10 codes
+ */
+export class OrderSetService {
+  private static instance: OrderSetService;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): OrderSetService {
+    if (!OrderSetService.instance) {
+      OrderSetService.instance = new OrderSetService();
+    }
+    return OrderSetService.instance;
+  }
+
+  /**
+   * Current order sets, optionally for a guideline or ICD-10 code
+   */
+  public async listOrderSets(filter: OrderSetFilter = {}): Promise<IOrderSet[]> {
+    const query: Record<string, unknown> = filter.includeRetired ? {} : { status: 'active' };
+    if (filter.guidelineId) query.guidelineId = filter.guidelineId;
+    if (filter.icdCode) query.icdCodes = filter.icdCode.trim().toUpperCase();
+
+    return OrderSet.find(query).sort({ name: 1, version: -1 });
+  }
+
+  /**
+   * Get an order set version
+   */
+  public async getOrderSet(id: string): Promise<IOrderSet> {
+    const orderSet = mongoose.Types.ObjectId.isValid(id) ? await OrderSet.findById(id) : null;
+    if (!orderSet) {
+      throw new OrderSetError(`Order set ${id} not found`, 'ORDER_SET_NOT_FOUND');
+    }
+    return orderSet;
+  }
+
+  /**
+   * Every version of an order set, newest first
+   */
+  public async getVersions(key: string): Promise<IOrderSet[]> {
+    const versions = await OrderSet.find({ key: key.toLowerCase() }).sort({ version: -1 });
+    if (versions.length === 0) {
+      throw new OrderSetError(`Order set ${key} not found`, 'ORDER_SET_NOT_FOUND');
+    }
+    return versions;
+  }
+
+  /**
+   * Create the first version of an order set
+   */
+  public async createOrderSet(input: OrderSetInput, userId: string): Promise<IOrderSet> {
+    const key = this.toKey(input.key || input.name);
+    if (await OrderSet.exists({ key })) {
+      throw new OrderSetError(`An order set with key ${key} already exists`, 'DUPLICATE_ORDER_SET');
+    }
+
+    const orderSet = await OrderSet.create({
+      ...await this.prepare(input),
+      key,
+      version: 1,
+      status: 'active',
+      createdBy: userId
+    });
+
+    await this.audit(userId, 'order_set_created', { orderSetId: orderSet._id.toString(), key, version: 1 });
+    return orderSet;
+  }
+
+  /**
+   * Save changes as a new version and retire the version being edited
+   */
+  public async updateOrderSet(id: string, input: Partial<OrderSetInput>, userId: string): Promise<IOrderSet> {
+    const current = await this.getOrderSet(id);
+    if (current.status !== 'active') {
+      throw new OrderSetError(`Version ${current.version} of ${current.name} is retired; edit the current version`, 'ORDER_SET_RETIRED');
+    }
+
+    const merged: OrderSetInput = {
+      name: input.name ?? current.name,
+      description: input.description ?? current.description,
+      guidelineId: input.guidelineId ?? current.guidelineId?.toString(),
+      icdCodes: input.icdCodes ?? current.icdCodes,
+      department: input.department ?? current.department,
+      items: input.items ?? current.items,
+      labs: input.labs ?? current.labs,
+      followUpTasks: input.followUpTasks ?? current.followUpTasks
+    };
+
+    const next = await OrderSet.create({
+      ...await this.prepare(merged),
+      key: current.key,
+      version: current.version + 1,
+      status: 'active',
+      createdBy: userId
+    });
+
+    current.status = 'retired';
+    current.retiredAt = new Date();
+    await current.save();
+
+    await this.audit(userId, 'order_set_updated', {
+      orderSetId: next._id.toString(),
+      key: next.key,
+      version: next.version,
+      previousVersionId: current._id.toString()
+    });
+    return next;
+  }
+
+  /**
+   * Retire an order set so it can no longer be applied
+   */
+  public async retireOrderSet(id: string, userId: string): Promise<IOrderSet> {
+    const orderSet = await this.getOrderSet(id);
+    if (orderSet.status === 'retired') {
+      return orderSet;
+    }
+
+    orderSet.status = 'retired';
+    orderSet.retiredAt = new Date();
+    await orderSet.save();
+
+    await this.audit(userId, 'order_set_retired', { orderSetId: id, key: orderSet.key, version: orderSet.version });
+    return orderSet;
+  }
+
+  /**
+   * Prescribe the selected items for a patient and create the order set's lab and follow-up
+   * tasks. Every item goes through the prescription safety check and, as with manual
+   * prescribing, the therapeutic duplication check; warnings must be acknowledged with an
+   * override reason.
+   */
+  public async applyOrderSet(id: string, input: ApplyOrderSetInput): Promise<AppliedOrderSet> {
+    const orderSet = await this.getOrderSet(id);
+    if (orderSet.status !== 'active') {
+      throw new OrderSetError(`${orderSet.name} version ${orderSet.version} is retired`, 'ORDER_SET_RETIRED');
+    }
+
+    const selected = this.selectItems(orderSet, input.itemIndexes);
+
+    const safety: OrderSetItemSafety[] = [];
+    const relatedIssues: SafetyIssueReport[] = [];
+    for (const { index, item } of selected) {
+      const result = await medicationSafetyMonitor.reviewPrescriptionSafety([item.medicationName], input.patientId);
+      safety.push({ index, medicationName: item.medicationName, isSafe: result.isSafe, warnings: result.warnings });
+      relatedIssues.push(...result.relatedIssues.filter(issue => !relatedIssues.some(related => related.id === issue.id)));
+    }
+
+    const overrideReason = input.overrideReason?.trim();
+    if (safety.some(result => !result.isSafe) && !overrideReason) {
+      throw new OrderSetError('Safety warnings must be acknowledged with an override reason', 'SAFETY_REVIEW_REQUIRED', { safety });
+    }
+
+    const duplicationAlerts = await medicationSafetyMonitor.checkDuplicationByName(
+      selected.map(({ item }) => item.medicationName),
+      await this.getActiveMedicationNames(input.patientId)
+    );
+    if (duplicationAlerts.length > 0 && !overrideReason) {
+      throw new OrderSetError('Therapeutic duplication must be acknowledged with an override reason', 'OVERRIDE_REQUIRED', {
+        alerts: duplicationAlerts
+      });
+    }
+    const duplicated = new Set(duplicationAlerts.flatMap(alert => alert.medications));
+    const overridden = safety.some(result => !result.isSafe) || duplicationAlerts.length > 0;
+
+    // Controlled substances follow the same schedule limits and re-authentication as manual prescribing
+    const controlledReview = await controlledSubstanceService.reviewPrescription(
+      input.patientId,
+      selected.map(({ item }) => ({
+        name: item.medicationName,
+        dosage: item.dosage,
+        frequency: item.frequency,
+        quantity: item.quantity,
+        daysSupply: item.daysSupply,
+        refills: item.refills
+      }))
+    );
+    if (controlledReview.violations.length > 0) {
+      throw new OrderSetError('Order set breaks controlled substance rules', 'CONTROLLED_SUBSTANCE_VIOLATION', {
+        violations: controlledReview.violations
+      });
+    }
+
+    let reauthMethod: ReauthMethod | undefined;
+    if (controlledReview.reauthRequired) {
+      reauthMethod = await controlledSubstanceService.verifyPrescriber(input.prescriberId, input.twoFactorCode);
+    }
+
+    const schedules = new Map(controlledReview.controlled.map(line => [line.index, line.schedule]));
+    const source = `Order set: ${orderSet.name} v${orderSet.version}`;
+    const prescription = await prisma.prescription.create({
+      data: {
+        patientId: input.patientId,
+        doctorId: input.prescriberId,
+        medications: {
+          create: selected.map(({ item }, position) => ({
+            name: item.medicationName,
+            dosage: item.dosage,
+            frequency: item.frequency,
+            duration: item.duration,
+            notes: [item.route, item.instructions, source].filter(Boolean).join('. '),
+            quantityDispensed: item.quantity,
+            daysSupply: item.daysSupply,
+            refills: item.refills,
+            overrideReason: safety[position].isSafe && !duplicated.has(item.medicationName) ? undefined : overrideReason,
+            deaSchedule: schedules.get(position)
+          }))
+        }
+      },
+      include: {
+        medications: true
+      }
+    });
+    await medicationSafetyMonitor.linkPrescriptionToIssues(prescription.id, relatedIssues);
+
+    if (duplicationAlerts.length > 0 && overrideReason) {
+      await medicationSafetyMonitor.overrideAlerts(duplicationAlerts, overrideReason, input.prescriberId, {
+        patientId: input.patientId,
+        prescriptionId: prescription.id
+      });
+    }
+
+    if (reauthMethod) {
+      await controlledSubstanceService.recordPrescribing(prescription, controlledReview, input.prescriberId, reauthMethod);
+    }
+
+    const taskIds = await this.createTasks(orderSet, input);
+
+    await this.audit(input.prescriberId, 'order_set_applied', {
+      orderSetId: id,
+      key: orderSet.key,
+      version: orderSet.version,
+      patientId: input.patientId,
+      prescriptionId: prescription.id,
+      items: selected.map(({ index }) => index),
+      overrideReason: overridden ? overrideReason : undefined
+    });
+    logger.info(`Applied order set ${orderSet.key} v${orderSet.version} to patient ${input.patientId}`);
+
+    return {
+      orderSet: { id, key: orderSet.key, name: orderSet.name, version: orderSet.version },
+      prescription,
+      safety,
+      taskIds
+    };
+  }
+
+  /**
+   * Names of medications on the patient's prescriptions that are still within their duration
+   */
+  private async getActiveMedicationNames(patientId: string): Promise<string[]> {
+    const prescriptions = await prisma.prescription.findMany({
+      where: { patientId },
+      include: { medications: true }
+    });
+    const now = Date.now();
+
+    return prescriptions.flatMap((prescription: { medications: Array<{ name: string; duration: number | null; createdAt: Date }> }) =>
+      prescription.medications
+        .filter(med => !med.duration || new Date(med.createdAt).getTime() + med.duration * DAY_MS > now)
+        .map(med => med.name)
+    );
+  }
+
+  private selectItems(orderSet: IOrderSet, itemIndexes?: number[]): Array<{ index: number; item: IOrderSetItem }> {
+    const indexes = itemIndexes
+      ? [...new Set(itemIndexes)].sort((a, b) => a - b)
+      : orderSet.items.map((item, index) => (item.optional ? -1 : index)).filter(index => index >= 0);
+
+    const invalid = indexes.filter(index => !Number.isInteger(index) || index < 0 || index >= orderSet.items.length);
+    if (invalid.length > 0) {
+      throw new OrderSetError(`Order set has no item ${invalid.join(', ')}`, 'INVALID_SELECTION');
+    }
+    if (indexes.length === 0) {
+      throw new OrderSetError('Select at least one medication', 'INVALID_SELECTION');
+    }
+
+    return indexes.map(index => ({ index, item: orderSet.items[index] }));
+  }
+
+  /**
+   * Lab orders and follow-up tasks for the care team, due relative to today
+   */
+  private async createTasks(orderSet: IOrderSet, input: ApplyOrderSetInput): Promise<string[]> {
+    const now = Date.now();
+    const patientId = mongoose.Types.ObjectId.isValid(input.patientId) ? input.patientId : undefined;
+    const common = {
+      patientId,
+      createdBy: input.prescriberId,
+      department: orderSet.department,
+      tags: ['order-set', orderSet.key]
+    };
+
+    const tasks = await Task.create([
+      ...orderSet.labs.map(lab => ({
+        ...common,
+        title: `Lab: ${lab.name}`,
+        description: [lab.loincCode ? `LOINC ${lab.loincCode}` : '', lab.notes, `Ordered from ${orderSet.name}`].filter(Boolean).join('. '),
+        category: 'lab',
+        priority: lab.dueInDays === 0 ? 'high' : 'medium',
+        dueDate: new Date(now + lab.dueInDays * DAY_MS),
+        estimatedDuration: 15
+      })),
+      ...orderSet.followUpTasks.map(task => ({
+        ...common,
+        title: task.title,
+        description: task.description,
+        category: task.category,
+        priority: task.priority,
+        dueDate: new Date(now + task.dueInDays * DAY_MS),
+        estimatedDuration: task.estimatedDuration
+      }))
+    ]);
+
+    return tasks.map(task => task._id.toString());
+  }
+
+  /**
+   * Validate contents and fill ICD-10 codes from the linked guideline
+   */
+  private async prepare(input: OrderSetInput): Promise<Omit<OrderSetInput, 'key'>> {
+    if (!input.items || input.items.length === 0) {
+      throw new OrderSetError('An order set needs at least one medication', 'INVALID_ORDER_SET');
+    }
+
+    let icdCodes = (input.icdCodes || []).map(code => code.trim().toUpperCase()).filter(Boolean);
+    if (input.guidelineId) {
+      const guideline = mongoose.Types.ObjectId.isValid(input.guidelineId)
+        ? await TreatmentGuideline.findById(input.guidelineId)
+        : null;
+      if (!guideline) {
+        throw new OrderSetError(`Treatment guideline ${input.guidelineId} not found`, 'GUIDELINE_NOT_FOUND');
+      }
+      if (icdCodes.length === 0) {
+        icdCodes = guideline.icdCodes.map(code => code.toUpperCase());
+      }
+    }
+    if (!input.guidelineId && icdCodes.length === 0) {
+      throw new OrderSetError('Link the order set to a treatment guideline or at least one ICD-10 code', 'INVALID_ORDER_SET');
+    }
+
+    return {
+      name: input.name,
+      description: input.description,
+      guidelineId: input.guidelineId,
+      icdCodes: [...new Set(icdCodes)],
+      department: input.department || 'general',
+      items: input.items,
+      labs: input.labs || [],
+      followUpTasks: input.followUpTasks || []
+    };
+  }
+
+  private toKey(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const orderSetService = OrderSetService.getInstance();
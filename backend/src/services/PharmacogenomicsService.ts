@@ -0,0 +1,170 @@
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import { IPatient, Patient } from '../models/Patient';
+import pharmacogenomicRules, { PgxMatch, PgxResult } from '../utils/pharmacogenomics';
+
+/**
+ * Error raised by the pharmacogenomic results workflow
+ */
+export class PharmacogenomicsError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * One gene result as reported by the laboratory; the phenotype may use report wording
+ * such as "PM" or "Poor Metabolizer"
+ */
+export interface RecordPgxResultInput {
+  gene: string;
+  phenotype: string;
+  diplotype?: string;
+  activityScore?: number;
+  testedAt?: Date;
+  laboratory?: string;
+}
+
+/**
+ * A patient's pharmacogenomic profile
+ */
+export interface PatientPharmacogenomics {
+  patientId: string;
+  results: PgxResult[];
+  actionablePhenotypes: string[];
+  affectedDrugs: string[];
+}
+
+/**
+ * Service for storing patient pharmacogenomic results and looking up gene–drug recommendations
+ */
+export class PharmacogenomicsService {
+  private static instance: PharmacogenomicsService;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PharmacogenomicsService {
+    if (!PharmacogenomicsService.instance) {
+      PharmacogenomicsService.instance = new PharmacogenomicsService();
+    }
+    return PharmacogenomicsService.instance;
+  }
+
+  /**
+   * A patient's results with the phenotypes that change prescribing
+   */
+  public async getProfile(patientId: string): Promise<PatientPharmacogenomics> {
+    const patient = await this.getPatient(patientId);
+    return this.toProfile(patient);
+  }
+
+  /**
+   * Record results from a PGx panel. A new result for a gene replaces the previous one.
+   */
+  public async recordResults(
+    patientId: string,
+    inputs: RecordPgxResultInput[],
+    userId: string
+  ): Promise<PatientPharmacogenomics> {
+    const patient = await this.getPatient(patientId);
+    const results = inputs.map(input => this.toResult(input));
+
+    const genes = new Set(results.map(result => result.gene));
+    patient.pharmacogenomics = [
+      ...(patient.pharmacogenomics || []).filter(result => !genes.has(pharmacogenomicRules.normalizeGene(result.gene))),
+      ...results
+    ];
+    await patient.save();
+
+    await this.audit(userId, 'pharmacogenomic_result_recorded', {
+      patientId,
+      results: results.map(result => ({ gene: result.gene, phenotype: result.phenotype }))
+    });
+    logger.info(`Recorded ${results.length} pharmacogenomic result(s) for patient ${patientId}`);
+
+    return this.toProfile(patient);
+  }
+
+  /**
+   * Remove the result for a gene, e.g. when it was entered against the wrong patient
+   */
+  public async removeResult(patientId: string, gene: string, userId: string): Promise<PatientPharmacogenomics> {
+    const patient = await this.getPatient(patientId);
+    const normalizedGene = pharmacogenomicRules.normalizeGene(gene);
+    const results = patient.pharmacogenomics || [];
+
+    const remaining = results.filter(result => pharmacogenomicRules.normalizeGene(result.gene) !== normalizedGene);
+    if (remaining.length === results.length) {
+      throw new PharmacogenomicsError(`No ${normalizedGene} result for patient ${patientId}`, 'RESULT_NOT_FOUND');
+    }
+
+    patient.pharmacogenomics = remaining;
+    await patient.save();
+    await this.audit(userId, 'pharmacogenomic_result_removed', { patientId, gene: normalizedGene });
+
+    return this.toProfile(patient);
+  }
+
+  /**
+   * Gene–drug recommendations for prescribing a medication to the patient
+   */
+  public async getRecommendations(
+    patientId: string,
+    medication: { name: string; genericName?: string }
+  ): Promise<PgxMatch[]> {
+    const patient = await this.getPatient(patientId);
+    return pharmacogenomicRules.findMatches(medication, patient.pharmacogenomics || []);
+  }
+
+  private toResult(input: RecordPgxResultInput): PgxResult {
+    const phenotype = pharmacogenomicRules.normalizePhenotype(input.phenotype);
+    if (!phenotype) {
+      throw new PharmacogenomicsError(`Unrecognised phenotype "${input.phenotype}" for ${input.gene}`, 'INVALID_PHENOTYPE');
+    }
+
+    return {
+      gene: pharmacogenomicRules.normalizeGene(input.gene),
+      phenotype,
+      diplotype: input.diplotype?.trim() || undefined,
+      activityScore: input.activityScore,
+      testedAt: input.testedAt,
+      laboratory: input.laboratory?.trim() || undefined
+    };
+  }
+
+  private toProfile(patient: IPatient): PatientPharmacogenomics {
+    const results = patient.pharmacogenomics || [];
+    return {
+      patientId: patient._id.toString(),
+      results,
+      actionablePhenotypes: pharmacogenomicRules.describeActionable(results),
+      affectedDrugs: pharmacogenomicRules.affectedDrugs(results)
+    };
+  }
+
+  private async getPatient(patientId: string): Promise<IPatient> {
+    const patient = mongoose.Types.ObjectId.isValid(patientId) ? await Patient.findById(patientId) : null;
+    if (!patient) {
+      throw new PharmacogenomicsError(`Patient ${patientId} not found`, 'PATIENT_NOT_FOUND');
+    }
+    return patient;
+  }
+
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const pharmacogenomicsService = PharmacogenomicsService.getInstance();
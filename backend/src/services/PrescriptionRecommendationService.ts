@@ -1,10 +1,15 @@
 import { PrescriptionSuggestionService, PrescriptionSuggestion, PrescriptionInput, InteractionSeverity, DrugInteractionRisk } from './ai/PrescriptionSuggestionService';
 import { MedicationRepository } from '../repositories/MedicationRepository';
 import medicationAnalyzer, { ParsedDosage } from '../utils/medicationAnalyzer';
+import doseAdjustmentEngine, { DoseAdjustmentResult, OrganFunctionAssessment } from '../utils/doseAdjustment';
+import pregnancyLactationRisk, { PregnancyLactationAssessment } from '../utils/pregnancyLactationRisk';
 import { MedicationSafetyMonitor, SafetyAlert } from './MedicationSafetyMonitor';
 import { IMedication } from '../models/Medication';
 import logger from '../utils/logger';
 import { IPatient, Patient } from '../models/Patient';
+import Formulary, { IFormulary } from '../models/Formulary';
+import formularyCoverage, { CoverageAssessment, FormularyPlan } from '../utils/formularyCoverage';
+import pharmacogenomicRules from '../utils/pharmacogenomics';
 
 // Base error class for prescription recommendation errors
 export class PrescriptionRecommendationError extends Error {
@@ -56,6 +61,8 @@ export interface ComprehensiveMedicationRecommendation extends PrescriptionSugge
     isAppropriate: boolean;
     parsedDosage: ParsedDosage;
     message?: string;
+    organFunction?: OrganFunctionAssessment;
+    doseAdjustment?: DoseAdjustmentResult;
   };
   compatibility: {
     patientFactors: Array<{
@@ -70,8 +77,23 @@ export interface ComprehensiveMedicationRecommendation extends PrescriptionSugge
     }>;
   };
   interactionRisks: DrugInteractionRisk[];
+  pregnancyLactationRisk?: PregnancyLactationAssessment; // set for pregnant or breastfeeding patients
+  coverage: CoverageAssessment;
+  coveredAlternatives?: CoveredAlternative[]; // set when the plan restricts or excludes the medication
 }
 
+/**
+ * A same-class medication the patient's plan covers with fewer restrictions
+ */
+export interface CoveredAlternative {
+  medication: string;
+  genericName?: string;
+  coverage: CoverageAssessment;
+}
+
+// Covered alternatives suggested per recommendation
+const MAX_COVERED_ALTERNATIVES = 3;
+
 /**
  * Extended input for comprehensive prescription recommendations
  */
@@ -79,6 +101,8 @@ export interface ComprehensivePrescriptionInput extends PrescriptionInput {
   patientId: string; // ID of the patient
   patientAge?: number; // patient age in years
   isPregnant?: boolean; // is the patient pregnant
+  gestationalAgeWeeks?: number; // weeks of gestation, used for trimester-specific risk
+  isBreastfeeding?: boolean; // is the patient breastfeeding
   patientWeight?: number; // in kg
   patientHeight?: number; // in cm
   renalFunction?: number; // eGFR in mL/min
@@ -141,18 +165,34 @@ class PrescriptionRecommendationService {
       // Validate input
       this.validateInput(input);
       
+      // Insurance and pharmacogenomic results come from the patient record
+      const patient = await this.loadPatient(input.patientId);
+      
       // Get AI-generated prescription suggestions
-      const suggestions = await this.prescriptionService.suggestPrescription(input);
+      const suggestions = await this.prescriptionService.suggestPrescription({
+        ...input,
+        patientData: {
+          ...input.patientData,
+          isPregnant: input.patientData.isPregnant ?? input.isPregnant,
+          gestationalAgeWeeks: input.patientData.gestationalAgeWeeks ?? input.gestationalAgeWeeks,
+          isBreastfeeding: input.patientData.isBreastfeeding ?? input.isBreastfeeding,
+          pharmacogenomics: input.patientData.pharmacogenomics
+            ?? pharmacogenomicRules.describeActionable(patient?.pharmacogenomics || [])
+        }
+      });
+      
+      // Coverage is assessed against the formulary of the patient's insurance plan
+      const formulary = await this.getPatientFormulary(patient);
       
       // Enhance each suggestion with additional information
       const enhancedSuggestions: ComprehensiveMedicationRecommendation[] = [];
       
       for (const suggestion of suggestions) {
-        const enhancedSuggestion = await this.enhancePrescriptionSuggestion(suggestion, input);
+        const enhancedSuggestion = await this.enhancePrescriptionSuggestion(suggestion, input, formulary);
         enhancedSuggestions.push(enhancedSuggestion);
       }
       
-      // Sort by score, prioritizing safer medications with better efficacy
+      // Sort by score, prioritizing safer, covered medications with better efficacy
       return this.rankRecommendations(enhancedSuggestions);
     } catch (error) {
       logger.error(`Error generating comprehensive recommendations: ${error}`);
@@ -183,7 +223,8 @@ class PrescriptionRecommendationService {
    */
   private async enhancePrescriptionSuggestion(
     suggestion: PrescriptionSuggestion,
-    input: ComprehensivePrescriptionInput
+    input: ComprehensivePrescriptionInput,
+    formulary?: FormularyPlan
   ): Promise<ComprehensiveMedicationRecommendation> {
     logger.info(`Enhancing prescription suggestion for: ${suggestion.medication}`);
     
@@ -235,12 +276,30 @@ class PrescriptionRecommendationService {
       input.diagnosis || input.symptoms.join(', ')
     );
     
+    // Assess pregnancy and lactation risk
+    const reproductiveRisk = input.isPregnant || input.isBreastfeeding
+      ? pregnancyLactationRisk.assess(medicationDetails, {
+        isPregnant: input.isPregnant,
+        gestationalAgeWeeks: input.gestationalAgeWeeks,
+        isBreastfeeding: input.isBreastfeeding
+      })
+      : undefined;
+    
     // Analyze patient compatibility
     const compatibility = this.analyzeCompatibility(
       medicationDetails,
-      input
+      input,
+      reproductiveRisk
     );
     
+    // Check insurance coverage, offering covered alternatives when access is restricted
+    const coverage = formularyCoverage.assess(formulary, medicationDetails, {
+      medicationHistory: input.medicationHistory
+    });
+    const coveredAlternatives = formulary && medicationId && !formularyCoverage.isReadilyCovered(coverage)
+      ? await this.findCoveredAlternatives(medicationId, coverage, formulary, input)
+      : undefined;
+    
     return {
       medication: suggestion.medication,
       dosage: suggestion.dosage,
@@ -257,10 +316,87 @@ class PrescriptionRecommendationService {
       efficacyInfo,
       safetyAlerts,
       dosageAnalysis,
-      compatibility
+      compatibility,
+      pregnancyLactationRisk: reproductiveRisk,
+      coverage,
+      coveredAlternatives
     };
   }
   
+  /**
+   * Patient record, or null when it cannot be loaded
+   */
+  private async loadPatient(patientId: string): Promise<IPatient | null> {
+    try {
+      return await Patient.findById(patientId);
+    } catch (error) {
+      logger.error(`Error loading patient ${patientId}: ${error}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Formulary for the patient's insurance plan. Plans listing the patient's group number
+   * take precedence over plans for the whole provider.
+   */
+  private async getPatientFormulary(patient: IPatient | null): Promise<FormularyPlan | undefined> {
+    try {
+      const insurance = patient?.insuranceInfo;
+      if (!patient || !insurance?.provider) {
+        return undefined;
+      }
+      if (insurance.expiryDate && new Date(insurance.expiryDate) < new Date()) {
+        logger.info(`Insurance for patient ${patient._id} has expired; coverage not assessed`);
+        return undefined;
+      }
+      
+      const now = new Date();
+      const plans: IFormulary[] = await Formulary.find({
+        provider: new RegExp(`^${this.escapeRegex(insurance.provider.trim())}$`, 'i'),
+        isActive: true,
+        effectiveDate: { $lte: now },
+        $or: [{ expiryDate: { $exists: false } }, { expiryDate: null }, { expiryDate: { $gt: now } }]
+      });
+      
+      return plans.find(plan => insurance.groupNumber && plan.groupNumbers.includes(insurance.groupNumber))
+        || plans.find(plan => plan.groupNumbers.length === 0);
+    } catch (error) {
+      logger.error(`Error loading formulary for patient ${patient?._id}: ${error}`);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Same-class medications the plan covers with fewer barriers, best covered and cheapest first
+   */
+  private async findCoveredAlternatives(
+    medicationId: string,
+    coverage: CoverageAssessment,
+    formulary: FormularyPlan,
+    input: ComprehensivePrescriptionInput
+  ): Promise<CoveredAlternative[]> {
+    try {
+      const alternatives = await this.medicationRepo.findAlternatives(medicationId);
+      const currentBarrier = formularyCoverage.barrierScore(coverage);
+      
+      return alternatives
+        .map(alternative => ({
+          medication: alternative.name,
+          genericName: alternative.genericName,
+          coverage: formularyCoverage.assess(formulary, alternative, { medicationHistory: input.medicationHistory })
+        }))
+        .filter(alternative => formularyCoverage.barrierScore(alternative.coverage) < currentBarrier)
+        .sort((a, b) =>
+          formularyCoverage.barrierScore(a.coverage) - formularyCoverage.barrierScore(b.coverage)
+          || (a.coverage.estimatedMonthlyCost ?? Infinity) - (b.coverage.estimatedMonthlyCost ?? Infinity)
+        )
+        .slice(0, MAX_COVERED_ALTERNATIVES);
+    } catch (error) {
+      logger.error(`Error finding covered alternatives for ${medicationId}: ${error}`);
+      return [];
+    }
+  }
+  
   /**
    * Analyze the appropriateness of a dosage
    */
@@ -272,6 +408,8 @@ class PrescriptionRecommendationService {
     isAppropriate: boolean;
     parsedDosage: ParsedDosage;
     message?: string;
+    organFunction?: OrganFunctionAssessment;
+    doseAdjustment?: DoseAdjustmentResult;
   } {
     try {
       const parsedDosage = medicationAnalyzer.parseDosage(dosageString);
@@ -284,19 +422,25 @@ class PrescriptionRecommendationService {
         };
       }
       
+      // Assess kidney and liver function from labs and reported function
+      const organFunction = this.assessOrganFunction(input);
+      
       // Check against standard dosages
       const dosageCheck = medicationAnalyzer.checkDosage(
         medication,
         dosageString,
         input.patientWeight,
         input.patientAge,
-        input.diagnosis
+        input.diagnosis,
+        organFunction
       );
       
       return {
-        isAppropriate: dosageCheck.isWithinRange,
+        isAppropriate: dosageCheck.isWithinRange && !dosageCheck.doseAdjustment?.avoid,
         parsedDosage,
-        message: dosageCheck.message
+        message: dosageCheck.message,
+        organFunction,
+        doseAdjustment: dosageCheck.doseAdjustment
       };
     } catch (error) {
       logger.error(`Error analyzing dosage: ${error}`);
@@ -310,6 +454,23 @@ class PrescriptionRecommendationService {
     }
   }
   
+  /**
+   * Build an organ function assessment from the patient's labs and reported function
+   */
+  private assessOrganFunction(input: ComprehensivePrescriptionInput): OrganFunctionAssessment {
+    const labValues = doseAdjustmentEngine.extractLabValues(input.labResults || []);
+    
+    return doseAdjustmentEngine.assessOrganFunction({
+      ...labValues,
+      age: input.patientAge ?? input.patientData?.age,
+      weight: input.patientWeight ?? input.patientData?.weight,
+      height: input.patientHeight,
+      sex: input.patientData?.gender,
+      eGFR: labValues.eGFR ?? input.renalFunction,
+      hepaticFunction: input.hepaticFunction
+    });
+  }
+  
   /**
    * Analyze the efficacy of a medication for a specific condition
    */
@@ -366,7 +527,8 @@ class PrescriptionRecommendationService {
    */
   private analyzeCompatibility(
     medication: IMedication,
-    input: ComprehensivePrescriptionInput
+    input: ComprehensivePrescriptionInput,
+    reproductiveRisk?: PregnancyLactationAssessment
   ): {
     patientFactors: Array<{ factor: string; isCompatible: boolean; notes: string }>;
     diseaseFactors: Array<{ condition: string; isCompatible: boolean; notes: string }>;
@@ -399,13 +561,24 @@ class PrescriptionRecommendationService {
       }
     }
     
-    // Check pregnancy compatibility
-    if (input.isPregnant) {
-      const pregnancyCompatible = ['A', 'B'].includes(medication.pregnancyCategory);
+    // Check pregnancy and lactation compatibility
+    if (reproductiveRisk?.pregnancyRisk) {
+      const trimester = reproductiveRisk.trimester ? ` (${reproductiveRisk.trimester} trimester)` : '';
+      const alternatives = reproductiveRisk.saferAlternatives.length > 0
+        ? `. Safer alternatives: ${reproductiveRisk.saferAlternatives.join(', ')}`
+        : '';
       patientFactors.push({
         factor: 'Pregnancy',
-        isCompatible: pregnancyCompatible,
-        notes: `Pregnancy category ${medication.pregnancyCategory}`
+        isCompatible: ['compatible', 'limited_data'].includes(reproductiveRisk.pregnancyRisk),
+        notes: `${reproductiveRisk.pregnancyRisk.replace(/_/g, ' ')}${trimester}: ${reproductiveRisk.profile.pregnancySummary}${alternatives}`
+      });
+    }
+    
+    if (reproductiveRisk?.lactation) {
+      patientFactors.push({
+        factor: 'Breastfeeding',
+        isCompatible: ['compatible', 'probably_compatible'].includes(reproductiveRisk.lactation),
+        notes: `${reproductiveRisk.lactation.replace(/_/g, ' ')}: ${reproductiveRisk.profile.lactationSummary}`
       });
     }
     
@@ -454,11 +627,19 @@ class PrescriptionRecommendationService {
   }
   
   /**
-   * Rank recommendations based on safety and efficacy
+   * Rank recommendations based on safety, insurance coverage, efficacy and patient cost
    */
   private rankRecommendations(recommendations: ComprehensiveMedicationRecommendation[]): ComprehensiveMedicationRecommendation[] {
     return [...recommendations].sort((a, b) => {
-      // Safety issues have highest priority
+      // Pregnancy and lactation risk outranks everything else for pregnant or breastfeeding patients
+      const aReproductiveRisk = a.pregnancyLactationRisk ? pregnancyLactationRisk.riskScore(a.pregnancyLactationRisk) : 0;
+      const bReproductiveRisk = b.pregnancyLactationRisk ? pregnancyLactationRisk.riskScore(b.pregnancyLactationRisk) : 0;
+      
+      if (aReproductiveRisk !== bReproductiveRisk) {
+        return aReproductiveRisk - bReproductiveRisk;
+      }
+      
+      // Then other safety issues
       const aSafetyScore = a.safetyAlerts.length * -1; // Negative to rank fewer alerts higher
       const bSafetyScore = b.safetyAlerts.length * -1;
       
@@ -466,6 +647,14 @@ class PrescriptionRecommendationService {
         return bSafetyScore - aSafetyScore;
       }
       
+      // Then barriers to coverage: exclusions, prior authorisation, step therapy and quantity limits
+      const aBarrier = formularyCoverage.barrierScore(a.coverage);
+      const bBarrier = formularyCoverage.barrierScore(b.coverage);
+      
+      if (aBarrier !== bBarrier) {
+        return aBarrier - bBarrier;
+      }
+      
       // Then efficacy
       const aEfficacyScore = a.efficacyInfo?.efficacyScore || 0;
       const bEfficacyScore = b.efficacyInfo?.efficacyScore || 0;
@@ -474,6 +663,14 @@ class PrescriptionRecommendationService {
         return bEfficacyScore - aEfficacyScore;
       }
       
+      // Then what the patient pays
+      const aCost = a.coverage.estimatedMonthlyCost ?? Infinity;
+      const bCost = b.coverage.estimatedMonthlyCost ?? Infinity;
+      
+      if (aCost !== bCost) {
+        return aCost - bCost;
+      }
+      
       // Finally dosage appropriateness
       const aDosageAppropriate = a.dosageAnalysis.isAppropriate ? 1 : 0;
       const bDosageAppropriate = b.dosageAnalysis.isAppropriate ? 1 : 0;
@@ -481,6 +678,10 @@ class PrescriptionRecommendationService {
       return bDosageAppropriate - aDosageAppropriate;
     });
   }
+  
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
 }
 
 // Export the service as default and as a named instance for easier imports
@@ -0,0 +1,559 @@
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import promptTemplates, { PromptVariant } from '../utils/promptTemplates';
+import AuditLog, { AuditAction } from '../models/AuditLog';
+import { AIFeedback } from '../models/AIFeedback';
+import PromptTemplate, { IPromptReference, IPromptTemplate } from '../models/PromptTemplate';
+import PromptExperiment, { IPromptExperiment } from '../models/PromptExperiment';
+
+// Resolved templates are cached briefly so each prediction does not query the database
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Error raised for invalid prompt registry operations
+ */
+export class PromptRegistryError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(message: string, code: string, details?: unknown) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * A prompt as shipped with the code; served as version 0 until a version is published
+ */
+export interface BuiltInPrompt {
+  description: string;
+  systemPrompt?: string;
+  template: string;
+}
+
+/**
+ * Names of the prompts the application renders, with their built-in templates
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<string, BuiltInPrompt> = {
+  'prescription.suggestions': {
+    description: 'Prescription suggestions for a diagnosis and patient profile',
+    template: `Generate prescription suggestions based on:
+
+Diagnosis: {{diagnosis}}
+Symptoms: {{symptoms}}
+
+Patient Profile:
+- Age: {{age}}
+- Weight: {{weight}}kg
+- Gender: {{gender}}
+- Allergies: {{allergies}}
+- Current Medications: {{currentMedications}}
+- Chronic Conditions: {{chronicConditions}}
+{{additionalProfile}}
+
+Vital Signs:
+{{vitalSigns}}
+
+{{labResults}}
+
+For each recommended medication provide the specific dosage, frequency and duration,
+administration instructions, warnings, contraindications, potential side effects and alternatives.`
+  },
+  'symptom.analysis': {
+    description: 'Assessment of reported symptoms with potential diagnoses and urgency',
+    template: `Analyze the following patient symptoms and provide a detailed medical assessment:
+
+Symptoms:
+{{symptoms}}
+
+{{vitalSigns}}{{medicalHistory}}Please provide:
+- Potential diagnoses with confidence levels (0-1 scale)
+- Differential diagnoses to consider
+- Recommended diagnostic tests
+- Risk factors identified
+- Follow-up recommendations
+- Urgency level (low, medium, high, or emergency)
+- Brief summary of assessment`
+  },
+  'visit.duration': {
+    description: 'Appointment duration prediction from patient and visit history',
+    systemPrompt: `You are an AI healthcare scheduling assistant. Analyze patient history,
+appointment type, and historical visit patterns to predict optimal appointment duration.
+Consider factors like medical complexity, age, communication needs, and procedure types.`,
+    template: `
+Appointment Information:
+{{appointment}}
+
+Patient Information:
+{{patient}}
+
+Historical Visit Data:
+{{historicalVisits}}
+
+Please analyze and provide:
+1. Predicted appointment duration in minutes
+2. Confidence score (0-100%)
+3. Factors influencing the prediction
+4. Potential scheduling considerations
+`
+  },
+  'learning.insights': {
+    description: 'Analysis of prediction accuracy to suggest model adjustments',
+    systemPrompt: `You are an AI learning analyst. Analyze prediction patterns and outcomes
+to identify areas for improvement and suggest adjustments to the prediction model.
+Consider factors like prediction accuracy, consistent biases, and edge cases.`,
+    template: `
+Prediction Analysis:
+Type: {{predictionType}}
+Sample Size: {{sampleSize}}
+
+Prediction Data:
+{{predictions}}
+
+Accuracy Distribution:
+{{accuracyDistribution}}
+
+Please analyze and provide:
+1. Identified patterns in prediction errors
+2. Common factors in high-accuracy predictions
+3. Edge cases requiring special handling
+4. Suggested adjustments to improve accuracy
+5. Confidence thresholds for different scenarios
+`
+  }
+};
+
+/**
+ * A prompt ready to send, with the version that produced it
+ */
+export interface RenderedPrompt {
+  text: string;
+  systemPrompt?: string;
+  reference: IPromptReference;
+}
+
+export interface RenderOptions {
+  subjectKey?: string; // keeps a patient or visit on the same experiment variant
+}
+
+/**
+ * A new prompt version as supplied by admins
+ */
+export interface PromptVersionInput {
+  template: string;
+  systemPrompt?: string;
+  description?: string;
+  publish?: boolean; // make it the active version straight away (default true)
+}
+
+export interface PromptExperimentInput {
+  name: string;
+  promptName: string;
+  description?: string;
+  variants: PromptVariant[];
+}
+
+/**
+ * Accuracy of one experiment variant from the feedback recorded against it
+ */
+export interface VariantResult {
+  version: number;
+  weight: number;
+  assignments: number;
+  feedbackCount: number;
+  averageAccuracy: number | null;
+  averageRating: number | null;
+}
+
+export interface ExperimentResults {
+  experiment: IPromptExperiment;
+  variants: VariantResult[];
+}
+
+/**
+ * Summary of a prompt for the admin list
+ */
+export interface PromptSummary {
+  name: string;
+  description: string;
+  activeVersion: number; // 0 when the built-in template is active
+  latestVersion: number;
+  runningExperimentId?: string;
+}
+
+interface PromptVersionContent {
+  version: number;
+  template: string;
+  systemPrompt?: string;
+}
+
+interface ResolvedPrompt {
+  active: PromptVersionContent;
+  experiment?: IPromptExperiment;
+  expiresAt: number;
+}
+
+/**
+ * Registry of named, versioned prompt templates. The application renders prompts by name;
+ * admins publish new versions and run traffic-split experiments between versions, and
+ * feedback on predictions records the version that produced them.
+ */
+export class PromptRegistryService {
+  private static instance: PromptRegistryService;
+  private cache = new Map<string, ResolvedPrompt>();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PromptRegistryService {
+    if (!PromptRegistryService.instance) {
+      PromptRegistryService.instance = new PromptRegistryService();
+    }
+    return PromptRegistryService.instance;
+  }
+
+  /**
+   * Render a prompt with the active version, or a variant when an experiment is running.
+   * Falls back to the built-in template when the registry cannot be read.
+   */
+  public async render(
+    name: string,
+    variables: Record<string, unknown>,
+    options: RenderOptions = {}
+  ): Promise<RenderedPrompt> {
+    const builtIn = this.getBuiltIn(name);
+
+    let content: PromptVersionContent = { version: 0, ...builtIn };
+    let experimentId: string | undefined;
+    try {
+      const resolved = await this.resolve(name);
+      content = resolved.active;
+
+      if (resolved.experiment) {
+        const variant = promptTemplates.pickVariant(
+          resolved.experiment.variants,
+          options.subjectKey ? `${resolved.experiment._id}:${options.subjectKey}` : undefined
+        );
+        if (variant) {
+          content = await this.getVersionContent(name, variant.version);
+          experimentId = String(resolved.experiment._id);
+          this.recordAssignment(experimentId, variant.version);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Prompt registry unavailable for ${name}, using the built-in template: ${error}`);
+    }
+
+    const missing = promptTemplates.missingVariables(content.template, variables);
+    if (missing.length > 0) {
+      throw new PromptRegistryError(
+        `Missing values for prompt ${name} v${content.version}: ${missing.join(', ')}`,
+        'MISSING_VARIABLES',
+        { missing }
+      );
+    }
+
+    return {
+      text: promptTemplates.render(content.template, variables),
+      systemPrompt: content.systemPrompt && promptTemplates.render(content.systemPrompt, variables),
+      reference: { name, version: content.version, ...(experimentId && { experimentId }) }
+    };
+  }
+
+  /**
+   * Every registered prompt with its active and latest versions
+   */
+  public async listPrompts(): Promise<PromptSummary[]> {
+    const [versions, experiments] = await Promise.all([
+      PromptTemplate.aggregate([
+        {
+          $group: {
+            _id: '$name',
+            latestVersion: { $max: '$version' },
+            activeVersion: { $max: { $cond: [{ $eq: ['$status', 'active'] }, '$version', 0] } }
+          }
+        }
+      ]),
+      PromptExperiment.find({ status: 'running' }).select('promptName')
+    ]);
+
+    return Object.entries(DEFAULT_PROMPT_TEMPLATES).map(([name, builtIn]) => {
+      const stored = versions.find(entry => entry._id === name);
+      const experiment = experiments.find(entry => entry.promptName === name);
+      return {
+        name,
+        description: builtIn.description,
+        activeVersion: stored?.activeVersion ?? 0,
+        latestVersion: stored?.latestVersion ?? 0,
+        runningExperimentId: experiment?._id.toString()
+      };
+    });
+  }
+
+  /**
+   * Every stored version of a prompt, newest first
+   */
+  public async getVersions(name: string): Promise<IPromptTemplate[]> {
+    this.getBuiltIn(name);
+    return PromptTemplate.find({ name }).sort({ version: -1 });
+  }
+
+  /**
+   * Save a new version of a prompt, published unless input.publish is false. Templates may
+   * only use the variables the application supplies for the prompt.
+   */
+  public async createVersion(name: string, input: PromptVersionInput, userId: string): Promise<IPromptTemplate> {
+    const builtIn = this.getBuiltIn(name);
+    const allowed = promptTemplates.variablesOf(builtIn.template, builtIn.systemPrompt);
+    const variables = promptTemplates.variablesOf(input.template, input.systemPrompt);
+    const unknown = variables.filter(variable => !allowed.includes(variable));
+    if (unknown.length > 0) {
+      throw new PromptRegistryError(
+        `Prompt ${name} does not supply ${unknown.join(', ')}`,
+        'UNKNOWN_VARIABLES',
+        { unknown, allowed }
+      );
+    }
+
+    const latest = await PromptTemplate.findOne({ name }).sort({ version: -1 }).select('version');
+    const version = await PromptTemplate.create({
+      name,
+      version: (latest?.version ?? 0) + 1,
+      description: input.description,
+      systemPrompt: input.systemPrompt,
+      template: input.template,
+      variables,
+      status: 'draft',
+      createdBy: userId
+    });
+
+    await this.audit(userId, 'prompt_version_created', { name, version: version.version });
+
+    if (input.publish === false) {
+      return version;
+    }
+    return this.publishVersion(name, version.version, userId);
+  }
+
+  /**
+   * Make a version the one callers get by default, retiring the previously active version
+   */
+  public async publishVersion(name: string, version: number, userId: string): Promise<IPromptTemplate> {
+    const template = await PromptTemplate.findOne({ name, version });
+    if (!template) {
+      throw new PromptRegistryError(`Prompt ${name} has no version ${version}`, 'PROMPT_VERSION_NOT_FOUND');
+    }
+    if (template.status === 'active') {
+      return template;
+    }
+
+    const previous = await PromptTemplate.findOne({ name, status: 'active' });
+    if (previous) {
+      previous.status = 'retired';
+      previous.retiredAt = new Date();
+      await previous.save();
+    }
+
+    template.status = 'active';
+    template.publishedAt = new Date();
+    template.publishedBy = new mongoose.Types.ObjectId(userId);
+    template.retiredAt = undefined;
+    await template.save();
+
+    this.cache.delete(name);
+    await this.audit(userId, 'prompt_version_published', { name, version, previousVersion: previous?.version ?? 0 });
+    return template;
+  }
+
+  /**
+   * Experiments, newest first
+   */
+  public async listExperiments(promptName?: string): Promise<IPromptExperiment[]> {
+    return PromptExperiment.find(promptName ? { promptName } : {}).sort({ startedAt: -1 });
+  }
+
+  /**
+   * Start splitting a prompt's traffic between versions. Version 0 is the built-in template.
+   */
+  public async startExperiment(input: PromptExperimentInput, userId: string): Promise<IPromptExperiment> {
+    this.getBuiltIn(input.promptName);
+
+    const versions = input.variants.map(variant => variant.version);
+    if (input.variants.length < 2 || new Set(versions).size !== versions.length) {
+      throw new PromptRegistryError('An experiment needs at least two different versions', 'INVALID_VARIANTS');
+    }
+    if (!input.variants.some(variant => variant.weight > 0)) {
+      throw new PromptRegistryError('At least one variant needs a positive weight', 'INVALID_VARIANTS');
+    }
+
+    const stored = await PromptTemplate.find({ name: input.promptName, version: { $in: versions } }).select('version status');
+    const unavailable = versions.filter(version =>
+      version !== 0 && !stored.some(template => template.version === version && template.status !== 'retired')
+    );
+    if (unavailable.length > 0) {
+      throw new PromptRegistryError(
+        `Versions ${unavailable.join(', ')} of ${input.promptName} do not exist or are retired`,
+        'PROMPT_VERSION_NOT_FOUND',
+        { unavailable }
+      );
+    }
+
+    if (await PromptExperiment.exists({ promptName: input.promptName, status: 'running' })) {
+      throw new PromptRegistryError(`An experiment is already running for ${input.promptName}`, 'EXPERIMENT_RUNNING');
+    }
+
+    const experiment = await PromptExperiment.create({
+      name: input.name,
+      promptName: input.promptName,
+      description: input.description,
+      variants: input.variants.map(variant => ({ version: variant.version, weight: variant.weight, assignments: 0 })),
+      status: 'running',
+      startedAt: new Date(),
+      createdBy: userId
+    });
+
+    this.cache.delete(input.promptName);
+    await this.audit(userId, 'prompt_experiment_started', {
+      experimentId: experiment._id.toString(),
+      promptName: input.promptName,
+      variants: input.variants
+    });
+    return experiment;
+  }
+
+  /**
+   * Stop an experiment, optionally publishing the winning version
+   */
+  public async stopExperiment(id: string, userId: string, promoteVersion?: number): Promise<IPromptExperiment> {
+    const experiment = await this.getExperiment(id);
+    if (experiment.status === 'stopped') {
+      throw new PromptRegistryError('The experiment has already stopped', 'EXPERIMENT_STOPPED');
+    }
+    if (promoteVersion !== undefined && !experiment.variants.some(variant => variant.version === promoteVersion)) {
+      throw new PromptRegistryError(`Version ${promoteVersion} is not part of the experiment`, 'INVALID_VARIANTS');
+    }
+
+    experiment.status = 'stopped';
+    experiment.stoppedAt = new Date();
+    experiment.promotedVersion = promoteVersion;
+    await experiment.save();
+    this.cache.delete(experiment.promptName);
+
+    if (promoteVersion) {
+      await this.publishVersion(experiment.promptName, promoteVersion, userId);
+    } else if (promoteVersion === 0) {
+      await this.restoreBuiltIn(experiment.promptName, userId);
+    }
+
+    await this.audit(userId, 'prompt_experiment_stopped', {
+      experimentId: id,
+      promptName: experiment.promptName,
+      promotedVersion: promoteVersion
+    });
+    return experiment;
+  }
+
+  /**
+   * Assignments and feedback accuracy for each variant of an experiment
+   */
+  public async getExperimentResults(id: string): Promise<ExperimentResults> {
+    const experiment = await this.getExperiment(id);
+    const performance = await AIFeedback.getPromptVersionPerformance(experiment.promptName, id);
+
+    return {
+      experiment,
+      variants: experiment.variants.map(variant => {
+        const stats = performance.find(entry => entry._id === variant.version);
+        return {
+          version: variant.version,
+          weight: variant.weight,
+          assignments: variant.assignments,
+          feedbackCount: stats?.count ?? 0,
+          averageAccuracy: stats ? Math.round(stats.averageAccuracy * 10) / 10 : null,
+          averageRating: stats ? Math.round(stats.averageRating * 100) / 100 : null
+        };
+      })
+    };
+  }
+
+  private async getExperiment(id: string): Promise<IPromptExperiment> {
+    const experiment = mongoose.Types.ObjectId.isValid(id) ? await PromptExperiment.findById(id) : null;
+    if (!experiment) {
+      throw new PromptRegistryError(`Experiment ${id} not found`, 'EXPERIMENT_NOT_FOUND');
+    }
+    return experiment;
+  }
+
+  private getBuiltIn(name: string): BuiltInPrompt {
+    const builtIn = DEFAULT_PROMPT_TEMPLATES[name];
+    if (!builtIn) {
+      throw new PromptRegistryError(`Unknown prompt ${name}`, 'PROMPT_NOT_FOUND');
+    }
+    return builtIn;
+  }
+
+  private async resolve(name: string): Promise<ResolvedPrompt> {
+    const cached = this.cache.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const [active, experiment] = await Promise.all([
+      PromptTemplate.findOne({ name, status: 'active' }).lean(),
+      PromptExperiment.findOne({ promptName: name, status: 'running' })
+    ]);
+
+    const resolved: ResolvedPrompt = {
+      active: active
+        ? { version: active.version, template: active.template, systemPrompt: active.systemPrompt }
+        : { version: 0, ...this.getBuiltIn(name) },
+      experiment: experiment || undefined,
+      expiresAt: Date.now() + CACHE_TTL_MS
+    };
+    this.cache.set(name, resolved);
+    return resolved;
+  }
+
+  private async getVersionContent(name: string, version: number): Promise<PromptVersionContent> {
+    if (version === 0) {
+      return { version: 0, ...this.getBuiltIn(name) };
+    }
+
+    const template = await PromptTemplate.findOne({ name, version }).lean();
+    if (!template) {
+      throw new PromptRegistryError(`Prompt ${name} has no version ${version}`, 'PROMPT_VERSION_NOT_FOUND');
+    }
+    return { version, template: template.template, systemPrompt: template.systemPrompt };
+  }
+
+  // Retire the active version so the built-in template is served again
+  private async restoreBuiltIn(name: string, userId: string): Promise<void> {
+    const previous = await PromptTemplate.findOneAndUpdate(
+      { name, status: 'active' },
+      { status: 'retired', retiredAt: new Date() }
+    );
+    this.cache.delete(name);
+    await this.audit(userId, 'prompt_version_published', { name, version: 0, previousVersion: previous?.version ?? 0 });
+  }
+
+  private recordAssignment(experimentId: string, version: number): void {
+    PromptExperiment.updateOne(
+      { _id: experimentId, 'variants.version': version },
+      { $inc: { 'variants.$.assignments': 1 } }
+    ).catch(error => logger.error(`Failed to record prompt experiment assignment: ${error}`));
+  }
+
+  private async audit(userId: string, action: AuditAction, metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await AuditLog.create({ userId, action, metadata, timestamp: new Date() });
+    } catch (error) {
+      logger.error(`Failed to write audit entry ${action}: ${error}`, metadata);
+    }
+  }
+}
+
+export const promptRegistry = PromptRegistryService.getInstance();
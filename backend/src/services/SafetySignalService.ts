@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+import logger from '../utils/logger';
+import { MedicationSafetyIssue, IMedicationSafetyIssue } from '../models/MedicationSafetyIssue';
+import { SafetySignal, ISafetySignal, SafetySignalStatus } from '../models/SafetySignal';
+import AuditLog from '../models/AuditLog';
+import { IssueStatus } from './MedicationSafetyMonitor';
+import signalDetector, { PharmacovigilanceReport, SignalDetectionOptions } from '../utils/signalDetection';
+
+/**
+ * Error raised for invalid signal review operations
+ */
+export class SafetySignalError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'SafetySignalError';
+    this.code = code;
+  }
+}
+
+/**
+ * Outcome of a detection run
+ */
+export interface SignalDetectionRun {
+  asOf: Date;
+  reportsAnalyzed: number;
+  signalsDetected: number;
+  emerging: number;
+  created: number;
+  updated: number;
+  reopened: number;
+}
+
+/**
+ * Reviewer decision on a signal
+ */
+export interface SignalReviewInput {
+  status: Exclude<SafetySignalStatus, 'new'>;
+  notes: string;
+}
+
+// Statuses still waiting for a reviewer
+const OPEN_STATUSES: SafetySignalStatus[] = ['new', 'under_review'];
+
+/**
+ * Runs pharmacovigilance signal detection over reported safety issues and manages the
+ * admin review queue of detected drug–event signals
+ */
+export class SafetySignalService {
+  private static instance: SafetySignalService;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): SafetySignalService {
+    if (!SafetySignalService.instance) {
+      SafetySignalService.instance = new SafetySignalService();
+    }
+    return SafetySignalService.instance;
+  }
+
+  /**
+   * Detect signals over the rolling windows ending at asOf and update the review queue.
+   * A refuted signal is reopened when more cases have been reported since its review.
+   */
+  public async runDetection(options: SignalDetectionOptions = {}): Promise<SignalDetectionRun> {
+    const asOf = options.asOf || new Date();
+    const windowDays = options.windowDays ?? 90;
+    const stepDays = options.stepDays ?? 30;
+    const windowCount = options.windowCount ?? 4;
+    const since = new Date(asOf.getTime() - (windowDays + stepDays * (windowCount - 1)) * 24 * 60 * 60 * 1000);
+
+    const issues = await MedicationSafetyIssue.find({
+      reportDate: { $gt: since, $lte: asOf },
+      status: { $ne: IssueStatus.DISMISSED }
+    });
+    const reports = issues.map((issue: IMedicationSafetyIssue) => this.toReport(issue));
+
+    const signals = signalDetector.detectSignals(reports, { ...options, asOf, windowDays, stepDays, windowCount });
+    const run: SignalDetectionRun = {
+      asOf,
+      reportsAnalyzed: reports.length,
+      signalsDetected: signals.length,
+      emerging: signals.filter(signal => signal.emerging).length,
+      created: 0,
+      updated: 0,
+      reopened: 0
+    };
+
+    for (const signal of signals) {
+      const { current } = signal;
+      const fields = {
+        emerging: signal.emerging,
+        caseCount: current.a,
+        prr: current.prr.value,
+        prrLower: current.prr.lower,
+        prrUpper: current.prr.upper,
+        ror: current.ror.value,
+        rorLower: current.ror.lower,
+        rorUpper: current.ror.upper,
+        chiSquare: current.chiSquare,
+        windowStart: signal.windowStart,
+        windowEnd: signal.windowEnd,
+        trend: signal.trend,
+        lastDetectedAt: asOf
+      };
+
+      const existing = await SafetySignal.findOne({ drug: current.drug, event: current.event });
+      if (!existing) {
+        await SafetySignal.create({ drug: current.drug, event: current.event, status: 'new', firstDetectedAt: asOf, ...fields });
+        run.created++;
+        continue;
+      }
+
+      existing.set(fields);
+      if (existing.status === 'refuted' && current.a > (existing.caseCountAtReview ?? 0)) {
+        existing.status = 'new';
+        run.reopened++;
+      } else {
+        run.updated++;
+      }
+      await existing.save();
+    }
+
+    // Signals that dropped out of the current window are no longer emerging
+    await SafetySignal.updateMany({ lastDetectedAt: { $lt: asOf }, emerging: true }, { emerging: false });
+
+    logger.info(
+      `Safety signal detection: ${run.signalsDetected} signals (${run.emerging} emerging) from ${run.reportsAnalyzed} reports`
+    );
+    return run;
+  }
+
+  /**
+   * List signals for review; defaults to open signals, emerging and strongest first
+   */
+  public async getReviewQueue(statuses: SafetySignalStatus[] = OPEN_STATUSES): Promise<ISafetySignal[]> {
+    return SafetySignal.find({ status: { $in: statuses } })
+      .sort({ emerging: -1, prrLower: -1, lastDetectedAt: -1 });
+  }
+
+  /**
+   * Get a single signal
+   */
+  public async getSignal(signalId: string): Promise<ISafetySignal> {
+    const signal = mongoose.Types.ObjectId.isValid(signalId) ? await SafetySignal.findById(signalId) : null;
+    if (!signal) {
+      throw new SafetySignalError(`Safety signal ${signalId} not found`, 'SIGNAL_NOT_FOUND');
+    }
+    return signal;
+  }
+
+  /**
+   * Record a reviewer decision on a signal
+   */
+  public async reviewSignal(signalId: string, review: SignalReviewInput, userId: string): Promise<ISafetySignal> {
+    if (!review.notes || !review.notes.trim()) {
+      throw new SafetySignalError('Review notes are required', 'NOTES_REQUIRED');
+    }
+
+    const signal = await this.getSignal(signalId);
+    const previousStatus = signal.status;
+
+    signal.status = review.status;
+    signal.reviewNotes = review.notes.trim();
+    signal.reviewedBy = userId;
+    signal.reviewedAt = new Date();
+    signal.caseCountAtReview = signal.caseCount;
+    await signal.save();
+
+    try {
+      await AuditLog.create({
+        userId,
+        action: 'safety_signal_reviewed',
+        metadata: {
+          signalId: signal._id.toString(),
+          drug: signal.drug,
+          event: signal.event,
+          previousStatus,
+          status: review.status
+        },
+        timestamp: new Date()
+      });
+    } catch (error) {
+      logger.error(`Failed to write audit entry for safety signal ${signalId}: ${error}`);
+    }
+
+    return signal;
+  }
+
+  /**
+   * Reduce a safety issue to the drugs and events it reports; issues without symptoms
+   * are counted under their issue type
+   */
+  private toReport(issue: IMedicationSafetyIssue): PharmacovigilanceReport {
+    return {
+      medications: issue.medications,
+      events: issue.symptoms && issue.symptoms.length > 0 ? issue.symptoms : [issue.issueType],
+      reportDate: issue.reportDate
+    };
+  }
+}
+
+export const safetySignalService = SafetySignalService.getInstance();
@@ -0,0 +1,451 @@
+import logger from '../utils/logger';
+import { IMedication } from '../models/Medication';
+import {
+  TherapeuticDrugLevel,
+  ITherapeuticDrugLevel,
+  IDoseCorrection,
+  LevelSampleTiming,
+  LevelStatus
+} from '../models/TherapeuticDrugLevel';
+import { MedicationRepository } from '../repositories/MedicationRepository';
+import medicationAnalyzer, { TherapeuticRange } from '../utils/medicationAnalyzer';
+import doseAdjustmentEngine from '../utils/doseAdjustment';
+
+/**
+ * Error raised by the therapeutic drug monitoring workflow
+ */
+export class TherapeuticDrugMonitoringError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+  }
+}
+
+/**
+ * Dosing information used to plan sampling times
+ */
+export interface SamplingPlanInput {
+  therapyStartedAt?: Date;
+  frequency?: string;
+  intervalHours?: number;
+  route?: string;
+}
+
+/**
+ * A recommended blood sampling time
+ */
+export interface SamplingTime {
+  timing: Exclude<LevelSampleTiming, 'random'>;
+  scheduledAt: Date;
+  windowStart: Date;
+  windowEnd: Date;
+  description: string;
+}
+
+/**
+ * Recommended sampling schedule for a monitored medication
+ */
+export interface SamplingPlan {
+  medicationId: string;
+  medicationName: string;
+  halfLifeHours: number;
+  dosingIntervalHours: number;
+  steadyStateHours: number;
+  steadyStateReachedAt: Date;
+  samples: SamplingTime[];
+  therapeuticLevels: TherapeuticRange[];
+  notes: string[];
+}
+
+/**
+ * A measured level to record against a prescription
+ */
+export interface RecordLevelInput {
+  patientId: string;
+  prescriptionId: string;
+  medicationId: string;
+  value: number;
+  unit: string;
+  timing: LevelSampleTiming;
+  sampledAt?: Date;
+  lastDoseAt?: Date;
+  therapyStartedAt?: Date;
+  currentDose?: {
+    amount: number;
+    unit: string;
+    intervalHours?: number;
+  };
+  recordedBy?: string;
+  notes?: string;
+}
+
+/**
+ * Interpretation of a measured level against the therapeutic range
+ */
+export interface LevelEvaluation {
+  status: LevelStatus;
+  range?: TherapeuticRange;
+  message?: string;
+}
+
+/**
+ * Level history for one medication
+ */
+export interface MedicationLevelHistory {
+  medicationId: string;
+  medicationName: string;
+  levels: ITherapeuticDrugLevel[];
+  latest?: ITherapeuticDrugLevel;
+  outOfRangeCount: number;
+}
+
+/**
+ * Level history for a patient, grouped by medication
+ */
+export interface PatientLevelHistory {
+  patientId: string;
+  medications: MedicationLevelHistory[];
+}
+
+/**
+ * Service for therapeutic drug monitoring (TDM) of narrow-therapeutic-index drugs
+ */
+export class TherapeuticDrugMonitoringService {
+  private static instance: TherapeuticDrugMonitoringService;
+  private medicationRepo: MedicationRepository;
+
+  // Hours after the start of a dose at which the peak is drawn, by route
+  private readonly peakOffsetHours: Record<string, number> = {
+    iv: 1, // 30 minutes after a 30-minute infusion
+    im: 1,
+    oral: 2
+  };
+
+  private readonly DEFAULT_INTERVAL_HOURS = 24;
+  private readonly HOLD_DOSE_THRESHOLD = 1.5; // multiple of the therapeutic maximum
+
+  private constructor() {
+    this.medicationRepo = MedicationRepository.getInstance();
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TherapeuticDrugMonitoringService {
+    if (!TherapeuticDrugMonitoringService.instance) {
+      TherapeuticDrugMonitoringService.instance = new TherapeuticDrugMonitoringService();
+    }
+    return TherapeuticDrugMonitoringService.instance;
+  }
+
+  /**
+   * Check whether a medication has therapeutic levels defined
+   */
+  public isMonitored(medication: IMedication): boolean {
+    return Array.isArray(medication.therapeuticLevels) && medication.therapeuticLevels.length > 0;
+  }
+
+  /**
+   * Build a sampling plan for a medication by id
+   */
+  public async getSamplingPlanForMedication(medicationId: string, input: SamplingPlanInput = {}): Promise<SamplingPlan> {
+    const medication = await this.getMedication(medicationId);
+    return this.getSamplingPlan(medication, input);
+  }
+
+  /**
+   * Compute recommended sampling times from the medication's half-life.
+   * Samples are scheduled around the first dose given after steady state (~5 half-lives).
+   */
+  public getSamplingPlan(medication: IMedication, input: SamplingPlanInput = {}): SamplingPlan {
+    if (!this.isMonitored(medication)) {
+      throw new TherapeuticDrugMonitoringError(
+        `${medication.name} has no therapeutic levels defined`,
+        'NOT_MONITORED'
+      );
+    }
+
+    if (!medication.halfLife || medication.halfLife <= 0) {
+      throw new TherapeuticDrugMonitoringError(
+        `Half-life is required to plan sampling for ${medication.name}`,
+        'MISSING_HALF_LIFE'
+      );
+    }
+
+    const notes: string[] = [];
+    const frequency = input.frequency || medication.standardDosages?.[0]?.frequency;
+    let intervalHours = input.intervalHours || (frequency ? doseAdjustmentEngine.frequencyToIntervalHours(frequency) : undefined);
+    if (!intervalHours) {
+      intervalHours = this.DEFAULT_INTERVAL_HOURS;
+      notes.push(`Dosing interval unknown; assuming every ${intervalHours} hours`);
+    }
+
+    const steadyStateHours = medicationAnalyzer.calculateTimeToSteadyState(medication.halfLife);
+    const startedAt = input.therapyStartedAt || new Date();
+    const dosesToSteadyState = Math.ceil(steadyStateHours / intervalHours);
+    const steadyStateDoseAt = this.addHours(startedAt, dosesToSteadyState * intervalHours);
+
+    const timings = this.getSampleTimings(medication);
+    const route = (input.route || medication.route || 'oral').toLowerCase();
+    const peakOffset = this.peakOffsetHours[route] ?? this.peakOffsetHours.oral;
+
+    const samples: SamplingTime[] = timings.map(timing => {
+      if (timing === 'trough') {
+        const scheduledAt = this.addHours(steadyStateDoseAt, -0.5);
+        return {
+          timing,
+          scheduledAt,
+          windowStart: this.addHours(steadyStateDoseAt, -1),
+          windowEnd: steadyStateDoseAt,
+          description: `Trough: draw within 30 minutes before dose ${dosesToSteadyState + 1}`
+        };
+      }
+
+      const scheduledAt = this.addHours(steadyStateDoseAt, peakOffset);
+      return {
+        timing,
+        scheduledAt,
+        windowStart: this.addHours(scheduledAt, -0.5),
+        windowEnd: this.addHours(scheduledAt, 0.5),
+        description: `Peak: draw ${peakOffset} hour(s) after the start of dose ${dosesToSteadyState + 1} (${route})`
+      };
+    }).sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+    if (medication.halfLife >= 48) {
+      notes.push(
+        `Long half-life: steady state takes about ${Math.round(steadyStateHours / 24)} days; consider a loading dose if a faster response is needed`
+      );
+    }
+    if (intervalHours > medication.halfLife * 3) {
+      notes.push('Dosing interval is long relative to half-life; trough levels may fall below the assay limit');
+    }
+
+    return {
+      medicationId: medication._id?.toString(),
+      medicationName: medication.name,
+      halfLifeHours: medication.halfLife,
+      dosingIntervalHours: intervalHours,
+      steadyStateHours,
+      steadyStateReachedAt: this.addHours(startedAt, steadyStateHours),
+      samples,
+      therapeuticLevels: medication.therapeuticLevels,
+      notes
+    };
+  }
+
+  /**
+   * Interpret a measured level against the medication's therapeutic range
+   */
+  public evaluateLevel(medication: IMedication, value: number, unit: string, timing: LevelSampleTiming): LevelEvaluation {
+    const check = medicationAnalyzer.checkTherapeuticLevel(medication, value, unit, timing === 'trough');
+    const range = check.recommendedRange;
+
+    if (!range) {
+      return { status: 'indeterminate', message: check.message };
+    }
+
+    if (check.isWithinRange) {
+      return { status: 'therapeutic', range };
+    }
+
+    return {
+      status: value < range.min ? 'subtherapeutic' : 'supratherapeutic',
+      range,
+      message: check.message
+    };
+  }
+
+  /**
+   * Suggest a dose correction using linear pharmacokinetic scaling:
+   * new dose = current dose × (target level / measured level), targeting the middle of the range.
+   */
+  public suggestDoseCorrection(
+    currentDose: { amount: number; unit: string },
+    measuredLevel: number,
+    range: TherapeuticRange
+  ): IDoseCorrection | undefined {
+    if (measuredLevel <= 0 || currentDose.amount <= 0) {
+      return undefined;
+    }
+
+    const targetLevel = (range.min + range.max) / 2;
+    const scalingFactor = targetLevel / measuredLevel;
+    const suggestedDose = this.roundDose(currentDose.amount * scalingFactor);
+    const holdNextDose = measuredLevel > range.max * this.HOLD_DOSE_THRESHOLD;
+
+    let rationale = `Measured level ${measuredLevel} ${range.unit} vs target ${targetLevel} ${range.unit}; ` +
+      `scaling ${currentDose.amount} ${currentDose.unit} by ${scalingFactor.toFixed(2)} assuming linear kinetics`;
+    if (holdNextDose) {
+      rationale += '. Level is well above range: hold the next dose and recheck before resuming';
+    }
+
+    return {
+      currentDose: currentDose.amount,
+      suggestedDose,
+      unit: currentDose.unit,
+      targetLevel,
+      scalingFactor: Math.round(scalingFactor * 100) / 100,
+      holdNextDose,
+      rationale
+    };
+  }
+
+  /**
+   * Record a measured level against a prescription, flag out-of-range results
+   * and attach a dose correction where one can be derived
+   */
+  public async recordLevel(input: RecordLevelInput): Promise<ITherapeuticDrugLevel> {
+    if (!Number.isFinite(input.value) || input.value < 0) {
+      throw new TherapeuticDrugMonitoringError('Level value must be a non-negative number', 'INVALID_LEVEL');
+    }
+
+    const medication = await this.getMedication(input.medicationId);
+    if (!this.isMonitored(medication)) {
+      throw new TherapeuticDrugMonitoringError(
+        `${medication.name} has no therapeutic levels defined`,
+        'NOT_MONITORED'
+      );
+    }
+
+    const sampledAt = input.sampledAt || new Date();
+    const evaluation = this.evaluateLevel(medication, input.value, input.unit, input.timing);
+    const notes: string[] = evaluation.message ? [evaluation.message] : [];
+
+    let atSteadyState: boolean | undefined;
+    if (input.therapyStartedAt && medication.halfLife) {
+      const hoursOnTherapy = (sampledAt.getTime() - input.therapyStartedAt.getTime()) / 3600000;
+      atSteadyState = hoursOnTherapy >= medicationAnalyzer.calculateTimeToSteadyState(medication.halfLife);
+      if (!atSteadyState) {
+        notes.push('Sample drawn before steady state; repeat the level before adjusting the dose');
+      }
+    }
+
+    let doseCorrection: IDoseCorrection | undefined;
+    if (
+      input.currentDose &&
+      evaluation.range &&
+      atSteadyState !== false &&
+      (evaluation.status === 'subtherapeutic' || evaluation.status === 'supratherapeutic')
+    ) {
+      doseCorrection = this.suggestDoseCorrection(input.currentDose, input.value, evaluation.range);
+    }
+
+    const level = await TherapeuticDrugLevel.create({
+      patientId: input.patientId,
+      prescriptionId: input.prescriptionId,
+      medicationId: medication._id,
+      medicationName: medication.name,
+      value: input.value,
+      unit: input.unit,
+      timing: input.timing,
+      sampledAt,
+      lastDoseAt: input.lastDoseAt,
+      therapyStartedAt: input.therapyStartedAt,
+      atSteadyState,
+      status: evaluation.status,
+      therapeuticMin: evaluation.range?.min,
+      therapeuticMax: evaluation.range?.max,
+      message: notes.join('. ') || undefined,
+      currentDose: input.currentDose,
+      doseCorrection,
+      recordedBy: input.recordedBy,
+      notes: input.notes
+    });
+
+    if (evaluation.status === 'subtherapeutic' || evaluation.status === 'supratherapeutic') {
+      logger.warn(`${evaluation.status} ${medication.name} level recorded`, {
+        patientId: input.patientId,
+        prescriptionId: input.prescriptionId,
+        value: input.value,
+        unit: input.unit
+      });
+    }
+
+    return level;
+  }
+
+  /**
+   * Get a patient's level history grouped by medication, oldest first
+   */
+  public async getPatientLevelHistory(
+    patientId: string,
+    options: { medicationId?: string; from?: Date; to?: Date } = {}
+  ): Promise<PatientLevelHistory> {
+    const query: Record<string, unknown> = { patientId };
+    if (options.medicationId) {
+      query.medicationId = options.medicationId;
+    }
+    if (options.from || options.to) {
+      query.sampledAt = {
+        ...(options.from ? { $gte: options.from } : {}),
+        ...(options.to ? { $lte: options.to } : {})
+      };
+    }
+
+    const levels = await TherapeuticDrugLevel.find(query).sort({ sampledAt: 1 });
+    const byMedication = new Map<string, MedicationLevelHistory>();
+
+    for (const level of levels) {
+      const medicationId = level.medicationId.toString();
+      let history = byMedication.get(medicationId);
+      if (!history) {
+        history = { medicationId, medicationName: level.medicationName, levels: [], outOfRangeCount: 0 };
+        byMedication.set(medicationId, history);
+      }
+
+      history.levels.push(level);
+      history.latest = level;
+      if (level.status === 'subtherapeutic' || level.status === 'supratherapeutic') {
+        history.outOfRangeCount++;
+      }
+    }
+
+    return { patientId, medications: Array.from(byMedication.values()) };
+  }
+
+  /**
+   * Get all levels recorded against a prescription, oldest first
+   */
+  public async getPrescriptionLevels(prescriptionId: string): Promise<ITherapeuticDrugLevel[]> {
+    return TherapeuticDrugLevel.find({ prescriptionId }).sort({ sampledAt: 1 });
+  }
+
+  /**
+   * Load a medication or throw if it does not exist
+   */
+  private async getMedication(medicationId: string): Promise<IMedication> {
+    const medication = await this.medicationRepo.getMedicationById(medicationId);
+    if (!medication) {
+      throw new TherapeuticDrugMonitoringError(`Medication ${medicationId} not found`, 'MEDICATION_NOT_FOUND');
+    }
+    return medication;
+  }
+
+  /**
+   * Sample timings required by the medication's therapeutic ranges.
+   * Steady-state ranges are sampled as troughs.
+   */
+  private getSampleTimings(medication: IMedication): Array<'peak' | 'trough'> {
+    const timings = new Set<'peak' | 'trough'>();
+    for (const range of medication.therapeuticLevels) {
+      timings.add(range.timing === 'peak' ? 'peak' : 'trough');
+    }
+    return Array.from(timings);
+  }
+
+  private addHours(date: Date, hours: number): Date {
+    return new Date(date.getTime() + hours * 3600000);
+  }
+
+  /**
+   * Round a dose to two significant figures
+   */
+  private roundDose(dose: number): number {
+    return Number(dose.toPrecision(2));
+  }
+}
+
+export const therapeuticDrugMonitoringService = TherapeuticDrugMonitoringService.getInstance();
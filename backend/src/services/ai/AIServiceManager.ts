@@ -1,19 +1,65 @@
-import { OpenAI } from 'openai';
-import { logger } from '../logger';
+import { z, ZodType } from 'zod';
+import logger from '../../utils/logger';
+import { aiConfig, AIModelConfig } from '../../config/ai.config';
+import { InvocationContext, llmGateway } from './llm';
 
-export class AIServiceManager {
-    private openai: OpenAI;
+export interface CompletionOptions {
+    config?: AIModelConfig; // defaults to the health analytics model
+    model?: string; // model name in place of the config's
+    systemPrompt?: string;
+    temperature?: number;
+    maxTokens?: number;
+    feature?: string; // name for the AI usage ledger and budgets
+    prompt?: InvocationContext['prompt']; // registry prompt version that built the prompt
+}
 
-    constructor() {
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY
-        });
-    }
+export interface DiagnosisSuggestion {
+    condition: string;
+    confidence: number; // 0-1
+    description: string;
+    treatments: string[];
+}
+
+export interface DiagnosisSuggestionResult {
+    suggestions: DiagnosisSuggestion[];
+    confidence: number; // overall confidence in the assessment, 0-1
+}
 
-    async generateDiagnosisSuggestion(symptoms: string[], patientHistory: any) {
+export interface MedicalReportAnalysis {
+    analysis: string;
+    keyFindings: string[];
+    recommendations: string[];
+    concerns: string[];
+}
+
+const diagnosisSuggestionSchema: ZodType<DiagnosisSuggestionResult> = z.object({
+    suggestions: z.array(z.object({
+        condition: z.string().min(1),
+        confidence: z.number().min(0).max(1),
+        description: z.string(),
+        treatments: z.array(z.string())
+    })),
+    confidence: z.number().min(0).max(1)
+});
+
+const reportAnalysisSchema: ZodType<MedicalReportAnalysis> = z.object({
+    analysis: z.string().min(1),
+    keyFindings: z.array(z.string()),
+    recommendations: z.array(z.string()),
+    concerns: z.array(z.string())
+});
+
+export class AIServiceManager {
+    async generateDiagnosisSuggestion(symptoms: string[], patientHistory: any): Promise<DiagnosisSuggestionResult> {
         try {
-            const response = await this.openai.chat.completions.create({
-                model: "gpt-4",
+            return await llmGateway.completeStructured({
+                config: aiConfig.openai.diagnosisModel,
+                invocation: { feature: 'diagnosis.suggestions' },
+                schema: diagnosisSuggestionSchema,
+                format: `{
+  "suggestions": [{ "condition": string, "confidence": number 0-1, "description": string, "treatments": string[] }],
+  "confidence": number 0-1
+}`,
                 messages: [
                     {
                         role: "system",
@@ -25,51 +71,70 @@ export class AIServiceManager {
                           Symptoms: ${symptoms.join(', ')}
                           Patient History: ${JSON.stringify(patientHistory, null, 2)}`
                     }
-                ],
-                temperature: 0.3
+                ]
             });
-
-            return {
-                suggestions: response.choices[0].message.content,
-                confidence: response.choices[0].finish_reason === 'stop' ? 'high' : 'medium'
-            };
         } catch (error) {
             logger.error('AI Diagnosis Generation Error:', error);
             throw error;
         }
     }
 
-    async analyzeMedicalReport(reportText: string) {
+    async analyzeMedicalReport(reportText: string): Promise<MedicalReportAnalysis> {
         try {
-            const response = await this.openai.chat.completions.create({
-                model: "gpt-4",
-                messages: [
-                    {
-                        role: "system",
-                        content: "You are a medical report analyzer. Extract key findings, recommendations, and potential concerns from medical reports."
-                    },
-                    {
-                        role: "user",
-                        content: reportText
-                    }
-                ],
-                temperature: 0.2
+            return await this.generateStructured(reportText, reportAnalysisSchema, `{
+  "analysis": string,
+  "keyFindings": string[],
+  "recommendations": string[],
+  "concerns": string[]
+}`, {
+                config: aiConfig.openai.reportAnalysisModel,
+                feature: 'report.analysis',
+                systemPrompt: "You are a medical report analyzer. Extract key findings, recommendations, and potential concerns from medical reports."
             });
-
-            return {
-                analysis: response.choices[0].message.content,
-                keyFindings: this.extractKeyFindings(response.choices[0].message.content)
-            };
         } catch (error) {
             logger.error('Medical Report Analysis Error:', error);
             throw error;
         }
     }
 
-    private extractKeyFindings(analysis: string) {
-        // Implementation to extract structured key findings
-        return analysis.split('\n').filter(line => line.includes(':'));
+    /**
+     * Completion for a prompt whose answer must be JSON matching `schema`; `format` shows
+     * the model the expected document
+     */
+    async generateStructured<T>(
+        prompt: string,
+        schema: ZodType<T>,
+        format: string,
+        options: CompletionOptions = {}
+    ): Promise<T> {
+        const config = options.config || aiConfig.openai.healthAnalyticsModel;
+        return llmGateway.completeStructured({
+            config: options.model ? { ...config, modelName: options.model } : config,
+            schema,
+            format,
+            messages: options.systemPrompt
+                ? [{ role: 'system', content: options.systemPrompt }, { role: 'user', content: prompt }]
+                : [{ role: 'user', content: prompt }],
+            overrides: { temperature: options.temperature, maxTokens: options.maxTokens },
+            invocation: { feature: options.feature, prompt: options.prompt }
+        });
+    }
+
+    async generateCompletion(prompt: string, options: CompletionOptions = {}) {
+        try {
+            const config = options.config || aiConfig.openai.healthAnalyticsModel;
+            return await llmGateway.prompt(
+                options.model ? { ...config, modelName: options.model } : config,
+                prompt,
+                options.systemPrompt,
+                { temperature: options.temperature, maxTokens: options.maxTokens },
+                { feature: options.feature, prompt: options.prompt }
+            );
+        } catch (error) {
+            logger.error('AI Completion Error:', error);
+            throw error;
+        }
     }
 }
 
-export const aiService = new AIServiceManager(); 
\ No newline at end of file
+export const aiService = new AIServiceManager();
@@ -1,18 +1,48 @@
 import { Logger } from 'winston';
+import { ZodType } from 'zod';
 import { AIModelConfig } from '../../config/ai.config';
 import { createLogger } from '../../utils/logger';
+import { ChatMessage, CompletionOverrides, CompletionResult, llmGateway } from './llm';
 
 export abstract class BaseAIService {
     protected config: AIModelConfig;
     protected logger: Logger;
     protected modelName: string;
+    protected feature: string; // name the AI usage ledger and budgets know this service by
 
-    constructor(config: AIModelConfig) {
+    constructor(config: AIModelConfig, feature: string) {
         this.config = config;
         this.modelName = config.modelName;
+        this.feature = feature;
         this.logger = createLogger(`AI-${this.modelName}`);
     }
 
+    /**
+     * Chat completion through the LLM gateway using this service's model config
+     */
+    protected async complete(messages: ChatMessage[], overrides?: CompletionOverrides): Promise<CompletionResult> {
+        return llmGateway.complete({ config: this.config, messages, overrides, invocation: { feature: this.feature } });
+    }
+
+    /**
+     * Chat completion whose output must be JSON matching `schema`; see LLMGateway.completeStructured
+     */
+    protected async completeStructured<T>(
+        messages: ChatMessage[],
+        schema: ZodType<T>,
+        format: string,
+        overrides?: CompletionOverrides
+    ): Promise<T> {
+        return llmGateway.completeStructured({
+            config: this.config,
+            messages,
+            schema,
+            format,
+            overrides,
+            invocation: { feature: this.feature }
+        });
+    }
+
     protected async validateInput(input: any): Promise<boolean> {
         // Implement input validation logic
         return true;
@@ -1,19 +1,14 @@
-import { OpenAI } from 'openai';
 import { logger } from '../logger';
+import { aiConfig } from '../../config/ai.config';
+import { llmGateway } from './llm';
 
 export class DocumentationAssistant {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
 
   async generateMedicalNotes(consultation: any) {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await llmGateway.complete({
+        config: aiConfig.openai.healthAnalyticsModel,
+        invocation: { feature: 'documentation.notes' },
         messages: [
           {
             role: "system",
@@ -26,7 +21,7 @@ export class DocumentationAssistant {
         ]
       });
 
-      return this.formatMedicalNotes(response.choices[0].message.content);
+      return this.formatMedicalNotes(response.content);
     } catch (error) {
       logger.error('Medical Notes Generation Error:', error);
       throw error;
@@ -1,6 +1,41 @@
+import { z } from 'zod';
 import { aiService } from './AIServiceManager';
+import { StructuredOutputError } from './llm';
 import logger from '../../utils/logger';
-import { InteractionSeverity, DrugInteractionRisk } from './PrescriptionSuggestionService';
+import { aiConfig } from '../../config/ai.config';
+import { InteractionSeverity } from '../../types/medical';
+import { DrugInteractionRisk } from './PrescriptionSuggestionService';
+import {
+    interactionKnowledgeBase,
+    InteractionEntryInput,
+    DEFAULT_INTERACTIONS
+} from '../InteractionKnowledgeBaseService';
+import { InteractionEvidenceLevel } from '../../models/DrugInteraction';
+
+/**
+ * Interaction record held in the in-memory lookup map
+ */
+interface InteractionRecord {
+    drug: string;
+    severity: InteractionSeverity;
+    description: string;
+    mechanism: string;
+    evidenceLevel: InteractionEvidenceLevel;
+    management: string;
+    source: string;
+}
+
+// Interactions suggested by the model; enums are imported from types directly because
+// PrescriptionSuggestionService imports this module
+const aiInteractionSchema = z.object({
+    interactions: z.array(z.object({
+        medications: z.tuple([z.string().min(1), z.string().min(1)]),
+        severity: z.nativeEnum(InteractionSeverity),
+        description: z.string().min(1),
+        mechanism: z.string().optional(),
+        management: z.string().optional()
+    }))
+});
 
 /**
  * Service for checking drug interactions between medications
@@ -8,8 +43,12 @@ import { InteractionSeverity, DrugInteractionRisk } from './PrescriptionSuggesti
  */
 export class DrugInteractionService {
     private static instance: DrugInteractionService;
-    private interactionDatabase: Map<string, Array<{drug: string, severity: InteractionSeverity, description: string}>>;
+    private static readonly LOAD_RETRY_INTERVAL_MS = 60 * 1000;
+    private interactionDatabase: Map<string, InteractionRecord[]>;
     private initialized: boolean = false;
+    private initializationPromise: Promise<void> | null = null;
+    private releaseVersion?: number;
+    private retryLoadAt = 0; // after a failed load, when to try the knowledge base again
     
     /**
      * Get the singleton instance of DrugInteractionService
@@ -27,9 +66,8 @@ export class DrugInteractionService {
             return DrugInteractionService.instance;
         }
         
-        // Initialize a comprehensive interaction database
+        // The knowledge base is loaded on the first check, once the database is reachable
         this.interactionDatabase = new Map();
-        this.initializeInteractionDatabase();
         DrugInteractionService.instance = this;
     }
     
@@ -45,7 +83,7 @@ export class DrugInteractionService {
     ): Promise<DrugInteractionRisk[]> {
         try {
             // Ensure the database is initialized
-            if (!this.initialized) {
+            if (!this.initialized && Date.now() >= this.retryLoadAt) {
                 await this.initializeInteractionDatabase();
             }
             
@@ -92,196 +130,82 @@ export class DrugInteractionService {
     }
     
     /**
-     * Initialize a comprehensive interaction database with common drugs and their interactions
-     * This uses a more structured format with severity and descriptions
+     * Load the interaction database from the active knowledge base release.
+     * Falls back to the built-in baseline when no release has been published, and while the
+     * knowledge base is unreachable.
      */
     private async initializeInteractionDatabase(): Promise<void> {
         if (this.initialized) return;
         
+        if (!this.initializationPromise) {
+            this.initializationPromise = this.loadInteractionDatabase().finally(() => {
+                this.initializationPromise = null;
+            });
+        }
+        
+        return this.initializationPromise;
+    }
+    
+    /**
+     * Populate the in-memory lookup map from the knowledge base
+     */
+    private async loadInteractionDatabase(): Promise<void> {
+        let entries: InteractionEntryInput[] = DEFAULT_INTERACTIONS;
+        let releaseVersion: number | undefined;
+        
         try {
-            // Common drug interactions with severity levels and descriptions
-            const interactionData: Array<{
-                drug: string, 
-                interactsWith: Array<{
-                    drug: string, 
-                    severity: InteractionSeverity, 
-                    description: string
-                }>
-            }> = [
-                {
-                    drug: 'warfarin',
-                    interactsWith: [
-                        { 
-                            drug: 'aspirin', 
-                            severity: InteractionSeverity.HIGH, 
-                            description: 'Increased risk of bleeding' 
-                        },
-                        { 
-                            drug: 'ibuprofen', 
-                            severity: InteractionSeverity.HIGH, 
-                            description: 'Increased risk of GI bleeding' 
-                        },
-                        { 
-                            drug: 'clopidogrel', 
-                            severity: InteractionSeverity.HIGH, 
-                            description: 'Increased risk of major bleeding' 
-                        },
-                        { 
-                            drug: 'naproxen', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'May increase bleeding risk' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'simvastatin',
-                    interactsWith: [
-                        { 
-                            drug: 'clarithromycin', 
-                            severity: InteractionSeverity.HIGH, 
-                            description: 'Increased risk of myopathy and rhabdomyolysis' 
-                        },
-                        { 
-                            drug: 'itraconazole', 
-                            severity: InteractionSeverity.HIGH, 
-                            description: 'Increased risk of myopathy and rhabdomyolysis' 
-                        },
-                        { 
-                            drug: 'cyclosporine', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Increased simvastatin exposure' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'lisinopril',
-                    interactsWith: [
-                        { 
-                            drug: 'spironolactone', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Risk of hyperkalemia' 
-                        },
-                        { 
-                            drug: 'potassium supplements', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Risk of hyperkalemia' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'digoxin',
-                    interactsWith: [
-                        { 
-                            drug: 'amiodarone', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Increased digoxin levels' 
-                        },
-                        { 
-                            drug: 'verapamil', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Increased digoxin levels' 
-                        },
-                        { 
-                            drug: 'clarithromycin', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Increased risk of digoxin toxicity' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'metformin',
-                    interactsWith: [
-                        { 
-                            drug: 'contrast media', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Risk of lactic acidosis' 
-                        },
-                        { 
-                            drug: 'alcohol', 
-                            severity: InteractionSeverity.LOW, 
-                            description: 'Potential for hypoglycemia' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'levothyroxine',
-                    interactsWith: [
-                        { 
-                            drug: 'calcium supplements', 
-                            severity: InteractionSeverity.LOW, 
-                            description: 'Reduced levothyroxine absorption' 
-                        },
-                        { 
-                            drug: 'iron supplements', 
-                            severity: InteractionSeverity.LOW, 
-                            description: 'Reduced levothyroxine absorption' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'fluoxetine',
-                    interactsWith: [
-                        { 
-                            drug: 'tramadol', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Increased risk of serotonin syndrome' 
-                        },
-                        { 
-                            drug: 'monoamine oxidase inhibitors', 
-                            severity: InteractionSeverity.HIGH, 
-                            description: 'Risk of serotonin syndrome' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'amoxicillin',
-                    interactsWith: [
-                        { 
-                            drug: 'allopurinol', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Increased risk of rash' 
-                        }
-                    ]
-                },
-                {
-                    drug: 'ciprofloxacin',
-                    interactsWith: [
-                        { 
-                            drug: 'antacids', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Reduced ciprofloxacin absorption' 
-                        },
-                        { 
-                            drug: 'calcium supplements', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Reduced ciprofloxacin absorption' 
-                        },
-                        { 
-                            drug: 'iron supplements', 
-                            severity: InteractionSeverity.MEDIUM, 
-                            description: 'Reduced ciprofloxacin absorption' 
-                        }
-                    ]
+            await interactionKnowledgeBase.seedDefaultRelease();
+            const activeRelease = await interactionKnowledgeBase.getActiveRelease();
+            if (activeRelease) {
+                entries = await interactionKnowledgeBase.getActiveInteractions();
+                releaseVersion = activeRelease.version;
+                if (entries.length === 0) {
+                    logger.warn(`Drug interaction release ${releaseVersion} has no entries; only AI checks will report interactions`);
                 }
-            ];
-            
-            // Populate the interaction database
-            for (const drug of interactionData) {
-                const interactions = drug.interactsWith.map(interaction => ({
-                    drug: interaction.drug,
-                    severity: interaction.severity,
-                    description: interaction.description
-                }));
-                
-                this.interactionDatabase.set(drug.drug, interactions);
+            } else {
+                logger.warn('No drug interaction release is active, using built-in baseline');
             }
-            
-            this.initialized = true;
-            logger.info('Drug interaction database initialized successfully');
         } catch (error) {
-            logger.error('Error initializing drug interaction database:', error);
-            throw error;
+            // Not marked initialized, so a later check loads the release once the database is back
+            logger.error('Error loading drug interaction knowledge base, using built-in baseline until it is available:', error);
+            this.interactionDatabase = this.buildLookup(DEFAULT_INTERACTIONS);
+            this.releaseVersion = undefined;
+            this.retryLoadAt = Date.now() + DrugInteractionService.LOAD_RETRY_INTERVAL_MS;
+            return;
+        }
+        
+        this.interactionDatabase = this.buildLookup(entries);
+        this.releaseVersion = releaseVersion;
+        this.retryLoadAt = 0;
+        this.initialized = true;
+        logger.info(`Drug interaction database initialized with ${entries.length} interactions` +
+            (releaseVersion ? ` from release ${releaseVersion}` : ' from built-in baseline'));
+    }
+    
+    /**
+     * Index interaction entries by their first drug
+     */
+    private buildLookup(entries: InteractionEntryInput[]): Map<string, InteractionRecord[]> {
+        const database: Map<string, InteractionRecord[]> = new Map();
+        
+        for (const entry of entries) {
+            const drug = this.normalizeMedicationName(entry.drugA);
+            const interactions = database.get(drug) || [];
+            
+            interactions.push({
+                drug: this.normalizeMedicationName(entry.drugB),
+                severity: entry.severity,
+                description: entry.description,
+                mechanism: entry.mechanism,
+                evidenceLevel: entry.evidenceLevel,
+                management: entry.management,
+                source: entry.source
+            });
+            
+            database.set(drug, interactions);
         }
+        
+        return database;
     }
     
     /**
@@ -315,7 +239,10 @@ export class DrugInteractionService {
                 severity: directInteraction.severity,
                 description: directInteraction.description,
                 medications: [medication, currentMedication],
-                evidenceLevel: 'strong'
+                evidenceLevel: directInteraction.evidenceLevel,
+                mechanism: directInteraction.mechanism,
+                management: directInteraction.management,
+                reference: directInteraction.source
             };
         }
         
@@ -331,7 +258,10 @@ export class DrugInteractionService {
                         severity: reverseInteraction.severity,
                         description: reverseInteraction.description,
                         medications: [currentMedication, medication],
-                        evidenceLevel: 'strong'
+                        evidenceLevel: reverseInteraction.evidenceLevel,
+                        mechanism: reverseInteraction.mechanism,
+                        management: reverseInteraction.management,
+                        reference: reverseInteraction.source
                     };
                 }
             }
@@ -373,137 +303,42 @@ export class DrugInteractionService {
                 As a clinical pharmacologist, please analyze potential drug interactions between ${medication} and the following medications:
                 ${currentMedications.join(', ')}
                 
-                For each potential interaction, provide the following information in this format:
-                
-                Medication 1 | Medication 2 | Severity (high, medium, or low) | Description
-                
-                Only include interactions with clinical significance. If there are no interactions, state "No significant interactions found."
+                Only include interactions with clinical significance. If there are no interactions, return an empty list.
             `;
             
-            const response = await aiService.analyzeMedicalReport(prompt);
+            const response = await aiService.generateStructured(prompt, aiInteractionSchema, `{
+  "interactions": [{ "medications": [string, string], "severity": "high" | "medium" | "low", "description": string, "mechanism"?: string, "management"?: string }]
+}`, { config: aiConfig.openai.prescriptionModel, feature: 'drug_interaction.check' });
             
-            // Parse the AI response to extract interactions
-            return this.parseAIInteractionResponse(response.analysis || '', medication, currentMedications);
+            return response.interactions.map(interaction => ({
+                ...interaction,
+                evidenceLevel: 'weak' as const // model output, not a curated source
+            }));
         } catch (error) {
-            logger.error('Error generating AI interaction check:', error);
-            return [];
-        }
-    }
-    
-    /**
-     * Parse the AI response to extract structured interaction data
-     */
-    private parseAIInteractionResponse(
-        response: string,
-        medication: string,
-        currentMedications: string[]
-    ): DrugInteractionRisk[] {
-        const interactions: DrugInteractionRisk[] = [];
-        
-        try {
-            // Check if AI reported no interactions
-            if (response.toLowerCase().includes('no significant interactions') || 
-                response.toLowerCase().includes('no interactions found')) {
-                return [];
-            }
-            
-            // Try to parse table format first
-            const tablePattern = /([^\|\n]+)\s*\|\s*([^\|\n]+)\s*\|\s*([^\|\n]+)\s*\|\s*([^\|\n]+)/g;
-            let match;
-            
-            while ((match = tablePattern.exec(response)) !== null) {
-                // Extract the components
-                const [_, drug1, drug2, severityText, description] = match;
-                
-                if (drug1 && drug2 && severityText && description) {
-                    // Determine interaction severity
-                    let severity: InteractionSeverity;
-                    const severityLower = severityText.trim().toLowerCase();
-                    
-                    if (severityLower.includes('high') || severityLower.includes('severe')) {
-                        severity = InteractionSeverity.HIGH;
-                    } else if (severityLower.includes('low') || severityLower.includes('mild')) {
-                        severity = InteractionSeverity.LOW;
-                    } else {
-                        severity = InteractionSeverity.MEDIUM;
-                    }
-                    
-                    interactions.push({
-                        severity,
-                        description: description.trim(),
-                        medications: [drug1.trim(), drug2.trim()],
-                        evidenceLevel: 'moderate'
-                    });
-                }
+            if (error instanceof StructuredOutputError) {
+                logger.warn(`AI interaction check returned invalid output: ${error.issues.join('; ')}`);
+            } else {
+                logger.error('Error generating AI interaction check:', error);
             }
-            
-            // If table parsing failed, try alternative parsing
-            if (interactions.length === 0) {
-                // Split by lines or sections
-                const lines = response.split(/\n{2,}/).flatMap(section => section.split('\n'));
-                
-                for (const line of lines) {
-                    // Look for mentions of severity
-                    const severityMatch = line.match(/\b(high|medium|low|severe|mild|moderate)\b\s+(?:risk|severity|interaction)/i);
-                    
-                    if (severityMatch) {
-                        // Find which medications this line is talking about
-                        const meds = this.findMedicationsInText(line, [medication, ...currentMedications]);
-                        
-                        if (meds.length >= 2) {
-                            // Determine severity
-                            let severity: InteractionSeverity;
-                            const severityText = severityMatch[1].toLowerCase();
-                            
-                            if (severityText.includes('high') || severityText.includes('severe')) {
-                                severity = InteractionSeverity.HIGH;
-                            } else if (severityText.includes('low') || severityText.includes('mild')) {
-                                severity = InteractionSeverity.LOW;
-                            } else {
-                                severity = InteractionSeverity.MEDIUM;
-                            }
-                            
-                            interactions.push({
-                                severity,
-                                description: line.trim(),
-                                medications: [meds[0], meds[1]],
-                                evidenceLevel: 'weak'
-                            });
-                        }
-                    }
-                }
-            }
-            
-            return interactions;
-        } catch (error) {
-            logger.error('Error parsing AI interaction response:', error);
             return [];
         }
     }
     
     /**
-     * Find which medications from a list are mentioned in a text
+     * Reload the interaction database from the knowledge base.
+     * Called after a release is published or rolled back.
      */
-    private findMedicationsInText(text: string, medications: string[]): string[] {
-        const mentionedMeds: string[] = [];
-        const normalizedText = text.toLowerCase();
-        
-        for (const med of medications) {
-            if (normalizedText.includes(med.toLowerCase())) {
-                mentionedMeds.push(med);
-            }
-        }
-        
-        return mentionedMeds;
+    public async updateInteractionDatabase(): Promise<void> {
+        this.initialized = false;
+        this.retryLoadAt = 0;
+        await this.initializeInteractionDatabase();
+        logger.info(`Drug interaction database reloaded (release ${this.releaseVersion ?? 'baseline'})`);
     }
     
     /**
-     * Update the interaction database with new interaction data
-     * This would typically be called on a schedule to keep the database up to date
+     * Get the knowledge base release currently loaded, if any
      */
-    public async updateInteractionDatabase(): Promise<void> {
-        // In a real application, this would fetch the latest interaction data
-        // from a medical API or database
-        logger.info('Drug interaction database update scheduled');
+    public getLoadedReleaseVersion(): number | undefined {
+        return this.releaseVersion;
     }
 } 
\ No newline at end of file
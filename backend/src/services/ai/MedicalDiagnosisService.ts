@@ -1,17 +1,34 @@
+import { z, ZodType } from 'zod';
 import { BaseAIService } from './BaseAIService';
 import { aiConfig } from '../../config/ai.config';
-import { OpenAI } from 'openai';
 import { DiagnosisInput, DiagnosisOutput } from '../../types/diagnosis';
 import { validateDiagnosisInput } from '../../validators/diagnosisValidator';
 
-export class MedicalDiagnosisService extends BaseAIService {
-    private openai: OpenAI;
+type AIDiagnosis = Pick<DiagnosisOutput,
+    'possibleDiagnoses' | 'confidenceLevels' | 'recommendations' | 'warningSignals' | 'requiresImmediate'>;
+
+const aiDiagnosisSchema: ZodType<AIDiagnosis> = z.object({
+    possibleDiagnoses: z.array(z.string().min(1)),
+    confidenceLevels: z.array(z.number().min(0).max(1)),
+    recommendations: z.array(z.string()),
+    warningSignals: z.array(z.string()),
+    requiresImmediate: z.boolean()
+}).refine(diagnosis => diagnosis.confidenceLevels.length === diagnosis.possibleDiagnoses.length, {
+    message: 'Expected one confidence level per possible diagnosis',
+    path: ['confidenceLevels']
+});
+
+const DIAGNOSIS_FORMAT = `{
+  "possibleDiagnoses": string[],
+  "confidenceLevels": number 0-1 for each possible diagnosis, in the same order,
+  "recommendations": string[],
+  "warningSignals": string[],
+  "requiresImmediate": boolean
+}`;
 
+export class MedicalDiagnosisService extends BaseAIService {
     constructor() {
-        super(aiConfig.openai.diagnosisModel);
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY
-        });
+        super(aiConfig.openai.diagnosisModel, 'diagnosis.assessment');
     }
 
     async analyzeSymptomsAndDiagnose(input: DiagnosisInput): Promise<DiagnosisOutput> {
@@ -23,22 +40,16 @@ export class MedicalDiagnosisService extends BaseAIService {
             const prompt = this.prepareDiagnosisPrompt(input);
 
             // Get AI prediction
-            const completion = await this.openai.chat.completions.create({
-                model: this.config.modelName,
-                messages: [
-                    {
-                        role: "system",
-                        content: "You are a medical diagnosis assistant. Provide detailed analysis based on symptoms while maintaining a professional and cautious approach. Always include disclaimers and recommend professional medical consultation."
-                    },
-                    {
-                        role: "user",
-                        content: prompt
-                    }
-                ],
-                max_tokens: this.config.maxTokens,
-                temperature: this.config.temperature,
-                timeout: this.config.timeout
-            });
+            const completion = await this.completeStructured([
+                {
+                    role: "system",
+                    content: "You are a medical diagnosis assistant. Provide detailed analysis based on symptoms while maintaining a professional and cautious approach. Always include disclaimers and recommend professional medical consultation."
+                },
+                {
+                    role: "user",
+                    content: prompt
+                }
+            ], aiDiagnosisSchema, DIAGNOSIS_FORMAT);
 
             // Process and validate response
             const diagnosis = this.processAIResponse(completion);
@@ -77,19 +88,10 @@ export class MedicalDiagnosisService extends BaseAIService {
         `;
     }
 
-    private processAIResponse(completion: any): DiagnosisOutput {
-        const response = completion.choices[0].message.content;
-        
-        // Process and structure the response
-        // Add validation and safety checks
-        // Ensure medical disclaimers are included
-        
+    private processAIResponse(response: AIDiagnosis): DiagnosisOutput {
+        // The response has already been validated against the schema; add the medical disclaimer
         return {
-            possibleDiagnoses: [],  // Parse from response
-            confidenceLevels: [],   // Parse from response
-            recommendations: [],     // Parse from response
-            warningSignals: [],     // Parse from response
-            requiresImmediate: false, // Determine based on response
+            ...response,
             disclaimer: "This is an AI-assisted analysis and should not replace professional medical advice. Please consult with a healthcare provider for accurate diagnosis and treatment.",
             timestamp: new Date(),
             modelVersion: this.config.version
@@ -1,5 +1,5 @@
+import { z, ZodType } from 'zod';
 import { BaseAIService } from './BaseAIService';
-import { OpenAI } from 'openai';
 import { aiConfig } from '../../config/ai.config';
 
 interface MedicalHistoryAnalysis {
@@ -33,14 +33,49 @@ interface MedicalHistoryAnalysis {
     }[];
 }
 
-export class MedicalHistoryAnalysisService extends BaseAIService {
-    private openai: OpenAI;
+const priority = z.enum(['high', 'medium', 'low']);
+
+const historyAnalysisSchema: ZodType<Omit<MedicalHistoryAnalysis, 'patientId'>> = z.object({
+    riskFactors: z.array(z.object({
+        condition: z.string().min(1),
+        riskLevel: priority,
+        basis: z.array(z.string())
+    })),
+    patterns: z.array(z.object({
+        description: z.string().min(1),
+        relevance: z.string(),
+        recommendations: z.array(z.string())
+    })),
+    chronicConditions: z.array(z.object({
+        condition: z.string().min(1),
+        status: z.string(),
+        managementSuggestions: z.array(z.string())
+    })),
+    preventiveCare: z.array(z.object({
+        recommendation: z.string().min(1),
+        priority,
+        dueDate: z.coerce.date().optional(),
+        reason: z.string()
+    })),
+    medicationHistory: z.array(z.object({
+        medication: z.string().min(1),
+        effectiveness: z.string(),
+        sideEffects: z.array(z.string()),
+        recommendations: z.array(z.string())
+    }))
+});
+
+const HISTORY_ANALYSIS_FORMAT = `{
+  "riskFactors": [{ "condition": string, "riskLevel": "high" | "medium" | "low", "basis": string[] }],
+  "patterns": [{ "description": string, "relevance": string, "recommendations": string[] }],
+  "chronicConditions": [{ "condition": string, "status": string, "managementSuggestions": string[] }],
+  "preventiveCare": [{ "recommendation": string, "priority": "high" | "medium" | "low", "dueDate"?: ISO 8601 date, "reason": string }],
+  "medicationHistory": [{ "medication": string, "effectiveness": string, "sideEffects": string[], "recommendations": string[] }]
+}`;
 
+export class MedicalHistoryAnalysisService extends BaseAIService {
     constructor() {
-        super(aiConfig.openai.medicalHistoryModel);
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY
-        });
+        super(aiConfig.openai.medicalHistoryModel, 'history.analysis');
     }
 
     async analyzeHistory(patientId: string): Promise<MedicalHistoryAnalysis> {
@@ -49,7 +84,7 @@ export class MedicalHistoryAnalysisService extends BaseAIService {
             const history = await this.fetchPatientHistory(patientId);
 
             // Generate AI analysis
-            const analysis = await this.generateAnalysis(history);
+            const analysis = await this.generateAnalysis(patientId, history);
 
             // Enhance with medical guidelines
             const enhancedAnalysis = await this.enhanceWithGuidelines(analysis);
@@ -63,26 +98,21 @@ export class MedicalHistoryAnalysisService extends BaseAIService {
         }
     }
 
-    private async generateAnalysis(history: any): Promise<MedicalHistoryAnalysis> {
+    private async generateAnalysis(patientId: string, history: any): Promise<MedicalHistoryAnalysis> {
         const prompt = this.buildAnalysisPrompt(history);
 
-        const completion = await this.openai.chat.completions.create({
-            model: this.config.modelName,
-            messages: [
-                {
-                    role: "system",
-                    content: "You are a medical history analysis system. Analyze patient history to identify patterns, risks, and provide evidence-based recommendations."
-                },
-                {
-                    role: "user",
-                    content: prompt
-                }
-            ],
-            temperature: 0.3,
-            max_tokens: 2000
-        });
-
-        return this.parseAnalysisResponse(completion.choices[0].message.content);
+        const analysis = await this.completeStructured([
+            {
+                role: "system",
+                content: "You are a medical history analysis system. Analyze patient history to identify patterns, risks, and provide evidence-based recommendations."
+            },
+            {
+                role: "user",
+                content: prompt
+            }
+        ], historyAnalysisSchema, HISTORY_ANALYSIS_FORMAT);
+
+        return { patientId, ...analysis };
     }
 
     private buildAnalysisPrompt(history: any): string {
@@ -123,11 +153,6 @@ export class MedicalHistoryAnalysisService extends BaseAIService {
         return {};
     }
 
-    private parseAnalysisResponse(response: string): MedicalHistoryAnalysis {
-        // Parse and structure the AI response
-        return {} as MedicalHistoryAnalysis;
-    }
-
     private async logAnalysis(patientId: string, analysis: MedicalHistoryAnalysis): Promise<void> {
         // Log the analysis for audit and improvement
     }
@@ -1,19 +1,14 @@
-import { OpenAI } from 'openai';
 import { logger } from '../logger';
+import { aiConfig } from '../../config/ai.config';
+import { llmGateway } from './llm';
 
 export class PatientMonitoring {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
 
   async analyzeVitalTrends(patientId: string, vitalHistory: any[]) {
     try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await llmGateway.complete({
+        config: aiConfig.openai.healthAnalyticsModel,
+        invocation: { feature: 'monitoring.vital_trends' },
         messages: [
           {
             role: "system",
@@ -27,8 +22,8 @@ export class PatientMonitoring {
       });
 
       return {
-        analysis: response.choices[0].message.content,
-        alerts: this.extractAlerts(response.choices[0].message.content)
+        analysis: response.content,
+        alerts: this.extractAlerts(response.content)
       };
     } catch (error) {
       logger.error('Vital Trends Analysis Error:', error);
@@ -1,8 +1,14 @@
+import { z } from 'zod';
 import { BaseAIService } from './BaseAIService';
 import { aiConfig } from '../../config/ai.config';
 import { DrugInteractionService } from './DrugInteractionService';
 import { aiService } from './AIServiceManager';
+import { StructuredOutputError } from './llm';
+import { promptRegistry, RenderedPrompt } from '../PromptRegistryService';
+import { IPromptReference } from '../../models/PromptTemplate';
 import logger from '../../utils/logger';
+import sigParser from '../../utils/sigParser';
+import { InteractionSeverity } from '../../types/medical';
 import { medicationRepository, Medication, TreatmentGuideline } from '../../repositories/MedicationRepository';
 
 // Define specific error types for better error handling
@@ -28,11 +34,7 @@ export class DrugInteractionError extends Error {
 }
 
 // Enums for better type safety
-export enum InteractionSeverity {
-  HIGH = 'high',
-  MEDIUM = 'medium',
-  LOW = 'low'
-}
+export { InteractionSeverity };
 
 export enum PrescriptionStatus {
   PENDING = 'pending',
@@ -64,6 +66,10 @@ export interface PrescriptionInput {
     allergies: string[];
     currentMedications: string[];
     chronicConditions: string[];
+    isPregnant?: boolean; // undefined when not recorded
+    gestationalAgeWeeks?: number;
+    isBreastfeeding?: boolean;
+    pharmacogenomics?: string[]; // actionable phenotypes, e.g. "CYP2C19 poor metabolizer (*2/*2)"
   };
   vitalSigns: {
     bloodPressure: string;
@@ -80,6 +86,8 @@ export interface DrugInteractionRisk {
   description: string;
   medications: string[];
   evidenceLevel?: 'strong' | 'moderate' | 'weak';
+  mechanism?: string;
+  management?: string;
   reference?: string;
 }
 
@@ -95,15 +103,44 @@ export interface PrescriptionSuggestion {
   alternatives: string[];
   interactionRisks: DrugInteractionRisk[];
   status?: PrescriptionStatus;
+  prompt?: IPromptReference; // prompt version that produced the suggestion, for feedback
 }
 
+// The part of each suggestion the model provides; interaction risks and status are added here
+const aiPrescriptionSchema = z.object({
+  suggestions: z.array(z.object({
+    medication: z.string().min(1),
+    dosage: z.string().min(1),
+    frequency: z.string().min(1),
+    duration: z.string().min(1),
+    instructions: z.string(),
+    warnings: z.array(z.string()),
+    contraindications: z.array(z.string()),
+    sideEffects: z.array(z.string()),
+    alternatives: z.array(z.string())
+  })).min(1)
+});
+
+const PRESCRIPTION_FORMAT = `{
+  "suggestions": [{
+    "medication": string,
+    "dosage": string,
+    "frequency": string,
+    "duration": string,
+    "instructions": string,
+    "warnings": string[],
+    "contraindications": string[],
+    "sideEffects": string[],
+    "alternatives": string[]
+  }]
+}`;
+
 export class PrescriptionSuggestionService extends BaseAIService {
   private drugInteractionService: DrugInteractionService;
-  private readonly MAX_RETRIES = 2;
   private cachedGuidelines: Map<string, TreatmentGuideline> = new Map();
 
   constructor() {
-    super(aiConfig.openai.prescriptionModel);
+    super(aiConfig.openai.prescriptionModel, 'prescription.suggestions');
     // Get the singleton instance of DrugInteractionService
     this.drugInteractionService = DrugInteractionService.getInstance();
   }
@@ -224,91 +261,80 @@ export class PrescriptionSuggestionService extends BaseAIService {
   }
 
   /**
-   * Get AI-generated prescription suggestions using the medical LLM
-   * Includes retry logic for transient failures
+   * Get AI-generated prescription suggestions using the medical LLM.
+   * The gateway retries transient failures and asks the model to repair output that fails the schema.
    */
   private async getAISuggestions(input: PrescriptionInput): Promise<PrescriptionSuggestion[]> {
-    const prompt = this.buildPrescriptionPrompt(input);
+    const prompt = await this.buildPrescriptionPrompt(input);
     
-    logger.info('Generating prescription suggestions based on diagnosis and patient data');
+    logger.info(`Generating prescription suggestions based on diagnosis and patient data (prompt v${prompt.reference.version})`);
     
-    let attempts = 0;
-    let lastError: Error | null = null;
-    
-    // Implement retry logic for AI service calls
-    while (attempts <= this.MAX_RETRIES) {
-      try {
-        // Use the aiService instead of direct OpenAI calls
-        const response = await aiService.analyzeMedicalReport(prompt);
-        
-        if (!response || !response.analysis) {
-          throw new PrescriptionParsingError('Empty response from AI service');
-        }
-        
-        // Parse the AI response into structured prescription suggestions
-        return this.parsePrescriptionResponse(response.analysis);
-      } catch (error) {
-        lastError = error as Error;
-        attempts++;
-        
-        // If we have more retries, wait a bit before trying again
-        if (attempts <= this.MAX_RETRIES) {
-          const delay = Math.pow(2, attempts) * 1000; // Exponential backoff
-          logger.warn(`AI service attempt ${attempts} failed, retrying in ${delay}ms`, { error: lastError });
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
+    try {
+      const response = await aiService.generateStructured(prompt.text, aiPrescriptionSchema, PRESCRIPTION_FORMAT, {
+        config: this.config,
+        systemPrompt: prompt.systemPrompt,
+        feature: this.feature,
+        prompt: prompt.reference
+      });
+      
+      return response.suggestions.map(suggestion => ({
+        ...suggestion,
+        interactionRisks: [],
+        status: PrescriptionStatus.PENDING,
+        prompt: prompt.reference
+      }));
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        throw new PrescriptionParsingError(`Failed to parse prescription suggestions: ${error.message}`, error.rawContent);
       }
+      throw error;
     }
-    
-    // If we reach here, all attempts failed
-    logger.error('All AI service attempts failed', { error: lastError });
-    throw new PrescriptionParsingError(`Failed to get AI suggestions after ${this.MAX_RETRIES + 1} attempts: ${lastError?.message}`);
   }
 
   /**
-   * Build a prompt for the AI service with all relevant patient information
+   * Render the registry's prescription prompt with all relevant patient information
    */
-  private buildPrescriptionPrompt(input: PrescriptionInput): string {
+  private async buildPrescriptionPrompt(input: PrescriptionInput): Promise<RenderedPrompt> {
+    const { patientData, vitalSigns } = input;
+    const list = (values: string[], empty: string) => values.map(v => this.sanitizeInput(v)).join(', ') || empty;
+
+    // Optional profile lines are only included when recorded
+    const additionalProfile = [
+      patientData.isPregnant
+        ? `- Pregnant${patientData.gestationalAgeWeeks !== undefined ? ` (${patientData.gestationalAgeWeeks} weeks)` : ''}`
+        : '',
+      patientData.isBreastfeeding ? '- Breastfeeding' : '',
+      patientData.pharmacogenomics?.length ? `- Pharmacogenomics: ${list(patientData.pharmacogenomics, '')}` : ''
+    ].filter(Boolean).join('\n');
+
+    const vitalSignLines = [
+      `- Blood Pressure: ${vitalSigns.bloodPressure}`,
+      `- Heart Rate: ${vitalSigns.heartRate} bpm`,
+      `- Temperature: ${vitalSigns.temperature}°C`,
+      vitalSigns.respiratoryRate ? `- Respiratory Rate: ${vitalSigns.respiratoryRate} breaths/min` : '',
+      vitalSigns.oxygenSaturation ? `- Oxygen Saturation: ${vitalSigns.oxygenSaturation}%` : ''
+    ].filter(Boolean).join('\n');
+
+    const labResults = input.labResults && input.labResults.length > 0
+      ? 'Lab Results:\n' + input.labResults.map(lab =>
+        `- ${lab.name}: ${lab.value} ${lab.unit}${lab.isAbnormal ? ' (Abnormal)' : ''}`
+      ).join('\n')
+      : '';
+
     // Sanitize inputs to prevent prompt injection
-    const sanitizedDiagnosis = this.sanitizeInput(input.diagnosis);
-    const sanitizedSymptoms = input.symptoms.map(s => this.sanitizeInput(s));
-    
-    return `
-        Generate prescription suggestions based on:
-
-        Diagnosis: ${sanitizedDiagnosis}
-        Symptoms: ${sanitizedSymptoms.join(', ')}
-
-        Patient Profile:
-        - Age: ${input.patientData.age}
-        - Weight: ${input.patientData.weight}kg
-        - Gender: ${input.patientData.gender}
-        - Allergies: ${input.patientData.allergies.map(a => this.sanitizeInput(a)).join(', ') || 'None reported'}
-        - Current Medications: ${input.patientData.currentMedications.map(m => this.sanitizeInput(m)).join(', ') || 'None'}
-        - Chronic Conditions: ${input.patientData.chronicConditions.map(c => this.sanitizeInput(c)).join(', ') || 'None reported'}
-
-        Vital Signs:
-        - Blood Pressure: ${input.vitalSigns.bloodPressure}
-        - Heart Rate: ${input.vitalSigns.heartRate} bpm
-        - Temperature: ${input.vitalSigns.temperature}°C
-        ${input.vitalSigns.respiratoryRate ? `- Respiratory Rate: ${input.vitalSigns.respiratoryRate} breaths/min` : ''}
-        ${input.vitalSigns.oxygenSaturation ? `- Oxygen Saturation: ${input.vitalSigns.oxygenSaturation}%` : ''}
-
-        ${input.labResults && input.labResults.length > 0 ? 'Lab Results:\n' + input.labResults.map(lab => 
-          `- ${lab.name}: ${lab.value} ${lab.unit}${lab.isAbnormal ? ' (Abnormal)' : ''}`
-        ).join('\n') : ''}
-
-        Please provide:
-        1. Primary medication recommendations with dosage and frequency
-        2. Alternative medications
-        3. Contraindications and warnings
-        4. Potential side effects
-        5. Special instructions for administration
-        6. Duration of treatment
-        7. Follow-up recommendations
-
-        Format each medication recommendation clearly with specific dosage, frequency, and duration.
-    `;
+    return promptRegistry.render('prescription.suggestions', {
+      diagnosis: this.sanitizeInput(input.diagnosis),
+      symptoms: list(input.symptoms, ''),
+      age: patientData.age,
+      weight: patientData.weight,
+      gender: patientData.gender,
+      allergies: list(patientData.allergies, 'None reported'),
+      currentMedications: list(patientData.currentMedications, 'None'),
+      chronicConditions: list(patientData.chronicConditions, 'None reported'),
+      additionalProfile,
+      vitalSigns: vitalSignLines,
+      labResults
+    });
   }
 
   /**
@@ -323,266 +349,6 @@ export class PrescriptionSuggestionService extends BaseAIService {
       .trim();
   }
 
-  /**
-   * Parse AI-generated text into structured prescription suggestions
-   * Uses a robust parsing approach with fallbacks for different response formats
-   */
-  private parsePrescriptionResponse(response: string): PrescriptionSuggestion[] {
-    try {
-      const suggestions: PrescriptionSuggestion[] = [];
-      
-      // First try to find medication sections in the response
-      let medicationSections: string[] = [];
-      
-      // Try different parsing strategies
-      const primaryRxPattern = /\d+\.\s*Primary medication recommendations/i;
-      const medicationPattern = /\b(medication|drug|rx|prescribe|recommend)\b.*?:/i;
-      
-      if (primaryRxPattern.test(response)) {
-        // If the response follows our expected format
-        const sections = response.split(primaryRxPattern);
-        if (sections.length >= 2) {
-          medicationSections = sections[1]
-            .split(/\n\s*\n|\n\d+\.\s+/g)
-            .filter(Boolean)
-            .map(s => s.trim());
-        }
-      } else {
-        // Try alternative parsing approach for unexpected formats
-        medicationSections = response
-          .split(/\n\s*\n/)
-          .filter(section => medicationPattern.test(section));
-      }
-      
-      if (medicationSections.length === 0) {
-        logger.warn('Could not identify medication sections in AI response', { sampleResponse: response.substring(0, 200) });
-        return [this.createDefaultSuggestion("Could not parse response properly")];
-      }
-
-      // Process each medication section
-      for (const section of medicationSections) {
-        if (!section.trim()) continue;
-        
-        const lines = section.split('\n').map(line => line.trim()).filter(Boolean);
-        if (lines.length === 0) continue;
-        
-        // Try multiple patterns to extract medication name and dosage
-        const medicationData = this.extractMedicationData(lines);
-        if (!medicationData) continue;
-        
-        const { medication, dosageInfo } = medicationData;
-        
-        // Create suggestion with extracted information
-        const suggestion = this.extractMedicationDetails(section, medication, dosageInfo);
-        suggestions.push(suggestion);
-      }
-      
-      return suggestions.length > 0 ? suggestions : [this.createDefaultSuggestion()];
-    } catch (error) {
-      logger.error('Error parsing prescription response', error);
-      throw new PrescriptionParsingError('Failed to parse prescription suggestions', response);
-    }
-  }
-
-  /**
-   * Extract medication name and dosage information from text lines
-   */
-  private extractMedicationData(lines: string[]): { medication: string; dosageInfo: string } | null {
-    // Try several patterns to extract medication name and dosage
-    for (const line of lines) {
-      // Pattern 1: Medication name: dosage
-      const pattern1 = line.match(/^(.+?)(?:\s*:\s*)(.+)$/);
-      if (pattern1) {
-        return { medication: pattern1[1].trim(), dosageInfo: pattern1[2].trim() };
-      }
-      
-      // Pattern 2: Medication name - dosage
-      const pattern2 = line.match(/^(.+?)(?:\s*-\s*)(.+)$/);
-      if (pattern2) {
-        return { medication: pattern2[1].trim(), dosageInfo: pattern2[2].trim() };
-      }
-      
-      // Pattern 3: Medication (dosage)
-      const pattern3 = line.match(/^(.+?)\s*\(([^)]+)\)/);
-      if (pattern3) {
-        return { medication: pattern3[1].trim(), dosageInfo: pattern3[2].trim() };
-      }
-    }
-    
-    // If we couldn't match the patterns, try to at least extract a medication name
-    const medicationNamePattern = /^([A-Za-z\s]+(?:\s+\d+\s*mg)?)/;
-    const match = lines[0].match(medicationNamePattern);
-    
-    if (match) {
-      return { medication: match[1].trim(), dosageInfo: lines[0].replace(match[1], '').trim() };
-    }
-    
-    return null;
-  }
-
-  /**
-   * Extract detailed information about a medication from a text section
-   */
-  private extractMedicationDetails(section: string, medication: string, dosageInfo: string): PrescriptionSuggestion {
-    // Extract dosage
-    const dosageMatch = dosageInfo.match(/(\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml|IU|tablet|capsule|pill|patch|drop)s?)/i);
-    const dosage = dosageMatch ? dosageMatch[1] : dosageInfo;
-    
-    // Extract frequency using multiple patterns
-    const frequencyPatterns = [
-      /frequency:\s*(.+?)(?:\n|$)/i,
-      /(\d+\s*times?\s*(?:a|per)\s*day)/i,
-      /\b(once|twice|three times|four times)\s+(?:a|per)\s+day\b/i,
-      /\bevery\s+(\d+\s*hours?)\b/i,
-      /\b(daily|weekly|monthly|twice daily|twice a week)\b/i
-    ];
-    
-    let frequency = "As directed by physician";
-    for (const pattern of frequencyPatterns) {
-      const match = section.match(pattern);
-      if (match) {
-        frequency = match[1].trim();
-        break;
-      }
-    }
-    
-    // Extract duration using multiple patterns
-    const durationPatterns = [
-      /duration:\s*(.+?)(?:\n|$)/i,
-      /for\s+(\d+\s*(?:days?|weeks?|months?))/i,
-      /(?:continue|take)\s+for\s+(\d+\s*(?:days?|weeks?|months?))/i
-    ];
-    
-    let duration = "As directed by physician";
-    for (const pattern of durationPatterns) {
-      const match = section.match(pattern);
-      if (match) {
-        duration = match[1].trim();
-        break;
-      }
-    }
-    
-    // Extract instructions
-    const instructionsPatterns = [
-      /instructions?:\s*(.+?)(?:\n\n|$)/is,
-      /special instructions?:\s*(.+?)(?:\n\n|$)/is,
-      /(?:take|administer)(?:[^.]+)(?:\.|$)/i
-    ];
-    
-    let instructions = "Take as directed";
-    for (const pattern of instructionsPatterns) {
-      const match = section.match(pattern);
-      if (match) {
-        instructions = match[1] ? match[1].replace(/\n/g, ' ').trim() : match[0].trim();
-        break;
-      }
-    }
-    
-    // Extract warnings and contraindications
-    const warningsPatterns = [
-      /warnings?:\s*(.+?)(?:\n\n|$)/is,
-      /contraindications?:\s*(.+?)(?:\n\n|$)/is
-    ];
-    
-    let warnings: string[] = [];
-    for (const pattern of warningsPatterns) {
-      const match = section.match(pattern);
-      if (match && match[1]) {
-        warnings = match[1]
-          .split(/\n|-|;|•/)
-          .map(w => w.trim())
-          .filter(Boolean);
-        break;
-      }
-    }
-    
-    // Extract contraindications
-    const contraindicationsPatterns = [
-      /contraindications?(?:\s*and\s*warnings?)?:\s*(.+?)(?:\n\n|$)/is
-    ];
-    
-    let contraindications: string[] = [];
-    for (const pattern of contraindicationsPatterns) {
-      const match = section.match(pattern);
-      if (match && match[1]) {
-        contraindications = match[1]
-          .split(/\n|-|;|•/)
-          .map(c => c.trim())
-          .filter(Boolean);
-        break;
-      }
-    }
-    
-    // Extract side effects
-    const sideEffectsPatterns = [
-      /side effects?:\s*(.+?)(?:\n\n|$)/is,
-      /adverse effects?:\s*(.+?)(?:\n\n|$)/is
-    ];
-    
-    let sideEffects: string[] = [];
-    for (const pattern of sideEffectsPatterns) {
-      const match = section.match(pattern);
-      if (match && match[1]) {
-        sideEffects = match[1]
-          .split(/\n|-|;|•/)
-          .map(s => s.trim())
-          .filter(Boolean);
-        break;
-      }
-    }
-    
-    // Extract alternatives
-    const alternativesPatterns = [
-      /alternatives?(?:\s*medications?)?:\s*(.+?)(?:\n\n|$)/is,
-      /alternative medications?:\s*(.+?)(?:\n\n|$)/is
-    ];
-    
-    let alternatives: string[] = [];
-    for (const pattern of alternativesPatterns) {
-      const match = section.match(pattern);
-      if (match && match[1]) {
-        alternatives = match[1]
-          .split(/\n|-|;|,|•/)
-          .map(a => a.trim())
-          .filter(Boolean);
-        break;
-      }
-    }
-    
-    return {
-      medication,
-      dosage,
-      frequency,
-      duration,
-      instructions,
-      warnings,
-      contraindications,
-      sideEffects,
-      alternatives,
-      interactionRisks: [],
-      status: PrescriptionStatus.PENDING
-    };
-  }
-
-  /**
-   * Create a default suggestion when parsing fails
-   */
-  private createDefaultSuggestion(note = "Failed to generate suggestions"): PrescriptionSuggestion {
-    return {
-      medication: "Consult healthcare provider",
-      dosage: "N/A",
-      frequency: "N/A",
-      duration: "N/A",
-      instructions: note,
-      warnings: ["Automated suggestion failed, consult healthcare provider"],
-      contraindications: [],
-      sideEffects: [],
-      alternatives: [],
-      interactionRisks: [],
-      status: PrescriptionStatus.REQUIRES_REVIEW
-    };
-  }
-
   /**
    * Check for drug interactions between suggested medications and current medications
    * Uses the medication repository for comprehensive interaction checking
@@ -701,12 +467,28 @@ export class PrescriptionSuggestionService extends BaseAIService {
       const validatedSuggestion = { ...suggestion };
       const validationWarnings: string[] = [];
       
-      // Check pregnancy status if applicable
-      if (input.patientData.gender.toLowerCase() === 'female' && input.patientData.age >= 12 && input.patientData.age <= 50) {
-        const pregnancyCategory = await medicationRepository.checkPregnancyCategory(suggestion.medication);
-        if (pregnancyCategory && ['D', 'X'].includes(pregnancyCategory)) {
-          validationWarnings.push(`Pregnancy category ${pregnancyCategory} - potentially harmful to fetus`);
-          validatedSuggestion.status = PrescriptionStatus.REQUIRES_REVIEW;
+      // Check pregnancy and lactation risk. When pregnancy status is not recorded, women of
+      // childbearing age are screened against the worst trimester for avoid/contraindicated drugs only.
+      const { isPregnant, gestationalAgeWeeks, isBreastfeeding } = input.patientData;
+      const possiblyPregnant = isPregnant === undefined &&
+        input.patientData.gender.toLowerCase() === 'female' && input.patientData.age >= 12 && input.patientData.age <= 50;
+      if (isPregnant || possiblyPregnant || isBreastfeeding) {
+        const assessment = await medicationRepository.getPregnancyLactationRisk(suggestion.medication, {
+          isPregnant: isPregnant || possiblyPregnant,
+          gestationalAgeWeeks,
+          isBreastfeeding
+        });
+        const flagged = possiblyPregnant && !isBreastfeeding
+          ? assessment?.severity === InteractionSeverity.HIGH
+          : assessment?.severity === InteractionSeverity.HIGH || assessment?.severity === InteractionSeverity.MEDIUM;
+        if (assessment && flagged) {
+          validationWarnings.push(...assessment.warnings);
+          if (assessment.saferAlternatives.length > 0) {
+            validationWarnings.push(`Safer alternatives: ${assessment.saferAlternatives.join(', ')}`);
+          }
+          if (assessment.severity === InteractionSeverity.HIGH) {
+            validatedSuggestion.status = PrescriptionStatus.REQUIRES_REVIEW;
+          }
         }
       }
       
@@ -895,29 +677,14 @@ export class PrescriptionSuggestionService extends BaseAIService {
    * Calculate approximate daily dosage based on individual dose and frequency
    */
   private calculateDailyDosage(dosage: string, frequency: string): number | null {
-    const numericDosage = this.extractNumericDosage(dosage);
+    const sig = sigParser.fromParts(dosage, frequency);
+    const dailyDose = sigParser.calculateDailyDose(sig);
+    if (dailyDose) return dailyDose.amount;
+
+    const numericDosage = sig.dose ?? this.extractNumericDosage(dosage);
     if (!numericDosage) return null;
-    
-    let timesPerDay = 1;
-    const lowerFreq = frequency.toLowerCase();
-    
-    if (lowerFreq.includes('twice') || lowerFreq.includes('two times') || lowerFreq.includes('bid') || lowerFreq.includes('b.i.d')) {
-      timesPerDay = 2;
-    } else if (lowerFreq.includes('three times') || lowerFreq.includes('tid') || lowerFreq.includes('t.i.d')) {
-      timesPerDay = 3;
-    } else if (lowerFreq.includes('four times') || lowerFreq.includes('qid') || lowerFreq.includes('q.i.d')) {
-      timesPerDay = 4;
-    } else if (lowerFreq.includes('every 12 hours')) {
-      timesPerDay = 2;
-    } else if (lowerFreq.includes('every 8 hours')) {
-      timesPerDay = 3;
-    } else if (lowerFreq.includes('every 6 hours')) {
-      timesPerDay = 4;
-    } else if (lowerFreq.includes('every 4 hours')) {
-      timesPerDay = 6;
-    }
-    
-    return numericDosage * timesPerDay;
+
+    return numericDosage * (sigParser.getDosesPerDay(sig) ?? 1);
   }
 
   /**
@@ -950,7 +717,7 @@ export class PrescriptionSuggestionService extends BaseAIService {
     await this.logPrediction(
       sanitizedInput,
       { suggestions: suggestionsInfo },
-      { modelName: this.config.modelName }
+      { modelName: this.config.modelName, prompt: suggestions[0]?.prompt }
     );
   }
 
@@ -1,17 +1,53 @@
+import { z, ZodType } from 'zod';
 import { BaseAIService } from './BaseAIService';
 import { aiConfig } from '../../config/ai.config';
-import { OpenAI } from 'openai';
 import { SymptomAnalysisInput, SymptomAnalysisOutput, Diagnosis, Treatment } from '../../types/medical';
 
+const treatmentSchema: ZodType<Treatment> = z.object({
+    name: z.string().min(1),
+    type: z.enum(['medication', 'procedure', 'therapy', 'lifestyle']),
+    description: z.string()
+});
+
+const diagnosisSchema: ZodType<Diagnosis> = z.object({
+    condition: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string(),
+    suggestedTreatments: z.array(treatmentSchema),
+    suggestedMedications: z.array(z.string())
+});
+
+const symptomAnalysisSchema: ZodType<SymptomAnalysisOutput> = z.object({
+    diagnoses: z.array(diagnosisSchema),
+    recommendedTests: z.array(z.string()),
+    redFlags: z.array(z.string()),
+    lifestyleRecommendations: z.array(z.string()),
+    followUpRecommendations: z.array(z.string()),
+    riskFactors: z.array(z.string()),
+    urgencyLevel: z.enum(['routine', 'urgent', 'immediate'])
+});
+
+const SYMPTOM_ANALYSIS_FORMAT = `{
+  "diagnoses": [{
+    "condition": string,
+    "confidence": number 0-1,
+    "reasoning": string,
+    "suggestedTreatments": [{ "name": string, "type": "medication" | "procedure" | "therapy" | "lifestyle", "description": string }],
+    "suggestedMedications": string[]
+  }],
+  "recommendedTests": string[],
+  "redFlags": string[],
+  "lifestyleRecommendations": string[],
+  "followUpRecommendations": string[],
+  "riskFactors": string[],
+  "urgencyLevel": "routine" | "urgent" | "immediate"
+}`;
+
 export class SymptomAnalysisService extends BaseAIService {
-    private openai: OpenAI;
     private readonly CONFIDENCE_THRESHOLD = 0.7;
 
     constructor() {
-        super(aiConfig.openai.diagnosisModel);
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY
-        });
+        super(aiConfig.openai.diagnosisModel, 'symptom.assessment');
     }
 
     async analyzeSymptoms(input: SymptomAnalysisInput): Promise<SymptomAnalysisOutput> {
@@ -19,20 +55,21 @@ export class SymptomAnalysisService extends BaseAIService {
             const systemPrompt = this.getSystemPrompt();
             const userPrompt = this.prepareAnalysisPrompt(input);
 
-            const completion = await this.openai.chat.completions.create({
-                model: this.config.modelName,
-                messages: [
+            const analysis = await this.completeStructured(
+                [
                     { role: "system", content: systemPrompt },
                     { role: "user", content: userPrompt }
                 ],
-                temperature: 0.3,
-                max_tokens: 2000,
-                top_p: 0.9,
-                frequency_penalty: 0.5,
-                presence_penalty: 0.5
-            });
-
-            const analysis = this.processAIResponse(completion.choices[0].message.content);
+                symptomAnalysisSchema,
+                SYMPTOM_ANALYSIS_FORMAT,
+                {
+                    temperature: 0.3,
+                    maxTokens: 2000,
+                    topP: 0.9,
+                    frequencyPenalty: 0.5,
+                    presencePenalty: 0.5
+                }
+            );
             
             // Validate and enhance analysis with medical knowledge base
             const enhancedAnalysis = await this.enhanceWithMedicalKnowledge(analysis);
@@ -1,5 +1,10 @@
+import { z, ZodType } from 'zod';
 import logger from '../../utils/logger';
+import { aiConfig } from '../../config/ai.config';
 import { aiService } from './AIServiceManager';
+import { AIBudgetExceededError, StructuredOutputError } from './llm';
+import { promptRegistry, RenderedPrompt } from '../PromptRegistryService';
+import { IPromptReference } from '../../models/PromptTemplate';
 
 interface SymptomAnalysisResult {
   potentialConditions: Array<{
@@ -14,8 +19,43 @@ interface SymptomAnalysisResult {
   followUpRecommendations?: string[];
   urgencyLevel?: 'low' | 'medium' | 'high' | 'emergency';
   summary?: string;
+  prompt?: IPromptReference; // prompt version that produced the analysis, for feedback
 }
 
+/**
+ * Raised when the model's analysis does not match the expected structure
+ */
+export class SymptomAnalysisParsingError extends Error {
+  constructor(message: string, public rawResponse?: string) {
+    super(message);
+    this.name = 'SymptomAnalysisParsingError';
+  }
+}
+
+const symptomAnalysisSchema: ZodType<SymptomAnalysisResult> = z.object({
+  potentialConditions: z.array(z.object({
+    name: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+    description: z.string().optional()
+  })),
+  recommendedTests: z.array(z.string()),
+  differentialDiagnoses: z.array(z.string()),
+  riskFactors: z.array(z.string()),
+  followUpRecommendations: z.array(z.string()),
+  urgencyLevel: z.enum(['low', 'medium', 'high', 'emergency']),
+  summary: z.string()
+});
+
+const SYMPTOM_ANALYSIS_FORMAT = `{
+  "potentialConditions": [{ "name": string, "confidence": number 0-1, "description": string }],
+  "differentialDiagnoses": string[],
+  "recommendedTests": string[],
+  "riskFactors": string[],
+  "followUpRecommendations": string[],
+  "urgencyLevel": "low" | "medium" | "high" | "emergency",
+  "summary": string
+}`;
+
 export class SymptomAnalyzer {
   private readonly CONFIDENCE_THRESHOLD = 0.7;
 
@@ -29,6 +69,7 @@ export class SymptomAnalyzer {
    * @param vitalSigns Patient's vital signs data
    * @param medicalHistory Patient's medical history
    * @returns Analysis result with potential conditions and recommendations
+   * @throws SymptomAnalysisParsingError if the AI response does not match the expected structure
    */
   async analyzeSymptoms(
     symptoms: string[],
@@ -41,163 +82,52 @@ export class SymptomAnalyzer {
       }
 
       // Format the symptoms and patient data for AI analysis
-      const prompt = this.formatPrompt(symptoms, vitalSigns, medicalHistory);
+      const prompt = await this.formatPrompt(symptoms, vitalSigns, medicalHistory);
       
       logger.info(`Analyzing symptoms for diagnosis: ${symptoms.join(', ')}`);
       
-      // Call AI service to analyze symptoms - using the analyzeMedicalReport method 
-      // that is used in TreatmentRecommender instead of generateCompletion
-      const response = await aiService.analyzeMedicalReport(prompt);
-
-      // Parse and structure the AI response
-      const analysis = this.structureAnalysis(response.analysis || '');
+      // Call AI service to analyze symptoms; the response is validated against the schema
+      const analysis = await aiService.generateStructured(prompt.text, symptomAnalysisSchema, SYMPTOM_ANALYSIS_FORMAT, {
+        config: aiConfig.openai.diagnosisModel,
+        systemPrompt: prompt.systemPrompt,
+        feature: 'symptom.analysis',
+        prompt: prompt.reference
+      });
       
       // Log analysis for monitoring
-      logger.info(`Symptom analysis completed for ${symptoms.length} symptoms`);
+      logger.info(`Symptom analysis completed for ${symptoms.length} symptoms (prompt v${prompt.reference.version})`);
       
-      return analysis;
+      return { ...analysis, prompt: prompt.reference };
     } catch (error: any) {
       logger.error('Error analyzing symptoms:', error);
+      if (error instanceof StructuredOutputError) {
+        throw new SymptomAnalysisParsingError(`Failed to analyze symptoms: ${error.message}`, error.rawContent);
+      }
+      if (error instanceof AIBudgetExceededError) {
+        throw error;
+      }
       throw new Error(`Failed to analyze symptoms: ${error.message}`);
     }
   }
 
   /**
-   * Format the prompt for the AI model
+   * Render the registry's symptom analysis prompt
    */
-  private formatPrompt(symptoms: string[], vitalSigns: any, medicalHistory: any[]): string {
-    let prompt = `Analyze the following patient symptoms and provide a detailed medical assessment:\n\n`;
-    prompt += `Symptoms:\n- ${symptoms.join('\n- ')}\n\n`;
-    
+  private async formatPrompt(symptoms: string[], vitalSigns: any, medicalHistory: any[]): Promise<RenderedPrompt> {
+    let vitalSignsSection = '';
     if (Object.keys(vitalSigns).length > 0) {
-      prompt += `Vital Signs:\n`;
-      for (const [key, value] of Object.entries(vitalSigns)) {
-        prompt += `- ${key}: ${value}\n`;
-      }
-      prompt += '\n';
+      vitalSignsSection = `Vital Signs:\n${Object.entries(vitalSigns).map(([key, value]) => `- ${key}: ${value}`).join('\n')}\n\n`;
     }
-    
+
+    let medicalHistorySection = '';
     if (medicalHistory && medicalHistory.length > 0) {
-      prompt += `Medical History:\n`;
-      medicalHistory.forEach(item => {
-        prompt += `- ${item.condition} (${item.status})\n`;
-      });
-      prompt += '\n';
+      medicalHistorySection = `Medical History:\n${medicalHistory.map(item => `- ${item.condition} (${item.status})`).join('\n')}\n\n`;
     }
-    
-    prompt += `Please provide a structured response with the following sections:
-1. Potential diagnoses with confidence levels (0-1 scale)
-2. Differential diagnoses to consider
-3. Recommended diagnostic tests
-4. Risk factors identified
-5. Follow-up recommendations
-6. Urgency level (low, medium, high, or emergency)
-7. Brief summary of assessment`;
-    
-    return prompt;
-  }
 
-  /**
-   * Structure the AI response into a standardized format
-   */
-  private structureAnalysis(rawAnalysis: string): SymptomAnalysisResult {
-    try {
-      // Default structure for the analysis
-      const analysis: SymptomAnalysisResult = {
-        potentialConditions: [],
-        recommendedTests: [],
-        differentialDiagnoses: [],
-        riskFactors: [],
-        followUpRecommendations: [],
-        urgencyLevel: 'medium',
-        summary: ''
-      };
-      
-      // Process the AI response to extract sections
-      const sections = rawAnalysis.split(/\n\d+\.\s+/);
-      
-      // Extract potential diagnoses (section 1)
-      if (sections.length > 1) {
-        const diagnosesSection = sections[1] || '';
-        const diagnosesLines = diagnosesSection.split('\n').filter(line => line.trim());
-        
-        diagnosesLines.forEach(line => {
-          // Extract condition name and confidence
-          const match = line.match(/(.*?)(?:\s*-\s*|\s*:\s*)(?:confidence[\s:]*)?([\d.]+)/i);
-          if (match) {
-            const condition = match[1].trim();
-            const confidence = parseFloat(match[2]);
-            
-            if (condition && !isNaN(confidence)) {
-              analysis.potentialConditions.push({
-                name: condition,
-                confidence: confidence
-              });
-            }
-          }
-        });
-      }
-      
-      // Extract differential diagnoses (section 2)
-      if (sections.length > 2) {
-        analysis.differentialDiagnoses = sections[2]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/differential diagnoses/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract recommended tests (section 3)
-      if (sections.length > 3) {
-        analysis.recommendedTests = sections[3]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/recommended tests/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract risk factors (section 4)
-      if (sections.length > 4) {
-        analysis.riskFactors = sections[4]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/risk factors/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract follow-up recommendations (section 5)
-      if (sections.length > 5) {
-        analysis.followUpRecommendations = sections[5]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/follow-up recommendations/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract urgency level (section 6)
-      if (sections.length > 6) {
-        const urgencySection = sections[6].toLowerCase();
-        if (urgencySection.includes('emergency')) {
-          analysis.urgencyLevel = 'emergency';
-        } else if (urgencySection.includes('high')) {
-          analysis.urgencyLevel = 'high';
-        } else if (urgencySection.includes('medium')) {
-          analysis.urgencyLevel = 'medium';
-        } else if (urgencySection.includes('low')) {
-          analysis.urgencyLevel = 'low';
-        }
-      }
-      
-      // Extract summary (section 7)
-      if (sections.length > 7) {
-        analysis.summary = sections[7].trim();
-      }
-      
-      return analysis;
-    } catch (error) {
-      logger.error('Error structuring analysis:', error);
-      // Return a minimal structure if parsing fails
-      return {
-        potentialConditions: [],
-        recommendedTests: [],
-        summary: 'Error processing analysis results'
-      };
-    }
+    return promptRegistry.render('symptom.analysis', {
+      symptoms: `- ${symptoms.join('\n- ')}`,
+      vitalSigns: vitalSignsSection,
+      medicalHistory: medicalHistorySection
+    });
   }
-} 
\ No newline at end of file
+}
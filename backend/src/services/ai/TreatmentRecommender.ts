@@ -1,5 +1,8 @@
+import { z, ZodType } from 'zod';
 import { aiService } from './AIServiceManager';
+import { StructuredOutputError } from './llm';
 import logger from '../../utils/logger';
+import { aiConfig } from '../../config/ai.config';
 
 interface TreatmentPlan {
   recommendations: string[];
@@ -16,6 +19,40 @@ interface TreatmentPlan {
   warnings?: string[];
 }
 
+/**
+ * Raised when the model's treatment plan does not match the expected structure
+ */
+export class TreatmentPlanParsingError extends Error {
+  constructor(message: string, public rawResponse?: string) {
+    super(message);
+    this.name = 'TreatmentPlanParsingError';
+  }
+}
+
+const treatmentPlanSchema: ZodType<TreatmentPlan> = z.object({
+  recommendations: z.array(z.string()).min(1),
+  medications: z.array(z.object({
+    name: z.string().min(1),
+    dosage: z.string(),
+    frequency: z.string(),
+    duration: z.string(),
+    notes: z.string().optional()
+  })),
+  lifestyle: z.array(z.string()),
+  followUp: z.string(),
+  referrals: z.array(z.string()),
+  warnings: z.array(z.string())
+});
+
+const TREATMENT_PLAN_FORMAT = `{
+  "recommendations": string[],
+  "medications": [{ "name": string, "dosage": string, "frequency": string, "duration": string, "notes"?: string }],
+  "lifestyle": string[],
+  "followUp": string,
+  "referrals": string[],
+  "warnings": string[]
+}`;
+
 export class TreatmentRecommender {
   constructor() {
     // Initialize any resources needed
@@ -26,6 +63,7 @@ export class TreatmentRecommender {
    * @param diagnoses List of diagnosed conditions
    * @param patient Patient data
    * @returns Treatment plan with recommendations
+   * @throws TreatmentPlanParsingError if the AI response does not match the expected structure
    */
   async recommendTreatment(
     diagnoses: string[],
@@ -42,13 +80,16 @@ export class TreatmentRecommender {
       const prompt = this.formatTreatmentPrompt(diagnoses, patientData);
       logger.info(`Generating treatment recommendation for diagnoses: ${diagnoses.join(', ')}`);
       
-      // Call AI service to generate treatment recommendations
-      const response = await aiService.analyzeMedicalReport(prompt);
-      
-      // Structure the response into a treatment plan
-      return this.structureTreatmentPlan(response.analysis);
+      // Call AI service to generate treatment recommendations; the plan is validated against the schema
+      return await aiService.generateStructured(prompt, treatmentPlanSchema, TREATMENT_PLAN_FORMAT, {
+        config: aiConfig.openai.prescriptionModel,
+        feature: 'treatment.plan'
+      });
     } catch (error) {
       logger.error('Error generating treatment recommendations:', error);
+      if (error instanceof StructuredOutputError) {
+        throw new TreatmentPlanParsingError(`Failed to generate treatment plan: ${error.message}`, error.rawContent);
+      }
       return {
         recommendations: ['Error generating treatment recommendations. Please consult with a healthcare provider.'],
         warnings: ['This is a system-generated fallback due to an error.']
@@ -98,138 +139,17 @@ export class TreatmentRecommender {
       });
     }
     
-    prompt += `\nPlease provide a structured treatment plan with the following sections:
-1. Treatment recommendations (medications, therapies, procedures)
-2. Medication details (name, dosage, frequency, duration)
-3. Lifestyle modifications
-4. Follow-up recommendations
-5. Specialist referrals (if needed)
-6. Important warnings or contraindications`;
+    prompt += `\nPlease provide a treatment plan covering:
+- Treatment recommendations (medications, therapies, procedures)
+- Medication details (name, dosage, frequency, duration)
+- Lifestyle modifications
+- Follow-up recommendations
+- Specialist referrals (if needed)
+- Important warnings or contraindications`;
     
     return prompt;
   }
 
-  /**
-   * Structure the AI response into a standardized treatment plan
-   */
-  private structureTreatmentPlan(rawPlan: string): TreatmentPlan {
-    try {
-      // Default structure for the treatment plan
-      const plan: TreatmentPlan = {
-        recommendations: [],
-        medications: [],
-        lifestyle: [],
-        followUp: '',
-        referrals: [],
-        warnings: []
-      };
-      
-      // Process the AI response to extract sections
-      const sections = rawPlan.split(/\n\d+\.\s+/);
-      
-      // Extract treatment recommendations (section 1)
-      if (sections.length > 1) {
-        plan.recommendations = sections[1]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/treatment recommendations/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract medication details (section 2)
-      if (sections.length > 2) {
-        const medicationLines = sections[2]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/medication details/i));
-        
-        medicationLines.forEach(line => {
-          const medication = this.parseMedicationLine(line);
-          if (medication) {
-            plan.medications?.push(medication);
-          }
-        });
-      }
-      
-      // Extract lifestyle modifications (section 3)
-      if (sections.length > 3) {
-        plan.lifestyle = sections[3]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/lifestyle modifications/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract follow-up recommendations (section 4)
-      if (sections.length > 4) {
-        plan.followUp = sections[4].trim();
-      }
-      
-      // Extract specialist referrals (section 5)
-      if (sections.length > 5) {
-        plan.referrals = sections[5]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/specialist referrals/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      // Extract warnings (section 6)
-      if (sections.length > 6) {
-        plan.warnings = sections[6]
-          .split('\n')
-          .filter(line => line.trim() && !line.match(/warnings/i))
-          .map(line => line.replace(/^-\s*/, '').trim());
-      }
-      
-      return plan;
-    } catch (error) {
-      logger.error('Error structuring treatment plan:', error);
-      // Return a minimal structure if parsing fails
-      return {
-        recommendations: ['Error processing treatment recommendations.'],
-        warnings: ['Please consult with a healthcare provider for proper treatment.']
-      };
-    }
-  }
-
-  /**
-   * Parse a medication line into structured data
-   */
-  private parseMedicationLine(line: string): { name: string; dosage: string; frequency: string; duration: string; notes?: string } | null {
-    try {
-      // Try to match medication details
-      // Example format: "Medication Name - 10mg, once daily for 7 days"
-      const regex = /(.*?)[-:]\s*([\d.]+\s*\w+)(?:,|\s+)?\s*(.*?)(?:for|duration:)\s*(.*?)(?:\.|$)(.*)?/i;
-      const match = line.match(regex);
-      
-      if (match) {
-        return {
-          name: match[1].trim(),
-          dosage: match[2].trim(),
-          frequency: match[3].trim(),
-          duration: match[4].trim(),
-          notes: match[5]?.trim()
-        };
-      } else {
-        // Simplified fallback
-        const simpleMedRegex = /(.*?)[-:]\s*(.*)/i;
-        const simpleMatch = line.match(simpleMedRegex);
-        
-        if (simpleMatch) {
-          return {
-            name: simpleMatch[1].trim(),
-            dosage: 'As prescribed',
-            frequency: 'As prescribed',
-            duration: 'As directed',
-            notes: simpleMatch[2]?.trim()
-          };
-        }
-      }
-      
-      return null;
-    } catch (error) {
-      logger.error('Error parsing medication line:', error);
-      return null;
-    }
-  }
-
   /**
    * Calculate age from date of birth
    */
@@ -17,6 +17,7 @@ export class DrugInteractionAnalyzer {
       5. Side effects to watch for`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'drug_interaction.analysis',
       temperature: 0.2,
       maxTokens: 800,
     });
@@ -16,6 +16,7 @@ export class HealthMonitoring {
       4. Lifestyle modification suggestions`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'health.trends',
       temperature: 0.3,
       maxTokens: 1000,
     });
@@ -30,6 +31,7 @@ export class HealthMonitoring {
       5. Risk mitigation strategies`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'health.risks',
       temperature: 0.3,
       maxTokens: 800,
     });
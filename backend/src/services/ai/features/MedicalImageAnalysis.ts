@@ -15,6 +15,7 @@ export class MedicalImageAnalysis {
         5. Critical observations for healthcare providers`;
 
       const response = await aiService.generateCompletion(prompt, {
+        feature: 'image.analysis',
         model: 'gpt-4-vision-preview',
         temperature: 0.2,
       });
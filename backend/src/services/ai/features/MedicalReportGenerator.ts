@@ -15,6 +15,7 @@ export class MedicalReportGenerator {
       6. Medication details and precautions`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'report.generation',
       temperature: 0.3,
       maxTokens: 1500,
     });
@@ -17,6 +17,7 @@ export class MedicalResearchAssistant {
       5. Meta-analyses`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'research.studies',
       temperature: 0.2,
       maxTokens: 1000,
     });
@@ -34,6 +35,7 @@ export class MedicalResearchAssistant {
       5. Practical applications`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'research.summary',
       temperature: 0.3,
       maxTokens: 800,
     });
@@ -19,6 +19,7 @@ export class PatientCommunication {
       6. Follow-up requirements`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'patient.instructions',
       temperature: 0.4,
       maxTokens: 800,
     });
@@ -40,6 +41,7 @@ export class PatientCommunication {
       5. Compliance issues`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'patient.follow_up_questions',
       temperature: 0.3,
       maxTokens: 600,
     });
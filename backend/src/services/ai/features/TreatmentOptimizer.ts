@@ -15,6 +15,7 @@ export class TreatmentOptimizer {
       6. Latest medical guidelines`;
 
     return aiService.generateCompletion(prompt, {
+      feature: 'treatment.optimization',
       temperature: 0.3,
       maxTokens: 1000,
     });
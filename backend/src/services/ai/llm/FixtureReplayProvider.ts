@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMProviderError } from './LLMProvider';
+
+/**
+ * A recorded response. Fixtures match a request exactly by key (a hash of the model and
+ * messages) or loosely by model and text the messages must contain.
+ */
+export interface LLMFixture {
+  name?: string;
+  key?: string;
+  match?: {
+    model?: string;
+    contains?: string[]; // case-insensitive, all must appear
+  };
+  response: {
+    content: string;
+    finishReason?: string;
+  };
+}
+
+export interface FixtureReplayOptions {
+  fixtureDir?: string; // *.json files holding a fixture or an array of fixtures
+  fixtures?: LLMFixture[];
+  strict?: boolean; // fail instead of answering with a placeholder when nothing matches
+  recordWith?: LLMProvider; // answer misses from this provider and save them to fixtureDir
+}
+
+/**
+ * Deterministic provider that replays recorded responses, so AI features run and can be
+ * tested without network access or API keys. With `recordWith` it fills in missing
+ * fixtures from a real provider.
+ */
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name = 'fixture';
+  private fixtures: LLMFixture[];
+  private loaded = false;
+
+  constructor(private options: FixtureReplayOptions = {}) {
+    this.fixtures = [...(options.fixtures || [])];
+  }
+
+  /**
+   * Key identifying a request: the same model and messages always give the same key
+   */
+  static keyFor(request: Pick<CompletionRequest, 'model' | 'messages'>): string {
+    const messages = request.messages.map(message => ({ role: message.role, content: message.content.trim() }));
+    return createHash('sha256').update(JSON.stringify({ model: request.model, messages })).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Add a fixture at runtime, ahead of those loaded from disk
+   */
+  register(fixture: LLMFixture): void {
+    this.fixtures.unshift(fixture);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.load();
+    const key = FixtureReplayProvider.keyFor(request);
+    const fixture = this.find(request, key);
+
+    if (fixture) {
+      return {
+        content: fixture.response.content,
+        finishReason: fixture.response.finishReason || 'stop',
+        model: request.model,
+        provider: this.name
+      };
+    }
+
+    if (this.options.recordWith) {
+      const result = await this.options.recordWith.complete(request);
+      this.record({ key, response: { content: result.content, finishReason: result.finishReason } });
+      return result;
+    }
+
+    if (this.options.strict) {
+      throw new LLMProviderError(`No LLM fixture matches request ${key}`, 'FIXTURE_NOT_FOUND', false);
+    }
+
+    return {
+      content: `No recorded response for this request (fixture ${key})`,
+      finishReason: 'stop',
+      model: request.model,
+      provider: this.name
+    };
+  }
+
+  private find(request: CompletionRequest, key: string): LLMFixture | undefined {
+    const exact = this.fixtures.find(fixture => fixture.key === key);
+    if (exact) return exact;
+
+    const text = request.messages.map(message => message.content).join('\n').toLowerCase();
+    return this.fixtures.find(fixture =>
+      fixture.match
+      && (!fixture.match.model || fixture.match.model === request.model)
+      && (fixture.match.contains || []).every(fragment => text.includes(fragment.toLowerCase()))
+    );
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const dir = this.options.fixtureDir;
+    if (!dir || !fs.existsSync(dir)) return;
+
+    fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .forEach(file => {
+        const content = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+        this.fixtures.push(...(Array.isArray(content) ? content : [content]));
+      });
+  }
+
+  private record(fixture: LLMFixture): void {
+    this.fixtures.unshift(fixture);
+    const dir = this.options.fixtureDir;
+    if (!dir) return;
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${fixture.key}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
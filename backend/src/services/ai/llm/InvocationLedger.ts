@@ -0,0 +1,67 @@
+import { TokenUsage } from './LLMProvider';
+
+/**
+ * Who asked for a completion and why. The user and department come from the request
+ * context when the caller does not set them.
+ */
+export interface InvocationContext {
+  feature: string; // e.g. 'prescription.suggestions'
+  userId?: string;
+  departmentId?: string;
+  prompt?: {
+    name: string;
+    version: number;
+    experimentId?: string;
+  };
+}
+
+/**
+ * A completion about to be sent, as checked against budgets
+ */
+export interface InvocationEstimate extends InvocationContext {
+  model: string;
+  estimatedPromptTokens: number;
+  maxCompletionTokens: number;
+}
+
+export type InvocationOutcome = 'success' | 'error' | 'rejected';
+
+/**
+ * One completion as recorded in the ledger. Prompts are not stored; inputHash identifies
+ * identical inputs.
+ */
+export interface InvocationRecord extends InvocationContext {
+  provider: string;
+  model: string;
+  inputHash: string;
+  latencyMs: number;
+  attempts: number;
+  usage: TokenUsage;
+  usageEstimated: boolean; // provider reported no usage, so tokens were estimated from text length
+  outcome: InvocationOutcome;
+  errorCode?: string;
+}
+
+/**
+ * Budget enforcement and accounting for completions. The gateway calls authorize before
+ * every completion and record after it, including for rejected and failed ones.
+ */
+export interface InvocationLedger {
+  authorize(estimate: InvocationEstimate): Promise<void>;
+  record(record: InvocationRecord): Promise<void>;
+}
+
+/**
+ * Raised by a ledger when a completion would exceed a user, department or feature budget
+ */
+export class AIBudgetExceededError extends Error {
+  code: string;
+  details?: unknown;
+
+  constructor(message: string, code: string, details?: unknown) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -0,0 +1,366 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { ZodType } from 'zod';
+import { AIModelConfig, deidentificationPolicies } from '../../../config/ai.config';
+import logger from '../../../utils/logger';
+import requestContext from '../../../utils/requestContext';
+import aiUsage from '../../../utils/aiUsage';
+import phiDeidentifier from '../../../utils/phiDeidentifier';
+import { ChatMessage, CompletionRequest, CompletionResult, LLMProvider, LLMProviderError, TokenUsage } from './LLMProvider';
+import { InvocationContext, InvocationLedger, InvocationRecord } from './InvocationLedger';
+import { createAzureOpenAIProvider, createLocalProvider, createOpenAIProvider } from './OpenAIProvider';
+import { FixtureReplayProvider } from './FixtureReplayProvider';
+import { parseStructuredOutput, StructuredOutputError } from './StructuredOutput';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_REPAIRS = 1;
+const DEFAULT_FEATURE = 'general';
+
+/**
+ * Error raised when a completion fails after all attempts
+ */
+export class LLMGatewayError extends Error {
+  code: string;
+  provider: string;
+  attempts: number;
+
+  constructor(message: string, code: string, provider: string, attempts: number) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.provider = provider;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Sampling settings a feature may set per call instead of taking them from its model config
+ */
+export type CompletionOverrides = Partial<Pick<CompletionRequest,
+  'maxTokens' | 'temperature' | 'topP' | 'frequencyPenalty' | 'presencePenalty'>>;
+
+/**
+ * A completion for one AI feature, identified by its model config
+ */
+export interface GatewayRequest {
+  config: AIModelConfig;
+  messages: ChatMessage[];
+  overrides?: CompletionOverrides;
+  responseFormat?: CompletionRequest['responseFormat'];
+  invocation?: Partial<InvocationContext>; // feature and prompt version for the ledger
+}
+
+/**
+ * A completion whose output must be a JSON document matching `schema`. `format` describes
+ * the expected document to the model, e.g. as an example with placeholder values.
+ */
+export interface StructuredRequest<T> extends GatewayRequest {
+  schema: ZodType<T>;
+  format: string;
+}
+
+type ProviderFactory = (config: AIModelConfig) => LLMProvider;
+
+/**
+ * Single entry point for chat completions. Picks the provider named by the feature's
+ * AIModelConfig (or LLM_PROVIDER, which overrides every feature), and applies the config's
+ * token limit, temperature, timeout and retries.
+ *
+ * LLM_PROVIDER=fixture replays recorded responses from LLM_FIXTURE_DIR so features run
+ * offline; it is the default under NODE_ENV=test. With LLM_FIXTURE_RECORD=true, requests
+ * without a fixture go to the configured provider and are saved as new fixtures.
+ *
+ * When a ledger is registered, every completion is checked against budgets first and
+ * recorded afterwards with its feature, user, token usage and outcome.
+ *
+ * Unless the provider's de-identification policy allows PHI (see deidentificationPolicies),
+ * names, dates, MRNs, contact details, addresses and IDs in the messages are replaced with
+ * tokens such as [NAME_1] before they are sent, and the tokens in the reply are replaced
+ * with the original values.
+ */
+export class LLMGateway {
+  private static instance: LLMGateway;
+  private providers = new Map<string, LLMProvider>();
+  private ledger?: InvocationLedger;
+  private factories: Record<string, ProviderFactory> = {
+    openai: config => createOpenAIProvider({ baseURL: config.apiEndpoint }),
+    azure: config => createAzureOpenAIProvider({ baseURL: config.apiEndpoint }),
+    local: config => createLocalProvider({ baseURL: config.apiEndpoint }),
+    fixture: config => new FixtureReplayProvider({
+      fixtureDir: process.env.LLM_FIXTURE_DIR || path.resolve(process.cwd(), 'fixtures/llm'),
+      recordWith: process.env.LLM_FIXTURE_RECORD === 'true' ? this.createProvider(config.provider, config) : undefined
+    })
+  };
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): LLMGateway {
+    if (!LLMGateway.instance) {
+      LLMGateway.instance = new LLMGateway();
+    }
+    return LLMGateway.instance;
+  }
+
+  /**
+   * Register a provider, e.g. a preloaded fixture provider in tests. Replaces any provider
+   * already created under the name.
+   */
+  public registerProvider(name: string, factory: ProviderFactory): void {
+    this.factories[name] = factory;
+    [...this.providers.keys()].filter(key => key.startsWith(`${name}|`)).forEach(key => this.providers.delete(key));
+  }
+
+  /**
+   * Register the ledger that enforces budgets and records completions, or remove it
+   */
+  public useLedger(ledger: InvocationLedger | undefined): void {
+    this.ledger = ledger;
+  }
+
+  /**
+   * Name of the provider that serves a model config
+   */
+  public providerFor(config: AIModelConfig): string {
+    return process.env.LLM_PROVIDER || (process.env.NODE_ENV === 'test' ? 'fixture' : config.provider);
+  }
+
+  /**
+   * Run a chat completion with the model config's limits, retrying transient failures
+   */
+  public async complete(request: GatewayRequest): Promise<CompletionResult> {
+    const { config } = request;
+    const provider = this.getProvider(config);
+    const maxAttempts = 1 + (config.maxRetries ?? DEFAULT_MAX_RETRIES);
+    const retryDelayMs = config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+    const outbound = this.deidentify(config, request.messages);
+    const completionRequest: CompletionRequest = {
+      model: config.modelName,
+      messages: outbound.messages,
+      maxTokens: config.maxTokens || undefined,
+      temperature: config.temperature,
+      responseFormat: request.responseFormat,
+      ...Object.fromEntries(Object.entries(request.overrides || {}).filter(([, value]) => value !== undefined))
+    };
+
+    const context = this.invocationContext(request.invocation);
+    const estimatedPromptTokens = aiUsage.estimateTokens(request.messages.map(message => message.content).join('\n'));
+    const entry = {
+      ...context,
+      provider: provider.name,
+      model: completionRequest.model,
+      inputHash: createHash('sha256').update(JSON.stringify([completionRequest.model, request.messages])).digest('hex')
+    };
+    const noUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    if (this.ledger) {
+      try {
+        await this.ledger.authorize({
+          ...context,
+          model: completionRequest.model,
+          estimatedPromptTokens,
+          maxCompletionTokens: completionRequest.maxTokens || 0
+        });
+      } catch (error) {
+        this.record({
+          ...entry, latencyMs: 0, attempts: 0, usage: noUsage, usageEstimated: false,
+          outcome: 'rejected', errorCode: (error as { code?: string }).code
+        });
+        throw error;
+      }
+    }
+
+    const startedAt = Date.now();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.completeWithTimeout(provider, completionRequest, config.timeout);
+        const result = { ...response, content: phiDeidentifier.reidentify(response.content, outbound.tokens) };
+        this.record({
+          ...entry,
+          latencyMs: Date.now() - startedAt,
+          attempts: attempt,
+          usage: result.usage || this.estimateUsage(estimatedPromptTokens, result.content),
+          usageEstimated: !result.usage,
+          outcome: 'success'
+        });
+        return result;
+      } catch (error) {
+        const providerError = error instanceof LLMProviderError
+          ? error
+          : new LLMProviderError((error as Error).message, 'PROVIDER_ERROR', false);
+
+        if (!providerError.retryable || attempt >= maxAttempts) {
+          logger.error(`LLM completion failed (${provider.name}, ${config.modelName}, attempt ${attempt}): ${providerError.message}`);
+          this.record({
+            ...entry, latencyMs: Date.now() - startedAt, attempts: attempt, usage: noUsage, usageEstimated: false,
+            outcome: 'error', errorCode: providerError.code
+          });
+          throw new LLMGatewayError(providerError.message, providerError.code, provider.name, attempt);
+        }
+
+        const delay = retryDelayMs * 2 ** (attempt - 1);
+        logger.warn(`LLM completion attempt ${attempt} failed (${providerError.code}); retrying in ${delay} ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Run a completion that must return JSON matching the request's schema. Output that fails
+   * to parse or validate is sent back to the model with the problems found, up to the
+   * config's maxRepairs times, before failing with a StructuredOutputError.
+   */
+  public async completeStructured<T>(request: StructuredRequest<T>): Promise<T> {
+    const { config, schema } = request;
+    const maxAttempts = 1 + (config.maxRepairs ?? DEFAULT_MAX_REPAIRS);
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `Respond with a single JSON document and nothing else: no prose, no code fences. Use this shape:\n${request.format}`
+      },
+      ...request.messages
+    ];
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.complete({
+        config,
+        messages,
+        overrides: request.overrides,
+        responseFormat: config.jsonMode ? 'json' : undefined,
+        invocation: request.invocation
+      });
+      const parsed = parseStructuredOutput(result.content, schema);
+      if (parsed.success) {
+        return parsed.data;
+      }
+
+      if (attempt >= maxAttempts) {
+        logger.error(`LLM output failed validation (${config.modelName}, attempt ${attempt}): ${parsed.issues.join('; ')}`);
+        throw new StructuredOutputError(
+          `Model output did not match the expected format: ${parsed.issues.join('; ')}`,
+          'INVALID_STRUCTURED_OUTPUT',
+          parsed.issues,
+          result.content
+        );
+      }
+
+      logger.warn(`LLM output failed validation (attempt ${attempt}); asking the model to repair it`);
+      messages.push(
+        { role: 'assistant', content: result.content },
+        {
+          role: 'user',
+          content: `That response does not match the required JSON shape:\n- ${parsed.issues.join('\n- ')}\nReply with the corrected JSON document only.`
+        }
+      );
+    }
+  }
+
+  /**
+   * Completion for a single prompt with an optional system prompt; returns the text
+   */
+  public async prompt(
+    config: AIModelConfig,
+    prompt: string,
+    systemPrompt?: string,
+    overrides?: CompletionOverrides,
+    invocation?: Partial<InvocationContext>
+  ): Promise<string> {
+    const messages: ChatMessage[] = systemPrompt
+      ? [{ role: 'system', content: systemPrompt }, { role: 'user', content: prompt }]
+      : [{ role: 'user', content: prompt }];
+    const result = await this.complete({ config, messages, overrides, invocation });
+    return result.content;
+  }
+
+  // Callers name the feature; the user and department default to the current request's
+  private invocationContext(invocation: Partial<InvocationContext> = {}): InvocationContext {
+    const current = requestContext.get();
+    return {
+      feature: invocation.feature || DEFAULT_FEATURE,
+      userId: invocation.userId || current.userId,
+      departmentId: invocation.departmentId || current.departmentId,
+      prompt: invocation.prompt
+    };
+  }
+
+  // Fixture recordings follow the policy of the provider they record from
+  private deidentify(config: AIModelConfig, messages: ChatMessage[]): { messages: ChatMessage[]; tokens: Record<string, string> } {
+    const name = this.providerFor(config);
+    const policyName = name === 'fixture' ? config.provider : name;
+    const policy = deidentificationPolicies[policyName] || deidentificationPolicies.default;
+    if (!policy.enabled) {
+      return { messages, tokens: {} };
+    }
+
+    const { texts, tokens, counts } = phiDeidentifier.deidentify(messages.map(message => message.content), policy.categories);
+    if (Object.keys(tokens).length > 0) {
+      logger.debug(`De-identified prompt for ${policyName}: ${JSON.stringify(counts)}`);
+    }
+    return { messages: messages.map((message, i) => ({ ...message, content: texts[i] })), tokens };
+  }
+
+  private estimateUsage(promptTokens: number, content: string): TokenUsage {
+    const completionTokens = aiUsage.estimateTokens(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  // Ledger writes never hold up or fail a completion
+  private record(record: InvocationRecord): void {
+    if (!this.ledger) return;
+    this.ledger.record(record).catch(error => {
+      logger.error(`Failed to record LLM invocation for ${record.feature}: ${error}`);
+    });
+  }
+
+  private async completeWithTimeout(
+    provider: LLMProvider,
+    request: CompletionRequest,
+    timeoutMs: number
+  ): Promise<CompletionResult> {
+    if (!timeoutMs) {
+      return provider.complete(request);
+    }
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMProviderError(`LLM request timed out after ${timeoutMs} ms`, 'TIMEOUT', true));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([provider.complete({ ...request, signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getProvider(config: AIModelConfig): LLMProvider {
+    const name = this.providerFor(config);
+    // Providers are shared per endpoint; a fixture provider is shared per recording provider
+    const key = `${name}|${name === 'fixture' ? config.provider : ''}|${config.apiEndpoint}`;
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = this.createProvider(name, config);
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  private createProvider(name: string, config: AIModelConfig): LLMProvider {
+    const factory = this.factories[name];
+    if (!factory) {
+      throw new LLMGatewayError(`Unknown LLM provider "${name}"`, 'UNKNOWN_PROVIDER', name, 0);
+    }
+    return factory(config);
+  }
+}
+
+export const llmGateway = LLMGateway.getInstance();
@@ -0,0 +1,65 @@
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+/**
+ * A chat completion request as sent to a provider. Limits come from the feature's AIModelConfig.
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A provider's completion, normalised across providers
+ */
+export interface CompletionResult {
+  content: string;
+  finishReason: string; // 'stop', 'length', ...
+  model: string;
+  provider: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Error raised by providers. Retryable errors (rate limits, timeouts, server errors) are
+ * retried by the gateway.
+ */
+export class LLMProviderError extends Error {
+  code: string;
+  retryable: boolean;
+  status?: number;
+
+  constructor(message: string, code: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+/**
+ * A chat completion backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
@@ -0,0 +1,98 @@
+import OpenAI, { APIConnectionTimeoutError, APIError, APIUserAbortError, AzureOpenAI } from 'openai';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMProviderError } from './LLMProvider';
+
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits and server errors
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504];
+
+/**
+ * Chat completions through the OpenAI SDK. The same client serves OpenAI, Azure OpenAI
+ * deployments and OpenAI-compatible local servers (vLLM, Ollama, llama.cpp).
+ */
+export class OpenAIProvider implements LLMProvider {
+  constructor(readonly name: string, private client: OpenAI) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          top_p: request.topP,
+          frequency_penalty: request.frequencyPenalty,
+          presence_penalty: request.presencePenalty,
+          response_format: request.responseFormat === 'json' ? { type: 'json_object' } : undefined
+        },
+        { signal: request.signal }
+      );
+
+      const choice = completion.choices[0];
+      return {
+        content: choice?.message?.content || '',
+        finishReason: choice?.finish_reason || 'stop',
+        model: completion.model || request.model,
+        provider: this.name,
+        usage: completion.usage
+          ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens
+          }
+          : undefined
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private toProviderError(error: unknown): LLMProviderError {
+    if (error instanceof APIUserAbortError || error instanceof APIConnectionTimeoutError) {
+      return new LLMProviderError(`${this.name} request timed out`, 'TIMEOUT', true);
+    }
+    if (error instanceof APIError) {
+      const status = error.status;
+      return new LLMProviderError(
+        `${this.name} request failed: ${error.message}`,
+        status === 429 ? 'RATE_LIMITED' : 'PROVIDER_ERROR',
+        status === undefined || RETRYABLE_STATUSES.includes(status),
+        status
+      );
+    }
+    return new LLMProviderError(`${this.name} request failed: ${(error as Error).message}`, 'PROVIDER_ERROR', false);
+  }
+}
+
+/**
+ * Connection settings for an OpenAI-compatible endpoint
+ */
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): OpenAIProvider {
+  return new OpenAIProvider('openai', new OpenAI({
+    apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+    baseURL: options.baseURL,
+    maxRetries: 0 // the gateway retries
+  }));
+}
+
+export function createAzureOpenAIProvider(options: OpenAIProviderOptions = {}): OpenAIProvider {
+  return new OpenAIProvider('azure', new AzureOpenAI({
+    apiKey: options.apiKey ?? process.env.AZURE_OPENAI_API_KEY,
+    endpoint: options.baseURL ?? process.env.AZURE_OPENAI_ENDPOINT,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+    maxRetries: 0
+  }));
+}
+
+export function createLocalProvider(options: OpenAIProviderOptions = {}): OpenAIProvider {
+  return new OpenAIProvider('local', new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: options.apiKey ?? process.env.LOCAL_LLM_API_KEY ?? 'local',
+    baseURL: options.baseURL,
+    maxRetries: 0
+  }));
+}
@@ -0,0 +1,59 @@
+import { ZodType } from 'zod';
+
+/**
+ * Error raised when a model's output still fails its schema after all repair attempts
+ */
+export class StructuredOutputError extends Error {
+  code: string;
+  issues: string[];
+  rawContent: string;
+
+  constructor(message: string, code: string, issues: string[], rawContent: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.issues = issues;
+    this.rawContent = rawContent;
+  }
+}
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Pull the JSON document out of a model response. Models sometimes wrap it in code fences
+ * or add a sentence around it even when told not to.
+ */
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  const start = text.search(/[[{]/);
+  if (start === -1) return text;
+
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return end > start ? text.slice(start, end + 1) : text.slice(start);
+}
+
+/**
+ * Parse a model response and validate it against a schema
+ */
+export function parseStructuredOutput<T>(content: string, schema: ZodType<T>): StructuredParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { success: false, issues: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  };
+}
@@ -0,0 +1,6 @@
+export * from './LLMProvider';
+export * from './OpenAIProvider';
+export * from './FixtureReplayProvider';
+export * from './StructuredOutput';
+export * from './LLMGateway';
+export * from './InvocationLedger';
@@ -1,17 +1,14 @@
-const { Configuration, OpenAIApi } = require('openai');
 const config = require('../config');
-
-// Initialize OpenAI configuration
-const configuration = new Configuration({
-  apiKey: config.openai.apiKey
-});
-
-const openai = new OpenAIApi(configuration);
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway } = require('./ai/llm');
 
 class AIDiagnosisService {
   constructor() {
-    this.model = config.openai.model;
-    this.maxTokens = config.openai.maxTokens;
+    this.modelConfig = {
+      ...aiConfig.openai.healthAnalyticsModel,
+      modelName: config.openai.model,
+      maxTokens: config.openai.maxTokens
+    };
   }
 
   /**
@@ -116,8 +113,8 @@ Based on the above information, please provide:
     try {
       const prompt = this.formatPatientData(patientData);
 
-      const completion = await openai.createChatCompletion({
-        model: this.model,
+      const completion = await llmGateway.complete({
+        config: this.modelConfig,
         messages: [
           {
             role: 'system',
@@ -132,13 +129,11 @@ Based on the above information, please provide:
             content: prompt
           }
         ],
-        max_tokens: this.maxTokens,
-        temperature: 0.5,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1
+        overrides: { temperature: 0.5, presencePenalty: 0.1, frequencyPenalty: 0.1 },
+        invocation: { feature: 'diagnosis.legacy' }
       });
 
-      const aiResponse = completion.data.choices[0].message.content;
+      const aiResponse = completion.content;
       return this.parseAIResponse(aiResponse);
     } catch (error) {
       console.error('Error getting AI diagnosis:', error);
@@ -1,21 +1,21 @@
-const { Configuration, OpenAIApi } = require('openai');
 const config = require('../config');
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway } = require('./ai/llm');
 const Task = require('../models/Task');
 const Visit = require('../models/Visit');
 const VisitTimer = require('../models/VisitTimer');
 const mongoose = require('mongoose');
 const aiVisualization = require('./aiVisualization');
-
-const configuration = new Configuration({
-  apiKey: config.openai.apiKey
-});
-
-const openai = new OpenAIApi(configuration);
+const { AIFeedback } = require('../models/AIFeedback');
+const { promptRegistry } = require('./PromptRegistryService');
 
 class AILearningService {
   constructor() {
-    this.model = config.openai.model;
-    this.maxTokens = config.openai.maxTokens;
+    this.modelConfig = {
+      ...aiConfig.openai.healthAnalyticsModel,
+      modelName: config.openai.model,
+      maxTokens: config.openai.maxTokens
+    };
     this.learningCache = new Map();
     this.accuracyThreshold = 0.8; // 80% accuracy threshold
   }
@@ -163,48 +163,37 @@ class AILearningService {
    * Get AI insights on prediction patterns
    */
   async getAIInsights(predictions, predictionType) {
-    const prompt = this.formatInsightPrompt(predictions, predictionType);
+    const prompt = await this.formatInsightPrompt(predictions, predictionType);
 
-    const completion = await openai.createChatCompletion({
-      model: this.model,
+    const completion = await llmGateway.complete({
+      config: this.modelConfig,
       messages: [
         {
           role: 'system',
-          content: `You are an AI learning analyst. Analyze prediction patterns and outcomes 
-          to identify areas for improvement and suggest adjustments to the prediction model. 
-          Consider factors like prediction accuracy, consistent biases, and edge cases.`
+          content: prompt.systemPrompt
         },
         {
           role: 'user',
-          content: prompt
+          content: prompt.text
         }
       ],
-      max_tokens: 500,
-      temperature: 0.3
+      overrides: { maxTokens: 500, temperature: 0.3 },
+      invocation: { feature: 'learning.insights', prompt: prompt.reference }
     });
 
-    return this.parseInsightResponse(completion.data.choices[0].message.content);
+    return {
+      ...this.parseInsightResponse(completion.content),
+      prompt: prompt.reference
+    };
   }
 
   formatInsightPrompt(predictions, predictionType) {
-    return `
-Prediction Analysis:
-Type: ${predictionType}
-Sample Size: ${predictions.length}
-
-Prediction Data:
-${JSON.stringify(predictions, null, 2)}
-
-Accuracy Distribution:
-${this.calculateAccuracyDistribution(predictions)}
-
-Please analyze and provide:
-1. Identified patterns in prediction errors
-2. Common factors in high-accuracy predictions
-3. Edge cases requiring special handling
-4. Suggested adjustments to improve accuracy
-5. Confidence thresholds for different scenarios
-`;
+    return promptRegistry.render('learning.insights', {
+      predictionType,
+      sampleSize: predictions.length,
+      predictions,
+      accuracyDistribution: this.calculateAccuracyDistribution(predictions)
+    });
   }
 
   calculateAccuracyDistribution(predictions) {
@@ -403,6 +392,7 @@ Please analyze and provide:
         accuracy: feedbackData.accuracy,
         userFeedback: feedbackData.userFeedback,
         context: feedbackData.context,
+        prompt: feedbackData.prompt || feedbackData.predictedOutcome?.prompt,
         timestamp: new Date()
       });
       await feedback.save();
@@ -445,8 +435,8 @@ Please analyze and provide:
   async analyzeFeedbackPatterns(feedback) {
     const prompt = this.formatFeedbackAnalysisPrompt(feedback);
 
-    const completion = await openai.createChatCompletion({
-      model: this.model,
+    const completion = await llmGateway.complete({
+      config: this.modelConfig,
       messages: [
         {
           role: 'system',
@@ -459,11 +449,11 @@ Please analyze and provide:
           content: prompt
         }
       ],
-      max_tokens: 500,
-      temperature: 0.3
+      overrides: { maxTokens: 500, temperature: 0.3 },
+      invocation: { feature: 'learning.feedback_analysis' }
     });
 
-    return this.parseFeedbackAnalysis(completion.data.choices[0].message.content);
+    return this.parseFeedbackAnalysis(completion.content);
   }
 
   formatFeedbackAnalysisPrompt(feedback) {
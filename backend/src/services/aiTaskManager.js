@@ -1,17 +1,15 @@
-const { Configuration, OpenAIApi } = require('openai');
 const config = require('../config');
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway } = require('./ai/llm');
 const aiLearning = require('./aiLearning');
 
-const configuration = new Configuration({
-  apiKey: config.openai.apiKey
-});
-
-const openai = new OpenAIApi(configuration);
-
 class AITaskManager {
   constructor() {
-    this.model = config.openai.model;
-    this.maxTokens = config.openai.maxTokens;
+    this.modelConfig = {
+      ...aiConfig.openai.healthAnalyticsModel,
+      modelName: config.openai.model,
+      maxTokens: config.openai.maxTokens
+    };
   }
 
   /**
@@ -21,8 +19,8 @@ class AITaskManager {
     try {
       const prompt = this.formatAssignmentPrompt(task, availableStaff, historicalData);
       
-      const completion = await openai.createChatCompletion({
-        model: this.model,
+      const completion = await llmGateway.complete({
+        config: this.modelConfig,
         messages: [
           {
             role: 'system',
@@ -36,11 +34,11 @@ class AITaskManager {
             content: prompt
           }
         ],
-        max_tokens: 500,
-        temperature: 0.3
+        overrides: { maxTokens: 500, temperature: 0.3 },
+        invocation: { feature: 'task.assignment' }
       });
 
-      let prediction = this.parseAssignmentResponse(completion.data.choices[0].message.content);
+      let prediction = this.parseAssignmentResponse(completion.content);
 
       // Apply learning adjustments
       prediction = await aiLearning.applyLearningAdjustments('task_assignment', prediction);
@@ -59,8 +57,8 @@ class AITaskManager {
     try {
       const prompt = this.formatPriorityPrompt(task, departmentWorkload, patientContext);
 
-      const completion = await openai.createChatCompletion({
-        model: this.model,
+      const completion = await llmGateway.complete({
+        config: this.modelConfig,
         messages: [
           {
             role: 'system',
@@ -73,11 +71,11 @@ class AITaskManager {
             content: prompt
           }
         ],
-        max_tokens: 300,
-        temperature: 0.2
+        overrides: { maxTokens: 300, temperature: 0.2 },
+        invocation: { feature: 'task.priority' }
       });
 
-      let prediction = this.parsePriorityResponse(completion.data.choices[0].message.content);
+      let prediction = this.parsePriorityResponse(completion.content);
 
       // Apply learning adjustments
       prediction = await aiLearning.applyLearningAdjustments('task_priority', prediction);
@@ -96,8 +94,8 @@ class AITaskManager {
     try {
       const prompt = this.formatBottleneckPrompt(departmentTasks, staffAvailability, resourceUtilization);
 
-      const completion = await openai.createChatCompletion({
-        model: this.model,
+      const completion = await llmGateway.complete({
+        config: this.modelConfig,
         messages: [
           {
             role: 'system',
@@ -110,11 +108,11 @@ class AITaskManager {
             content: prompt
           }
         ],
-        max_tokens: 600,
-        temperature: 0.3
+        overrides: { maxTokens: 600, temperature: 0.3 },
+        invocation: { feature: 'task.bottlenecks' }
       });
 
-      let prediction = this.parseBottleneckResponse(completion.data.choices[0].message.content);
+      let prediction = this.parseBottleneckResponse(completion.content);
 
       // Apply learning adjustments
       prediction = await aiLearning.applyLearningAdjustments('bottleneck', prediction);
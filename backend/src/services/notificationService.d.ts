@@ -0,0 +1,11 @@
+import { Server } from 'http';
+
+declare class NotificationService {
+  constructor(server: Server);
+  sendNotification(userId: string, notification: Record<string, unknown>): Promise<void>;
+  sendNotificationToUsers(userIds: string[], notification: Record<string, unknown>): Promise<void>;
+  sendToUser(userId: string, message: Record<string, unknown>): void;
+  close(): void;
+}
+
+export = NotificationService;
@@ -1,10 +1,10 @@
 const WebSocket = require('ws');
 const jwt = require('jsonwebtoken');
 const NotificationPreferences = require('../models/NotificationPreferences');
-const Notification = require('../models/Notification');
-const { AppError } = require('../middleware/errorHandler');
+const { Notification } = require('../models/Notification');
+const { AppError } = require('../errors/AppError');
 const Task = require('../models/Task');
-const User = require('../models/User');
+const { User } = require('../models/User');
 
 class NotificationService {
   constructor(server) {
@@ -50,7 +50,7 @@ class NotificationService {
     });
 
     // Heartbeat to keep connections alive
-    setInterval(() => {
+    this.heartbeat = setInterval(() => {
       this.wss.clients.forEach(ws => {
         if (!ws.isAlive) return ws.terminate();
         
@@ -77,7 +77,7 @@ class NotificationService {
         await this.handleGroupUpdate(userId, data);
         break;
       default:
-        throw new AppError('Invalid message type', 400);
+        throw AppError.badRequest('Invalid message type');
     }
   }
 
@@ -364,6 +364,15 @@ class NotificationService {
     );
   }
 
+  /**
+   * Stop the heartbeat and close every client connection
+   */
+  close() {
+    clearInterval(this.heartbeat);
+    this.wss.clients.forEach(ws => ws.terminate());
+    this.wss.close();
+  }
+
   sendToUser(userId, message) {
     const client = this.clients.get(userId);
     if (client && client.readyState === WebSocket.OPEN) {
@@ -1,43 +1,48 @@
+const { AuditLog } = require('../models/AuditLog');
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway, AIBudgetExceededError } = require('./ai/llm');
 
-const axios = require('axios');
-const AuditLog = require('../models/AuditLog');
-
+// Retries, timeout and token limits come from the model config; the gateway applies them
 async function sendToGPT4(promptData, userId) {
-  const headers = {
-    Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    'Content-Type': 'application/json'
-  };
-
-  const body = {
-    model: 'gpt-4',
-    messages: [{ role: 'system', content: promptData }],
-    temperature: 0.5
-  };
-
-  let attempts = 0;
-  const maxRetries = 2;
-  const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+  try {
+    const result = await llmGateway.complete({
+      config: aiConfig.openai.healthAnalyticsModel,
+      messages: [{ role: 'system', content: promptData }],
+      overrides: { temperature: 0.5 },
+      invocation: { feature: 'health.analytics', userId: userId && String(userId) }
+    });
 
-  while (attempts <= maxRetries) {
-    try {
-      const response = await axios.post('https://api.openai.com/v1/chat/completions', body, { headers });
-      return response.data;
-    } catch (error) {
-      attempts++;
-      if (attempts > maxRetries) {
-        await AuditLog.create({
-          userId,
-          action: 'GPT4_API_FAILURE',
-          metadata: {
-            error: error.message,
-            prompt: promptData
-          },
-          timestamp: new Date()
-        });
-        throw new Error('OpenAI GPT-4 API failed after retries.');
+    // Keep the chat completions response shape callers already read
+    return {
+      model: result.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: result.content },
+        finish_reason: result.finishReason
+      }],
+      usage: result.usage && {
+        prompt_tokens: result.usage.promptTokens,
+        completion_tokens: result.usage.completionTokens,
+        total_tokens: result.usage.totalTokens
       }
-      await delay(attempts * 1000); // Exponential backoff: 1s, 2s
+    };
+  } catch (error) {
+    // Budget rejections are recorded in the AI usage ledger and reported to the caller as is
+    if (error instanceof AIBudgetExceededError) {
+      throw error;
     }
+    await AuditLog.create({
+      userId,
+      action: 'llm_request_failed',
+      metadata: {
+        error: error.message,
+        provider: error.provider,
+        attempts: error.attempts,
+        prompt: promptData
+      },
+      timestamp: new Date()
+    });
+    throw new Error('LLM request failed after retries.');
   }
 }
 
@@ -0,0 +1,169 @@
+import ncpdpScriptCodec, { ParsedScriptMessage, ScriptHeader } from '../../utils/ncpdpScript';
+import { InboundMessageHandler, PharmacyAdapter, PharmacyInfo } from './PharmacyAdapter';
+
+/**
+ * A prescription held by the mock pharmacy
+ */
+interface ReceivedPrescription {
+  pharmacyId: string;
+  newRx: ParsedScriptMessage;
+  state: 'received' | 'dispensed' | 'cancelled';
+}
+
+const DEFAULT_PHARMACIES: PharmacyInfo[] = [
+  { id: '0000001', name: 'Local Test Pharmacy', address: '1 Main Street', phone: '555-0100' },
+  { id: '0000002', name: 'Local Test Pharmacy (24h)', address: '200 Harbor Road', phone: '555-0122' }
+];
+
+/**
+ * In-memory pharmacy for development and tests. It acknowledges new prescriptions, answers
+ * cancellations directly (denied once dispensed), and can be driven to dispense or ask for
+ * a renewal the way a real pharmacy would.
+ */
+export class MockPharmacyAdapter implements PharmacyAdapter {
+  readonly name = 'mock';
+  private handler?: InboundMessageHandler;
+  private prescriptions = new Map<string, ReceivedPrescription>();
+  private received: ParsedScriptMessage[] = [];
+
+  constructor(private pharmacies: PharmacyInfo[] = DEFAULT_PHARMACIES) {}
+
+  async findPharmacies(query?: string): Promise<PharmacyInfo[]> {
+    const term = query?.trim().toLowerCase();
+    return term
+      ? this.pharmacies.filter(pharmacy => pharmacy.id === term || pharmacy.name.toLowerCase().includes(term))
+      : [...this.pharmacies];
+  }
+
+  async getPharmacy(pharmacyId: string): Promise<PharmacyInfo | undefined> {
+    return this.pharmacies.find(pharmacy => pharmacy.id === pharmacyId);
+  }
+
+  onMessage(handler: InboundMessageHandler): void {
+    this.handler = handler;
+  }
+
+  async send(pharmacyId: string, message: string): Promise<string | undefined> {
+    const parsed = ncpdpScriptCodec.parse(message);
+    this.received.push(parsed);
+
+    if (!(await this.getPharmacy(pharmacyId))) {
+      return this.error(parsed, '900', `Unknown pharmacy ${pharmacyId}`);
+    }
+
+    switch (parsed.type) {
+      case 'NewRx':
+        this.prescriptions.set(parsed.header.messageId, { pharmacyId, newRx: parsed, state: 'received' });
+        return this.status(parsed);
+
+      case 'CancelRx': {
+        const prescription = this.find(parsed.header.relatesToMessageId);
+        if (!prescription) {
+          return this.error(parsed, '900', 'Prescription not found');
+        }
+        const approved = prescription.state !== 'dispensed';
+        if (approved) prescription.state = 'cancelled';
+        return ncpdpScriptCodec.build('CancelRxResponse', this.replyHeader(parsed), {
+          Response: approved
+            ? { Approved: { Note: 'Prescription cancelled' } }
+            : { Denied: { ReasonCode: 'AA', DenialReason: 'Prescription has already been dispensed' } }
+        });
+      }
+
+      case 'RxRenewalResponse':
+        return this.status(parsed);
+
+      default:
+        return this.error(parsed, '900', `Unsupported transaction ${parsed.type}`);
+    }
+  }
+
+  /**
+   * Dispense a received prescription and notify the prescriber with an RxFill
+   */
+  async dispense(newRxMessageId: string, outcome: 'dispensed' | 'partial' | 'not_dispensed' = 'dispensed', note?: string): Promise<void> {
+    const prescription = this.require(newRxMessageId);
+    if (outcome !== 'not_dispensed') prescription.state = 'dispensed';
+
+    const fillStatus = outcome === 'dispensed'
+      ? { Dispensed: { Note: note } }
+      : outcome === 'partial'
+        ? { PartiallyDispensed: { Note: note || 'Partial quantity dispensed' } }
+        : { NotDispensed: { Note: note || 'Not dispensed' } };
+
+    await this.deliver(ncpdpScriptCodec.build('RxFill', this.pharmacyHeader(prescription), {
+      FillStatus: fillStatus,
+      MedicationDispensed: {
+        DrugDescription: prescription.newRx.fields['MedicationPrescribed.DrugDescription'],
+        Quantity: { Value: prescription.newRx.fields['MedicationPrescribed.Quantity.Value'] }
+      }
+    }));
+  }
+
+  /**
+   * Ask the prescriber to renew a received prescription
+   */
+  async requestRenewal(newRxMessageId: string, note?: string): Promise<string> {
+    const prescription = this.require(newRxMessageId);
+    const header = this.pharmacyHeader(prescription);
+    await this.deliver(ncpdpScriptCodec.build('RxRenewalRequest', header, {
+      MedicationDispensed: {
+        DrugDescription: prescription.newRx.fields['MedicationPrescribed.DrugDescription'],
+        Quantity: { Value: prescription.newRx.fields['MedicationPrescribed.Quantity.Value'] },
+        Note: note
+      }
+    }));
+    return header.messageId;
+  }
+
+  /**
+   * Messages the pharmacy has received, oldest first
+   */
+  getReceivedMessages(): ParsedScriptMessage[] {
+    return [...this.received];
+  }
+
+  private find(newRxMessageId?: string): ReceivedPrescription | undefined {
+    return newRxMessageId ? this.prescriptions.get(newRxMessageId) : undefined;
+  }
+
+  private require(newRxMessageId: string): ReceivedPrescription {
+    const prescription = this.find(newRxMessageId);
+    if (!prescription) {
+      throw new Error(`Mock pharmacy has no prescription for message ${newRxMessageId}`);
+    }
+    return prescription;
+  }
+
+  private async deliver(message: string): Promise<void> {
+    if (!this.handler) {
+      throw new Error('No inbound message handler registered');
+    }
+    await this.handler(message);
+  }
+
+  private status(request: ParsedScriptMessage): string {
+    return ncpdpScriptCodec.build('Status', this.replyHeader(request), { Code: '000' });
+  }
+
+  private error(request: ParsedScriptMessage, code: string, description: string): string {
+    return ncpdpScriptCodec.build('Error', this.replyHeader(request), { Code: code, Description: description });
+  }
+
+  private replyHeader(request: ParsedScriptMessage): ScriptHeader {
+    return {
+      to: request.header.from,
+      from: request.header.to,
+      messageId: ncpdpScriptCodec.newMessageId(),
+      relatesToMessageId: request.header.messageId,
+      sentTime: new Date(),
+      prescriberOrderNumber: request.header.prescriberOrderNumber
+    };
+  }
+
+  private pharmacyHeader(prescription: ReceivedPrescription): ScriptHeader {
+    return { ...this.replyHeader(prescription.newRx), from: prescription.pharmacyId };
+  }
+}
+
+export default MockPharmacyAdapter;
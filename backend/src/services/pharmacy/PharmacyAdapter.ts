@@ -0,0 +1,40 @@
+/**
+ * A pharmacy that can receive electronic prescriptions
+ */
+export interface PharmacyInfo {
+  id: string; // NCPDP ID
+  name: string;
+  address?: string;
+  phone?: string;
+}
+
+/**
+ * Receives SCRIPT messages the pharmacy initiates: fills, cancel responses and renewal requests
+ */
+export type InboundMessageHandler = (message: string) => Promise<void>;
+
+/**
+ * Transport to a pharmacy network. Implementations exchange serialised SCRIPT messages and
+ * leave interpretation to the e-prescribing service.
+ */
+export interface PharmacyAdapter {
+  readonly name: string;
+
+  /**
+   * Search the pharmacy directory by name or ID
+   */
+  findPharmacies(query?: string): Promise<PharmacyInfo[]>;
+
+  getPharmacy(pharmacyId: string): Promise<PharmacyInfo | undefined>;
+
+  /**
+   * Deliver a message. Resolves with the synchronous response (Status, Verify, Error or a
+   * direct transaction response) when the network returns one.
+   */
+  send(pharmacyId: string, message: string): Promise<string | undefined>;
+
+  /**
+   * Register the handler for pharmacy-initiated messages
+   */
+  onMessage(handler: InboundMessageHandler): void;
+}
@@ -0,0 +1,21 @@
+import { PharmacyAdapter } from './PharmacyAdapter';
+import { MockPharmacyAdapter } from './MockPharmacyAdapter';
+
+export * from './PharmacyAdapter';
+export { MockPharmacyAdapter };
+
+// Pharmacy networks available for e-prescribing; add real network adapters here
+const adapters: Record<string, () => PharmacyAdapter> = {
+  mock: () => new MockPharmacyAdapter()
+};
+
+/**
+ * Create the adapter named by ERX_PHARMACY_ADAPTER (defaults to the local mock pharmacy)
+ */
+export function createPharmacyAdapter(name: string = process.env.ERX_PHARMACY_ADAPTER || 'mock'): PharmacyAdapter {
+  const factory = adapters[name];
+  if (!factory) {
+    throw new Error(`Unknown pharmacy adapter "${name}"`);
+  }
+  return factory();
+}
@@ -1,20 +1,18 @@
-const OpenAI = require('openai');
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway } = require('./ai/llm');
 const SelfDiagnosis = require('../models/SelfDiagnosis');
 const { sanitizePatientData } = require('../utils/sanitizer');
 
 class SelfDiagnosisService {
-  constructor() {
-    this.openai = new OpenAI(process.env.OPENAI_API_KEY);
-  }
-
   async createDiagnosis(userId, symptoms, vitals) {
     // Sanitize patient data for HIPAA compliance
     const sanitizedData = sanitizePatientData({ symptoms, vitals });
 
     const prompt = this.buildGPTPrompt(sanitizedData);
     
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4",
+    const completion = await llmGateway.complete({
+      config: aiConfig.openai.healthAnalyticsModel,
+      invocation: { feature: 'self_diagnosis', userId: String(userId) },
       messages: [
         {
           role: "system",
@@ -27,7 +25,7 @@ class SelfDiagnosisService {
       ]
     });
 
-    const aiResponse = completion.choices[0].message.content;
+    const aiResponse = completion.content;
     const parsedDiagnosis = this.parseGPTResponse(aiResponse);
 
     const diagnosis = new SelfDiagnosis({
@@ -0,0 +1,13 @@
+declare class TwoFactorAuthService {
+  issuer: string;
+  generateSecret(userId: string): Promise<{ secret: string; qrCode: string; otpauthUrl: string }>;
+  verifyToken(secret: string, token: string): boolean;
+  enable2FA(userId: string, token: string): Promise<{ enabled: boolean; backupCodes: string[] }>;
+  generateBackupCodes(): string[];
+  hashBackupCode(code: string): string;
+  verifyBackupCode(userId: string, code: string): Promise<boolean>;
+  disable2FA(userId: string, token: string): Promise<{ disabled: boolean }>;
+}
+
+declare const twoFactorAuthService: TwoFactorAuthService;
+export = twoFactorAuthService;
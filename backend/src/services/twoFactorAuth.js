@@ -1,4 +1,5 @@
 const speakeasy = require('speakeasy');
+const crypto = require('crypto');
 const QRCode = require('qrcode');
 const { User } = require('../models/User');
 
@@ -1,19 +1,18 @@
-const { Configuration, OpenAIApi } = require('openai');
 const config = require('../config');
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway } = require('./ai/llm');
 const Visit = require('../models/Visit');
 const Patient = require('../models/Patient');
 const aiLearning = require('./aiLearning');
-
-const configuration = new Configuration({
-  apiKey: config.openai.apiKey
-});
-
-const openai = new OpenAIApi(configuration);
+const { promptRegistry } = require('./PromptRegistryService');
 
 class VisitPredictionService {
   constructor() {
-    this.model = config.openai.model;
-    this.maxTokens = config.openai.maxTokens;
+    this.modelConfig = {
+      ...aiConfig.openai.healthAnalyticsModel,
+      modelName: config.openai.model,
+      maxTokens: config.openai.maxTokens
+    };
   }
 
   /**
@@ -31,27 +30,27 @@ class VisitPredictionService {
         status: 'completed'
       }).sort('-date').limit(10);
 
-      const prompt = this.formatDurationPrompt(appointmentData, patient, historicalVisits);
+      const prompt = await this.formatDurationPrompt(appointmentData, patient, historicalVisits, patientId);
 
-      const completion = await openai.createChatCompletion({
-        model: this.model,
+      const completion = await llmGateway.complete({
+        config: this.modelConfig,
         messages: [
           {
             role: 'system',
-            content: `You are an AI healthcare scheduling assistant. Analyze patient history, 
-            appointment type, and historical visit patterns to predict optimal appointment duration. 
-            Consider factors like medical complexity, age, communication needs, and procedure types.`
+            content: prompt.systemPrompt
           },
           {
             role: 'user',
-            content: prompt
+            content: prompt.text
           }
         ],
-        max_tokens: 300,
-        temperature: 0.3
+        overrides: { maxTokens: 300, temperature: 0.3 },
+        invocation: { feature: 'visit.duration', prompt: prompt.reference }
       });
 
-      let prediction = this.parseDurationResponse(completion.data.choices[0].message.content);
+      let prediction = this.parseDurationResponse(completion.content);
+      // Record which prompt version produced the prediction so feedback can be compared
+      prediction.prompt = prompt.reference;
 
       // Apply learning adjustments
       prediction = await aiLearning.applyLearningAdjustments('visit_duration', prediction);
@@ -76,8 +75,8 @@ class VisitPredictionService {
         availableSlots
       );
 
-      const completion = await openai.createChatCompletion({
-        model: this.model,
+      const completion = await llmGateway.complete({
+        config: this.modelConfig,
         messages: [
           {
             role: 'system',
@@ -90,11 +89,11 @@ class VisitPredictionService {
             content: prompt
           }
         ],
-        max_tokens: 400,
-        temperature: 0.2
+        overrides: { maxTokens: 400, temperature: 0.2 },
+        invocation: { feature: 'visit.scheduling' }
       });
 
-      let prediction = this.parseSchedulingResponse(completion.data.choices[0].message.content);
+      let prediction = this.parseSchedulingResponse(completion.content);
 
       // Apply learning adjustments
       prediction = await aiLearning.applyLearningAdjustments('scheduling', prediction);
@@ -106,29 +105,18 @@ class VisitPredictionService {
     }
   }
 
-  formatDurationPrompt(appointmentData, patient, historicalVisits) {
-    return `
-Appointment Information:
-${JSON.stringify(appointmentData, null, 2)}
-
-Patient Information:
-${JSON.stringify(patient, null, 2)}
-
-Historical Visit Data:
-${historicalVisits.map(visit => `
+  formatDurationPrompt(appointmentData, patient, historicalVisits, patientId) {
+    return promptRegistry.render('visit.duration', {
+      appointment: appointmentData,
+      patient: patient || {},
+      historicalVisits: historicalVisits.map(visit => `
 - Date: ${visit.date}
   Type: ${visit.type}
   Duration: ${visit.duration} minutes
   Complexity: ${visit.complexity}
   Notes: ${visit.notes}
-`).join('\n')}
-
-Please analyze and provide:
-1. Predicted appointment duration in minutes
-2. Confidence score (0-100%)
-3. Factors influencing the prediction
-4. Potential scheduling considerations
-`;
+`).join('\n')
+    }, { subjectKey: String(patientId) });
   }
 
   formatSchedulingPrompt(appointmentData, durationPrediction, availableSlots) {
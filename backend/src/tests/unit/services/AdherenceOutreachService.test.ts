@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import { AdherenceOutreachService } from '../../../services/AdherenceOutreachService';
+import { MedicationAdherenceService } from '../../../services/MedicationAdherenceService';
+import { AdherenceOutreachCampaign, IOutreachAction } from '../../../models/AdherenceOutreachCampaign';
+import { Patient } from '../../../models/Patient';
+import Task from '../../../models/Task';
+
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const asOf = new Date('2026-10-19T09:00:00Z');
+const patientId = new mongoose.Types.ObjectId();
+const medicationId = new mongoose.Types.ObjectId();
+const doctorId = new mongoose.Types.ObjectId();
+
+const trigger = { type: 'consecutive_missed', severity: 'MEDIUM', detail: '2 consecutive doses missed' } as const;
+
+const buildCampaign = (actions: Array<Partial<IOutreachAction>>) => new AdherenceOutreachCampaign({
+  patientId,
+  medicationId,
+  status: 'active',
+  startedAt: new Date(asOf.getTime() - 3 * DAY_MS),
+  currentStage: 'patient_reminder',
+  lastActionAt: new Date(asOf.getTime() - 2 * DAY_MS),
+  actions: [
+    { stage: 'patient_reminder', outcome: 'sent', triggers: [trigger], performedAt: new Date(asOf.getTime() - 2 * DAY_MS) },
+    ...actions
+  ]
+});
+
+describe('AdherenceOutreachService', () => {
+  const notifier = { sendNotification: jest.fn() };
+  const adherenceService = {
+    getAdherenceSignals: jest.fn(),
+    getPatientMedicationSchedules: jest.fn()
+  };
+  let service: AdherenceOutreachService;
+  let saveTask: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    adherenceService.getAdherenceSignals.mockResolvedValue({ consecutiveMissed: 2, missedPatterns: [] });
+    adherenceService.getPatientMedicationSchedules.mockResolvedValue([{ medicationId, medicationName: 'Metformin' }]);
+    jest.spyOn(Patient, 'findById').mockResolvedValue({
+      _id: patientId,
+      firstName: 'Maria',
+      lastName: 'Lopez',
+      getRecentVisits: () => [{ doctorId }]
+    } as any);
+    jest.spyOn(AdherenceOutreachCampaign.prototype, 'save').mockImplementation(async function (this: any) {
+      return this;
+    });
+    // Saving validates against the real task schema without a database
+    saveTask = jest.spyOn(Task.prototype, '$save').mockImplementation(async function (this: any) {
+      await this.validate();
+      return this;
+    });
+    service = new AdherenceOutreachService(adherenceService as unknown as MedicationAdherenceService, notifier);
+  });
+
+  it('should create a nurse follow-up task once the patient reminder has not helped', async () => {
+    const campaign = buildCampaign([]);
+    jest.spyOn(AdherenceOutreachCampaign, 'findOne').mockResolvedValue(campaign);
+
+    const result = await service.processMedication(patientId, medicationId, asOf);
+
+    expect(result.decision).toMatchObject({ action: 'escalate', stage: 'nurse_task' });
+    const task = saveTask.mock.contexts[0] as any;
+    expect(task).toMatchObject({
+      title: 'Adherence follow-up: Maria Lopez',
+      department: 'nursing',
+      category: 'medication',
+      priority: 'medium',
+      tags: ['adherence_outreach']
+    });
+    expect(task.createdBy.toString()).toBe(doctorId.toString());
+    expect(campaign.currentStage).toBe('nurse_task');
+    expect(campaign.lastActionAt).toEqual(asOf);
+    expect(campaign.actions[1]).toMatchObject({ stage: 'nurse_task', outcome: 'sent', taskId: task._id });
+  });
+
+  it('should retry a failed stage and move past it after repeated failures', async () => {
+    saveTask.mockRejectedValue(new Error('Task store unavailable'));
+    const failed = { stage: 'nurse_task' as const, outcome: 'failed' as const, triggers: [trigger], performedAt: asOf };
+
+    const retried = buildCampaign([]);
+    jest.spyOn(AdherenceOutreachCampaign, 'findOne').mockResolvedValue(retried);
+    await service.processMedication(patientId, medicationId, asOf);
+    expect(retried.currentStage).toBe('patient_reminder');
+
+    const exhausted = buildCampaign([failed, failed]);
+    jest.spyOn(AdherenceOutreachCampaign, 'findOne').mockResolvedValue(exhausted);
+    await service.processMedication(patientId, medicationId, asOf);
+    expect(exhausted.actions).toHaveLength(4);
+    expect(exhausted.currentStage).toBe('nurse_task');
+
+    // After the nurse task's cooldown the doctor is alerted
+    jest.spyOn(AdherenceOutreachCampaign, 'findOne').mockResolvedValue(exhausted);
+    const result = await service.processMedication(patientId, medicationId, new Date(asOf.getTime() + 4 * DAY_MS));
+    expect(result.decision.stage).toBe('doctor_alert');
+    expect(notifier.sendNotification).toHaveBeenCalledWith(doctorId.toString(), expect.objectContaining({ type: 'adherence_alert' }));
+  });
+});
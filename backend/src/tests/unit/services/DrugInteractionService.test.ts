@@ -0,0 +1,100 @@
+import { DrugInteractionService } from '../../../services/ai/DrugInteractionService';
+import { interactionKnowledgeBase } from '../../../services/InteractionKnowledgeBaseService';
+import { aiService } from '../../../services/ai/AIServiceManager';
+
+jest.mock('../../../services/InteractionKnowledgeBaseService', () => ({
+  DEFAULT_INTERACTIONS: [{
+    drugA: 'warfarin',
+    drugB: 'aspirin',
+    severity: 'high',
+    description: 'Increased risk of bleeding',
+    mechanism: 'Additive anticoagulant and antiplatelet effects',
+    evidenceLevel: 'strong',
+    management: 'Avoid combination',
+    source: 'Built-in baseline'
+  }],
+  interactionKnowledgeBase: {
+    seedDefaultRelease: jest.fn(),
+    getActiveRelease: jest.fn(),
+    getActiveInteractions: jest.fn()
+  }
+}));
+
+jest.mock('../../../services/ai/AIServiceManager', () => ({
+  aiService: { generateStructured: jest.fn() }
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const knowledgeBase = interactionKnowledgeBase as jest.Mocked<typeof interactionKnowledgeBase>;
+
+const releaseEntry = {
+  drugA: 'simvastatin',
+  drugB: 'clarithromycin',
+  severity: 'high',
+  description: 'Increased risk of myopathy',
+  mechanism: 'CYP3A4 inhibition',
+  evidenceLevel: 'strong',
+  management: 'Suspend simvastatin during the course',
+  source: 'Release 2'
+};
+
+describe('DrugInteractionService', () => {
+  let service: DrugInteractionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (DrugInteractionService as any).instance = undefined;
+    (aiService.generateStructured as jest.Mock).mockResolvedValue({ interactions: [] });
+    knowledgeBase.seedDefaultRelease.mockResolvedValue(null);
+    service = DrugInteractionService.getInstance();
+  });
+
+  it('should not read the knowledge base until the first check', async () => {
+    knowledgeBase.getActiveRelease.mockResolvedValue({ version: 2 } as any);
+    knowledgeBase.getActiveInteractions.mockResolvedValue([releaseEntry] as any);
+
+    expect(knowledgeBase.getActiveRelease).not.toHaveBeenCalled();
+
+    const interactions = await service.checkInteractions('Simvastatin', ['Clarithromycin']);
+
+    expect(interactions[0]).toMatchObject({ severity: 'high', reference: 'Release 2' });
+    expect(service.getLoadedReleaseVersion()).toBe(2);
+  });
+
+  it('should use the baseline while the knowledge base is unreachable and load the release later', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    knowledgeBase.seedDefaultRelease.mockRejectedValueOnce(new Error('buffering timed out'));
+
+    const baseline = await service.checkInteractions('Warfarin', ['Aspirin']);
+    expect(baseline[0]).toMatchObject({ reference: 'Built-in baseline' });
+    expect(service.getLoadedReleaseVersion()).toBeUndefined();
+
+    knowledgeBase.getActiveRelease.mockResolvedValue({ version: 2 } as any);
+    knowledgeBase.getActiveInteractions.mockResolvedValue([releaseEntry] as any);
+    now.mockReturnValue(1_000_000 + 61_000);
+
+    const interactions = await service.checkInteractions('Simvastatin', ['Clarithromycin']);
+    expect(interactions[0]).toMatchObject({ reference: 'Release 2' });
+    expect(service.getLoadedReleaseVersion()).toBe(2);
+    now.mockRestore();
+  });
+
+  it('should not replace an empty active release with the baseline', async () => {
+    knowledgeBase.getActiveRelease.mockResolvedValue({ version: 3 } as any);
+    knowledgeBase.getActiveInteractions.mockResolvedValue([]);
+
+    const interactions = await service.checkInteractions('Warfarin', ['Aspirin']);
+
+    expect(interactions).toEqual([]);
+    expect(service.getLoadedReleaseVersion()).toBe(3);
+  });
+});
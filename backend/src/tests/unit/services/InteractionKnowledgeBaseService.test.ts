@@ -0,0 +1,138 @@
+import {
+  InteractionKnowledgeBaseService,
+  InteractionKnowledgeBaseError,
+  DEFAULT_INTERACTIONS
+} from '../../../services/InteractionKnowledgeBaseService';
+import { DrugInteraction, InteractionRelease } from '../../../models/DrugInteraction';
+
+// Mock the models
+jest.mock('mongoose', () => ({
+  __esModule: true,
+  default: { Types: { ObjectId: { isValid: jest.fn(() => true) } } }
+}), { virtual: true });
+
+jest.mock('../../../models/DrugInteraction', () => ({
+  DrugInteraction: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    countDocuments: jest.fn()
+  },
+  InteractionRelease: {
+    findOne: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+// Mock the logger
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const knowledgeBase = InteractionKnowledgeBaseService.getInstance();
+
+const validEntry = {
+  drugA: 'Warfarin',
+  drugB: 'Aspirin',
+  severity: 'high',
+  description: 'Increased bleeding risk',
+  mechanism: 'Additive anticoagulant and antiplatelet effects',
+  evidenceLevel: 'strong',
+  management: 'Avoid combination unless clearly indicated',
+  source: 'Test reference'
+};
+
+describe('InteractionKnowledgeBaseService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validateEntry', () => {
+    it('should accept a complete entry', () => {
+      expect(knowledgeBase.validateEntry(validEntry as any)).toEqual([]);
+    });
+
+    it('should report missing fields and invalid enums', () => {
+      const errors = knowledgeBase.validateEntry({
+        ...validEntry,
+        mechanism: '',
+        severity: 'critical',
+        evidenceLevel: 'anecdotal'
+      } as any);
+
+      expect(errors).toContain('mechanism is required');
+      expect(errors.some(error => error.startsWith('severity'))).toBe(true);
+      expect(errors.some(error => error.startsWith('evidenceLevel'))).toBe(true);
+    });
+
+    it('should reject a drug paired with itself', () => {
+      expect(knowledgeBase.validateEntry({ ...validEntry, drugB: 'warfarin' } as any))
+        .toContain('drugA and drugB must be different');
+    });
+
+    it('should ship valid default entries', () => {
+      DEFAULT_INTERACTIONS.forEach(entry => {
+        expect(knowledgeBase.validateEntry(entry)).toEqual([]);
+      });
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should parse quoted fields with commas', () => {
+      const rows = knowledgeBase.parseCsv(
+        'drugA,drugB,description\nwarfarin,aspirin,"Bleeding risk, monitor INR"\n'
+      );
+
+      expect(rows).toEqual([
+        { drugA: 'warfarin', drugB: 'aspirin', description: 'Bleeding risk, monitor INR' }
+      ]);
+    });
+  });
+
+  describe('importEntries', () => {
+    beforeEach(() => {
+      (InteractionRelease.findOne as jest.Mock).mockResolvedValue({ version: 2, status: 'draft' });
+    });
+
+    it('should reject the whole import when a row is invalid', async () => {
+      await expect(
+        knowledgeBase.importEntries(2, [validEntry, { ...validEntry, drugA: 'simvastatin', severity: 'unknown' }], {
+          format: 'json'
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_IMPORT' });
+
+      expect(DrugInteraction.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip invalid rows when requested', async () => {
+      (DrugInteraction.findOne as jest.Mock).mockResolvedValue(null);
+      (DrugInteraction.countDocuments as jest.Mock).mockResolvedValue(1);
+
+      const result = await knowledgeBase.importEntries(2, [validEntry, { drugA: 'x' }], {
+        format: 'json',
+        skipInvalid: true
+      });
+
+      expect(result.created).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(DrugInteraction.create).toHaveBeenCalledWith(
+        expect.objectContaining({ drugA: 'aspirin', drugB: 'warfarin', releaseVersion: 2 })
+      );
+    });
+
+    it('should refuse to edit a published release', async () => {
+      (InteractionRelease.findOne as jest.Mock).mockResolvedValue({ version: 1, status: 'active' });
+
+      await expect(knowledgeBase.importEntries(1, [validEntry], { format: 'json' }))
+        .rejects.toBeInstanceOf(InteractionKnowledgeBaseError);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { z } from 'zod';
+import { llmGateway, LLMGatewayError } from '../../../services/ai/llm/LLMGateway';
+import { StructuredOutputError } from '../../../services/ai/llm/StructuredOutput';
+import { FixtureReplayProvider } from '../../../services/ai/llm/FixtureReplayProvider';
+import { CompletionRequest, LLMProvider, LLMProviderError } from '../../../services/ai/llm/LLMProvider';
+import { AIBudgetExceededError, InvocationLedger } from '../../../services/ai/llm/InvocationLedger';
+import requestContext from '../../../utils/requestContext';
+import { AIModelConfig } from '../../../config/ai.config';
+import { authenticate } from '../../../middleware/auth';
+import { bindRequestContext } from '../../../middleware/requestContext';
+
+const findUser = jest.fn();
+
+jest.mock('../../../config', () => ({ config: { jwt: { secret: 'test-secret' } } }));
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({ user: { findUnique: (...args: unknown[]) => findUser(...args) } }))
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const config: AIModelConfig = {
+  modelName: 'gpt-4',
+  version: '1.0',
+  maxTokens: 500,
+  temperature: 0.2,
+  timeout: 1000,
+  provider: 'openai',
+  apiEndpoint: 'https://api.openai.com/v1',
+  maxRetries: 2,
+  retryDelayMs: 0
+};
+
+describe('LLMGateway', () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'stub';
+  });
+
+  afterAll(() => {
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+  });
+
+  const useProvider = (provider: LLMProvider) => llmGateway.registerProvider('stub', () => provider);
+
+  it('replays fixtures by exact key and by matching text', async () => {
+    const messages = [{ role: 'user' as const, content: 'Summarise the visit' }];
+    useProvider(new FixtureReplayProvider({
+      fixtures: [
+        { key: FixtureReplayProvider.keyFor({ model: 'gpt-4', messages }), response: { content: 'exact' } },
+        { match: { contains: ['chest pain'] }, response: { content: 'matched' } }
+      ]
+    }));
+
+    expect(await llmGateway.prompt(config, 'Summarise the visit')).toBe('exact');
+    expect(await llmGateway.prompt(config, 'Patient reports CHEST PAIN')).toBe('matched');
+    expect(await llmGateway.prompt(config, 'Unrelated')).toContain('No recorded response');
+  });
+
+  it('applies model config limits and per-call overrides', async () => {
+    const complete = jest.fn(async (request: CompletionRequest) => ({
+      content: 'ok', finishReason: 'stop', model: request.model, provider: 'stub'
+    }));
+    useProvider({ name: 'stub', complete });
+
+    await llmGateway.prompt(config, 'Hello', undefined, { temperature: 0.7, maxTokens: undefined });
+
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4', maxTokens: 500, temperature: 0.7 }));
+  });
+
+  it('retries retryable failures up to maxRetries', async () => {
+    const complete = jest.fn()
+      .mockRejectedValueOnce(new LLMProviderError('rate limited', 'RATE_LIMITED', true, 429))
+      .mockResolvedValueOnce({ content: 'recovered', finishReason: 'stop', model: 'gpt-4', provider: 'stub' });
+    useProvider({ name: 'stub', complete });
+
+    expect(await llmGateway.prompt(config, 'Hello')).toBe('recovered');
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails without retrying non-retryable errors', async () => {
+    const complete = jest.fn().mockRejectedValue(new LLMProviderError('bad request', 'PROVIDER_ERROR', false, 400));
+    useProvider({ name: 'stub', complete });
+
+    await expect(llmGateway.prompt(config, 'Hello')).rejects.toMatchObject({ code: 'PROVIDER_ERROR', attempts: 1 });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out slow requests using the config timeout', async () => {
+    const complete = jest.fn(() => new Promise<never>(() => undefined));
+    useProvider({ name: 'stub', complete });
+
+    const error = await llmGateway.prompt({ ...config, timeout: 10, maxRetries: 0 }, 'Hello').catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMGatewayError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  describe('PHI de-identification', () => {
+    const prompt = 'Patient: Maria Lopez, MRN: A7734512, seen 2026-09-30 for chest pain';
+    const complete = jest.fn(async (request: CompletionRequest) => ({
+      content: 'Follow up with [NAME_1] about the visit on [DATE_1]',
+      finishReason: 'stop',
+      model: request.model,
+      provider: 'stub'
+    }));
+
+    beforeEach(() => complete.mockClear());
+
+    it('sends pseudonyms to the provider and restores them in the reply', async () => {
+      useProvider({ name: 'stub', complete });
+
+      const content = await llmGateway.prompt(config, prompt);
+
+      expect(complete.mock.calls[0][0].messages[0].content).toBe('Patient: [NAME_1], MRN: [MRN_1], seen [DATE_1] for chest pain');
+      expect(content).toBe('Follow up with Maria Lopez about the visit on 2026-09-30');
+    });
+
+    it('leaves prompts unchanged for providers whose policy allows PHI', async () => {
+      process.env.LLM_PROVIDER = 'local';
+      llmGateway.registerProvider('local', () => ({ name: 'local', complete }));
+
+      await llmGateway.prompt({ ...config, provider: 'local' }, prompt);
+
+      expect(complete.mock.calls[0][0].messages[0].content).toBe(prompt);
+    });
+  });
+
+  describe('invocation ledger', () => {
+    const reply = { content: 'ok', finishReason: 'stop', model: 'gpt-4', provider: 'stub' };
+    const createLedger = (): jest.Mocked<InvocationLedger> => ({
+      authorize: jest.fn().mockResolvedValue(undefined),
+      record: jest.fn().mockResolvedValue(undefined)
+    });
+
+    afterEach(() => llmGateway.useLedger(undefined));
+
+    it('records usage for the request user, feature and prompt version', async () => {
+      const ledger = createLedger();
+      llmGateway.useLedger(ledger);
+      useProvider({
+        name: 'stub',
+        complete: jest.fn().mockResolvedValue({ ...reply, usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 } })
+      });
+
+      await requestContext.run({ userId: 'user-1', departmentId: 'cardiology' }, () => llmGateway.complete({
+        config,
+        messages: [{ role: 'user', content: 'Hello' }],
+        invocation: { feature: 'symptom.analysis', prompt: { name: 'symptom.analysis', version: 2 } }
+      }));
+
+      expect(ledger.authorize).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'symptom.analysis', userId: 'user-1', departmentId: 'cardiology', model: 'gpt-4', maxCompletionTokens: 500
+      }));
+      expect(ledger.record).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'symptom.analysis',
+        userId: 'user-1',
+        departmentId: 'cardiology',
+        prompt: { name: 'symptom.analysis', version: 2 },
+        usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+        usageEstimated: false,
+        outcome: 'success',
+        attempts: 1
+      }));
+      expect(ledger.record.mock.calls[0][0].inputHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('charges calls made while serving a request to the signed-in user and their department', async () => {
+      const ledger = createLedger();
+      llmGateway.useLedger(ledger);
+      useProvider({ name: 'stub', complete: jest.fn().mockResolvedValue(reply) });
+      findUser.mockResolvedValue({ department: 'oncology' });
+
+      const app = express();
+      app.use(authenticate, bindRequestContext);
+      app.get('/summary', async (_req, res) => {
+        res.json({ content: await llmGateway.prompt(config, 'Hello') });
+      });
+      const token = jwt.sign({ userId: 'doctor-7', role: 'doctor' }, 'test-secret');
+
+      const response = await request(app).get('/summary').set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(findUser).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'doctor-7' } }));
+      expect(ledger.authorize).toHaveBeenCalledWith(expect.objectContaining({ userId: 'doctor-7', departmentId: 'oncology' }));
+      expect(ledger.record).toHaveBeenCalledWith(expect.objectContaining({ userId: 'doctor-7', departmentId: 'oncology' }));
+    });
+
+    it('does not call the provider when a budget rejects the request', async () => {
+      const ledger = createLedger();
+      ledger.authorize.mockRejectedValue(new AIBudgetExceededError('Budget reached', 'AI_BUDGET_EXCEEDED'));
+      llmGateway.useLedger(ledger);
+      const complete = jest.fn().mockResolvedValue(reply);
+      useProvider({ name: 'stub', complete });
+
+      await expect(llmGateway.prompt(config, 'Hello')).rejects.toBeInstanceOf(AIBudgetExceededError);
+
+      expect(complete).not.toHaveBeenCalled();
+      expect(ledger.record).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'general', outcome: 'rejected', errorCode: 'AI_BUDGET_EXCEEDED'
+      }));
+    });
+
+    it('records failures and estimates usage the provider did not report', async () => {
+      const ledger = createLedger();
+      llmGateway.useLedger(ledger);
+      useProvider({ name: 'stub', complete: jest.fn().mockResolvedValue({ ...reply, content: 'x'.repeat(40) }) });
+      await llmGateway.prompt(config, 'y'.repeat(80));
+
+      useProvider({ name: 'stub', complete: jest.fn().mockRejectedValue(new LLMProviderError('bad request', 'PROVIDER_ERROR', false)) });
+      await llmGateway.prompt(config, 'Hello').catch(() => undefined);
+
+      expect(ledger.record.mock.calls[0][0]).toMatchObject({
+        usage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 }, usageEstimated: true, outcome: 'success'
+      });
+      expect(ledger.record.mock.calls[1][0]).toMatchObject({ outcome: 'error', errorCode: 'PROVIDER_ERROR', attempts: 1 });
+    });
+  });
+
+  describe('completeStructured', () => {
+    const schema = z.object({ conditions: z.array(z.string()), urgent: z.boolean() });
+    const request = {
+      config,
+      schema,
+      format: '{ "conditions": string[], "urgent": boolean }',
+      messages: [{ role: 'user' as const, content: 'Assess headache and fever' }]
+    };
+    const reply = (content: string) => ({ content, finishReason: 'stop', model: 'gpt-4', provider: 'stub' });
+
+    it('parses JSON wrapped in code fences', async () => {
+      useProvider({ name: 'stub', complete: jest.fn().mockResolvedValue(reply('```json\n{"conditions":["Migraine"],"urgent":false}\n```')) });
+
+      expect(await llmGateway.completeStructured(request)).toEqual({ conditions: ['Migraine'], urgent: false });
+    });
+
+    it('asks the model to repair output that fails the schema', async () => {
+      const complete = jest.fn()
+        .mockResolvedValueOnce(reply('{"conditions":"Migraine"}'))
+        .mockResolvedValueOnce(reply('{"conditions":["Migraine"],"urgent":true}'));
+      useProvider({ name: 'stub', complete });
+
+      expect(await llmGateway.completeStructured(request)).toEqual({ conditions: ['Migraine'], urgent: true });
+      const repairMessages = complete.mock.calls[1][0].messages;
+      expect(repairMessages[repairMessages.length - 1].content).toContain('conditions');
+    });
+
+    it('fails with the validation issues once repairs are used up', async () => {
+      useProvider({ name: 'stub', complete: jest.fn().mockResolvedValue(reply('Sorry, I cannot help with that.')) });
+
+      const error = await llmGateway.completeStructured(request).catch(e => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.rawContent).toBe('Sorry, I cannot help with that.');
+      expect(error.issues[0]).toContain('not valid JSON');
+    });
+  });
+});
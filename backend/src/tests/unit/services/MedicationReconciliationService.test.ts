@@ -0,0 +1,198 @@
+import { MedicationReconciliationService } from '../../../services/MedicationReconciliationService';
+import { MedicationReconciliation } from '../../../models/MedicationReconciliation';
+import AuditLog from '../../../models/AuditLog';
+import Patient from '../../../models/Patient';
+
+// Mock dependencies
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    prescription: { findMany: jest.fn().mockResolvedValue([]) }
+  }))
+}));
+
+jest.mock('../../../models/Patient', () => ({
+  __esModule: true,
+  default: { findById: jest.fn() }
+}));
+
+jest.mock('../../../models/AuditLog', () => ({
+  __esModule: true,
+  default: { create: jest.fn() }
+}));
+
+jest.mock('../../../models/MedicationReconciliation', () => ({
+  MedicationReconciliation: {
+    create: jest.fn(async (data: Record<string, unknown>) => ({ id: 'rec-1', ...data })),
+    findById: jest.fn()
+  }
+}));
+
+const mockAdherenceService = { getPatientMedicationSchedules: jest.fn() };
+
+jest.mock('../../../services/MedicationAdherenceService', () => ({
+  __esModule: true,
+  default: { getInstance: () => mockAdherenceService }
+}));
+
+// Mock the logger
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+process.env.RECONCILIATION_SIGNING_SECRET = 'test-signing-secret';
+
+const reconciliationService = MedicationReconciliationService.getInstance();
+
+const homeList = [
+  { name: 'Metformin 500mg tablet', dosage: '500 mg', frequency: 'twice daily', source: 'patient_record' as const },
+  { name: 'Lisinopril', dosage: '10 mg', frequency: 'once daily', source: 'patient_record' as const },
+  { name: 'Atorvastatin', dosage: '20 mg', frequency: 'at bedtime', source: 'patient_record' as const },
+  { name: 'Omeprazole', dosage: '20 mg', frequency: 'once daily', source: 'patient_record' as const }
+];
+
+const activeOrders = [
+  { name: 'metformin', dosage: '500mg', frequency: 'every 12 hours', source: 'prescription' as const },
+  { name: 'Lisinopril', dosage: '20 mg', frequency: 'once daily', source: 'prescription' as const },
+  { name: 'Heparin', dosage: '5000 units', frequency: 'every 8 hours', source: 'prescription' as const }
+];
+
+const buildRecord = () => {
+  const diff = reconciliationService.compareLists(homeList, activeOrders, [
+    { name: 'omeprazole', reason: 'No ongoing indication' }
+  ]);
+  return {
+    id: 'rec-1',
+    patientId: 'patient-1',
+    encounterType: 'admission',
+    status: 'in_progress',
+    lines: diff.lines,
+    markModified: jest.fn(),
+    save: jest.fn()
+  } as any;
+};
+
+describe('MedicationReconciliationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('compareLists', () => {
+    it('should categorize every medication', () => {
+      const { lines } = reconciliationService.compareLists(homeList, activeOrders, [
+        { name: 'omeprazole', reason: 'No ongoing indication' }
+      ]);
+      const categories = Object.fromEntries(lines.map(line => [line.medicationName, line.category]));
+
+      expect(categories).toEqual({
+        'Metformin 500mg tablet': 'continued',
+        Lisinopril: 'changed_dose',
+        Atorvastatin: 'unexplained_omission',
+        Omeprazole: 'discontinued',
+        Heparin: 'new'
+      });
+      expect(lines.find(line => line.medicationName === 'Lisinopril')?.changes).toEqual(['dose 10 mg → 20 mg']);
+    });
+  });
+
+  describe('startReconciliation', () => {
+    it('should store the diff and write an audit entry', async () => {
+      const record = await reconciliationService.startReconciliation({
+        patientId: 'patient-1',
+        encounterType: 'admission',
+        startedBy: 'doctor-1',
+        homeList,
+        activeOrders
+      });
+
+      expect(MedicationReconciliation.create).toHaveBeenCalled();
+      expect(record.lines).toHaveLength(5);
+      expect(AuditLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'medication_reconciliation_started' })
+      );
+    });
+
+    it('should load the home list from the patient record and the stored adherence schedules', async () => {
+      (Patient.findById as jest.Mock).mockResolvedValue({
+        medications: [{ name: 'Lisinopril', dosage: '10 mg', frequency: 'once daily', startDate: new Date('2026-01-01') }]
+      });
+      mockAdherenceService.getPatientMedicationSchedules.mockResolvedValue([
+        { _id: 'schedule-1', medicationName: 'Lisinopril', dosage: '20 mg', frequency: 'once daily', active: true },
+        { _id: 'schedule-2', medicationName: 'Metformin', dosage: '500 mg', frequency: 'twice daily', active: true }
+      ]);
+      const patientId = '64b7f0c2a1b2c3d4e5f60718';
+
+      const record = await reconciliationService.startReconciliation({
+        patientId,
+        encounterType: 'admission',
+        startedBy: 'doctor-1',
+        activeOrders: []
+      });
+
+      expect(String(mockAdherenceService.getPatientMedicationSchedules.mock.calls[0][0])).toBe(patientId);
+      expect(record.lines.map(line => line.homeMedication?.source)).toEqual(['patient_record', 'adherence_schedule']);
+      expect(record.sourceConflicts).toEqual([
+        'Lisinopril: patient record and adherence schedule disagree (dose 10 mg → 20 mg)',
+        'Metformin has an adherence schedule but is missing from the patient record'
+      ]);
+    });
+  });
+
+  describe('decideLine and signReconciliation', () => {
+    it('should require a reason to accept an unexplained omission', async () => {
+      const record = buildRecord();
+      (MedicationReconciliation.findById as jest.Mock).mockResolvedValue(record);
+      const omission = record.lines.find((line: any) => line.category === 'unexplained_omission');
+
+      await expect(reconciliationService.decideLine('rec-1', omission.lineId, 'accepted', 'doctor-1'))
+        .rejects.toMatchObject({ code: 'COMMENT_REQUIRED' });
+    });
+
+    it('should refuse to sign while lines are pending', async () => {
+      (MedicationReconciliation.findById as jest.Mock).mockResolvedValue(buildRecord());
+
+      await expect(reconciliationService.signReconciliation('rec-1', 'doctor-1'))
+        .rejects.toMatchObject({ code: 'LINES_PENDING' });
+    });
+
+    it('should sign a fully decided reconciliation with a verifiable signature', async () => {
+      const record = buildRecord();
+      (MedicationReconciliation.findById as jest.Mock).mockResolvedValue(record);
+
+      for (const line of record.lines) {
+        await reconciliationService.decideLine('rec-1', line.lineId, 'accepted', 'doctor-1', 'Reviewed with patient');
+      }
+      const signed = await reconciliationService.signReconciliation('rec-1', 'doctor-1');
+
+      expect(signed.status).toBe('completed');
+      expect(reconciliationService.verifySignature(signed)).toBe(true);
+      expect(AuditLog.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ action: 'medication_reconciliation_signed' })
+      );
+
+      signed.lines[0].decision = 'rejected';
+      expect(reconciliationService.verifySignature(signed)).toBe(false);
+    });
+
+    it('should key the signature with the server secret', async () => {
+      const record = buildRecord();
+      (MedicationReconciliation.findById as jest.Mock).mockResolvedValue(record);
+      for (const line of record.lines) {
+        await reconciliationService.decideLine('rec-1', line.lineId, 'accepted', 'doctor-1', 'Reviewed with patient');
+      }
+      const signed = await reconciliationService.signReconciliation('rec-1', 'doctor-1');
+
+      process.env.RECONCILIATION_SIGNING_SECRET = 'another-secret';
+      try {
+        expect(reconciliationService.verifySignature(signed)).toBe(false);
+      } finally {
+        process.env.RECONCILIATION_SIGNING_SECRET = 'test-signing-secret';
+      }
+    });
+  });
+});
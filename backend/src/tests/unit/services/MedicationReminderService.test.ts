@@ -0,0 +1,107 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import mongoose from 'mongoose';
+import NotificationService from '../../../services/notificationService';
+import { MedicationReminderService } from '../../../services/MedicationReminderService';
+import { MedicationAdherenceService } from '../../../services/MedicationAdherenceService';
+import { MedicationReminder } from '../../../models/MedicationReminder';
+import { Notification } from '../../../models/Notification';
+import { Patient } from '../../../models/Patient';
+import { User } from '../../../models/User';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const NotificationPreferences = require('../../../models/NotificationPreferences');
+
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+const connectClient = async (port: number): Promise<{ client: WebSocket; messages: Array<Record<string, any>> }> => {
+  const client = new WebSocket(`ws://127.0.0.1:${port}`);
+  const messages: Array<Record<string, any>> = [];
+  client.on('message', data => messages.push(JSON.parse(data.toString())));
+  await new Promise(resolve => client.once('open', resolve));
+  client.send(JSON.stringify({ type: 'auth', userId }));
+  await waitFor(() => messages.some(message => message.type === 'auth_success'));
+  return { client, messages };
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 50 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('MedicationReminderService', () => {
+  let server: http.Server;
+  let notificationService: NotificationService;
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    server = http.createServer();
+    notificationService = new NotificationService(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    jest.spyOn(User, 'findById').mockResolvedValue({ _id: userId } as any);
+    jest.spyOn(NotificationPreferences, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Patient, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue([]) } as any);
+    jest.spyOn(MedicationReminder, 'deleteMany').mockResolvedValue({} as any);
+    jest.spyOn(MedicationReminder, 'updateMany').mockResolvedValue({ modifiedCount: 0 } as any);
+    // Saving validates against the real notification schema without a database
+    jest.spyOn(Notification.prototype, '$save').mockImplementation(async function (this: any) {
+      await this.validate();
+      return this;
+    });
+  });
+
+  afterEach(async () => {
+    notificationService.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should deliver due reminders through the notification WebSocket', async () => {
+    const asOf = new Date('2026-10-19T08:00:00Z');
+    const reminder = {
+      _id: new mongoose.Types.ObjectId(),
+      userId: new mongoose.Types.ObjectId(userId),
+      medicationId: new mongoose.Types.ObjectId(),
+      medicationName: 'Lisinopril',
+      dosage: '10 mg',
+      scheduledFor: asOf,
+      localTime: '08:00',
+      snoozeCount: 0,
+      status: 'pending',
+      deliveries: [] as Array<Record<string, unknown>>,
+      save: jest.fn()
+    };
+    jest.spyOn(MedicationReminder, 'find').mockReturnValue({ sort: jest.fn().mockResolvedValue([reminder]) } as any);
+
+    const { client, messages } = await connectClient((server.address() as AddressInfo).port);
+    const adherenceService = { getActiveSchedules: jest.fn().mockResolvedValue([]) } as unknown as MedicationAdherenceService;
+    const reminderService = new MedicationReminderService(adherenceService, notificationService);
+
+    const run = await reminderService.tick(asOf);
+    await waitFor(() => messages.some(message => message.type === 'notification'));
+    client.close();
+
+    expect(run).toMatchObject({ sent: 1 });
+    expect(reminder.status).toBe('sent');
+    expect(reminder.deliveries[0]).toMatchObject({ channel: 'websocket', outcome: 'sent' });
+    expect(messages.find(message => message.type === 'notification')?.data).toMatchObject({
+      type: 'medication_reminder',
+      category: 'reminders',
+      title: 'Medication reminder',
+      message: 'Time to take Lisinopril (10 mg)',
+      userId
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { PrismaClient } from '@prisma/client';
+import { OrderSetService, OrderSetError } from '../../../services/OrderSetService';
+import OrderSet from '../../../models/OrderSet';
+import Task from '../../../models/Task';
+import AuditLog from '../../../models/AuditLog';
+import { medicationSafetyMonitor } from '../../../services/MedicationSafetyMonitor';
+import { controlledSubstanceService } from '../../../services/ControlledSubstanceService';
+
+// Mock dependencies
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    prescription: { findMany: jest.fn(), create: jest.fn() }
+  }))
+}));
+
+jest.mock('mongoose', () => ({
+  __esModule: true,
+  default: { Types: { ObjectId: { isValid: jest.fn(() => true) } } }
+}), { virtual: true });
+
+jest.mock('../../../models/OrderSet', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(), find: jest.fn(), exists: jest.fn(), create: jest.fn() }
+}));
+
+jest.mock('../../../models/TreatmentGuideline', () => ({
+  TreatmentGuideline: { findById: jest.fn() }
+}));
+
+jest.mock('../../../models/Task', () => ({
+  __esModule: true,
+  default: { create: jest.fn() }
+}));
+
+jest.mock('../../../models/AuditLog', () => ({
+  __esModule: true,
+  default: { create: jest.fn() }
+}));
+
+jest.mock('../../../services/MedicationSafetyMonitor', () => ({
+  medicationSafetyMonitor: {
+    reviewPrescriptionSafety: jest.fn(),
+    linkPrescriptionToIssues: jest.fn(),
+    checkDuplicationByName: jest.fn(),
+    overrideAlerts: jest.fn()
+  }
+}));
+
+jest.mock('../../../services/ControlledSubstanceService', () => ({
+  controlledSubstanceService: {
+    reviewPrescription: jest.fn(),
+    verifyPrescriber: jest.fn(),
+    recordPrescribing: jest.fn()
+  }
+}));
+
+// Mock the logger
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const orderSetService = OrderSetService.getInstance();
+const mockPrisma = (PrismaClient as unknown as jest.Mock).mock.results[0].value;
+const safetyMonitor = medicationSafetyMonitor as jest.Mocked<typeof medicationSafetyMonitor>;
+const controlled = controlledSubstanceService as jest.Mocked<typeof controlledSubstanceService>;
+
+const buildOrderSet = (overrides: Record<string, unknown> = {}) => ({
+  _id: 'set-1',
+  key: 'hypertension-initial',
+  version: 2,
+  name: 'Hypertension initial therapy',
+  department: 'cardiology',
+  status: 'active',
+  items: [
+    { medicationName: 'Lisinopril', dosage: '10 mg', frequency: 'once daily', route: 'oral', duration: 30, optional: false },
+    { medicationName: 'Atorvastatin', dosage: '20 mg', frequency: 'at bedtime', optional: true }
+  ],
+  labs: [{ name: 'Basic metabolic panel', loincCode: '51990-0', dueInDays: 7 }],
+  followUpTasks: [{
+    title: 'Blood pressure check',
+    description: 'Recheck blood pressure on therapy',
+    dueInDays: 14,
+    category: 'patient_care',
+    priority: 'medium',
+    estimatedDuration: 15
+  }],
+  ...overrides
+});
+
+const duplicationAlert = {
+  type: 'THERAPEUTIC_DUPLICATION',
+  severity: 'HIGH',
+  message: 'Lisinopril and Enalapril are both ACE inhibitors',
+  medications: ['Lisinopril', 'Enalapril']
+};
+
+const applyInput = { patientId: 'patient-1', prescriberId: 'doctor-1' };
+
+const hyperkalaemiaIssue = { id: 'issue-1', medications: ['Lisinopril'], status: 'reported' };
+
+describe('OrderSetService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (OrderSet.findById as jest.Mock).mockResolvedValue(buildOrderSet());
+    (Task.create as jest.Mock).mockResolvedValue([{ _id: 'task-1' }, { _id: 'task-2' }]);
+    mockPrisma.prescription.findMany.mockResolvedValue([]);
+    mockPrisma.prescription.create.mockImplementation(async ({ data }: any) => ({
+      id: 'rx-1',
+      patientId: data.patientId,
+      medications: data.medications.create.map((med: Record<string, unknown>, index: number) => ({ id: `med-${index}`, ...med }))
+    }));
+    safetyMonitor.reviewPrescriptionSafety.mockResolvedValue({ isSafe: true, warnings: [], relatedIssues: [] } as any);
+    safetyMonitor.checkDuplicationByName.mockResolvedValue([]);
+    controlled.reviewPrescription.mockResolvedValue({
+      controlled: [],
+      violations: [],
+      reauthRequired: false,
+      mme: { level: 'none' }
+    } as any);
+  });
+
+  describe('applyOrderSet', () => {
+    it('should prescribe the default items and create the lab and follow-up tasks', async () => {
+      const applied = await orderSetService.applyOrderSet('set-1', applyInput);
+
+      const { data } = mockPrisma.prescription.create.mock.calls[0][0];
+      expect(data.doctorId).toBe('doctor-1');
+      expect(data.medications.create).toHaveLength(1);
+      expect(data.medications.create[0]).toMatchObject({
+        name: 'Lisinopril',
+        notes: 'oral. Order set: Hypertension initial therapy v2',
+        overrideReason: undefined
+      });
+      expect(Task.create).toHaveBeenCalledWith([
+        expect.objectContaining({ title: 'Lab: Basic metabolic panel', category: 'lab', department: 'cardiology' }),
+        expect.objectContaining({ title: 'Blood pressure check', category: 'patient_care' })
+      ]);
+      expect(applied.taskIds).toEqual(['task-1', 'task-2']);
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'order_set_applied' }));
+    });
+
+    it('should check the selected items for duplication with the active medications', async () => {
+      mockPrisma.prescription.findMany.mockResolvedValue([
+        { medications: [{ name: 'Enalapril', duration: null, createdAt: new Date() }] },
+        { medications: [{ name: 'Amoxicillin', duration: 7, createdAt: new Date('2020-01-01') }] }
+      ]);
+
+      await orderSetService.applyOrderSet('set-1', { ...applyInput, itemIndexes: [0, 1] });
+
+      expect(safetyMonitor.checkDuplicationByName).toHaveBeenCalledWith(['Lisinopril', 'Atorvastatin'], ['Enalapril']);
+    });
+
+    it('should require an override reason for therapeutic duplication', async () => {
+      safetyMonitor.checkDuplicationByName.mockResolvedValue([duplicationAlert] as any);
+
+      const error = await orderSetService.applyOrderSet('set-1', applyInput).catch(e => e);
+
+      expect(error).toBeInstanceOf(OrderSetError);
+      expect(error.code).toBe('OVERRIDE_REQUIRED');
+      expect(error.details).toEqual({ alerts: [duplicationAlert] });
+      expect(mockPrisma.prescription.create).not.toHaveBeenCalled();
+      expect(Task.create).not.toHaveBeenCalled();
+    });
+
+    it('should record the override reason on duplicated items and the override of the alerts', async () => {
+      safetyMonitor.checkDuplicationByName.mockResolvedValue([duplicationAlert] as any);
+
+      const applied = await orderSetService.applyOrderSet('set-1', {
+        ...applyInput,
+        itemIndexes: [0, 1],
+        overrideReason: '  Switching from enalapril  '
+      });
+
+      const created = mockPrisma.prescription.create.mock.calls[0][0].data.medications.create;
+      expect(created[0].overrideReason).toBe('Switching from enalapril');
+      expect(created[1].overrideReason).toBeUndefined();
+      expect(safetyMonitor.overrideAlerts).toHaveBeenCalledWith([duplicationAlert], 'Switching from enalapril', 'doctor-1', {
+        patientId: 'patient-1',
+        prescriptionId: applied.prescription.id
+      });
+      expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'order_set_applied',
+        metadata: expect.objectContaining({ overrideReason: 'Switching from enalapril' })
+      }));
+    });
+
+    it('should require an override reason for safety warnings', async () => {
+      safetyMonitor.reviewPrescriptionSafety.mockResolvedValue({
+        isSafe: false,
+        warnings: ['Recent hyperkalaemia'],
+        relatedIssues: [hyperkalaemiaIssue]
+      } as any);
+
+      await expect(orderSetService.applyOrderSet('set-1', applyInput)).rejects.toMatchObject({ code: 'SAFETY_REVIEW_REQUIRED' });
+      expect(safetyMonitor.checkDuplicationByName).not.toHaveBeenCalled();
+      expect(mockPrisma.prescription.create).not.toHaveBeenCalled();
+      expect(safetyMonitor.linkPrescriptionToIssues).not.toHaveBeenCalled();
+    });
+
+    it('should link the safety issues to the prescription once it is created', async () => {
+      safetyMonitor.reviewPrescriptionSafety.mockResolvedValue({
+        isSafe: false,
+        warnings: ['Recent hyperkalaemia'],
+        relatedIssues: [hyperkalaemiaIssue]
+      } as any);
+
+      await orderSetService.applyOrderSet('set-1', { ...applyInput, itemIndexes: [0, 1], overrideReason: 'Monitoring potassium' });
+
+      expect(safetyMonitor.linkPrescriptionToIssues).toHaveBeenCalledWith('rx-1', [hyperkalaemiaIssue]);
+    });
+
+    it('should re-authenticate the prescriber for controlled substances', async () => {
+      controlled.reviewPrescription.mockResolvedValue({
+        controlled: [{ index: 0, name: 'Lisinopril', schedule: 'IV' }],
+        violations: [],
+        reauthRequired: true,
+        mme: { level: 'none' }
+      } as any);
+      controlled.verifyPrescriber.mockResolvedValue('totp');
+
+      await orderSetService.applyOrderSet('set-1', { ...applyInput, twoFactorCode: '123456' });
+
+      expect(controlled.verifyPrescriber).toHaveBeenCalledWith('doctor-1', '123456');
+      expect(mockPrisma.prescription.create.mock.calls[0][0].data.medications.create[0].deaSchedule).toBe('IV');
+      expect(controlled.recordPrescribing).toHaveBeenCalledWith(expect.anything(), expect.anything(), 'doctor-1', 'totp');
+    });
+
+    it('should reject retired order sets and unknown items', async () => {
+      await expect(orderSetService.applyOrderSet('set-1', { ...applyInput, itemIndexes: [5] }))
+        .rejects.toMatchObject({ code: 'INVALID_SELECTION' });
+
+      (OrderSet.findById as jest.Mock).mockResolvedValue(buildOrderSet({ status: 'retired' }));
+      await expect(orderSetService.applyOrderSet('set-1', applyInput)).rejects.toMatchObject({ code: 'ORDER_SET_RETIRED' });
+    });
+  });
+});
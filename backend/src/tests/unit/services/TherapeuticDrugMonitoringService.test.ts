@@ -0,0 +1,125 @@
+import { TherapeuticDrugMonitoringService } from '../../../services/TherapeuticDrugMonitoringService';
+import { TherapeuticDrugLevel } from '../../../models/TherapeuticDrugLevel';
+import { MedicationRepository } from '../../../repositories/MedicationRepository';
+import { IMedication } from '../../../models/Medication';
+
+// Mock dependencies
+jest.mock('../../../models/TherapeuticDrugLevel', () => ({
+  TherapeuticDrugLevel: {
+    create: jest.fn(async (data: unknown) => data),
+    find: jest.fn()
+  }
+}));
+
+jest.mock('../../../repositories/MedicationRepository', () => {
+  const repository = { getMedicationById: jest.fn() };
+  return { MedicationRepository: { getInstance: () => repository } };
+});
+
+// Mock the logger
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const tdmService = TherapeuticDrugMonitoringService.getInstance();
+const medicationRepo = MedicationRepository.getInstance() as unknown as { getMedicationById: jest.Mock };
+
+const vancomycin = {
+  _id: '507f1f77bcf86cd799439011',
+  name: 'Vancomycin',
+  route: 'iv',
+  halfLife: 6,
+  standardDosages: [{ min: 1000, max: 1500, unit: 'mg', frequency: 'every 12 hours' }],
+  therapeuticLevels: [{ min: 10, max: 20, unit: 'mg/L', timing: 'trough' }]
+} as unknown as IMedication;
+
+describe('TherapeuticDrugMonitoringService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    medicationRepo.getMedicationById.mockResolvedValue(vancomycin);
+  });
+
+  describe('getSamplingPlan', () => {
+    it('should schedule the trough before the first dose after steady state', () => {
+      const start = new Date('2025-01-01T08:00:00Z');
+      const plan = tdmService.getSamplingPlan(vancomycin, { therapyStartedAt: start });
+
+      // 5 half-lives = 30 h, so steady state is reached by the 4th dose (36 h)
+      expect(plan.steadyStateHours).toBe(30);
+      expect(plan.dosingIntervalHours).toBe(12);
+      expect(plan.samples).toHaveLength(1);
+      expect(plan.samples[0].timing).toBe('trough');
+      expect(plan.samples[0].scheduledAt.toISOString()).toBe('2025-01-02T19:30:00.000Z');
+    });
+
+    it('should reject medications without therapeutic levels', () => {
+      const medication = { ...vancomycin, therapeuticLevels: [] } as unknown as IMedication;
+      expect(() => tdmService.getSamplingPlan(medication)).toThrow('no therapeutic levels');
+    });
+  });
+
+  describe('evaluateLevel', () => {
+    it('should classify levels against the therapeutic range', () => {
+      expect(tdmService.evaluateLevel(vancomycin, 8, 'mg/L', 'trough').status).toBe('subtherapeutic');
+      expect(tdmService.evaluateLevel(vancomycin, 15, 'mg/L', 'trough').status).toBe('therapeutic');
+      expect(tdmService.evaluateLevel(vancomycin, 25, 'mg/L', 'trough').status).toBe('supratherapeutic');
+      expect(tdmService.evaluateLevel(vancomycin, 15, 'mcg/mL', 'trough').status).toBe('indeterminate');
+    });
+  });
+
+  describe('suggestDoseCorrection', () => {
+    it('should scale the dose linearly towards the middle of the range', () => {
+      const correction = tdmService.suggestDoseCorrection({ amount: 1000, unit: 'mg' }, 10, vancomycin.therapeuticLevels[0]);
+
+      expect(correction).toMatchObject({ suggestedDose: 1500, targetLevel: 15, scalingFactor: 1.5, holdNextDose: false });
+    });
+
+    it('should recommend holding a dose for markedly high levels', () => {
+      const correction = tdmService.suggestDoseCorrection({ amount: 1000, unit: 'mg' }, 40, vancomycin.therapeuticLevels[0]);
+
+      expect(correction?.suggestedDose).toBe(380);
+      expect(correction?.holdNextDose).toBe(true);
+    });
+  });
+
+  describe('recordLevel', () => {
+    it('should store a flagged level with a dose correction', async () => {
+      const level = await tdmService.recordLevel({
+        patientId: 'patient-1',
+        prescriptionId: 'rx-1',
+        medicationId: '507f1f77bcf86cd799439011',
+        value: 7.5,
+        unit: 'mg/L',
+        timing: 'trough',
+        currentDose: { amount: 1000, unit: 'mg', intervalHours: 12 }
+      });
+
+      expect(TherapeuticDrugLevel.create).toHaveBeenCalled();
+      expect(level.status).toBe('subtherapeutic');
+      expect(level.doseCorrection?.suggestedDose).toBe(2000);
+    });
+
+    it('should not suggest a correction before steady state', async () => {
+      const level = await tdmService.recordLevel({
+        patientId: 'patient-1',
+        prescriptionId: 'rx-1',
+        medicationId: '507f1f77bcf86cd799439011',
+        value: 7.5,
+        unit: 'mg/L',
+        timing: 'trough',
+        sampledAt: new Date('2025-01-01T20:00:00Z'),
+        therapyStartedAt: new Date('2025-01-01T08:00:00Z'),
+        currentDose: { amount: 1000, unit: 'mg' }
+      });
+
+      expect(level.atSteadyState).toBe(false);
+      expect(level.doseCorrection).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import adherenceOutreachRules, { AdherenceSignals } from '../../../utils/adherenceOutreach';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const signals = (overrides: Partial<AdherenceSignals> = {}): AdherenceSignals => ({
+  consecutiveMissed: 0,
+  missedPatterns: [],
+  ...overrides
+});
+
+describe('AdherenceOutreachRules', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should detect consecutive misses, falling trends and missed-dose patterns', () => {
+    const triggers = adherenceOutreachRules.detectTriggers(signals({
+      consecutiveMissed: 3,
+      previousAdherence: 0.9,
+      recentAdherence: 0.6,
+      missedPatterns: [{ dayOfWeek: 'Saturday', frequency: 4 }, { timeOfDay: 'evening', frequency: 5 }]
+    }));
+
+    expect(triggers).toEqual([
+      { type: 'consecutive_missed', severity: 'HIGH', detail: '3 consecutive doses missed' },
+      { type: 'falling_trend', severity: 'MEDIUM', detail: 'Adherence fell from 90% to 60%' },
+      { type: 'missed_pattern', severity: 'LOW', detail: 'Missed doses cluster on Saturdays and in the evening' }
+    ]);
+    expect(adherenceOutreachRules.detectTriggers(signals({ previousAdherence: 0.95, recentAdherence: 0.85 }))).toEqual([]);
+  });
+
+  it('should start with a patient reminder, or a nurse task for high-severity triggers', () => {
+    expect(adherenceOutreachRules.evaluate(signals({ consecutiveMissed: 2 }), undefined, now))
+      .toMatchObject({ action: 'escalate', stage: 'patient_reminder' });
+    expect(adherenceOutreachRules.evaluate(signals({ consecutiveMissed: 4 }), undefined, now))
+      .toMatchObject({ action: 'escalate', stage: 'nurse_task' });
+    expect(adherenceOutreachRules.evaluate(signals(), undefined, now).action).toBe('none');
+  });
+
+  it('should wait out each stage cooldown before escalating', () => {
+    const campaign = { currentStage: 'patient_reminder' as const, lastActionAt: new Date(now.getTime() - 12 * HOUR_MS) };
+
+    const waiting = adherenceOutreachRules.evaluate(signals({ consecutiveMissed: 2 }), campaign, now);
+    expect(waiting).toMatchObject({ action: 'wait', stage: 'patient_reminder' });
+    expect(waiting.nextEligibleAt).toEqual(new Date(now.getTime() + 12 * HOUR_MS));
+
+    const later = new Date(now.getTime() + 13 * HOUR_MS);
+    expect(adherenceOutreachRules.evaluate(signals({ consecutiveMissed: 2 }), campaign, later))
+      .toMatchObject({ action: 'escalate', stage: 'nurse_task' });
+  });
+
+  it('should repeat the doctor alert after its cooldown and resolve once triggers clear', () => {
+    const campaign = { currentStage: 'doctor_alert' as const, lastActionAt: new Date(now.getTime() - 8 * 24 * HOUR_MS) };
+
+    expect(adherenceOutreachRules.evaluate(signals({ consecutiveMissed: 5 }), campaign, now))
+      .toMatchObject({ action: 'escalate', stage: 'doctor_alert' });
+    expect(adherenceOutreachRules.evaluate(signals(), campaign, now).action).toBe('resolve');
+  });
+});
@@ -0,0 +1,85 @@
+import adverseEventExporter, { AdverseEventCaseInput } from '../../../utils/adverseEventExport';
+
+const input = (overrides: Partial<AdverseEventCaseInput> = {}): AdverseEventCaseInput => ({
+  issue: {
+    id: 'issue-1',
+    medications: ['Warfarin', 'Clarithromycin'],
+    issueType: 'interaction',
+    severity: 'life_threatening',
+    description: 'Jane Doe presented with GI bleeding on 2026-03-14; call 555-123-4567 or jane@example.com',
+    symptoms: ['gastrointestinal haemorrhage'],
+    reportDate: new Date('2026-03-15T10:00:00Z'),
+    status: 'reported'
+  },
+  safetyReportId: 'US-HEALTHASSISTPRO-issue-1',
+  version: 1,
+  sender: { organization: 'HealthAssist Pro', country: 'US' },
+  patient: {
+    firstName: 'Jane',
+    lastName: 'Doe',
+    dateOfBirth: new Date('1932-06-01T00:00:00Z'),
+    sex: 'female',
+    weightKg: 58,
+    conditions: ['Atrial fibrillation'],
+    medications: [
+      { name: 'Warfarin', dosage: '5 mg', frequency: 'daily', startDate: new Date('2025-01-10T00:00:00Z') },
+      { name: 'Metoprolol', dosage: '25 mg', frequency: 'twice daily' }
+    ]
+  },
+  reporter: { name: 'Greg House', email: 'house@example.com', qualification: 'physician' },
+  createdAt: new Date('2026-03-20T00:00:00Z'),
+  ...overrides
+});
+
+describe('AdverseEventExporter', () => {
+  it('should build an E2B-style report with interacting and concomitant drugs', () => {
+    const caseData = adverseEventExporter.buildCase(input(), 'none');
+    const xml = adverseEventExporter.toE2bXml(caseData);
+
+    expect(caseData.serious).toBe(true);
+    expect(caseData.drugs.map(drug => `${drug.name}:${drug.role}`)).toEqual([
+      'Warfarin:interacting',
+      'Clarithromycin:interacting',
+      'Metoprolol:concomitant'
+    ]);
+    expect(xml).toContain('<patientInitials e2b="D.1">JD</patientInitials>');
+    expect(xml).toContain('<ageAtOnset e2b="D.2.2a">93</ageAtOnset>');
+    expect(xml).toContain('<lifeThreatening e2b="E.i.3.2b">true</lifeThreatening>');
+    expect(xml).toContain('<dosageText e2b="G.k.4.r.8">5 mg daily</dosageText>');
+    expect(xml).toContain('call 555-123-4567 or jane@example.com');
+  });
+
+  it('should strip identifiers under Safe Harbor de-identification', () => {
+    const caseData = adverseEventExporter.buildCase(input(), 'safe_harbor');
+    const xml = adverseEventExporter.toE2bXml(caseData);
+
+    expect(caseData.patient.age).toEqual({ group: '90+' });
+    expect(caseData.receiptDate).toBe('2026');
+    expect(caseData.narrative).toBe('[PATIENT] presented with GI bleeding on 2026; call [PHONE] or [EMAIL]');
+    expect(xml).toContain('<patientInitials e2b="D.1" nullFlavor="MSK"/>');
+    expect(xml).toContain('<reporterName e2b="C.2.r.1" nullFlavor="MSK"/>');
+    expect(xml).not.toMatch(/Jane|Doe|House|1932/);
+  });
+
+  it('should reject reports missing the minimum case criteria', () => {
+    const caseData = adverseEventExporter.buildCase(
+      input({ patient: undefined, reporter: undefined, issue: { ...input().issue, medications: [] } }),
+      'limited'
+    );
+    const result = adverseEventExporter.validate(caseData, 'e2b_xml');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => error.field)).toEqual(['patient', 'reporter', 'drugs']);
+  });
+
+  it('should render a MedWatch-style PDF with the FDA 3500 sections', () => {
+    const caseData = adverseEventExporter.buildCase(input(), 'limited');
+    const pdf = adverseEventExporter.toMedWatchPdf(caseData).toString('latin1');
+
+    expect(adverseEventExporter.validate(caseData, 'medwatch_pdf').valid).toBe(true);
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(D. Suspect products) Tj');
+    expect(pdf).toContain('Withheld \\(de-identified\\)');
+    expect(pdf).not.toContain('Jane');
+  });
+});
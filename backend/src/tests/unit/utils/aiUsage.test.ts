@@ -0,0 +1,33 @@
+import aiUsage from '../../../utils/aiUsage';
+
+describe('AIUsageCalculator', () => {
+  const pricing = {
+    'gpt-4': { inputPer1K: 0.03, outputPer1K: 0.06 },
+    'gpt-4o': { inputPer1K: 0.0025, outputPer1K: 0.01 },
+    default: { inputPer1K: 0.01, outputPer1K: 0.02 }
+  };
+
+  it('should price models by exact name, then longest prefix, then the default', () => {
+    expect(aiUsage.pricingFor('gpt-4', pricing)).toBe(pricing['gpt-4']);
+    expect(aiUsage.pricingFor('gpt-4o-2024-08-06', pricing)).toBe(pricing['gpt-4o']);
+    expect(aiUsage.pricingFor('gpt-4-0613', pricing)).toBe(pricing['gpt-4']);
+    expect(aiUsage.pricingFor('llama-3', pricing)).toBe(pricing.default);
+  });
+
+  it('should estimate cost from prompt and completion tokens', () => {
+    expect(aiUsage.estimateCost({ promptTokens: 1000, completionTokens: 500 }, pricing['gpt-4'])).toBe(0.06);
+    expect(aiUsage.estimateCost({ promptTokens: 7, completionTokens: 0 }, pricing['gpt-4o'])).toBe(0.000018);
+  });
+
+  it('should estimate tokens from text length', () => {
+    expect(aiUsage.estimateTokens('')).toBe(0);
+    expect(aiUsage.estimateTokens('Patient reports chest pain')).toBe(7);
+  });
+
+  it('should start daily and monthly periods at UTC midnight', () => {
+    const now = new Date('2026-10-19T23:30:00-05:00');
+
+    expect(aiUsage.periodStart('daily', now).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    expect(aiUsage.periodStart('monthly', now).toISOString()).toBe('2026-10-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,57 @@
+import controlledSubstanceRules from '../../../utils/controlledSubstances';
+
+describe('ControlledSubstanceRules', () => {
+  it('should classify schedules, with combination products and catalogue metadata taking precedence', () => {
+    expect(controlledSubstanceRules.classify('Oxycodone 5 mg tablet')?.schedule).toBe('II');
+    expect(controlledSubstanceRules.classify('Acetaminophen/Codeine 300/30')?.schedule).toBe('III');
+    expect(controlledSubstanceRules.classify('Codeine sulfate')?.schedule).toBe('II');
+    expect(controlledSubstanceRules.classify('Lorazepam')?.schedule).toBe('IV');
+    expect(controlledSubstanceRules.classify('Pregabalin')?.schedule).toBe('V');
+    expect(controlledSubstanceRules.classify('Hydromorphone')?.mmeFactor).toBe(5);
+    expect(controlledSubstanceRules.classify('Amoxicillin')).toBeUndefined();
+    expect(controlledSubstanceRules.classify('Gabapentin', { deaSchedule: 'V' })?.schedule).toBe('V');
+  });
+
+  it('should block refills and excess supply on Schedule II and cap refills on Schedules III and IV', () => {
+    const codes = (line: Parameters<typeof controlledSubstanceRules.checkLine>[0]) =>
+      controlledSubstanceRules.checkLine(line).map(violation => violation.code);
+
+    expect(codes({ name: 'Oxycodone', dosage: '5 mg', frequency: 'every 6 hours', quantity: 20, daysSupply: 5, refills: 0 })).toEqual([]);
+    expect(codes({ name: 'Oxycodone', dosage: '5 mg', frequency: 'every 6 hours', quantity: 20, refills: 1 }))
+      .toEqual(['REFILLS_NOT_ALLOWED']);
+    expect(codes({ name: 'Oxycodone', dosage: '5 mg', frequency: 'every 6 hours' })).toEqual(['QUANTITY_REQUIRED']);
+    expect(codes({ name: 'Morphine ER', dosage: '15 mg', frequency: 'twice daily', quantity: 300, daysSupply: 60 }))
+      .toEqual(['QUANTITY_EXCEEDED', 'DAYS_SUPPLY_EXCEEDED']);
+    // 120 tablets at one tablet twice a day lasts 60 days
+    expect(codes({ name: 'Methylphenidate', dosage: '1 tablet', frequency: 'twice daily', quantity: 120 }))
+      .toEqual(['DAYS_SUPPLY_EXCEEDED']);
+    expect(codes({ name: 'Alprazolam', dosage: '0.5 mg', frequency: 'three times daily', refills: 6 })).toEqual(['TOO_MANY_REFILLS']);
+    expect(codes({ name: 'Alprazolam', dosage: '0.5 mg', frequency: 'three times daily', refills: 5 })).toEqual([]);
+    expect(codes({ name: 'Heroin', dosage: '1 mg', frequency: 'daily' })).toEqual(['NOT_PRESCRIBABLE']);
+    expect(codes({ name: 'Amoxicillin', dosage: '500 mg', frequency: 'three times daily', refills: 3 })).toEqual([]);
+  });
+
+  it('should total daily MME and warn at the configured thresholds', () => {
+    const summary = controlledSubstanceRules.calculateMme([
+      { name: 'Oxycodone', dosage: '10 mg', frequency: 'every 6 hours' }, // 40 mg x 1.5 = 60
+      { name: 'Fentanyl transdermal patch', dosage: '12 mcg/hr', frequency: 'every 72 hours' }, // 12 x 2.4 = 28.8
+      { name: 'Buprenorphine', dosage: '8 mg', frequency: 'daily' },
+      { name: 'Lisinopril', dosage: '10 mg', frequency: 'daily' }
+    ]);
+
+    expect(summary.lines.map(line => line.dailyMme)).toEqual([60, 28.8]);
+    expect(summary.totalDailyMme).toBe(88.8);
+    expect(summary.level).toBe('warning');
+    expect(summary.warnings[0]).toContain('50 MME');
+
+    expect(controlledSubstanceRules.calculateMme(
+      [{ name: 'Oxycodone', dosage: '10 mg', frequency: 'every 6 hours' }],
+      { mmeWarningThreshold: 30, mmeHighThreshold: 60 }
+    ).level).toBe('high');
+
+    const unresolved = controlledSubstanceRules.calculateMme([{ name: 'Morphine', dosage: '1 tablet', frequency: 'as needed' }]);
+    expect(unresolved.level).toBe('none');
+    expect(unresolved.unresolved).toEqual(['Morphine']);
+    expect(controlledSubstanceRules.calculateMme([]).level).toBe('none');
+  });
+});
@@ -0,0 +1,123 @@
+import { DoseAdjustmentEngine } from '../../../utils/doseAdjustment';
+import { IMedication } from '../../../models/Medication';
+
+// Mock the logger
+jest.mock('../../../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+const doseAdjustmentEngine = DoseAdjustmentEngine.getInstance();
+
+const buildMedication = (overrides: Partial<IMedication> = {}): IMedication => ({
+  name: 'Testmycin',
+  standardDosages: [{ min: 500, max: 1000, unit: 'mg', frequency: 'every 8 hours' }],
+  renalAdjustment: true,
+  hepaticAdjustment: false,
+  ...overrides
+} as unknown as IMedication);
+
+describe('DoseAdjustmentEngine', () => {
+  describe('Renal function', () => {
+    it('should calculate creatinine clearance with Cockcroft-Gault', () => {
+      // ((140 - 60) * 72) / (72 * 1.0) = 80
+      expect(doseAdjustmentEngine.calculateCreatinineClearance(60, 72, 1.0, 'male')).toBe(80);
+      expect(doseAdjustmentEngine.calculateCreatinineClearance(60, 72, 1.0, 'female')).toBe(68);
+    });
+
+    it('should use adjusted body weight for obese patients', () => {
+      const actual = doseAdjustmentEngine.calculateCreatinineClearance(50, 150, 1.0, 'male');
+      const adjusted = doseAdjustmentEngine.calculateCreatinineClearance(50, 150, 1.0, 'male', 175);
+      expect(adjusted).toBeLessThan(actual as number);
+    });
+
+    it('should calculate eGFR with CKD-EPI 2021', () => {
+      expect(doseAdjustmentEngine.calculateEGFR(50, 1.0, 'male')).toBeCloseTo(91.7, 0);
+      expect(doseAdjustmentEngine.calculateEGFR(50, 1.0, 'female')).toBeCloseTo(68.9, 0);
+    });
+
+    it('should classify renal stages', () => {
+      expect(doseAdjustmentEngine.classifyRenalFunction(95)).toBe('normal');
+      expect(doseAdjustmentEngine.classifyRenalFunction(45)).toBe('moderate');
+      expect(doseAdjustmentEngine.classifyRenalFunction(10)).toBe('failure');
+    });
+  });
+
+  describe('Hepatic function', () => {
+    it('should classify Child-Pugh stages', () => {
+      expect(doseAdjustmentEngine.calculateChildPugh(1.0, 4.0, 1.0)).toEqual({ score: 5, class: 'A' });
+      expect(doseAdjustmentEngine.calculateChildPugh(2.5, 3.0, 1.8, 'mild')).toEqual({ score: 9, class: 'B' });
+      expect(doseAdjustmentEngine.calculateChildPugh(4.0, 2.5, 2.5, 'severe', 'mild').class).toBe('C');
+    });
+  });
+
+  describe('Lab extraction', () => {
+    it('should normalise SI units', () => {
+      const values = doseAdjustmentEngine.extractLabValues([
+        { name: 'Serum Creatinine', value: 176.8, unit: 'µmol/L' },
+        { name: 'Albumin', value: 35, unit: 'g/L' },
+        { name: 'INR', value: '1.2', unit: '' }
+      ]);
+
+      expect(values.serumCreatinine).toBe(2);
+      expect(values.albumin).toBe(3.5);
+      expect(values.inr).toBe(1.2);
+    });
+  });
+
+  describe('Dose adjustment', () => {
+    it('should not adjust medications without renal or hepatic flags', () => {
+      const assessment = doseAdjustmentEngine.assessOrganFunction({ age: 80, weight: 50, serumCreatinine: 3, sex: 'female' });
+      const result = doseAdjustmentEngine.calculateDoseAdjustment(buildMedication({ renalAdjustment: false }), assessment);
+
+      expect(result.requiresAdjustment).toBe(false);
+      expect(result.adjustedRange).toMatchObject({ min: 500, max: 1000 });
+    });
+
+    it('should double the interval but keep the dose in severe renal impairment', () => {
+      const assessment = doseAdjustmentEngine.assessOrganFunction({ age: 80, weight: 60, serumCreatinine: 2.5, sex: 'male' });
+      expect(assessment.renalStage).toBe('severe');
+
+      const result = doseAdjustmentEngine.calculateDoseAdjustment(buildMedication(), assessment);
+
+      expect(result.requiresAdjustment).toBe(true);
+      expect(result.doseFactor).toBe(1);
+      expect(result.adjustedRange).toMatchObject({ min: 500, max: 1000, frequency: 'every 16 hours' });
+      expect(result.originalIntervalHours).toBe(8);
+      expect(result.adjustedIntervalHours).toBe(16);
+    });
+
+    it('should reduce the dose instead when the standard dose has no interval', () => {
+      const assessment = doseAdjustmentEngine.assessOrganFunction({ age: 80, weight: 60, serumCreatinine: 2.5, sex: 'male' });
+      const result = doseAdjustmentEngine.calculateDoseAdjustment(
+        buildMedication({ standardDosages: [{ min: 500, max: 1000, unit: 'mg' }] } as Partial<IMedication>),
+        assessment
+      );
+
+      expect(result.doseFactor).toBe(0.5);
+      expect(result.intervalExtensionFactor).toBe(1);
+      expect(result.adjustedRange).toMatchObject({ min: 250, max: 500 });
+    });
+
+    it('should combine renal and hepatic adjustments', () => {
+      const assessment = doseAdjustmentEngine.assessOrganFunction({
+        eGFR: 45,
+        hepaticFunction: 'moderate impairment'
+      });
+      const result = doseAdjustmentEngine.calculateDoseAdjustment(
+        buildMedication({ hepaticAdjustment: true }),
+        assessment
+      );
+
+      expect(result.doseFactor).toBe(0.5);
+      expect(result.intervalExtensionFactor).toBe(1.5);
+      expect(result.adjustedRange).toMatchObject({ min: 250, max: 500, frequency: 'every 12 hours' });
+      expect(result.recommendations).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { DrugClassRuleEngine } from '../../../utils/drugClassRules';
+import { InteractionSeverity } from '../../../types/medical';
+
+const drugClassRules = DrugClassRuleEngine.getInstance();
+
+describe('DrugClassRuleEngine', () => {
+  describe('Class resolution', () => {
+    it('should resolve classes from drugClass and include parent classes', () => {
+      const classes = drugClassRules.resolveMedicationClasses({
+        name: 'Keflex',
+        drugClass: ['Antibiotic', 'Cephalosporins']
+      });
+
+      expect(classes).toEqual(expect.arrayContaining(['cephalosporins', 'beta-lactams']));
+    });
+
+    it('should fall back to class members by generic name', () => {
+      expect(drugClassRules.resolveMedicationClasses({ name: 'Ibuprofen', drugClass: ['Anti-inflammatory'] }))
+        .toContain('nsaids');
+    });
+  });
+
+  describe('Allergy matching', () => {
+    it('should flag a penicillin allergy against amoxicillin', () => {
+      const [match] = drugClassRules.matchAllergies({ name: 'Amoxil', genericName: 'amoxicillin' }, ['Penicillin']);
+
+      expect(match).toMatchObject({ matchType: 'same_class', severity: InteractionSeverity.HIGH, drugClass: 'penicillins' });
+    });
+
+    it('should grade penicillin to cephalosporin cross-sensitivity', () => {
+      const [match] = drugClassRules.matchAllergies(
+        { name: 'Cephalexin', drugClass: ['Cephalosporin'] },
+        ['amoxicillin']
+      );
+
+      expect(match).toMatchObject({ matchType: 'cross_sensitivity', severity: InteractionSeverity.MEDIUM });
+    });
+
+    it('should not flag unrelated allergies', () => {
+      expect(drugClassRules.matchAllergies({ name: 'Lisinopril', drugClass: ['ACE Inhibitor'] }, ['penicillin']))
+        .toHaveLength(0);
+    });
+  });
+
+  describe('Contraindication matching', () => {
+    it('should flag asthma with a non-selective beta blocker', () => {
+      const [match] = drugClassRules.matchContraindications({ name: 'Propranolol' }, ['Mild persistent asthma']);
+
+      expect(match).toMatchObject({ condition: 'asthma', severity: InteractionSeverity.HIGH });
+    });
+
+    it('should grade asthma with a cardioselective beta blocker as low risk', () => {
+      const [match] = drugClassRules.matchContraindications(
+        { name: 'Metoprolol', drugClass: ['Cardioselective beta blocker'] },
+        ['asthma']
+      );
+
+      expect(match.severity).toBe(InteractionSeverity.LOW);
+    });
+  });
+
+  describe('Therapeutic duplication', () => {
+    it('should flag two drugs from the same class', () => {
+      const matches = drugClassRules.matchDuplications([
+        { name: 'Ibuprofen' },
+        { name: 'Lisinopril' },
+        { name: 'Aleve', genericName: 'naproxen sodium' }
+      ]);
+
+      expect(matches).toEqual([
+        expect.objectContaining({ indices: [0, 2], matchType: 'same_class', drugClass: 'nsaids', severity: InteractionSeverity.MEDIUM })
+      ]);
+    });
+
+    it('should report the most specific shared class', () => {
+      const [match] = drugClassRules.matchDuplications([{ name: 'Sertraline' }, { name: 'Fluoxetine', drugClass: ['SSRI'] }]);
+      expect(match.drugClass).toBe('ssris');
+
+      const [betaBlockers] = drugClassRules.matchDuplications([{ name: 'Metoprolol' }, { name: 'Atenolol' }]);
+      expect(betaBlockers.drugClass).toBe('cardioselective-beta-blockers');
+    });
+
+    it('should flag a duplicate ingredient in a combination product', () => {
+      const [match] = drugClassRules.matchDuplications([
+        { name: 'Tylenol', genericName: 'Acetaminophen' },
+        { name: 'Norco', genericName: 'Hydrocodone bitartrate/Acetaminophen' }
+      ]);
+
+      expect(match).toMatchObject({ matchType: 'ingredient', ingredient: 'acetaminophen', severity: InteractionSeverity.HIGH });
+      expect(drugClassRules.getIngredients({ name: 'Lotrel', genericName: 'amlodipine and benazepril HCl' }))
+        .toEqual(['amlodipine', 'benazepril']);
+    });
+
+    it('should not flag classes that are routinely combined', () => {
+      expect(drugClassRules.matchDuplications([{ name: 'Oxybutynin' }, { name: 'Diphenhydramine' }])).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import formularyCoverage, { FormularyPlan } from '../../../utils/formularyCoverage';
+
+const plan: FormularyPlan = {
+  planName: 'Acme Silver',
+  tierCostSharing: [
+    { tier: 1, copay: 5 },
+    { tier: 2, copay: 20 },
+    { tier: 3, coinsurance: 0.3 }
+  ],
+  entries: [
+    { drugName: 'Atorvastatin', tier: 1, covered: true, priorAuthorization: false, monthlyCost: 12 },
+    { drugName: 'Crestor', genericName: 'Rosuvastatin', tier: 3, covered: true, priorAuthorization: false, monthlyCost: 250 },
+    {
+      drugName: 'Ezetimibe',
+      tier: 2,
+      covered: true,
+      priorAuthorization: false,
+      stepTherapy: { requiredDrugs: ['atorvastatin', 'simvastatin'] },
+      quantityLimit: { quantity: 30, days: 30 }
+    },
+    { drugName: 'Evolocumab', tier: 5, covered: true, priorAuthorization: true, copay: 150 },
+    { drugName: 'Pitavastatin', tier: 4, covered: false, priorAuthorization: false, monthlyCost: 300 }
+  ]
+};
+
+describe('FormularyCoverageEvaluator', () => {
+  it('should assess tier, cost sharing and exclusions', () => {
+    expect(formularyCoverage.assess(plan, { name: 'atorvastatin' })).toMatchObject({
+      status: 'covered',
+      tier: 1,
+      estimatedMonthlyCost: 5
+    });
+    // Generic name match with coinsurance on the full price
+    expect(formularyCoverage.assess(plan, { name: 'Rosuvastatin calcium', genericName: 'rosuvastatin' }))
+      .toMatchObject({ status: 'covered', tier: 3, estimatedMonthlyCost: 75 });
+    expect(formularyCoverage.assess(plan, { name: 'Pitavastatin' }).status).toBe('not_covered');
+    expect(formularyCoverage.assess(plan, { name: 'Lovastatin' }).status).toBe('not_on_formulary');
+    expect(formularyCoverage.assess(undefined, { name: 'Atorvastatin' }).status).toBe('unknown');
+  });
+
+  it('should flag prior authorisation, unmet step therapy and quantity limits', () => {
+    const pa = formularyCoverage.assess(plan, { name: 'Evolocumab' });
+    expect(pa).toMatchObject({ status: 'covered_with_restrictions', priorAuthorizationRequired: true, estimatedMonthlyCost: 150 });
+
+    const stepUnmet = formularyCoverage.assess(plan, { name: 'Ezetimibe' }, { quantity: 60, daysSupply: 30 });
+    expect(stepUnmet.status).toBe('covered_with_restrictions');
+    expect(stepUnmet.stepTherapy?.satisfied).toBe(false);
+    expect(stepUnmet.quantityLimit?.exceeded).toBe(true);
+
+    const stepMet = formularyCoverage.assess(plan, { name: 'Ezetimibe' }, { medicationHistory: ['Simvastatin 20 mg'], quantity: 30 });
+    expect(stepMet.status).toBe('covered');
+    expect(stepMet.stepTherapy?.satisfied).toBe(true);
+  });
+
+  it('should rank covered medications ahead of restricted and excluded ones', () => {
+    const score = (name: string) => formularyCoverage.barrierScore(formularyCoverage.assess(plan, { name }));
+
+    expect(score('Atorvastatin')).toBe(0);
+    expect(score('Atorvastatin')).toBeLessThan(score('Evolocumab'));
+    expect(score('Evolocumab')).toBeLessThan(score('Lovastatin'));
+    expect(score('Lovastatin')).toBeLessThan(score('Pitavastatin'));
+    expect(formularyCoverage.barrierScore(formularyCoverage.assess(undefined, { name: 'Atorvastatin' })))
+      .toBeLessThan(score('Evolocumab'));
+  });
+});
@@ -0,0 +1,59 @@
+import geriatricRegimenReviewer from '../../../utils/geriatricRegimenReview';
+
+describe('GeriatricRegimenReviewer', () => {
+  describe('review', () => {
+    it('should score anticholinergic burden, sedative load and fall-risk drugs', () => {
+      const review = geriatricRegimenReviewer.review([
+        { name: 'Diphenhydramine' },
+        { name: 'Oxybutynin' },
+        { name: 'Lorazepam' },
+        { name: 'Metoprolol Tartrate' },
+        { name: 'Lisinopril' }
+      ], { age: 82 });
+
+      expect(review.polypharmacy).toBe(true);
+      expect(review.anticholinergicBurden).toMatchObject({ total: 7, level: 'high' });
+      expect(review.sedativeLoad.total).toBe(3);
+      expect(review.fallRiskDrugs.medications.map(m => m.medication)).toEqual(['Diphenhydramine', 'Lorazepam']);
+      expect(review.drugDrugPairs.map(f => f.rule)).toEqual(['anticholinergic-combination']);
+    });
+
+    it('should find Beers drug-drug and drug-disease pairs', () => {
+      const review = geriatricRegimenReviewer.review(
+        [{ name: 'Oxycodone' }, { name: 'Alprazolam' }, { name: 'Gabapentin' }, { name: 'Ibuprofen' }],
+        { age: 75, conditions: ['Congestive heart failure', 'History of falls'] }
+      );
+
+      expect(review.drugDrugPairs.map(f => f.rule)).toEqual(
+        ['opioid-benzodiazepine', 'opioid-gabapentinoid', 'cns-active-combination']
+      );
+      expect(review.drugDiseasePairs.map(f => `${f.rule}:${f.medication}`)).toEqual([
+        'heart-failure:Ibuprofen',
+        'falls:Oxycodone',
+        'falls:Alprazolam',
+        'falls:Gabapentin'
+      ]);
+    });
+
+    it('should suggest deprescribing with the highest priority first', () => {
+      const review = geriatricRegimenReviewer.review(
+        [
+          { name: 'Omeprazole', startDate: new Date('2026-01-01') },
+          { name: 'Zolpidem' },
+          { name: 'Glyburide' }
+        ],
+        {
+          beersFlags: [{ medication: 'Glyburide', reason: 'Prolonged hypoglycemia', recommendation: 'Use a shorter-acting agent' }],
+          asOf: new Date('2026-10-19')
+        }
+      );
+
+      expect(review.deprescribingSuggestions.map(s => [s.medication, s.priority])).toEqual([
+        ['Zolpidem', 'high'],
+        ['Glyburide', 'medium'],
+        ['Omeprazole', 'low']
+      ]);
+      expect(review.deprescribingSuggestions[0].action).toContain('CBT-I');
+    });
+  });
+});
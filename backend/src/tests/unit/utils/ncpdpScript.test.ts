@@ -0,0 +1,98 @@
+import ncpdpScriptCodec, { NewRxInput, ScriptHeader, XmlElement } from '../../../utils/ncpdpScript';
+import MockPharmacyAdapter from '../../../services/pharmacy/MockPharmacyAdapter';
+
+const header = (overrides: Partial<ScriptHeader> = {}): ScriptHeader => ({
+  to: '0000001',
+  from: 'doctor-1',
+  messageId: ncpdpScriptCodec.newMessageId(),
+  sentTime: new Date('2026-10-19T15:00:00Z'),
+  prescriberOrderNumber: 'med-1',
+  ...overrides
+});
+
+const input: NewRxInput = {
+  prescriberOrderNumber: 'med-1',
+  pharmacy: { id: '0000001', name: 'Local Test Pharmacy' },
+  patient: { id: 'patient-1', firstName: 'Ana', lastName: "O'Neil & Co", gender: 'FEMALE', dateOfBirth: new Date('1980-04-02') },
+  prescriber: { id: 'doctor-1', firstName: 'Sam', lastName: 'Lee', stateLicenseNumber: 'MD12345' },
+  medication: {
+    description: 'Amoxicillin 500 mg',
+    directions: 'Take 1 capsule by mouth three times daily',
+    quantity: 30,
+    daysSupply: 10,
+    refills: 0,
+    writtenDate: new Date('2026-10-19T00:00:00Z')
+  }
+};
+
+describe('NcpdpScriptCodec', () => {
+  it('should serialise a NewRx that parses back to the same header and fields', () => {
+    const sent = header();
+    const parsed = ncpdpScriptCodec.parse(ncpdpScriptCodec.buildNewRx(sent, input));
+
+    expect(parsed.type).toBe('NewRx');
+    expect(parsed.header).toMatchObject({ to: '0000001', from: 'doctor-1', messageId: sent.messageId, prescriberOrderNumber: 'med-1' });
+    expect(parsed.header.sentTime.toISOString()).toBe('2026-10-19T15:00:00.000Z');
+    expect(parsed.fields['Patient.HumanPatient.Name.LastName']).toBe("O'Neil & Co");
+    expect(parsed.fields['Pharmacy.Identification.NCPDPID']).toBe('0000001');
+    expect(parsed.fields['MedicationPrescribed.DrugDescription']).toBe('Amoxicillin 500 mg');
+    expect(parsed.fields['MedicationPrescribed.Sig.SigText']).toBe('Take 1 capsule by mouth three times daily');
+    expect(parsed.fields['MedicationPrescribed.Quantity.Value']).toBe('30');
+    expect(parsed.fields['MedicationPrescribed.NumberOfRefills']).toBe('0');
+  });
+
+  it('should reject documents that are not SCRIPT messages', () => {
+    expect(() => ncpdpScriptCodec.parse('<Other><Header/></Other>')).toThrow('Expected a SCRIPT Message');
+    expect(() => ncpdpScriptCodec.parse('<Message><Header><MessageID>1</MessageID></Header><Body><Unknown/></Body></Message>'))
+      .toThrow('Unsupported SCRIPT transaction');
+  });
+
+  it('should move transmissions through acknowledged, filled and cancelled', () => {
+    const reply = (type: 'Status' | 'RxFill' | 'CancelRxResponse' | 'Error', body: XmlElement) =>
+      ncpdpScriptCodec.parse(ncpdpScriptCodec.build(type, header({ relatesToMessageId: 'x' }), body));
+
+    expect(ncpdpScriptCodec.nextStatus('sent', reply('Status', { Code: '000' }))).toEqual({ status: 'acknowledged' });
+    expect(ncpdpScriptCodec.nextStatus('filled', reply('Status', { Code: '000' }))).toBeUndefined();
+
+    expect(ncpdpScriptCodec.nextStatus('acknowledged', reply('RxFill', { FillStatus: { Dispensed: {} } })))
+      .toEqual({ status: 'filled', note: undefined });
+    expect(ncpdpScriptCodec.nextStatus('acknowledged', reply('RxFill', { FillStatus: { PartiallyDispensed: {} } })))
+      .toEqual({ status: 'filled', note: 'Partially dispensed' });
+    expect(ncpdpScriptCodec.nextStatus('sent', reply('RxFill', { FillStatus: { NotDispensed: { Note: 'Out of stock' } } })))
+      .toEqual({ status: 'acknowledged', note: 'Out of stock' });
+
+    expect(ncpdpScriptCodec.nextStatus('cancel_requested', reply('CancelRxResponse', { Response: { Approved: {} } }))?.status)
+      .toBe('cancelled');
+    expect(ncpdpScriptCodec.nextStatus('cancel_requested', reply('CancelRxResponse', {
+      Response: { Denied: { ReasonCode: 'AA', DenialReason: 'Already dispensed' } }
+    }))).toEqual({ status: 'acknowledged', note: 'Already dispensed' });
+
+    expect(ncpdpScriptCodec.nextStatus('sent', reply('Error', { Code: '900', Description: 'Unknown pharmacy' })))
+      .toEqual({ status: 'error', note: '900: Unknown pharmacy' });
+  });
+});
+
+describe('MockPharmacyAdapter', () => {
+  it('should acknowledge, dispense and refuse to cancel a dispensed prescription', async () => {
+    const pharmacy = new MockPharmacyAdapter();
+    const inbound: string[] = [];
+    pharmacy.onMessage(async message => { inbound.push(message); });
+
+    const newRx = header();
+    const status = ncpdpScriptCodec.parse((await pharmacy.send('0000001', ncpdpScriptCodec.buildNewRx(newRx, input)))!);
+    expect(status.type).toBe('Status');
+    expect(status.header.relatesToMessageId).toBe(newRx.messageId);
+
+    await pharmacy.dispense(newRx.messageId);
+    const fill = ncpdpScriptCodec.parse(inbound[0]);
+    expect(fill.type).toBe('RxFill');
+    expect(fill.header).toMatchObject({ from: '0000001', relatesToMessageId: newRx.messageId, prescriberOrderNumber: 'med-1' });
+
+    const cancel = header({ relatesToMessageId: newRx.messageId });
+    const response = ncpdpScriptCodec.parse((await pharmacy.send('0000001', ncpdpScriptCodec.buildCancelRx(cancel, input)))!);
+    expect(ncpdpScriptCodec.nextStatus('cancel_requested', response)?.status).toBe('acknowledged');
+
+    const unknown = ncpdpScriptCodec.parse((await pharmacy.send('9999999', ncpdpScriptCodec.buildNewRx(header(), input)))!);
+    expect(unknown.type).toBe('Error');
+  });
+});
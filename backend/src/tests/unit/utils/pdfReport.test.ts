@@ -0,0 +1,29 @@
+import pdfReportRenderer from '../../../utils/pdfReport';
+
+describe('PdfReportRenderer', () => {
+  it('should render a valid PDF with a correct cross-reference table', () => {
+    const pdf = pdfReportRenderer.render({
+      title: 'Medication Safety Report',
+      sections: [{ heading: 'Alerts', lines: ['Dose (high) – review'] }]
+    }).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Dose \\(high\\) - review) Tj');
+
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const firstObjectOffset = Number(/xref\n0 \d+\n0000000000 65535 f \n(\d{10})/.exec(pdf)?.[1]);
+    expect(pdf.slice(firstObjectOffset, firstObjectOffset + 7)).toBe('1 0 obj');
+  });
+
+  it('should break long reports across pages', () => {
+    const pdf = pdfReportRenderer.render({
+      title: 'Long report',
+      sections: [{ heading: 'Lines', lines: Array.from({ length: 120 }, (_, i) => `Line ${i + 1}`) }]
+    }).toString('latin1');
+
+    expect(pdf).toContain('/Count 3');
+    expect(pdf).toContain('Page 3 of 3');
+  });
+});
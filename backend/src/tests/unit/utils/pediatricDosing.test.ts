@@ -0,0 +1,61 @@
+import pediatricDosingCalculator from '../../../utils/pediatricDosing';
+
+describe('PediatricDosingCalculator', () => {
+  describe('calculateBsa', () => {
+    it('should calculate Mosteller and Haycock BSA', () => {
+      const bsa = pediatricDosingCalculator.calculateBsa(70, 170);
+
+      expect(bsa.mosteller).toBeCloseTo(1.818, 3);
+      expect(bsa.haycock).toBeCloseTo(1.826, 3);
+      expect(bsa.used).toBe('mosteller');
+    });
+
+    it('should prefer Haycock for small children', () => {
+      const bsa = pediatricDosingCalculator.calculateBsa(10, 75);
+
+      expect(bsa.used).toBe('haycock');
+      expect(bsa.value).toBeCloseTo(0.464, 3);
+    });
+  });
+
+  describe('calculateDose', () => {
+    it('should calculate a mg/kg dose rounded to measurable liquid volume', () => {
+      const result = pediatricDosingCalculator.calculateDose(
+        { weightKg: 12.3, ageYears: 2 },
+        { min: 15, unit: 'mg', basis: 'kg', frequency: 'every 8 hours', dosageForm: 'liquid', strength: '250 mg/5 mL' }
+      );
+
+      expect(result.targetDose).toBeCloseTo(184.5);
+      expect(result.dispensable).toMatchObject({ quantity: 3.7, unit: 'mL', display: '3.7 mL', dose: 185 });
+      expect(result.dailyDose).toBe(555);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should cap at the adult maximum and round tablets down to stay under it', () => {
+      const result = pediatricDosingCalculator.calculateDose(
+        { weightKg: 52, ageYears: 13 },
+        { min: 15, unit: 'mg', basis: 'kg', adultMaxDose: 500, dosageForm: 'tablet', strength: '325 mg' }
+      );
+
+      expect(result.cappedAtAdultMax).toBe(true);
+      expect(result.dispensable).toMatchObject({ quantity: 1.5, display: '1 1/2 tablets', dose: 487.5 });
+    });
+
+    it('should calculate mg/m² doses and warn about large rounding changes', () => {
+      const result = pediatricDosingCalculator.calculateDose(
+        { weightKg: 10, heightCm: 75 },
+        { min: 100, unit: 'mg', basis: 'm2', dosageForm: 'tablet', strength: '250 mg' }
+      );
+
+      expect(result.bsa?.used).toBe('haycock');
+      expect(result.targetDose).toBeCloseTo(46.4);
+      expect(result.dispensable).toMatchObject({ quantity: 0.5, display: '1/2 tablet', dose: 125 });
+      expect(result.warnings).toEqual(expect.arrayContaining([expect.stringContaining('more than 10%')]));
+    });
+
+    it('should require height for BSA-based dosing', () => {
+      expect(() => pediatricDosingCalculator.calculateDose({ weightKg: 20 }, { min: 50, unit: 'mg', basis: 'm2' }))
+        .toThrow('Height is required');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import pharmacogenomicRules, { PgxResult } from '../../../utils/pharmacogenomics';
+
+const results: PgxResult[] = [
+  { gene: 'CYP2D6', phenotype: 'ultrarapid_metabolizer', diplotype: '*1/*1xN' },
+  { gene: 'CYP2C19', phenotype: 'poor_metabolizer', diplotype: '*2/*2' },
+  { gene: 'SLCO1B1', phenotype: 'normal_function' },
+  { gene: 'HLA-B*57:01', phenotype: 'positive' }
+];
+
+describe('PharmacogenomicRules', () => {
+  it('should normalise phenotypes and genes as written on lab reports', () => {
+    expect(pharmacogenomicRules.normalizePhenotype('PM')).toBe('poor_metabolizer');
+    expect(pharmacogenomicRules.normalizePhenotype('Ultrarapid Metabolizer')).toBe('ultrarapid_metabolizer');
+    expect(pharmacogenomicRules.normalizePhenotype('intermediate_metabolizer')).toBe('intermediate_metabolizer');
+    expect(pharmacogenomicRules.normalizePhenotype('Decreased function')).toBe('decreased_function');
+    expect(pharmacogenomicRules.normalizePhenotype('Non-carrier')).toBe('negative');
+    expect(pharmacogenomicRules.normalizePhenotype('slow')).toBeUndefined();
+
+    expect(pharmacogenomicRules.normalizeGene(' cyp2c19 ')).toBe('CYP2C19');
+    expect(pharmacogenomicRules.normalizeGene('HLA-B 5701')).toBe('HLA-B*57:01');
+  });
+
+  it('should match gene-drug rules by brand or generic name', () => {
+    const codeine = pharmacogenomicRules.findMatches({ name: 'Tylenol with Codeine', genericName: 'acetaminophen/codeine' }, results);
+    expect(codeine).toHaveLength(1);
+    expect(codeine[0]).toMatchObject({ gene: 'CYP2D6', action: 'avoid', severity: 'high' });
+    expect(codeine[0].alternatives).toContain('morphine');
+
+    const clopidogrel = pharmacogenomicRules.findMatches({ name: 'Plavix', genericName: 'Clopidogrel' }, results);
+    expect(clopidogrel[0]).toMatchObject({ gene: 'CYP2C19', action: 'alternative', diplotype: '*2/*2' });
+
+    expect(pharmacogenomicRules.findMatches({ name: 'Abacavir' }, results)[0].action).toBe('avoid');
+    // Normal SLCO1B1 function does not restrict simvastatin
+    expect(pharmacogenomicRules.findMatches({ name: 'Simvastatin' }, results)).toEqual([]);
+    expect(pharmacogenomicRules.findMatches({ name: 'Clopidogrel' }, [])).toEqual([]);
+  });
+
+  it('should describe only actionable phenotypes', () => {
+    expect(pharmacogenomicRules.describeActionable(results)).toEqual([
+      'CYP2D6 ultrarapid metabolizer (*1/*1xN)',
+      'CYP2C19 poor metabolizer (*2/*2)',
+      'HLA-B*57:01 positive'
+    ]);
+    expect(pharmacogenomicRules.affectedDrugs(results)).toEqual(expect.arrayContaining(['codeine', 'clopidogrel', 'abacavir']));
+    expect(pharmacogenomicRules.affectedDrugs(results)).not.toContain('simvastatin');
+  });
+});
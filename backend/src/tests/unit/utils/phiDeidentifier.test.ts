@@ -0,0 +1,50 @@
+import phiDeidentifier from '../../../utils/phiDeidentifier';
+import syntheticRecords from '../../fixtures/syntheticPatientRecords.json';
+
+describe('PhiDeidentifier', () => {
+  describe.each(syntheticRecords.map(record => [record.description, record] as const))('%s', (_description, record) => {
+    const { texts, tokens } = phiDeidentifier.deidentify([record.text]);
+
+    it('should remove every identifier', () => {
+      record.phi.forEach(value => expect(texts[0]).not.toContain(value));
+    });
+
+    it('should keep the clinical content', () => {
+      record.preserved.forEach(value => expect(texts[0]).toContain(value));
+    });
+
+    it('should restore the original text', () => {
+      expect(phiDeidentifier.reidentify(texts[0], tokens)).toBe(record.text);
+    });
+  });
+
+  it('should give the same value the same token across texts', () => {
+    const { texts, tokens, counts } = phiDeidentifier.deidentify([
+      'Patient: Maria Lopez, DOB 03/14/1968',
+      'Summarise the history of Maria Lopez. Lopez was last seen 2026-09-30.'
+    ]);
+
+    expect(texts).toEqual([
+      'Patient: [NAME_1], DOB [DATE_1]',
+      'Summarise the history of [NAME_1]. [NAME_2] was last seen [DATE_2].'
+    ]);
+    expect(tokens['[NAME_2]']).toBe('Lopez');
+    expect(counts).toEqual({ name: 2, date: 2 });
+  });
+
+  it('should only replace the requested categories', () => {
+    const { texts } = phiDeidentifier.deidentify(
+      ['Patient: Maria Lopez, email maria@example.com, seen 2026-09-30'],
+      ['email']
+    );
+
+    expect(texts[0]).toBe('Patient: Maria Lopez, email [EMAIL_1], seen 2026-09-30');
+  });
+
+  it('should restore tokens the model changed in case or spacing and leave unknown ones', () => {
+    const tokens = { '[NAME_1]': 'Maria Lopez' };
+
+    expect(phiDeidentifier.reidentify('[name_1] and [ NAME_1 ] but not [NAME_2]', tokens))
+      .toBe('Maria Lopez and Maria Lopez but not [NAME_2]');
+  });
+});
@@ -0,0 +1,69 @@
+import pregnancyLactationRisk from '../../../utils/pregnancyLactationRisk';
+import { InteractionSeverity } from '../../../types/medical';
+
+describe('PregnancyLactationRiskEngine', () => {
+  describe('assess', () => {
+    it('should apply trimester-specific risk from class rules', () => {
+      const lisinopril = { name: 'Lisinopril', pregnancyCategory: 'D' };
+
+      const first = pregnancyLactationRisk.assess(lisinopril, { isPregnant: true, gestationalAgeWeeks: 8 });
+      expect(first).toMatchObject({ source: 'class_rule', trimester: 'first', pregnancyRisk: 'use_with_caution' });
+      expect(first.severity).toBe(InteractionSeverity.MEDIUM);
+
+      const second = pregnancyLactationRisk.assess(lisinopril, { isPregnant: true, gestationalAgeWeeks: 20 });
+      expect(second.pregnancyRisk).toBe('contraindicated');
+      expect(second.severity).toBe(InteractionSeverity.HIGH);
+      expect(second.saferAlternatives).toEqual(['labetalol', 'nifedipine', 'methyldopa']);
+    });
+
+    it('should use the worst trimester when gestational age is unknown', () => {
+      const assessment = pregnancyLactationRisk.assess({ name: 'Ibuprofen' }, { isPregnant: true });
+
+      expect(assessment.trimester).toBeUndefined();
+      expect(assessment.pregnancyRisk).toBe('contraindicated');
+      expect(assessment.saferAlternatives).toEqual(['acetaminophen']);
+    });
+
+    it('should rate lactation compatibility separately from pregnancy', () => {
+      const warfarin = pregnancyLactationRisk.assess({ name: 'Warfarin' }, { isBreastfeeding: true });
+      expect(warfarin.lactation).toBe('compatible');
+      expect(warfarin.severity).toBeUndefined();
+      expect(warfarin.warnings).toEqual([]);
+
+      const codeine = pregnancyLactationRisk.assess({ name: 'Acetaminophen/Codeine' }, { isBreastfeeding: true });
+      expect(codeine.lactation).toBe('avoid');
+      expect(codeine.severity).toBe(InteractionSeverity.HIGH);
+    });
+
+    it('should prefer the medication record and fall back to the legacy letter', () => {
+      const recorded = pregnancyLactationRisk.assess(
+        {
+          name: 'Examplumab',
+          pregnancyCategory: 'X',
+          pregnancyLactation: {
+            trimesterRisk: { first: 'limited_data', second: 'limited_data', third: 'limited_data' },
+            pregnancySummary: 'Limited human data',
+            lactation: 'unknown',
+            lactationSummary: 'No data',
+            saferAlternatives: []
+          }
+        },
+        { isPregnant: true }
+      );
+      expect(recorded).toMatchObject({ source: 'medication_record', pregnancyRisk: 'limited_data' });
+
+      const legacy = pregnancyLactationRisk.assess({ name: 'Obscurol', pregnancyCategory: 'X' }, { isPregnant: true });
+      expect(legacy).toMatchObject({ source: 'legacy_category', pregnancyRisk: 'contraindicated' });
+    });
+  });
+
+  describe('riskScore', () => {
+    it('should rank compatible drugs below risky ones', () => {
+      const context = { isPregnant: true, gestationalAgeWeeks: 30 };
+      const acetaminophen = pregnancyLactationRisk.assess({ name: 'Acetaminophen' }, context);
+      const ibuprofen = pregnancyLactationRisk.assess({ name: 'Ibuprofen' }, context);
+
+      expect(pregnancyLactationRisk.riskScore(acetaminophen)).toBeLessThan(pregnancyLactationRisk.riskScore(ibuprofen));
+    });
+  });
+});
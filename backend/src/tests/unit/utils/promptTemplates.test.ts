@@ -0,0 +1,56 @@
+import promptTemplates, { PromptVariant } from '../../../utils/promptTemplates';
+
+describe('PromptTemplates', () => {
+  const template = 'Diagnosis: {{diagnosis}}\nSymptoms: {{ symptoms }}\nAge: {{age}}\n{{diagnosis}}';
+
+  it('should list placeholder names once, in order of first use', () => {
+    expect(promptTemplates.variablesOf(template, 'System: {{role}}', undefined))
+      .toEqual(['diagnosis', 'symptoms', 'age', 'role']);
+  });
+
+  it('should report placeholders without a value, allowing empty strings and zero', () => {
+    expect(promptTemplates.missingVariables(template, { diagnosis: '', symptoms: null, age: 0 }))
+      .toEqual(['symptoms']);
+  });
+
+  it('should render strings, numbers and objects', () => {
+    const rendered = promptTemplates.render('{{name}} is {{age}}: {{vitals}} {{missing}}.', {
+      name: 'Patient',
+      age: 42,
+      vitals: { pulse: 80 }
+    });
+
+    expect(rendered).toBe('Patient is 42: {\n  "pulse": 80\n} .');
+  });
+
+  describe('pickVariant', () => {
+    const variants: PromptVariant[] = [{ version: 1, weight: 50 }, { version: 2, weight: 50 }];
+
+    it('should keep a subject on the same variant', () => {
+      const first = promptTemplates.pickVariant(variants, 'experiment-1:patient-7');
+
+      for (let i = 0; i < 5; i++) {
+        expect(promptTemplates.pickVariant(variants, 'experiment-1:patient-7')).toBe(first);
+      }
+    });
+
+    it('should split subjects across variants roughly by weight', () => {
+      const counts: Record<number, number> = { 1: 0, 2: 0 };
+      for (let i = 0; i < 1000; i++) {
+        counts[promptTemplates.pickVariant(variants, `patient-${i}`)!.version]++;
+      }
+
+      expect(counts[1]).toBeGreaterThan(400);
+      expect(counts[2]).toBeGreaterThan(400);
+    });
+
+    it('should never pick a variant with zero weight', () => {
+      const weighted = [{ version: 1, weight: 0 }, { version: 2, weight: 1 }];
+
+      for (let i = 0; i < 50; i++) {
+        expect(promptTemplates.pickVariant(weighted, `patient-${i}`)?.version).toBe(2);
+      }
+      expect(promptTemplates.pickVariant([{ version: 1, weight: 0 }])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import reminderScheduleCalculator from '../../../utils/reminderSchedule';
+import sigParser from '../../../utils/sigParser';
+
+describe('ReminderScheduleCalculator', () => {
+  const timeZone = 'America/New_York';
+
+  it('should keep local dose times across DST changes', () => {
+    const occurrences = reminderScheduleCalculator.occurrences(
+      { timeOfDay: ['08:00', '20:00'], startDate: new Date('2026-10-01T00:00:00Z'), timeZone },
+      new Date('2026-10-31T12:00:00Z'),
+      new Date('2026-11-02T12:00:00Z')
+    );
+
+    expect(occurrences.map(occurrence => occurrence.scheduledFor.toISOString())).toEqual([
+      '2026-10-31T12:00:00.000Z', // 08:00 EDT
+      '2026-11-01T00:00:00.000Z', // 20:00 EDT
+      '2026-11-01T13:00:00.000Z', // 08:00 EST after fall-back
+      '2026-11-02T01:00:00.000Z'
+    ]);
+    expect(occurrences[2]).toMatchObject({ localDate: '2026-11-01', localTime: '08:00' });
+  });
+
+  it('should move times in a spring-forward gap forward and fire repeated times once', () => {
+    // 02:30 does not exist on 8 March 2026 and becomes 03:30 EDT
+    expect(reminderScheduleCalculator.toUtc('2026-03-08', '02:30', timeZone).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    // 01:30 happens twice on 1 November 2026; the first (EDT) is used
+    expect(reminderScheduleCalculator.toUtc('2026-11-01', '01:30', timeZone).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(reminderScheduleCalculator.toLocal(new Date('2026-11-01T06:30:00Z'), timeZone)).toEqual({ date: '2026-11-01', time: '01:30' });
+  });
+
+  it('should follow every-other-day sigs and skip as-needed ones', () => {
+    const startDate = new Date('2026-10-19T04:00:00Z'); // midnight local
+    const from = new Date('2026-10-19T00:00:00Z');
+    const to = new Date('2026-10-25T00:00:00Z');
+
+    const everyOtherDay = reminderScheduleCalculator.occurrences(
+      { sig: sigParser.parse('1 tab po qod'), timeOfDay: ['08:00'], startDate, timeZone },
+      from,
+      to
+    );
+    expect(everyOtherDay.map(occurrence => occurrence.localDate)).toEqual(['2026-10-19', '2026-10-21', '2026-10-23']);
+
+    const asNeeded = reminderScheduleCalculator.occurrences(
+      { sig: sigParser.parse('1 tab po q6h prn pain'), timeOfDay: ['08:00'], startDate, timeZone },
+      from,
+      to
+    );
+    expect(asNeeded).toEqual([]);
+    expect(reminderScheduleCalculator.isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
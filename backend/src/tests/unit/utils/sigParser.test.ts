@@ -0,0 +1,82 @@
+import sigParser from '../../../utils/sigParser';
+
+describe('SigParser', () => {
+  describe('parse', () => {
+    it('should parse a complete as-needed sig', () => {
+      const sig = sigParser.parse('Take 1-2 tabs PO q4-6h PRN pain, max 8 tabs/day x 5 days');
+
+      expect(sig).toMatchObject({
+        dose: 1,
+        doseMax: 2,
+        unit: 'tablet',
+        route: 'oral',
+        frequency: { code: 'QH', intervalHours: 4, intervalHoursMax: 6 },
+        asNeeded: true,
+        maxPerDay: { amount: 8, unit: 'tablet' },
+        duration: { value: 5, unit: 'day', days: 5 },
+        indication: 'pain'
+      });
+      expect(sig.warnings).toEqual([]);
+    });
+
+    it('should recognise common frequency wording', () => {
+      expect(sigParser.fromParts('500 mg', 'twice daily').frequency).toMatchObject({ code: 'BID', timesPerDay: 2 });
+      expect(sigParser.fromParts('10 mg', 'three times a day').frequency).toMatchObject({ code: 'TID', timesPerDay: 3 });
+      expect(sigParser.fromParts('20 mg', 'at bedtime').frequency?.code).toBe('QHS');
+      expect(sigParser.fromParts('5 mg', 'every other day').frequency?.code).toBe('QOD');
+      expect(sigParser.parse('Inhale 2 puffs qid').frequency?.code).toBe('QID');
+    });
+
+    it('should flag directions it cannot understand', () => {
+      const sig = sigParser.parse('use as directed');
+      expect(sig.warnings).toEqual(['Frequency not recognized', 'Dose not recognized']);
+    });
+  });
+
+  describe('render', () => {
+    it('should render patient-friendly directions', () => {
+      const sig = sigParser.parse('1-2 tabs po q4-6h prn pain max 8 tabs/day x 5 days');
+
+      expect(sigParser.render(sig)).toBe(
+        'Take 1 to 2 tablets by mouth every 4 to 6 hours as needed for pain for 5 days. ' +
+        'Do not take more than 8 tablets in 24 hours.'
+      );
+      expect(sigParser.render(sigParser.parse('Inhale 2 puffs bid'))).toBe('Inhale 2 puffs twice a day.');
+    });
+  });
+
+  describe('calculateDailyDose', () => {
+    it('should multiply dose by frequency', () => {
+      expect(sigParser.calculateDailyDose(sigParser.fromParts('500 mg', 'every 8 hours'))).toEqual({ amount: 1500, unit: 'mg' });
+      expect(sigParser.calculateDailyDose(sigParser.fromParts('500 mg', 'twice daily'), false)).toEqual({ amount: 1000, unit: 'mg' });
+    });
+
+    it('should cap the daily amount at the stated maximum', () => {
+      const sig = sigParser.parse('1-2 tabs q4h prn, max 8 tablets per day');
+      expect(sigParser.calculateDailyDose(sig)).toEqual({ amount: 8, unit: 'tablet' });
+      expect(sigParser.getDosesPerDay(sigParser.parse('1 tab q4h prn, max 4 doses per day'))).toBe(4);
+    });
+  });
+
+  describe('getScheduleTimes', () => {
+    it('should derive default dose times from the frequency', () => {
+      expect(sigParser.getScheduleTimes(sigParser.fromParts('500 mg', 'bid'))).toEqual(['08:00', '20:00']);
+      expect(sigParser.getScheduleTimes(sigParser.fromParts('500 mg', 'every 8 hours'))).toEqual(['08:00', '16:00', '00:00']);
+      expect(sigParser.getScheduleTimes(sigParser.parse('1 tab prn nausea'))).toEqual([]);
+    });
+
+    it('should leave as-needed interval directions unscheduled', () => {
+      expect(sigParser.getScheduleTimes(sigParser.parse('2 puffs every 4 hours as needed for wheezing'))).toEqual([]);
+      expect(sigParser.getScheduleTimes(sigParser.parse('1 tab q4-6h prn pain'))).toEqual([]);
+    });
+
+    it('should dose every other day and weekly directions on their interval', () => {
+      const everyOtherDay = sigParser.fromParts('5 mg', 'every other day');
+      const weekly = sigParser.parse('70 mg po weekly');
+      expect(sigParser.getScheduleTimes(everyOtherDay)).toEqual(['08:00']);
+      expect(sigParser.getIntervalDays(everyOtherDay)).toBe(2);
+      expect(sigParser.getIntervalDays(weekly)).toBe(7);
+      expect(sigParser.getIntervalDays(sigParser.fromParts('500 mg', 'bid'))).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import signalDetector, { PharmacovigilanceReport } from '../../../utils/signalDetection';
+
+const report = (medications: string[], events: string[], daysAgo: number, asOf: Date): PharmacovigilanceReport => ({
+  medications,
+  events,
+  reportDate: new Date(asOf.getTime() - daysAgo * 24 * 60 * 60 * 1000)
+});
+
+const repeat = (count: number, factory: (index: number) => PharmacovigilanceReport) =>
+  Array.from({ length: count }, (_, index) => factory(index));
+
+describe('SignalDetector', () => {
+  const asOf = new Date('2026-10-19T00:00:00Z');
+
+  describe('computeDisproportionality', () => {
+    it('should compute PRR and ROR with confidence intervals', () => {
+      // a = 10, b = 20, c = 40, d = 930
+      const reports = [
+        ...repeat(10, () => report(['Drug X'], ['Rash'], 1, asOf)),
+        ...repeat(20, () => report(['drug x'], ['Headache'], 1, asOf)),
+        ...repeat(40, () => report(['Other'], ['rash'], 1, asOf)),
+        ...repeat(930, () => report(['Other'], ['Nausea'], 1, asOf))
+      ];
+
+      const stats = signalDetector.computeDisproportionality(reports).find(s => s.drug === 'drug x' && s.event === 'rash');
+
+      expect(stats).toMatchObject({ a: 10, b: 20, c: 40, d: 930 });
+      expect(stats!.prr.value).toBeCloseTo(8.083, 3);
+      expect(stats!.ror.value).toBeCloseTo(11.625, 3);
+      expect(stats!.ror.lower).toBeGreaterThan(1);
+      expect(stats!.prr.lower).toBeLessThan(stats!.prr.value);
+      expect(stats!.isSignal).toBe(true);
+    });
+
+    it('should not flag pairs below the case threshold', () => {
+      const reports = [
+        ...repeat(2, () => report(['Rare'], ['Alopecia'], 1, asOf)),
+        ...repeat(50, () => report(['Other'], ['Nausea'], 1, asOf))
+      ];
+
+      expect(signalDetector.computeDisproportionality(reports)).toEqual(
+        expect.not.arrayContaining([expect.objectContaining({ drug: 'rare' })])
+      );
+    });
+  });
+
+  describe('detectSignals', () => {
+    it('should flag signals that are new in the latest window as emerging', () => {
+      const background = repeat(200, index => report(['Other'], ['Nausea'], index % 150, asOf));
+      const reports = [
+        ...background,
+        // Established signal reported steadily across all windows
+        ...repeat(20, index => report(['Old Drug'], ['Cough'], index * 7, asOf)),
+        // New signal only in the last three weeks
+        ...repeat(5, index => report(['New Drug'], ['Hepatotoxicity'], index * 4, asOf))
+      ];
+
+      const signals = signalDetector.detectSignals(reports, { asOf, windowDays: 90, stepDays: 30, windowCount: 3 });
+      const byDrug = Object.fromEntries(signals.map(signal => [signal.current.drug, signal]));
+
+      expect(byDrug['new drug'].emerging).toBe(true);
+      expect(byDrug['new drug'].trend.map(window => window.cases)).toEqual([0, 0, 5]);
+      expect(byDrug['old drug'].emerging).toBe(false);
+      expect(signals[0].current.drug).toBe('new drug');
+    });
+
+    it('should apply the case threshold to the current window', () => {
+      const reports = [
+        ...repeat(200, index => report(['Other'], ['Nausea'], index % 150, asOf)),
+        ...repeat(2, index => report(['Drug X'], ['Rash'], index * 4, asOf))
+      ];
+
+      const drugX = (minCases?: number) => signalDetector.detectSignals(reports, { asOf, minCases })
+        .find(signal => signal.current.drug === 'drug x');
+
+      expect(drugX()).toBeUndefined();
+      expect(drugX(2)?.current).toMatchObject({ event: 'rash', a: 2, isSignal: true });
+    });
+  });
+});
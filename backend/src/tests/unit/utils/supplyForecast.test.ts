@@ -0,0 +1,58 @@
+import supplyForecaster from '../../../utils/supplyForecast';
+import sigParser from '../../../utils/sigParser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SupplyForecaster', () => {
+  const asOf = new Date('2026-10-19T08:00:00Z');
+  const daysAgo = (days: number) => new Date(asOf.getTime() - days * DAY_MS);
+
+  it('should project run-out from the schedule when no doses are recorded', () => {
+    const forecast = supplyForecaster.forecast({
+      sig: sigParser.parse('1 tab po bid'),
+      dispenses: [{ dispensedAt: daysAgo(10), quantity: 60 }],
+      refillRemindDays: 7,
+      asOf
+    });
+
+    expect(forecast).toMatchObject({ unitsPerDay: 2, unitsUsed: 20, unitsOnHand: 40, daysRemaining: 20, status: 'ok', basis: 'schedule' });
+    expect(forecast.runOutDate).toEqual(new Date(asOf.getTime() + 20 * DAY_MS));
+    expect(forecast.refillDueDate).toEqual(new Date(asOf.getTime() + 13 * DAY_MS));
+  });
+
+  it('should count recorded doses taken and flag refills within the reminder window', () => {
+    // Two tablets per dose, only 5 of 8 recorded doses taken
+    const events = Array.from({ length: 8 }, (_, index) => ({
+      timestamp: new Date(daysAgo(4).getTime() + index * 12 * 60 * 60 * 1000),
+      taken: index % 3 !== 0
+    }));
+    const forecast = supplyForecaster.forecast({
+      sig: sigParser.parse('2 tabs po bid'),
+      dispenses: [{ dispensedAt: daysAgo(5), quantity: 24 }],
+      events,
+      asOf
+    });
+
+    expect(forecast.unitsPerDay).toBe(4);
+    expect(forecast.unitsUsed).toBe(12);
+    expect(forecast.unitsOnHand).toBe(12);
+    expect(forecast).toMatchObject({ daysRemaining: 3, status: 'refill_due', basis: 'events' });
+  });
+
+  it('should calculate MPR and PDC with early refills carried forward', () => {
+    const metrics = supplyForecaster.possession(
+      [
+        { dispensedAt: daysAgo(90), quantity: 30, daysSupply: 30 },
+        { dispensedAt: daysAgo(65), quantity: 30, daysSupply: 30 }, // 5 days early
+        { dispensedAt: daysAgo(20), quantity: 30, daysSupply: 30 }
+      ],
+      daysAgo(90),
+      asOf
+    );
+
+    expect(metrics.mpr).toBe(1);
+    // Covered: days 0-60, then 70-90 of the 90-day period
+    expect(metrics.daysCovered).toBe(80);
+    expect(metrics.pdc).toBe(0.89);
+  });
+});
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import webPushSender from '../../../utils/webPush';
+
+const toBase64Url = (value: Buffer) => value.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Decrypts an aes128gcm body as the browser would (RFC 8291)
+ */
+const decrypt = (body: Buffer, client: crypto.ECDH, authSecret: Buffer): string => {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), client.getPublicKey(), serverPublicKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', client.computeSecret(serverPublicKey), authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  expect(padded[padded.length - 1]).toBe(2);
+  return padded.subarray(0, padded.length - 1).toString('utf8');
+};
+
+describe('WebPushSender', () => {
+  it('should encrypt payloads that the subscribing browser can decrypt', () => {
+    const client = crypto.createECDH('prime256v1');
+    client.generateKeys();
+    const authSecret = crypto.randomBytes(16);
+    const subscription = {
+      endpoint: 'https://push.example.com/send/abc',
+      keys: { p256dh: toBase64Url(client.getPublicKey()), auth: toBase64Url(authSecret) }
+    };
+    const payload = JSON.stringify({ type: 'medication_reminder', reminderId: '1', body: 'Time to take metformin (500 mg)' });
+
+    const body = webPushSender.encrypt(subscription, payload);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(body.readUInt8(20)).toBe(65);
+    expect(decrypt(body, client, authSecret)).toBe(payload);
+  });
+
+  it('should reject payloads too large for a single record', () => {
+    const client = crypto.createECDH('prime256v1');
+    client.generateKeys();
+    const subscription = {
+      endpoint: 'https://push.example.com/send/abc',
+      keys: { p256dh: toBase64Url(client.getPublicKey()), auth: toBase64Url(crypto.randomBytes(16)) }
+    };
+
+    expect(() => webPushSender.encrypt(subscription, 'x'.repeat(4000))).toThrow('Push payload is too large');
+  });
+});
@@ -0,0 +1,19 @@
+export interface DiagnosisInput {
+    primarySymptoms: string[];
+    duration: string;
+    severity: string;
+    additionalInfo: string;
+    medicalHistory: string;
+    currentMedications: string[];
+}
+
+export interface DiagnosisOutput {
+    possibleDiagnoses: string[];
+    confidenceLevels: number[]; // 0-1, one per possible diagnosis
+    recommendations: string[];
+    warningSignals: string[];
+    requiresImmediate: boolean;
+    disclaimer: string;
+    timestamp: Date;
+    modelVersion: string;
+}
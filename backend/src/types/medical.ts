@@ -16,4 +16,37 @@ export interface SymptomAnalysisInput {
         allergies: string[];
     };
     additionalNotes: string;
-} 
\ No newline at end of file
+} 
+
+export interface Treatment {
+    name: string;
+    type: 'medication' | 'procedure' | 'therapy' | 'lifestyle';
+    description: string;
+}
+
+export interface Diagnosis {
+    condition: string;
+    confidence: number; // 0-1
+    reasoning: string;
+    suggestedTreatments: Treatment[];
+    suggestedMedications: string[];
+    // Added from knowledge sources after the AI analysis
+    treatmentGuidelines?: any;
+    researchReferences?: any;
+    drugInteractions?: any;
+}
+
+export interface SymptomAnalysisOutput {
+    diagnoses: Diagnosis[];
+    recommendedTests: string[];
+    redFlags: string[];
+    lifestyleRecommendations: string[];
+    followUpRecommendations: string[];
+    riskFactors: string[];
+    urgencyLevel: 'routine' | 'urgent' | 'immediate';
+}
+export enum InteractionSeverity {
+    HIGH = 'high',
+    MEDIUM = 'medium',
+    LOW = 'low'
+}
@@ -0,0 +1,210 @@
+/**
+ * Escalation stages, in order
+ */
+export type OutreachStage = 'patient_reminder' | 'nurse_task' | 'doctor_alert';
+
+export type OutreachTriggerType = 'consecutive_missed' | 'falling_trend' | 'missed_pattern';
+
+export type OutreachTriggerSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/**
+ * Missed-dose pattern as returned by MedicationAdherenceService
+ */
+export interface MissedDosePattern {
+  dayOfWeek?: string;
+  timeOfDay?: string;
+  frequency?: number;
+}
+
+/**
+ * Adherence signals for one patient medication
+ */
+export interface AdherenceSignals {
+  consecutiveMissed: number;
+  recentAdherence?: number; // taken rate over the most recent period
+  previousAdherence?: number; // taken rate over the period before it
+  missedPatterns: MissedDosePattern[];
+}
+
+/**
+ * A condition that warrants outreach
+ */
+export interface OutreachTrigger {
+  type: OutreachTriggerType;
+  severity: OutreachTriggerSeverity;
+  detail: string;
+}
+
+/**
+ * Outreach already performed in an active campaign
+ */
+export interface OutreachCampaignState {
+  currentStage: OutreachStage;
+  lastActionAt: Date;
+}
+
+/**
+ * What the engine recommends for a patient medication:
+ * - none: no trigger and no active campaign
+ * - resolve: the active campaign's triggers have cleared
+ * - wait: the current stage is still in its cooldown
+ * - escalate: perform the given stage now
+ */
+export interface OutreachDecision {
+  action: 'none' | 'resolve' | 'wait' | 'escalate';
+  triggers: OutreachTrigger[];
+  stage?: OutreachStage;
+  nextEligibleAt?: Date;
+  reason: string;
+}
+
+/**
+ * Trigger thresholds and per-stage cooldowns
+ */
+export interface OutreachRuleSettings {
+  consecutiveMissed: number;
+  criticalConsecutiveMissed: number;
+  fallingTrendDrop: number; // minimum fall in taken rate between periods
+  fallingTrendCeiling: number; // recent rate must also be below this
+  criticalAdherence: number;
+  cooldownHours: Record<OutreachStage, number>;
+}
+
+export const OUTREACH_STAGES: OutreachStage[] = ['patient_reminder', 'nurse_task', 'doctor_alert'];
+
+// Consecutive-miss thresholds match the MISSED_DOSE and CRITICAL_MISSED_DOSE adherence alerts
+const DEFAULT_SETTINGS: OutreachRuleSettings = {
+  consecutiveMissed: 2,
+  criticalConsecutiveMissed: 3,
+  fallingTrendDrop: 0.15,
+  fallingTrendCeiling: 0.8,
+  criticalAdherence: 0.5,
+  cooldownHours: {
+    patient_reminder: 24,
+    nurse_task: 72,
+    doctor_alert: 168
+  }
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Rules engine for adherence outreach: turns adherence signals into triggers and decides
+ * which escalation stage, if any, is due given the campaign so far
+ */
+export class AdherenceOutreachRules {
+  private static instance: AdherenceOutreachRules;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AdherenceOutreachRules {
+    if (!AdherenceOutreachRules.instance) {
+      AdherenceOutreachRules.instance = new AdherenceOutreachRules();
+    }
+    return AdherenceOutreachRules.instance;
+  }
+
+  /**
+   * Evaluate the trigger conditions
+   */
+  public detectTriggers(signals: AdherenceSignals, overrides: Partial<OutreachRuleSettings> = {}): OutreachTrigger[] {
+    const settings = { ...DEFAULT_SETTINGS, ...overrides };
+    const triggers: OutreachTrigger[] = [];
+
+    if (signals.consecutiveMissed >= settings.consecutiveMissed) {
+      triggers.push({
+        type: 'consecutive_missed',
+        severity: signals.consecutiveMissed >= settings.criticalConsecutiveMissed ? 'HIGH' : 'MEDIUM',
+        detail: `${signals.consecutiveMissed} consecutive doses missed`
+      });
+    }
+
+    const { recentAdherence, previousAdherence } = signals;
+    if (
+      recentAdherence !== undefined &&
+      previousAdherence !== undefined &&
+      previousAdherence - recentAdherence >= settings.fallingTrendDrop &&
+      recentAdherence < settings.fallingTrendCeiling
+    ) {
+      triggers.push({
+        type: 'falling_trend',
+        severity: recentAdherence < settings.criticalAdherence ? 'HIGH' : 'MEDIUM',
+        detail: `Adherence fell from ${this.percent(previousAdherence)} to ${this.percent(recentAdherence)}`
+      });
+    }
+
+    if (signals.missedPatterns.length > 0) {
+      const clusters = signals.missedPatterns.map(pattern =>
+        pattern.dayOfWeek ? `on ${pattern.dayOfWeek}s` : `in the ${pattern.timeOfDay}`
+      );
+      triggers.push({
+        type: 'missed_pattern',
+        severity: 'LOW',
+        detail: `Missed doses cluster ${clusters.join(' and ')}`
+      });
+    }
+
+    return triggers;
+  }
+
+  /**
+   * Decide the next outreach step. New campaigns start with a patient reminder, or with a
+   * nurse task when any trigger is high severity. A stage escalates to the next once its
+   * cooldown has passed and triggers persist; the final stage repeats after its cooldown.
+   */
+  public evaluate(
+    signals: AdherenceSignals,
+    campaign: OutreachCampaignState | undefined,
+    now: Date = new Date(),
+    overrides: Partial<OutreachRuleSettings> = {}
+  ): OutreachDecision {
+    const settings = { ...DEFAULT_SETTINGS, ...overrides };
+    const triggers = this.detectTriggers(signals, settings);
+
+    if (triggers.length === 0) {
+      return campaign
+        ? { action: 'resolve', triggers, reason: 'Adherence triggers have cleared' }
+        : { action: 'none', triggers, reason: 'No outreach triggers' };
+    }
+
+    if (!campaign) {
+      const stage: OutreachStage = triggers.some(trigger => trigger.severity === 'HIGH') ? 'nurse_task' : 'patient_reminder';
+      return { action: 'escalate', triggers, stage, reason: `Starting outreach: ${this.describe(triggers)}` };
+    }
+
+    const nextEligibleAt = new Date(
+      campaign.lastActionAt.getTime() + settings.cooldownHours[campaign.currentStage] * HOUR_MS
+    );
+    if (now < nextEligibleAt) {
+      return {
+        action: 'wait',
+        triggers,
+        stage: campaign.currentStage,
+        nextEligibleAt,
+        reason: `${campaign.currentStage} is in its cooldown`
+      };
+    }
+
+    const index = OUTREACH_STAGES.indexOf(campaign.currentStage);
+    const stage = OUTREACH_STAGES[Math.min(index + 1, OUTREACH_STAGES.length - 1)];
+    return {
+      action: 'escalate',
+      triggers,
+      stage,
+      reason: `${stage === campaign.currentStage ? 'Repeating' : 'Escalating to'} ${stage}: ${this.describe(triggers)}`
+    };
+  }
+
+  private describe(triggers: OutreachTrigger[]): string {
+    return triggers.map(trigger => trigger.detail).join('; ');
+  }
+
+  private percent(rate: number): string {
+    return `${Math.round(rate * 100)}%`;
+  }
+}
+
+export default AdherenceOutreachRules.getInstance();
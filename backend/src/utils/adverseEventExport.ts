@@ -0,0 +1,537 @@
+import pdfReportRenderer, { PdfReportDocument } from './pdfReport';
+
+export type AdverseEventExportFormat = 'e2b_xml' | 'medwatch_pdf';
+
+/**
+ * How much patient and reporter detail an export keeps:
+ * - none: full detail for internal use
+ * - limited: no patient initials, birth date or contact details; ages and dates kept (HIPAA limited data set)
+ * - safe_harbor: no names, contact details or full dates; ages over 89 grouped (HIPAA Safe Harbor)
+ */
+export type DeidentificationLevel = 'none' | 'limited' | 'safe_harbor';
+
+export type ReporterQualification = 'physician' | 'pharmacist' | 'other_health_professional' | 'consumer';
+
+export type DrugRole = 'suspect' | 'concomitant' | 'interacting';
+
+/**
+ * A reported safety issue as stored by the safety monitor
+ */
+export interface AdverseEventIssue {
+  id: string;
+  medications: string[];
+  issueType: string;
+  severity: string;
+  description: string;
+  symptoms: string[];
+  reportDate: Date;
+  status: string;
+  resolution?: string;
+}
+
+/**
+ * Source data for an individual case safety report
+ */
+export interface AdverseEventCaseInput {
+  issue: AdverseEventIssue;
+  safetyReportId: string;
+  version: number;
+  sender: { organization: string; country?: string };
+  patient?: {
+    firstName?: string;
+    lastName?: string;
+    dateOfBirth?: Date;
+    sex?: 'male' | 'female' | 'other';
+    weightKg?: number;
+    heightCm?: number;
+    conditions?: string[];
+    medications?: Array<{ name: string; dosage?: string; frequency?: string; startDate?: Date; endDate?: Date }>;
+  };
+  reporter?: {
+    name?: string;
+    email?: string;
+    qualification?: ReporterQualification;
+    organization?: string;
+    country?: string;
+  };
+  createdAt?: Date;
+}
+
+/**
+ * A drug in the case
+ */
+export interface AdverseEventDrug {
+  name: string;
+  role: DrugRole;
+  dosageText?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Normalized, de-identified individual case safety report
+ */
+export interface AdverseEventCase {
+  safetyReportId: string;
+  version: number;
+  deidentification: DeidentificationLevel;
+  createdAt: string;
+  receiptDate: string;
+  serious: boolean;
+  seriousness: { lifeThreatening: boolean; otherMedicallyImportant: boolean };
+  sender: { organization: string; country?: string };
+  reporter: {
+    name?: string;
+    email?: string;
+    qualification?: ReporterQualification;
+    organization?: string;
+    country?: string;
+  };
+  patient: {
+    initials?: string;
+    birthDate?: string;
+    age?: { value: number; unit: 'year' } | { group: '90+' };
+    sex?: 'male' | 'female';
+    weightKg?: number;
+    heightCm?: number;
+    medicalHistory: string[];
+  };
+  reactions: Array<{ term: string; outcome: 'recovered' | 'unknown' }>;
+  drugs: AdverseEventDrug[];
+  issueType: string;
+  narrative: string;
+}
+
+/**
+ * A problem that blocks or weakens an export
+ */
+export interface ExportValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Validation result for an export format
+ */
+export interface ExportValidationResult {
+  valid: boolean;
+  errors: ExportValidationIssue[];
+  warnings: ExportValidationIssue[];
+}
+
+// E2B(R3) code lists
+const QUALIFICATION_CODES: Record<ReporterQualification, string> = {
+  physician: '1',
+  pharmacist: '2',
+  other_health_professional: '3',
+  consumer: '5'
+};
+const DRUG_ROLE_CODES: Record<DrugRole, string> = { suspect: '1', concomitant: '2', interacting: '3' };
+const OUTCOME_CODES = { recovered: '1', unknown: '0' };
+const SEX_CODES = { male: '1', female: '2' };
+
+const QUALIFICATION_LABELS: Record<ReporterQualification, string> = {
+  physician: 'Physician',
+  pharmacist: 'Pharmacist',
+  other_health_professional: 'Other health professional',
+  consumer: 'Consumer or patient'
+};
+
+/**
+ * Builds individual case safety reports from safety issues and renders them as
+ * ICH E2B(R3)-style XML or a MedWatch (FDA 3500)-style printable form
+ */
+export class AdverseEventExporter {
+  private static instance: AdverseEventExporter;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AdverseEventExporter {
+    if (!AdverseEventExporter.instance) {
+      AdverseEventExporter.instance = new AdverseEventExporter();
+    }
+    return AdverseEventExporter.instance;
+  }
+
+  /**
+   * Build a case from a safety issue, applying the requested de-identification
+   */
+  public buildCase(input: AdverseEventCaseInput, deidentification: DeidentificationLevel = 'safe_harbor'): AdverseEventCase {
+    const { issue, patient, reporter } = input;
+    const createdAt = input.createdAt || new Date();
+    const safeHarbor = deidentification === 'safe_harbor';
+    const suspectNames = new Set(issue.medications.map(name => name.toLowerCase()));
+    const role: DrugRole = issue.issueType === 'interaction' && issue.medications.length > 1 ? 'interacting' : 'suspect';
+
+    const patientMedications = patient?.medications || [];
+    const dosageFor = (name: string) => {
+      const med = patientMedications.find(m => m.name.toLowerCase() === name.toLowerCase());
+      return med ? { dosageText: [med.dosage, med.frequency].filter(Boolean).join(' ') || undefined, med } : undefined;
+    };
+
+    const drugs: AdverseEventDrug[] = [
+      ...issue.medications.map(name => {
+        const match = dosageFor(name);
+        return {
+          name,
+          role,
+          dosageText: match?.dosageText,
+          startDate: this.formatDate(match?.med.startDate, deidentification),
+          endDate: this.formatDate(match?.med.endDate, deidentification)
+        };
+      }),
+      ...patientMedications
+        .filter(med => !suspectNames.has(med.name.toLowerCase()))
+        .map(med => ({
+          name: med.name,
+          role: 'concomitant' as DrugRole,
+          dosageText: [med.dosage, med.frequency].filter(Boolean).join(' ') || undefined,
+          startDate: this.formatDate(med.startDate, deidentification),
+          endDate: this.formatDate(med.endDate, deidentification)
+        }))
+    ];
+
+    const ageYears = patient?.dateOfBirth ? this.ageAt(patient.dateOfBirth, issue.reportDate) : undefined;
+    const lifeThreatening = issue.severity === 'life_threatening';
+    const otherMedicallyImportant = issue.severity === 'severe';
+    const outcome = issue.status === 'resolved' ? 'recovered' : 'unknown';
+    const reactionTerms = issue.symptoms.length > 0 ? issue.symptoms : [issue.description];
+
+    return {
+      safetyReportId: input.safetyReportId,
+      version: input.version,
+      deidentification,
+      createdAt: this.formatDate(createdAt, 'none') as string,
+      receiptDate: this.formatDate(issue.reportDate, deidentification) as string,
+      serious: lifeThreatening || otherMedicallyImportant,
+      seriousness: { lifeThreatening, otherMedicallyImportant },
+      sender: input.sender,
+      reporter: {
+        name: safeHarbor ? undefined : reporter?.name,
+        email: deidentification === 'none' ? reporter?.email : undefined,
+        qualification: reporter?.qualification,
+        organization: reporter?.organization,
+        country: reporter?.country
+      },
+      patient: {
+        initials: deidentification === 'none' ? this.initials(patient?.firstName, patient?.lastName) : undefined,
+        birthDate: deidentification === 'none' ? this.formatDate(patient?.dateOfBirth, 'none') : undefined,
+        age: ageYears === undefined
+          ? undefined
+          : safeHarbor && ageYears > 89 ? { group: '90+' } : { value: ageYears, unit: 'year' },
+        sex: patient?.sex === 'male' || patient?.sex === 'female' ? patient.sex : undefined,
+        weightKg: patient?.weightKg,
+        heightCm: patient?.heightCm,
+        medicalHistory: patient?.conditions || []
+      },
+      reactions: reactionTerms.map(term => ({ term, outcome })),
+      drugs,
+      issueType: issue.issueType,
+      narrative: this.scrubNarrative(
+        [issue.description, issue.resolution ? `Outcome: ${issue.resolution}` : ''].filter(Boolean).join('\n'),
+        deidentification,
+        patient
+      )
+    };
+  }
+
+  /**
+   * Check a case against the minimum criteria for a valid report in the given format
+   */
+  public validate(caseData: AdverseEventCase, format: AdverseEventExportFormat): ExportValidationResult {
+    const errors: ExportValidationIssue[] = [];
+    const warnings: ExportValidationIssue[] = [];
+    const { patient, reporter } = caseData;
+
+    if (!caseData.safetyReportId) {
+      errors.push({ field: 'safetyReportId', message: 'Safety report identifier is required' });
+    }
+    if (!caseData.receiptDate) {
+      errors.push({ field: 'receiptDate', message: 'Date the report was received is required' });
+    }
+
+    // ICH minimum criteria: identifiable patient, identifiable reporter, suspect drug and reaction
+    if (!patient.initials && !patient.age && !patient.sex && !patient.birthDate) {
+      errors.push({ field: 'patient', message: 'An identifiable patient (initials, age or sex) is required' });
+    }
+    if (!reporter.qualification && !reporter.name) {
+      errors.push({ field: 'reporter', message: 'An identifiable reporter (name or qualification) is required' });
+    }
+    if (!caseData.drugs.some(drug => drug.role !== 'concomitant')) {
+      errors.push({ field: 'drugs', message: 'At least one suspect or interacting drug is required' });
+    }
+    if (caseData.reactions.length === 0 || caseData.reactions.some(reaction => !reaction.term.trim())) {
+      errors.push({ field: 'reactions', message: 'At least one described reaction is required' });
+    }
+    if (!caseData.narrative.trim()) {
+      errors.push({ field: 'narrative', message: 'A case narrative is required' });
+    }
+
+    if (!patient.sex) {
+      warnings.push({ field: 'patient.sex', message: 'Patient sex is not recorded' });
+    }
+    if (!patient.age) {
+      warnings.push({ field: 'patient.age', message: 'Patient age is not recorded' });
+    }
+    if (caseData.drugs.some(drug => drug.role !== 'concomitant' && !drug.dosageText)) {
+      warnings.push({ field: 'drugs.dosageText', message: 'Dosage is missing for one or more suspect drugs' });
+    }
+    if (format === 'medwatch_pdf' && !reporter.name && caseData.deidentification !== 'safe_harbor') {
+      warnings.push({ field: 'reporter.name', message: 'MedWatch forms normally include the reporter name' });
+    }
+
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Render a case as ICH E2B(R3)-style XML. Element names are descriptive; the e2b
+   * attribute carries the corresponding E2B(R3) data element.
+   */
+  public toE2bXml(caseData: AdverseEventCase): string {
+    const { patient, reporter } = caseData;
+    const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    let depth = 0;
+    const open = (tag: string, e2b?: string) => {
+      lines.push(`${'  '.repeat(depth)}<${tag}${e2b ? ` e2b="${e2b}"` : ''}>`);
+      depth++;
+    };
+    const close = (tag: string) => {
+      depth--;
+      lines.push(`${'  '.repeat(depth)}</${tag}>`);
+    };
+    // Masked values are written as empty elements with an HL7 null flavor
+    const leaf = (tag: string, e2b: string, value: string | number | undefined, masked = false) => {
+      const indent = '  '.repeat(depth);
+      if (value === undefined || value === '') {
+        if (masked) lines.push(`${indent}<${tag} e2b="${e2b}" nullFlavor="MSK"/>`);
+        return;
+      }
+      lines.push(`${indent}<${tag} e2b="${e2b}">${this.escapeXml(String(value))}</${tag}>`);
+    };
+    const masked = caseData.deidentification !== 'none';
+
+    open('ichicsr');
+    leaf('deidentification', 'N/A', caseData.deidentification);
+    open('safetyReport', 'C.1');
+    leaf('safetyReportId', 'C.1.1', caseData.safetyReportId);
+    leaf('safetyReportVersion', 'C.1.1', caseData.version);
+    leaf('creationDate', 'C.1.2', caseData.createdAt);
+    leaf('reportType', 'C.1.3', '1'); // spontaneous report
+    leaf('receiptDate', 'C.1.4', caseData.receiptDate);
+    leaf('mostRecentInformationDate', 'C.1.5', caseData.receiptDate);
+    leaf('fulfilsExpeditedCriteria', 'C.1.7', caseData.serious ? 'true' : 'false');
+    close('safetyReport');
+
+    open('primarySource', 'C.2.r');
+    leaf('reporterName', 'C.2.r.1', reporter.name, masked);
+    leaf('reporterOrganization', 'C.2.r.2.1', reporter.organization);
+    leaf('reporterEmail', 'C.2.r.2.8', reporter.email, masked);
+    leaf('reporterCountry', 'C.2.r.3', reporter.country);
+    leaf('qualification', 'C.2.r.4', reporter.qualification ? QUALIFICATION_CODES[reporter.qualification] : undefined);
+    leaf('primarySourceForRegulatoryPurposes', 'C.2.r.5', '1');
+    close('primarySource');
+
+    open('sender', 'C.3');
+    leaf('senderType', 'C.3.1', '3'); // health professional
+    leaf('senderOrganization', 'C.3.2', caseData.sender.organization);
+    leaf('senderCountry', 'C.3.4.5', caseData.sender.country);
+    close('sender');
+
+    open('patient', 'D');
+    leaf('patientInitials', 'D.1', patient.initials, masked);
+    leaf('birthDate', 'D.2.1', patient.birthDate, masked);
+    if (patient.age && 'value' in patient.age) {
+      leaf('ageAtOnset', 'D.2.2a', patient.age.value);
+      leaf('ageAtOnsetUnit', 'D.2.2b', 'a');
+    } else if (patient.age) {
+      leaf('ageGroup', 'D.2.3', '6'); // elderly
+    }
+    leaf('weightKg', 'D.3', patient.weightKg);
+    leaf('heightCm', 'D.4', patient.heightCm);
+    leaf('sex', 'D.5', patient.sex ? SEX_CODES[patient.sex] : undefined);
+    for (const condition of patient.medicalHistory) {
+      open('medicalHistory', 'D.7.1.r');
+      leaf('disease', 'D.7.1.r.1a', condition);
+      leaf('continuing', 'D.7.1.r.3', 'true');
+      close('medicalHistory');
+    }
+    close('patient');
+
+    caseData.reactions.forEach(reaction => {
+      open('reaction', 'E.i');
+      leaf('reactionAsReported', 'E.i.1.1a', reaction.term);
+      leaf('lifeThreatening', 'E.i.3.2b', caseData.seriousness.lifeThreatening ? 'true' : undefined);
+      leaf('otherMedicallyImportant', 'E.i.3.2f', caseData.seriousness.otherMedicallyImportant ? 'true' : undefined);
+      leaf('outcome', 'E.i.7', OUTCOME_CODES[reaction.outcome]);
+      close('reaction');
+    });
+
+    caseData.drugs.forEach(drug => {
+      open('drug', 'G.k');
+      leaf('drugRole', 'G.k.1', DRUG_ROLE_CODES[drug.role]);
+      leaf('medicinalProductName', 'G.k.2.2', drug.name);
+      if (drug.dosageText || drug.startDate || drug.endDate) {
+        open('dosage', 'G.k.4.r');
+        leaf('startDate', 'G.k.4.r.4', drug.startDate);
+        leaf('endDate', 'G.k.4.r.5', drug.endDate);
+        leaf('dosageText', 'G.k.4.r.8', drug.dosageText);
+        close('dosage');
+      }
+      close('drug');
+    });
+
+    open('narrative', 'H');
+    leaf('caseNarrative', 'H.1', caseData.narrative);
+    close('narrative');
+    close('ichicsr');
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Lay out a case as a MedWatch (FDA 3500)-style form
+   */
+  public toMedWatchDocument(caseData: AdverseEventCase): PdfReportDocument {
+    const { patient, reporter } = caseData;
+    const value = (text: string | number | undefined) => (text === undefined || text === '' ? 'Not provided' : String(text));
+    const age = patient.age ? ('value' in patient.age ? `${patient.age.value} years` : patient.age.group) : undefined;
+    const outcomes = [
+      caseData.seriousness.lifeThreatening ? 'Life-threatening' : undefined,
+      caseData.seriousness.otherMedicallyImportant ? 'Other serious (important medical event)' : undefined
+    ].filter(Boolean);
+    const suspects = caseData.drugs.filter(drug => drug.role !== 'concomitant');
+    const concomitant = caseData.drugs.filter(drug => drug.role === 'concomitant');
+    const drugLine = (drug: AdverseEventDrug, index: number) =>
+      `#${index + 1} ${drug.name}${drug.role === 'interacting' ? ' (interacting)' : ''} - dose/frequency: ${value(drug.dosageText)}; ` +
+      `therapy dates: ${value(drug.startDate)} to ${drug.endDate || 'ongoing'}`;
+
+    return {
+      title: 'MedWatch-style Adverse Event Report (FDA 3500 format)',
+      subtitle: `Report ${caseData.safetyReportId} version ${caseData.version} - received ${caseData.receiptDate} - ` +
+        `de-identification: ${caseData.deidentification.replace('_', ' ')}`,
+      sections: [
+        {
+          heading: 'A. Patient information',
+          lines: [
+            `1. Patient identifier: ${caseData.deidentification === 'none' ? value(patient.initials) : 'Withheld (de-identified)'}`,
+            `2. Age: ${value(age)}${patient.birthDate ? ` (date of birth ${patient.birthDate})` : ''}`,
+            `3. Sex: ${value(patient.sex)}`,
+            `4. Weight: ${patient.weightKg !== undefined ? `${patient.weightKg} kg` : 'Not provided'}`
+          ]
+        },
+        {
+          heading: 'B. Adverse event or product problem',
+          lines: [
+            `1. Type: ${caseData.issueType.replace(/_/g, ' ')}`,
+            `2. Outcome attributed to adverse event: ${outcomes.length > 0 ? outcomes.join('; ') : 'Non-serious'}`,
+            `3. Date of report: ${caseData.receiptDate}`,
+            `4. Reactions: ${caseData.reactions.map(r => `${r.term} (${r.outcome})`).join('; ')}`,
+            `5. Describe event: ${caseData.narrative}`,
+            `6. Relevant history: ${patient.medicalHistory.length > 0 ? patient.medicalHistory.join('; ') : 'None reported'}`
+          ]
+        },
+        {
+          heading: 'D. Suspect products',
+          lines: suspects.length > 0 ? suspects.map(drugLine) : ['None recorded']
+        },
+        {
+          heading: 'F. Other (concomitant) medical products',
+          lines: concomitant.length > 0 ? concomitant.map(drugLine) : ['None recorded']
+        },
+        {
+          heading: 'G. Reporter',
+          lines: [
+            `1. Name: ${caseData.deidentification === 'safe_harbor' ? 'Withheld (de-identified)' : value(reporter.name)}`,
+            `2. Organization: ${value(reporter.organization || caseData.sender.organization)}`,
+            `3. Health professional: ${reporter.qualification && reporter.qualification !== 'consumer' ? 'Yes' : 'No'}`,
+            `4. Occupation: ${reporter.qualification ? QUALIFICATION_LABELS[reporter.qualification] : 'Not provided'}`,
+            ...(reporter.email ? [`5. Email: ${reporter.email}`] : [])
+          ]
+        }
+      ],
+      footer: `${caseData.sender.organization} - ${caseData.safetyReportId} v${caseData.version}`
+    };
+  }
+
+  /**
+   * Render a case as a MedWatch-style PDF
+   */
+  public toMedWatchPdf(caseData: AdverseEventCase): Buffer {
+    return pdfReportRenderer.render(this.toMedWatchDocument(caseData));
+  }
+
+  /**
+   * Remove identifiers from free text: contact details and patient names once
+   * de-identified, and full dates under Safe Harbor
+   */
+  private scrubNarrative(
+    text: string,
+    deidentification: DeidentificationLevel,
+    patient?: AdverseEventCaseInput['patient']
+  ): string {
+    if (deidentification === 'none') return text;
+
+    let scrubbed = text
+      .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[EMAIL]')
+      .replace(/(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g, '[PHONE]');
+
+    // Full name first so "Jane Doe" becomes a single placeholder
+    const fullName = [patient?.firstName, patient?.lastName].filter(Boolean).join(' ').trim();
+    for (const name of [fullName, patient?.firstName, patient?.lastName]) {
+      if (name && name.trim().length > 1) {
+        scrubbed = scrubbed.replace(new RegExp(`\\b${this.escapeRegExp(name.trim())}\\b`, 'gi'), '[PATIENT]');
+      }
+    }
+
+    if (deidentification === 'safe_harbor') {
+      scrubbed = scrubbed
+        .replace(/\b(\d{4})-\d{2}-\d{2}\b/g, '$1')
+        .replace(/\b\d{1,2}\/\d{1,2}\/(\d{4})\b/g, '$1');
+    }
+
+    return scrubbed;
+  }
+
+  /**
+   * Format a date for the report; Safe Harbor keeps only the year
+   */
+  private formatDate(date: Date | undefined, deidentification: DeidentificationLevel): string | undefined {
+    if (!date) return undefined;
+    const iso = new Date(date).toISOString().slice(0, 10);
+    return deidentification === 'safe_harbor' ? iso.slice(0, 4) : iso;
+  }
+
+  private ageAt(dateOfBirth: Date, at: Date): number {
+    const birth = new Date(dateOfBirth);
+    const onset = new Date(at);
+    let age = onset.getFullYear() - birth.getFullYear();
+    const monthDiff = onset.getMonth() - birth.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && onset.getDate() < birth.getDate())) {
+      age--;
+    }
+    return age;
+  }
+
+  private initials(firstName?: string, lastName?: string): string | undefined {
+    const initials = [firstName, lastName].map(name => name?.trim()[0]?.toUpperCase()).filter(Boolean).join('');
+    return initials || undefined;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+export default AdverseEventExporter.getInstance();
@@ -0,0 +1,79 @@
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * Token counts for one completion
+ */
+export interface TokenCounts {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * USD per 1,000 tokens
+ */
+export interface TokenPricing {
+  inputPer1K: number;
+  outputPer1K: number;
+}
+
+// Rough average for English text with GPT-style tokenizers
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Token and cost arithmetic for the AI usage ledger and budgets
+ */
+export class AIUsageCalculator {
+  private static instance: AIUsageCalculator;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AIUsageCalculator {
+    if (!AIUsageCalculator.instance) {
+      AIUsageCalculator.instance = new AIUsageCalculator();
+    }
+    return AIUsageCalculator.instance;
+  }
+
+  /**
+   * Approximate token count for text, for providers that report no usage and for checking
+   * budgets before a call
+   */
+  public estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Pricing for a model: an exact match, else the longest key the model name starts with
+   * (so 'gpt-4-0613' is priced as 'gpt-4'), else the table's 'default' entry
+   */
+  public pricingFor(model: string, table: Record<string, TokenPricing>): TokenPricing {
+    if (table[model]) return table[model];
+
+    const prefix = Object.keys(table)
+      .filter(key => key !== 'default' && model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? table[prefix] : table.default || { inputPer1K: 0, outputPer1K: 0 };
+  }
+
+  /**
+   * Estimated cost in USD, rounded to a millionth of a dollar
+   */
+  public estimateCost(tokens: TokenCounts, pricing: TokenPricing): number {
+    const cost = (tokens.promptTokens * pricing.inputPer1K + tokens.completionTokens * pricing.outputPer1K) / 1000;
+    return Math.round(cost * 1e6) / 1e6;
+  }
+
+  /**
+   * Start of the budget period containing `now`, in UTC
+   */
+  public periodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+    return period === 'daily'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+}
+
+export default AIUsageCalculator.getInstance();
@@ -0,0 +1,319 @@
+import sigParser from './sigParser';
+
+/**
+ * DEA controlled substance schedules
+ */
+export type DeaSchedule = 'I' | 'II' | 'III' | 'IV' | 'V';
+
+/**
+ * How a controlled medication is classified and, for opioids, converted to morphine equivalents
+ */
+export interface ControlledSubstanceProfile {
+  schedule: DeaSchedule;
+  ingredient: string;
+  mmeFactor?: number; // oral morphine mg per mg of drug, or per mcg/hr for transdermal fentanyl
+  mmeUnit?: 'mg' | 'mcg/hr';
+}
+
+/**
+ * Catalogue metadata that takes precedence over the built-in table
+ */
+export interface ControlledSubstanceMetadata {
+  deaSchedule?: DeaSchedule;
+  mmeConversionFactor?: number;
+}
+
+/**
+ * A prescription line to check against the controlled substance rules
+ */
+export interface ControlledPrescriptionLine {
+  name: string;
+  dosage: string;
+  frequency: string;
+  quantity?: number;
+  daysSupply?: number;
+  refills?: number;
+  metadata?: ControlledSubstanceMetadata;
+}
+
+export type ControlledSubstanceViolationCode =
+  | 'NOT_PRESCRIBABLE'
+  | 'REFILLS_NOT_ALLOWED'
+  | 'TOO_MANY_REFILLS'
+  | 'QUANTITY_REQUIRED'
+  | 'QUANTITY_EXCEEDED'
+  | 'DAYS_SUPPLY_EXCEEDED';
+
+/**
+ * A rule the prescription line breaks; prescribing is blocked until it is corrected
+ */
+export interface ControlledSubstanceViolation {
+  medication: string;
+  schedule: DeaSchedule;
+  code: ControlledSubstanceViolationCode;
+  message: string;
+}
+
+/**
+ * Per-schedule limits. Federal law fixes the Schedule I and II refill rules; the quantity
+ * and days supply limits are site policy.
+ */
+export interface ControlledSubstanceSettings {
+  maxRefills: Record<DeaSchedule, number | undefined>; // undefined for no limit
+  maxDaysSupply: Record<DeaSchedule, number | undefined>;
+  maxQuantity: Record<DeaSchedule, number | undefined>;
+  mmeWarningThreshold: number; // daily MME at which prescribers are warned
+  mmeHighThreshold: number; // daily MME treated as high risk
+}
+
+export type MmeRiskLevel = 'none' | 'normal' | 'warning' | 'high';
+
+/**
+ * Morphine milligram equivalents contributed by one medication
+ */
+export interface MmeLine {
+  medication: string;
+  ingredient: string;
+  dailyAmount: number;
+  unit: string;
+  factor: number;
+  dailyMme: number;
+}
+
+/**
+ * Daily morphine milligram equivalent total across a set of medications
+ */
+export interface MmeSummary {
+  totalDailyMme: number;
+  level: MmeRiskLevel;
+  lines: MmeLine[];
+  unresolved: string[]; // opioids whose daily dose could not be worked out from the directions
+  warnings: string[];
+}
+
+/**
+ * Medication shape used for MME totals
+ */
+export type MmeMedication = Pick<ControlledPrescriptionLine, 'name' | 'dosage' | 'frequency' | 'metadata'>;
+
+const DEFAULT_SETTINGS: ControlledSubstanceSettings = {
+  maxRefills: { I: 0, II: 0, III: 5, IV: 5, V: undefined },
+  maxDaysSupply: { I: 0, II: 30, III: 90, IV: 90, V: 90 },
+  maxQuantity: { I: 0, II: 240, III: 360, IV: 360, V: undefined },
+  mmeWarningThreshold: 50,
+  mmeHighThreshold: 90
+};
+
+// Units where the quantity counts doses, so quantity and directions imply a days supply
+const COUNTABLE_UNITS = ['tablet', 'capsule', 'patch', 'suppository', 'dose'];
+
+// Schedules and MME conversion factors (CDC 2022 clinical practice guideline). The first match
+// wins, so combination products are listed before their single-ingredient entries.
+const SUBSTANCES: Array<{ pattern: RegExp } & ControlledSubstanceProfile> = [
+  { pattern: /\b(acetaminophen|paracetamol|apap)\b.*\bcodeine\b|\bcodeine\b.*\b(acetaminophen|paracetamol|apap)\b/, ingredient: 'codeine', schedule: 'III', mmeFactor: 0.15, mmeUnit: 'mg' },
+  { pattern: /\b(guaifenesin|promethazine)\b.*\bcodeine\b|\bcodeine\b.*\b(guaifenesin|promethazine)\b/, ingredient: 'codeine', schedule: 'V', mmeFactor: 0.15, mmeUnit: 'mg' },
+  { pattern: /\bcodeine\b/, ingredient: 'codeine', schedule: 'II', mmeFactor: 0.15, mmeUnit: 'mg' },
+  { pattern: /\bfentanyl\b/, ingredient: 'fentanyl', schedule: 'II', mmeFactor: 2.4, mmeUnit: 'mcg/hr' },
+  { pattern: /\bhydrocodone\b/, ingredient: 'hydrocodone', schedule: 'II', mmeFactor: 1, mmeUnit: 'mg' },
+  { pattern: /\bhydromorphone\b/, ingredient: 'hydromorphone', schedule: 'II', mmeFactor: 5, mmeUnit: 'mg' },
+  { pattern: /\bmeperidine\b|\bpethidine\b/, ingredient: 'meperidine', schedule: 'II', mmeFactor: 0.1, mmeUnit: 'mg' },
+  { pattern: /\bmethadone\b/, ingredient: 'methadone', schedule: 'II', mmeFactor: 4.7, mmeUnit: 'mg' },
+  { pattern: /\bmorphine\b/, ingredient: 'morphine', schedule: 'II', mmeFactor: 1, mmeUnit: 'mg' },
+  { pattern: /\boxycodone\b/, ingredient: 'oxycodone', schedule: 'II', mmeFactor: 1.5, mmeUnit: 'mg' },
+  { pattern: /\boxymorphone\b/, ingredient: 'oxymorphone', schedule: 'II', mmeFactor: 3, mmeUnit: 'mg' },
+  { pattern: /\btapentadol\b/, ingredient: 'tapentadol', schedule: 'II', mmeFactor: 0.4, mmeUnit: 'mg' },
+  { pattern: /\btramadol\b/, ingredient: 'tramadol', schedule: 'IV', mmeFactor: 0.2, mmeUnit: 'mg' },
+  { pattern: /\bbuprenorphine\b/, ingredient: 'buprenorphine', schedule: 'III' }, // excluded from MME totals
+  { pattern: /\b(dextro)?amphetamine\b|\b(lis)?dexamfetamine\b/, ingredient: 'amphetamine', schedule: 'II' },
+  { pattern: /\bmethamphetamine\b/, ingredient: 'methamphetamine', schedule: 'II' },
+  { pattern: /\b(dex)?methylphenidate\b/, ingredient: 'methylphenidate', schedule: 'II' },
+  { pattern: /\bcocaine\b/, ingredient: 'cocaine', schedule: 'II' },
+  { pattern: /\bketamine\b/, ingredient: 'ketamine', schedule: 'III' },
+  { pattern: /\btestosterone\b|\bnandrolone\b|\boxandrolone\b/, ingredient: 'anabolic steroid', schedule: 'III' },
+  { pattern: /\bdronabinol\b/, ingredient: 'dronabinol', schedule: 'III' },
+  { pattern: /\b(alprazolam|chlordiazepoxide|clobazam|clonazepam|clorazepate|diazepam|lorazepam|midazolam|oxazepam|temazepam|triazolam)\b/, ingredient: 'benzodiazepine', schedule: 'IV' },
+  { pattern: /\b(zolpidem|zaleplon|eszopiclone|suvorexant|lemborexant)\b/, ingredient: 'sedative-hypnotic', schedule: 'IV' },
+  { pattern: /\bcarisoprodol\b/, ingredient: 'carisoprodol', schedule: 'IV' },
+  { pattern: /\b(ar)?modafinil\b/, ingredient: 'modafinil', schedule: 'IV' },
+  { pattern: /\bphenobarbital\b/, ingredient: 'phenobarbital', schedule: 'IV' },
+  { pattern: /\bphentermine\b/, ingredient: 'phentermine', schedule: 'IV' },
+  { pattern: /\b(pregabalin|lacosamide|brivaracetam|cenobamate)\b/, ingredient: 'anticonvulsant', schedule: 'V' },
+  { pattern: /\bdiphenoxylate\b/, ingredient: 'diphenoxylate', schedule: 'V' },
+  { pattern: /\b(heroin|diacetylmorphine|lsd|mdma|psilocybin)\b/, ingredient: 'schedule I substance', schedule: 'I' }
+];
+
+const PER_HOUR_PATTERN = /(\d+(?:\.\d+)?)\s*(?:mcg|µg|micrograms?)\s*\/\s*(?:h|hr|hour)\b/i;
+
+/**
+ * Classifies controlled substances by DEA schedule, enforces per-schedule refill, quantity and
+ * days supply limits, and totals opioid doses as daily morphine milligram equivalents (MME)
+ */
+export class ControlledSubstanceRules {
+  private static instance: ControlledSubstanceRules;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ControlledSubstanceRules {
+    if (!ControlledSubstanceRules.instance) {
+      ControlledSubstanceRules.instance = new ControlledSubstanceRules();
+    }
+    return ControlledSubstanceRules.instance;
+  }
+
+  /**
+   * Schedule and MME factor for a medication, or undefined when it is not controlled.
+   * Catalogue metadata overrides the built-in table.
+   */
+  public classify(name: string, metadata: ControlledSubstanceMetadata = {}): ControlledSubstanceProfile | undefined {
+    const text = name.toLowerCase();
+    const known = SUBSTANCES.find(substance => substance.pattern.test(text));
+    const schedule = metadata.deaSchedule || known?.schedule;
+    if (!schedule) {
+      return undefined;
+    }
+
+    const mmeFactor = metadata.mmeConversionFactor ?? known?.mmeFactor;
+    return {
+      schedule,
+      ingredient: known?.ingredient || text,
+      mmeFactor,
+      mmeUnit: mmeFactor !== undefined ? known?.mmeUnit || 'mg' : undefined
+    };
+  }
+
+  /**
+   * Rules a controlled prescription line breaks. Lines that are not controlled never do.
+   */
+  public checkLine(
+    line: ControlledPrescriptionLine,
+    overrides: Partial<ControlledSubstanceSettings> = {}
+  ): ControlledSubstanceViolation[] {
+    const profile = this.classify(line.name, line.metadata);
+    if (!profile) {
+      return [];
+    }
+
+    const settings = { ...DEFAULT_SETTINGS, ...overrides };
+    const { schedule } = profile;
+    const violation = (code: ControlledSubstanceViolationCode, message: string): ControlledSubstanceViolation =>
+      ({ medication: line.name, schedule, code, message });
+
+    if (schedule === 'I') {
+      return [violation('NOT_PRESCRIBABLE', `${line.name} is a Schedule I substance and cannot be prescribed`)];
+    }
+
+    const violations: ControlledSubstanceViolation[] = [];
+    const refills = line.refills ?? 0;
+    const maxRefills = settings.maxRefills[schedule];
+    if (refills > 0 && maxRefills === 0) {
+      violations.push(violation('REFILLS_NOT_ALLOWED', `Schedule ${schedule} prescriptions cannot be refilled; write a new prescription instead`));
+    } else if (maxRefills !== undefined && refills > maxRefills) {
+      violations.push(violation('TOO_MANY_REFILLS', `Schedule ${schedule} prescriptions allow at most ${maxRefills} refills`));
+    }
+
+    const maxQuantity = settings.maxQuantity[schedule];
+    if (schedule === 'II' && line.quantity === undefined && line.daysSupply === undefined) {
+      violations.push(violation('QUANTITY_REQUIRED', 'Schedule II prescriptions need a quantity or days supply'));
+    }
+    if (maxQuantity !== undefined && line.quantity !== undefined && line.quantity > maxQuantity) {
+      violations.push(violation('QUANTITY_EXCEEDED', `Quantity ${line.quantity} exceeds the Schedule ${schedule} limit of ${maxQuantity}`));
+    }
+
+    const maxDaysSupply = settings.maxDaysSupply[schedule];
+    const daysSupply = line.daysSupply ?? this.impliedDaysSupply(line);
+    if (maxDaysSupply !== undefined && daysSupply !== undefined && daysSupply > maxDaysSupply) {
+      violations.push(violation(
+        'DAYS_SUPPLY_EXCEEDED',
+        `${Math.ceil(daysSupply)} days supply exceeds the Schedule ${schedule} limit of ${maxDaysSupply} days`
+      ));
+    }
+
+    return violations;
+  }
+
+  /**
+   * Daily MME across the medications, using the highest dose the directions allow
+   */
+  public calculateMme(medications: MmeMedication[], overrides: Partial<ControlledSubstanceSettings> = {}): MmeSummary {
+    const settings = { ...DEFAULT_SETTINGS, ...overrides };
+    const lines: MmeLine[] = [];
+    const unresolved: string[] = [];
+
+    medications.forEach(medication => {
+      const profile = this.classify(medication.name, medication.metadata);
+      if (!profile?.mmeFactor) return;
+
+      const daily = this.dailyAmount(medication, profile);
+      if (!daily) {
+        unresolved.push(medication.name);
+        return;
+      }
+      lines.push({
+        medication: medication.name,
+        ingredient: profile.ingredient,
+        dailyAmount: daily.amount,
+        unit: daily.unit,
+        factor: profile.mmeFactor,
+        dailyMme: this.round(daily.amount * profile.mmeFactor)
+      });
+    });
+
+    const totalDailyMme = this.round(lines.reduce((sum, line) => sum + line.dailyMme, 0));
+    const level: MmeRiskLevel = lines.length === 0
+      ? 'none'
+      : totalDailyMme >= settings.mmeHighThreshold
+        ? 'high'
+        : totalDailyMme >= settings.mmeWarningThreshold ? 'warning' : 'normal';
+
+    const warnings: string[] = [];
+    if (level === 'high') {
+      warnings.push(`Daily total of ${totalDailyMme} MME is at or above ${settings.mmeHighThreshold} MME; avoid further increases and consider naloxone`);
+    } else if (level === 'warning') {
+      warnings.push(`Daily total of ${totalDailyMme} MME is at or above ${settings.mmeWarningThreshold} MME; reassess benefits and risks before increasing`);
+    }
+    if (unresolved.length > 0) {
+      warnings.push(`MME could not be calculated for ${unresolved.join(', ')}; check the dose and frequency`);
+    }
+
+    return { totalDailyMme, level, lines, unresolved, warnings };
+  }
+
+  private dailyAmount(medication: MmeMedication, profile: ControlledSubstanceProfile): { amount: number; unit: string } | undefined {
+    // Transdermal fentanyl is converted from its delivery rate rather than a daily total
+    if (profile.mmeUnit === 'mcg/hr') {
+      const rate = medication.dosage.match(PER_HOUR_PATTERN);
+      return rate ? { amount: parseFloat(rate[1]), unit: 'mcg/hr' } : undefined;
+    }
+
+    const daily = sigParser.calculateDailyDose(sigParser.fromParts(medication.dosage, medication.frequency));
+    if (!daily) return undefined;
+    switch (daily.unit) {
+      case 'mg': return daily;
+      case 'mcg': return { amount: daily.amount / 1000, unit: 'mg' };
+      case 'g': return { amount: daily.amount * 1000, unit: 'mg' };
+      default: return undefined;
+    }
+  }
+
+  /**
+   * Days a countable quantity lasts at the prescribed frequency
+   */
+  private impliedDaysSupply(line: ControlledPrescriptionLine): number | undefined {
+    if (line.quantity === undefined) return undefined;
+
+    const sig = sigParser.fromParts(line.dosage, line.frequency);
+    if (!sig.unit || !COUNTABLE_UNITS.includes(sig.unit)) return undefined;
+
+    const dailyUnits = sigParser.calculateDailyDose(sig)?.amount;
+    return dailyUnits ? line.quantity / dailyUnits : undefined;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+export default ControlledSubstanceRules.getInstance();
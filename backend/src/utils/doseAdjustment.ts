@@ -0,0 +1,460 @@
+import { IMedication } from '../models/Medication';
+import { DosageRange } from './medicationAnalyzer';
+import logger from './logger';
+import sigParser from './sigParser';
+
+/**
+ * Renal function stages based on creatinine clearance / eGFR (mL/min)
+ */
+export type RenalStage = 'normal' | 'mild' | 'moderate' | 'severe' | 'failure';
+
+/**
+ * Child-Pugh classes for hepatic impairment
+ */
+export type ChildPughClass = 'A' | 'B' | 'C';
+
+/**
+ * Grading used by the Child-Pugh score for ascites and encephalopathy
+ */
+export type ChildPughGrade = 'none' | 'mild' | 'severe';
+
+/**
+ * Patient data needed to assess kidney and liver function.
+ * Lab values use conventional US units (mg/dL, g/dL).
+ */
+export interface OrganFunctionInput {
+  age?: number;
+  weight?: number; // in kg
+  height?: number; // in cm
+  sex?: string;
+  serumCreatinine?: number; // mg/dL
+  bilirubin?: number; // total bilirubin, mg/dL
+  albumin?: number; // g/dL
+  inr?: number;
+  ascites?: ChildPughGrade;
+  encephalopathy?: ChildPughGrade;
+  eGFR?: number; // pre-computed value, used when creatinine is unavailable
+  hepaticFunction?: string; // free-text fallback, e.g. "moderate impairment"
+}
+
+/**
+ * Lab result as supplied alongside prescription requests
+ */
+export interface OrganFunctionLab {
+  name: string;
+  value: number | string;
+  unit: string;
+}
+
+/**
+ * Result of a Child-Pugh assessment
+ */
+export interface ChildPughResult {
+  score: number;
+  class: ChildPughClass;
+}
+
+/**
+ * Combined kidney and liver function assessment for a patient
+ */
+export interface OrganFunctionAssessment {
+  creatinineClearance?: number; // Cockcroft-Gault, mL/min
+  eGFR?: number; // CKD-EPI 2021, mL/min/1.73m²
+  renalStage?: RenalStage;
+  childPugh?: ChildPughResult;
+  notes: string[];
+}
+
+/**
+ * Dose adjustment for a single medication
+ */
+export interface DoseAdjustmentResult {
+  medicationName: string;
+  requiresAdjustment: boolean;
+  renalStage?: RenalStage;
+  childPughClass?: ChildPughClass;
+  doseFactor: number; // multiplier applied to the standard dose
+  intervalExtensionFactor: number; // multiplier applied to the dosing interval
+  originalRange?: DosageRange;
+  adjustedRange?: DosageRange;
+  originalIntervalHours?: number;
+  adjustedIntervalHours?: number;
+  avoid: boolean;
+  recommendations: string[];
+}
+
+// Each rule lowers exposure through either the dose or the interval, never both
+interface AdjustmentRule {
+  doseFactor: number;
+  intervalFactor: number;
+  avoid: boolean;
+  recommendation?: string;
+}
+
+/**
+ * Engine that computes kidney and liver function and derives dose adjustments
+ */
+export class DoseAdjustmentEngine {
+  private static instance: DoseAdjustmentEngine;
+
+  // Adjustments for medications flagged with renalAdjustment, by renal stage. Renally cleared
+  // drugs keep their dose and are given less often.
+  private readonly renalRules: Record<RenalStage, AdjustmentRule> = {
+    normal: { doseFactor: 1, intervalFactor: 1, avoid: false },
+    mild: {
+      doseFactor: 1,
+      intervalFactor: 1,
+      avoid: false,
+      recommendation: 'Mild renal impairment: no adjustment usually required, monitor renal function'
+    },
+    moderate: {
+      doseFactor: 1,
+      intervalFactor: 1.5,
+      avoid: false,
+      recommendation: 'Moderate renal impairment: extend the dosing interval by 50% and monitor renal function'
+    },
+    severe: {
+      doseFactor: 1,
+      intervalFactor: 2,
+      avoid: false,
+      recommendation: 'Severe renal impairment: double the dosing interval; consider drug levels'
+    },
+    failure: {
+      doseFactor: 1,
+      intervalFactor: 3,
+      avoid: true,
+      recommendation: 'Kidney failure: avoid unless benefit outweighs risk; if used, triple the dosing interval and consult nephrology for dialysis dosing'
+    }
+  };
+
+  // Adjustments for medications flagged with hepaticAdjustment, by Child-Pugh class. Hepatically
+  // cleared drugs keep their interval and are given at a lower dose.
+  private readonly hepaticRules: Record<ChildPughClass, AdjustmentRule> = {
+    A: {
+      doseFactor: 1,
+      intervalFactor: 1,
+      avoid: false,
+      recommendation: 'Child-Pugh A: use standard dose with caution'
+    },
+    B: {
+      doseFactor: 0.5,
+      intervalFactor: 1,
+      avoid: false,
+      recommendation: 'Child-Pugh B: reduce dose by 50% at the usual interval'
+    },
+    C: {
+      doseFactor: 0.25,
+      intervalFactor: 1,
+      avoid: true,
+      recommendation: 'Child-Pugh C: avoid, or use a quarter of the usual dose under specialist supervision'
+    }
+  };
+
+  private constructor() {}
+
+  public static getInstance(): DoseAdjustmentEngine {
+    if (!DoseAdjustmentEngine.instance) {
+      DoseAdjustmentEngine.instance = new DoseAdjustmentEngine();
+    }
+    return DoseAdjustmentEngine.instance;
+  }
+
+  /**
+   * Estimate creatinine clearance with the Cockcroft-Gault equation.
+   * Uses adjusted body weight when the patient weighs more than 120% of ideal body weight.
+   * @returns Creatinine clearance in mL/min, or undefined if inputs are missing
+   */
+  public calculateCreatinineClearance(
+    age: number,
+    weight: number,
+    serumCreatinine: number,
+    sex?: string,
+    height?: number
+  ): number | undefined {
+    if (!age || !weight || !serumCreatinine || serumCreatinine <= 0) {
+      return undefined;
+    }
+
+    let dosingWeight = weight;
+    if (height) {
+      const idealWeight = this.calculateIdealBodyWeight(height, sex);
+      if (weight > idealWeight * 1.2) {
+        dosingWeight = idealWeight + 0.4 * (weight - idealWeight);
+      }
+    }
+
+    let clearance = ((140 - age) * dosingWeight) / (72 * serumCreatinine);
+    if (!this.isMale(sex)) {
+      clearance *= 0.85;
+    }
+
+    return this.round(Math.max(clearance, 0));
+  }
+
+  /**
+   * Estimate GFR with the race-free CKD-EPI 2021 creatinine equation
+   * @returns eGFR in mL/min/1.73m², or undefined if inputs are missing
+   */
+  public calculateEGFR(age: number, serumCreatinine: number, sex?: string): number | undefined {
+    if (!age || !serumCreatinine || serumCreatinine <= 0) {
+      return undefined;
+    }
+
+    const male = this.isMale(sex);
+    const kappa = male ? 0.9 : 0.7;
+    const alpha = male ? -0.302 : -0.241;
+    const ratio = serumCreatinine / kappa;
+
+    let eGFR = 142 *
+      Math.pow(Math.min(ratio, 1), alpha) *
+      Math.pow(Math.max(ratio, 1), -1.2) *
+      Math.pow(0.9938, age);
+
+    if (!male) {
+      eGFR *= 1.012;
+    }
+
+    return this.round(eGFR);
+  }
+
+  /**
+   * Classify renal function from a clearance or eGFR value (mL/min)
+   */
+  public classifyRenalFunction(clearance: number): RenalStage {
+    if (clearance >= 90) return 'normal';
+    if (clearance >= 60) return 'mild';
+    if (clearance >= 30) return 'moderate';
+    if (clearance >= 15) return 'severe';
+    return 'failure';
+  }
+
+  /**
+   * Calculate the Child-Pugh score and class.
+   * Bilirubin in mg/dL, albumin in g/dL.
+   */
+  public calculateChildPugh(
+    bilirubin: number,
+    albumin: number,
+    inr: number,
+    ascites: ChildPughGrade = 'none',
+    encephalopathy: ChildPughGrade = 'none'
+  ): ChildPughResult {
+    const gradePoints: Record<ChildPughGrade, number> = { none: 1, mild: 2, severe: 3 };
+
+    const bilirubinPoints = bilirubin < 2 ? 1 : (bilirubin <= 3 ? 2 : 3);
+    const albuminPoints = albumin > 3.5 ? 1 : (albumin >= 2.8 ? 2 : 3);
+    const inrPoints = inr < 1.7 ? 1 : (inr <= 2.3 ? 2 : 3);
+
+    const score = bilirubinPoints + albuminPoints + inrPoints +
+      gradePoints[ascites] + gradePoints[encephalopathy];
+
+    return {
+      score,
+      class: score <= 6 ? 'A' : (score <= 9 ? 'B' : 'C')
+    };
+  }
+
+  /**
+   * Assess kidney and liver function from whatever patient data is available
+   */
+  public assessOrganFunction(input: OrganFunctionInput): OrganFunctionAssessment {
+    const assessment: OrganFunctionAssessment = { notes: [] };
+
+    try {
+      if (input.serumCreatinine && input.age) {
+        if (input.weight) {
+          assessment.creatinineClearance = this.calculateCreatinineClearance(
+            input.age,
+            input.weight,
+            input.serumCreatinine,
+            input.sex,
+            input.height
+          );
+        } else {
+          assessment.notes.push('Weight not provided: creatinine clearance could not be calculated');
+        }
+        assessment.eGFR = this.calculateEGFR(input.age, input.serumCreatinine, input.sex);
+      } else if (input.eGFR !== undefined) {
+        assessment.eGFR = input.eGFR;
+      }
+
+      // Cockcroft-Gault remains the reference for drug dosing; fall back to eGFR
+      const renalValue = assessment.creatinineClearance ?? assessment.eGFR;
+      if (renalValue !== undefined) {
+        assessment.renalStage = this.classifyRenalFunction(renalValue);
+      }
+
+      if (input.bilirubin !== undefined && input.albumin !== undefined && input.inr !== undefined) {
+        assessment.childPugh = this.calculateChildPugh(
+          input.bilirubin,
+          input.albumin,
+          input.inr,
+          input.ascites,
+          input.encephalopathy
+        );
+      } else if (input.hepaticFunction) {
+        const childPughClass = this.childPughClassFromDescription(input.hepaticFunction);
+        if (childPughClass) {
+          assessment.childPugh = { score: 0, class: childPughClass };
+          assessment.notes.push('Child-Pugh class estimated from reported hepatic function');
+        }
+      }
+    } catch (error) {
+      logger.error(`Error assessing organ function: ${error}`);
+      assessment.notes.push('Error assessing organ function');
+    }
+
+    return assessment;
+  }
+
+  /**
+   * Calculate the dose adjustment for a medication given an organ function assessment
+   */
+  public calculateDoseAdjustment(
+    medication: IMedication,
+    assessment: OrganFunctionAssessment,
+    range?: DosageRange
+  ): DoseAdjustmentResult {
+    const result: DoseAdjustmentResult = {
+      medicationName: medication.name,
+      requiresAdjustment: false,
+      renalStage: assessment.renalStage,
+      childPughClass: assessment.childPugh?.class,
+      doseFactor: 1,
+      intervalExtensionFactor: 1,
+      avoid: false,
+      recommendations: []
+    };
+
+    const rules: AdjustmentRule[] = [];
+
+    if (medication.renalAdjustment && assessment.renalStage) {
+      rules.push(this.renalRules[assessment.renalStage]);
+    }
+
+    if (medication.hepaticAdjustment && assessment.childPugh) {
+      rules.push(this.hepaticRules[assessment.childPugh.class]);
+    }
+
+    // Renal and hepatic impairment each lower clearance, so a hepatic dose reduction and a
+    // renal interval extension both apply
+    for (const rule of rules) {
+      result.doseFactor *= rule.doseFactor;
+      result.intervalExtensionFactor = Math.max(result.intervalExtensionFactor, rule.intervalFactor);
+      result.avoid = result.avoid || rule.avoid;
+      if (rule.recommendation) {
+        result.recommendations.push(rule.recommendation);
+      }
+    }
+
+    result.requiresAdjustment = result.doseFactor < 1 || result.intervalExtensionFactor > 1 || result.avoid;
+
+    const baseRange = range || medication.standardDosages?.[0];
+    const intervalHours = baseRange?.frequency ? this.frequencyToIntervalHours(baseRange.frequency) : undefined;
+    if (!intervalHours && result.intervalExtensionFactor > 1) {
+      // Without a known interval, give the same exposure through the dose instead
+      result.doseFactor /= result.intervalExtensionFactor;
+      result.intervalExtensionFactor = 1;
+    }
+    result.doseFactor = this.round(result.doseFactor, 3);
+
+    if (baseRange) {
+      result.originalRange = baseRange;
+      result.adjustedRange = {
+        ...baseRange,
+        min: this.round(baseRange.min * result.doseFactor, 3),
+        max: this.round(baseRange.max * result.doseFactor, 3)
+      };
+
+      if (intervalHours) {
+        result.originalIntervalHours = intervalHours;
+        result.adjustedIntervalHours = this.round(intervalHours * result.intervalExtensionFactor);
+        if (result.adjustedIntervalHours !== intervalHours) {
+          result.adjustedRange.frequency = `every ${result.adjustedIntervalHours} hours`;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert laboratory results into organ function input fields,
+   * normalising SI units (µmol/L, g/L) to conventional units
+   */
+  public extractLabValues(labs: OrganFunctionLab[]): Partial<OrganFunctionInput> {
+    const values: Partial<OrganFunctionInput> = {};
+
+    for (const lab of labs || []) {
+      const value = typeof lab.value === 'number' ? lab.value : parseFloat(lab.value);
+      if (isNaN(value)) continue;
+
+      const name = lab.name.toLowerCase();
+      const unit = (lab.unit || '').toLowerCase();
+      const isMicromolar = unit.includes('mol');
+
+      if ((name.includes('creatinine') && !name.includes('clearance')) || name === 'scr') {
+        values.serumCreatinine = isMicromolar ? this.round(value / 88.4, 2) : value;
+      } else if (name.includes('bilirubin')) {
+        values.bilirubin = isMicromolar ? this.round(value / 17.1, 2) : value;
+      } else if (name.includes('albumin')) {
+        values.albumin = unit === 'g/l' ? value / 10 : value;
+      } else if (name === 'inr' || name.includes('international normalized ratio')) {
+        values.inr = value;
+      } else if (name.includes('egfr')) {
+        values.eGFR = value;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Convert a frequency description to a dosing interval in hours
+   */
+  public frequencyToIntervalHours(frequency: string): number | undefined {
+    const parsed = sigParser.parse(frequency).frequency;
+    if (!parsed || parsed.code === 'ONCE' || parsed.code === 'PRN') {
+      return undefined;
+    }
+    if (parsed.intervalHours) {
+      return parsed.intervalHours;
+    }
+    return parsed.timesPerDay ? 24 / parsed.timesPerDay : undefined;
+  }
+
+  /**
+   * Map free-text hepatic function descriptions to a Child-Pugh class
+   */
+  private childPughClassFromDescription(description: string): ChildPughClass | undefined {
+    const text = description.toLowerCase();
+    if (text.includes('severe')) return 'C';
+    if (text.includes('moderate')) return 'B';
+    if (text.includes('mild') || text.includes('impair')) return 'A';
+    return undefined;
+  }
+
+  /**
+   * Devine ideal body weight in kg
+   */
+  private calculateIdealBodyWeight(height: number, sex?: string): number {
+    const inchesOverFiveFeet = Math.max(height / 2.54 - 60, 0);
+    return (this.isMale(sex) ? 50 : 45.5) + 2.3 * inchesOverFiveFeet;
+  }
+
+  /**
+   * Sex-specific equations default to the female coefficients when sex is unknown,
+   * which gives the more conservative estimate
+   */
+  private isMale(sex?: string): boolean {
+    return sex?.toLowerCase() === 'male' || sex?.toLowerCase() === 'm';
+  }
+
+  private round(value: number, decimals: number = 1): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+// Export the singleton instance
+export default DoseAdjustmentEngine.getInstance();
@@ -0,0 +1,749 @@
+import { IMedication } from '../models/Medication';
+import { InteractionSeverity } from '../types/medical';
+
+/**
+ * A node in the drug class hierarchy
+ */
+export interface DrugClassDefinition {
+  key: string;
+  label: string;
+  parents?: string[]; // broader classes this class belongs to
+  aliases: string[]; // names used in IMedication.drugClass or allergy lists
+  members: string[]; // generic drug names belonging to the class
+  allowsCombination?: boolean; // members are routinely co-prescribed, so no duplication alert
+}
+
+/**
+ * Known cross-sensitivity between an allergen class and another drug class
+ */
+export interface CrossSensitivityRule {
+  allergenClass: string;
+  drugClass: string;
+  risk: InteractionSeverity;
+  estimatedRate: string;
+  recommendation: string;
+}
+
+/**
+ * Contraindication of a drug class in patients with a given condition
+ */
+export interface ClassContraindicationRule {
+  condition: string;
+  conditionAliases: string[];
+  drugClass: string;
+  severity: InteractionSeverity;
+  reason: string;
+  recommendation: string;
+}
+
+/**
+ * Minimal medication shape needed for class resolution
+ */
+export type ClassifiableMedication = Pick<IMedication, 'name'> & Partial<Pick<IMedication, 'genericName' | 'drugClass'>>;
+
+/**
+ * Result of matching a patient allergy against a medication
+ */
+export interface AllergyMatch {
+  allergen: string;
+  matchType: 'direct' | 'same_class' | 'cross_sensitivity';
+  severity: InteractionSeverity;
+  drugClass?: string;
+  allergenClass?: string;
+  estimatedRate?: string;
+  recommendation: string;
+}
+
+/**
+ * Two medications that duplicate an ingredient or a therapeutic class
+ */
+export interface DuplicationMatch {
+  indices: [number, number]; // positions in the list passed to matchDuplications
+  matchType: 'ingredient' | 'same_class';
+  ingredient?: string;
+  drugClass?: string;
+  severity: InteractionSeverity;
+  recommendation: string;
+}
+
+/**
+ * Result of matching a patient condition against a medication's classes
+ */
+export interface ContraindicationMatch {
+  condition: string;
+  drugClass: string;
+  severity: InteractionSeverity;
+  reason: string;
+  recommendation: string;
+}
+
+const DRUG_CLASSES: DrugClassDefinition[] = [
+  {
+    key: 'beta-lactams',
+    label: 'Beta-lactam antibiotics',
+    aliases: ['beta-lactam', 'beta lactam', 'β-lactam'],
+    members: []
+  },
+  {
+    key: 'penicillins',
+    label: 'Penicillins',
+    parents: ['beta-lactams'],
+    aliases: ['penicillin', 'aminopenicillin'],
+    members: ['penicillin v', 'penicillin g', 'amoxicillin', 'ampicillin', 'piperacillin', 'dicloxacillin', 'nafcillin', 'oxacillin']
+  },
+  {
+    key: 'cephalosporins',
+    label: 'Cephalosporins',
+    parents: ['beta-lactams'],
+    aliases: ['cephalosporin'],
+    members: ['cephalexin', 'cefazolin', 'cefadroxil', 'cefuroxime', 'cefaclor', 'cefdinir', 'cefpodoxime', 'ceftriaxone', 'ceftazidime', 'cefepime']
+  },
+  {
+    key: 'carbapenems',
+    label: 'Carbapenems',
+    parents: ['beta-lactams'],
+    aliases: ['carbapenem'],
+    members: ['meropenem', 'imipenem', 'ertapenem']
+  },
+  {
+    key: 'sulfonamide-antibiotics',
+    label: 'Sulfonamide antibiotics',
+    aliases: ['sulfonamide antibiotic', 'sulfa antibiotic', 'sulfonamide', 'sulfa'],
+    members: ['sulfamethoxazole', 'sulfadiazine', 'sulfasalazine']
+  },
+  {
+    key: 'fluoroquinolones',
+    label: 'Fluoroquinolones',
+    aliases: ['fluoroquinolone', 'quinolone'],
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin']
+  },
+  {
+    key: 'macrolides',
+    label: 'Macrolides',
+    aliases: ['macrolide'],
+    members: ['azithromycin', 'clarithromycin', 'erythromycin']
+  },
+  {
+    key: 'aminoglycosides',
+    label: 'Aminoglycosides',
+    aliases: ['aminoglycoside'],
+    members: ['gentamicin', 'tobramycin', 'amikacin']
+  },
+  {
+    key: 'nsaids',
+    label: 'NSAIDs',
+    aliases: ['nsaid', 'non-steroidal anti-inflammatory', 'nonsteroidal anti-inflammatory'],
+    members: ['ibuprofen', 'naproxen', 'diclofenac', 'ketorolac', 'indomethacin', 'meloxicam', 'aspirin']
+  },
+  {
+    key: 'cox-2-inhibitors',
+    label: 'COX-2 inhibitors',
+    aliases: ['cox-2 inhibitor', 'cox2 inhibitor', 'coxib'],
+    members: ['celecoxib', 'etoricoxib']
+  },
+  {
+    key: 'opioids',
+    label: 'Opioids',
+    aliases: ['opioid', 'opiate', 'opioid analgesic'],
+    members: ['morphine', 'codeine', 'hydrocodone', 'oxycodone', 'hydromorphone', 'fentanyl', 'tramadol', 'methadone']
+  },
+  {
+    key: 'ace-inhibitors',
+    label: 'ACE inhibitors',
+    aliases: ['ace inhibitor', 'angiotensin-converting enzyme inhibitor'],
+    members: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'benazepril', 'quinapril']
+  },
+  {
+    key: 'arbs',
+    label: 'Angiotensin receptor blockers',
+    aliases: ['arb', 'angiotensin receptor blocker', 'angiotensin ii receptor blocker'],
+    members: ['losartan', 'valsartan', 'irbesartan', 'candesartan', 'olmesartan', 'telmisartan']
+  },
+  {
+    key: 'beta-blockers',
+    label: 'Beta blockers',
+    aliases: ['beta blocker', 'beta-blocker', 'beta-adrenergic blocker'],
+    members: []
+  },
+  {
+    key: 'non-selective-beta-blockers',
+    label: 'Non-selective beta blockers',
+    parents: ['beta-blockers'],
+    aliases: ['non-selective beta blocker', 'nonselective beta blocker'],
+    members: ['propranolol', 'nadolol', 'timolol', 'sotalol', 'carvedilol', 'labetalol']
+  },
+  {
+    key: 'cardioselective-beta-blockers',
+    label: 'Cardioselective beta blockers',
+    parents: ['beta-blockers'],
+    aliases: ['cardioselective beta blocker', 'beta-1 selective blocker', 'selective beta blocker'],
+    members: ['metoprolol', 'atenolol', 'bisoprolol', 'nebivolol', 'esmolol']
+  },
+  {
+    key: 'potassium-sparing-diuretics',
+    label: 'Potassium-sparing diuretics',
+    aliases: ['potassium-sparing diuretic', 'potassium sparing diuretic', 'aldosterone antagonist'],
+    members: ['spironolactone', 'eplerenone', 'amiloride', 'triamterene']
+  },
+  {
+    key: 'thiazolidinediones',
+    label: 'Thiazolidinediones',
+    aliases: ['thiazolidinedione', 'glitazone'],
+    members: ['pioglitazone', 'rosiglitazone']
+  },
+  {
+    key: 'biguanides',
+    label: 'Biguanides',
+    aliases: ['biguanide'],
+    members: ['metformin']
+  },
+  {
+    key: 'anticholinergics',
+    label: 'Anticholinergics',
+    aliases: ['anticholinergic', 'antimuscarinic'],
+    members: ['diphenhydramine', 'hydroxyzine', 'oxybutynin', 'benztropine', 'scopolamine', 'amitriptyline'],
+    allowsCombination: true
+  },
+  {
+    key: 'benzodiazepines',
+    label: 'Benzodiazepines',
+    aliases: ['benzodiazepine'],
+    members: ['diazepam', 'lorazepam', 'alprazolam', 'clonazepam', 'midazolam', 'temazepam']
+  },
+  {
+    key: 'aromatic-anticonvulsants',
+    label: 'Aromatic anticonvulsants',
+    aliases: ['aromatic anticonvulsant', 'aromatic antiepileptic'],
+    members: ['carbamazepine', 'oxcarbazepine', 'phenytoin', 'phenobarbital', 'lamotrigine'],
+    allowsCombination: true
+  },
+  {
+    key: 'ssris',
+    label: 'SSRIs',
+    aliases: ['ssri', 'selective serotonin reuptake inhibitor'],
+    members: ['fluoxetine', 'sertraline', 'paroxetine', 'citalopram', 'escitalopram', 'fluvoxamine']
+  },
+  {
+    key: 'snris',
+    label: 'SNRIs',
+    aliases: ['snri', 'serotonin-norepinephrine reuptake inhibitor', 'serotonin norepinephrine reuptake inhibitor'],
+    members: ['venlafaxine', 'desvenlafaxine', 'duloxetine', 'levomilnacipran']
+  },
+  {
+    key: 'statins',
+    label: 'Statins',
+    aliases: ['statin', 'hmg-coa reductase inhibitor'],
+    members: ['atorvastatin', 'simvastatin', 'rosuvastatin', 'pravastatin', 'lovastatin', 'pitavastatin']
+  },
+  {
+    key: 'proton-pump-inhibitors',
+    label: 'Proton pump inhibitors',
+    aliases: ['proton pump inhibitor', 'ppi'],
+    members: ['omeprazole', 'esomeprazole', 'lansoprazole', 'pantoprazole', 'rabeprazole']
+  }
+];
+
+// Words stripped from generic names when extracting ingredients
+const NON_INGREDIENT_WORDS = new Set([
+  'tablet', 'tablets', 'capsule', 'capsules', 'oral', 'solution', 'suspension', 'injection', 'extended', 'release',
+  'er', 'xr', 'sr', 'cr', 'dr', 'mg', 'mcg', 'ml', 'g'
+]);
+
+// Salt forms, stripped when they follow the active moiety ("losartan potassium")
+const SALT_WORDS = new Set(['hcl', 'hydrochloride', 'sodium', 'potassium', 'calcium', 'sulfate', 'maleate', 'besylate', 'succinate', 'tartrate', 'bitartrate']);
+
+const CROSS_SENSITIVITY_RULES: CrossSensitivityRule[] = [
+  {
+    allergenClass: 'penicillins',
+    drugClass: 'cephalosporins',
+    risk: InteractionSeverity.MEDIUM,
+    estimatedRate: '1-2% (higher with first-generation agents sharing side chains)',
+    recommendation: 'Use with caution; prefer a cephalosporin with a dissimilar side chain and avoid after anaphylactic penicillin reactions.'
+  },
+  {
+    allergenClass: 'penicillins',
+    drugClass: 'carbapenems',
+    risk: InteractionSeverity.LOW,
+    estimatedRate: '<1%',
+    recommendation: 'Generally tolerated; administer with monitoring for the first dose.'
+  },
+  {
+    allergenClass: 'cephalosporins',
+    drugClass: 'penicillins',
+    risk: InteractionSeverity.MEDIUM,
+    estimatedRate: '1-3%',
+    recommendation: 'Use with caution; consider allergy consultation or graded challenge.'
+  },
+  {
+    allergenClass: 'cephalosporins',
+    drugClass: 'carbapenems',
+    risk: InteractionSeverity.LOW,
+    estimatedRate: '<1%',
+    recommendation: 'Generally tolerated; administer with monitoring for the first dose.'
+  },
+  {
+    allergenClass: 'nsaids',
+    drugClass: 'cox-2-inhibitors',
+    risk: InteractionSeverity.LOW,
+    estimatedRate: '<5% in NSAID-exacerbated respiratory disease',
+    recommendation: 'Usually tolerated; consider supervised first dose.'
+  },
+  {
+    allergenClass: 'ace-inhibitors',
+    drugClass: 'arbs',
+    risk: InteractionSeverity.LOW,
+    estimatedRate: '2-10% recurrence of angioedema',
+    recommendation: 'Use with caution if the ACE inhibitor reaction was angioedema.'
+  }
+];
+
+const CLASS_CONTRAINDICATION_RULES: ClassContraindicationRule[] = [
+  {
+    condition: 'asthma',
+    conditionAliases: ['asthma', 'reactive airway disease', 'bronchospasm'],
+    drugClass: 'non-selective-beta-blockers',
+    severity: InteractionSeverity.HIGH,
+    reason: 'non-selective beta blockade can precipitate bronchospasm',
+    recommendation: 'Avoid. Use a cardioselective beta blocker at the lowest effective dose if beta blockade is required.'
+  },
+  {
+    condition: 'asthma',
+    conditionAliases: ['asthma', 'reactive airway disease'],
+    drugClass: 'cardioselective-beta-blockers',
+    severity: InteractionSeverity.LOW,
+    reason: 'cardioselectivity is dose dependent and bronchospasm remains possible',
+    recommendation: 'Use the lowest effective dose and monitor respiratory symptoms.'
+  },
+  {
+    condition: 'copd',
+    conditionAliases: ['copd', 'chronic obstructive pulmonary disease', 'emphysema'],
+    drugClass: 'non-selective-beta-blockers',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'non-selective beta blockade may worsen airflow obstruction',
+    recommendation: 'Prefer a cardioselective beta blocker.'
+  },
+  {
+    condition: 'bradycardia',
+    conditionAliases: ['bradycardia', 'heart block', 'sick sinus syndrome'],
+    drugClass: 'beta-blockers',
+    severity: InteractionSeverity.HIGH,
+    reason: 'beta blockers slow AV conduction and heart rate',
+    recommendation: 'Avoid unless a pacemaker is in place.'
+  },
+  {
+    condition: 'peptic ulcer disease',
+    conditionAliases: ['peptic ulcer', 'gastric ulcer', 'duodenal ulcer', 'gi bleed', 'gastrointestinal bleeding'],
+    drugClass: 'nsaids',
+    severity: InteractionSeverity.HIGH,
+    reason: 'NSAIDs increase the risk of GI bleeding and ulceration',
+    recommendation: 'Avoid. Use acetaminophen, or add gastroprotection if an NSAID is unavoidable.'
+  },
+  {
+    condition: 'chronic kidney disease',
+    conditionAliases: ['chronic kidney disease', 'ckd', 'renal failure', 'renal insufficiency', 'kidney disease'],
+    drugClass: 'nsaids',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'NSAIDs reduce renal perfusion and can accelerate kidney injury',
+    recommendation: 'Avoid regular use; monitor renal function if short-term use is necessary.'
+  },
+  {
+    condition: 'heart failure',
+    conditionAliases: ['heart failure', 'congestive heart failure', 'chf'],
+    drugClass: 'nsaids',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'NSAIDs cause sodium and fluid retention',
+    recommendation: 'Avoid where possible; monitor weight and fluid status.'
+  },
+  {
+    condition: 'heart failure',
+    conditionAliases: ['heart failure', 'congestive heart failure', 'chf'],
+    drugClass: 'thiazolidinediones',
+    severity: InteractionSeverity.HIGH,
+    reason: 'thiazolidinediones cause fluid retention and can precipitate heart failure',
+    recommendation: 'Avoid in symptomatic heart failure.'
+  },
+  {
+    condition: 'angioedema',
+    conditionAliases: ['angioedema', 'hereditary angioedema'],
+    drugClass: 'ace-inhibitors',
+    severity: InteractionSeverity.HIGH,
+    reason: 'ACE inhibitors can trigger life-threatening angioedema',
+    recommendation: 'Avoid. Consider an alternative antihypertensive class.'
+  },
+  {
+    condition: 'hyperkalemia',
+    conditionAliases: ['hyperkalemia', 'hyperkalaemia'],
+    drugClass: 'potassium-sparing-diuretics',
+    severity: InteractionSeverity.HIGH,
+    reason: 'potassium-sparing diuretics further raise serum potassium',
+    recommendation: 'Avoid. Correct potassium before considering therapy.'
+  },
+  {
+    condition: 'myasthenia gravis',
+    conditionAliases: ['myasthenia gravis'],
+    drugClass: 'fluoroquinolones',
+    severity: InteractionSeverity.HIGH,
+    reason: 'fluoroquinolones can exacerbate muscle weakness',
+    recommendation: 'Avoid. Choose an antibiotic from another class.'
+  },
+  {
+    condition: 'myasthenia gravis',
+    conditionAliases: ['myasthenia gravis'],
+    drugClass: 'aminoglycosides',
+    severity: InteractionSeverity.HIGH,
+    reason: 'aminoglycosides impair neuromuscular transmission',
+    recommendation: 'Avoid. Choose an antibiotic from another class.'
+  },
+  {
+    condition: 'long qt syndrome',
+    conditionAliases: ['long qt', 'qt prolongation', 'prolonged qt'],
+    drugClass: 'macrolides',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'macrolides prolong the QT interval',
+    recommendation: 'Avoid where possible; obtain a baseline ECG if required.'
+  },
+  {
+    condition: 'long qt syndrome',
+    conditionAliases: ['long qt', 'qt prolongation', 'prolonged qt'],
+    drugClass: 'fluoroquinolones',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'fluoroquinolones prolong the QT interval',
+    recommendation: 'Avoid where possible; obtain a baseline ECG if required.'
+  },
+  {
+    condition: 'angle-closure glaucoma',
+    conditionAliases: ['angle-closure glaucoma', 'narrow-angle glaucoma', 'angle closure glaucoma', 'glaucoma'],
+    drugClass: 'anticholinergics',
+    severity: InteractionSeverity.HIGH,
+    reason: 'anticholinergics can precipitate acute angle closure',
+    recommendation: 'Avoid. Consult ophthalmology if therapy is essential.'
+  },
+  {
+    condition: 'benign prostatic hyperplasia',
+    conditionAliases: ['benign prostatic hyperplasia', 'bph', 'urinary retention'],
+    drugClass: 'anticholinergics',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'anticholinergics can cause urinary retention',
+    recommendation: 'Avoid where possible; monitor voiding.'
+  },
+  {
+    condition: 'dementia',
+    conditionAliases: ['dementia', 'alzheimer', 'cognitive impairment'],
+    drugClass: 'anticholinergics',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'anticholinergics worsen cognition and increase delirium risk',
+    recommendation: 'Avoid; choose an agent with lower anticholinergic burden.'
+  },
+  {
+    condition: 'dementia',
+    conditionAliases: ['dementia', 'alzheimer', 'cognitive impairment'],
+    drugClass: 'benzodiazepines',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'benzodiazepines worsen cognition and increase fall risk',
+    recommendation: 'Avoid; consider non-pharmacological measures.'
+  },
+  {
+    condition: 'respiratory depression',
+    conditionAliases: ['respiratory depression', 'sleep apnea', 'sleep apnoea'],
+    drugClass: 'opioids',
+    severity: InteractionSeverity.HIGH,
+    reason: 'opioids further depress respiratory drive',
+    recommendation: 'Avoid or use the lowest dose with close monitoring.'
+  },
+  {
+    condition: 'respiratory depression',
+    conditionAliases: ['respiratory depression', 'sleep apnea', 'sleep apnoea'],
+    drugClass: 'benzodiazepines',
+    severity: InteractionSeverity.MEDIUM,
+    reason: 'benzodiazepines depress respiratory drive',
+    recommendation: 'Avoid where possible; monitor closely if required.'
+  }
+];
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  [InteractionSeverity.HIGH]: 3,
+  [InteractionSeverity.MEDIUM]: 2,
+  [InteractionSeverity.LOW]: 1
+};
+
+/**
+ * Resolves drug classes and applies allergy cross-sensitivity and
+ * condition-to-class contraindication rules
+ */
+export class DrugClassRuleEngine {
+  private static instance: DrugClassRuleEngine;
+  private readonly classes = new Map<string, DrugClassDefinition>();
+
+  private constructor() {
+    DRUG_CLASSES.forEach(definition => this.classes.set(definition.key, definition));
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): DrugClassRuleEngine {
+    if (!DrugClassRuleEngine.instance) {
+      DrugClassRuleEngine.instance = new DrugClassRuleEngine();
+    }
+    return DrugClassRuleEngine.instance;
+  }
+
+  /**
+   * Get a class definition by key
+   */
+  public getClass(key: string): DrugClassDefinition | undefined {
+    return this.classes.get(key);
+  }
+
+  /**
+   * Resolve the classes a medication belongs to, including broader parent classes.
+   * Uses IMedication.drugClass first and falls back to known class members by name.
+   */
+  public resolveMedicationClasses(medication: ClassifiableMedication): string[] {
+    const direct = new Set<string>();
+
+    for (const drugClass of medication.drugClass || []) {
+      this.matchClassName(drugClass).forEach(key => direct.add(key));
+    }
+
+    for (const name of [medication.name, medication.genericName]) {
+      if (name) {
+        this.matchMember(name).forEach(key => direct.add(key));
+      }
+    }
+
+    return this.withAncestors(Array.from(direct));
+  }
+
+  /**
+   * Resolve the classes a recorded allergy refers to.
+   * An allergy may name a class ("penicillins") or a single drug ("amoxicillin").
+   */
+  public resolveAllergenClasses(allergy: string): string[] {
+    const classKeys = this.matchClassName(allergy);
+    return classKeys.length > 0 ? classKeys : this.matchMember(allergy);
+  }
+
+  /**
+   * Match patient allergies against a medication, returning the most severe match per allergy
+   */
+  public matchAllergies(medication: ClassifiableMedication, allergies: string[]): AllergyMatch[] {
+    const medicationClasses = this.resolveMedicationClasses(medication);
+    const names = [medication.name, medication.genericName]
+      .filter((name): name is string => !!name)
+      .map(name => this.normalize(name));
+    const matches: AllergyMatch[] = [];
+
+    for (const allergy of allergies) {
+      const allergen = this.normalize(allergy);
+      if (!allergen) continue;
+
+      if (names.some(name => name.includes(allergen))) {
+        matches.push({
+          allergen: allergy,
+          matchType: 'direct',
+          severity: InteractionSeverity.HIGH,
+          recommendation: 'Avoid. Consider alternative medication and verify whether this is a true allergy or intolerance.'
+        });
+        continue;
+      }
+
+      const allergenClasses = this.resolveAllergenClasses(allergy);
+
+      const sameClass = allergenClasses.find(key => medicationClasses.includes(key));
+      if (sameClass) {
+        matches.push({
+          allergen: allergy,
+          matchType: 'same_class',
+          severity: InteractionSeverity.HIGH,
+          drugClass: sameClass,
+          allergenClass: sameClass,
+          recommendation: `Avoid all ${this.labelFor(sameClass)}. Consider an alternative class.`
+        });
+        continue;
+      }
+
+      const crossRule = CROSS_SENSITIVITY_RULES
+        .filter(rule => allergenClasses.includes(rule.allergenClass) && medicationClasses.includes(rule.drugClass))
+        .sort((a, b) => SEVERITY_RANK[b.risk] - SEVERITY_RANK[a.risk])[0];
+
+      if (crossRule) {
+        matches.push({
+          allergen: allergy,
+          matchType: 'cross_sensitivity',
+          severity: crossRule.risk,
+          drugClass: crossRule.drugClass,
+          allergenClass: crossRule.allergenClass,
+          estimatedRate: crossRule.estimatedRate,
+          recommendation: crossRule.recommendation
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Match patient conditions against condition-to-class contraindication rules
+   */
+  public matchContraindications(medication: ClassifiableMedication, conditions: string[]): ContraindicationMatch[] {
+    const medicationClasses = this.resolveMedicationClasses(medication);
+    const normalizedConditions = conditions.map(condition => this.normalize(condition)).filter(Boolean);
+    const matches = new Map<string, ContraindicationMatch>();
+
+    for (const rule of CLASS_CONTRAINDICATION_RULES) {
+      if (!medicationClasses.includes(rule.drugClass)) continue;
+
+      const conditionMatch = normalizedConditions.some(condition =>
+        rule.conditionAliases.some(alias => condition.includes(alias))
+      );
+      if (!conditionMatch) continue;
+
+      // Keep the most severe rule per condition (e.g. asthma with a non-selective beta blocker)
+      const existing = matches.get(rule.condition);
+      if (!existing || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[existing.severity]) {
+        matches.set(rule.condition, {
+          condition: rule.condition,
+          drugClass: rule.drugClass,
+          severity: rule.severity,
+          reason: rule.reason,
+          recommendation: rule.recommendation
+        });
+      }
+    }
+
+    return Array.from(matches.values());
+  }
+
+  /**
+   * Split a medication into its active ingredients, e.g. "hydrocodone/acetaminophen" or
+   * "amlodipine and benazepril". Single-ingredient products return one entry.
+   */
+  public getIngredients(medication: ClassifiableMedication): string[] {
+    const source = medication.genericName || medication.name;
+    return Array.from(new Set(
+      source
+        .toLowerCase()
+        .replace(/\(.*?\)/g, ' ')
+        .split(/\s*(?:\/|\+|,|\band\b|\bwith\b)\s*/)
+        .map(part => part
+          .split(/[^a-z-]+/)
+          .filter(word => word && !NON_INGREDIENT_WORDS.has(word))
+          .filter((word, index) => index === 0 || !SALT_WORDS.has(word))
+          .join(' '))
+        .filter(Boolean)
+    ));
+  }
+
+  /**
+   * Find therapeutic duplications in a medication list: the same ingredient in two products,
+   * or two drugs from the same class. Classes that allow combination therapy are skipped, and
+   * each pair is reported once with its most specific shared class.
+   */
+  public matchDuplications(medications: ClassifiableMedication[]): DuplicationMatch[] {
+    const resolved = medications.map(medication => {
+      const ingredients = this.getIngredients(medication);
+      const classes = new Set(this.resolveMedicationClasses(medication));
+      ingredients.forEach(ingredient =>
+        this.resolveMedicationClasses({ name: ingredient }).forEach(key => classes.add(key))
+      );
+      return { ingredients, classes: Array.from(classes) };
+    });
+    const matches: DuplicationMatch[] = [];
+
+    for (let i = 0; i < resolved.length; i++) {
+      for (let j = i + 1; j < resolved.length; j++) {
+        const ingredient = resolved[i].ingredients.find(name => resolved[j].ingredients.includes(name));
+        if (ingredient) {
+          matches.push({
+            indices: [i, j],
+            matchType: 'ingredient',
+            ingredient,
+            severity: InteractionSeverity.HIGH,
+            recommendation: `Both products contain ${ingredient}. Discontinue one or confirm the combined daily dose is within limits.`
+          });
+          continue;
+        }
+
+        const shared = resolved[i].classes.filter(key => resolved[j].classes.includes(key));
+        if (shared.some(key => this.classes.get(key)?.allowsCombination)) continue;
+
+        // Prefer the most specific class, i.e. one that is not a parent of another shared class
+        const drugClass = shared.find(key =>
+          !shared.some(other => other !== key && this.withAncestors([other]).includes(key))
+        );
+        if (drugClass) {
+          matches.push({
+            indices: [i, j],
+            matchType: 'same_class',
+            drugClass,
+            severity: InteractionSeverity.MEDIUM,
+            recommendation: `Two ${this.labelFor(drugClass)} prescribed together. Discontinue one unless combination therapy is intended.`
+          });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Human-readable label for a class key
+   */
+  public labelFor(key: string): string {
+    return this.classes.get(key)?.label || key;
+  }
+
+  /**
+   * Find classes whose key or aliases match a class name
+   */
+  private matchClassName(value: string): string[] {
+    const normalized = this.singular(this.normalize(value));
+    if (!normalized) return [];
+
+    return DRUG_CLASSES
+      .filter(definition =>
+        [definition.key, ...definition.aliases].some(alias => this.singular(this.normalize(alias)) === normalized)
+      )
+      .map(definition => definition.key);
+  }
+
+  /**
+   * Find classes that list a drug name as a member
+   */
+  private matchMember(value: string): string[] {
+    const normalized = this.normalize(value);
+    if (!normalized) return [];
+
+    return DRUG_CLASSES
+      .filter(definition => definition.members.some(member => normalized === member || normalized.startsWith(`${member} `)))
+      .map(definition => definition.key);
+  }
+
+  /**
+   * Expand class keys with all their parent classes
+   */
+  private withAncestors(keys: string[]): string[] {
+    const result = new Set<string>();
+    const queue = [...keys];
+
+    while (queue.length > 0) {
+      const key = queue.shift() as string;
+      if (result.has(key)) continue;
+      result.add(key);
+      queue.push(...(this.classes.get(key)?.parents || []));
+    }
+
+    return Array.from(result);
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+  }
+
+  private singular(value: string): string {
+    return value.endsWith('s') ? value.slice(0, -1) : value;
+  }
+}
+
+export default DrugClassRuleEngine.getInstance();
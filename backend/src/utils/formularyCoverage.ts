@@ -0,0 +1,231 @@
+/**
+ * Formulary tiers, from preferred generics (1) to specialty drugs (5)
+ */
+export type FormularyTier = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Drugs that must have been tried before the plan covers this one
+ */
+export interface StepTherapyRule {
+  requiredDrugs: string[]; // any one of these satisfies the rule
+  description?: string;
+}
+
+/**
+ * Most the plan covers per fill
+ */
+export interface QuantityLimit {
+  quantity: number;
+  days: number;
+}
+
+/**
+ * How a plan covers one drug
+ */
+export interface FormularyEntry {
+  drugName: string;
+  genericName?: string;
+  tier: FormularyTier;
+  covered: boolean; // false for drugs the plan lists as excluded
+  priorAuthorization: boolean;
+  stepTherapy?: StepTherapyRule;
+  quantityLimit?: QuantityLimit;
+  copay?: number; // overrides the tier copay
+  monthlyCost?: number; // estimated full price of a 30 day supply
+}
+
+/**
+ * Patient cost sharing for a tier: a flat copay, or coinsurance as a fraction of the full price
+ */
+export interface TierCostSharing {
+  tier: FormularyTier;
+  copay?: number;
+  coinsurance?: number;
+}
+
+/**
+ * The parts of a formulary needed to assess coverage
+ */
+export interface FormularyPlan {
+  planName: string;
+  entries: FormularyEntry[];
+  tierCostSharing: TierCostSharing[];
+}
+
+export type CoverageStatus = 'covered' | 'covered_with_restrictions' | 'not_covered' | 'not_on_formulary' | 'unknown';
+
+/**
+ * How well a patient's plan covers a medication and what the patient can expect to pay
+ */
+export interface CoverageAssessment {
+  status: CoverageStatus;
+  planName?: string;
+  tier?: FormularyTier;
+  priorAuthorizationRequired: boolean;
+  stepTherapy?: StepTherapyRule & { satisfied: boolean };
+  quantityLimit?: QuantityLimit & { exceeded: boolean };
+  estimatedMonthlyCost?: number; // patient share for 30 days
+  notes: string[];
+}
+
+/**
+ * What is known about the prescription being assessed
+ */
+export interface CoverageContext {
+  medicationHistory?: string[]; // drugs the patient has already tried
+  quantity?: number;
+  daysSupply?: number;
+}
+
+// Ranking penalties for barriers to getting the medication
+const BARRIER_PENALTIES = {
+  notCovered: 100,
+  notOnFormulary: 60,
+  priorAuthorization: 40,
+  stepTherapy: 40,
+  quantityLimit: 15,
+  unknown: 10
+};
+
+/**
+ * Assesses a medication against a plan formulary: tier, exclusions, prior authorisation,
+ * step therapy and quantity limits, with an estimated patient cost
+ */
+export class FormularyCoverageEvaluator {
+  private static instance: FormularyCoverageEvaluator;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): FormularyCoverageEvaluator {
+    if (!FormularyCoverageEvaluator.instance) {
+      FormularyCoverageEvaluator.instance = new FormularyCoverageEvaluator();
+    }
+    return FormularyCoverageEvaluator.instance;
+  }
+
+  /**
+   * Formulary entry for a medication by brand or generic name
+   */
+  public findEntry(plan: FormularyPlan, medication: { name: string; genericName?: string }): FormularyEntry | undefined {
+    const names = [medication.name, medication.genericName].filter(Boolean).map(name => this.normalize(name as string));
+    return plan.entries.find(entry =>
+      [entry.drugName, entry.genericName].some(name => name && names.includes(this.normalize(name)))
+    );
+  }
+
+  /**
+   * Coverage of a medication. Without a plan the coverage is unknown.
+   */
+  public assess(
+    plan: FormularyPlan | undefined,
+    medication: { name: string; genericName?: string },
+    context: CoverageContext = {}
+  ): CoverageAssessment {
+    if (!plan) {
+      return { status: 'unknown', priorAuthorizationRequired: false, notes: ['No formulary on file for the patient\'s plan'] };
+    }
+
+    const entry = this.findEntry(plan, medication);
+    if (!entry) {
+      return {
+        status: 'not_on_formulary',
+        planName: plan.planName,
+        priorAuthorizationRequired: false,
+        notes: [`${medication.name} is not on the ${plan.planName} formulary; a formulary exception may be needed`]
+      };
+    }
+    if (!entry.covered) {
+      return {
+        status: 'not_covered',
+        planName: plan.planName,
+        tier: entry.tier,
+        priorAuthorizationRequired: false,
+        estimatedMonthlyCost: entry.monthlyCost,
+        notes: [`${medication.name} is excluded by ${plan.planName}`]
+      };
+    }
+
+    const notes: string[] = [];
+    if (entry.priorAuthorization) {
+      notes.push('Prior authorisation required');
+    }
+
+    const tried = (context.medicationHistory || []).map(name => this.normalize(name));
+    const stepTherapy = entry.stepTherapy
+      ? {
+        ...entry.stepTherapy,
+        satisfied: entry.stepTherapy.requiredDrugs.some(drug => tried.some(name => name.includes(this.normalize(drug))))
+      }
+      : undefined;
+    if (stepTherapy && !stepTherapy.satisfied) {
+      notes.push(`Step therapy: try ${stepTherapy.requiredDrugs.join(' or ')} first`);
+    }
+
+    const quantityLimit = entry.quantityLimit
+      ? { ...entry.quantityLimit, exceeded: this.exceedsQuantityLimit(entry.quantityLimit, context) }
+      : undefined;
+    if (quantityLimit?.exceeded) {
+      notes.push(`Quantity limit of ${quantityLimit.quantity} per ${quantityLimit.days} days`);
+    }
+
+    const restricted = entry.priorAuthorization || (stepTherapy && !stepTherapy.satisfied) || quantityLimit?.exceeded;
+    return {
+      status: restricted ? 'covered_with_restrictions' : 'covered',
+      planName: plan.planName,
+      tier: entry.tier,
+      priorAuthorizationRequired: entry.priorAuthorization,
+      stepTherapy,
+      quantityLimit,
+      estimatedMonthlyCost: this.patientCost(plan, entry),
+      notes
+    };
+  }
+
+  /**
+   * Ranking penalty for barriers to getting the medication; 0 when it is covered without restrictions
+   */
+  public barrierScore(assessment: CoverageAssessment): number {
+    switch (assessment.status) {
+      case 'not_covered': return BARRIER_PENALTIES.notCovered;
+      case 'not_on_formulary': return BARRIER_PENALTIES.notOnFormulary;
+      case 'unknown': return BARRIER_PENALTIES.unknown;
+      default:
+        return (assessment.priorAuthorizationRequired ? BARRIER_PENALTIES.priorAuthorization : 0)
+          + (assessment.stepTherapy && !assessment.stepTherapy.satisfied ? BARRIER_PENALTIES.stepTherapy : 0)
+          + (assessment.quantityLimit?.exceeded ? BARRIER_PENALTIES.quantityLimit : 0);
+    }
+  }
+
+  /**
+   * Whether the medication can be dispensed under the plan without further paperwork
+   */
+  public isReadilyCovered(assessment: CoverageAssessment): boolean {
+    return assessment.status === 'covered';
+  }
+
+  private patientCost(plan: FormularyPlan, entry: FormularyEntry): number | undefined {
+    if (entry.copay !== undefined) return entry.copay;
+
+    const sharing = plan.tierCostSharing.find(tier => tier.tier === entry.tier);
+    if (sharing?.copay !== undefined) return sharing.copay;
+    if (sharing?.coinsurance !== undefined && entry.monthlyCost !== undefined) {
+      return Math.round(entry.monthlyCost * sharing.coinsurance * 100) / 100;
+    }
+    return entry.monthlyCost;
+  }
+
+  private exceedsQuantityLimit(limit: QuantityLimit, context: CoverageContext): boolean {
+    if (context.quantity === undefined) return false;
+    const days = context.daysSupply ?? limit.days;
+    return context.quantity / days > limit.quantity / limit.days;
+  }
+
+  private normalize(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
+
+export default FormularyCoverageEvaluator.getInstance();
@@ -0,0 +1,590 @@
+import drugClassRules, { ClassifiableMedication } from './drugClassRules';
+
+/**
+ * A medication in the regimen under review
+ */
+export type RegimenMedication = ClassifiableMedication & {
+  startDate?: Date;
+};
+
+/**
+ * Single-drug Beers flag, e.g. from MedicationRepository.checkBeersCriteria
+ */
+export interface SingleDrugBeersFlag {
+  medication: string;
+  reason?: string;
+  recommendation?: string;
+}
+
+/**
+ * Patient context for a regimen review
+ */
+export interface RegimenReviewContext {
+  age?: number;
+  conditions?: string[];
+  beersFlags?: SingleDrugBeersFlag[];
+  asOf?: Date;
+}
+
+/**
+ * A medication's contribution to a cumulative score
+ */
+export interface ScoreContribution {
+  medication: string;
+  score: number;
+}
+
+/**
+ * Beers drug–drug interaction found in the regimen
+ */
+export interface BeersDrugDrugFinding {
+  rule: string;
+  medications: string[];
+  risk: string;
+  recommendation: string;
+}
+
+/**
+ * Beers drug–disease interaction found in the regimen
+ */
+export interface BeersDrugDiseaseFinding {
+  rule: string;
+  medication: string;
+  condition: string;
+  risk: string;
+  recommendation: string;
+}
+
+/**
+ * Suggested deprescribing action
+ */
+export interface DeprescribingSuggestion {
+  medication: string;
+  action: string;
+  rationale: string;
+  priority: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Whole-regimen review for an older adult
+ */
+export interface GeriatricRegimenReview {
+  patientAge?: number;
+  medicationCount: number;
+  polypharmacy: boolean;
+  anticholinergicBurden: {
+    total: number;
+    level: 'none' | 'low' | 'high';
+    contributors: ScoreContribution[];
+  };
+  sedativeLoad: {
+    total: number;
+    contributors: ScoreContribution[];
+  };
+  fallRiskDrugs: {
+    count: number;
+    medications: Array<{ medication: string; categories: string[] }>;
+  };
+  drugDrugPairs: BeersDrugDrugFinding[];
+  drugDiseasePairs: BeersDrugDiseaseFinding[];
+  potentiallyInappropriate: SingleDrugBeersFlag[];
+  deprescribingSuggestions: DeprescribingSuggestion[];
+}
+
+/**
+ * Group of drugs referenced by the rules below, by class key and/or ingredient
+ */
+interface RegimenCategory {
+  label: string;
+  classes?: string[]; // DrugClassRuleEngine class keys
+  members?: string[];
+}
+
+interface ResolvedMedication {
+  medication: RegimenMedication;
+  ingredients: string[];
+  classes: string[];
+}
+
+interface DrugDrugRule {
+  rule: string;
+  categories?: [string, string[]]; // a drug from the first category with a drug from any of the others
+  minCount?: { categories: string[]; count: number }; // N or more distinct drugs across the categories
+  risk: string;
+  recommendation: string;
+}
+
+interface DrugDiseaseRule {
+  rule: string;
+  conditionTerms: string[];
+  categories: string[];
+  exceptMembers?: string[];
+  risk: string;
+  recommendation: string;
+}
+
+// Anticholinergic Cognitive Burden scale scores; unlisted drugs score 0
+const ACB_SCORES: Record<string, number> = {
+  amitriptyline: 3, atropine: 3, benztropine: 3, chlorpheniramine: 3, clemastine: 3, clomipramine: 3,
+  clozapine: 3, darifenacin: 3, desipramine: 3, dicyclomine: 3, dimenhydrinate: 3, diphenhydramine: 3,
+  doxepin: 3, doxylamine: 3, fesoterodine: 3, hydroxyzine: 3, hyoscyamine: 3, imipramine: 3,
+  meclizine: 3, nortriptyline: 3, olanzapine: 3, orphenadrine: 3, oxybutynin: 3, paroxetine: 3,
+  perphenazine: 3, promethazine: 3, quetiapine: 3, scopolamine: 3, solifenacin: 3, thioridazine: 3,
+  tolterodine: 3, trihexyphenidyl: 3, trospium: 3,
+  amantadine: 2, carbamazepine: 2, cyclobenzaprine: 2, cyproheptadine: 2, loxapine: 2, meperidine: 2,
+  oxcarbazepine: 2, pimozide: 2,
+  alprazolam: 1, atenolol: 1, bupropion: 1, captopril: 1, cetirizine: 1, chlorthalidone: 1,
+  cimetidine: 1, codeine: 1, colchicine: 1, diazepam: 1, digoxin: 1, fentanyl: 1, fluvoxamine: 1,
+  furosemide: 1, haloperidol: 1, hydralazine: 1, isosorbide: 1, loperamide: 1, loratadine: 1,
+  metoprolol: 1, morphine: 1, nifedipine: 1, prednisone: 1, ranitidine: 1, risperidone: 1,
+  theophylline: 1, trazodone: 1, triamterene: 1, warfarin: 1
+};
+
+const CATEGORIES: Record<string, RegimenCategory> = {
+  benzodiazepines: { label: 'Benzodiazepine', classes: ['benzodiazepines'], members: ['chlordiazepoxide', 'clorazepate', 'triazolam'] },
+  zDrugs: { label: 'Z-drug hypnotic', members: ['zolpidem', 'zopiclone', 'eszopiclone', 'zaleplon'] },
+  opioids: { label: 'Opioid', classes: ['opioids'], members: ['meperidine', 'tapentadol', 'buprenorphine'] },
+  antipsychotics: {
+    label: 'Antipsychotic',
+    members: ['haloperidol', 'chlorpromazine', 'perphenazine', 'thioridazine', 'loxapine', 'pimozide', 'quetiapine',
+      'olanzapine', 'risperidone', 'aripiprazole', 'ziprasidone', 'clozapine', 'pimavanserin', 'prochlorperazine']
+  },
+  antidepressants: {
+    label: 'Antidepressant',
+    classes: ['ssris', 'snris'],
+    members: ['amitriptyline', 'nortriptyline', 'imipramine', 'desipramine', 'doxepin', 'clomipramine', 'mirtazapine', 'trazodone', 'bupropion']
+  },
+  tertiaryTcas: { label: 'Tertiary tricyclic antidepressant', members: ['amitriptyline', 'imipramine', 'doxepin', 'clomipramine', 'trimipramine'] },
+  antiepileptics: {
+    label: 'Antiepileptic',
+    classes: ['aromatic-anticonvulsants'],
+    members: ['levetiracetam', 'valproate', 'valproic acid', 'topiramate', 'lacosamide', 'gabapentin', 'pregabalin']
+  },
+  gabapentinoids: { label: 'Gabapentinoid', members: ['gabapentin', 'pregabalin'] },
+  muscleRelaxants: { label: 'Skeletal muscle relaxant', members: ['cyclobenzaprine', 'methocarbamol', 'carisoprodol', 'metaxalone', 'orphenadrine', 'tizanidine', 'baclofen'] },
+  sedatingAntihistamines: { label: 'Sedating antihistamine', members: ['diphenhydramine', 'hydroxyzine', 'promethazine', 'chlorpheniramine', 'doxylamine', 'meclizine', 'dimenhydrinate'] },
+  loopDiuretics: { label: 'Loop diuretic', members: ['furosemide', 'bumetanide', 'torsemide'] },
+  alphaBlockers: { label: 'Alpha-1 blocker', members: ['doxazosin', 'prazosin', 'terazosin', 'tamsulosin', 'alfuzosin'] },
+  peripheralAlphaBlockers: { label: 'Non-selective peripheral alpha-1 blocker', members: ['doxazosin', 'prazosin', 'terazosin'] },
+  hypoglycemics: { label: 'Insulin or sulfonylurea', members: ['insulin', 'glipizide', 'glyburide', 'glimepiride', 'gliclazide'] },
+  nsaids: { label: 'NSAID', classes: ['nsaids', 'cox-2-inhibitors'] },
+  rasInhibitors: { label: 'ACE inhibitor or ARB', classes: ['ace-inhibitors', 'arbs'] },
+  potassiumSparingDiuretics: { label: 'Potassium-sparing diuretic', classes: ['potassium-sparing-diuretics'] },
+  warfarin: { label: 'Warfarin', members: ['warfarin'] },
+  warfarinInteractors: {
+    label: 'Drug that raises bleeding risk with warfarin',
+    classes: ['ssris'],
+    members: ['amiodarone', 'ciprofloxacin', 'clarithromycin', 'erythromycin', 'sulfamethoxazole']
+  },
+  lithium: { label: 'Lithium', members: ['lithium'] },
+  lithiumInteractors: { label: 'ACE inhibitor, ARB or loop diuretic', classes: ['ace-inhibitors', 'arbs'], members: ['furosemide', 'bumetanide', 'torsemide'] },
+  nondihydropyridineCcbs: { label: 'Non-dihydropyridine calcium channel blocker', members: ['diltiazem', 'verapamil'] },
+  thiazolidinediones: { label: 'Thiazolidinedione', classes: ['thiazolidinediones'] },
+  cholinesteraseInhibitors: { label: 'Acetylcholinesterase inhibitor', members: ['donepezil', 'rivastigmine', 'galantamine'] },
+  dopamineAntagonistAntiemetics: { label: 'Dopamine-antagonist antiemetic', members: ['metoclopramide', 'prochlorperazine', 'promethazine'] },
+  protonPumpInhibitors: { label: 'Proton pump inhibitor', classes: ['proton-pump-inhibitors'] }
+};
+
+// Linjakumpu sedative load: primary sedatives score 2, drugs with prominent sedation score 1
+const SEDATIVE_CATEGORY_SCORES: Array<[string, number]> = [
+  ['benzodiazepines', 2],
+  ['zDrugs', 2],
+  ['opioids', 2],
+  ['antipsychotics', 2],
+  ['sedatingAntihistamines', 1],
+  ['tertiaryTcas', 1],
+  ['gabapentinoids', 1],
+  ['muscleRelaxants', 1]
+];
+const SEDATIVE_MEMBERS: Record<string, number> = { mirtazapine: 1, trazodone: 1, nortriptyline: 1, clonidine: 1, phenobarbital: 2 };
+
+const FALL_RISK_CATEGORIES = [
+  'benzodiazepines', 'zDrugs', 'opioids', 'antipsychotics', 'antidepressants', 'antiepileptics',
+  'sedatingAntihistamines', 'muscleRelaxants', 'loopDiuretics', 'alphaBlockers', 'hypoglycemics'
+];
+
+const CNS_ACTIVE_CATEGORIES = ['antiepileptics', 'antidepressants', 'antipsychotics', 'benzodiazepines', 'zDrugs', 'opioids', 'muscleRelaxants'];
+
+// AGS Beers Criteria drug–drug interactions to avoid in older adults
+const DRUG_DRUG_RULES: DrugDrugRule[] = [
+  {
+    rule: 'opioid-benzodiazepine',
+    categories: ['opioids', ['benzodiazepines', 'zDrugs']],
+    risk: 'Increased risk of overdose and respiratory depression',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'opioid-gabapentinoid',
+    categories: ['opioids', ['gabapentinoids']],
+    risk: 'Increased risk of severe sedation, respiratory depression and death',
+    recommendation: 'Avoid, except when transitioning from opioid therapy to a gabapentinoid'
+  },
+  {
+    rule: 'cns-active-combination',
+    minCount: { categories: CNS_ACTIVE_CATEGORIES, count: 3 },
+    risk: 'Three or more CNS-active drugs increase the risk of falls and fracture',
+    recommendation: 'Avoid a total of three or more CNS-active drugs; minimize the number'
+  },
+  {
+    rule: 'ras-inhibitor-potassium-sparing-diuretic',
+    categories: ['rasInhibitors', ['potassiumSparingDiuretics']],
+    risk: 'Increased risk of hyperkalemia',
+    recommendation: 'Avoid in patients with chronic kidney disease stage 3a or higher'
+  },
+  {
+    rule: 'warfarin-bleeding',
+    categories: ['warfarin', ['warfarinInteractors']],
+    risk: 'Increased risk of bleeding',
+    recommendation: 'Avoid when possible; if used together, monitor INR closely'
+  },
+  {
+    rule: 'lithium-toxicity',
+    categories: ['lithium', ['lithiumInteractors']],
+    risk: 'Increased risk of lithium toxicity',
+    recommendation: 'Avoid; monitor lithium concentrations if unavoidable'
+  },
+  {
+    rule: 'alpha-blocker-loop-diuretic',
+    categories: ['peripheralAlphaBlockers', ['loopDiuretics']],
+    risk: 'Increased risk of urinary incontinence in older women',
+    recommendation: 'Avoid in older women unless conditions warrant both drugs'
+  }
+];
+
+// AGS Beers Criteria drug–disease interactions
+const DRUG_DISEASE_RULES: DrugDiseaseRule[] = [
+  {
+    rule: 'falls',
+    conditionTerms: ['fall', 'fracture', 'osteoporosis'],
+    categories: ['antiepileptics', 'antipsychotics', 'benzodiazepines', 'zDrugs', 'antidepressants', 'opioids'],
+    risk: 'May cause ataxia, impaired psychomotor function, syncope and additional falls',
+    recommendation: 'Avoid unless safer alternatives are not available'
+  },
+  {
+    rule: 'dementia',
+    conditionTerms: ['dementia', 'alzheimer', 'cognitive impairment'],
+    categories: ['strongAnticholinergics', 'benzodiazepines', 'zDrugs', 'antipsychotics'],
+    risk: 'Adverse CNS effects and worsening cognition',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'delirium',
+    conditionTerms: ['delirium'],
+    categories: ['strongAnticholinergics', 'antipsychotics', 'benzodiazepines', 'zDrugs'],
+    risk: 'May induce or worsen delirium',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'heart-failure',
+    conditionTerms: ['heart failure', 'chf'],
+    categories: ['nsaids', 'nondihydropyridineCcbs', 'thiazolidinediones'],
+    risk: 'Fluid retention and worsening heart failure',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'chronic-kidney-disease',
+    conditionTerms: ['chronic kidney disease', 'ckd', 'renal insufficiency', 'renal failure'],
+    categories: ['nsaids'],
+    risk: 'May increase the risk of acute kidney injury and further decline in renal function',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'peptic-ulcer',
+    conditionTerms: ['ulcer', 'gastrointestinal bleed', 'gi bleed'],
+    categories: ['nsaids'],
+    risk: 'May exacerbate existing ulcers or cause new ulcers',
+    recommendation: 'Avoid unless other alternatives are not effective and a gastroprotective agent is used'
+  },
+  {
+    rule: 'parkinson-disease',
+    conditionTerms: ['parkinson'],
+    categories: ['antipsychotics', 'dopamineAntagonistAntiemetics'],
+    exceptMembers: ['quetiapine', 'clozapine', 'pimavanserin'],
+    risk: 'Dopamine-receptor antagonists may worsen parkinsonian symptoms',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'lower-urinary-tract-symptoms',
+    conditionTerms: ['benign prostatic hyperplasia', 'bph', 'urinary retention', 'lower urinary tract'],
+    categories: ['strongAnticholinergics'],
+    risk: 'May decrease urinary flow and cause urinary retention',
+    recommendation: 'Avoid'
+  },
+  {
+    rule: 'syncope',
+    conditionTerms: ['syncope'],
+    categories: ['cholinesteraseInhibitors', 'peripheralAlphaBlockers', 'tertiaryTcas', 'antipsychotics'],
+    risk: 'Increased risk of orthostatic hypotension or bradycardia',
+    recommendation: 'Avoid'
+  }
+];
+
+// Less anticholinergic or sedating options suggested when deprescribing
+const ALTERNATIVES: Record<string, string> = {
+  diphenhydramine: 'loratadine for allergy, or sleep hygiene and CBT-I for insomnia',
+  hydroxyzine: 'a non-sedating antihistamine such as loratadine',
+  doxylamine: 'sleep hygiene and CBT-I',
+  oxybutynin: 'mirabegron or behavioural therapy',
+  tolterodine: 'mirabegron or behavioural therapy',
+  amitriptyline: 'duloxetine for neuropathic pain, or an SSRI such as sertraline for depression',
+  paroxetine: 'sertraline or escitalopram',
+  cyclobenzaprine: 'physical therapy and acetaminophen',
+  zolpidem: 'CBT-I'
+};
+
+const STRONG_ANTICHOLINERGIC_SCORE = 3;
+const POLYPHARMACY_THRESHOLD = 5;
+const PPI_MAX_WEEKS = 8;
+
+/**
+ * Reviews a whole medication regimen for an older adult: anticholinergic burden, sedative load,
+ * fall-risk-increasing drugs and Beers Criteria drug–drug and drug–disease pairs
+ */
+export class GeriatricRegimenReviewer {
+  private static instance: GeriatricRegimenReviewer;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): GeriatricRegimenReviewer {
+    if (!GeriatricRegimenReviewer.instance) {
+      GeriatricRegimenReviewer.instance = new GeriatricRegimenReviewer();
+    }
+    return GeriatricRegimenReviewer.instance;
+  }
+
+  /**
+   * Review a regimen and suggest deprescribing actions
+   */
+  public review(medications: RegimenMedication[], context: RegimenReviewContext = {}): GeriatricRegimenReview {
+    const resolved = medications.map(medication => ({
+      medication,
+      ingredients: drugClassRules.getIngredients(medication),
+      classes: drugClassRules.resolveMedicationClasses(medication)
+    }));
+
+    const anticholinergic = resolved
+      .map(({ medication, ingredients }) => ({
+        medication: medication.name,
+        score: ingredients.reduce((sum, ingredient) => sum + (ACB_SCORES[ingredient] || 0), 0)
+      }))
+      .filter(contribution => contribution.score > 0);
+    const anticholinergicTotal = anticholinergic.reduce((sum, c) => sum + c.score, 0);
+
+    const sedative = resolved
+      .map(({ medication, ingredients, classes }) => ({
+        medication: medication.name,
+        score: Math.max(
+          0,
+          ...SEDATIVE_CATEGORY_SCORES
+            .filter(([category]) => this.inCategory(category, ingredients, classes))
+            .map(([, score]) => score),
+          ...ingredients.map(ingredient => SEDATIVE_MEMBERS[ingredient] || 0)
+        )
+      }))
+      .filter(contribution => contribution.score > 0);
+
+    const fallRisk = resolved
+      .map(({ medication, ingredients, classes }) => ({
+        medication: medication.name,
+        categories: FALL_RISK_CATEGORIES
+          .filter(category => this.inCategory(category, ingredients, classes))
+          .map(category => CATEGORIES[category].label)
+      }))
+      .filter(entry => entry.categories.length > 0);
+
+    const drugDrugPairs = this.matchDrugDrugRules(resolved);
+    const drugDiseasePairs = this.matchDrugDiseaseRules(resolved, context.conditions || []);
+    const potentiallyInappropriate = context.beersFlags || [];
+
+    const review: GeriatricRegimenReview = {
+      patientAge: context.age,
+      medicationCount: medications.length,
+      polypharmacy: medications.length >= POLYPHARMACY_THRESHOLD,
+      anticholinergicBurden: {
+        total: anticholinergicTotal,
+        level: anticholinergicTotal >= 3 ? 'high' : anticholinergicTotal > 0 ? 'low' : 'none',
+        contributors: anticholinergic
+      },
+      sedativeLoad: {
+        total: sedative.reduce((sum, c) => sum + c.score, 0),
+        contributors: sedative
+      },
+      fallRiskDrugs: {
+        count: fallRisk.length,
+        medications: fallRisk
+      },
+      drugDrugPairs,
+      drugDiseasePairs,
+      potentiallyInappropriate,
+      deprescribingSuggestions: []
+    };
+
+    review.deprescribingSuggestions = this.suggestDeprescribing(resolved, review, context.asOf || new Date());
+    return review;
+  }
+
+  private matchDrugDrugRules(resolved: ResolvedMedication[]): BeersDrugDrugFinding[] {
+    const findings: BeersDrugDrugFinding[] = [];
+
+    for (const rule of DRUG_DRUG_RULES) {
+      if (rule.categories) {
+        const [first, others] = rule.categories;
+        const firstMeds = resolved.filter(r => this.inCategory(first, r.ingredients, r.classes));
+        for (const a of firstMeds) {
+          for (const b of resolved) {
+            if (a === b || !others.some(category => this.inCategory(category, b.ingredients, b.classes))) continue;
+            findings.push({
+              rule: rule.rule,
+              medications: [a.medication.name, b.medication.name],
+              risk: rule.risk,
+              recommendation: rule.recommendation
+            });
+          }
+        }
+      } else if (rule.minCount) {
+        const { categories, count } = rule.minCount;
+        const matching = resolved.filter(r => categories.some(category => this.inCategory(category, r.ingredients, r.classes)));
+        if (matching.length >= count) {
+          findings.push({
+            rule: rule.rule,
+            medications: matching.map(r => r.medication.name),
+            risk: rule.risk,
+            recommendation: rule.recommendation
+          });
+        }
+      }
+    }
+
+    // Two or more strongly anticholinergic drugs
+    const strong = resolved.filter(r => this.inCategory('strongAnticholinergics', r.ingredients, r.classes));
+    if (strong.length >= 2) {
+      findings.push({
+        rule: 'anticholinergic-combination',
+        medications: strong.map(r => r.medication.name),
+        risk: 'Increased risk of cognitive decline, delirium and falls',
+        recommendation: 'Avoid; minimize the number of anticholinergic drugs'
+      });
+    }
+
+    return findings;
+  }
+
+  private matchDrugDiseaseRules(resolved: ResolvedMedication[], conditions: string[]): BeersDrugDiseaseFinding[] {
+    const findings: BeersDrugDiseaseFinding[] = [];
+
+    for (const condition of conditions) {
+      const normalized = condition.toLowerCase();
+      for (const rule of DRUG_DISEASE_RULES) {
+        if (!rule.conditionTerms.some(term => normalized.includes(term))) continue;
+
+        for (const r of resolved) {
+          if (rule.exceptMembers && r.ingredients.some(ingredient => rule.exceptMembers!.includes(ingredient))) continue;
+          if (!rule.categories.some(category => this.inCategory(category, r.ingredients, r.classes))) continue;
+          findings.push({
+            rule: rule.rule,
+            medication: r.medication.name,
+            condition,
+            risk: rule.risk,
+            recommendation: rule.recommendation
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private suggestDeprescribing(
+    resolved: ResolvedMedication[],
+    review: GeriatricRegimenReview,
+    asOf: Date
+  ): DeprescribingSuggestion[] {
+    const suggestions = new Map<string, DeprescribingSuggestion>();
+    const rank = { high: 3, medium: 2, low: 1 };
+    // Keep the highest-priority suggestion for each medication
+    const add = (suggestion: DeprescribingSuggestion) => {
+      const existing = suggestions.get(suggestion.medication);
+      if (!existing || rank[suggestion.priority] > rank[existing.priority]) {
+        suggestions.set(suggestion.medication, suggestion);
+      }
+    };
+
+    for (const finding of review.drugDiseasePairs) {
+      add({
+        medication: finding.medication,
+        action: `Stop or replace; ${finding.recommendation.toLowerCase()} with ${finding.condition}`,
+        rationale: finding.risk,
+        priority: 'high'
+      });
+    }
+
+    for (const r of resolved) {
+      const name = r.medication.name;
+      const alternative = r.ingredients.map(ingredient => ALTERNATIVES[ingredient]).find(Boolean);
+
+      if (this.inCategory('benzodiazepines', r.ingredients, r.classes) || this.inCategory('zDrugs', r.ingredients, r.classes)) {
+        add({
+          medication: name,
+          action: `Taper gradually (e.g. 25% every 2 weeks)${alternative ? ` and offer ${alternative}` : ''}`,
+          rationale: 'Sedative-hypnotics increase the risk of falls, fractures, cognitive impairment and delirium',
+          priority: 'high'
+        });
+      } else if (this.inCategory('strongAnticholinergics', r.ingredients, r.classes)) {
+        add({
+          medication: name,
+          action: alternative ? `Replace with ${alternative}` : 'Replace with a less anticholinergic alternative',
+          rationale: 'Strongly anticholinergic (ACB score 3)',
+          priority: review.anticholinergicBurden.level === 'high' ? 'high' : 'medium'
+        });
+      } else if (this.inCategory('protonPumpInhibitors', r.ingredients, r.classes) && r.medication.startDate) {
+        const weeks = (asOf.getTime() - new Date(r.medication.startDate).getTime()) / (7 * 24 * 60 * 60 * 1000);
+        if (weeks > PPI_MAX_WEEKS) {
+          add({
+            medication: name,
+            action: 'Step down or stop unless there is a high-risk indication',
+            rationale: `Used for more than ${PPI_MAX_WEEKS} weeks; risk of C. difficile infection, bone loss and fractures`,
+            priority: 'low'
+          });
+        }
+      }
+    }
+
+    for (const finding of review.drugDrugPairs) {
+      // The last drug in the pair is usually the add-on; suggest reviewing it
+      const medication = finding.medications[finding.medications.length - 1];
+      add({
+        medication,
+        action: `Review need for ${medication}; ${finding.recommendation.toLowerCase()}`,
+        rationale: finding.risk,
+        priority: 'medium'
+      });
+    }
+
+    for (const flag of review.potentiallyInappropriate) {
+      add({
+        medication: flag.medication,
+        action: flag.recommendation || 'Consider a safer alternative',
+        rationale: flag.reason || 'Potentially inappropriate in older adults (Beers Criteria)',
+        priority: 'medium'
+      });
+    }
+
+    return Array.from(suggestions.values()).sort((a, b) => rank[b.priority] - rank[a.priority]);
+  }
+
+  private inCategory(category: string, ingredients: string[], classes: string[]): boolean {
+    if (category === 'strongAnticholinergics') {
+      return ingredients.some(ingredient => (ACB_SCORES[ingredient] || 0) >= STRONG_ANTICHOLINERGIC_SCORE);
+    }
+
+    const definition = CATEGORIES[category];
+    if (!definition) return false;
+    return (definition.classes || []).some(key => classes.includes(key)) ||
+      (definition.members || []).some(member => ingredients.some(ingredient => ingredient === member || ingredient.startsWith(`${member} `)));
+  }
+}
+
+export default GeriatricRegimenReviewer.getInstance();
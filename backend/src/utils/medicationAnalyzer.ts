@@ -1,4 +1,5 @@
 import { IMedication } from '../models/Medication';
+import doseAdjustmentEngine, { DoseAdjustmentResult, OrganFunctionAssessment } from './doseAdjustment';
 import logger from './logger';
 
 /**
@@ -11,7 +12,8 @@ export interface DosageRange {
   frequency?: string;
   route?: string;
   ageGroup?: 'adult' | 'pediatric' | 'geriatric';
-  weightBased?: boolean;
+  weightBased?: boolean; // min/max are per kg
+  bsaBased?: boolean; // min/max are per m² of body surface area
   condition?: string;
 }
 
@@ -122,17 +124,21 @@ export class MedicationAnalyzer {
   
   /**
    * Check if a dosage is within the recommended range
+   * @param organFunction Optional kidney/liver assessment; narrows the range for medications
+   *                      flagged with renalAdjustment or hepaticAdjustment
    */
   public checkDosage(
     medication: IMedication, 
     dosageString: string, 
     patientWeight?: number,
     patientAge?: number,
-    condition?: string
+    condition?: string,
+    organFunction?: OrganFunctionAssessment
   ): { 
     isWithinRange: boolean; 
     message?: string; 
-    recommendedRange?: DosageRange 
+    recommendedRange?: DosageRange;
+    doseAdjustment?: DoseAdjustmentResult;
   } {
     try {
       const parsedDosage = this.parseDosage(dosageString);
@@ -194,21 +200,32 @@ export class MedicationAnalyzer {
         };
       }
       
+      // Narrow the range for impaired kidney or liver function
+      let doseAdjustment: DoseAdjustmentResult | undefined;
+      if (organFunction && (medication.renalAdjustment || medication.hepaticAdjustment)) {
+        doseAdjustment = doseAdjustmentEngine.calculateDoseAdjustment(medication, organFunction, relevantDosage);
+        if (doseAdjustment.requiresAdjustment && doseAdjustment.adjustedRange) {
+          relevantDosage = doseAdjustment.adjustedRange;
+        }
+      }
+      
       // Check if dosage is within range
       const isWithinRange = normalizedValue >= relevantDosage.min && normalizedValue <= relevantDosage.max;
       
       if (isWithinRange) {
         return {
           isWithinRange: true,
-          recommendedRange: relevantDosage
+          recommendedRange: relevantDosage,
+          doseAdjustment
         };
       } else {
         return {
           isWithinRange: false,
           message: normalizedValue < relevantDosage.min 
             ? `Dosage too low. Recommended minimum: ${relevantDosage.min} ${relevantDosage.unit}` 
-            : `Dosage too high. Recommended maximum: ${relevantDosage.max} ${relevantDosage.unit}`,
-          recommendedRange: relevantDosage
+            : `Dosage too high. Recommended maximum: ${relevantDosage.max} ${relevantDosage.unit}${doseAdjustment?.requiresAdjustment ? ' (adjusted for organ function)' : ''}`,
+          recommendedRange: relevantDosage,
+          doseAdjustment
         };
       }
     } catch (error) {
@@ -0,0 +1,453 @@
+import crypto from 'crypto';
+
+/**
+ * SCRIPT transactions exchanged with pharmacies
+ */
+export type ScriptMessageType =
+  | 'NewRx'
+  | 'CancelRx'
+  | 'RxRenewalResponse'
+  | 'Status'
+  | 'Verify'
+  | 'Error'
+  | 'RxFill'
+  | 'CancelRxResponse'
+  | 'RxRenewalRequest';
+
+/**
+ * Lifecycle of a prescription sent to a pharmacy
+ */
+export type TransmissionStatus =
+  | 'pending'
+  | 'sent'
+  | 'acknowledged'
+  | 'filled'
+  | 'cancel_requested'
+  | 'cancelled'
+  | 'error';
+
+/**
+ * Routing and correlation fields of a message
+ */
+export interface ScriptHeader {
+  to: string; // pharmacy NCPDP ID, or prescriber ID on inbound messages
+  from: string;
+  messageId: string;
+  relatesToMessageId?: string;
+  sentTime: Date;
+  prescriberOrderNumber?: string; // our medication line ID, echoed back by the pharmacy
+}
+
+export interface ScriptPatient {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  gender?: string;
+  dateOfBirth?: Date;
+}
+
+export interface ScriptPrescriber {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  npi?: string;
+  stateLicenseNumber?: string;
+  deaNumber?: string;
+}
+
+export interface ScriptMedication {
+  description: string; // drug name and strength
+  directions: string; // sig text
+  quantity?: number;
+  daysSupply?: number;
+  refills: number;
+  substitutionAllowed?: boolean;
+  writtenDate: Date;
+  note?: string;
+}
+
+/**
+ * Content of a NewRx, also used for the medication section of cancels and renewals
+ */
+export interface NewRxInput {
+  patient: ScriptPatient;
+  prescriber: ScriptPrescriber;
+  pharmacy: { id: string; name?: string };
+  medication: ScriptMedication;
+  prescriberOrderNumber: string;
+}
+
+/**
+ * A parsed message. Body fields are flattened to dotted paths below the transaction
+ * element, e.g. "Response.Approved" or "MedicationDispensed.Quantity.Value".
+ */
+export interface ParsedScriptMessage {
+  type: ScriptMessageType;
+  header: ScriptHeader;
+  fields: Record<string, string>;
+}
+
+/**
+ * Effect of an inbound message on a transmission
+ */
+export interface StatusChange {
+  status: TransmissionStatus;
+  note?: string;
+}
+
+/**
+ * Element content for serialisation: child elements by tag, with optional attributes or text
+ */
+export type XmlValue = string | number | undefined | XmlElement | XmlValue[];
+export interface XmlElement {
+  _attrs?: Record<string, string>;
+  _text?: string;
+  [tag: string]: XmlValue | Record<string, string>;
+}
+
+interface ParsedNode {
+  tag: string;
+  text: string;
+  children: ParsedNode[];
+}
+
+const MESSAGE_TYPES: ScriptMessageType[] = [
+  'NewRx', 'CancelRx', 'RxRenewalResponse', 'Status', 'Verify', 'Error', 'RxFill', 'CancelRxResponse', 'RxRenewalRequest'
+];
+
+const SCRIPT_VERSION = '2017071';
+
+// NCI codes for the dispensing unit; "unspecified" when the sig does not say
+const QUANTITY_UNIT_UNSPECIFIED = 'C38046';
+
+const GENDER_CODES: Record<string, string> = { male: 'M', female: 'F', m: 'M', f: 'F' };
+
+/**
+ * Serialises prescriptions to NCPDP SCRIPT-style XML transactions and parses the
+ * responses pharmacies send back. Element names follow SCRIPT 2017071; only the subset
+ * needed for new prescriptions, cancels, fills and renewals is covered.
+ */
+export class NcpdpScriptCodec {
+  private static instance: NcpdpScriptCodec;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): NcpdpScriptCodec {
+    if (!NcpdpScriptCodec.instance) {
+      NcpdpScriptCodec.instance = new NcpdpScriptCodec();
+    }
+    return NcpdpScriptCodec.instance;
+  }
+
+  /**
+   * A new message ID
+   */
+  public newMessageId(): string {
+    return crypto.randomUUID().replace(/-/g, '');
+  }
+
+  /**
+   * Serialise a new prescription
+   */
+  public buildNewRx(header: ScriptHeader, input: NewRxInput): string {
+    return this.build('NewRx', header, {
+      Patient: this.patientElement(input.patient),
+      Pharmacy: {
+        Identification: { NCPDPID: input.pharmacy.id },
+        BusinessName: input.pharmacy.name
+      },
+      Prescriber: this.prescriberElement(input.prescriber),
+      MedicationPrescribed: this.medicationElement(input.medication)
+    });
+  }
+
+  /**
+   * Serialise a request to cancel a previously sent prescription
+   */
+  public buildCancelRx(header: ScriptHeader, input: NewRxInput, reason?: string): string {
+    return this.build('CancelRx', header, {
+      Patient: this.patientElement(input.patient),
+      Prescriber: this.prescriberElement(input.prescriber),
+      MedicationPrescribed: { ...this.medicationElement(input.medication), Note: reason }
+    });
+  }
+
+  /**
+   * Serialise the prescriber's answer to a pharmacy renewal request
+   */
+  public buildRenewalResponse(
+    header: ScriptHeader,
+    input: NewRxInput,
+    decision: { approved: boolean; refills?: number; note?: string }
+  ): string {
+    const response: XmlElement = decision.approved
+      ? { Approved: { Note: decision.note } }
+      : { Denied: { ReasonCode: 'AP', DenialReason: decision.note } };
+
+    return this.build('RxRenewalResponse', header, {
+      Response: response,
+      Patient: this.patientElement(input.patient),
+      Prescriber: this.prescriberElement(input.prescriber),
+      MedicationPrescribed: decision.approved
+        ? this.medicationElement({ ...input.medication, refills: decision.refills ?? input.medication.refills })
+        : undefined
+    });
+  }
+
+  /**
+   * Serialise a message with an arbitrary body; used by pharmacy implementations
+   */
+  public build(type: ScriptMessageType, header: ScriptHeader, body: XmlElement): string {
+    const message: XmlElement = {
+      _attrs: {
+        DatatypesVersion: SCRIPT_VERSION,
+        TransportVersion: SCRIPT_VERSION,
+        TransactionDomain: 'SCRIPT',
+        TransactionVersion: SCRIPT_VERSION,
+        StructuresVersion: SCRIPT_VERSION,
+        ECLVersion: SCRIPT_VERSION
+      },
+      Header: {
+        To: { _attrs: { Qualifier: 'P' }, _text: header.to },
+        From: { _attrs: { Qualifier: 'C' }, _text: header.from },
+        MessageID: header.messageId,
+        RelatesToMessageID: header.relatesToMessageId,
+        SentTime: header.sentTime.toISOString(),
+        PrescriberOrderNumber: header.prescriberOrderNumber
+      },
+      Body: { [type]: body }
+    };
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    this.writeElement('Message', message, 0, lines);
+    return lines.join('\n');
+  }
+
+  /**
+   * Parse a SCRIPT message
+   */
+  public parse(xml: string): ParsedScriptMessage {
+    const root = this.parseXml(xml);
+    if (root.tag !== 'Message') {
+      throw new Error(`Expected a SCRIPT Message, found <${root.tag}>`);
+    }
+
+    const headerNode = root.children.find(child => child.tag === 'Header');
+    const transaction = root.children.find(child => child.tag === 'Body')?.children[0];
+    if (!headerNode || !transaction) {
+      throw new Error('SCRIPT message is missing its Header or Body');
+    }
+    if (!MESSAGE_TYPES.includes(transaction.tag as ScriptMessageType)) {
+      throw new Error(`Unsupported SCRIPT transaction ${transaction.tag}`);
+    }
+
+    const header: Record<string, string> = {};
+    this.flatten(headerNode, '', header);
+    if (!header.MessageID) {
+      throw new Error('SCRIPT message has no MessageID');
+    }
+
+    const fields: Record<string, string> = {};
+    this.flatten(transaction, '', fields);
+
+    return {
+      type: transaction.tag as ScriptMessageType,
+      header: {
+        to: header.To || '',
+        from: header.From || '',
+        messageId: header.MessageID,
+        relatesToMessageId: header.RelatesToMessageID,
+        sentTime: header.SentTime ? new Date(header.SentTime) : new Date(),
+        prescriberOrderNumber: header.PrescriberOrderNumber
+      },
+      fields
+    };
+  }
+
+  /**
+   * How an inbound message moves a transmission on, or undefined when it does not apply
+   * in the current status
+   */
+  public nextStatus(current: TransmissionStatus, message: ParsedScriptMessage): StatusChange | undefined {
+    const { fields } = message;
+
+    switch (message.type) {
+      case 'Status':
+      case 'Verify':
+        return current === 'sent' ? { status: 'acknowledged' } : undefined;
+
+      case 'Error':
+        return ['sent', 'acknowledged', 'cancel_requested'].includes(current)
+          ? { status: 'error', note: [fields.Code, fields.Description].filter(Boolean).join(': ') || undefined }
+          : undefined;
+
+      case 'RxFill': {
+        if (!['sent', 'acknowledged', 'filled'].includes(current)) return undefined;
+        if (this.has(fields, 'FillStatus.NotDispensed')) {
+          return { status: current === 'sent' ? 'acknowledged' : current, note: fields['FillStatus.NotDispensed.Note'] || 'Not dispensed' };
+        }
+        return { status: 'filled', note: this.has(fields, 'FillStatus.PartiallyDispensed') ? 'Partially dispensed' : undefined };
+      }
+
+      case 'CancelRxResponse':
+        if (current !== 'cancel_requested') return undefined;
+        return this.has(fields, 'Response.Approved')
+          ? { status: 'cancelled', note: fields['Response.Approved.Note'] }
+          : { status: 'acknowledged', note: fields['Response.Denied.DenialReason'] || 'Cancellation denied by pharmacy' };
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Whether an element is present, empty or not
+   */
+  private has(fields: Record<string, string>, path: string): boolean {
+    return path in fields || Object.keys(fields).some(key => key.startsWith(`${path}.`));
+  }
+
+  private patientElement(patient: ScriptPatient): XmlElement {
+    return {
+      HumanPatient: {
+        Identification: { PatientAccountNumber: patient.id },
+        Name: { LastName: patient.lastName, FirstName: patient.firstName },
+        Gender: patient.gender ? GENDER_CODES[patient.gender.toLowerCase()] || 'U' : 'U',
+        DateOfBirth: patient.dateOfBirth ? { Date: this.date(patient.dateOfBirth) } : undefined
+      }
+    };
+  }
+
+  private prescriberElement(prescriber: ScriptPrescriber): XmlElement {
+    return {
+      NonVeterinarian: {
+        Identification: {
+          NPI: prescriber.npi,
+          StateLicenseNumber: prescriber.stateLicenseNumber,
+          DEANumber: prescriber.deaNumber
+        },
+        Name: { LastName: prescriber.lastName, FirstName: prescriber.firstName }
+      }
+    };
+  }
+
+  private medicationElement(medication: ScriptMedication): XmlElement {
+    return {
+      DrugDescription: medication.description,
+      Quantity: medication.quantity !== undefined
+        ? {
+          Value: medication.quantity,
+          CodeListQualifier: '38', // original quantity
+          QuantityUnitOfMeasure: { Code: QUANTITY_UNIT_UNSPECIFIED }
+        }
+        : undefined,
+      DaysSupply: medication.daysSupply,
+      WrittenDate: { Date: this.date(medication.writtenDate) },
+      Substitutions: medication.substitutionAllowed === false ? '1' : '0',
+      NumberOfRefills: medication.refills,
+      Sig: { SigText: medication.directions },
+      Note: medication.note
+    };
+  }
+
+  private writeElement(tag: string, value: XmlValue, depth: number, lines: string[]): void {
+    const indent = '  '.repeat(depth);
+    if (value === undefined || value === '') return;
+
+    if (Array.isArray(value)) {
+      value.forEach(item => this.writeElement(tag, item, depth, lines));
+      return;
+    }
+
+    if (typeof value !== 'object') {
+      lines.push(`${indent}<${tag}>${this.escapeXml(String(value))}</${tag}>`);
+      return;
+    }
+
+    const attrs = Object.entries(value._attrs || {})
+      .map(([name, attr]) => ` ${name}="${this.escapeXml(attr)}"`)
+      .join('');
+    if (value._text !== undefined) {
+      lines.push(`${indent}<${tag}${attrs}>${this.escapeXml(value._text)}</${tag}>`);
+      return;
+    }
+
+    const children = Object.entries(value).filter(([key, child]) => !key.startsWith('_') && child !== undefined && child !== '');
+    if (children.length === 0) {
+      lines.push(`${indent}<${tag}${attrs}/>`);
+      return;
+    }
+    lines.push(`${indent}<${tag}${attrs}>`);
+    children.forEach(([key, child]) => this.writeElement(key, child as XmlValue, depth + 1, lines));
+    lines.push(`${indent}</${tag}>`);
+  }
+
+  /**
+   * Minimal XML reader for SCRIPT messages: elements and text only; attributes,
+   * comments and processing instructions are skipped
+   */
+  private parseXml(xml: string): ParsedNode {
+    const tokens = xml.replace(/<\?[\s\S]*?\?>/g, '').replace(/<!--[\s\S]*?-->/g, '').match(/<[^>]+>|[^<]+/g) || [];
+    const stack: ParsedNode[] = [{ tag: '#document', text: '', children: [] }];
+
+    for (const token of tokens) {
+      const current = stack[stack.length - 1];
+      if (token.startsWith('</')) {
+        const tag = token.slice(2, -1).trim();
+        if (current.tag !== tag) throw new Error(`Malformed XML: unexpected </${tag}>`);
+        stack.pop();
+      } else if (token.startsWith('<')) {
+        const selfClosing = token.endsWith('/>');
+        const tag = token.slice(1, selfClosing ? -2 : -1).trim().split(/\s+/)[0];
+        const node: ParsedNode = { tag, text: '', children: [] };
+        current.children.push(node);
+        if (!selfClosing) stack.push(node);
+      } else {
+        current.text += this.unescapeXml(token);
+      }
+    }
+
+    if (stack.length !== 1 || stack[0].children.length !== 1) {
+      throw new Error('Malformed XML: expected a single root element');
+    }
+    return stack[0].children[0];
+  }
+
+  private flatten(node: ParsedNode, prefix: string, fields: Record<string, string>): void {
+    for (const child of node.children) {
+      const path = prefix ? `${prefix}.${child.tag}` : child.tag;
+      if (child.children.length > 0) {
+        this.flatten(child, path, fields);
+      } else if (!(path in fields)) {
+        fields[path] = child.text.trim();
+      }
+    }
+  }
+
+  private date(value: Date): string {
+    return new Date(value).toISOString().slice(0, 10);
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private unescapeXml(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
+
+export default NcpdpScriptCodec.getInstance();
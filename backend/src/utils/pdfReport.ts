@@ -0,0 +1,205 @@
+/**
+ * A titled block of report lines
+ */
+export interface PdfReportSection {
+  heading: string;
+  lines: string[];
+}
+
+/**
+ * A simple text report rendered to PDF
+ */
+export interface PdfReportDocument {
+  title: string;
+  subtitle?: string;
+  sections: PdfReportSection[];
+  footer?: string;
+}
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+
+const TITLE_SIZE = 16;
+const HEADING_SIZE = 12;
+const BODY_SIZE = 10;
+const SMALL_SIZE = 8;
+
+// Average Helvetica glyph width as a fraction of the font size, used for line wrapping
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+// Characters outside the standard font encoding, replaced before writing
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"',
+  '≥': '>=', '≤': '<=', '•': '-', '…': '...', '²': '2', '³': '3', 'µ': 'mc'
+};
+
+interface PdfLine {
+  text: string;
+  size: number;
+  bold: boolean;
+  gapBefore: number;
+}
+
+/**
+ * Renders text reports to PDF without external dependencies, using the built-in
+ * Helvetica fonts, word wrapping and automatic page breaks
+ */
+export class PdfReportRenderer {
+  private static instance: PdfReportRenderer;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PdfReportRenderer {
+    if (!PdfReportRenderer.instance) {
+      PdfReportRenderer.instance = new PdfReportRenderer();
+    }
+    return PdfReportRenderer.instance;
+  }
+
+  /**
+   * Render a report to a PDF file
+   */
+  public render(report: PdfReportDocument): Buffer {
+    const pages = this.paginate(this.layout(report));
+    const footer = report.footer ? this.sanitize(report.footer) : undefined;
+
+    const objects: string[] = [];
+    // 1: catalog, 2: page tree, 3: regular font, 4: bold font, then a page and content stream per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    const pageIds: number[] = [];
+    pages.forEach((lines, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      pageIds.push(pageId);
+
+      const stream = this.pageStream(lines, `${footer ? `${footer}  ` : ''}Page ${index + 1} of ${pages.length}`);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  /**
+   * Flatten the report into wrapped lines
+   */
+  private layout(report: PdfReportDocument): PdfLine[] {
+    const lines: PdfLine[] = [];
+    const push = (text: string, size: number, bold: boolean, gapBefore: number) => {
+      this.wrap(this.sanitize(text), size).forEach((part, index) => {
+        lines.push({ text: part, size, bold, gapBefore: index === 0 ? gapBefore : 0 });
+      });
+    };
+
+    push(report.title, TITLE_SIZE, true, 0);
+    if (report.subtitle) {
+      push(report.subtitle, BODY_SIZE, false, 4);
+    }
+
+    for (const section of report.sections) {
+      push(section.heading, HEADING_SIZE, true, 14);
+      for (const line of section.lines) {
+        push(line, BODY_SIZE, false, 2);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Split lines into pages, keeping headings with the line that follows them
+   */
+  private paginate(lines: PdfLine[]): PdfLine[][] {
+    const pages: PdfLine[][] = [[]];
+    const usable = PAGE_HEIGHT - MARGIN * 2 - SMALL_SIZE * 2;
+    let used = 0;
+
+    lines.forEach((line, index) => {
+      const height = line.gapBefore + line.size * 1.3;
+      const next = lines[index + 1];
+      const keepWithNext = line.size === HEADING_SIZE && next ? next.size * 1.3 : 0;
+
+      if (used + height + keepWithNext > usable && pages[pages.length - 1].length > 0) {
+        pages.push([]);
+        used = 0;
+      }
+      pages[pages.length - 1].push(line);
+      used += height;
+    });
+
+    return pages;
+  }
+
+  private pageStream(lines: PdfLine[], footer: string): string {
+    const commands: string[] = [];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    lines.forEach((line, index) => {
+      y -= (index === 0 ? 0 : line.gapBefore) + line.size * 1.3;
+      commands.push(`BT /${line.bold ? 'F2' : 'F1'} ${line.size} Tf ${MARGIN} ${y.toFixed(2)} Td (${this.escape(line.text)}) Tj ET`);
+    });
+
+    commands.push(`BT /F1 ${SMALL_SIZE} Tf ${MARGIN} ${MARGIN / 2} Td (${this.escape(footer)}) Tj ET`);
+    return commands.join('\n');
+  }
+
+  private wrap(text: string, size: number): string[] {
+    const maxChars = Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * AVERAGE_GLYPH_WIDTH));
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > maxChars) {
+        lines.push(current);
+        current = '';
+      }
+      // Hard-break words longer than a full line
+      let remaining = word;
+      while (remaining.length > maxChars) {
+        lines.push(remaining.slice(0, maxChars));
+        remaining = remaining.slice(maxChars);
+      }
+      current = current ? `${current} ${remaining}` : remaining;
+    }
+
+    if (current || lines.length === 0) {
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  private sanitize(text: string): string {
+    return text
+      .replace(/[^\x20-\x7e]/g, char => CHARACTER_REPLACEMENTS[char] ?? (/\s/.test(char) ? ' ' : '?'));
+  }
+
+  private escape(text: string): string {
+    return text.replace(/([\\()])/g, '\\$1');
+  }
+}
+
+export default PdfReportRenderer.getInstance();
@@ -0,0 +1,299 @@
+import { IMedication } from '../models/Medication';
+import { DosageRange } from './medicationAnalyzer';
+import sigParser from './sigParser';
+
+/**
+ * Body surface area formulas
+ */
+export type BsaFormula = 'mosteller' | 'haycock';
+
+/**
+ * Body surface area in m² by formula
+ */
+export interface BodySurfaceArea {
+  mosteller: number;
+  haycock: number;
+  used: BsaFormula;
+  value: number;
+}
+
+/**
+ * Patient measurements used for weight- and BSA-based dosing
+ */
+export interface PediatricPatient {
+  weightKg: number;
+  heightCm?: number;
+  ageYears?: number;
+}
+
+/**
+ * Dose ordered per kg or per m², per administration
+ */
+export interface PediatricDoseOrder {
+  min: number;
+  max?: number;
+  unit: string; // mass unit of the dose, e.g. mg
+  basis: 'kg' | 'm2';
+  frequency?: string;
+  adultMaxDose?: number; // per administration, in the same unit
+  dosageForm?: string; // IMedication.dosageForm
+  strength?: string; // e.g. "250 mg/5 mL" or "500 mg"
+  bsaFormula?: BsaFormula;
+}
+
+/**
+ * Amount of the dosage form to administer
+ */
+export interface DispensableDose {
+  quantity: number;
+  unit: string; // mL, tablet, capsule, ...
+  display: string;
+  dose: number; // drug amount actually delivered
+}
+
+/**
+ * Result of a pediatric dose calculation
+ */
+export interface PediatricDoseResult {
+  basis: 'kg' | 'm2';
+  bsa?: BodySurfaceArea;
+  calculatedRange: { min: number; max: number; unit: string };
+  targetDose: number;
+  cappedAtAdultMax: boolean;
+  dispensable?: DispensableDose;
+  dose: number;
+  unit: string;
+  dosesPerDay?: number;
+  dailyDose?: number;
+  warnings: string[];
+}
+
+// Mass units relative to mg
+const MASS_UNITS: Record<string, number> = { mcg: 0.001, mg: 1, g: 1000 };
+
+// Rounding allowed before a warning is raised
+const MAX_ROUNDING_DEVIATION = 0.1;
+
+/**
+ * Calculates mg/kg and mg/m² doses for children, capped at adult maxima and
+ * rounded to amounts that can actually be measured or dispensed
+ */
+export class PediatricDosingCalculator {
+  private static instance: PediatricDosingCalculator;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PediatricDosingCalculator {
+    if (!PediatricDosingCalculator.instance) {
+      PediatricDosingCalculator.instance = new PediatricDosingCalculator();
+    }
+    return PediatricDosingCalculator.instance;
+  }
+
+  /**
+   * Body surface area (m²) with the Mosteller and Haycock formulas.
+   * Haycock is preferred for infants and small children (under 15 kg) by default.
+   */
+  public calculateBsa(weightKg: number, heightCm: number, formula?: BsaFormula): BodySurfaceArea {
+    if (weightKg <= 0 || heightCm <= 0) {
+      throw new Error('Weight and height must be positive to calculate body surface area');
+    }
+
+    const mosteller = Math.sqrt((heightCm * weightKg) / 3600);
+    const haycock = 0.024265 * Math.pow(weightKg, 0.5378) * Math.pow(heightCm, 0.3964);
+    const used = formula || (weightKg < 15 ? 'haycock' : 'mosteller');
+
+    return {
+      mosteller: this.round(mosteller, 3),
+      haycock: this.round(haycock, 3),
+      used,
+      value: this.round(used === 'haycock' ? haycock : mosteller, 3)
+    };
+  }
+
+  /**
+   * Calculate a weight- or BSA-based dose for a child
+   */
+  public calculateDose(patient: PediatricPatient, order: PediatricDoseOrder): PediatricDoseResult {
+    const warnings: string[] = [];
+    let multiplier = patient.weightKg;
+    let bsa: BodySurfaceArea | undefined;
+
+    if (order.basis === 'm2') {
+      if (!patient.heightCm) {
+        throw new Error('Height is required for BSA-based dosing');
+      }
+      bsa = this.calculateBsa(patient.weightKg, patient.heightCm, order.bsaFormula);
+      multiplier = bsa.value;
+    }
+
+    if (patient.ageYears !== undefined && patient.ageYears >= 18) {
+      warnings.push('Patient is an adult; weight-based pediatric dosing may not apply');
+    }
+
+    const calculatedRange = {
+      min: this.round(order.min * multiplier, 3),
+      max: this.round((order.max ?? order.min) * multiplier, 3),
+      unit: order.unit
+    };
+
+    let targetDose = calculatedRange.min;
+    let cappedAtAdultMax = false;
+    if (order.adultMaxDose !== undefined && targetDose > order.adultMaxDose) {
+      targetDose = order.adultMaxDose;
+      cappedAtAdultMax = true;
+      warnings.push(`Calculated dose exceeds the adult maximum; capped at ${order.adultMaxDose} ${order.unit}`);
+    }
+
+    const dispensable = order.strength
+      ? this.roundToDispensable(targetDose, order.unit, order.strength, order.dosageForm, order.adultMaxDose)
+      : undefined;
+
+    if (order.strength && !dispensable) {
+      warnings.push(`Could not interpret strength "${order.strength}"; dose not rounded to the dosage form`);
+    }
+
+    const dose = dispensable ? dispensable.dose : this.round(targetDose, 3);
+    if (dispensable && Math.abs(dose - targetDose) / targetDose > MAX_ROUNDING_DEVIATION) {
+      warnings.push(`Rounding to ${dispensable.display} changes the dose by more than ${MAX_ROUNDING_DEVIATION * 100}%; consider another strength or form`);
+    }
+
+    const dosesPerDay = order.frequency ? sigParser.getDosesPerDay(sigParser.parse(order.frequency)) : undefined;
+
+    return {
+      basis: order.basis,
+      bsa,
+      calculatedRange,
+      targetDose: this.round(targetDose, 3),
+      cappedAtAdultMax,
+      dispensable,
+      dose,
+      unit: order.unit,
+      dosesPerDay,
+      dailyDose: dosesPerDay !== undefined ? this.round(dose * dosesPerDay, 3) : undefined,
+      warnings
+    };
+  }
+
+  /**
+   * Build a dose order from a medication's pediatric weight- or BSA-based range,
+   * with the adult maximum taken from its adult range
+   */
+  public orderFromMedication(medication: IMedication, frequency?: string): PediatricDoseOrder | null {
+    const dosages: DosageRange[] = medication.standardDosages || [];
+    const pediatric = dosages.find(d => d.ageGroup === 'pediatric' && (d.weightBased || d.bsaBased))
+      || dosages.find(d => d.weightBased || d.bsaBased);
+    if (!pediatric) {
+      return null;
+    }
+
+    const adult = dosages.find(d => d.ageGroup === 'adult' && !d.weightBased && !d.bsaBased)
+      || dosages.find(d => !d.ageGroup && !d.weightBased && !d.bsaBased);
+    const adultMaxDose = adult ? this.convertMass(adult.max, adult.unit, pediatric.unit) : undefined;
+
+    return {
+      min: pediatric.min,
+      max: pediatric.max,
+      unit: pediatric.unit,
+      basis: pediatric.bsaBased ? 'm2' : 'kg',
+      frequency: frequency || pediatric.frequency,
+      adultMaxDose: adultMaxDose ?? undefined,
+      dosageForm: medication.dosageForm,
+      strength: medication.strength
+    };
+  }
+
+  /**
+   * Round a dose to a measurable amount of the dosage form, never exceeding the cap
+   */
+  private roundToDispensable(
+    dose: number,
+    unit: string,
+    strength: string,
+    dosageForm?: string,
+    cap?: number
+  ): DispensableDose | undefined {
+    const parsed = this.parseStrength(strength, unit);
+    if (!parsed) return undefined;
+
+    const form = (dosageForm || '').toLowerCase();
+    const isVolume = parsed.perVolumeMl !== undefined;
+    let step: number;
+    let formUnit: string;
+
+    if (isVolume) {
+      formUnit = 'mL';
+      const volume = dose / parsed.amount * (parsed.perVolumeMl as number);
+      // Oral syringes measure 0.1 mL for small volumes, larger volumes are rounded to 0.5 or 1 mL
+      step = volume < 5 ? 0.1 : volume < 20 ? 0.5 : 1;
+    } else if (form === 'tablet') {
+      formUnit = 'tablet';
+      step = 0.5;
+    } else {
+      formUnit = form === 'capsule' ? 'capsule' : form === 'suppository' ? 'suppository' : 'unit';
+      step = 1;
+    }
+
+    const amountPerStep = isVolume ? parsed.amount / (parsed.perVolumeMl as number) * step : parsed.amount * step;
+    let steps = Math.max(1, Math.round(dose / amountPerStep));
+    if (cap !== undefined) {
+      while (steps > 1 && steps * amountPerStep > cap + 1e-9) {
+        steps--;
+      }
+    }
+
+    const quantity = this.round(steps * step, 2);
+    const delivered = this.round(steps * amountPerStep, 3);
+    return {
+      quantity,
+      unit: formUnit,
+      display: this.formatQuantity(quantity, formUnit),
+      dose: delivered
+    };
+  }
+
+  /**
+   * Parse a strength such as "250 mg/5 mL", "40 mg/mL" or "500 mg", converted to the dose unit
+   */
+  private parseStrength(strength: string, doseUnit: string): { amount: number; perVolumeMl?: number } | undefined {
+    const match = /(\d+(?:\.\d+)?)\s*(mcg|mg|g)\b(?:\s*(?:\/|per|in)\s*(\d+(?:\.\d+)?)?\s*ml\b)?/i.exec(strength);
+    if (!match) return undefined;
+
+    const amount = this.convertMass(parseFloat(match[1]), match[2].toLowerCase(), doseUnit);
+    if (amount === null || amount <= 0) return undefined;
+
+    const hasVolume = /ml\b/i.test(match[0]);
+    return {
+      amount,
+      perVolumeMl: hasVolume ? parseFloat(match[3] || '1') : undefined
+    };
+  }
+
+  private convertMass(value: number, from: string, to: string): number | null {
+    const fromFactor = MASS_UNITS[from.toLowerCase()];
+    const toFactor = MASS_UNITS[to.toLowerCase()];
+    if (fromFactor === undefined || toFactor === undefined) {
+      return from.toLowerCase() === to.toLowerCase() ? value : null;
+    }
+    return (value * fromFactor) / toFactor;
+  }
+
+  private formatQuantity(quantity: number, unit: string): string {
+    if (unit === 'mL') return `${quantity} mL`;
+
+    const whole = Math.floor(quantity);
+    const fraction = quantity - whole;
+    const amount = fraction === 0.5 ? (whole > 0 ? `${whole} 1/2` : '1/2') : String(quantity);
+    return `${amount} ${unit}${quantity > 1 ? 's' : ''}`;
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export default PediatricDosingCalculator.getInstance();
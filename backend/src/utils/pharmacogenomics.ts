@@ -0,0 +1,307 @@
+import { InteractionSeverity } from '../types/medical';
+
+/**
+ * Standardised phenotypes reported by pharmacogenomic (PGx) panels. Metabolizer phenotypes
+ * apply to drug-metabolising enzymes, function phenotypes to transporters, and
+ * positive/negative to HLA alleles.
+ */
+export const PGX_PHENOTYPES = [
+  'ultrarapid_metabolizer',
+  'rapid_metabolizer',
+  'normal_metabolizer',
+  'intermediate_metabolizer',
+  'poor_metabolizer',
+  'increased_function',
+  'normal_function',
+  'decreased_function',
+  'poor_function',
+  'positive',
+  'negative',
+  'indeterminate'
+] as const;
+
+export type PgxPhenotype = typeof PGX_PHENOTYPES[number];
+
+/**
+ * One gene result from a patient's PGx panel. HLA results name the allele as the gene,
+ * for example HLA-B*57:01.
+ */
+export interface PgxResult {
+  gene: string;
+  phenotype: PgxPhenotype;
+  diplotype?: string; // e.g. *1/*4
+  activityScore?: number;
+  testedAt?: Date;
+  laboratory?: string;
+}
+
+/**
+ * What a gene–drug rule advises
+ */
+export type PgxAction = 'avoid' | 'alternative' | 'reduce_dose' | 'increase_dose' | 'monitor';
+
+/**
+ * A CPIC-style gene–drug rule
+ */
+export interface GeneDrugRule {
+  gene: string;
+  drugs: string[]; // generic names
+  phenotypes: PgxPhenotype[];
+  action: PgxAction;
+  severity: InteractionSeverity;
+  recommendation: string;
+  alternatives?: string[];
+  guideline: string;
+}
+
+/**
+ * A rule that applies to a patient and medication
+ */
+export interface PgxMatch {
+  gene: string;
+  phenotype: PgxPhenotype;
+  diplotype?: string;
+  drug: string;
+  action: PgxAction;
+  severity: InteractionSeverity;
+  recommendation: string;
+  alternatives: string[];
+  guideline: string;
+}
+
+const { HIGH, MEDIUM, LOW } = InteractionSeverity;
+
+// Recommendations follow the published CPIC guidelines, abbreviated
+const GENE_DRUG_RULES: GeneDrugRule[] = [
+  {
+    gene: 'CYP2D6', drugs: ['codeine', 'tramadol'], phenotypes: ['ultrarapid_metabolizer'], action: 'avoid', severity: HIGH,
+    recommendation: 'Avoid: ultrarapid conversion to the active opioid risks life-threatening toxicity',
+    alternatives: ['morphine', 'hydromorphone', 'non-opioid analgesics'], guideline: 'CPIC CYP2D6/opioids'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['codeine', 'tramadol'], phenotypes: ['poor_metabolizer'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Use an alternative: little conversion to the active opioid, so analgesia is likely to fail',
+    alternatives: ['morphine', 'hydromorphone', 'non-opioid analgesics'], guideline: 'CPIC CYP2D6/opioids'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['tamoxifen'], phenotypes: ['poor_metabolizer', 'intermediate_metabolizer'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Consider an aromatase inhibitor; reduced endoxifen formation increases recurrence risk',
+    alternatives: ['anastrozole', 'letrozole', 'exemestane'], guideline: 'CPIC CYP2D6/tamoxifen'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['ondansetron', 'tropisetron'], phenotypes: ['ultrarapid_metabolizer'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Use an antiemetic not metabolised by CYP2D6; faster clearance reduces efficacy',
+    alternatives: ['granisetron'], guideline: 'CPIC CYP2D6/5-HT3 antagonists'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['amitriptyline', 'nortriptyline', 'imipramine', 'desipramine', 'doxepin', 'clomipramine'],
+    phenotypes: ['ultrarapid_metabolizer', 'poor_metabolizer'], action: 'avoid', severity: HIGH,
+    recommendation: 'Avoid tricyclics; if needed, adjust dose with therapeutic drug monitoring',
+    guideline: 'CPIC CYP2D6/tricyclic antidepressants'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['amitriptyline', 'nortriptyline', 'imipramine', 'desipramine', 'doxepin', 'clomipramine'],
+    phenotypes: ['intermediate_metabolizer'], action: 'reduce_dose', severity: LOW,
+    recommendation: 'Consider a 25% lower starting dose and monitor levels', guideline: 'CPIC CYP2D6/tricyclic antidepressants'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['paroxetine', 'fluvoxamine'], phenotypes: ['poor_metabolizer'], action: 'reduce_dose', severity: MEDIUM,
+    recommendation: 'Start at 50% of the usual dose and titrate slowly', guideline: 'CPIC CYP2D6/SSRIs'
+  },
+  {
+    gene: 'CYP2D6', drugs: ['paroxetine'], phenotypes: ['ultrarapid_metabolizer'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Use an SSRI not mainly metabolised by CYP2D6; low levels make failure likely',
+    alternatives: ['sertraline', 'citalopram'], guideline: 'CPIC CYP2D6/SSRIs'
+  },
+  {
+    gene: 'CYP2C19', drugs: ['clopidogrel'], phenotypes: ['poor_metabolizer', 'intermediate_metabolizer'], action: 'alternative', severity: HIGH,
+    recommendation: 'Use an alternative antiplatelet; reduced activation raises the risk of stent thrombosis and cardiovascular events',
+    alternatives: ['prasugrel', 'ticagrelor'], guideline: 'CPIC CYP2C19/clopidogrel'
+  },
+  {
+    gene: 'CYP2C19', drugs: ['citalopram', 'escitalopram', 'sertraline'], phenotypes: ['poor_metabolizer'], action: 'reduce_dose', severity: MEDIUM,
+    recommendation: 'Start at 50% of the usual dose; citalopram also carries QT prolongation risk at higher exposure',
+    guideline: 'CPIC CYP2C19/SSRIs'
+  },
+  {
+    gene: 'CYP2C19', drugs: ['citalopram', 'escitalopram'], phenotypes: ['ultrarapid_metabolizer'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Use an antidepressant not mainly metabolised by CYP2C19', alternatives: ['sertraline', 'fluoxetine'],
+    guideline: 'CPIC CYP2C19/SSRIs'
+  },
+  {
+    gene: 'CYP2C19', drugs: ['voriconazole'], phenotypes: ['ultrarapid_metabolizer', 'rapid_metabolizer', 'poor_metabolizer'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Use an antifungal not dependent on CYP2C19; voriconazole levels are unlikely to be therapeutic or safe',
+    alternatives: ['isavuconazole', 'posaconazole', 'liposomal amphotericin B'], guideline: 'CPIC CYP2C19/voriconazole'
+  },
+  {
+    gene: 'CYP2C19', drugs: ['omeprazole', 'lansoprazole', 'pantoprazole', 'dexlansoprazole'], phenotypes: ['ultrarapid_metabolizer', 'rapid_metabolizer'],
+    action: 'increase_dose', severity: LOW,
+    recommendation: 'Increase the starting dose by 50-100% for H. pylori or erosive esophagitis and monitor response',
+    guideline: 'CPIC CYP2C19/proton pump inhibitors'
+  },
+  {
+    gene: 'SLCO1B1', drugs: ['simvastatin'], phenotypes: ['decreased_function', 'poor_function'], action: 'alternative', severity: MEDIUM,
+    recommendation: 'Prescribe an alternative statin, or no more than 20 mg simvastatin daily, because of myopathy risk',
+    alternatives: ['rosuvastatin', 'pravastatin'], guideline: 'CPIC SLCO1B1/statins'
+  },
+  {
+    gene: 'SLCO1B1', drugs: ['atorvastatin'], phenotypes: ['poor_function'], action: 'reduce_dose', severity: LOW,
+    recommendation: 'Prescribe 40 mg or less atorvastatin daily, or an alternative statin', alternatives: ['rosuvastatin', 'pravastatin'],
+    guideline: 'CPIC SLCO1B1/statins'
+  },
+  {
+    gene: 'HLA-B*57:01', drugs: ['abacavir'], phenotypes: ['positive'], action: 'avoid', severity: HIGH,
+    recommendation: 'Do not prescribe: high risk of abacavir hypersensitivity', guideline: 'CPIC HLA-B/abacavir'
+  },
+  {
+    gene: 'HLA-B*15:02', drugs: ['carbamazepine', 'oxcarbazepine', 'phenytoin', 'fosphenytoin'], phenotypes: ['positive'], action: 'avoid', severity: HIGH,
+    recommendation: 'Do not prescribe in patients naive to the drug: high risk of SJS/TEN', alternatives: ['levetiracetam', 'lamotrigine with caution'],
+    guideline: 'CPIC HLA-B/anticonvulsants'
+  },
+  {
+    gene: 'HLA-B*58:01', drugs: ['allopurinol'], phenotypes: ['positive'], action: 'avoid', severity: HIGH,
+    recommendation: 'Do not prescribe: high risk of severe cutaneous adverse reactions', alternatives: ['febuxostat'],
+    guideline: 'CPIC HLA-B/allopurinol'
+  },
+  {
+    gene: 'CYP2C9', drugs: ['celecoxib', 'ibuprofen', 'meloxicam', 'piroxicam', 'flurbiprofen'], phenotypes: ['poor_metabolizer'], action: 'reduce_dose', severity: MEDIUM,
+    recommendation: 'Start at 25-50% of the lowest starting dose, or choose an NSAID not metabolised by CYP2C9',
+    alternatives: ['naproxen', 'diclofenac'], guideline: 'CPIC CYP2C9/NSAIDs'
+  },
+  {
+    gene: 'CYP2C9', drugs: ['phenytoin', 'fosphenytoin'], phenotypes: ['poor_metabolizer', 'intermediate_metabolizer'], action: 'reduce_dose', severity: MEDIUM,
+    recommendation: 'Reduce maintenance doses by 25-50% and adjust to serum levels', guideline: 'CPIC CYP2C9/phenytoin'
+  },
+  {
+    gene: 'TPMT', drugs: ['azathioprine', 'mercaptopurine', 'thioguanine'], phenotypes: ['poor_metabolizer'], action: 'reduce_dose', severity: HIGH,
+    recommendation: 'Reduce the dose tenfold and give three times weekly, or use a non-thiopurine agent; risk of life-threatening myelosuppression',
+    guideline: 'CPIC TPMT/thiopurines'
+  },
+  {
+    gene: 'TPMT', drugs: ['azathioprine', 'mercaptopurine', 'thioguanine'], phenotypes: ['intermediate_metabolizer'], action: 'reduce_dose', severity: MEDIUM,
+    recommendation: 'Start at 30-80% of the usual dose and adjust to myelosuppression', guideline: 'CPIC TPMT/thiopurines'
+  },
+  {
+    gene: 'DPYD', drugs: ['fluorouracil', 'capecitabine'], phenotypes: ['poor_metabolizer'], action: 'avoid', severity: HIGH,
+    recommendation: 'Avoid fluoropyrimidines: risk of severe or fatal toxicity', guideline: 'CPIC DPYD/fluoropyrimidines'
+  },
+  {
+    gene: 'DPYD', drugs: ['fluorouracil', 'capecitabine'], phenotypes: ['intermediate_metabolizer'], action: 'reduce_dose', severity: HIGH,
+    recommendation: 'Start at 50% of the usual dose and titrate to toxicity', guideline: 'CPIC DPYD/fluoropyrimidines'
+  }
+];
+
+// Abbreviations and spellings used on lab reports
+const PHENOTYPE_ALIASES: Array<{ pattern: RegExp; phenotype: PgxPhenotype }> = [
+  { pattern: /^(um|ultra ?rapid( metaboli[sz]er)?)$/, phenotype: 'ultrarapid_metabolizer' },
+  { pattern: /^(rm|rapid( metaboli[sz]er)?)$/, phenotype: 'rapid_metabolizer' },
+  { pattern: /^(nm|em|(normal|extensive) metaboli[sz]er)$/, phenotype: 'normal_metabolizer' },
+  { pattern: /^(im|intermediate( metaboli[sz]er)?)$/, phenotype: 'intermediate_metabolizer' },
+  { pattern: /^(pm|poor metaboli[sz]er)$/, phenotype: 'poor_metabolizer' },
+  { pattern: /^increased( function)?$/, phenotype: 'increased_function' },
+  { pattern: /^normal( function)?$/, phenotype: 'normal_function' },
+  { pattern: /^decreased( function)?$/, phenotype: 'decreased_function' },
+  { pattern: /^poor( function)?$/, phenotype: 'poor_function' },
+  { pattern: /^(positive|carrier|present|detected)$/, phenotype: 'positive' },
+  { pattern: /^(negative|non ?carrier|absent|not detected)$/, phenotype: 'negative' },
+  { pattern: /^(indeterminate|unknown)$/, phenotype: 'indeterminate' }
+];
+
+/**
+ * Matches a patient's pharmacogenomic results against CPIC-style gene–drug rules and
+ * summarises the actionable phenotypes
+ */
+export class PharmacogenomicRules {
+  private static instance: PharmacogenomicRules;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PharmacogenomicRules {
+    if (!PharmacogenomicRules.instance) {
+      PharmacogenomicRules.instance = new PharmacogenomicRules();
+    }
+    return PharmacogenomicRules.instance;
+  }
+
+  /**
+   * Standard phenotype for a phenotype as written on a lab report, or undefined when it
+   * is not recognised
+   */
+  public normalizePhenotype(text: string): PgxPhenotype | undefined {
+    const value = text.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+    return PHENOTYPE_ALIASES.find(alias => alias.pattern.test(value))?.phenotype;
+  }
+
+  /**
+   * Canonical gene name, e.g. "cyp2d6" to "CYP2D6" and "HLA-B 5701" to "HLA-B*57:01"
+   */
+  public normalizeGene(gene: string): string {
+    const value = gene.trim().toUpperCase().replace(/\s+/g, '');
+    const hla = value.match(/^HLA-?([A-Z]+\d*)\*?(\d{2}):?(\d{2})$/);
+    return hla ? `HLA-${hla[1]}*${hla[2]}:${hla[3]}` : value;
+  }
+
+  /**
+   * Rules that apply to a medication given the patient's results
+   */
+  public findMatches(medication: { name: string; genericName?: string }, results: PgxResult[]): PgxMatch[] {
+    const names = [medication.name, medication.genericName].filter(Boolean).map(name => (name as string).toLowerCase());
+    const matches: PgxMatch[] = [];
+
+    results.forEach(result => {
+      const gene = this.normalizeGene(result.gene);
+      GENE_DRUG_RULES
+        .filter(rule => rule.gene === gene && rule.phenotypes.includes(result.phenotype))
+        .forEach(rule => {
+          const drug = rule.drugs.find(ruleDrug => names.some(name => new RegExp(`\\b${ruleDrug}\\b`).test(name)));
+          if (!drug) return;
+          matches.push({
+            gene,
+            phenotype: result.phenotype,
+            diplotype: result.diplotype,
+            drug,
+            action: rule.action,
+            severity: rule.severity,
+            recommendation: rule.recommendation,
+            alternatives: rule.alternatives || [],
+            guideline: rule.guideline
+          });
+        });
+    });
+
+    return matches;
+  }
+
+  /**
+   * Results that change prescribing for at least one drug in the rule table, described for
+   * clinicians and prompts, e.g. "CYP2D6 poor metabolizer (*4/*4)"
+   */
+  public describeActionable(results: PgxResult[]): string[] {
+    return results
+      .filter(result => GENE_DRUG_RULES.some(rule =>
+        rule.gene === this.normalizeGene(result.gene) && rule.phenotypes.includes(result.phenotype)
+      ))
+      .map(result => {
+        const diplotype = result.diplotype ? ` (${result.diplotype})` : '';
+        return `${this.normalizeGene(result.gene)} ${result.phenotype.replace(/_/g, ' ')}${diplotype}`;
+      });
+  }
+
+  /**
+   * Drugs affected by the patient's actionable results
+   */
+  public affectedDrugs(results: PgxResult[]): string[] {
+    const drugs = new Set<string>();
+    results.forEach(result => {
+      GENE_DRUG_RULES
+        .filter(rule => rule.gene === this.normalizeGene(result.gene) && rule.phenotypes.includes(result.phenotype))
+        .forEach(rule => rule.drugs.forEach(drug => drugs.add(drug)));
+    });
+    return [...drugs].sort();
+  }
+}
+
+export default PharmacogenomicRules.getInstance();
@@ -0,0 +1,245 @@
+/**
+ * Kinds of protected health information the de-identifier detects
+ */
+export type PhiCategory = 'name' | 'date' | 'mrn' | 'phone' | 'email' | 'address' | 'id';
+
+export const PHI_CATEGORIES: PhiCategory[] = ['name', 'date', 'mrn', 'phone', 'email', 'address', 'id'];
+
+/**
+ * De-identified texts with the pseudonyms used, e.g. '[NAME_1]' -> 'Maria Lopez'
+ */
+export interface DeidentifiedText {
+  texts: string[];
+  tokens: Record<string, string>;
+  counts: Partial<Record<PhiCategory, number>>;
+}
+
+interface PhiPattern {
+  category: PhiCategory;
+  pattern: RegExp;
+  valueGroup?: number; // capture group holding the PHI when the match includes a label
+}
+
+interface PhiSpan {
+  start: number;
+  end: number;
+  category: PhiCategory;
+  value: string;
+  priority: number;
+}
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const NAME_WORD = "[A-Z][a-z]*(?:['’-][A-Z]?[a-z]+)*";
+const PERSON_NAME = `${NAME_WORD}(?:[ \\t]+${NAME_WORD}){0,3}`;
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Cir|Parkway|Pkwy|Highway|Hwy)';
+// String values of JSON properties with these keys, as found in serialised records
+const jsonValue = (keys: string) => new RegExp(`"(?:${keys})"\\s*:\\s*"([^"]+)"`, 'gi');
+// 'name' is also used for medications and devices, so it only counts inside objects describing a person
+const personObjectName = (keys: string) =>
+  new RegExp(`"(?:${keys})"\\s*:\\s*(?:\\[\\s*)?\\{[^{}]*?"name"\\s*:\\s*"([^"]+)"`, 'gi');
+
+// Earlier categories win when matches overlap, e.g. an email address containing a name
+const PATTERNS: PhiPattern[] = [
+  { category: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    category: 'mrn',
+    pattern: /\b(?:MRN|Medical Record (?:Number|No\.?))[ \t]*[:#]?[ \t]*([A-Z0-9][A-Z0-9-]{3,})/gi,
+    valueGroup: 1
+  },
+  { category: 'mrn', pattern: jsonValue('mrn|medicalRecordNumber'), valueGroup: 1 },
+  { category: 'id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    category: 'id',
+    pattern: /\b(?:SSN|Patient ID|Member ID|Insurance ID|Policy (?:Number|No\.?)|Account (?:Number|No\.?)|License (?:Number|No\.?))[ \t]*[:#]?[ \t]*([A-Z0-9][A-Z0-9-]{3,})/gi,
+    valueGroup: 1
+  },
+  {
+    category: 'id',
+    pattern: jsonValue('_id|id|patientId|userId|ssn|memberId|insuranceId|policyNumber|accountNumber|licenseNumber'),
+    valueGroup: 1
+  },
+  { category: 'id', pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi },
+  { category: 'id', pattern: /\b[0-9a-f]{24}\b/g }, // database object ids
+  // Phone fields of serialised records are often stored as bare digits, e.g. "5551234567"
+  {
+    category: 'phone',
+    pattern: /"(?:phone|phoneNumber|mobile|mobilePhone|cellPhone|homePhone|workPhone|telephone|fax)"\s*:\s*"(\+?[\d ().-]{7,})"/gi,
+    valueGroup: 1
+  },
+  { category: 'phone', pattern: /(?<![\w-])(?:\+?1[ .-]?)?(?:\(\d{3}\)[ ]?|\d{3}[ .-])\d{3}[ .-]\d{4}(?![\w-])/g },
+  {
+    category: 'address',
+    pattern: new RegExp(
+      `\\b\\d{1,6}(?:[ \\t]+[A-Z][A-Za-z]*\\.?){1,4}[ \\t]+${STREET_SUFFIX}\\b\\.?` +
+      '(?:,?[ \\t]+(?:Apt|Apartment|Suite|Unit|#)\\.?[ \\t]*\\w+)?' +
+      '(?:,[ \\t]*[A-Z][A-Za-z]+(?:[ \\t]+[A-Z][A-Za-z]+)*,?[ \\t]+[A-Z]{2}[ \\t]+\\d{5}(?:-\\d{4})?)?',
+      'g'
+    )
+  },
+  { category: 'address', pattern: jsonValue('address|street|streetAddress|addressLine1|addressLine2|line1|line2|city|zip|zipCode|postalCode'), valueGroup: 1 },
+  { category: 'address', pattern: /\b[A-Z]{2}[ \t]+(\d{5}(?:-\d{4})?)\b/g, valueGroup: 1 }, // ZIP after a state
+  {
+    category: 'date',
+    pattern: new RegExp(`\\b(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)[ \\t]+${MONTH}[ \\t]+\\d{1,2}[ \\t]+\\d{4}(?:[ \\t]+\\d{2}:\\d{2}:\\d{2}[ \\t]+GMT[+-]\\d{4}(?:[ \\t]+\\([^)]+\\))?)?`, 'g')
+  },
+  { category: 'date', pattern: /\b\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?\b/g },
+  { category: 'date', pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})\b/g },
+  { category: 'date', pattern: new RegExp(`\\b${MONTH}\\.?[ \\t]+\\d{1,2}(?:st|nd|rd|th)?,?[ \\t]+\\d{4}\\b`, 'g') },
+  { category: 'date', pattern: new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?[ \\t]+${MONTH}\\.?,?[ \\t]+\\d{4}\\b`, 'g') },
+  {
+    category: 'name',
+    pattern: jsonValue('firstName|lastName|middleName|fullName|patientName|givenName|familyName|preferredName|emergencyContact|emergencyContactName|guardianName|nextOfKin|physicianName|doctorName|providerName'),
+    valueGroup: 1
+  },
+  {
+    category: 'name',
+    pattern: new RegExp(`(?<![A-Za-z][ \\t]*)(?:Patient|Patient Name|Name|Full Name|Guardian|Next of Kin|Emergency Contact|Contact)[ \\t]*:[ \\t]*(${PERSON_NAME})`, 'g'),
+    valueGroup: 1
+  },
+  {
+    category: 'name',
+    pattern: personObjectName('emergencyContact|emergencyContacts|guardian|nextOfKin|contact|contacts|patient|user|physician|doctor|provider|caregiver|parent|spouse'),
+    valueGroup: 1
+  },
+  {
+    // Unlabelled full names after 'Patient', e.g. 'Patient John Smith presented with ...'
+    category: 'name',
+    pattern: new RegExp(`\\b[Pp]atient[ \\t]+(?!(?:Name|ID|Id|Number|No)\\b)(${NAME_WORD}(?:[ \\t]+${NAME_WORD}){1,3})(?![\\w'’-])`, 'g'),
+    valueGroup: 1
+  },
+  { category: 'name', pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\\.?[ \\t]+(${PERSON_NAME})`, 'g'), valueGroup: 1 }
+];
+
+const TOKEN = /\[\s*(NAME|DATE|MRN|PHONE|EMAIL|ADDRESS|ID)_(\d+)\s*\]/gi;
+const MIN_NAME_PART_LENGTH = 3;
+
+/**
+ * Replaces protected health information in text with consistent pseudonyms such as
+ * [NAME_1] or [DATE_2] before it is sent to an external model, and restores the originals
+ * in the model's reply. Detection is pattern based: labelled and well-formed values (emails,
+ * phone numbers, MRNs, SSNs, dates, street addresses) and identifying JSON properties of
+ * serialised records. Once a name is found, every other mention of it and of its parts
+ * is replaced too.
+ */
+export class PhiDeidentifier {
+  private static instance: PhiDeidentifier;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PhiDeidentifier {
+    if (!PhiDeidentifier.instance) {
+      PhiDeidentifier.instance = new PhiDeidentifier();
+    }
+    return PhiDeidentifier.instance;
+  }
+
+  /**
+   * Pseudonymise PHI across a set of texts, e.g. the messages of one request. The same value
+   * gets the same token in every text.
+   */
+  public deidentify(texts: string[], categories: PhiCategory[] = PHI_CATEGORIES): DeidentifiedText {
+    const patterns = PATTERNS.filter(pattern => categories.includes(pattern.category));
+    const detected = texts.map(text => this.detect(text, patterns));
+
+    if (categories.includes('name')) {
+      const names = this.knownNames(detected);
+      detected.forEach((spans, i) => spans.push(...this.mentionsOf(names, texts[i])));
+    }
+
+    const tokensByValue = new Map<string, string>();
+    const tokens: Record<string, string> = {};
+    const counts: Partial<Record<PhiCategory, number>> = {};
+
+    const output = texts.map((text, i) => {
+      const spans = this.resolveOverlaps(detected[i]);
+      let result = '';
+      let position = 0;
+      spans.forEach(span => {
+        const key = `${span.category}:${span.value}`;
+        let token = tokensByValue.get(key);
+        if (!token) {
+          counts[span.category] = (counts[span.category] || 0) + 1;
+          token = `[${span.category.toUpperCase()}_${counts[span.category]}]`;
+          tokensByValue.set(key, token);
+          tokens[token] = span.value;
+        }
+        result += text.slice(position, span.start) + token;
+        position = span.end;
+      });
+      return result + text.slice(position);
+    });
+
+    return { texts: output, tokens, counts };
+  }
+
+  /**
+   * Put the original values back in place of the pseudonyms in a model's reply. Tokens the
+   * model altered in case or spacing are still recognised; unknown tokens are left as is.
+   */
+  public reidentify(text: string, tokens: Record<string, string>): string {
+    return text.replace(TOKEN, (token, category: string, index: string) => {
+      const original = tokens[`[${category.toUpperCase()}_${index}]`];
+      return original === undefined ? token : original;
+    });
+  }
+
+  private detect(text: string, patterns: PhiPattern[]): PhiSpan[] {
+    const spans: PhiSpan[] = [];
+    patterns.forEach((phiPattern, priority) => {
+      const pattern = new RegExp(phiPattern.pattern.source, phiPattern.pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        const value = phiPattern.valueGroup ? match[phiPattern.valueGroup] : match[0];
+        if (value) {
+          // Labelled values end their match (a closing quote at most follows them)
+          const start = match.index + match[0].lastIndexOf(value);
+          spans.push({ start, end: start + value.length, category: phiPattern.category, value, priority });
+        }
+        if (match[0].length === 0) pattern.lastIndex++;
+      }
+    });
+    return spans;
+  }
+
+  // Full names first so that 'Maria Lopez' becomes one token rather than two
+  private knownNames(detected: PhiSpan[][]): string[] {
+    const names = new Set<string>();
+    detected.forEach(spans => spans
+      .filter(span => span.category === 'name')
+      .forEach(span => {
+        names.add(span.value);
+        span.value.split(/\s+/).filter(part => part.length >= MIN_NAME_PART_LENGTH).forEach(part => names.add(part));
+      }));
+    return [...names].sort((a, b) => b.length - a.length);
+  }
+
+  private mentionsOf(names: string[], text: string): PhiSpan[] {
+    const spans: PhiSpan[] = [];
+    names.forEach(name => {
+      const pattern = new RegExp(`(?<![\\w'’-])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w'’-])`, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        spans.push({ start: match.index, end: match.index + name.length, category: 'name', value: name, priority: PATTERNS.length });
+      }
+    });
+    return spans;
+  }
+
+  // Keep non-overlapping spans, preferring higher-priority categories and then longer matches
+  private resolveOverlaps(spans: PhiSpan[]): PhiSpan[] {
+    const ranked = [...spans].sort((a, b) =>
+      a.priority - b.priority || (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+    const kept: PhiSpan[] = [];
+    ranked.forEach(span => {
+      if (!kept.some(other => span.start < other.end && other.start < span.end)) {
+        kept.push(span);
+      }
+    });
+    return kept.sort((a, b) => a.start - b.start);
+  }
+}
+
+export default PhiDeidentifier.getInstance();
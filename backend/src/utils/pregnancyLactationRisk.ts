@@ -0,0 +1,479 @@
+import { InteractionSeverity } from '../types/medical';
+import drugClassRules, { ClassifiableMedication } from './drugClassRules';
+
+/**
+ * Fetal risk during a trimester, from least to most concerning
+ */
+export type PregnancyRiskLevel = 'compatible' | 'limited_data' | 'use_with_caution' | 'avoid' | 'contraindicated';
+
+/**
+ * Compatibility with breastfeeding
+ */
+export type LactationCompatibility = 'compatible' | 'probably_compatible' | 'use_with_caution' | 'avoid' | 'unknown';
+
+export type Trimester = 'first' | 'second' | 'third';
+
+/**
+ * Structured pregnancy and lactation risk for a medication
+ */
+export interface PregnancyLactationProfile {
+  trimesterRisk: Record<Trimester, PregnancyRiskLevel>;
+  pregnancySummary: string;
+  lactation: LactationCompatibility;
+  lactationSummary: string;
+  saferAlternatives: string[];
+}
+
+/**
+ * Patient context for a pregnancy and lactation assessment
+ */
+export interface ReproductiveContext {
+  isPregnant?: boolean;
+  gestationalAgeWeeks?: number;
+  isBreastfeeding?: boolean;
+}
+
+/**
+ * Medication fields used to look up its pregnancy and lactation profile
+ */
+export type ReproductiveRiskMedication = ClassifiableMedication & {
+  pregnancyCategory?: string;
+  pregnancyLactation?: PregnancyLactationProfile;
+};
+
+/**
+ * Result of assessing a medication for a pregnant or breastfeeding patient
+ */
+export interface PregnancyLactationAssessment {
+  profile: PregnancyLactationProfile;
+  source: 'medication_record' | 'drug_rule' | 'class_rule' | 'legacy_category' | 'none';
+  trimester?: Trimester; // undefined when gestational age is unknown; the worst trimester is used
+  pregnancyRisk?: PregnancyRiskLevel;
+  lactation?: LactationCompatibility;
+  severity?: InteractionSeverity;
+  warnings: string[];
+  saferAlternatives: string[];
+}
+
+const RISK_RANK: Record<PregnancyRiskLevel, number> = {
+  compatible: 0,
+  limited_data: 1,
+  use_with_caution: 2,
+  avoid: 3,
+  contraindicated: 4
+};
+
+const LACTATION_RANK: Record<LactationCompatibility, number> = {
+  compatible: 0,
+  probably_compatible: 0,
+  unknown: 1,
+  use_with_caution: 2,
+  avoid: 3
+};
+
+const allTrimesters = (risk: PregnancyRiskLevel): Record<Trimester, PregnancyRiskLevel> => ({
+  first: risk,
+  second: risk,
+  third: risk
+});
+
+// Profiles for individual drugs, keyed by generic name
+const DRUG_PROFILES: Record<string, PregnancyLactationProfile> = {
+  warfarin: {
+    trimesterRisk: { first: 'contraindicated', second: 'avoid', third: 'avoid' },
+    pregnancySummary: 'Warfarin embryopathy with first-trimester exposure; fetal bleeding risk later in pregnancy',
+    lactation: 'compatible',
+    lactationSummary: 'Not detected in breast milk in clinically relevant amounts',
+    saferAlternatives: ['enoxaparin', 'unfractionated heparin']
+  },
+  isotretinoin: {
+    trimesterRisk: allTrimesters('contraindicated'),
+    pregnancySummary: 'Potent teratogen; pregnancy must be excluded before and during treatment',
+    lactation: 'avoid',
+    lactationSummary: 'No data; highly lipophilic and likely to pass into milk',
+    saferAlternatives: ['topical azelaic acid', 'topical erythromycin']
+  },
+  methotrexate: {
+    trimesterRisk: allTrimesters('contraindicated'),
+    pregnancySummary: 'Teratogenic and abortifacient',
+    lactation: 'avoid',
+    lactationSummary: 'Accumulates in infant tissues',
+    saferAlternatives: ['hydroxychloroquine', 'sulfasalazine']
+  },
+  valproate: {
+    trimesterRisk: { first: 'contraindicated', second: 'avoid', third: 'avoid' },
+    pregnancySummary: 'Neural tube defects and neurodevelopmental impairment',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Low milk levels; monitor infant for jaundice and bruising',
+    saferAlternatives: ['lamotrigine', 'levetiracetam']
+  },
+  'valproic acid': {
+    trimesterRisk: { first: 'contraindicated', second: 'avoid', third: 'avoid' },
+    pregnancySummary: 'Neural tube defects and neurodevelopmental impairment',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Low milk levels; monitor infant for jaundice and bruising',
+    saferAlternatives: ['lamotrigine', 'levetiracetam']
+  },
+  doxycycline: {
+    trimesterRisk: { first: 'use_with_caution', second: 'avoid', third: 'avoid' },
+    pregnancySummary: 'Tetracyclines cause tooth discoloration and affect bone growth after the first trimester',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Short courses acceptable; avoid prolonged use',
+    saferAlternatives: ['amoxicillin', 'azithromycin']
+  },
+  paroxetine: {
+    trimesterRisk: { first: 'avoid', second: 'use_with_caution', third: 'use_with_caution' },
+    pregnancySummary: 'First-trimester exposure associated with cardiac malformations',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Low milk levels',
+    saferAlternatives: ['sertraline']
+  },
+  sertraline: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'use_with_caution' },
+    pregnancySummary: 'Preferred SSRI in pregnancy; monitor the neonate for adaptation syndrome after third-trimester use',
+    lactation: 'compatible',
+    lactationSummary: 'Preferred SSRI during breastfeeding',
+    saferAlternatives: []
+  },
+  codeine: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'avoid' },
+    pregnancySummary: 'Neonatal opioid withdrawal with use near term',
+    lactation: 'avoid',
+    lactationSummary: 'Infant toxicity reported with maternal ultra-rapid CYP2D6 metabolism',
+    saferAlternatives: ['acetaminophen']
+  },
+  tramadol: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'avoid' },
+    pregnancySummary: 'Neonatal opioid withdrawal with use near term',
+    lactation: 'avoid',
+    lactationSummary: 'Infant toxicity reported with maternal ultra-rapid CYP2D6 metabolism',
+    saferAlternatives: ['acetaminophen']
+  },
+  acetaminophen: {
+    trimesterRisk: allTrimesters('compatible'),
+    pregnancySummary: 'Analgesic of choice in pregnancy at the lowest effective dose',
+    lactation: 'compatible',
+    lactationSummary: 'Compatible with breastfeeding',
+    saferAlternatives: []
+  },
+  metformin: {
+    trimesterRisk: allTrimesters('compatible'),
+    pregnancySummary: 'No increase in malformations; used for gestational diabetes',
+    lactation: 'compatible',
+    lactationSummary: 'Low milk levels',
+    saferAlternatives: []
+  },
+  ibuprofen: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'contraindicated' },
+    pregnancySummary: 'Oligohydramnios after 20 weeks and premature ductus arteriosus closure in the third trimester',
+    lactation: 'compatible',
+    lactationSummary: 'Preferred NSAID during breastfeeding',
+    saferAlternatives: ['acetaminophen']
+  },
+  enalapril: {
+    trimesterRisk: { first: 'use_with_caution', second: 'contraindicated', third: 'contraindicated' },
+    pregnancySummary: 'Fetal renal toxicity and oligohydramnios in the second and third trimesters',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Low milk levels; preferred ACE inhibitor during breastfeeding',
+    saferAlternatives: ['labetalol', 'nifedipine', 'methyldopa']
+  },
+  diphenhydramine: {
+    trimesterRisk: allTrimesters('compatible'),
+    pregnancySummary: 'Widely used without evidence of harm',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Occasional doses acceptable; may cause infant sedation or reduce milk supply',
+    saferAlternatives: ['loratadine']
+  }
+};
+
+// Profiles for drug classes, keyed by DrugClassRuleEngine class key
+const CLASS_PROFILES: Record<string, PregnancyLactationProfile> = {
+  'ace-inhibitors': {
+    trimesterRisk: { first: 'use_with_caution', second: 'contraindicated', third: 'contraindicated' },
+    pregnancySummary: 'Fetal renal toxicity and oligohydramnios in the second and third trimesters',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Enalapril and captopril preferred; limited data for others',
+    saferAlternatives: ['labetalol', 'nifedipine', 'methyldopa']
+  },
+  arbs: {
+    trimesterRisk: { first: 'use_with_caution', second: 'contraindicated', third: 'contraindicated' },
+    pregnancySummary: 'Fetal renal toxicity and oligohydramnios in the second and third trimesters',
+    lactation: 'unknown',
+    lactationSummary: 'No human data; an ACE inhibitor with known low milk levels is preferred',
+    saferAlternatives: ['labetalol', 'nifedipine', 'methyldopa']
+  },
+  nsaids: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'contraindicated' },
+    pregnancySummary: 'Oligohydramnios after 20 weeks and premature ductus arteriosus closure in the third trimester',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Short-acting agents such as ibuprofen preferred',
+    saferAlternatives: ['acetaminophen']
+  },
+  'cox-2-inhibitors': {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'contraindicated' },
+    pregnancySummary: 'Same fetal risks as other NSAIDs',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Low milk levels',
+    saferAlternatives: ['acetaminophen']
+  },
+  statins: {
+    trimesterRisk: allTrimesters('avoid'),
+    pregnancySummary: 'No benefit during pregnancy; stop when pregnancy is confirmed',
+    lactation: 'avoid',
+    lactationSummary: 'May interfere with infant lipid metabolism',
+    saferAlternatives: []
+  },
+  fluoroquinolones: {
+    trimesterRisk: allTrimesters('avoid'),
+    pregnancySummary: 'Reserve for infections without a safer option',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Prefer alternatives; monitor infant for diarrhoea',
+    saferAlternatives: ['cephalexin', 'amoxicillin', 'nitrofurantoin']
+  },
+  aminoglycosides: {
+    trimesterRisk: allTrimesters('avoid'),
+    pregnancySummary: 'Fetal ototoxicity',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Poor oral absorption by the infant',
+    saferAlternatives: ['ceftriaxone']
+  },
+  penicillins: {
+    trimesterRisk: allTrimesters('compatible'),
+    pregnancySummary: 'Extensive experience without evidence of harm',
+    lactation: 'compatible',
+    lactationSummary: 'Compatible; monitor infant for diarrhoea or thrush',
+    saferAlternatives: []
+  },
+  cephalosporins: {
+    trimesterRisk: allTrimesters('compatible'),
+    pregnancySummary: 'Extensive experience without evidence of harm',
+    lactation: 'compatible',
+    lactationSummary: 'Compatible; monitor infant for diarrhoea or thrush',
+    saferAlternatives: []
+  },
+  macrolides: {
+    trimesterRisk: allTrimesters('limited_data'),
+    pregnancySummary: 'Azithromycin preferred; data for clarithromycin are less reassuring',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Azithromycin preferred',
+    saferAlternatives: ['azithromycin']
+  },
+  benzodiazepines: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'avoid' },
+    pregnancySummary: 'Neonatal sedation and withdrawal with use near term',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Short-acting agents at low doses preferred; monitor infant sedation',
+    saferAlternatives: []
+  },
+  opioids: {
+    trimesterRisk: { first: 'use_with_caution', second: 'use_with_caution', third: 'avoid' },
+    pregnancySummary: 'Neonatal opioid withdrawal with prolonged use or use near term',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Use the lowest dose for the shortest time; monitor infant sedation',
+    saferAlternatives: ['acetaminophen']
+  },
+  ssris: {
+    trimesterRisk: allTrimesters('use_with_caution'),
+    pregnancySummary: 'Untreated depression also carries risk; monitor the neonate after third-trimester use',
+    lactation: 'probably_compatible',
+    lactationSummary: 'Sertraline and paroxetine have the lowest milk levels',
+    saferAlternatives: ['sertraline']
+  },
+  'aromatic-anticonvulsants': {
+    trimesterRisk: { first: 'avoid', second: 'use_with_caution', third: 'use_with_caution' },
+    pregnancySummary: 'Increased malformation risk; lamotrigine has the most favourable data',
+    lactation: 'use_with_caution',
+    lactationSummary: 'Monitor infant for sedation and poor feeding',
+    saferAlternatives: ['lamotrigine', 'levetiracetam']
+  },
+  biguanides: {
+    trimesterRisk: allTrimesters('compatible'),
+    pregnancySummary: 'No increase in malformations; used for gestational diabetes',
+    lactation: 'compatible',
+    lactationSummary: 'Low milk levels',
+    saferAlternatives: []
+  }
+};
+
+// Deprecated FDA letter categories mapped to a conservative profile
+const LEGACY_CATEGORY_RISK: Record<string, PregnancyRiskLevel> = {
+  A: 'compatible',
+  B: 'limited_data',
+  C: 'use_with_caution',
+  D: 'avoid',
+  X: 'contraindicated'
+};
+
+/**
+ * Assesses pregnancy (by trimester) and lactation risk using structured profiles, falling
+ * back to the deprecated letter category only when no profile is known
+ */
+export class PregnancyLactationRiskEngine {
+  private static instance: PregnancyLactationRiskEngine;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PregnancyLactationRiskEngine {
+    if (!PregnancyLactationRiskEngine.instance) {
+      PregnancyLactationRiskEngine.instance = new PregnancyLactationRiskEngine();
+    }
+    return PregnancyLactationRiskEngine.instance;
+  }
+
+  /**
+   * Trimester for a gestational age in weeks
+   */
+  public trimesterFor(gestationalAgeWeeks: number): Trimester {
+    if (gestationalAgeWeeks < 14) return 'first';
+    if (gestationalAgeWeeks < 28) return 'second';
+    return 'third';
+  }
+
+  /**
+   * Look up a medication's profile: the medication record, then drug rules, then class rules,
+   * then the legacy letter category
+   */
+  public getProfile(medication: ReproductiveRiskMedication): { profile: PregnancyLactationProfile; source: PregnancyLactationAssessment['source'] } {
+    if (medication.pregnancyLactation) {
+      return { profile: medication.pregnancyLactation, source: 'medication_record' };
+    }
+
+    const ingredients = drugClassRules.getIngredients(medication);
+    const drugProfiles = ingredients
+      .map(ingredient => DRUG_PROFILES[ingredient])
+      .filter((profile): profile is PregnancyLactationProfile => !!profile);
+    // Class rules only fill in for ingredients without a drug-specific profile
+    const classProfiles = drugProfiles.length < ingredients.length
+      ? drugClassRules
+        .resolveMedicationClasses(medication)
+        .map(key => CLASS_PROFILES[key])
+        .filter((profile): profile is PregnancyLactationProfile => !!profile)
+      : [];
+
+    // Combination products and multi-class drugs take the most restrictive profile
+    const candidates = [
+      ...drugProfiles.map(profile => ({ profile, source: 'drug_rule' as const })),
+      ...classProfiles.map(profile => ({ profile, source: 'class_rule' as const }))
+    ];
+    if (candidates.length > 0) {
+      return candidates.reduce((worst, candidate) =>
+        this.worstRank(candidate.profile) > this.worstRank(worst.profile) ? candidate : worst);
+    }
+
+    const category = medication.pregnancyCategory?.toUpperCase();
+    const legacyRisk = category ? LEGACY_CATEGORY_RISK[category] : undefined;
+    if (legacyRisk) {
+      return {
+        profile: {
+          trimesterRisk: allTrimesters(legacyRisk),
+          pregnancySummary: `Legacy pregnancy category ${category}; no trimester-specific data`,
+          lactation: 'unknown',
+          lactationSummary: 'No lactation data available',
+          saferAlternatives: []
+        },
+        source: 'legacy_category'
+      };
+    }
+
+    return {
+      profile: {
+        trimesterRisk: allTrimesters('limited_data'),
+        pregnancySummary: 'No pregnancy safety data available',
+        lactation: 'unknown',
+        lactationSummary: 'No lactation data available',
+        saferAlternatives: []
+      },
+      source: 'none'
+    };
+  }
+
+  /**
+   * Assess a medication for a pregnant and/or breastfeeding patient
+   */
+  public assess(medication: ReproductiveRiskMedication, context: ReproductiveContext): PregnancyLactationAssessment {
+    const { profile, source } = this.getProfile(medication);
+    const warnings: string[] = [];
+    let severity: InteractionSeverity | undefined;
+    let pregnancyRisk: PregnancyRiskLevel | undefined;
+    let trimester: Trimester | undefined;
+    let lactation: LactationCompatibility | undefined;
+
+    if (context.isPregnant) {
+      if (context.gestationalAgeWeeks !== undefined) {
+        trimester = this.trimesterFor(context.gestationalAgeWeeks);
+        pregnancyRisk = profile.trimesterRisk[trimester];
+      } else {
+        pregnancyRisk = this.worstRisk(profile);
+      }
+
+      severity = this.maxSeverity(severity, this.pregnancySeverity(pregnancyRisk));
+      if (RISK_RANK[pregnancyRisk] >= RISK_RANK.use_with_caution) {
+        const when = trimester ? `in the ${trimester} trimester` : 'during pregnancy';
+        warnings.push(`${medication.name}: ${pregnancyRisk.replace(/_/g, ' ')} ${when}. ${profile.pregnancySummary}`);
+      }
+    }
+
+    if (context.isBreastfeeding) {
+      lactation = profile.lactation;
+      severity = this.maxSeverity(severity, this.lactationSeverity(lactation));
+      if (LACTATION_RANK[lactation] >= LACTATION_RANK.use_with_caution) {
+        warnings.push(`${medication.name}: ${lactation.replace(/_/g, ' ')} during breastfeeding. ${profile.lactationSummary}`);
+      }
+    }
+
+    return {
+      profile,
+      source,
+      trimester,
+      pregnancyRisk,
+      lactation,
+      severity,
+      warnings,
+      saferAlternatives: severity && severity !== InteractionSeverity.LOW ? profile.saferAlternatives : []
+    };
+  }
+
+  /**
+   * Numeric risk for ranking: 0 is compatible, higher is riskier
+   */
+  public riskScore(assessment: PregnancyLactationAssessment): number {
+    return Math.max(
+      assessment.pregnancyRisk ? RISK_RANK[assessment.pregnancyRisk] : 0,
+      assessment.lactation ? LACTATION_RANK[assessment.lactation] : 0
+    );
+  }
+
+  private worstRisk(profile: PregnancyLactationProfile): PregnancyRiskLevel {
+    return (Object.values(profile.trimesterRisk) as PregnancyRiskLevel[])
+      .reduce((worst, risk) => (RISK_RANK[risk] > RISK_RANK[worst] ? risk : worst), 'compatible');
+  }
+
+  // Pregnancy risk first, lactation as the tie-breaker
+  private worstRank(profile: PregnancyLactationProfile): number {
+    return RISK_RANK[this.worstRisk(profile)] * 10 + LACTATION_RANK[profile.lactation];
+  }
+
+  private pregnancySeverity(risk: PregnancyRiskLevel): InteractionSeverity | undefined {
+    if (RISK_RANK[risk] >= RISK_RANK.avoid) return InteractionSeverity.HIGH;
+    if (risk === 'use_with_caution') return InteractionSeverity.MEDIUM;
+    if (risk === 'limited_data') return InteractionSeverity.LOW;
+    return undefined;
+  }
+
+  private lactationSeverity(compatibility: LactationCompatibility): InteractionSeverity | undefined {
+    if (compatibility === 'avoid') return InteractionSeverity.HIGH;
+    if (compatibility === 'use_with_caution') return InteractionSeverity.MEDIUM;
+    if (compatibility === 'unknown') return InteractionSeverity.LOW;
+    return undefined;
+  }
+
+  private maxSeverity(a?: InteractionSeverity, b?: InteractionSeverity): InteractionSeverity | undefined {
+    const rank = (s?: InteractionSeverity) => (s === InteractionSeverity.HIGH ? 3 : s === InteractionSeverity.MEDIUM ? 2 : s ? 1 : 0);
+    return rank(a) >= rank(b) ? a : b;
+  }
+}
+
+export default PregnancyLactationRiskEngine.getInstance();
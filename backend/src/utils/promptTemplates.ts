@@ -0,0 +1,88 @@
+import { createHash } from 'crypto';
+
+/**
+ * A prompt version's share of traffic in an experiment
+ */
+export interface PromptVariant {
+  version: number;
+  weight: number; // relative; weights need not sum to 100
+}
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+
+/**
+ * Rendering and traffic splitting for prompt templates. Templates use {{name}} placeholders;
+ * callers format lists and optional sections into plain strings before rendering.
+ */
+export class PromptTemplates {
+  private static instance: PromptTemplates;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): PromptTemplates {
+    if (!PromptTemplates.instance) {
+      PromptTemplates.instance = new PromptTemplates();
+    }
+    return PromptTemplates.instance;
+  }
+
+  /**
+   * Placeholder names used by a template, in order of first use
+   */
+  public variablesOf(...templates: Array<string | undefined>): string[] {
+    const names = new Set<string>();
+    templates.forEach(template => {
+      (template || '').replace(PLACEHOLDER, (placeholder, name: string) => {
+        names.add(name);
+        return placeholder;
+      });
+    });
+    return [...names];
+  }
+
+  /**
+   * Placeholders in the template with no value supplied
+   */
+  public missingVariables(template: string, variables: Record<string, unknown>): string[] {
+    return this.variablesOf(template).filter(name => variables[name] === undefined || variables[name] === null);
+  }
+
+  /**
+   * Fill in a template's placeholders. Missing values render as empty strings, so check
+   * missingVariables first where they matter.
+   */
+  public render(template: string, variables: Record<string, unknown>): string {
+    return template.replace(PLACEHOLDER, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+    });
+  }
+
+  /**
+   * Pick an experiment variant by weight. With a subject key (a patient or visit id) the
+   * same subject always gets the same variant; without one the pick is random.
+   */
+  public pickVariant(variants: PromptVariant[], subjectKey?: string): PromptVariant | undefined {
+    const eligible = variants.filter(variant => variant.weight > 0);
+    const total = eligible.reduce((sum, variant) => sum + variant.weight, 0);
+    if (total === 0) return undefined;
+
+    const point = (subjectKey ? this.bucket(subjectKey) : Math.random()) * total;
+    let cumulative = 0;
+    return eligible.find(variant => {
+      cumulative += variant.weight;
+      return point < cumulative;
+    }) || eligible[eligible.length - 1];
+  }
+
+  // Stable value in [0, 1) derived from the key
+  private bucket(key: string): number {
+    return parseInt(createHash('sha256').update(key).digest('hex').slice(0, 8), 16) / 0x100000000;
+  }
+}
+
+export default PromptTemplates.getInstance();
@@ -0,0 +1,188 @@
+import sigParser, { StructuredSig } from './sigParser';
+
+/**
+ * Dose times to plan reminders for, in the patient's local time zone
+ */
+export interface ReminderScheduleInput {
+  sig?: StructuredSig;
+  timeOfDay: string[]; // HH:mm local times
+  startDate: Date;
+  endDate?: Date;
+  timeZone: string; // IANA zone, e.g. "America/New_York"
+}
+
+/**
+ * One planned reminder
+ */
+export interface ReminderOccurrence {
+  scheduledFor: Date; // UTC instant
+  localDate: string; // YYYY-MM-DD in the schedule's zone
+  localTime: string; // HH:mm as written on the schedule
+}
+
+/**
+ * Local calendar date and wall-clock time of an instant
+ */
+export interface LocalDateTime {
+  date: string;
+  time: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Plans medication reminders from schedule dose times in the patient's time zone. Local times
+ * are converted with the zone rules in effect on each day, so reminders keep their wall-clock
+ * time across DST changes: times skipped by a spring-forward gap move forward by the gap, and
+ * times repeated by a fall-back overlap fire once, at the first occurrence.
+ */
+export class ReminderScheduleCalculator {
+  private static instance: ReminderScheduleCalculator;
+  private formatters = new Map<string, Intl.DateTimeFormat>();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ReminderScheduleCalculator {
+    if (!ReminderScheduleCalculator.instance) {
+      ReminderScheduleCalculator.instance = new ReminderScheduleCalculator();
+    }
+    return ReminderScheduleCalculator.instance;
+  }
+
+  /**
+   * Whether the zone is a known IANA time zone
+   */
+  public isValidTimeZone(timeZone: string): boolean {
+    try {
+      this.formatter(timeZone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Reminders due in [from, to), ordered by time. Every-other-day and weekly sigs repeat from
+   * the schedule's start date; as-needed sigs get no reminders.
+   */
+  public occurrences(schedule: ReminderScheduleInput, from: Date, to: Date): ReminderOccurrence[] {
+    const frequency = schedule.sig?.frequency?.code;
+    if (schedule.sig?.asNeeded || frequency === 'PRN') {
+      return [];
+    }
+
+    const intervalDays = schedule.sig ? sigParser.getIntervalDays(schedule.sig) : 1;
+    const times = schedule.timeOfDay.filter(time => TIME_PATTERN.test(time));
+    const anchor = this.toLocal(schedule.startDate, schedule.timeZone).date;
+    // Widen by a day on each side so zones far from UTC are fully covered
+    const firstDay = this.addDays(this.toLocal(from, schedule.timeZone).date, -1);
+    const lastDay = this.addDays(this.toLocal(to, schedule.timeZone).date, 1);
+
+    const occurrences = new Map<number, ReminderOccurrence>();
+    for (let day = firstDay < anchor ? anchor : firstDay; day <= lastDay; day = this.addDays(day, 1)) {
+      const offsetDays = this.daysBetween(anchor, day);
+      if (offsetDays % intervalDays !== 0 || (frequency === 'ONCE' && offsetDays > 0)) continue;
+
+      for (const time of times) {
+        const scheduledFor = this.toUtc(day, time, schedule.timeZone);
+        if (scheduledFor < from || scheduledFor >= to || scheduledFor < schedule.startDate) continue;
+        if (schedule.endDate && scheduledFor > schedule.endDate) continue;
+        if (!occurrences.has(scheduledFor.getTime())) {
+          occurrences.set(scheduledFor.getTime(), { scheduledFor, localDate: day, localTime: this.normalizeTime(time) });
+        }
+      }
+    }
+
+    return Array.from(occurrences.values()).sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+  }
+
+  /**
+   * The UTC instant of a local date and time in the zone
+   */
+  public toUtc(date: string, time: string, timeZone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    // The offsets either side of the day cover any transition on it
+    const offsetBefore = this.offsetMs(wallClock - DAY_MS, timeZone);
+    const offsetAfter = this.offsetMs(wallClock + DAY_MS, timeZone);
+    const matches = [wallClock - offsetBefore, wallClock - offsetAfter]
+      .filter(instant => instant + this.offsetMs(instant, timeZone) === wallClock)
+      .sort((a, b) => a - b);
+
+    // No match means the time falls in a spring-forward gap
+    return new Date(matches.length > 0 ? matches[0] : wallClock - offsetBefore);
+  }
+
+  /**
+   * The local date and time of an instant in the zone
+   */
+  public toLocal(instant: Date, timeZone: string): LocalDateTime {
+    const parts = this.parts(instant.getTime(), timeZone);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return {
+      date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+      time: `${pad(parts.hour)}:${pad(parts.minute)}`
+    };
+  }
+
+  private offsetMs(instant: number, timeZone: string): number {
+    const parts = this.parts(instant, timeZone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - (instant - (((instant % 1000) + 1000) % 1000));
+  }
+
+  private parts(instant: number, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+    const values: Record<string, number> = {};
+    for (const part of this.formatter(timeZone).formatToParts(new Date(instant))) {
+      if (part.type !== 'literal') values[part.type] = Number(part.value);
+    }
+    return {
+      year: values.year,
+      month: values.month,
+      day: values.day,
+      hour: values.hour % 24,
+      minute: values.minute,
+      second: values.second
+    };
+  }
+
+  private formatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+    return formatter;
+  }
+
+  private addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+  }
+
+  private normalizeTime(time: string): string {
+    const [hour, minute] = time.split(':');
+    return `${hour.padStart(2, '0')}:${minute}`;
+  }
+}
+
+export default ReminderScheduleCalculator.getInstance();
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Who a request is running for. Set once per request after authentication so services deep
+ * in a call chain (e.g. the LLM gateway) can attribute work without threading ids through
+ * every signature.
+ */
+export interface RequestContextValues {
+  userId?: string;
+  departmentId?: string;
+}
+
+/**
+ * Per-request values carried across async calls
+ */
+export class RequestContext {
+  private static instance: RequestContext;
+  private storage = new AsyncLocalStorage<RequestContextValues>();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): RequestContext {
+    if (!RequestContext.instance) {
+      RequestContext.instance = new RequestContext();
+    }
+    return RequestContext.instance;
+  }
+
+  /**
+   * Run a function, and everything it awaits, with the given values
+   */
+  public run<T>(values: RequestContextValues, fn: () => T): T {
+    return this.storage.run(values, fn);
+  }
+
+  /**
+   * Values for the current request; empty outside a request, e.g. in workers
+   */
+  public get(): RequestContextValues {
+    return this.storage.getStore() || {};
+  }
+}
+
+export default RequestContext.getInstance();
@@ -0,0 +1,486 @@
+/**
+ * Standard frequency codes used in prescription directions
+ */
+export type FrequencyCode =
+  | 'QD'
+  | 'BID'
+  | 'TID'
+  | 'QID'
+  | 'QAM'
+  | 'QPM'
+  | 'QHS'
+  | 'QOD'
+  | 'QWK'
+  | 'QH' // every N hours, see intervalHours
+  | 'XD' // N times a day, see timesPerDay
+  | 'ONCE'
+  | 'PRN';
+
+/**
+ * How often a dose is given
+ */
+export interface SigFrequency {
+  code: FrequencyCode;
+  timesPerDay?: number;
+  intervalHours?: number; // shortest interval for ranges such as q4-6h
+  intervalHoursMax?: number;
+  intervalDays?: number; // days between dosing days, 2 for QOD and 7 for QWK
+}
+
+/**
+ * Structured prescription directions ("sig")
+ */
+export interface StructuredSig {
+  dose?: number;
+  doseMax?: number; // upper bound for ranges such as "1-2 tablets"
+  unit?: string;
+  route?: string;
+  frequency?: SigFrequency;
+  asNeeded: boolean;
+  maxPerDay?: { amount: number; unit: string }; // unit "dose" for "max 4 doses per day"
+  duration?: { value: number; unit: 'day' | 'week' | 'month'; days: number };
+  indication?: string;
+  text?: string;
+  warnings: string[];
+}
+
+/**
+ * Total amount taken per day
+ */
+export interface DailyDose {
+  amount: number;
+  unit: string;
+}
+
+const NUMBER = '(\\d+(?:\\.\\d+)?|one-half|half|one|two|three|four|five|six|seven|eight|nine|ten)';
+
+const NUMBER_WORDS: Record<string, number> = {
+  'one-half': 0.5, half: 0.5, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+// Unit spellings mapped to a canonical unit
+const UNITS: Array<{ pattern: string; unit: string }> = [
+  { pattern: 'mcg|µg|ug|micrograms?', unit: 'mcg' },
+  { pattern: 'mg|milligrams?', unit: 'mg' },
+  { pattern: 'g|gm|grams?', unit: 'g' },
+  { pattern: 'ml|cc|millilit(?:er|re)s?', unit: 'mL' },
+  { pattern: 'units?|iu|u', unit: 'unit' },
+  { pattern: 'tablets?|tabs?', unit: 'tablet' },
+  { pattern: 'capsules?|caps?', unit: 'capsule' },
+  { pattern: 'puffs?|inhalations?', unit: 'puff' },
+  { pattern: 'drops?|gtts?', unit: 'drop' },
+  { pattern: 'sprays?', unit: 'spray' },
+  { pattern: 'patch(?:es)?', unit: 'patch' },
+  { pattern: 'suppositor(?:y|ies)', unit: 'suppository' },
+  { pattern: 'teaspoons?|tsp', unit: 'teaspoon' },
+  { pattern: 'tablespoons?|tbsp', unit: 'tablespoon' },
+  { pattern: 'doses?|times', unit: 'dose' }
+];
+
+const UNIT_PATTERN = UNITS.map(u => u.pattern).join('|');
+
+const ROUTES: Array<{ pattern: RegExp; route: string }> = [
+  { pattern: /\b(?:po|p\.o\.|by mouth|orally|oral)\b/, route: 'oral' },
+  { pattern: /\b(?:sl|sublingual(?:ly)?|under the tongue)\b/, route: 'sublingual' },
+  { pattern: /\b(?:iv|intravenous(?:ly)?)\b/, route: 'intravenous' },
+  { pattern: /\b(?:im|intramuscular(?:ly)?|into the muscle)\b/, route: 'intramuscular' },
+  { pattern: /\b(?:sc|sq|subq|subcut|subcutaneous(?:ly)?|under the skin)\b/, route: 'subcutaneous' },
+  { pattern: /\b(?:pr|rectal(?:ly)?)\b/, route: 'rectal' },
+  { pattern: /\b(?:inh|inhaled|by inhalation|inhale)\b/, route: 'inhalation' },
+  { pattern: /\b(?:top|topical(?:ly)?|to (?:the )?(?:skin|affected area))\b|\bapply\b/, route: 'topical' },
+  { pattern: /\b(?:ou|os|in (?:each|both|the (?:left|right)) eyes?|ophthalmic)\b/, route: 'ophthalmic' },
+  { pattern: /\b(?:in (?:each|the) nostril|intranasal(?:ly)?|nasal)\b/, route: 'nasal' }
+];
+
+const PRN_PATTERN = /\b(?:prn|as needed|as required|when required|if needed)\b/;
+
+// Patient-friendly wording
+const FREQUENCY_TEXT: Partial<Record<FrequencyCode, string>> = {
+  QD: 'once a day',
+  BID: 'twice a day',
+  TID: 'three times a day',
+  QID: 'four times a day',
+  QAM: 'every morning',
+  QPM: 'every evening',
+  QHS: 'at bedtime',
+  QOD: 'every other day',
+  QWK: 'once a week',
+  ONCE: 'once',
+  PRN: ''
+};
+
+const ROUTE_TEXT: Record<string, { verb: string; phrase: string }> = {
+  oral: { verb: 'Take', phrase: 'by mouth' },
+  sublingual: { verb: 'Dissolve', phrase: 'under the tongue' },
+  intravenous: { verb: 'Give', phrase: 'intravenously' },
+  intramuscular: { verb: 'Inject', phrase: 'into the muscle' },
+  subcutaneous: { verb: 'Inject', phrase: 'under the skin' },
+  rectal: { verb: 'Insert', phrase: 'rectally' },
+  inhalation: { verb: 'Inhale', phrase: '' },
+  topical: { verb: 'Apply', phrase: 'to the affected area' },
+  ophthalmic: { verb: 'Instill', phrase: 'in the affected eye(s)' },
+  nasal: { verb: 'Use', phrase: 'in each nostril' }
+};
+
+// Default administration times used to build adherence schedules
+const SCHEDULE_TIMES: Partial<Record<FrequencyCode, string[]>> = {
+  QD: ['08:00'],
+  BID: ['08:00', '20:00'],
+  TID: ['08:00', '14:00', '20:00'],
+  QID: ['08:00', '12:00', '16:00', '20:00'],
+  QAM: ['08:00'],
+  QPM: ['18:00'],
+  QHS: ['22:00'],
+  QOD: ['08:00'],
+  QWK: ['08:00'],
+  ONCE: ['08:00']
+};
+
+/**
+ * Parses free-text prescription directions into a structured sig and renders them back
+ */
+export class SigParser {
+  private static instance: SigParser;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): SigParser {
+    if (!SigParser.instance) {
+      SigParser.instance = new SigParser();
+    }
+    return SigParser.instance;
+  }
+
+  /**
+   * Parse free-text directions, e.g. "Take 1-2 tabs PO q4-6h PRN pain, max 8 tabs/day x 5 days"
+   */
+  public parse(text: string): StructuredSig {
+    const normalized = ` ${(text || '').toLowerCase().replace(/\s+/g, ' ').trim()} `;
+    const sig: StructuredSig = { asNeeded: PRN_PATTERN.test(normalized), text, warnings: [] };
+
+    // Remove clauses that contain numbers before looking for the dose
+    const maxPerDay = this.parseMaxPerDay(normalized);
+    const duration = this.parseDuration(normalized);
+    let remaining = normalized;
+    if (maxPerDay) {
+      sig.maxPerDay = maxPerDay.value;
+      remaining = remaining.replace(maxPerDay.match, ' ');
+    }
+    if (duration) {
+      sig.duration = duration.value;
+      remaining = remaining.replace(duration.match, ' ');
+    }
+
+    const frequency = this.parseFrequency(remaining);
+    if (frequency) {
+      sig.frequency = frequency.value;
+      remaining = remaining.replace(frequency.match, ' ');
+    } else if (sig.asNeeded) {
+      sig.frequency = { code: 'PRN' };
+    } else {
+      sig.warnings.push('Frequency not recognized');
+    }
+
+    this.parseDose(remaining, sig);
+    if (sig.dose === undefined) {
+      sig.warnings.push('Dose not recognized');
+    }
+
+    sig.route = ROUTES.find(r => r.pattern.test(normalized))?.route;
+    sig.indication = this.parseIndication(normalized);
+
+    if (/\bthen\b/.test(normalized)) {
+      sig.warnings.push('Tapering or multi-step directions are only partially supported');
+    }
+
+    return sig;
+  }
+
+  /**
+   * Parse separate dosage and frequency fields, as stored on medication records
+   */
+  public fromParts(dosage: string, frequency?: string): StructuredSig {
+    return this.parse([dosage, frequency].filter(Boolean).join(' '));
+  }
+
+  /**
+   * Render a structured sig as patient-friendly directions
+   */
+  public render(sig: StructuredSig): string {
+    const route = sig.route ? ROUTE_TEXT[sig.route] : undefined;
+    const parts: string[] = [route?.verb || 'Take'];
+
+    if (sig.dose !== undefined) {
+      const amount = sig.doseMax !== undefined ? `${this.formatNumber(sig.dose)} to ${this.formatNumber(sig.doseMax)}` : this.formatNumber(sig.dose);
+      const plural = (sig.doseMax ?? sig.dose) > 1;
+      parts.push(sig.unit ? `${amount} ${this.formatUnit(sig.unit, plural)}` : amount);
+    }
+
+    if (route?.phrase) {
+      parts.push(route.phrase);
+    }
+
+    const frequencyText = sig.frequency ? this.renderFrequency(sig.frequency) : '';
+    if (frequencyText) {
+      parts.push(frequencyText);
+    }
+
+    if (sig.asNeeded) {
+      parts.push(sig.indication ? `as needed for ${sig.indication}` : 'as needed');
+    } else if (sig.indication) {
+      parts.push(`for ${sig.indication}`);
+    }
+
+    if (sig.duration) {
+      parts.push(`for ${sig.duration.value} ${sig.duration.unit}${sig.duration.value !== 1 ? 's' : ''}`);
+    }
+
+    let directions = `${parts.join(' ')}.`;
+    if (sig.maxPerDay) {
+      const unit = sig.maxPerDay.unit === 'dose'
+        ? (sig.maxPerDay.amount === 1 ? 'dose' : 'doses')
+        : this.formatUnit(sig.maxPerDay.unit, sig.maxPerDay.amount > 1);
+      directions += ` Do not take more than ${this.formatNumber(sig.maxPerDay.amount)} ${unit} in 24 hours.`;
+    }
+
+    return directions;
+  }
+
+  /**
+   * Number of doses per day. Uses the most frequent option for ranges unless useMaximum is false.
+   */
+  public getDosesPerDay(sig: StructuredSig, useMaximum: boolean = true): number | undefined {
+    const frequency = sig.frequency;
+    let dosesPerDay: number | undefined;
+
+    if (frequency?.timesPerDay !== undefined) {
+      dosesPerDay = frequency.timesPerDay;
+    } else if (frequency?.intervalHours) {
+      const interval = useMaximum ? frequency.intervalHours : frequency.intervalHoursMax ?? frequency.intervalHours;
+      dosesPerDay = 24 / interval;
+    }
+
+    if (sig.maxPerDay?.unit === 'dose') {
+      dosesPerDay = dosesPerDay !== undefined ? Math.min(dosesPerDay, sig.maxPerDay.amount) : sig.maxPerDay.amount;
+    }
+
+    return dosesPerDay;
+  }
+
+  /**
+   * Total daily amount. Uses the upper bound of dose and frequency ranges unless useMaximum is false,
+   * and honours any "max per day" limit expressed in the dose unit.
+   */
+  public calculateDailyDose(sig: StructuredSig, useMaximum: boolean = true): DailyDose | null {
+    if (sig.dose === undefined || !sig.unit) {
+      return null;
+    }
+
+    const dose = useMaximum ? sig.doseMax ?? sig.dose : sig.dose;
+    const dosesPerDay = this.getDosesPerDay(sig, useMaximum);
+    const limit = sig.maxPerDay && sig.maxPerDay.unit === sig.unit ? sig.maxPerDay.amount : undefined;
+
+    if (dosesPerDay === undefined) {
+      return limit !== undefined ? { amount: limit, unit: sig.unit } : null;
+    }
+
+    const amount = dose * dosesPerDay;
+    return {
+      amount: Math.round((limit !== undefined ? Math.min(amount, limit) : amount) * 1000) / 1000,
+      unit: sig.unit
+    };
+  }
+
+  /**
+   * Default administration times (HH:mm) on each dosing day for building adherence schedules.
+   * As-needed directions have no fixed times; see getIntervalDays for how often dosing days come.
+   */
+  public getScheduleTimes(sig: StructuredSig): string[] {
+    const frequency = sig.frequency;
+    if (!frequency || sig.asNeeded) {
+      return [];
+    }
+
+    if (frequency.code === 'QH' && frequency.intervalHours) {
+      const times: string[] = [];
+      for (let hour = 8; hour < 32 && times.length < 24; hour += frequency.intervalHours) {
+        times.push(this.formatTime(hour % 24));
+      }
+      return times;
+    }
+
+    if (frequency.code === 'XD' && frequency.timesPerDay) {
+      // Spread doses across the waking day (08:00-22:00)
+      const count = Math.round(frequency.timesPerDay);
+      if (count <= 1) return ['08:00'];
+      return Array.from({ length: count }, (_, i) => this.formatTime(8 + (14 * i) / (count - 1)));
+    }
+
+    return SCHEDULE_TIMES[frequency.code] || [];
+  }
+
+  /**
+   * Days from one dosing day to the next: 2 for every other day, 7 for weekly, otherwise 1.
+   * Sigs saved before intervalDays was recorded fall back to their frequency code.
+   */
+  public getIntervalDays(sig: StructuredSig): number {
+    const frequency = sig.frequency;
+    if (frequency?.intervalDays) {
+      return frequency.intervalDays;
+    }
+    return frequency?.code === 'QOD' ? 2 : frequency?.code === 'QWK' ? 7 : 1;
+  }
+
+  /**
+   * Match the frequency part of the directions
+   */
+  private parseFrequency(text: string): { value: SigFrequency; match: string } | undefined {
+    const interval = /\b(?:q|every)\s*(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*(?:h|hr|hrs|hours?)\b/.exec(text);
+    if (interval) {
+      const min = parseFloat(interval[1]);
+      const max = interval[2] ? parseFloat(interval[2]) : undefined;
+      return {
+        value: { code: 'QH', intervalHours: min, intervalHoursMax: max },
+        match: interval[0]
+      };
+    }
+
+    const timesPerDay = new RegExp(`\\b${NUMBER}\\s*(?:x|times?)\\s*(?:a|per|each|\\/)?\\s*(?:day|daily)\\b`).exec(text);
+    if (timesPerDay) {
+      const count = this.toNumber(timesPerDay[1]);
+      return { value: this.frequencyForTimesPerDay(count), match: timesPerDay[0] };
+    }
+
+    const patterns: Array<{ pattern: RegExp; value: SigFrequency }> = [
+      { pattern: /\b(?:qod|every other day|on alternate days)\b/, value: { code: 'QOD', timesPerDay: 0.5, intervalDays: 2 } },
+      { pattern: /\b(?:qwk|weekly|once (?:a|per|every) week|every week)\b/, value: { code: 'QWK', timesPerDay: 1 / 7, intervalDays: 7 } },
+      { pattern: /\b(?:bid|b\.i\.d\.?|twice (?:a |per )?day|twice daily)\b/, value: { code: 'BID', timesPerDay: 2 } },
+      { pattern: /\b(?:tid|t\.i\.d\.?)\b/, value: { code: 'TID', timesPerDay: 3 } },
+      { pattern: /\b(?:qid|q\.i\.d\.?)\b/, value: { code: 'QID', timesPerDay: 4 } },
+      { pattern: /\b(?:qhs|hs|at bedtime|nightly|at night|every night)\b/, value: { code: 'QHS', timesPerDay: 1 } },
+      { pattern: /\b(?:qam|every morning|in the morning)\b/, value: { code: 'QAM', timesPerDay: 1 } },
+      { pattern: /\b(?:qpm|every evening|in the evening)\b/, value: { code: 'QPM', timesPerDay: 1 } },
+      { pattern: /\b(?:qd|q\.d\.|daily|once (?:a |per )?day|every day|once daily)\b/, value: { code: 'QD', timesPerDay: 1 } },
+      { pattern: /\b(?:once|stat|now|immediately|single dose)\b/, value: { code: 'ONCE', timesPerDay: 1 } }
+    ];
+
+    for (const { pattern, value } of patterns) {
+      const match = pattern.exec(text);
+      if (match) {
+        return { value, match: match[0] };
+      }
+    }
+
+    return undefined;
+  }
+
+  private frequencyForTimesPerDay(count: number): SigFrequency {
+    const codes: Record<number, FrequencyCode> = { 1: 'QD', 2: 'BID', 3: 'TID', 4: 'QID' };
+    return { code: codes[count] || 'XD', timesPerDay: count };
+  }
+
+  /**
+   * Match the dose amount, range and unit
+   */
+  private parseDose(text: string, sig: StructuredSig): void {
+    const withUnit = new RegExp(`${NUMBER}(?:\\s*(?:-|to|or)\\s*${NUMBER})?\\s*(${UNIT_PATTERN})\\b`).exec(text);
+    if (withUnit) {
+      sig.dose = this.toNumber(withUnit[1]);
+      sig.doseMax = withUnit[2] ? this.toNumber(withUnit[2]) : undefined;
+      sig.unit = this.normalizeUnit(withUnit[3]);
+      return;
+    }
+
+    const afterVerb = new RegExp(`\\b(?:take|give|inhale|use|apply|instill|inject|insert)\\s+${NUMBER}(?:\\s*(?:-|to|or)\\s*${NUMBER})?\\b`).exec(text);
+    if (afterVerb) {
+      sig.dose = this.toNumber(afterVerb[1]);
+      sig.doseMax = afterVerb[2] ? this.toNumber(afterVerb[2]) : undefined;
+    }
+  }
+
+  /**
+   * Match "max 8 tablets per day", "not to exceed 3 g in 24 hours", "max 4 doses/day"
+   */
+  private parseMaxPerDay(text: string): { value: { amount: number; unit: string }; match: string } | undefined {
+    const match = new RegExp(
+      `\\b(?:max(?:imum)?\\.?(?: of)?|not to exceed|do not exceed|nte|no more than|up to)\\s*${NUMBER}\\s*(${UNIT_PATTERN})?\\s*(?:\\/|per|a|in|each|every)\\s*(?:day|24\\s*(?:h|hrs?|hours?))\\b`
+    ).exec(text);
+    if (!match) return undefined;
+
+    return {
+      value: { amount: this.toNumber(match[1]), unit: match[2] ? this.normalizeUnit(match[2]) : 'dose' },
+      match: match[0]
+    };
+  }
+
+  /**
+   * Match "for 7 days", "x 2 weeks", "for 1 month"
+   */
+  private parseDuration(text: string): { value: NonNullable<StructuredSig['duration']>; match: string } | undefined {
+    const match = /\b(?:for|x)\s*(\d+)\s*(d|days?|wks?|weeks?|mos?|months?)\b/.exec(text);
+    if (!match) return undefined;
+
+    const value = parseInt(match[1], 10);
+    const unit = match[2].startsWith('w') ? 'week' : match[2].startsWith('m') ? 'month' : 'day';
+    const days = value * (unit === 'week' ? 7 : unit === 'month' ? 30 : 1);
+    return { value: { value, unit, days }, match: match[0] };
+  }
+
+  /**
+   * Match the indication, e.g. "prn pain", "as needed for nausea", "for blood pressure"
+   */
+  private parseIndication(text: string): string | undefined {
+    const stop = '(?=\\s*(?:$|[,;.]|\\bmax|\\bnot\\b|\\bdo not\\b|\\bno more\\b|\\bup to\\b|\\bevery\\b|\\bq\\d|\\bfor\\s+\\d|\\bx\\s*\\d|\\bthen\\b))';
+    const prn = new RegExp(`\\b(?:prn|as needed|as required|when required|if needed)\\s+(?:for\\s+)?([a-z][a-z '\\-]*?)${stop}`).exec(text);
+    if (prn) {
+      return prn[1].trim();
+    }
+
+    const general = new RegExp(`\\bfor\\s+(?!\\d)([a-z][a-z '\\-]*?)${stop}`).exec(text);
+    return general ? general[1].trim() : undefined;
+  }
+
+  private renderFrequency(frequency: SigFrequency): string {
+    if (frequency.code === 'QH' && frequency.intervalHours) {
+      return frequency.intervalHoursMax
+        ? `every ${this.formatNumber(frequency.intervalHours)} to ${this.formatNumber(frequency.intervalHoursMax)} hours`
+        : `every ${this.formatNumber(frequency.intervalHours)} hours`;
+    }
+    if (frequency.code === 'XD') {
+      return `${this.formatNumber(frequency.timesPerDay || 0)} times a day`;
+    }
+    return FREQUENCY_TEXT[frequency.code] || '';
+  }
+
+  private normalizeUnit(unit: string): string {
+    const lower = unit.toLowerCase();
+    return UNITS.find(u => new RegExp(`^(?:${u.pattern})$`).test(lower))?.unit || lower;
+  }
+
+  private formatUnit(unit: string, plural: boolean): string {
+    if (!plural || ['mg', 'mcg', 'g', 'mL'].includes(unit)) return unit;
+    if (unit === 'patch') return 'patches';
+    if (unit === 'suppository') return 'suppositories';
+    return `${unit}s`;
+  }
+
+  private toNumber(value: string): number {
+    return NUMBER_WORDS[value] ?? parseFloat(value);
+  }
+
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+  }
+
+  private formatTime(hour: number): string {
+    const h = Math.floor(hour) % 24;
+    const m = Math.round((hour - Math.floor(hour)) * 60);
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+  }
+}
+
+export default SigParser.getInstance();
@@ -0,0 +1,264 @@
+/**
+ * A spontaneous report reduced to the drugs and events it mentions
+ */
+export interface PharmacovigilanceReport {
+  medications: string[];
+  events: string[];
+  reportDate: Date;
+}
+
+/**
+ * Estimate with a 95% confidence interval
+ */
+export interface RatioEstimate {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Disproportionality statistics for one drug–event pair. Cells follow the usual 2x2 layout:
+ * a = drug and event, b = drug without event, c = event without drug, d = neither.
+ */
+export interface DrugEventStatistics {
+  drug: string;
+  event: string;
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  prr: RatioEstimate;
+  ror: RatioEstimate;
+  chiSquare: number;
+  isSignal: boolean;
+}
+
+/**
+ * Statistics for a drug–event pair within one rolling window
+ */
+export interface SignalWindowStatistics {
+  windowStart: Date;
+  windowEnd: Date;
+  cases: number;
+  prr?: number;
+  ror?: number;
+  isSignal: boolean;
+}
+
+/**
+ * Signal in the most recent window, with its trend over earlier windows
+ */
+export interface DetectedSignal {
+  current: DrugEventStatistics;
+  windowStart: Date;
+  windowEnd: Date;
+  emerging: boolean; // not a signal in the previous window
+  trend: SignalWindowStatistics[]; // oldest window first
+}
+
+/**
+ * Thresholds and rolling window settings
+ */
+export interface SignalDetectionOptions {
+  minCases?: number;
+  minPrr?: number;
+  minChiSquare?: number;
+  windowDays?: number;
+  stepDays?: number;
+  windowCount?: number;
+  asOf?: Date;
+}
+
+// Evans criteria with a significant ROR as an additional requirement
+const DEFAULT_OPTIONS: Required<Omit<SignalDetectionOptions, 'asOf'>> = {
+  minCases: 3,
+  minPrr: 2,
+  minChiSquare: 4,
+  windowDays: 90,
+  stepDays: 30,
+  windowCount: 4
+};
+
+const Z_95 = 1.96;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pharmacovigilance disproportionality analysis (PRR and ROR) over spontaneous reports,
+ * with rolling windows to spot emerging drug–event signals
+ */
+export class SignalDetector {
+  private static instance: SignalDetector;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): SignalDetector {
+    if (!SignalDetector.instance) {
+      SignalDetector.instance = new SignalDetector();
+    }
+    return SignalDetector.instance;
+  }
+
+  /**
+   * Compute PRR and ROR for every drug–event pair with at least minCases reports
+   */
+  public computeDisproportionality(
+    reports: PharmacovigilanceReport[],
+    options: SignalDetectionOptions = {}
+  ): DrugEventStatistics[] {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    return this.pairStatistics(reports, settings).filter(stats => stats.a >= settings.minCases);
+  }
+
+  /**
+   * Detect signals in the most recent rolling window and flag those that are new compared
+   * with the previous window
+   */
+  public detectSignals(reports: PharmacovigilanceReport[], options: SignalDetectionOptions = {}): DetectedSignal[] {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const asOf = options.asOf || new Date();
+
+    // Windows ordered oldest first; the last one ends at asOf
+    const windows = Array.from({ length: settings.windowCount }, (_, index) => {
+      const windowEnd = new Date(asOf.getTime() - (settings.windowCount - 1 - index) * settings.stepDays * DAY_MS);
+      const windowStart = new Date(windowEnd.getTime() - settings.windowDays * DAY_MS);
+      const inWindow = reports.filter(report => report.reportDate > windowStart && report.reportDate <= windowEnd);
+      // Trend entries need every pair, including those below the case threshold
+      const statistics = new Map(
+        this.pairStatistics(inWindow, settings)
+          .map(stats => [`${stats.drug}\u0000${stats.event}`, stats])
+      );
+      return { windowStart, windowEnd, statistics };
+    });
+
+    const current = windows[windows.length - 1];
+    const previous = windows.length > 1 ? windows[windows.length - 2] : undefined;
+    const signals: DetectedSignal[] = [];
+
+    current.statistics.forEach((stats, key) => {
+      if (!stats.isSignal) return;
+
+      signals.push({
+        current: stats,
+        windowStart: current.windowStart,
+        windowEnd: current.windowEnd,
+        emerging: !previous?.statistics.get(key)?.isSignal,
+        trend: windows.map(window => {
+          const windowStats = window.statistics.get(key);
+          return {
+            windowStart: window.windowStart,
+            windowEnd: window.windowEnd,
+            cases: windowStats?.a || 0,
+            prr: windowStats ? this.round(windowStats.prr.value) : undefined,
+            ror: windowStats ? this.round(windowStats.ror.value) : undefined,
+            isSignal: windowStats?.isSignal || false
+          };
+        })
+      });
+    });
+
+    return signals.sort((x, y) => Number(y.emerging) - Number(x.emerging) || y.current.prr.lower - x.current.prr.lower);
+  }
+
+  /**
+   * Statistics for every reported drug–event pair; isSignal still applies the case threshold
+   */
+  private pairStatistics(
+    reports: PharmacovigilanceReport[],
+    settings: Required<Omit<SignalDetectionOptions, 'asOf'>>
+  ): DrugEventStatistics[] {
+    const normalized = reports.map(report => ({
+      drugs: this.normalizeTerms(report.medications),
+      events: this.normalizeTerms(report.events)
+    }));
+
+    const total = normalized.length;
+    const drugCounts = new Map<string, number>();
+    const eventCounts = new Map<string, number>();
+    const pairCounts = new Map<string, number>();
+
+    for (const { drugs, events } of normalized) {
+      drugs.forEach(drug => drugCounts.set(drug, (drugCounts.get(drug) || 0) + 1));
+      events.forEach(event => eventCounts.set(event, (eventCounts.get(event) || 0) + 1));
+      for (const drug of drugs) {
+        for (const event of events) {
+          const key = `${drug}\u0000${event}`;
+          pairCounts.set(key, (pairCounts.get(key) || 0) + 1);
+        }
+      }
+    }
+
+    const results: DrugEventStatistics[] = [];
+    pairCounts.forEach((a, key) => {
+      const [drug, event] = key.split('\u0000');
+      const b = (drugCounts.get(drug) || 0) - a;
+      const c = (eventCounts.get(event) || 0) - a;
+      const d = total - a - b - c;
+      results.push(this.statisticsFor(drug, event, a, b, c, d, settings));
+    });
+
+    return results.sort((x, y) => y.prr.lower - x.prr.lower);
+  }
+
+  private statisticsFor(
+    drug: string,
+    event: string,
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    settings: Required<Omit<SignalDetectionOptions, 'asOf'>>
+  ): DrugEventStatistics {
+    // Haldane correction keeps the ratios finite when a cell is empty
+    const correction = [a, b, c, d].some(cell => cell === 0) ? 0.5 : 0;
+    const [ca, cb, cc, cd] = [a, b, c, d].map(cell => cell + correction);
+
+    const prr = (ca / (ca + cb)) / (cc / (cc + cd));
+    const prrSe = Math.sqrt(1 / ca - 1 / (ca + cb) + 1 / cc - 1 / (cc + cd));
+    const ror = (ca * cd) / (cb * cc);
+    const rorSe = Math.sqrt(1 / ca + 1 / cb + 1 / cc + 1 / cd);
+
+    // Pearson chi-square with Yates correction
+    const n = a + b + c + d;
+    const denominator = (a + b) * (c + d) * (a + c) * (b + d);
+    const chiSquare = denominator > 0
+      ? (n * Math.pow(Math.max(0, Math.abs(a * d - b * c) - n / 2), 2)) / denominator
+      : 0;
+
+    const prrEstimate = this.estimate(prr, prrSe);
+    const rorEstimate = this.estimate(ror, rorSe);
+
+    return {
+      drug,
+      event,
+      a,
+      b,
+      c,
+      d,
+      prr: prrEstimate,
+      ror: rorEstimate,
+      chiSquare: this.round(chiSquare),
+      isSignal: a >= settings.minCases && prr >= settings.minPrr && chiSquare >= settings.minChiSquare && rorEstimate.lower > 1
+    };
+  }
+
+  private estimate(value: number, logStandardError: number): RatioEstimate {
+    return {
+      value: this.round(value),
+      lower: this.round(Math.exp(Math.log(value) - Z_95 * logStandardError)),
+      upper: this.round(Math.exp(Math.log(value) + Z_95 * logStandardError))
+    };
+  }
+
+  private normalizeTerms(terms: string[]): string[] {
+    return Array.from(new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean)));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export default SignalDetector.getInstance();
@@ -0,0 +1,212 @@
+import sigParser, { StructuredSig } from './sigParser';
+
+/**
+ * A quantity of medication handed to the patient
+ */
+export interface DispenseRecord {
+  dispensedAt: Date;
+  quantity: number; // in dispensing units (tablets, capsules, mL, ...)
+  daysSupply?: number;
+  refillsRemaining?: number; // as reported by the pharmacy with this fill
+}
+
+/**
+ * A recorded dose event
+ */
+export interface SupplyEvent {
+  timestamp: Date;
+  taken: boolean;
+}
+
+/**
+ * Input for a supply forecast
+ */
+export interface SupplyForecastInput {
+  sig?: StructuredSig;
+  dispenses: DispenseRecord[];
+  events?: SupplyEvent[];
+  refillRemindDays?: number;
+  asOf?: Date;
+}
+
+export type SupplyStatus = 'ok' | 'refill_due' | 'out' | 'unknown';
+
+/**
+ * Projected supply on hand and run-out date
+ */
+export interface SupplyForecast {
+  unitsPerDose: number;
+  unitsPerDay?: number;
+  totalDispensed: number;
+  unitsUsed: number;
+  unitsOnHand: number;
+  daysRemaining?: number;
+  runOutDate?: Date;
+  refillDueDate?: Date;
+  status: SupplyStatus;
+  basis: 'events' | 'schedule'; // whether recorded doses drove the usage estimate
+}
+
+/**
+ * Possession-based adherence over a period
+ */
+export interface PossessionMetrics {
+  periodStart: Date;
+  periodEnd: Date;
+  daysInPeriod: number;
+  daysSupplied: number;
+  daysCovered: number;
+  mpr: number; // medication possession ratio, may exceed 1 with early refills
+  pdc: number; // proportion of days covered, capped at 1
+}
+
+// Sig doses in these units are strengths, not dispensing units; assume one unit per dose
+const STRENGTH_UNITS = new Set(['mg', 'mcg', 'g', 'microgram', 'milligram', 'gram', 'unit', 'units', 'iu']);
+
+const DEFAULT_REFILL_REMIND_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Projects medication supply from dispensed quantities, the dosing schedule and recorded
+ * dose events, and calculates possession-based adherence (MPR and PDC)
+ */
+export class SupplyForecaster {
+  private static instance: SupplyForecaster;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): SupplyForecaster {
+    if (!SupplyForecaster.instance) {
+      SupplyForecaster.instance = new SupplyForecaster();
+    }
+    return SupplyForecaster.instance;
+  }
+
+  /**
+   * Project the supply on hand. Usage counts recorded doses taken since the first dispense,
+   * plus scheduled usage after the last recorded event (or throughout when none are recorded).
+   */
+  public forecast(input: SupplyForecastInput): SupplyForecast {
+    const asOf = input.asOf || new Date();
+    const dispenses = input.dispenses
+      .filter(dispense => dispense.dispensedAt <= asOf)
+      .sort((a, b) => a.dispensedAt.getTime() - b.dispensedAt.getTime());
+    const unitsPerDose = this.unitsPerDose(input.sig);
+    const unitsPerDay = this.unitsPerDay(input.sig, dispenses);
+    const totalDispensed = dispenses.reduce((sum, dispense) => sum + dispense.quantity, 0);
+
+    if (dispenses.length === 0) {
+      return { unitsPerDose, unitsPerDay, totalDispensed, unitsUsed: 0, unitsOnHand: 0, status: 'unknown', basis: 'schedule' };
+    }
+
+    const firstDispensed = dispenses[0].dispensedAt;
+    const events = (input.events || [])
+      .filter(event => event.timestamp >= firstDispensed && event.timestamp <= asOf)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const lastEventAt = events.length > 0 ? events[events.length - 1].timestamp : firstDispensed;
+
+    const recordedUse = events.filter(event => event.taken).length * unitsPerDose;
+    const scheduledUse = unitsPerDay !== undefined ? ((asOf.getTime() - lastEventAt.getTime()) / DAY_MS) * unitsPerDay : 0;
+    const unitsUsed = this.round(recordedUse + scheduledUse);
+    const unitsOnHand = this.round(Math.max(0, totalDispensed - unitsUsed));
+    const basis = events.length > 0 ? 'events' : 'schedule';
+
+    if (!unitsPerDay) {
+      return {
+        unitsPerDose, unitsPerDay, totalDispensed, unitsUsed, unitsOnHand,
+        status: unitsOnHand <= 0 ? 'out' : 'unknown',
+        basis
+      };
+    }
+
+    const daysRemaining = this.round(unitsOnHand / unitsPerDay);
+    const runOutDate = new Date(asOf.getTime() + daysRemaining * DAY_MS);
+    const refillDueDate = new Date(runOutDate.getTime() - (input.refillRemindDays ?? DEFAULT_REFILL_REMIND_DAYS) * DAY_MS);
+
+    let status: SupplyStatus = 'ok';
+    if (unitsOnHand <= 0) status = 'out';
+    else if (refillDueDate <= asOf) status = 'refill_due';
+
+    return {
+      unitsPerDose, unitsPerDay, totalDispensed, unitsUsed, unitsOnHand,
+      daysRemaining, runOutDate, refillDueDate, status, basis
+    };
+  }
+
+  /**
+   * MPR and PDC over a period. MPR sums the days' supply dispensed within the period; PDC
+   * shifts early refills to start when the previous supply runs out and counts covered days.
+   */
+  public possession(
+    dispenses: DispenseRecord[],
+    periodStart: Date,
+    periodEnd: Date,
+    unitsPerDay?: number
+  ): PossessionMetrics {
+    const daysInPeriod = Math.max(1, Math.round((periodEnd.getTime() - periodStart.getTime()) / DAY_MS));
+    const supplies = dispenses
+      .filter(dispense => dispense.dispensedAt <= periodEnd)
+      .sort((a, b) => a.dispensedAt.getTime() - b.dispensedAt.getTime())
+      .map(dispense => ({ start: dispense.dispensedAt, days: this.daysSupply(dispense, unitsPerDay) }))
+      .filter((supply): supply is { start: Date; days: number } => supply.days !== undefined);
+
+    const daysSupplied = supplies
+      .filter(supply => supply.start >= periodStart)
+      .reduce((sum, supply) => sum + supply.days, 0);
+
+    let coveredUntil = 0;
+    let daysCovered = 0;
+    for (const supply of supplies) {
+      const start = Math.max(supply.start.getTime(), coveredUntil);
+      const end = start + supply.days * DAY_MS;
+      coveredUntil = end;
+
+      const overlap = Math.min(end, periodEnd.getTime()) - Math.max(start, periodStart.getTime());
+      if (overlap > 0) daysCovered += overlap / DAY_MS;
+    }
+
+    return {
+      periodStart,
+      periodEnd,
+      daysInPeriod,
+      daysSupplied: this.round(daysSupplied),
+      daysCovered: this.round(daysCovered),
+      mpr: this.round(daysSupplied / daysInPeriod),
+      pdc: this.round(Math.min(1, daysCovered / daysInPeriod))
+    };
+  }
+
+  /**
+   * Dispensing units consumed per day, from the sig or else from the latest days' supply
+   */
+  public unitsPerDay(sig: StructuredSig | undefined, dispenses: DispenseRecord[] = []): number | undefined {
+    const dosesPerDay = sig && !sig.asNeeded ? sigParser.getDosesPerDay(sig) : undefined;
+    if (dosesPerDay) {
+      return this.round(dosesPerDay * this.unitsPerDose(sig));
+    }
+
+    const latest = [...dispenses].reverse().find(dispense => dispense.daysSupply);
+    return latest?.daysSupply ? this.round(latest.quantity / latest.daysSupply) : undefined;
+  }
+
+  private unitsPerDose(sig?: StructuredSig): number {
+    if (!sig?.dose || !sig.unit || STRENGTH_UNITS.has(sig.unit.toLowerCase())) {
+      return 1;
+    }
+    return sig.doseMax ?? sig.dose;
+  }
+
+  private daysSupply(dispense: DispenseRecord, unitsPerDay?: number): number | undefined {
+    if (dispense.daysSupply) return dispense.daysSupply;
+    return unitsPerDay ? dispense.quantity / unitsPerDay : undefined;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export default SupplyForecaster.getInstance();
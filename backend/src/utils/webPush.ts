@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import https from 'https';
+
+/**
+ * A browser push subscription as returned by PushManager.subscribe()
+ */
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string; // base64url uncompressed P-256 public key
+    auth: string; // base64url 16-byte auth secret
+  };
+}
+
+/**
+ * Application server (VAPID) identity
+ */
+export interface VapidDetails {
+  subject: string; // mailto: or https: contact for the push service
+  publicKey: string; // base64url uncompressed P-256 public key
+  privateKey: string; // base64url 32-byte private key
+}
+
+/**
+ * Delivery options for one message
+ */
+export interface WebPushOptions {
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string; // replaces an undelivered message with the same topic
+}
+
+/**
+ * Push service response
+ */
+export interface WebPushResult {
+  statusCode: number;
+  expired: boolean; // the subscription is gone and should be removed
+  body?: string;
+}
+
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SECONDS = 4 * 60 * 60;
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Sends Web Push messages: payloads are encrypted with the subscription keys (RFC 8291,
+ * aes128gcm) and requests are signed with a VAPID token (RFC 8292)
+ */
+export class WebPushSender {
+  private static instance: WebPushSender;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): WebPushSender {
+    if (!WebPushSender.instance) {
+      WebPushSender.instance = new WebPushSender();
+    }
+    return WebPushSender.instance;
+  }
+
+  /**
+   * Encrypt and deliver a payload to the subscription's push service
+   */
+  public async send(
+    subscription: WebPushSubscription,
+    payload: string | Buffer,
+    vapid: VapidDetails,
+    options: WebPushOptions = {}
+  ): Promise<WebPushResult> {
+    const body = this.encrypt(subscription, payload);
+    const endpoint = new URL(subscription.endpoint);
+    const headers: Record<string, string | number> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      'Content-Length': body.length,
+      TTL: options.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+      Urgency: options.urgency || 'normal',
+      Authorization: this.vapidAuthorization(endpoint.origin, vapid)
+    };
+    if (options.topic) headers.Topic = options.topic;
+
+    return new Promise((resolve, reject) => {
+      const request = https.request(endpoint, { method: 'POST', headers, timeout: REQUEST_TIMEOUT_MS }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => {
+          const statusCode = response.statusCode || 0;
+          resolve({
+            statusCode,
+            expired: statusCode === 404 || statusCode === 410,
+            body: chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : undefined
+          });
+        });
+      });
+      request.on('timeout', () => request.destroy(new Error('Push service request timed out')));
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Encrypt a payload for the subscription as a single aes128gcm record
+   */
+  public encrypt(subscription: WebPushSubscription, payload: string | Buffer, salt: Buffer = crypto.randomBytes(16)): Buffer {
+    const clientPublicKey = this.fromBase64Url(subscription.keys.p256dh);
+    const authSecret = this.fromBase64Url(subscription.keys.auth);
+    const content = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+    if (content.length > RECORD_SIZE - 17 - 86) {
+      throw new Error('Push payload is too large');
+    }
+
+    const serverKeys = crypto.createECDH('prime256v1');
+    const serverPublicKey = serverKeys.generateKeys();
+    const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+    const ikm = this.hkdf(sharedSecret, authSecret, keyInfo, 32);
+    const contentKey = this.hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = this.hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    // 0x02 marks the last (and only) record
+    const ciphertext = Buffer.concat([cipher.update(Buffer.concat([content, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+
+  /**
+   * Generate a VAPID key pair for configuration
+   */
+  public generateVapidKeys(): Pick<VapidDetails, 'publicKey' | 'privateKey'> {
+    const keys = crypto.createECDH('prime256v1');
+    keys.generateKeys();
+    return {
+      publicKey: this.toBase64Url(keys.getPublicKey()),
+      privateKey: this.toBase64Url(keys.getPrivateKey())
+    };
+  }
+
+  private vapidAuthorization(audience: string, vapid: VapidDetails): string {
+    const publicKey = this.fromBase64Url(vapid.publicKey);
+    const key = crypto.createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: vapid.privateKey,
+        x: this.toBase64Url(publicKey.subarray(1, 33)),
+        y: this.toBase64Url(publicKey.subarray(33, 65))
+      },
+      format: 'jwk'
+    });
+
+    const encode = (value: object) => this.toBase64Url(Buffer.from(JSON.stringify(value)));
+    const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_SECONDS,
+      sub: vapid.subject
+    })}`;
+    const signature = crypto.sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+    return `vapid t=${unsigned}.${this.toBase64Url(signature)}, k=${vapid.publicKey}`;
+  }
+
+  private hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+    return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+  }
+
+  private fromBase64Url(value: string): Buffer {
+    return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  }
+
+  private toBase64Url(value: Buffer): string {
+    return value.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+}
+
+export default WebPushSender.getInstance();
@@ -1,8 +1,8 @@
 
 const Queue = require('bull');
-const axios = require('axios');
-const mongoose = require('mongoose');
 const Diagnosis = require('../models/Diagnosis');
+const { aiConfig } = require('../config/ai.config');
+const { llmGateway } = require('../services/ai/llm');
 
 const gptQueue = new Queue('gpt-queue', {
   redis: { host: 'localhost', port: 6379 }
@@ -14,20 +14,18 @@ gptQueue.process(async (job) => {
   try {
     const prompt = `Diagnose the following patient: ${JSON.stringify(patientData)}`;
 
-    const response = await axios.post('https://api.openai.com/v1/chat/completions', {
-      model: 'gpt-4',
+    // The gateway de-identifies the record, applies budgets and records usage
+    const completion = await llmGateway.complete({
+      config: aiConfig.openai.diagnosisModel,
       messages: [
         { role: 'system', content: 'You are a medical assistant.' },
         { role: 'user', content: prompt }
       ],
-      temperature: 0.3
-    }, {
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`
-      }
+      overrides: { temperature: 0.3 },
+      invocation: { feature: 'diagnosis.queued', userId: userId && String(userId) }
     });
 
-    const result = response.data.choices[0].message.content;
+    const result = completion.content;
 
     await Diagnosis.create({
       patientId: patientData.patientId,
@@ -0,0 +1,44 @@
+// Shows medication reminders pushed by the server and passes the chosen action to the app
+
+self.addEventListener('push', function (event) {
+  if (!event.data) {
+    return;
+  }
+
+  const reminder = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(reminder.title || 'Medication Reminder', {
+      body: reminder.body,
+      tag: 'medication-reminder-' + reminder.reminderId,
+      renotify: true,
+      requireInteraction: true,
+      data: reminder,
+      actions: [
+        { action: 'taken', title: 'Taken' },
+        { action: 'snooze', title: 'Snooze' },
+        { action: 'skipped', title: 'Skip' }
+      ]
+    })
+  );
+});
+
+self.addEventListener('notificationclick', function (event) {
+  const reminder = event.notification.data || {};
+  event.notification.close();
+  if (!event.action || !reminder.reminderId) {
+    event.waitUntil(self.clients.openWindow('/'));
+    return;
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(function (clients) {
+      if (clients.length > 0) {
+        clients[0].postMessage({ type: 'REMINDER_ACTION', reminderId: reminder.reminderId, action: event.action });
+        return clients[0].focus();
+      }
+      return self.clients.openWindow(
+        '/?reminder=' + encodeURIComponent(reminder.reminderId) + '&reminderAction=' + encodeURIComponent(event.action)
+      );
+    })
+  );
+});
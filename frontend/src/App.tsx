@@ -1,10 +1,11 @@
-import React, { lazy, Suspense } from 'react';
+import React, { lazy, Suspense, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { CssBaseline, ThemeProvider, createTheme, Box, CircularProgress } from '@mui/material';
 import { useSelector } from 'react-redux';
 import { AuthProvider } from './contexts/AuthContext';
 import DashboardLayout from './components/layout/DashboardLayout';
 import { useAuth } from './contexts/AuthContext';
+import { MedicationReminderService } from './services/MedicationReminderService';
 
 // Loading component
 const Loading = () => (
@@ -40,6 +41,13 @@ const PublicRoute: React.FC<{ children: React.ReactElement }> = ({ children }) =
 const DashboardRouter: React.FC = () => {
   const { user } = useAuth();
 
+  // Registers the reminder worker so actions chosen on a reminder notification reach the server
+  useEffect(() => {
+    if (user?.role === 'patient') {
+      MedicationReminderService.getInstance();
+    }
+  }, [user?.role]);
+
   switch (user?.role) {
     case 'patient':
       return <PatientDashboard patientId={user.id} />;
@@ -16,11 +16,14 @@ import {
 import {
     CheckCircle as CheckCircleIcon,
     Cancel as CancelIcon,
-    Notifications as NotificationsIcon
+    Notifications as NotificationsIcon,
+    LocalPharmacy as LocalPharmacyIcon
 } from '@mui/icons-material';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useSnackbar } from 'notistack';
 import { getMedicationSchedule, markMedicationTaken } from '../../services/api/medications';
+import prescriptionApi, { MedicationSupply } from '../../services/api/prescription';
+import { MedicationReminderService } from '../../services/MedicationReminderService';
 
 interface MedicationDose {
     id: string;
@@ -39,12 +42,35 @@ export const MedicationSchedule: React.FC<{ patientId: string }> = ({ patientId
         () => getMedicationSchedule(patientId)
     );
 
+    const { data: supply } = useQuery(
+        ['medicationSupply', patientId],
+        () => prescriptionApi.getSupplyForecast(patientId)
+    );
+
+    const runningLow = (supply || []).filter(
+        (item: MedicationSupply) => item.forecast.status === 'refill_due' || item.forecast.status === 'out'
+    );
+
     const markTakenMutation = useMutation(markMedicationTaken, {
         onSuccess: () => {
             enqueueSnackbar('Medication marked as taken', { variant: 'success' });
         }
     });
 
+    const enableRemindersMutation = useMutation({
+        mutationFn: () => MedicationReminderService.getInstance().enablePushReminders(),
+        onSuccess: (enabled: boolean) => {
+            if (enabled) {
+                enqueueSnackbar('Medication reminders enabled', { variant: 'success' });
+            } else {
+                enqueueSnackbar('Allow notifications in your browser to receive medication reminders', { variant: 'warning' });
+            }
+        },
+        onError: () => {
+            enqueueSnackbar('Could not enable medication reminders', { variant: 'error' });
+        }
+    });
+
     const groupByTime = (doses: MedicationDose[]) => {
         return doses?.reduce((acc, dose) => {
             const time = new Date(dose.scheduledTime).toLocaleTimeString([], {
@@ -67,6 +93,41 @@ export const MedicationSchedule: React.FC<{ patientId: string }> = ({ patientId
                 Today's Medication Schedule
             </Typography>
 
+            {runningLow.length > 0 && (
+                <Paper elevation={3} sx={{ p: 2, mb: 3, borderLeft: 4, borderColor: 'warning.main' }}>
+                    <Box display="flex" alignItems="center" gap={1} mb={1}>
+                        <LocalPharmacyIcon color="warning" />
+                        <Typography variant="h6">Running Low</Typography>
+                    </Box>
+                    <List dense>
+                        {runningLow.map((item: MedicationSupply) => (
+                            <ListItem key={item.medicationId}>
+                                <ListItemText
+                                    primary={item.medicationName}
+                                    secondary={
+                                        item.forecast.status === 'out'
+                                            ? 'Supply has run out'
+                                            : `About ${Math.floor(item.forecast.daysRemaining ?? 0)} days left` +
+                                              (item.forecast.runOutDate
+                                                  ? ` — runs out ${new Date(item.forecast.runOutDate).toLocaleDateString()}`
+                                                  : '')
+                                    }
+                                />
+                                <Chip
+                                    size="small"
+                                    label={item.refillsRemaining === undefined
+                                        ? 'Refill due'
+                                        : item.refillsRemaining > 0
+                                            ? `${item.refillsRemaining} refill${item.refillsRemaining === 1 ? '' : 's'} left`
+                                            : 'Renewal needed'}
+                                    color={item.forecast.status === 'out' ? 'error' : 'warning'}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                </Paper>
+            )}
+
             <Grid container spacing={3}>
                 {Object.entries(groupedSchedule || {}).map(([time, doses]) => (
                     <Grid item xs={12} md={6} key={time}>
@@ -125,9 +186,8 @@ export const MedicationSchedule: React.FC<{ patientId: string }> = ({ patientId
                 <Button
                     variant="contained"
                     startIcon={<NotificationsIcon />}
-                    onClick={() => {
-                        enqueueSnackbar('Medication reminders enabled', { variant: 'success' });
-                    }}
+                    disabled={enableRemindersMutation.isPending}
+                    onClick={() => enableRemindersMutation.mutate()}
                 >
                     Enable Reminders
                 </Button>
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import {
+    Box,
+    Grid,
+    Typography,
+    TextField,
+    FormControl,
+    InputLabel,
+    Select,
+    MenuItem,
+    Button,
+    Alert,
+    Stack
+} from '@mui/material';
+import { useMutation } from '@tanstack/react-query';
+import prescriptionApi, { PediatricDoseResult } from '../../services/api/prescription';
+
+interface PediatricDoseCalculatorProps {
+    patientAge: number;
+    patientWeight?: number;
+    patientHeight?: number;
+    frequency?: string;
+    onApply: (dosage: string) => void;
+}
+
+const dosageForms = ['liquid', 'tablet', 'capsule', 'injection', 'suppository', 'other'];
+
+/**
+ * Weight- (mg/kg) and BSA-based (mg/m²) dose calculator shown for patients under 18
+ */
+export const PediatricDoseCalculator: React.FC<PediatricDoseCalculatorProps> = ({
+    patientAge,
+    patientWeight,
+    patientHeight,
+    frequency,
+    onApply
+}) => {
+    const [weight, setWeight] = useState(patientWeight?.toString() || '');
+    const [height, setHeight] = useState(patientHeight?.toString() || '');
+    const [basis, setBasis] = useState<'kg' | 'm2'>('kg');
+    const [dosePerUnit, setDosePerUnit] = useState('');
+    const [adultMaxDose, setAdultMaxDose] = useState('');
+    const [dosageForm, setDosageForm] = useState('liquid');
+    const [strength, setStrength] = useState('');
+
+    const calculateMutation = useMutation({
+        mutationFn: () => prescriptionApi.calculatePediatricDose({
+            patient: {
+                weight: Number(weight),
+                height: height ? Number(height) : undefined,
+                age: patientAge
+            },
+            order: {
+                min: Number(dosePerUnit),
+                unit: 'mg',
+                basis,
+                adultMaxDose: adultMaxDose ? Number(adultMaxDose) : undefined,
+                dosageForm,
+                strength: strength || undefined
+            },
+            frequency
+        })
+    });
+
+    const result: PediatricDoseResult | undefined = calculateMutation.data;
+    const canCalculate = Number(weight) > 0 && Number(dosePerUnit) > 0 && (basis === 'kg' || Number(height) > 0);
+
+    const formatDosage = (dose: PediatricDoseResult) =>
+        dose.dispensable
+            ? `${dose.dose} ${dose.unit} (${dose.dispensable.display})`
+            : `${dose.dose} ${dose.unit}`;
+
+    return (
+        <Box sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+            <Typography variant="subtitle1" gutterBottom>
+                Pediatric dosing ({patientAge} years)
+            </Typography>
+            <Grid container spacing={2}>
+                <Grid item xs={6} md={3}>
+                    <TextField
+                        fullWidth
+                        size="small"
+                        label="Weight (kg)"
+                        type="number"
+                        value={weight}
+                        onChange={(e) => setWeight(e.target.value)}
+                    />
+                </Grid>
+                <Grid item xs={6} md={3}>
+                    <TextField
+                        fullWidth
+                        size="small"
+                        label="Height (cm)"
+                        type="number"
+                        value={height}
+                        onChange={(e) => setHeight(e.target.value)}
+                        required={basis === 'm2'}
+                    />
+                </Grid>
+                <Grid item xs={6} md={3}>
+                    <FormControl fullWidth size="small">
+                        <InputLabel>Basis</InputLabel>
+                        <Select
+                            label="Basis"
+                            value={basis}
+                            onChange={(e) => setBasis(e.target.value as 'kg' | 'm2')}
+                        >
+                            <MenuItem value="kg">mg/kg</MenuItem>
+                            <MenuItem value="m2">mg/m²</MenuItem>
+                        </Select>
+                    </FormControl>
+                </Grid>
+                <Grid item xs={6} md={3}>
+                    <TextField
+                        fullWidth
+                        size="small"
+                        label={basis === 'kg' ? 'Dose (mg/kg)' : 'Dose (mg/m²)'}
+                        type="number"
+                        value={dosePerUnit}
+                        onChange={(e) => setDosePerUnit(e.target.value)}
+                    />
+                </Grid>
+                <Grid item xs={6} md={4}>
+                    <FormControl fullWidth size="small">
+                        <InputLabel>Dosage form</InputLabel>
+                        <Select
+                            label="Dosage form"
+                            value={dosageForm}
+                            onChange={(e) => setDosageForm(e.target.value)}
+                        >
+                            {dosageForms.map(form => (
+                                <MenuItem key={form} value={form}>{form}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                </Grid>
+                <Grid item xs={6} md={4}>
+                    <TextField
+                        fullWidth
+                        size="small"
+                        label="Strength"
+                        placeholder={dosageForm === 'liquid' ? '250 mg/5 mL' : '500 mg'}
+                        value={strength}
+                        onChange={(e) => setStrength(e.target.value)}
+                    />
+                </Grid>
+                <Grid item xs={6} md={4}>
+                    <TextField
+                        fullWidth
+                        size="small"
+                        label="Adult max per dose (mg)"
+                        type="number"
+                        value={adultMaxDose}
+                        onChange={(e) => setAdultMaxDose(e.target.value)}
+                    />
+                </Grid>
+            </Grid>
+
+            <Box display="flex" gap={1} mt={2}>
+                <Button
+                    variant="outlined"
+                    onClick={() => calculateMutation.mutate()}
+                    disabled={!canCalculate || calculateMutation.isPending}
+                >
+                    Calculate
+                </Button>
+                {result && (
+                    <Button variant="contained" onClick={() => onApply(formatDosage(result))}>
+                        Use this dose
+                    </Button>
+                )}
+            </Box>
+
+            {calculateMutation.isError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                    Failed to calculate dose
+                </Alert>
+            )}
+
+            {result && (
+                <Stack spacing={1} mt={2}>
+                    {result.bsa && (
+                        <Typography variant="body2">
+                            BSA {result.bsa.value} m² ({result.bsa.used}; Mosteller {result.bsa.mosteller}, Haycock {result.bsa.haycock})
+                        </Typography>
+                    )}
+                    <Typography variant="body2">
+                        Calculated: {result.targetDose} {result.unit}
+                        {result.cappedAtAdultMax && ' (capped at adult maximum)'}
+                    </Typography>
+                    <Typography variant="body1">
+                        <strong>Dose: {formatDosage(result)}</strong>
+                        {result.dailyDose !== undefined && ` — ${result.dailyDose} ${result.unit}/day`}
+                    </Typography>
+                    {result.warnings.map(warning => (
+                        <Alert key={warning} severity="warning">{warning}</Alert>
+                    ))}
+                </Stack>
+            )}
+        </Box>
+    );
+};
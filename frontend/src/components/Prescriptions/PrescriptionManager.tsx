@@ -38,6 +38,7 @@ import {
 import { useSnackbar } from 'notistack';
 import { ApiResponse } from '../../types';
 import prescriptionApi from '../../services/api/prescription';
+import { PediatricDoseCalculator } from './PediatricDoseCalculator';
 
 interface Prescription {
     id: string;
@@ -64,9 +65,24 @@ interface UpdatePrescriptionData extends PrescriptionData {
     id: string;
 }
 
-export const PrescriptionManager: React.FC<{ patientId: string }> = ({ patientId }) => {
+interface PrescriptionManagerProps {
+    patientId: string;
+    patientAge?: number;
+    patientWeight?: number;
+    patientHeight?: number;
+}
+
+export const PrescriptionManager: React.FC<PrescriptionManagerProps> = ({
+    patientId,
+    patientAge,
+    patientWeight,
+    patientHeight
+}) => {
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingPrescription, setEditingPrescription] = useState<Prescription | null>(null);
+    const [calculatedDosage, setCalculatedDosage] = useState<string | undefined>();
+    const [frequency, setFrequency] = useState('');
+    const isPediatric = patientAge !== undefined && patientAge < 18;
     const { enqueueSnackbar } = useSnackbar();
     const queryClient = useQueryClient();
 
@@ -139,6 +155,8 @@ export const PrescriptionManager: React.FC<{ patientId: string }> = ({ patientId
     const handleCloseDialog = () => {
         setIsDialogOpen(false);
         setEditingPrescription(null);
+        setCalculatedDosage(undefined);
+        setFrequency('');
     };
 
     const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
@@ -254,10 +272,11 @@ export const PrescriptionManager: React.FC<{ patientId: string }> = ({ patientId
                             </Grid>
                             <Grid item xs={12} md={6}>
                                 <TextField
+                                    key={calculatedDosage}
                                     fullWidth
                                     name="dosage"
                                     label="Dosage"
-                                    defaultValue={editingPrescription?.dosage}
+                                    defaultValue={calculatedDosage ?? editingPrescription?.dosage}
                                     required
                                 />
                             </Grid>
@@ -267,9 +286,21 @@ export const PrescriptionManager: React.FC<{ patientId: string }> = ({ patientId
                                     name="frequency"
                                     label="Frequency"
                                     defaultValue={editingPrescription?.frequency}
+                                    onChange={(e) => setFrequency(e.target.value)}
                                     required
                                 />
                             </Grid>
+                            {isPediatric && (
+                                <Grid item xs={12}>
+                                    <PediatricDoseCalculator
+                                        patientAge={patientAge as number}
+                                        patientWeight={patientWeight}
+                                        patientHeight={patientHeight}
+                                        frequency={frequency || editingPrescription?.frequency}
+                                        onApply={setCalculatedDosage}
+                                    />
+                                </Grid>
+                            )}
                             <Grid item xs={12} md={6}>
                                 <TextField
                                     fullWidth
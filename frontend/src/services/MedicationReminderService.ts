@@ -1,11 +1,19 @@
-import { format } from 'date-fns';
+import reminderApi, { MedicationReminder, ReminderAction } from './api/reminders';
 
+const WORKER_URL = '/medication-reminder-worker.js';
+
+/**
+ * Connects the browser to server-side medication reminders: registers the reminder service
+ * worker and a Web Push subscription, and relays the actions chosen on a notification back
+ * to the server. Reminders are scheduled by the server, so they survive reloads and closed tabs.
+ */
 export class MedicationReminderService {
     private static instance: MedicationReminderService;
-    private worker: ServiceWorker | null = null;
+    private registration: ServiceWorkerRegistration | null = null;
+    private ready: Promise<void>;
 
     private constructor() {
-        this.initializeServiceWorker();
+        this.ready = this.initializeServiceWorker();
     }
 
     public static getInstance(): MedicationReminderService {
@@ -16,60 +24,91 @@ export class MedicationReminderService {
     }
 
     private async initializeServiceWorker() {
-        if ('serviceWorker' in navigator) {
-            try {
-                const registration = await navigator.serviceWorker.register('/medication-reminder-worker.js');
-                this.worker = registration.active;
-            } catch (error) {
-                console.error('Service Worker registration failed:', error);
-            }
+        if (!('serviceWorker' in navigator)) {
+            return;
+        }
+
+        try {
+            this.registration = await navigator.serviceWorker.register(WORKER_URL);
+            // The worker has no auth token, so it hands notification actions to an open tab
+            navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+                if (event.data?.type === 'REMINDER_ACTION') {
+                    this.respond(event.data.reminderId, event.data.action).catch(() => undefined);
+                }
+            });
+            this.handleActionFromUrl();
+        } catch (error) {
+            console.error('Service Worker registration failed:', error);
         }
     }
 
-    public async scheduleMedicationReminder(medication: {
-        name: string;
-        dosage: string;
-        time: Date;
-        instructions?: string;
-    }) {
-        if (!this.worker) {
-            console.error('Service Worker not initialized');
-            return;
+    /**
+     * Ask for notification permission and subscribe this browser to reminder pushes
+     */
+    public async enablePushReminders(): Promise<boolean> {
+        await this.ready;
+        if (!this.registration || !('PushManager' in window) || !('Notification' in window)) {
+            return false;
         }
 
-        const scheduledTime = new Date(medication.time).getTime();
-        
-        // Schedule local notification
-        if ('Notification' in window && Notification.permission === 'granted') {
-            const timeDiff = scheduledTime - Date.now();
-            if (timeDiff > 0) {
-                setTimeout(() => {
-                    new Notification('Medication Reminder', {
-                        body: `Time to take ${medication.name} (${medication.dosage})`,
-                        icon: '/icons/medication.png',
-                        badge: '/icons/badge.png',
-                        data: {
-                            medicationId: medication.id,
-                            instructions: medication.instructions
-                        }
-                    });
-                }, timeDiff);
-            }
+        const permission = await Notification.requestPermission();
+        if (permission !== 'granted') {
+            return false;
         }
 
-        // Send to service worker for background processing
-        this.worker.postMessage({
-            type: 'SCHEDULE_MEDICATION',
-            payload: medication
-        });
+        try {
+            const publicKey = await reminderApi.getPushKey();
+            const subscription = await this.registration.pushManager.getSubscription()
+                || await this.registration.pushManager.subscribe({
+                    userVisibleOnly: true,
+                    applicationServerKey: this.toUint8Array(publicKey)
+                });
+            await reminderApi.subscribe(subscription.toJSON());
+            return true;
+        } catch (error) {
+            console.error('Push subscription failed:', error);
+            return false;
+        }
     }
 
-    public async cancelReminder(medicationId: string) {
-        if (this.worker) {
-            this.worker.postMessage({
-                type: 'CANCEL_MEDICATION',
-                payload: { medicationId }
-            });
+    /**
+     * Stop reminder pushes to this browser
+     */
+    public async disablePushReminders(): Promise<void> {
+        await this.ready;
+        const subscription = await this.registration?.pushManager.getSubscription();
+        if (subscription) {
+            await reminderApi.unsubscribe(subscription.endpoint);
+            await subscription.unsubscribe();
         }
     }
-} 
\ No newline at end of file
+
+    public getUpcomingReminders(hours?: number): Promise<MedicationReminder[]> {
+        return reminderApi.getUpcoming(hours);
+    }
+
+    public respond(reminderId: string, action: ReminderAction, snoozeMinutes?: number): Promise<MedicationReminder> {
+        return reminderApi.respond(reminderId, action, snoozeMinutes);
+    }
+
+    /**
+     * Apply an action passed by the worker when it had to open a new tab
+     */
+    private handleActionFromUrl() {
+        const params = new URLSearchParams(window.location.search);
+        const reminderId = params.get('reminder');
+        const action = params.get('reminderAction') as ReminderAction | null;
+        if (reminderId && action) {
+            this.respond(reminderId, action).catch(() => undefined);
+            params.delete('reminder');
+            params.delete('reminderAction');
+            const query = params.toString();
+            window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+        }
+    }
+
+    private toUint8Array(base64Url: string): Uint8Array {
+        const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64Url.length / 4) * 4, '=');
+        return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    }
+}
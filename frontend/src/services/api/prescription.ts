@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { API_BASE_URL } from './config';
+import { API_BASE_URL, getAuthHeaders } from './config';
 
 // Types
 export interface DrugInteractionRisk {
@@ -84,6 +84,72 @@ export interface PrescriptionToCreate {
   additionalNotes?: string;
 }
 
+export interface PediatricDoseRequest {
+  patient: {
+    weight: number;
+    height?: number;
+    age?: number;
+  };
+  medicationId?: string;
+  order?: {
+    min: number;
+    max?: number;
+    unit: string;
+    basis: 'kg' | 'm2';
+    adultMaxDose?: number;
+    dosageForm?: string;
+    strength?: string;
+  };
+  frequency?: string;
+  bsaFormula?: 'mosteller' | 'haycock';
+}
+
+export interface PediatricDoseResult {
+  basis: 'kg' | 'm2';
+  bsa?: {
+    mosteller: number;
+    haycock: number;
+    used: 'mosteller' | 'haycock';
+    value: number;
+  };
+  calculatedRange: { min: number; max: number; unit: string };
+  targetDose: number;
+  cappedAtAdultMax: boolean;
+  dispensable?: {
+    quantity: number;
+    unit: string;
+    display: string;
+    dose: number;
+  };
+  dose: number;
+  unit: string;
+  dosesPerDay?: number;
+  dailyDose?: number;
+  warnings: string[];
+}
+
+export interface SupplyForecast {
+  unitsPerDose: number;
+  unitsPerDay?: number;
+  totalDispensed: number;
+  unitsUsed: number;
+  unitsOnHand: number;
+  daysRemaining?: number;
+  runOutDate?: string;
+  refillDueDate?: string;
+  status: 'ok' | 'refill_due' | 'out' | 'unknown';
+  basis: 'events' | 'schedule';
+}
+
+export interface MedicationSupply {
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  frequency: string;
+  refillsRemaining?: number;
+  forecast: SupplyForecast;
+}
+
 const prescriptionApi = {
   /**
    * Get AI-generated prescription recommendations based on patient data
@@ -148,6 +214,34 @@ const prescriptionApi = {
     }
   },
 
+  /**
+   * Calculate a weight- or BSA-based dose for a pediatric patient
+   */
+  calculatePediatricDose: async (data: PediatricDoseRequest): Promise<PediatricDoseResult> => {
+    try {
+      const response = await axios.post(`${API_BASE_URL}/api/medication-utils/pediatric-dose`, data);
+      return response.data.data;
+    } catch (error) {
+      console.error('Error calculating pediatric dose:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get projected supply and refill dates for a patient's dispensed medications
+   */
+  getSupplyForecast: async (patientId: string): Promise<MedicationSupply[]> => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/v1/adherence/patients/${patientId}/supply`, {
+        headers: getAuthHeaders()
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching medication supply forecast:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get prescription history for a patient
    */
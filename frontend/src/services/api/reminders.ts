@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { API_BASE_URL, getAuthHeaders } from './config';
+
+// Types
+export type ReminderAction = 'taken' | 'skipped' | 'snooze';
+
+export interface MedicationReminder {
+  _id: string;
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  instructions?: string;
+  scheduledFor: string;
+  localDate: string;
+  localTime: string;
+  timeZone: string;
+  status: 'pending' | 'sent' | 'snoozed' | 'taken' | 'skipped' | 'expired';
+  dueAt: string;
+  snoozeCount: number;
+}
+
+const REMINDERS_URL = `${API_BASE_URL}/api/v1/reminders`;
+
+const reminderApi = {
+  /**
+   * Get the current user's open reminders for the next hours
+   */
+  getUpcoming: async (hours?: number): Promise<MedicationReminder[]> => {
+    try {
+      const response = await axios.get(REMINDERS_URL, { params: { hours }, headers: getAuthHeaders() });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching medication reminders:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Mark a reminder taken or skipped, or snooze it
+   */
+  respond: async (reminderId: string, action: ReminderAction, snoozeMinutes?: number): Promise<MedicationReminder> => {
+    try {
+      const response = await axios.post(
+        `${REMINDERS_URL}/${reminderId}/actions`,
+        { action, snoozeMinutes },
+        { headers: getAuthHeaders() }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Error responding to medication reminder:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the server's VAPID public key for Web Push
+   */
+  getPushKey: async (): Promise<string> => {
+    try {
+      const response = await axios.get(`${REMINDERS_URL}/push/key`, { headers: getAuthHeaders() });
+      return response.data.data.publicKey;
+    } catch (error) {
+      console.error('Error fetching push key:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Register this browser's push subscription
+   */
+  subscribe: async (subscription: PushSubscriptionJSON): Promise<void> => {
+    try {
+      await axios.post(
+        `${REMINDERS_URL}/push/subscriptions`,
+        { endpoint: subscription.endpoint, keys: subscription.keys },
+        { headers: getAuthHeaders() }
+      );
+    } catch (error) {
+      console.error('Error registering push subscription:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove this browser's push subscription
+   */
+  unsubscribe: async (endpoint: string): Promise<void> => {
+    try {
+      await axios.delete(`${REMINDERS_URL}/push/subscriptions`, { data: { endpoint }, headers: getAuthHeaders() });
+    } catch (error) {
+      console.error('Error removing push subscription:', error);
+      throw error;
+    }
+  }
+};
+
+export default reminderApi;